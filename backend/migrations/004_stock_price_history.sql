@@ -0,0 +1,20 @@
+-- Migration: Daily stock price history
+-- Purpose: Store end-of-day prices so trade forward returns and alpha vs SPY can be computed
+-- Date: 2026-10-19
+
+CREATE TABLE IF NOT EXISTS stock_price_history (
+  ticker_symbol VARCHAR(10) NOT NULL REFERENCES stock_tickers(symbol) ON DELETE CASCADE,
+  price_date DATE NOT NULL,
+  open_price DECIMAL(12,4),
+  high_price DECIMAL(12,4),
+  low_price DECIMAL(12,4),
+  close_price DECIMAL(12,4) NOT NULL CHECK (close_price >= 0),
+  volume BIGINT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  PRIMARY KEY (ticker_symbol, price_date)
+);
+
+-- Forward-return lookups scan a short date range per symbol
+CREATE INDEX IF NOT EXISTS idx_stock_price_history_date ON stock_price_history(price_date);
+
+COMMENT ON TABLE stock_price_history IS 'Daily end-of-day prices from FMP, used for trade forward returns and benchmark comparison';
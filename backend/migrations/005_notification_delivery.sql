@@ -0,0 +1,38 @@
+-- Migration: Notification delivery channels
+-- Purpose: Persist per-user notification preferences and track delivery of each
+--          alert notification over email, webhook and in-app channels
+-- Date: 2026-10-19
+
+CREATE TABLE IF NOT EXISTS notification_preferences (
+  user_id UUID PRIMARY KEY REFERENCES users(id) ON DELETE CASCADE,
+  email_enabled BOOLEAN NOT NULL DEFAULT true,
+  push_enabled BOOLEAN NOT NULL DEFAULT true,
+  in_app_enabled BOOLEAN NOT NULL DEFAULT true,
+  webhook_enabled BOOLEAN NOT NULL DEFAULT false,
+  webhook_url TEXT,
+  webhook_secret VARCHAR(128), -- HMAC key for the X-CongressTracker-Signature header
+  frequency VARCHAR(20) NOT NULL DEFAULT 'immediate' CHECK (frequency IN ('immediate', 'hourly', 'daily')),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS notification_deliveries (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  notification_id UUID NOT NULL REFERENCES alert_notifications(id) ON DELETE CASCADE,
+  channel VARCHAR(20) NOT NULL CHECK (channel IN ('email', 'webhook', 'in_app')),
+  status VARCHAR(20) NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'retrying', 'sent', 'failed', 'skipped')),
+  attempts INTEGER NOT NULL DEFAULT 0,
+  last_error TEXT,
+  next_attempt_at TIMESTAMP WITH TIME ZONE,
+  delivered_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE (notification_id, channel)
+);
+
+-- Retry worker picks up deliveries whose backoff has elapsed
+CREATE INDEX IF NOT EXISTS idx_notification_deliveries_due
+  ON notification_deliveries(next_attempt_at)
+  WHERE status = 'retrying';
+
+COMMENT ON TABLE notification_deliveries IS 'Delivery status of each alert notification per channel, with retry state';
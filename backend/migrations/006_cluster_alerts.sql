@@ -0,0 +1,33 @@
+-- Migration: Cluster alerts
+-- Purpose: Committee rosters for committee-wide alert conditions, and a link
+--          table so a notification can reference every trade behind it
+-- Date: 2026-10-19
+
+CREATE TABLE IF NOT EXISTS committees (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  code VARCHAR(20) NOT NULL UNIQUE, -- e.g. SSBK (Senate Banking), HSAS (House Armed Services)
+  name VARCHAR(255) NOT NULL,
+  chamber VARCHAR(10) NOT NULL CHECK (chamber IN ('senate', 'house', 'joint')),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS committee_memberships (
+  committee_id UUID NOT NULL REFERENCES committees(id) ON DELETE CASCADE,
+  member_id UUID NOT NULL REFERENCES congressional_members(id) ON DELETE CASCADE,
+  role VARCHAR(50),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  PRIMARY KEY (committee_id, member_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_committee_memberships_member ON committee_memberships(member_id);
+
+CREATE TABLE IF NOT EXISTS alert_notification_trades (
+  notification_id UUID NOT NULL REFERENCES alert_notifications(id) ON DELETE CASCADE,
+  trade_id UUID NOT NULL REFERENCES stock_trades(id) ON DELETE CASCADE,
+  PRIMARY KEY (notification_id, trade_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_alert_notification_trades_trade ON alert_notification_trades(trade_id);
+
+COMMENT ON TABLE alert_notification_trades IS 'All trades that contributed to a notification; cluster alerts reference several';
@@ -0,0 +1,46 @@
+-- Migration: Alert digests
+-- Purpose: Let users receive matched alerts as hourly, daily or weekly digests
+--          instead of one notification per trade, per user or per alert
+-- Date: 2026-10-19
+
+ALTER TABLE notification_preferences DROP CONSTRAINT IF EXISTS notification_preferences_frequency_check;
+ALTER TABLE notification_preferences ADD CONSTRAINT notification_preferences_frequency_check
+  CHECK (frequency IN ('immediate', 'hourly', 'daily', 'weekly'));
+
+-- Per-alert override of the user's frequency; NULL follows the user's preference
+ALTER TABLE user_alerts ADD COLUMN IF NOT EXISTS digest_frequency VARCHAR(20)
+  CHECK (digest_frequency IN ('immediate', 'hourly', 'daily', 'weekly'));
+
+CREATE TABLE IF NOT EXISTS alert_digests (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  frequency VARCHAR(20) NOT NULL CHECK (frequency IN ('hourly', 'daily', 'weekly')),
+  period_start TIMESTAMP WITH TIME ZONE NOT NULL,
+  period_end TIMESTAMP WITH TIME ZONE NOT NULL,
+  notification_count INTEGER NOT NULL DEFAULT 0,
+  summary JSONB NOT NULL DEFAULT '{}', -- totals plus groupings by politician and by ticker
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_alert_digests_user ON alert_digests(user_id, created_at DESC);
+
+-- Notifications held for a digest carry its frequency until a digest includes them
+ALTER TABLE alert_notifications ADD COLUMN IF NOT EXISTS digest_frequency VARCHAR(20)
+  CHECK (digest_frequency IN ('hourly', 'daily', 'weekly'));
+ALTER TABLE alert_notifications ADD COLUMN IF NOT EXISTS digest_id UUID REFERENCES alert_digests(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_alert_notifications_digest_pending
+  ON alert_notifications(digest_frequency, user_id)
+  WHERE digest_frequency IS NOT NULL AND digest_id IS NULL;
+
+-- Digests are delivered and retried like individual notifications
+ALTER TABLE notification_deliveries ALTER COLUMN notification_id DROP NOT NULL;
+ALTER TABLE notification_deliveries ADD COLUMN IF NOT EXISTS digest_id UUID REFERENCES alert_digests(id) ON DELETE CASCADE;
+ALTER TABLE notification_deliveries DROP CONSTRAINT IF EXISTS notification_deliveries_target_check;
+ALTER TABLE notification_deliveries ADD CONSTRAINT notification_deliveries_target_check
+  CHECK ((notification_id IS NULL) <> (digest_id IS NULL));
+CREATE UNIQUE INDEX IF NOT EXISTS idx_notification_deliveries_digest_channel
+  ON notification_deliveries(digest_id, channel)
+  WHERE digest_id IS NOT NULL;
+
+COMMENT ON TABLE alert_digests IS 'Grouped summaries of alert notifications held back by a digest frequency';
@@ -0,0 +1,18 @@
+-- Migration: Notification quiet hours, rate caps and de-duplication
+-- Purpose: Hold alert notifications during a user's quiet hours or beyond their
+--          hourly cap and roll them into a summary, and notify once per trade
+-- Date: 2026-10-19
+
+ALTER TABLE notification_preferences ADD COLUMN IF NOT EXISTS quiet_hours_start TIME;
+ALTER TABLE notification_preferences ADD COLUMN IF NOT EXISTS quiet_hours_end TIME;
+ALTER TABLE notification_preferences ADD COLUMN IF NOT EXISTS timezone VARCHAR(64) NOT NULL DEFAULT 'UTC'; -- IANA name
+ALTER TABLE notification_preferences ADD COLUMN IF NOT EXISTS max_per_hour INTEGER CHECK (max_per_hour > 0);
+ALTER TABLE notification_preferences ADD COLUMN IF NOT EXISTS dedupe_trades BOOLEAN NOT NULL DEFAULT true;
+
+-- Why a notification was held for a summary instead of being delivered, and
+-- the earliest time the summary may include it
+ALTER TABLE alert_notifications ADD COLUMN IF NOT EXISTS held_reason VARCHAR(20)
+  CHECK (held_reason IN ('quiet_hours', 'rate_limit'));
+ALTER TABLE alert_notifications ADD COLUMN IF NOT EXISTS held_until TIMESTAMP WITH TIME ZONE;
+
+CREATE INDEX IF NOT EXISTS idx_alert_notifications_user_trade ON alert_notifications(user_id, trade_id);
@@ -0,0 +1,19 @@
+-- Migration: Trade owner
+-- Purpose: Store whose account a disclosed trade was made in (the member,
+--          their spouse, a joint account or a dependent child)
+-- Date: 2026-10-19
+
+ALTER TABLE stock_trades ADD COLUMN IF NOT EXISTS owner VARCHAR(10)
+  CHECK (owner IN ('self', 'spouse', 'joint', 'child'));
+
+-- Backfill from the owner recorded in the raw disclosure
+UPDATE stock_trades SET owner = CASE
+    WHEN LOWER(TRIM(source_data->'originalData'->>'owner')) = 'self' THEN 'self'
+    WHEN LOWER(TRIM(source_data->'originalData'->>'owner')) LIKE 'spouse%' THEN 'spouse'
+    WHEN LOWER(TRIM(source_data->'originalData'->>'owner')) LIKE 'joint%' THEN 'joint'
+    WHEN LOWER(source_data->'originalData'->>'owner') LIKE '%child%'
+      OR LOWER(source_data->'originalData'->>'owner') LIKE '%dependent%' THEN 'child'
+  END
+WHERE owner IS NULL AND source_data->'originalData'->>'owner' IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_stock_trades_owner ON stock_trades(owner);
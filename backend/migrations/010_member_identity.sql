@@ -0,0 +1,20 @@
+-- Migration: Canonical member identity
+-- Purpose: Bioguide IDs for congressional members, and name aliases the sync
+--          consults so spelling variants resolve to one member
+-- Date: 2026-10-19
+
+ALTER TABLE congressional_members ADD COLUMN IF NOT EXISTS bioguide_id VARCHAR(10) UNIQUE; -- e.g. T000278
+
+CREATE TABLE IF NOT EXISTS member_aliases (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  member_id UUID NOT NULL REFERENCES congressional_members(id) ON DELETE CASCADE,
+  alias VARCHAR(255) NOT NULL,
+  normalized_alias VARCHAR(255) NOT NULL, -- lowercased, punctuation and suffixes removed
+  source VARCHAR(20) NOT NULL DEFAULT 'manual' CHECK (source IN ('roster', 'sync', 'manual')),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE (member_id, normalized_alias)
+);
+
+CREATE INDEX IF NOT EXISTS idx_member_aliases_normalized ON member_aliases(normalized_alias);
+
+COMMENT ON TABLE member_aliases IS 'Name variants (e.g. "Tommy Tuberville", "Thomas H. Tuberville") that identify a member';
@@ -0,0 +1,23 @@
+-- Migration: Trader merge and split audit trail
+-- Purpose: Record every admin merge of duplicate members/insiders and every
+--          split of misattributed trades, with what was changed so it can be undone
+-- Date: 2026-10-19
+
+CREATE TABLE IF NOT EXISTS trader_corrections (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  operation VARCHAR(10) NOT NULL CHECK (operation IN ('merge', 'split')),
+  trader_type trader_type NOT NULL,
+  source_id UUID NOT NULL, -- merge: the duplicate removed; split: the trader trades were moved off
+  target_id UUID NOT NULL, -- merge: the survivor; split: the trader trades were moved to
+  source_snapshot JSONB, -- merge: the removed row with its aliases and committee seats, restored on undo
+  changes JSONB NOT NULL, -- IDs of every row re-pointed or closed
+  reason TEXT,
+  performed_by UUID REFERENCES users(id) ON DELETE SET NULL, -- NULL when run from the CLI
+  performed_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  undone_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  undone_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX IF NOT EXISTS idx_trader_corrections_source ON trader_corrections(trader_type, source_id);
+CREATE INDEX IF NOT EXISTS idx_trader_corrections_target ON trader_corrections(trader_type, target_id);
+CREATE INDEX IF NOT EXISTS idx_trader_corrections_performed ON trader_corrections(performed_at DESC);
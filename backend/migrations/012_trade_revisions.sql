@@ -0,0 +1,29 @@
+-- Migration: Trade revisions
+-- Purpose: Keep every version of a trade when a member amends or withdraws
+--          a disclosure, and let alerts notify on amendments
+-- Date: 2026-10-19
+
+ALTER TABLE stock_trades
+  ADD COLUMN IF NOT EXISTS status VARCHAR(20) NOT NULL DEFAULT 'active'
+    CHECK (status IN ('active', 'amended', 'withdrawn')),
+  ADD COLUMN IF NOT EXISTS revision INTEGER NOT NULL DEFAULT 1;
+
+CREATE INDEX IF NOT EXISTS idx_stock_trades_status ON stock_trades(status) WHERE status != 'active';
+
+-- One row per change after the original filing (revision 1)
+CREATE TABLE IF NOT EXISTS trade_revisions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  trade_id UUID NOT NULL REFERENCES stock_trades(id) ON DELETE CASCADE,
+  revision INTEGER NOT NULL,
+  status VARCHAR(20) NOT NULL CHECK (status IN ('active', 'amended', 'withdrawn')),
+  changes JSONB NOT NULL, -- { field: { from, to } } for each field that changed
+  reason TEXT,
+  source_data JSONB, -- the disclosure record that superseded the previous version
+  recorded_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE (trade_id, revision)
+);
+
+ALTER TABLE user_alerts ADD COLUMN IF NOT EXISTS notify_on_amendments BOOLEAN NOT NULL DEFAULT FALSE;
+
+-- The trade revision an amendment notification is about; NULL for new trades
+ALTER TABLE alert_notifications ADD COLUMN IF NOT EXISTS trade_revision INTEGER;
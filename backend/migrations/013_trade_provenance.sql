@@ -0,0 +1,13 @@
+-- Migration: Trade provenance
+-- Purpose: Record which data source each trade was imported from, so trades
+--          from FMP, local files and official disclosure dumps can be told apart
+-- Date: 2026-10-19
+
+ALTER TABLE stock_trades ADD COLUMN IF NOT EXISTS data_source VARCHAR(20)
+  CHECK (data_source IN ('fmp', 'file', 'house_clerk', 'senate_efd'));
+
+-- Everything synced so far came from FMP
+UPDATE stock_trades SET data_source = 'fmp'
+WHERE data_source IS NULL AND UPPER(source_data->>'source') = 'FMP';
+
+CREATE INDEX IF NOT EXISTS idx_stock_trades_data_source ON stock_trades(data_source);
@@ -0,0 +1,77 @@
+-- Migration: Insider filings
+-- Purpose: Keep the Form 4 detail of corporate insider trades (transaction
+--          code, exact shares and price, holdings after, CIKs) alongside
+--          the stock_trades row, and link insiders to their SEC CIK
+-- Date: 2026-10-19
+
+ALTER TABLE corporate_insiders ADD COLUMN IF NOT EXISTS cik VARCHAR(10); -- reporting owner's CIK
+ALTER TABLE corporate_insiders ADD COLUMN IF NOT EXISTS company_cik VARCHAR(10);
+
+CREATE INDEX IF NOT EXISTS idx_corporate_insiders_cik ON corporate_insiders(cik);
+
+CREATE TABLE IF NOT EXISTS insider_transactions (
+  trade_id UUID PRIMARY KEY REFERENCES stock_trades(id) ON DELETE CASCADE,
+  transaction_code CHAR(1) NOT NULL, -- Form 4 code: P purchase, S sale, M option exercise, A award, G gift, ...
+  acquired_disposed CHAR(1) CHECK (acquired_disposed IN ('A', 'D')),
+  shares NUMERIC(20, 4),
+  price_per_share NUMERIC(14, 4),
+  shares_owned_after NUMERIC(20, 4),
+  security_name VARCHAR(255),
+  owner_type VARCHAR(255), -- e.g. "director", "officer: Chief Executive Officer", "10 percent owner"
+  reporting_cik VARCHAR(10),
+  company_cik VARCHAR(10),
+  filing_url TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_insider_transactions_code ON insider_transactions(transaction_code);
+CREATE INDEX IF NOT EXISTS idx_insider_transactions_reporting_cik ON insider_transactions(reporting_cik);
+
+CREATE TRIGGER update_insider_transactions_updated_at BEFORE UPDATE ON insider_transactions
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Recover the detail of insider trades already synced from FMP
+INSERT INTO insider_transactions
+  (trade_id, transaction_code, acquired_disposed, shares, price_per_share, shares_owned_after,
+   security_name, owner_type, reporting_cik, company_cik, filing_url)
+SELECT
+  st.id,
+  UPPER(LEFT(od->>'transactionType', 1)),
+  CASE UPPER(LEFT(od->>'acquiredDisposedCode', 1)) WHEN 'A' THEN 'A' WHEN 'D' THEN 'D' END,
+  NULLIF(od->>'amountOfShares', '')::NUMERIC,
+  NULLIF(od->>'pricePerShare', '')::NUMERIC,
+  NULLIF(od->>'securitiesOwned', '')::NUMERIC,
+  od->>'securityName',
+  od->>'typeOfOwner',
+  od->>'reportingCik',
+  od->>'companyCik',
+  od->>'link'
+FROM (
+  SELECT id, source_data->'originalData' AS od FROM stock_trades WHERE trader_type = 'corporate'
+) st
+WHERE COALESCE(od->>'transactionType', '') <> ''
+ON CONFLICT (trade_id) DO NOTHING;
+
+-- Only open-market purchases and sales are buys and sells; awards, exercises,
+-- gifts and the like were recorded by acquired/disposed direction before
+UPDATE stock_trades st
+SET transaction_type = coded.transaction_type
+FROM (
+  SELECT trade_id,
+    (CASE transaction_code WHEN 'P' THEN 'buy' WHEN 'S' THEN 'sell' ELSE 'exchange' END)::transaction_type AS transaction_type
+  FROM insider_transactions
+) coded
+WHERE coded.trade_id = st.id
+  AND st.transaction_type <> coded.transaction_type;
+
+UPDATE corporate_insiders ci
+SET cik = latest.reporting_cik, company_cik = latest.company_cik
+FROM (
+  SELECT DISTINCT ON (st.trader_id) st.trader_id, it.reporting_cik, it.company_cik
+  FROM stock_trades st
+  JOIN insider_transactions it ON it.trade_id = st.id
+  WHERE st.trader_type = 'corporate' AND it.reporting_cik IS NOT NULL
+  ORDER BY st.trader_id, st.transaction_date DESC
+) latest
+WHERE ci.id = latest.trader_id AND ci.cik IS NULL;
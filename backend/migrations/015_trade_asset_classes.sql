@@ -0,0 +1,16 @@
+-- Migration: Trade asset classes
+-- Purpose: Classify what each trade was in (stock, option, ETF, mutual fund,
+--          bond, crypto) and keep the contract terms of option trades, so
+--          analytics don't mix a call option purchase with a bond buy
+-- Date: 2026-10-19
+
+-- NULL until classified; trades synced before this migration are classified
+-- from their source record by "npm run trades:classify-assets"
+ALTER TABLE stock_trades ADD COLUMN IF NOT EXISTS asset_class VARCHAR(20)
+  CHECK (asset_class IN ('stock', 'option', 'etf', 'mutual_fund', 'bond', 'crypto', 'other'));
+ALTER TABLE stock_trades ADD COLUMN IF NOT EXISTS option_type VARCHAR(4)
+  CHECK (option_type IN ('call', 'put'));
+ALTER TABLE stock_trades ADD COLUMN IF NOT EXISTS strike_price NUMERIC(14, 4);
+ALTER TABLE stock_trades ADD COLUMN IF NOT EXISTS expiration_date DATE;
+
+CREATE INDEX IF NOT EXISTS idx_stock_trades_asset_class ON stock_trades(asset_class);
@@ -0,0 +1,29 @@
+-- Migration: Sync run history
+-- Purpose: Record every trade sync run (scheduled or manual) with its timing,
+--          outcome counts and FMP API usage, and the live progress of the running one
+-- Date: 2026-10-19
+
+CREATE TABLE IF NOT EXISTS sync_runs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  run_type VARCHAR(20) NOT NULL CHECK (run_type IN ('daily', 'incremental', 'backfill', 'file')),
+  trigger VARCHAR(20) NOT NULL DEFAULT 'scheduled' CHECK (trigger IN ('scheduled', 'manual', 'cli')),
+  status VARCHAR(20) NOT NULL DEFAULT 'running' CHECK (status IN ('running', 'succeeded', 'failed')),
+  data_source VARCHAR(20), -- TRADE_DATA_SOURCE kind the run read from
+  triggered_by UUID REFERENCES users(id) ON DELETE SET NULL, -- admin who started a manual run
+  started_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  finished_at TIMESTAMP WITH TIME ZONE,
+  duration_ms INTEGER,
+  processed_count INTEGER NOT NULL DEFAULT 0,
+  created_count INTEGER NOT NULL DEFAULT 0,
+  updated_count INTEGER NOT NULL DEFAULT 0,
+  skipped_count INTEGER NOT NULL DEFAULT 0,
+  error_count INTEGER NOT NULL DEFAULT 0,
+  errors JSONB NOT NULL DEFAULT '[]', -- first errors reported by the sync
+  progress JSONB, -- latest { type, current, total } while running
+  progress_updated_at TIMESTAMP WITH TIME ZONE,
+  fmp_requests INTEGER, -- FMP API calls made during the run; NULL when FMP was not configured
+  fmp_rate_limit JSONB -- FMPClient rate limit status when the run finished
+);
+
+CREATE INDEX IF NOT EXISTS idx_sync_runs_started ON sync_runs(started_at DESC);
+CREATE INDEX IF NOT EXISTS idx_sync_runs_status ON sync_runs(status);
@@ -0,0 +1,10 @@
+-- Migration: User roles
+-- Purpose: Give users a role (user, analyst, admin) that gates the admin,
+--          sync and billing endpoints in place of the ADMIN_EMAILS list
+-- Date: 2026-10-19
+
+ALTER TABLE users ADD COLUMN IF NOT EXISTS role VARCHAR(20) NOT NULL DEFAULT 'user'
+  CHECK (role IN ('user', 'analyst', 'admin'));
+
+-- No one is an admin yet; create the first with: npm run users:roles -- create-admin <email>
+CREATE INDEX IF NOT EXISTS idx_users_role ON users(role) WHERE role != 'user';
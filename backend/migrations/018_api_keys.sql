@@ -0,0 +1,18 @@
+-- Migration: Personal API keys
+-- Purpose: Let users create scoped API keys for scripts, stored only as a
+--          SHA-256 hash, with last-used tracking and revocation
+-- Date: 2026-10-19
+
+CREATE TABLE IF NOT EXISTS api_keys (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  name VARCHAR(100) NOT NULL,
+  key_prefix VARCHAR(16) NOT NULL, -- start of the key, shown so users can tell keys apart
+  key_hash CHAR(64) NOT NULL UNIQUE, -- hex SHA-256 of the full key
+  scopes TEXT[] NOT NULL DEFAULT '{}', -- read:trades, read:analytics, manage:alerts
+  last_used_at TIMESTAMP WITH TIME ZONE,
+  revoked_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_api_keys_user ON api_keys(user_id, created_at DESC);
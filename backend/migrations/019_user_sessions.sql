@@ -0,0 +1,30 @@
+-- Migration: Login sessions and refresh tokens
+-- Purpose: Replace the single 7-day JWT with short-lived access tokens and
+--          rotating refresh tokens. Each login is a session users can list
+--          and revoke; refresh tokens are stored as SHA-256 hashes, and
+--          presenting one that was already rotated revokes its session.
+-- Date: 2026-10-19
+
+CREATE TABLE IF NOT EXISTS user_sessions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  user_agent TEXT,
+  ip_address VARCHAR(45),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  last_seen_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL, -- pushed back on every refresh
+  revoked_at TIMESTAMP WITH TIME ZONE,
+  revoked_reason VARCHAR(30) CHECK (revoked_reason IN ('logout', 'user_revoked', 'password_change', 'token_reuse'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_user_sessions_user ON user_sessions(user_id, last_seen_at DESC) WHERE revoked_at IS NULL;
+
+CREATE TABLE IF NOT EXISTS refresh_tokens (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  session_id UUID NOT NULL REFERENCES user_sessions(id) ON DELETE CASCADE,
+  token_hash CHAR(64) NOT NULL UNIQUE, -- hex SHA-256 of the token
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  rotated_at TIMESTAMP WITH TIME ZONE -- set once exchanged; a later use is a reuse
+);
+
+CREATE INDEX IF NOT EXISTS idx_refresh_tokens_session ON refresh_tokens(session_id);
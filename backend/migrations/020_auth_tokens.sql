@@ -0,0 +1,21 @@
+-- Migration: Password reset and email verification tokens
+-- Purpose: Persist single-use, expiring tokens for password reset and email
+--          verification links. Tokens are stored as SHA-256 hashes and are
+--          consumed by setting used_at, so a link works only once. Adds
+--          users.email_verified_at, set once an address is confirmed.
+-- Date: 2026-10-19
+
+ALTER TABLE users ADD COLUMN IF NOT EXISTS email_verified_at TIMESTAMP WITH TIME ZONE;
+
+CREATE TABLE IF NOT EXISTS auth_tokens (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  purpose VARCHAR(30) NOT NULL CHECK (purpose IN ('password_reset', 'email_verification')),
+  token_hash CHAR(64) NOT NULL UNIQUE,
+  email VARCHAR(255) NOT NULL, -- address the link was sent to; changing it invalidates the token
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  used_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX IF NOT EXISTS idx_auth_tokens_user_purpose ON auth_tokens(user_id, purpose) WHERE used_at IS NULL;
@@ -0,0 +1,34 @@
+-- Migration: Leave withdrawn trades out of portfolio_concentration
+-- Purpose: A withdrawn disclosure no longer describes a position
+-- Date: 2026-10-19
+
+DROP MATERIALIZED VIEW IF EXISTS portfolio_concentration;
+
+CREATE MATERIALIZED VIEW portfolio_concentration AS
+SELECT
+    trader_type,
+    trader_id,
+    ticker_symbol,
+    SUM(CASE WHEN transaction_type = 'buy' THEN estimated_value
+             WHEN transaction_type = 'sell' THEN -estimated_value
+             ELSE 0 END) as net_position_value,
+    COUNT(*) as transaction_count,
+    MAX(transaction_date) as latest_transaction,
+    -- Portfolio concentration metrics
+    SUM(SUM(estimated_value)) OVER (PARTITION BY trader_type, trader_id) as total_portfolio_value,
+    (SUM(CASE WHEN transaction_type = 'buy' THEN estimated_value
+              WHEN transaction_type = 'sell' THEN -estimated_value
+              ELSE 0 END) /
+     NULLIF(SUM(SUM(estimated_value)) OVER (PARTITION BY trader_type, trader_id), 0)) * 100 as position_percentage
+FROM stock_trades
+WHERE transaction_date >= NOW() - INTERVAL '2 years'
+  AND estimated_value IS NOT NULL
+  AND status != 'withdrawn'
+GROUP BY trader_type, trader_id, ticker_symbol
+HAVING SUM(CASE WHEN transaction_type = 'buy' THEN estimated_value
+                WHEN transaction_type = 'sell' THEN -estimated_value
+                ELSE 0 END) > 0;
+
+CREATE UNIQUE INDEX idx_portfolio_concentration_unique ON portfolio_concentration(trader_type, trader_id, ticker_symbol);
+CREATE INDEX idx_portfolio_concentration_trader ON portfolio_concentration(trader_type, trader_id);
+CREATE INDEX idx_portfolio_concentration_position ON portfolio_concentration(position_percentage DESC);
@@ -11,6 +11,7 @@
  *
  * This should only be run ONCE during initial setup.
  * After this, use dailySync for incremental updates.
+ * Historical datasets from elsewhere (CSV/NDJSON) load with scripts/import-trades.ts.
  *
  * Usage:
  *   docker compose exec backend-dev node --loader tsx scripts/backfill-historical.ts
@@ -20,6 +21,7 @@
 
 import 'dotenv/config';
 import { runHistoricalBackfill } from '../src/jobs/dailySync.js';
+import { SyncRunService } from '../src/services/SyncRunService.js';
 
 console.log('═'.repeat(70));
 console.log('  CONGRESSIONAL TRADING DATA - HISTORICAL BACKFILL');
@@ -37,7 +39,8 @@ console.log('');
 
 // Give user a moment to cancel if this was run accidentally
 setTimeout(() => {
-  runHistoricalBackfill()
+  SyncRunService.start('backfill', { trigger: 'cli' })
+    .then(runHistoricalBackfill)
     .then(() => {
       console.log('\n' + '═'.repeat(70));
       console.log('  ✅ HISTORICAL BACKFILL COMPLETED SUCCESSFULLY');
@@ -0,0 +1,34 @@
+#!/usr/bin/env tsx
+
+/**
+ * Asset Classification Script - Classifies stored trades as stock, option,
+ * ETF, mutual fund, bond, crypto or other, reading option terms from the
+ * disclosed asset description
+ *
+ * Usage:
+ *   tsx scripts/classify-assets.ts          # trades synced before classification
+ *   tsx scripts/classify-assets.ts --all    # reclassify every trade
+ */
+
+import 'dotenv/config';
+import { runAssetClassification } from '../src/jobs/assetClassification.js';
+
+const args = process.argv.slice(2);
+const unknown = args.filter(arg => arg !== '--all');
+
+if (unknown.length > 0) {
+  console.error('Usage: tsx scripts/classify-assets.ts [--all]');
+  process.exit(1);
+}
+
+console.log(`📡 Database: ${process.env.DATABASE_URL?.split('@')[1] || 'unknown'}`);
+console.log('');
+
+runAssetClassification({ all: args.includes('--all') })
+  .then(() => {
+    process.exit(0);
+  })
+  .catch((error) => {
+    console.error(error.stack);
+    process.exit(1);
+  });
@@ -0,0 +1,32 @@
+#!/usr/bin/env tsx
+
+/**
+ * Committee Roster Import Script - Loads committees and their members from the
+ * unitedstates/congress-legislators project (YAML or JSON). Members are matched
+ * by Bioguide ID, so import the legislators roster first.
+ *
+ * Usage:
+ *   tsx scripts/import-committees.ts committees-current.yaml committee-membership-current.yaml
+ */
+
+import 'dotenv/config';
+import { runCommitteeRosterImport } from '../src/jobs/memberRosterImport.js';
+
+const [committeesPath, membershipPath] = process.argv.slice(2).filter(arg => !arg.startsWith('--'));
+
+if (!committeesPath || !membershipPath) {
+  console.error('Usage: tsx scripts/import-committees.ts <committees file> <committee membership file>');
+  process.exit(1);
+}
+
+console.log(`📡 Database: ${process.env.DATABASE_URL?.split('@')[1] || 'unknown'}`);
+console.log('');
+
+runCommitteeRosterImport(committeesPath, membershipPath)
+  .then(() => {
+    process.exit(0);
+  })
+  .catch((error) => {
+    console.error(error.stack);
+    process.exit(1);
+  });
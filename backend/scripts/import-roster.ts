@@ -0,0 +1,34 @@
+#!/usr/bin/env tsx
+
+/**
+ * Member Roster Import Script - Loads a legislators file from the
+ * unitedstates/congress-legislators project (YAML or JSON)
+ *
+ * Usage:
+ *   tsx scripts/import-roster.ts legislators-current.yaml
+ *   tsx scripts/import-roster.ts legislators-historical.yaml --no-create  # only enrich existing members
+ */
+
+import 'dotenv/config';
+import { runMemberRosterImport } from '../src/jobs/memberRosterImport.js';
+
+const args = process.argv.slice(2);
+const filePath = args.find(arg => !arg.startsWith('--'));
+const createMissing = !args.includes('--no-create');
+
+if (!filePath) {
+  console.error('Usage: tsx scripts/import-roster.ts <legislators file> [--no-create]');
+  process.exit(1);
+}
+
+console.log(`📡 Database: ${process.env.DATABASE_URL?.split('@')[1] || 'unknown'}`);
+console.log('');
+
+runMemberRosterImport(filePath, { createMissing })
+  .then(() => {
+    process.exit(0);
+  })
+  .catch((error) => {
+    console.error(error.stack);
+    process.exit(1);
+  });
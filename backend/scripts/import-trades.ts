@@ -0,0 +1,68 @@
+#!/usr/bin/env tsx
+
+/**
+ * Trade Import Script - Loads historical congressional trades from a CSV,
+ * NDJSON or JSON file, e.g. a cleaned disclosure dataset
+ *
+ * Usage:
+ *   tsx scripts/import-trades.ts trades.csv --dry-run                 # validate and report only
+ *   tsx scripts/import-trades.ts trades.ndjson --chamber house
+ *   tsx scripts/import-trades.ts trades.csv --map ticker=Symbol --map transactionDate="Trade Date"
+ *
+ * Columns are matched by name (ticker, transactionDate, disclosureDate, type,
+ * amount, owner, name, state, district, chamber, ...); --map names the column
+ * for a field when the headers differ. Rows without a chamber column use
+ * --chamber.
+ */
+
+import 'dotenv/config';
+import { runTradeImport } from '../src/jobs/tradeImport.js';
+import { ColumnMapping } from '../src/services/dataSources/index.js';
+
+const USAGE = 'Usage: tsx scripts/import-trades.ts <file> [--dry-run] [--chamber house|senate] [--map field=column ...]';
+
+const args = process.argv.slice(2);
+const columnMapping: ColumnMapping = {};
+let filePath: string | undefined;
+let chamber: 'house' | 'senate' | undefined;
+let dryRun = false;
+
+for (let i = 0; i < args.length; i++) {
+  const arg = args[i];
+  if (arg === '--dry-run') {
+    dryRun = true;
+  } else if (arg === '--chamber') {
+    const value = args[++i];
+    if (value !== 'house' && value !== 'senate') {
+      console.error(USAGE);
+      process.exit(1);
+    }
+    chamber = value;
+  } else if (arg === '--map') {
+    const [field, ...column] = (args[++i] || '').split('=');
+    if (!field || column.length === 0) {
+      console.error(USAGE);
+      process.exit(1);
+    }
+    columnMapping[field as keyof ColumnMapping] = column.join('=');
+  } else if (!arg.startsWith('--')) {
+    filePath = arg;
+  }
+}
+
+if (!filePath) {
+  console.error(USAGE);
+  process.exit(1);
+}
+
+console.log(`📡 Database: ${process.env.DATABASE_URL?.split('@')[1] || 'unknown'}`);
+console.log('');
+
+runTradeImport(filePath, { columnMapping, chamber, dryRun })
+  .then(() => {
+    process.exit(0);
+  })
+  .catch((error) => {
+    console.error(error.stack);
+    process.exit(1);
+  });
@@ -0,0 +1,113 @@
+#!/usr/bin/env tsx
+
+/**
+ * Trader Merge Script - Merges duplicate congressional members or corporate
+ * insiders, splits misattributed trades off a trader and undoes either
+ *
+ * Usage:
+ *   tsx scripts/merge-traders.ts preview <type> <sourceId> <targetId>
+ *   tsx scripts/merge-traders.ts merge <type> <sourceId> <targetId> [--reason "..."]
+ *   tsx scripts/merge-traders.ts split <type> <sourceId> <targetId> <tradeId,tradeId,...> [--reason "..."]
+ *   tsx scripts/merge-traders.ts list [type] [traderId]
+ *   tsx scripts/merge-traders.ts undo <correctionId>
+ *
+ * <type> is "congressional" or "corporate". A merge moves everything from
+ * the source onto the target and deletes the source.
+ */
+
+import 'dotenv/config';
+import { TraderMergeService } from '../src/services/TraderMergeService.js';
+import { TraderCorrection } from '../src/models/TraderCorrection.js';
+import { TraderType } from '../src/models/StockTrade.js';
+
+const USAGE = `Usage:
+  tsx scripts/merge-traders.ts preview <type> <sourceId> <targetId>
+  tsx scripts/merge-traders.ts merge <type> <sourceId> <targetId> [--reason "..."]
+  tsx scripts/merge-traders.ts split <type> <sourceId> <targetId> <tradeId,tradeId,...> [--reason "..."]
+  tsx scripts/merge-traders.ts list [type] [traderId]
+  tsx scripts/merge-traders.ts undo <correctionId>`;
+
+const args = process.argv.slice(2);
+const reasonIndex = args.indexOf('--reason');
+const reason = reasonIndex >= 0 ? args[reasonIndex + 1] : undefined;
+const [command, ...params] = reasonIndex >= 0 ? args.slice(0, reasonIndex) : args;
+
+function printCorrection(correction: TraderCorrection): void {
+  const { changes } = correction;
+  console.log(`   Correction: ${correction.id}`);
+  console.log(`   Operation: ${correction.operation} (${correction.traderType})`);
+  console.log(`   Source: ${correction.sourceId}`);
+  console.log(`   Target: ${correction.targetId}`);
+  console.log(`   - Trades moved: ${changes.tradeIds.length}`);
+  if (correction.operation === 'merge') {
+    console.log(`   - Alerts moved: ${changes.alertIds.length}`);
+    console.log(`   - Follows moved: ${changes.followIds.length} (${changes.closedFollowIds.length} already following the target)`);
+    console.log(`   - Committee seats added: ${changes.committeeIds.length}`);
+    console.log(`   - Aliases added: ${changes.aliasIds.length}`);
+  }
+  if (correction.reason) console.log(`   Reason: ${correction.reason}`);
+  if (correction.undoneAt) console.log(`   Undone: ${new Date(correction.undoneAt).toISOString()}`);
+}
+
+async function main(): Promise<void> {
+  const [traderType, sourceId, targetId] = params as [TraderType, string, string];
+
+  switch (command) {
+    case 'preview': {
+      const preview = await TraderMergeService.previewMerge(traderType, sourceId, targetId);
+      console.log(`🔍 Merging "${preview.source.name}" into "${preview.target.name}" would move:`);
+      console.log(`   - Trades: ${preview.trades} (${preview.overlappingTrades} look like trades the target already has)`);
+      console.log(`   - Alerts: ${preview.alerts}`);
+      console.log(`   - Follows: ${preview.follows} (${preview.conflictingFollows} users already follow the target)`);
+      console.log(`   - Committee seats: ${preview.committees}`);
+      console.log(`   - Aliases: ${preview.aliases}`);
+      break;
+    }
+    case 'merge': {
+      const correction = await TraderMergeService.merge(traderType, sourceId, targetId, { reason });
+      console.log('✅ Traders merged');
+      printCorrection(correction);
+      break;
+    }
+    case 'split': {
+      const tradeIds = (params[3] || '').split(',').map(id => id.trim()).filter(Boolean);
+      const correction = await TraderMergeService.split(traderType, sourceId, targetId, tradeIds, { reason });
+      console.log('✅ Trades split off');
+      printCorrection(correction);
+      break;
+    }
+    case 'list': {
+      const { corrections, total } = await TraderCorrection.findAll({
+        traderType: params[0] as TraderType | undefined,
+        traderId: params[1]
+      });
+      console.log(`📋 ${total} corrections${total > corrections.length ? ` (showing ${corrections.length})` : ''}`);
+      corrections.forEach(correction => {
+        console.log('');
+        printCorrection(correction);
+      });
+      break;
+    }
+    case 'undo': {
+      const correction = await TraderMergeService.undo(params[0]);
+      console.log('↩️  Correction undone');
+      printCorrection(correction);
+      break;
+    }
+    default:
+      console.error(USAGE);
+      process.exit(1);
+  }
+}
+
+console.log(`📡 Database: ${process.env.DATABASE_URL?.split('@')[1] || 'unknown'}`);
+console.log('');
+
+main()
+  .then(() => {
+    process.exit(0);
+  })
+  .catch((error) => {
+    console.error(`❌ ${error.message}`);
+    process.exit(1);
+  });
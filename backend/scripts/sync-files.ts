@@ -0,0 +1,47 @@
+#!/usr/bin/env tsx
+
+/**
+ * File Sync Script - Loads congressional trades from downloaded files, for
+ * running without (or beyond the limits of) an FMP API key
+ *
+ * Usage:
+ *   tsx scripts/sync-files.ts --house house.csv --senate senate.csv
+ *   tsx scripts/sync-files.ts --source disclosure_dump --house all_transactions.json
+ *   tsx scripts/sync-files.ts --house trades.ndjson --senate trades.ndjson --force  # one file with a chamber column
+ *
+ * --source file (default) reads CSV, JSON or NDJSON with named columns;
+ * --source disclosure_dump reads House Clerk / Senate eFD JSON or XML dumps.
+ */
+
+import 'dotenv/config';
+import { runFileSync, FileSyncKind } from '../src/jobs/fileSync.js';
+import { SyncRunService } from '../src/services/SyncRunService.js';
+
+const args = process.argv.slice(2);
+const valueOf = (flag: string) => {
+  const index = args.indexOf(flag);
+  return index >= 0 ? args[index + 1] : undefined;
+};
+
+const kind = (valueOf('--source') || 'file') as FileSyncKind;
+const house = valueOf('--house');
+const senate = valueOf('--senate');
+const forceUpdate = args.includes('--force');
+
+if ((kind !== 'file' && kind !== 'disclosure_dump') || (!house && !senate)) {
+  console.error('Usage: tsx scripts/sync-files.ts [--source file|disclosure_dump] [--house <file>] [--senate <file>] [--force]');
+  process.exit(1);
+}
+
+console.log(`📡 Database: ${process.env.DATABASE_URL?.split('@')[1] || 'unknown'}`);
+console.log('');
+
+SyncRunService.start('file', { trigger: 'cli', dataSource: kind })
+  .then(run => runFileSync(kind, { house, senate }, forceUpdate, run))
+  .then(() => {
+    process.exit(0);
+  })
+  .catch((error) => {
+    console.error(error.stack);
+    process.exit(1);
+  });
@@ -10,13 +10,15 @@
 
 import 'dotenv/config';
 import { runDailySync } from '../src/jobs/dailySync.js';
+import { SyncRunService } from '../src/services/SyncRunService.js';
 
 console.log('🚀 Starting quick data sync...\n');
 console.log(`📡 Database: ${process.env.DATABASE_URL?.split('@')[1] || 'unknown'}`);
 console.log(`🔑 FMP API Key: ${process.env.FMP_API_KEY?.slice(0, 10)}...`);
 console.log('');
 
-runDailySync()
+SyncRunService.start('daily', { trigger: 'cli' })
+  .then(runDailySync)
   .then(() => {
     console.log('\n✅ Sync completed successfully!');
     process.exit(0);
@@ -0,0 +1,30 @@
+#!/usr/bin/env tsx
+
+/**
+ * Price History Sync Script - Fetches daily prices for traded tickers and SPY
+ *
+ * Usage:
+ *   tsx scripts/sync-prices.ts            # every traded ticker
+ *   tsx scripts/sync-prices.ts AAPL MSFT  # specific tickers (SPY is always included)
+ */
+
+import 'dotenv/config';
+import { runPriceHistorySync } from '../src/jobs/priceHistorySync.js';
+
+const symbols = process.argv.slice(2);
+
+console.log('🚀 Starting price history sync...\n');
+console.log(`📡 Database: ${process.env.DATABASE_URL?.split('@')[1] || 'unknown'}`);
+console.log(`📈 Symbols: ${symbols.length > 0 ? symbols.join(', ') : 'all traded tickers'}`);
+console.log('');
+
+runPriceHistorySync(symbols.length > 0 ? symbols : undefined)
+  .then(() => {
+    console.log('\n✅ Price sync completed successfully!');
+    process.exit(0);
+  })
+  .catch((error) => {
+    console.error('\n❌ Price sync failed:', error);
+    console.error(error.stack);
+    process.exit(1);
+  });
@@ -0,0 +1,139 @@
+#!/usr/bin/env tsx
+
+/**
+ * User Roles Script - Creates the first administrator, grants or revokes
+ * the analyst and admin roles, and resets two-factor authentication
+ *
+ * Usage:
+ *   tsx scripts/user-roles.ts create-admin <email> [--password "..."] [--name "..."]
+ *   tsx scripts/user-roles.ts set <email> <role>
+ *   tsx scripts/user-roles.ts list [role]
+ *   tsx scripts/user-roles.ts reset-2fa <email>
+ *
+ * create-admin promotes an existing account, or creates one when --password
+ * is given. <role> is "user", "analyst" or "admin". reset-2fa turns off 2FA
+ * for someone who lost both their authenticator and their recovery codes,
+ * and logs them out everywhere.
+ */
+
+import 'dotenv/config';
+import { User, USER_ROLES, UserRole } from '../src/models/User.js';
+import { TwoFactorAuth } from '../src/models/TwoFactorAuth.js';
+import { UserSession } from '../src/models/UserSession.js';
+
+const USAGE = `Usage:
+  tsx scripts/user-roles.ts create-admin <email> [--password "..."] [--name "..."]
+  tsx scripts/user-roles.ts set <email> <role>
+  tsx scripts/user-roles.ts list [role]
+  tsx scripts/user-roles.ts reset-2fa <email>`;
+
+const args = process.argv.slice(2);
+
+function takeOption(name: string): string | undefined {
+  const index = args.indexOf(name);
+  if (index < 0) return undefined;
+  const [, value] = args.splice(index, 2);
+  return value;
+}
+
+const password = takeOption('--password');
+const name = takeOption('--name');
+const [command, ...params] = args;
+
+function printUser(user: User): void {
+  console.log(`   ${user.email} (${user.role})${user.name ? ` - ${user.name}` : ''}`);
+}
+
+async function findUser(email: string): Promise<User> {
+  const user = await User.findByEmail(email);
+  if (!user) {
+    throw new Error(`No user with email ${email}`);
+  }
+  return user;
+}
+
+async function main(): Promise<void> {
+  switch (command) {
+    case 'create-admin': {
+      const email = params[0];
+      if (!email) {
+        console.error(USAGE);
+        process.exit(1);
+      }
+
+      let user = await User.findByEmail(email);
+      if (!user) {
+        if (!password) {
+          throw new Error(`No user with email ${email}; pass --password to create one`);
+        }
+        user = await User.create({ email, password, name });
+        console.log('👤 User created');
+      }
+
+      await user.updateRole('admin');
+      console.log('✅ Administrator ready');
+      printUser(user);
+      break;
+    }
+    case 'set': {
+      const [email, role] = params;
+      if (!email || !USER_ROLES.includes(role as UserRole)) {
+        console.error(USAGE);
+        process.exit(1);
+      }
+
+      const user = await findUser(email);
+      await user.updateRole(role as UserRole);
+      console.log('✅ Role updated');
+      printUser(user);
+      break;
+    }
+    case 'list': {
+      const roles = params[0] ? [params[0] as UserRole] : USER_ROLES.filter(role => role !== 'user');
+      if (!roles.every(role => USER_ROLES.includes(role))) {
+        console.error(USAGE);
+        process.exit(1);
+      }
+
+      for (const role of roles) {
+        const users = await User.findByRole(role);
+        console.log(`📋 ${users.length} ${role} users`);
+        users.forEach(printUser);
+      }
+      break;
+    }
+    case 'reset-2fa': {
+      const email = params[0];
+      if (!email) {
+        console.error(USAGE);
+        process.exit(1);
+      }
+
+      const user = await findUser(email);
+      if (!user.isTwoFactorEnabled()) {
+        throw new Error(`${email} does not have two-factor authentication enabled`);
+      }
+
+      await TwoFactorAuth.disable(user.id!);
+      const revoked = await UserSession.revokeAllForUser(user.id!, 'user_revoked');
+      console.log(`✅ Two-factor authentication turned off; ${revoked} sessions revoked`);
+      printUser(user);
+      break;
+    }
+    default:
+      console.error(USAGE);
+      process.exit(1);
+  }
+}
+
+console.log(`📡 Database: ${process.env.DATABASE_URL?.split('@')[1] || 'unknown'}`);
+console.log('');
+
+main()
+  .then(() => {
+    process.exit(0);
+  })
+  .catch((error) => {
+    console.error(`❌ ${error.message}`);
+    process.exit(1);
+  });
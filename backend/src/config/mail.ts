@@ -0,0 +1,36 @@
+import nodemailer, { Transporter } from 'nodemailer';
+import dotenv from 'dotenv';
+
+dotenv.config();
+
+/**
+ * SMTP transport for outgoing mail. Defaults point at a local stand-in
+ * such as Mailpit (docker compose --profile dev) on port 1025.
+ */
+let transport: Transporter | null = null;
+
+export function getMailTransport(): Transporter {
+  if (!transport) {
+    const user = process.env.SMTP_USER;
+    const pass = process.env.SMTP_PASSWORD;
+
+    transport = nodemailer.createTransport({
+      host: process.env.SMTP_HOST || 'localhost',
+      port: parseInt(process.env.SMTP_PORT || '1025'),
+      secure: process.env.SMTP_SECURE === 'true',
+      auth: user ? { user, pass } : undefined
+    });
+  }
+  return transport;
+}
+
+export function getMailFrom(): string {
+  return process.env.MAIL_FROM || 'CongressTracker <alerts@congresstracker.local>';
+}
+
+/**
+ * Replace the transport, e.g. with nodemailer's JSON transport in tests
+ */
+export function setMailTransport(custom: Transporter | null): void {
+  transport = custom;
+}
@@ -0,0 +1,456 @@
+import { Request, Response } from 'express';
+import { TraderMergeService } from '../services/TraderMergeService';
+import { TraderCorrection } from '../models/TraderCorrection';
+import { TradeService } from '../services/TradeService';
+import { TradeImportService, IMPORT_FORMATS, ImportFormat } from '../services/TradeImportService';
+import { User, USER_ROLES, UserRole } from '../models/User';
+import { AppSetting } from '../models/AppSetting';
+import { AppError } from '../middleware/errors';
+import { isUuid } from '../middleware/validation';
+
+const TRADER_TYPES = ['congressional', 'corporate'];
+
+export class AdminController {
+  /**
+   * Preview merging one trader into another
+   */
+  static async previewTraderMerge(req: Request, res: Response): Promise<void> {
+    try {
+      const { traderType, sourceId, targetId } = req.body;
+
+      const preview = await TraderMergeService.previewMerge(traderType, sourceId, targetId);
+
+      res.status(200).json({
+        success: true,
+        data: preview
+      });
+    } catch (error) {
+      AdminController.handleError(res, error, 'Preview trader merge controller error:', 'Internal server error during merge preview');
+    }
+  }
+
+  /**
+   * Merge a duplicate trader into the one that should remain
+   */
+  static async mergeTraders(req: Request, res: Response): Promise<void> {
+    try {
+      const userId = (req as any).user?.id;
+      const { traderType, sourceId, targetId, reason } = req.body;
+
+      const correction = await TraderMergeService.merge(traderType, sourceId, targetId, {
+        reason,
+        performedBy: userId
+      });
+
+      res.status(201).json({
+        success: true,
+        data: correction
+      });
+    } catch (error) {
+      AdminController.handleError(res, error, 'Merge traders controller error:', 'Internal server error during trader merge');
+    }
+  }
+
+  /**
+   * Move misattributed trades from one trader to another
+   */
+  static async splitTrader(req: Request, res: Response): Promise<void> {
+    try {
+      const userId = (req as any).user?.id;
+      const { traderType, sourceId, targetId, tradeIds, reason } = req.body;
+
+      if (!Array.isArray(tradeIds) || tradeIds.some(id => typeof id !== 'string')) {
+        res.status(400).json({
+          success: false,
+          error: 'tradeIds must be an array of trade IDs'
+        });
+        return;
+      }
+
+      const correction = await TraderMergeService.split(traderType, sourceId, targetId, tradeIds, {
+        reason,
+        performedBy: userId
+      });
+
+      res.status(201).json({
+        success: true,
+        data: correction
+      });
+    } catch (error) {
+      AdminController.handleError(res, error, 'Split trader controller error:', 'Internal server error during trader split');
+    }
+  }
+
+  /**
+   * List merges and splits, newest first
+   */
+  static async getTraderCorrections(req: Request, res: Response): Promise<void> {
+    try {
+      const { traderType, traderId, limit, offset } = req.query;
+
+      if (traderType && !TRADER_TYPES.includes(traderType as string)) {
+        res.status(400).json({
+          success: false,
+          error: 'traderType must be "congressional" or "corporate"'
+        });
+        return;
+      }
+
+      if (traderId && !isUuid(traderId)) {
+        res.status(400).json({
+          success: false,
+          error: 'traderId must be a valid UUID'
+        });
+        return;
+      }
+
+      let limitNum = 50;
+      if (limit) {
+        limitNum = parseInt(limit as string);
+        if (isNaN(limitNum) || limitNum < 1 || limitNum > 100) {
+          res.status(400).json({
+            success: false,
+            error: 'limit must be between 1 and 100'
+          });
+          return;
+        }
+      }
+
+      let offsetNum = 0;
+      if (offset) {
+        offsetNum = parseInt(offset as string);
+        if (isNaN(offsetNum) || offsetNum < 0) {
+          res.status(400).json({
+            success: false,
+            error: 'offset must be non-negative'
+          });
+          return;
+        }
+      }
+
+      const result = await TraderCorrection.findAll(
+        {
+          traderType: traderType as any,
+          traderId: traderId as string | undefined
+        },
+        limitNum,
+        offsetNum
+      );
+
+      res.status(200).json({
+        success: true,
+        data: result
+      });
+    } catch (error) {
+      AdminController.handleError(res, error, 'Get trader corrections controller error:', 'Internal server error during corrections fetch');
+    }
+  }
+
+  /**
+   * Get one merge or split
+   */
+  static async getTraderCorrectionById(req: Request, res: Response): Promise<void> {
+    try {
+      if (!isUuid(req.params.id)) {
+        res.status(400).json({
+          success: false,
+          error: 'Invalid correction ID'
+        });
+        return;
+      }
+
+      const correction = await TraderCorrection.findById(req.params.id);
+
+      if (!correction) {
+        res.status(404).json({
+          success: false,
+          error: 'Correction not found'
+        });
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        data: correction
+      });
+    } catch (error) {
+      AdminController.handleError(res, error, 'Get trader correction controller error:', 'Internal server error during correction fetch');
+    }
+  }
+
+  /**
+   * Reverse a merge or split
+   */
+  static async undoTraderCorrection(req: Request, res: Response): Promise<void> {
+    try {
+      const userId = (req as any).user?.id;
+
+      const correction = await TraderMergeService.undo(req.params.id, userId);
+
+      res.status(200).json({
+        success: true,
+        data: correction
+      });
+    } catch (error) {
+      AdminController.handleError(res, error, 'Undo trader correction controller error:', 'Internal server error during correction undo');
+    }
+  }
+
+  /**
+   * Mark a trade as withdrawn by its filer
+   */
+  static async withdrawTrade(req: Request, res: Response): Promise<void> {
+    try {
+      const { reason } = req.body;
+
+      const history = await TradeService.withdrawTrade(req.params.id, reason);
+
+      if (!history) {
+        res.status(404).json({
+          success: false,
+          error: 'Trade not found'
+        });
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        data: history
+      });
+    } catch (error) {
+      AdminController.handleError(res, error, 'Withdraw trade controller error:', 'Internal server error during trade withdrawal');
+    }
+  }
+
+  /**
+   * Import historical trades from uploaded CSV, NDJSON or JSON, or with
+   * dryRun just validate them and report what would change
+   */
+  static async importTrades(req: Request, res: Response): Promise<void> {
+    try {
+      const userId = (req as any).user?.id;
+      const { format, data, columnMapping, chamber, dryRun, fileName } = req.body;
+
+      if (!IMPORT_FORMATS.includes(format)) {
+        res.status(400).json({
+          success: false,
+          error: `format must be one of: ${IMPORT_FORMATS.join(', ')}`
+        });
+        return;
+      }
+
+      if (typeof data !== 'string' || data.trim() === '') {
+        res.status(400).json({
+          success: false,
+          error: 'data must be the contents of the file to import'
+        });
+        return;
+      }
+
+      if (columnMapping !== undefined && (typeof columnMapping !== 'object' || columnMapping === null || Array.isArray(columnMapping))) {
+        res.status(400).json({
+          success: false,
+          error: 'columnMapping must map field names to column names'
+        });
+        return;
+      }
+
+      if (chamber !== undefined && chamber !== 'house' && chamber !== 'senate') {
+        res.status(400).json({
+          success: false,
+          error: 'chamber must be "house" or "senate"'
+        });
+        return;
+      }
+
+      const report = await TradeImportService.importContent(data, format as ImportFormat, {
+        columnMapping,
+        chamber,
+        dryRun: dryRun === true,
+        fileName: typeof fileName === 'string' ? fileName : undefined,
+        importedBy: userId
+      });
+
+      res.status(report.dryRun ? 200 : 201).json({
+        success: true,
+        data: report
+      });
+    } catch (error) {
+      AdminController.handleError(res, error, 'Import trades controller error:', 'Internal server error during trade import');
+    }
+  }
+
+  /**
+   * List users, optionally only those with a role
+   */
+  static async getUsers(req: Request, res: Response): Promise<void> {
+    try {
+      const { role, limit, offset } = req.query;
+
+      if (role && !USER_ROLES.includes(role as UserRole)) {
+        res.status(400).json({
+          success: false,
+          error: `role must be one of: ${USER_ROLES.join(', ')}`
+        });
+        return;
+      }
+
+      let limitNum = 50;
+      if (limit) {
+        limitNum = parseInt(limit as string);
+        if (isNaN(limitNum) || limitNum < 1 || limitNum > 100) {
+          res.status(400).json({
+            success: false,
+            error: 'limit must be between 1 and 100'
+          });
+          return;
+        }
+      }
+
+      let offsetNum = 0;
+      if (offset) {
+        offsetNum = parseInt(offset as string);
+        if (isNaN(offsetNum) || offsetNum < 0) {
+          res.status(400).json({
+            success: false,
+            error: 'offset must be non-negative'
+          });
+          return;
+        }
+      }
+
+      const [users, total] = await Promise.all([
+        User.findAll(limitNum, offsetNum, role as UserRole | undefined),
+        User.count(role as UserRole | undefined)
+      ]);
+
+      res.status(200).json({
+        success: true,
+        data: users,
+        pagination: {
+          total,
+          limit: limitNum,
+          offset: offsetNum,
+          hasMore: offsetNum + users.length < total
+        }
+      });
+    } catch (error) {
+      AdminController.handleError(res, error, 'Get users controller error:', 'Internal server error during users fetch');
+    }
+  }
+
+  /**
+   * Grant or revoke the analyst and admin roles
+   */
+  static async updateUserRole(req: Request, res: Response): Promise<void> {
+    try {
+      const userId = (req as any).user?.id;
+      const { role } = req.body;
+
+      if (!USER_ROLES.includes(role)) {
+        res.status(400).json({
+          success: false,
+          error: `role must be one of: ${USER_ROLES.join(', ')}`
+        });
+        return;
+      }
+
+      // Another admin has to do it, so there is always at least one left
+      if (req.params.id === userId) {
+        res.status(400).json({
+          success: false,
+          error: 'You cannot change your own role'
+        });
+        return;
+      }
+
+      const user = await User.findById(req.params.id);
+
+      if (!user) {
+        res.status(404).json({
+          success: false,
+          error: 'User not found'
+        });
+        return;
+      }
+
+      await user.updateRole(role);
+
+      res.status(200).json({
+        success: true,
+        data: user
+      });
+    } catch (error) {
+      AdminController.handleError(res, error, 'Update user role controller error:', 'Internal server error during role update');
+    }
+  }
+
+  /**
+   * Settings administrators control, such as requiring 2FA for admins
+   */
+  static async getSettings(req: Request, res: Response): Promise<void> {
+    try {
+      const settings = await AppSetting.getAll();
+
+      res.status(200).json({
+        success: true,
+        data: settings
+      });
+    } catch (error) {
+      AdminController.handleError(res, error, 'Get settings controller error:', 'Internal server error during settings fetch');
+    }
+  }
+
+  /**
+   * Change settings; only the fields present in the body are updated
+   */
+  static async updateSettings(req: Request, res: Response): Promise<void> {
+    try {
+      const { requireAdminTwoFactor } = req.body;
+
+      if (requireAdminTwoFactor !== undefined) {
+        if (typeof requireAdminTwoFactor !== 'boolean') {
+          res.status(400).json({
+            success: false,
+            error: 'requireAdminTwoFactor must be a boolean'
+          });
+          return;
+        }
+
+        // Otherwise the admin making the change would lock themselves out
+        if (requireAdminTwoFactor && !req.user!.isTwoFactorEnabled()) {
+          res.status(400).json({
+            success: false,
+            error: 'Enable two-factor authentication on your own account before requiring it for admins'
+          });
+          return;
+        }
+
+        await AppSetting.set('requireAdminTwoFactor', requireAdminTwoFactor, req.userId);
+      }
+
+      res.status(200).json({
+        success: true,
+        data: await AppSetting.getAll()
+      });
+    } catch (error) {
+      AdminController.handleError(res, error, 'Update settings controller error:', 'Internal server error during settings update');
+    }
+  }
+
+  private static handleError(res: Response, error: unknown, logMessage: string, responseMessage: string): void {
+    if (error instanceof AppError) {
+      res.status(error.statusCode).json({
+        success: false,
+        error: error.message
+      });
+      return;
+    }
+
+    console.error(logMessage, error);
+    res.status(500).json({
+      success: false,
+      error: responseMessage
+    });
+  }
+}
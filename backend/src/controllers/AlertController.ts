@@ -1,5 +1,12 @@
 import { Request, Response } from 'express';
 import { AlertService, CreateAlertData, NotificationPreferences } from '../services/AlertService';
+import { ValidationError } from '../middleware/errors';
+import {
+  NOTIFICATION_FREQUENCIES,
+  isValidTimeOfDay,
+  isValidTimezone
+} from '../models/NotificationPreference';
+import { checkWebhookUrl } from '../services/notifications';
 
 export class AlertController {
   /**
@@ -16,7 +23,7 @@ export class AlertController {
         return;
       }
 
-      const { alertType, politicianId, tickerSymbol, patternConfig } = req.body;
+      const { alertType, politicianId, tickerSymbol, patternConfig, digestFrequency, notifyOnAmendments } = req.body;
 
       // Validate required fields
       if (!alertType) {
@@ -60,12 +67,30 @@ export class AlertController {
         return;
       }
 
+      if (digestFrequency != null && !NOTIFICATION_FREQUENCIES.includes(digestFrequency)) {
+        res.status(400).json({
+          success: false,
+          error: `digestFrequency must be one of: ${NOTIFICATION_FREQUENCIES.join(', ')}`
+        });
+        return;
+      }
+
+      if (notifyOnAmendments !== undefined && typeof notifyOnAmendments !== 'boolean') {
+        res.status(400).json({
+          success: false,
+          error: 'notifyOnAmendments must be a boolean'
+        });
+        return;
+      }
+
       const alertData: CreateAlertData = {
         userId,
         alertType,
         politicianId,
         tickerSymbol: tickerSymbol?.toUpperCase(),
-        patternConfig
+        patternConfig,
+        digestFrequency,
+        notifyOnAmendments
       };
 
       const alert = await AlertService.createAlert(alertData);
@@ -83,6 +108,13 @@ export class AlertController {
         data: alert
       });
     } catch (error) {
+      if (error instanceof ValidationError) {
+        res.status(400).json({
+          success: false,
+          error: error.message
+        });
+        return;
+      }
       console.error('Create alert controller error:', error);
       res.status(500).json({
         success: false,
@@ -259,7 +291,7 @@ export class AlertController {
       }
 
       const { id } = req.params;
-      const { alertStatus, patternConfig } = req.body;
+      const { alertStatus, patternConfig, digestFrequency, notifyOnAmendments } = req.body;
 
       if (!id) {
         res.status(400).json({
@@ -278,9 +310,28 @@ export class AlertController {
         return;
       }
 
+      // null clears the override so the alert follows the user's preference again
+      if (digestFrequency != null && !NOTIFICATION_FREQUENCIES.includes(digestFrequency)) {
+        res.status(400).json({
+          success: false,
+          error: `digestFrequency must be one of: ${NOTIFICATION_FREQUENCIES.join(', ')}`
+        });
+        return;
+      }
+
+      if (notifyOnAmendments !== undefined && typeof notifyOnAmendments !== 'boolean') {
+        res.status(400).json({
+          success: false,
+          error: 'notifyOnAmendments must be a boolean'
+        });
+        return;
+      }
+
       const updateData: any = {};
       if (alertStatus !== undefined) updateData.alertStatus = alertStatus;
       if (patternConfig !== undefined) updateData.patternConfig = patternConfig;
+      if (digestFrequency !== undefined) updateData.digestFrequency = digestFrequency;
+      if (notifyOnAmendments !== undefined) updateData.notifyOnAmendments = notifyOnAmendments;
 
       if (Object.keys(updateData).length === 0) {
         res.status(400).json({
@@ -305,6 +356,13 @@ export class AlertController {
         data: updatedAlert
       });
     } catch (error) {
+      if (error instanceof ValidationError) {
+        res.status(400).json({
+          success: false,
+          error: error.message
+        });
+        return;
+      }
       console.error('Update alert controller error:', error);
       res.status(500).json({
         success: false,
@@ -425,6 +483,62 @@ export class AlertController {
     }
   }
 
+  /**
+   * Get the user's alert digests
+   */
+  static async getAlertDigests(req: Request, res: Response): Promise<void> {
+    try {
+      const userId = (req as any).user?.id;
+      if (!userId) {
+        res.status(401).json({
+          success: false,
+          error: 'Authentication required'
+        });
+        return;
+      }
+
+      const { limit, offset } = req.query;
+
+      // Validate pagination
+      let limitNum = 20;
+      if (limit) {
+        limitNum = parseInt(limit as string);
+        if (isNaN(limitNum) || limitNum < 1 || limitNum > 100) {
+          res.status(400).json({
+            success: false,
+            error: 'limit must be between 1 and 100'
+          });
+          return;
+        }
+      }
+
+      let offsetNum = 0;
+      if (offset) {
+        offsetNum = parseInt(offset as string);
+        if (isNaN(offsetNum) || offsetNum < 0) {
+          res.status(400).json({
+            success: false,
+            error: 'offset must be non-negative'
+          });
+          return;
+        }
+      }
+
+      const digests = await AlertService.getDigests(userId, limitNum, offsetNum);
+
+      res.status(200).json({
+        success: true,
+        data: digests
+      });
+    } catch (error) {
+      console.error('Get alert digests controller error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Internal server error during digests fetch'
+      });
+    }
+  }
+
   /**
    * Mark notification as read
    */
@@ -515,10 +629,123 @@ export class AlertController {
         return;
       }
 
-      // For now, return success without actual implementation
+      const {
+        email,
+        push,
+        inApp,
+        webhook,
+        webhookUrl,
+        frequency,
+        quietHours,
+        timezone,
+        maxPerHour,
+        dedupeTrades
+      } = req.body;
+      const updates: Partial<NotificationPreferences> = {};
+
+      for (const [key, value] of Object.entries({ email, push, inApp, webhook, dedupeTrades })) {
+        if (value !== undefined) {
+          if (typeof value !== 'boolean') {
+            res.status(400).json({
+              success: false,
+              error: `${key} must be a boolean`
+            });
+            return;
+          }
+          updates[key as 'email' | 'push' | 'inApp' | 'webhook' | 'dedupeTrades'] = value;
+        }
+      }
+
+      if (webhookUrl !== undefined) {
+        if (webhookUrl === null || webhookUrl === '') {
+          updates.webhookUrl = undefined;
+        } else {
+          const problem = typeof webhookUrl !== 'string' || webhookUrl.length > 2048
+            ? 'webhookUrl must be a valid URL'
+            : await checkWebhookUrl(webhookUrl);
+          if (problem) {
+            res.status(400).json({
+              success: false,
+              error: problem
+            });
+            return;
+          }
+          updates.webhookUrl = webhookUrl;
+        }
+      }
+
+      if (frequency !== undefined) {
+        if (!NOTIFICATION_FREQUENCIES.includes(frequency)) {
+          res.status(400).json({
+            success: false,
+            error: `frequency must be one of: ${NOTIFICATION_FREQUENCIES.join(', ')}`
+          });
+          return;
+        }
+        updates.frequency = frequency;
+      }
+
+      if (quietHours !== undefined) {
+        if (quietHours === null) {
+          updates.quietHours = undefined;
+        } else if (
+          typeof quietHours !== 'object' ||
+          typeof quietHours.start !== 'string' || !isValidTimeOfDay(quietHours.start) ||
+          typeof quietHours.end !== 'string' || !isValidTimeOfDay(quietHours.end)
+        ) {
+          res.status(400).json({
+            success: false,
+            error: 'quietHours must have start and end times in HH:MM format'
+          });
+          return;
+        } else {
+          updates.quietHours = { start: quietHours.start, end: quietHours.end };
+        }
+      }
+
+      if (timezone !== undefined) {
+        if (typeof timezone !== 'string' || !isValidTimezone(timezone)) {
+          res.status(400).json({
+            success: false,
+            error: 'timezone must be an IANA timezone such as "America/New_York"'
+          });
+          return;
+        }
+        updates.timezone = timezone;
+      }
+
+      if (maxPerHour !== undefined) {
+        if (maxPerHour === null) {
+          updates.maxPerHour = undefined;
+        } else if (!Number.isInteger(maxPerHour) || maxPerHour < 1) {
+          res.status(400).json({
+            success: false,
+            error: 'maxPerHour must be a positive integer'
+          });
+          return;
+        } else {
+          updates.maxPerHour = maxPerHour;
+        }
+      }
+
+      let preferences: NotificationPreferences;
+      try {
+        preferences = await AlertService.updateNotificationPreferences(userId, updates);
+      } catch (error) {
+        if (error instanceof ValidationError) {
+          res.status(400).json({
+            success: false,
+            error: error.message
+          });
+          return;
+        }
+        throw error;
+      }
+
       res.status(200).json({
         success: true,
-        message: 'Notification preferences updated successfully'
+        message: 'Notification preferences updated successfully',
+        data: preferences
       });
     } catch (error) {
       console.error('Update notification preferences controller error:', error);
@@ -543,15 +770,11 @@ export class AlertController {
         return;
       }
 
-      // Return default preferences
+      const preferences = await AlertService.getNotificationPreferences(userId);
+
       res.status(200).json({
         success: true,
-        data: {
-          email: true,
-          push: true,
-          inApp: true,
-          frequency: 'immediate'
-        }
+        data: preferences
       });
     } catch (error) {
       console.error('Get notification preferences controller error:', error);
@@ -1,5 +1,12 @@
 import { Request, Response } from 'express';
-import { AnalyticsService } from '../services/AnalyticsService';
+import {
+  AnalyticsService,
+  AssetClassFilter,
+  ASSET_CLASS_FILTERS,
+  SectorTimeframe,
+  CorrelationInterval
+} from '../services/AnalyticsService';
+import { isUuid } from '../middleware/validation';
 
 export class AnalyticsController {
   /**
@@ -210,7 +217,7 @@ export class AnalyticsController {
    */
   static async getPerformanceBenchmarks(req: Request, res: Response): Promise<void> {
     try {
-      const { timeframe } = req.query;
+      const { timeframe, assetClass } = req.query;
 
       const validTimeframes = ['month', 'quarter', 'year'];
       const tf = (timeframe as string) || 'year';
@@ -223,8 +230,18 @@ export class AnalyticsController {
         return;
       }
 
+      const assetClassFilter = (assetClass as string) || 'equity';
+      if (!ASSET_CLASS_FILTERS.includes(assetClassFilter as AssetClassFilter)) {
+        res.status(400).json({
+          success: false,
+          error: `assetClass must be one of: ${ASSET_CLASS_FILTERS.join(', ')}`
+        });
+        return;
+      }
+
       const benchmarks = await AnalyticsService.getPerformanceBenchmarks(
-        tf as 'month' | 'quarter' | 'year'
+        tf as 'month' | 'quarter' | 'year',
+        assetClassFilter as AssetClassFilter
       );
 
       res.status(200).json({
@@ -347,7 +364,7 @@ export class AnalyticsController {
    */
   static async getSectorAnalysis(req: Request, res: Response): Promise<void> {
     try {
-      const { timeframe, sector } = req.query;
+      const { timeframe, sector, assetClass } = req.query;
 
       const validTimeframes = ['day', 'week', 'month', 'quarter', 'year'];
       const tf = (timeframe as string) || 'month';
@@ -360,23 +377,32 @@ export class AnalyticsController {
         return;
       }
 
-      // For now, return basic sector analysis structure
+      if (sector !== undefined && (typeof sector !== 'string' || sector.trim().length === 0)) {
+        res.status(400).json({
+          success: false,
+          error: 'sector must be a non-empty string'
+        });
+        return;
+      }
+
+      const assetClassFilter = (assetClass as string) || 'equity';
+      if (!ASSET_CLASS_FILTERS.includes(assetClassFilter as AssetClassFilter)) {
+        res.status(400).json({
+          success: false,
+          error: `assetClass must be one of: ${ASSET_CLASS_FILTERS.join(', ')}`
+        });
+        return;
+      }
+
+      const analysis = await AnalyticsService.getSectorAnalysis(
+        tf as SectorTimeframe,
+        sector ? (sector as string).trim() : undefined,
+        assetClassFilter as AssetClassFilter
+      );
+
       res.status(200).json({
         success: true,
-        data: {
-          timeframe: tf,
-          sector: sector || 'all',
-          metrics: {
-            totalTrades: 0,
-            totalValue: 0,
-            avgTradeSize: 0,
-            uniqueTraders: 0,
-            sentiment: 'neutral' as const
-          },
-          topStocks: [],
-          topTraders: [],
-          performanceComparison: []
-        }
+        data: analysis
       });
     } catch (error) {
       console.error('Get sector analysis controller error:', error);
@@ -395,7 +421,9 @@ export class AnalyticsController {
       const { 
         analysisType,
         entityIds,
-        timeframe
+        timeframe,
+        interval,
+        assetClass
       } = req.query;
 
       // Validate analysis type
@@ -422,6 +450,7 @@ export class AnalyticsController {
       } else if (Array.isArray(entityIds)) {
         entityIdArray = entityIds as string[];
       }
+      entityIdArray = Array.from(new Set(entityIdArray.map(id => id.trim()).filter(Boolean)));
 
       if (entityIdArray.length < 2) {
         res.status(400).json({
@@ -439,6 +468,14 @@ export class AnalyticsController {
         return;
       }
 
+      if (analysisType === 'trader' && !entityIdArray.every(isUuid)) {
+        res.status(400).json({
+          success: false,
+          error: 'entityIds must be valid trader IDs for trader correlation'
+        });
+        return;
+      }
+
       // Validate timeframe
       const validTimeframes = ['month', 'quarter', 'year'];
       const tf = (timeframe as string) || 'year';
@@ -451,18 +488,35 @@ export class AnalyticsController {
         return;
       }
 
-      // For now, return basic correlation analysis structure
+      // Validate bucket interval
+      if (interval && !['week', 'month'].includes(interval as string)) {
+        res.status(400).json({
+          success: false,
+          error: 'interval must be "week" or "month"'
+        });
+        return;
+      }
+
+      const assetClassFilter = (assetClass as string) || 'equity';
+      if (!ASSET_CLASS_FILTERS.includes(assetClassFilter as AssetClassFilter)) {
+        res.status(400).json({
+          success: false,
+          error: `assetClass must be one of: ${ASSET_CLASS_FILTERS.join(', ')}`
+        });
+        return;
+      }
+
+      const correlation = await AnalyticsService.getCorrelationAnalysis(
+        analysisType as 'trader' | 'sector',
+        entityIdArray,
+        tf as 'month' | 'quarter' | 'year',
+        interval as CorrelationInterval | undefined,
+        assetClassFilter as AssetClassFilter
+      );
+
       res.status(200).json({
         success: true,
-        data: {
-          analysisType,
-          timeframe: tf,
-          entities: entityIdArray,
-          correlationMatrix: [],
-          insights: [],
-          methodology: 'Pearson correlation coefficient',
-          significanceLevel: 0.05
-        }
+        data: correlation
       });
     } catch (error) {
       console.error('Get correlation analysis controller error:', error);
@@ -489,6 +543,14 @@ export class AnalyticsController {
         return;
       }
 
+      if (!isUuid(traderId)) {
+        res.status(400).json({
+          success: false,
+          error: 'traderId must be a valid UUID'
+        });
+        return;
+      }
+
       const validTimeframes = ['month', 'quarter', 'year'];
       const tf = (timeframe as string) || 'year';
       
@@ -500,13 +562,12 @@ export class AnalyticsController {
         return;
       }
 
-      // Get portfolio concentration which includes risk metrics
-      const concentration = await AnalyticsService.getPortfolioConcentration(
+      const riskAssessment = await AnalyticsService.getRiskAssessment(
         traderId,
         tf as 'month' | 'quarter' | 'year'
       );
 
-      if (!concentration) {
+      if (!riskAssessment) {
         res.status(404).json({
           success: false,
           error: 'Trader not found or no trading data available'
@@ -514,27 +575,6 @@ export class AnalyticsController {
         return;
       }
 
-      // Extract and enhance risk metrics
-      const riskAssessment = {
-        traderId,
-        traderName: concentration.traderName,
-        timeframe: tf,
-        riskScore: Math.round(concentration.concentrationScore), // 0-100, higher = more risky
-        riskLevel: concentration.concentrationScore > 70 ? 'High' : 
-                  concentration.concentrationScore > 40 ? 'Medium' : 'Low',
-        metrics: concentration.riskMetrics,
-        portfolioMetrics: {
-          totalPositions: concentration.totalPositions,
-          totalValue: concentration.totalValue,
-          concentrationScore: concentration.concentrationScore
-        },
-        recommendations: [
-          concentration.concentrationScore > 70 ? 'Consider diversifying portfolio across more positions' : null,
-          concentration.riskMetrics.largestPosition > 25 ? 'Largest position represents significant portfolio risk' : null,
-          concentration.totalPositions < 10 ? 'Portfolio may benefit from additional diversification' : null
-        ].filter(Boolean)
-      };
-
       res.status(200).json({
         success: true,
         data: riskAssessment
@@ -547,6 +587,120 @@ export class AnalyticsController {
       });
     }
   }
+
+  /**
+   * Get members who most often disclose trades after the STOCK Act window
+   */
+  static async getLateFilers(req: Request, res: Response): Promise<void> {
+    try {
+      const { timeframe, chamber, minTrades, limit } = req.query;
+
+      const validTimeframes = ['quarter', 'year', 'all'];
+      const tf = (timeframe as string) || 'year';
+
+      if (!validTimeframes.includes(tf)) {
+        res.status(400).json({
+          success: false,
+          error: 'timeframe must be "quarter", "year", or "all"'
+        });
+        return;
+      }
+
+      const chamberValue = (chamber as string) || 'all';
+      if (!['house', 'senate', 'all'].includes(chamberValue)) {
+        res.status(400).json({
+          success: false,
+          error: 'chamber must be "house", "senate", or "all"'
+        });
+        return;
+      }
+
+      let minTradesNum = 1;
+      if (minTrades) {
+        minTradesNum = parseInt(minTrades as string);
+        if (isNaN(minTradesNum) || minTradesNum < 1) {
+          res.status(400).json({
+            success: false,
+            error: 'minTrades must be a positive integer'
+          });
+          return;
+        }
+      }
+
+      let limitNum = 20;
+      if (limit) {
+        limitNum = parseInt(limit as string);
+        if (isNaN(limitNum) || limitNum < 1 || limitNum > 100) {
+          res.status(400).json({
+            success: false,
+            error: 'limit must be between 1 and 100'
+          });
+          return;
+        }
+      }
+
+      const leaderboard = await AnalyticsService.getLateFilers({
+        timeframe: tf as 'quarter' | 'year' | 'all',
+        chamber: chamberValue as 'house' | 'senate' | 'all',
+        minTrades: minTradesNum,
+        limit: limitNum
+      });
+
+      res.status(200).json({
+        success: true,
+        data: leaderboard
+      });
+    } catch (error) {
+      console.error('Get late filers controller error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Internal server error during late filers fetch'
+      });
+    }
+  }
+
+  /**
+   * Get trading activity split by asset class (stocks, options, ETFs, bonds, ...)
+   */
+  static async getAssetClasses(req: Request, res: Response): Promise<void> {
+    try {
+      const { timeframe, traderId } = req.query;
+
+      const validTimeframes = ['month', 'quarter', 'year', 'all'];
+      const tf = (timeframe as string) || 'year';
+      if (!validTimeframes.includes(tf)) {
+        res.status(400).json({
+          success: false,
+          error: 'timeframe must be "month", "quarter", "year", or "all"'
+        });
+        return;
+      }
+
+      if (traderId && !isUuid(traderId)) {
+        res.status(400).json({
+          success: false,
+          error: 'traderId must be a valid UUID'
+        });
+        return;
+      }
+
+      const breakdown = await AnalyticsService.getAssetClassBreakdown({
+        timeframe: tf as 'month' | 'quarter' | 'year' | 'all',
+        traderId: traderId as string | undefined
+      });
+
+      res.status(200).json({
+        success: true,
+        data: breakdown
+      });
+    } catch (error) {
+      console.error('Get asset classes controller error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Internal server error during asset class analysis'
+      });
+    }
+  }
 }
 
 export default AnalyticsController;
\ No newline at end of file
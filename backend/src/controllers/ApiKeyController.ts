@@ -0,0 +1,96 @@
+import { Request, Response } from 'express';
+import { ApiKey } from '../models/ApiKey';
+import { AppError } from '../middleware/errors';
+import { isUuid } from '../middleware/validation';
+
+export class ApiKeyController {
+  /**
+   * List the current user's API keys, including revoked ones
+   */
+  static async getApiKeys(req: Request, res: Response): Promise<void> {
+    try {
+      const apiKeys = await ApiKey.findByUser(req.userId!);
+
+      res.status(200).json({
+        success: true,
+        data: apiKeys
+      });
+    } catch (error) {
+      ApiKeyController.handleError(res, error, 'Get API keys controller error:', 'Internal server error during API key fetch');
+    }
+  }
+
+  /**
+   * Create an API key; the key itself is only ever returned by this call
+   */
+  static async createApiKey(req: Request, res: Response): Promise<void> {
+    try {
+      const { name, scopes } = req.body;
+
+      const { apiKey, key } = await ApiKey.create(req.userId!, { name, scopes });
+
+      res.status(201).json({
+        success: true,
+        data: {
+          apiKey,
+          key
+        },
+        message: 'Store this key now; it will not be shown again'
+      });
+    } catch (error) {
+      ApiKeyController.handleError(res, error, 'Create API key controller error:', 'Internal server error during API key creation');
+    }
+  }
+
+  /**
+   * Revoke one of the current user's API keys
+   */
+  static async revokeApiKey(req: Request, res: Response): Promise<void> {
+    try {
+      if (!isUuid(req.params.id)) {
+        res.status(400).json({
+          success: false,
+          error: 'Invalid API key ID'
+        });
+        return;
+      }
+
+      const apiKey = await ApiKey.findByIdForUser(req.params.id, req.userId!);
+
+      if (!apiKey) {
+        res.status(404).json({
+          success: false,
+          error: 'API key not found'
+        });
+        return;
+      }
+
+      await apiKey.revoke();
+
+      res.status(200).json({
+        success: true,
+        data: apiKey
+      });
+    } catch (error) {
+      ApiKeyController.handleError(res, error, 'Revoke API key controller error:', 'Internal server error during API key revocation');
+    }
+  }
+
+  private static handleError(res: Response, error: unknown, logMessage: string, responseMessage: string): void {
+    if (error instanceof AppError) {
+      res.status(error.statusCode).json({
+        success: false,
+        error: error.message
+      });
+      return;
+    }
+
+    console.error(logMessage, error);
+    res.status(500).json({
+      success: false,
+      error: responseMessage
+    });
+  }
+}
+
+export default ApiKeyController;
@@ -1,6 +1,16 @@
 import { Request, Response } from 'express';
 import { AuthService, PasswordResetRequest, PasswordResetData, ProfileUpdateData, PasswordChangeData } from '../services/AuthService';
 import { CreateUserData, LoginCredentials } from '../models/User';
+import { SessionContext } from '../models/UserSession';
+import { isUuid } from '../middleware/validation';
+
+/**
+ * Device details recorded against a login session
+ */
+const getSessionContext = (req: Request): SessionContext => ({
+  userAgent: req.get('user-agent'),
+  ipAddress: req.ip
+});
 
 export class AuthController {
   /**
@@ -25,7 +35,7 @@ export class AuthController {
         password
       };
 
-      const result = await AuthService.register(userData);
+      const result = await AuthService.register(userData, getSessionContext(req));
 
       if (!result.success) {
         const statusCode = result.error?.includes('already exists') ? 409 : 400;
@@ -40,7 +50,9 @@ export class AuthController {
         success: true,
         data: {
           user: result.user?.toJSON(),
-          token: result.token
+          token: result.token,
+          refreshToken: result.refreshToken,
+          expiresIn: result.expiresIn
         }
       });
     } catch (error) {
@@ -53,11 +65,12 @@ export class AuthController {
   }
 
   /**
-   * Login user
+   * Login user. Accounts with 2FA get a TWO_FACTOR_REQUIRED error until the
+   * login is sent again with twoFactorCode.
    */
   static async login(req: Request, res: Response): Promise<void> {
     try {
-      const { email, password } = req.body;
+      const { email, password, twoFactorCode } = req.body;
 
       // Validate required fields
       if (!email || !password) {
@@ -70,16 +83,18 @@ export class AuthController {
 
       const credentials: LoginCredentials = {
         email: email.toLowerCase().trim(),
-        password
+        password,
+        twoFactorCode: typeof twoFactorCode === 'string' ? twoFactorCode.trim() : undefined
       };
 
-      const result = await AuthService.login(credentials);
+      const result = await AuthService.login(credentials, getSessionContext(req));
 
       if (!result.success) {
         const statusCode = result.error?.includes('suspended') ? 403 : 401;
         res.status(statusCode).json({
           success: false,
-          error: result.error
+          error: result.error,
+          code: result.errorCode
         });
         return;
       }
@@ -88,7 +103,10 @@ export class AuthController {
         success: true,
         data: {
           user: result.user?.toJSON(),
-          token: result.token
+          token: result.token,
+          refreshToken: result.refreshToken,
+          expiresIn: result.expiresIn,
+          twoFactorSetupRequired: result.twoFactorSetupRequired
         }
       });
     } catch (error) {
@@ -100,6 +118,157 @@ export class AuthController {
     }
   }
 
+  /**
+   * Exchange a refresh token for a new token pair
+   */
+  static async refresh(req: Request, res: Response): Promise<void> {
+    try {
+      const { refreshToken } = req.body;
+
+      if (!refreshToken || typeof refreshToken !== 'string') {
+        res.status(400).json({
+          success: false,
+          error: 'Refresh token is required'
+        });
+        return;
+      }
+
+      const result = await AuthService.refresh(refreshToken, getSessionContext(req));
+
+      if (!result.success) {
+        res.status(401).json({
+          success: false,
+          error: result.error
+        });
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        data: {
+          user: result.user?.toJSON(),
+          token: result.token,
+          refreshToken: result.refreshToken,
+          expiresIn: result.expiresIn
+        }
+      });
+    } catch (error) {
+      console.error('Token refresh controller error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Internal server error during token refresh'
+      });
+    }
+  }
+
+  /**
+   * Log out of the current session
+   */
+  static async logout(req: Request, res: Response): Promise<void> {
+    try {
+      const result = await AuthService.logout(req.sessionId!);
+
+      if (!result.success) {
+        res.status(400).json({
+          success: false,
+          error: result.error
+        });
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        message: 'Logged out successfully'
+      });
+    } catch (error) {
+      console.error('Logout controller error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Internal server error during logout'
+      });
+    }
+  }
+
+  /**
+   * List the current user's active sessions
+   */
+  static async getSessions(req: Request, res: Response): Promise<void> {
+    try {
+      const sessions = await AuthService.getSessions(req.userId!);
+
+      res.status(200).json({
+        success: true,
+        data: sessions.map(session => ({
+          ...session.toJSON(),
+          current: session.id === req.sessionId
+        }))
+      });
+    } catch (error) {
+      console.error('Get sessions controller error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Internal server error during sessions fetch'
+      });
+    }
+  }
+
+  /**
+   * Revoke one of the current user's sessions
+   */
+  static async revokeSession(req: Request, res: Response): Promise<void> {
+    try {
+      if (!isUuid(req.params.id)) {
+        res.status(400).json({
+          success: false,
+          error: 'Invalid session ID'
+        });
+        return;
+      }
+
+      const result = await AuthService.revokeSession(req.userId!, req.params.id);
+
+      if (!result.success) {
+        res.status(404).json({
+          success: false,
+          error: result.error
+        });
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        message: 'Session revoked'
+      });
+    } catch (error) {
+      console.error('Revoke session controller error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Internal server error during session revocation'
+      });
+    }
+  }
+
+  /**
+   * Log out everywhere, including the current session
+   */
+  static async revokeAllSessions(req: Request, res: Response): Promise<void> {
+    try {
+      const revoked = await AuthService.revokeAllSessions(req.userId!);
+
+      res.status(200).json({
+        success: true,
+        data: { revoked },
+        message: 'All sessions revoked'
+      });
+    } catch (error) {
+      console.error('Revoke all sessions controller error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Internal server error during session revocation'
+      });
+    }
+  }
+
   /**
    * Verify JWT token and return user info
    */
@@ -172,7 +341,7 @@ export class AuthController {
 
       res.status(200).json({
         success: true,
-        message: 'Password reset instructions sent to your email'
+        message: 'If an account exists for that email, a password reset link has been sent to it'
       });
     } catch (error) {
       console.error('Password reset request controller error:', error);
@@ -227,6 +396,77 @@ export class AuthController {
     }
   }
 
+  /**
+   * Verify email address using the token from a verification email
+   */
+  static async verifyEmail(req: Request, res: Response): Promise<void> {
+    try {
+      const { token } = req.body;
+
+      if (!token) {
+        res.status(400).json({
+          success: false,
+          error: 'Token is required'
+        });
+        return;
+      }
+
+      const result = await AuthService.verifyEmail(token);
+
+      if (!result.success) {
+        const statusCode = result.error?.includes('Invalid or expired') ? 401 : 400;
+        res.status(statusCode).json({
+          success: false,
+          error: result.error
+        });
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        data: {
+          user: result.user
+        },
+        message: 'Email address verified'
+      });
+    } catch (error) {
+      console.error('Email verification controller error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Internal server error during email verification'
+      });
+    }
+  }
+
+  /**
+   * Send the current user a new verification email
+   */
+  static async resendEmailVerification(req: Request, res: Response): Promise<void> {
+    try {
+      const result = await AuthService.resendEmailVerification(req.userId!);
+
+      if (!result.success) {
+        const statusCode = result.error?.includes('already verified') ? 409 : 400;
+        res.status(statusCode).json({
+          success: false,
+          error: result.error
+        });
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        message: 'Verification email sent'
+      });
+    } catch (error) {
+      console.error('Resend verification controller error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Internal server error while sending verification email'
+      });
+    }
+  }
+
   /**
    * Update user profile
    */
@@ -314,7 +554,7 @@ export class AuthController {
         newPassword
       };
 
-      const result = await AuthService.changePassword(userId, passwordData);
+      const result = await AuthService.changePassword(userId, passwordData, getSessionContext(req));
 
       if (!result.success) {
         const statusCode = result.error?.includes('incorrect') ? 401 : 400;
@@ -325,8 +565,14 @@ export class AuthController {
         return;
       }
 
+      // Every other session was logged out; this one continues on new tokens
       res.status(200).json({
         success: true,
+        data: {
+          token: result.token,
+          refreshToken: result.refreshToken,
+          expiresIn: result.expiresIn
+        },
         message: 'Password changed successfully'
       });
     } catch (error) {
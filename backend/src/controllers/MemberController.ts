@@ -132,4 +132,35 @@ export class MemberController {
       });
     }
   }
+
+  /**
+   * Get disclosure lag statistics for a congressional member
+   */
+  async getMemberFilingStats(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+
+      const member = await CongressionalMember.findById(id);
+      if (!member) {
+        res.status(404).json({
+          success: false,
+          error: 'Congressional member not found'
+        });
+        return;
+      }
+
+      const stats = await StockTrade.getFilingLagStats('congressional', id);
+
+      res.json({
+        success: true,
+        data: stats
+      });
+    } catch (error) {
+      console.error('Error fetching member filing stats:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to fetch member filing statistics'
+      });
+    }
+  }
 }
@@ -1,6 +1,7 @@
 import { Request, Response } from 'express';
 import { StockTicker } from '../models/StockTicker';
 import { StockTrade } from '../models/StockTrade';
+import { InsiderTransaction } from '../models/InsiderTransaction';
 
 export class StockController {
   /**
@@ -126,4 +127,55 @@ export class StockController {
       });
     }
   }
+
+  /**
+   * Get corporate insiders' Form 4 filings for a stock, with a summary of
+   * open-market buying and selling
+   */
+  async getStockInsiderActivity(req: Request, res: Response): Promise<void> {
+    try {
+      const { symbol } = req.params;
+      const { days = '90', limit = '100' } = req.query;
+
+      const daysNum = parseInt(days as string);
+      if (isNaN(daysNum) || daysNum < 1 || daysNum > 3650) {
+        res.status(400).json({
+          success: false,
+          error: 'days must be between 1 and 3650'
+        });
+        return;
+      }
+
+      const limitNum = parseInt(limit as string);
+      if (isNaN(limitNum) || limitNum < 1 || limitNum > 500) {
+        res.status(400).json({
+          success: false,
+          error: 'limit must be between 1 and 500'
+        });
+        return;
+      }
+
+      const stock = await StockTicker.findBySymbol(symbol.toUpperCase());
+      if (!stock) {
+        res.status(404).json({
+          success: false,
+          error: 'Stock ticker not found'
+        });
+        return;
+      }
+
+      const activity = await InsiderTransaction.getActivity(stock.symbol, daysNum, limitNum);
+
+      res.json({
+        success: true,
+        data: activity
+      });
+    } catch (error) {
+      console.error('Error fetching insider activity:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to fetch insider activity'
+      });
+    }
+  }
 }
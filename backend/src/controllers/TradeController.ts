@@ -1,7 +1,22 @@
 import { Request, Response } from 'express';
 import { TradeService, TradeFilters, PaginationOptions } from '../services/TradeService';
+import { TradeStreamService, TradeStreamEvent } from '../services/TradeStreamService';
+import { InsiderTransaction } from '../models/InsiderTransaction';
+import {
+  TRADE_OWNERS,
+  TradeOwner,
+  TRADE_DATA_SOURCES,
+  TradeDataSource,
+  ASSET_CLASSES,
+  AssetClass,
+  OPTION_TYPES,
+  OptionType
+} from '../models/StockTrade';
 
 export class TradeController {
+  private static readonly STREAM_RETRY_MS = 5000;
+  private static readonly STREAM_HEARTBEAT_MS = 25000;
+
   /**
    * Get trades with filtering and pagination
    */
@@ -17,6 +32,11 @@ export class TradeController {
         minValue,
         maxValue,
         hasFilingDate,
+        owner,
+        lateFiling,
+        dataSource,
+        assetClass,
+        optionType,
         sectors,
         states,
         parties,
@@ -107,6 +127,55 @@ export class TradeController {
         filters.hasFilingDate = hasFilingDate === 'true';
       }
 
+      if (owner) {
+        if (!TRADE_OWNERS.includes(owner as TradeOwner)) {
+          res.status(400).json({
+            success: false,
+            error: 'owner must be "self", "spouse", "joint", or "child"'
+          });
+          return;
+        }
+        filters.owner = owner as TradeOwner;
+      }
+
+      // Filed after the STOCK Act window (true) or within it (false)
+      if (lateFiling !== undefined) {
+        filters.lateFiling = lateFiling === 'true';
+      }
+
+      if (dataSource) {
+        if (!TRADE_DATA_SOURCES.includes(dataSource as TradeDataSource)) {
+          res.status(400).json({
+            success: false,
+            error: `dataSource must be one of: ${TRADE_DATA_SOURCES.join(', ')}`
+          });
+          return;
+        }
+        filters.dataSource = dataSource as TradeDataSource;
+      }
+
+      if (assetClass) {
+        if (!ASSET_CLASSES.includes(assetClass as AssetClass)) {
+          res.status(400).json({
+            success: false,
+            error: `assetClass must be one of: ${ASSET_CLASSES.join(', ')}`
+          });
+          return;
+        }
+        filters.assetClass = assetClass as AssetClass;
+      }
+
+      if (optionType) {
+        if (!OPTION_TYPES.includes(optionType as OptionType)) {
+          res.status(400).json({
+            success: false,
+            error: 'optionType must be "call" or "put"'
+          });
+          return;
+        }
+        filters.optionType = optionType as OptionType;
+      }
+
       // Array filters
       if (sectors) {
         if (typeof sectors === 'string') {
@@ -557,9 +626,14 @@ export class TradeController {
         return;
       }
 
+      // Insider trades carry their Form 4 detail
+      const insiderTransaction = trade.traderType === 'corporate'
+        ? await InsiderTransaction.findByTradeId(id)
+        : null;
+
       res.status(200).json({
         success: true,
-        data: trade
+        data: insiderTransaction ? { ...trade, insiderTransaction } : trade
       });
     } catch (error) {
       console.error('Get trade by ID controller error:', error);
@@ -570,6 +644,44 @@ export class TradeController {
     }
   }
 
+  /**
+   * Get a trade's amendment history
+   */
+  static async getTradeHistory(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+
+      if (!id) {
+        res.status(400).json({
+          success: false,
+          error: 'Trade ID is required'
+        });
+        return;
+      }
+
+      const history = await TradeService.getTradeHistory(id);
+
+      if (!history) {
+        res.status(404).json({
+          success: false,
+          error: 'Trade not found'
+        });
+        return;
+      }
+
+      res.status(200).json({
+        success: true,
+        data: history
+      });
+    } catch (error) {
+      console.error('Get trade history controller error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Internal server error during trade history fetch'
+      });
+    }
+  }
+
   /**
    * Get trade statistics summary
    */
@@ -602,6 +714,73 @@ export class TradeController {
       });
     }
   }
+
+  /**
+   * Stream new trades, and the user's alert notifications, as Server-Sent Events.
+   * Resumes from the Last-Event-ID header (or lastEventId query parameter).
+   */
+  static async streamTrades(req: Request, res: Response): Promise<void> {
+    const lastEventId = (req.header('Last-Event-ID') || req.query.lastEventId) as string | undefined;
+
+    if (lastEventId && !TradeStreamService.parseEventId(lastEventId)) {
+      res.status(400).json({
+        success: false,
+        error: 'Last-Event-ID must be an event ID previously sent by this stream'
+      });
+      return;
+    }
+
+    // no-transform keeps the compression middleware from buffering events
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      'Connection': 'keep-alive',
+      'X-Accel-Buffering': 'no'
+    });
+    res.write(`retry: ${TradeController.STREAM_RETRY_MS}\n\n`);
+
+    const write = (event: TradeStreamEvent) => {
+      res.write(`id: ${event.id}\nevent: ${event.event}\ndata: ${JSON.stringify(event.data)}\n\n`);
+    };
+
+    // Buffer live events while the replay query runs so nothing is lost in between
+    let pending: TradeStreamEvent[] | null = [];
+    const unsubscribe = TradeStreamService.subscribe(req.userId, event => {
+      if (pending) {
+        pending.push(event);
+      } else {
+        write(event);
+      }
+    });
+
+    const heartbeat = setInterval(() => res.write(': keep-alive\n\n'), TradeController.STREAM_HEARTBEAT_MS);
+    req.on('close', () => {
+      clearInterval(heartbeat);
+      unsubscribe();
+    });
+
+    const sent = new Set<string>();
+    try {
+      const replayed = lastEventId
+        ? await TradeStreamService.getEventsSince(lastEventId, req.userId)
+        : [];
+      for (const event of replayed) {
+        write(event);
+        sent.add(event.id);
+      }
+    } catch (error) {
+      console.error('Trade stream replay error:', error);
+      res.write(`event: error\ndata: ${JSON.stringify({ error: 'Failed to replay missed events' })}\n\n`);
+    }
+
+    const buffered = pending;
+    pending = null;
+    for (const event of buffered) {
+      if (!sent.has(event.id)) {
+        write(event);
+      }
+    }
+  }
 }
 
 export default TradeController;
\ No newline at end of file
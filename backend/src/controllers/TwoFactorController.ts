@@ -0,0 +1,119 @@
+import { Request, Response } from 'express';
+import { TwoFactorService } from '../services/TwoFactorService';
+import { AppError } from '../middleware/errors';
+
+export class TwoFactorController {
+  /**
+   * Whether the current user has 2FA, and whether they are required to
+   */
+  static async getStatus(req: Request, res: Response): Promise<void> {
+    try {
+      const status = await TwoFactorService.getStatus(req.user!);
+
+      res.status(200).json({
+        success: true,
+        data: status
+      });
+    } catch (error) {
+      TwoFactorController.handleError(res, error, 'Get 2FA status controller error:', 'Internal server error during 2FA status fetch');
+    }
+  }
+
+  /**
+   * Start enrollment: a new secret plus a QR code to scan
+   */
+  static async startEnrollment(req: Request, res: Response): Promise<void> {
+    try {
+      const enrollment = await TwoFactorService.startEnrollment(req.user!);
+
+      res.status(200).json({
+        success: true,
+        data: enrollment
+      });
+    } catch (error) {
+      TwoFactorController.handleError(res, error, 'Start 2FA enrollment controller error:', 'Internal server error during 2FA setup');
+    }
+  }
+
+  /**
+   * Confirm enrollment with a code from the app; returns the recovery codes
+   */
+  static async confirmEnrollment(req: Request, res: Response): Promise<void> {
+    try {
+      const recoveryCodes = await TwoFactorService.confirmEnrollment(req.user!, req.body.code, req.sessionId);
+
+      res.status(200).json({
+        success: true,
+        data: {
+          recoveryCodes
+        },
+        message: 'Two-factor authentication enabled. Store these recovery codes now; they will not be shown again'
+      });
+    } catch (error) {
+      TwoFactorController.handleError(res, error, 'Confirm 2FA enrollment controller error:', 'Internal server error during 2FA setup');
+    }
+  }
+
+  /**
+   * Turn 2FA off
+   */
+  static async disable(req: Request, res: Response): Promise<void> {
+    try {
+      const { password, code } = req.body;
+
+      if (!password || !code) {
+        res.status(400).json({
+          success: false,
+          error: 'Password and code are required'
+        });
+        return;
+      }
+
+      await TwoFactorService.disable(req.user!, password, code);
+
+      res.status(200).json({
+        success: true,
+        message: 'Two-factor authentication disabled'
+      });
+    } catch (error) {
+      TwoFactorController.handleError(res, error, 'Disable 2FA controller error:', 'Internal server error while disabling 2FA');
+    }
+  }
+
+  /**
+   * Replace the recovery codes
+   */
+  static async regenerateRecoveryCodes(req: Request, res: Response): Promise<void> {
+    try {
+      const recoveryCodes = await TwoFactorService.regenerateRecoveryCodes(req.user!, req.body.code);
+
+      res.status(200).json({
+        success: true,
+        data: {
+          recoveryCodes
+        },
+        message: 'Store these recovery codes now; they will not be shown again'
+      });
+    } catch (error) {
+      TwoFactorController.handleError(res, error, 'Regenerate recovery codes controller error:', 'Internal server error while generating recovery codes');
+    }
+  }
+
+  private static handleError(res: Response, error: unknown, logMessage: string, responseMessage: string): void {
+    if (error instanceof AppError) {
+      res.status(error.statusCode).json({
+        success: false,
+        error: error.message
+      });
+      return;
+    }
+
+    console.error(logMessage, error);
+    res.status(500).json({
+      success: false,
+      error: responseMessage
+    });
+  }
+}
+
+export default TwoFactorController;
@@ -0,0 +1,13 @@
+import { AlertService } from '../services/AlertService';
+import { DigestFrequency } from '../models/NotificationPreference';
+
+/**
+ * Send the digests of the given frequency to every user with held notifications
+ */
+export async function runAlertDigests(frequency: DigestFrequency): Promise<void> {
+  const result = await AlertService.processDigests(frequency);
+
+  if (result.digests > 0) {
+    console.log(`📰 ${frequency} alert digests: ${result.digests} sent covering ${result.notifications} notifications`);
+  }
+}
@@ -0,0 +1,26 @@
+import { CongressionalDataService } from '../services/CongressionalDataService';
+
+/**
+ * Classify stored trades as stock, option, ETF, mutual fund, bond, crypto or
+ * other from their source records. Only unclassified trades unless all.
+ */
+export async function runAssetClassification(options: { all?: boolean } = {}): Promise<void> {
+  console.log(`🚀 Starting asset classification${options.all ? ' of all trades' : ''}...`);
+
+  try {
+    const result = await new CongressionalDataService().classifyStoredTrades(options);
+
+    console.log('\n✅ Asset classification completed!');
+    console.log(`📈 Results:`);
+    console.log(`   - Trades classified: ${result.processedCount}`);
+    Object.entries(result.assetClassCounts).forEach(([assetClass, count]) => {
+      console.log(`   - ${assetClass}: ${count}`);
+    });
+    console.log(`   - Duration: ${(result.duration / 1000).toFixed(2)}s`);
+  } catch (error) {
+    console.error('\n❌ Asset classification failed!');
+    console.error(`🔥 Error:`, error);
+
+    throw error;
+  }
+}
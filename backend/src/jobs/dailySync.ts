@@ -1,21 +1,28 @@
 import { CongressionalDataService } from '../services/CongressionalDataService';
 import { DashboardService } from '../services/DashboardService';
+import { AnalyticsService } from '../services/AnalyticsService';
+import { SyncRunService } from '../services/SyncRunService';
+import { SyncRun } from '../models/SyncRun';
 
 /**
- * Daily sync job to fetch all congressional trading data from FMP API
- * and store it in the database
+ * Daily sync job to fetch all congressional trading data from the configured
+ * data source (FMP unless TRADE_DATA_SOURCE says otherwise) and store it in the database.
+ * Recorded in sync_runs, as the given run when the caller started one.
  */
-export async function runDailySync(): Promise<void> {
+export async function runDailySync(run?: SyncRun): Promise<void> {
   const startTime = Date.now();
   console.log('🚀 Starting daily congressional data sync...');
   console.log(`📅 Start time: ${new Date().toISOString()}`);
 
+  const syncRun = run || await SyncRunService.start('daily');
+  const reportProgress = SyncRunService.progressReporter(syncRun);
+
   try {
     const syncService = new CongressionalDataService();
     const dashboardService = new DashboardService();
 
     // Sync all congressional data (Senate + House) with multi-page support
-    console.log('\n📊 Syncing congressional trading data from FMP API...');
+    console.log('\n📊 Syncing congressional trading data...');
     const result = await syncService.syncAllCongressionalData({
       limit: 250, // API hard cap per request
       maxPages: 10, // DAILY SYNC: 10 pages = last 2-3 months (catches new trades)
@@ -25,10 +32,12 @@ export async function runDailySync(): Promise<void> {
       syncInsiders: false, // Can enable this later if needed
       onProgress: (progress) => {
         console.log(`  Progress: ${progress.current}/${progress.total} ${progress.type} trades`);
+        reportProgress(progress);
       }
     });
 
     const duration = Date.now() - startTime;
+    await SyncRunService.complete(syncRun, result);
 
     // Log results
     console.log('\n✅ Sync completed successfully!');
@@ -51,11 +60,20 @@ export async function runDailySync(): Promise<void> {
     console.log('\n🔄 Invalidating dashboard metrics cache...');
     await dashboardService.invalidateCache();
 
+    // Refresh holdings used by the risk assessment; a stale view is not fatal
+    try {
+      console.log('🔄 Refreshing portfolio concentration view...');
+      await AnalyticsService.refreshPortfolioConcentration();
+    } catch (error) {
+      console.warn('⚠️  Failed to refresh portfolio concentration view:', error);
+    }
+
     console.log(`\n✅ Daily sync job completed at ${new Date().toISOString()}`);
     console.log(`⏱️  Total time: ${(duration / 1000).toFixed(2)}s\n`);
 
   } catch (error) {
     const duration = Date.now() - startTime;
+    await SyncRunService.fail(syncRun, error);
     console.error('\n❌ Daily sync job failed!');
     console.error(`⏱️  Failed after: ${(duration / 1000).toFixed(2)}s`);
     console.error(`🔥 Error:`, error);
@@ -68,9 +86,11 @@ export async function runDailySync(): Promise<void> {
  * Incremental sync - only sync recent trades (last 7 days)
  * Faster alternative to full sync for more frequent updates
  */
-export async function runIncrementalSync(days: number = 7): Promise<void> {
+export async function runIncrementalSync(days: number = 7, run?: SyncRun): Promise<void> {
   console.log(`🚀 Starting incremental sync (last ${days} days)...`);
 
+  const syncRun = run || await SyncRunService.start('incremental');
+
   try {
     const syncService = new CongressionalDataService();
     const dashboardService = new DashboardService();
@@ -81,8 +101,10 @@ export async function runIncrementalSync(days: number = 7): Promise<void> {
     const result = await syncService.syncAllCongressionalData({
       limit: 250,
       forceUpdate: true, // Update existing trades in case of corrections
-      syncInsiders: false
+      syncInsiders: false,
+      onProgress: SyncRunService.progressReporter(syncRun)
     });
+    await SyncRunService.complete(syncRun, result);
 
     console.log(`✅ Incremental sync completed`);
     console.log(`   - Processed: ${result.processedCount} trades`);
@@ -92,6 +114,7 @@ export async function runIncrementalSync(days: number = 7): Promise<void> {
     await dashboardService.invalidateCache();
 
   } catch (error) {
+    await SyncRunService.fail(syncRun, error);
     console.error('❌ Incremental sync failed:', error);
     throw error;
   }
@@ -106,7 +129,7 @@ export async function runIncrementalSync(days: number = 7): Promise<void> {
  * - Progress Tracking: Saves progress every 100 trades
  * - Idempotent: Safe to run multiple times - will skip already-completed sections
  */
-export async function runHistoricalBackfill(): Promise<void> {
+export async function runHistoricalBackfill(run?: SyncRun): Promise<void> {
   const startTime = Date.now();
   console.log('🚀 Starting HISTORICAL BACKFILL...');
   console.log('📅 This will fetch ALL available congressional trading data');
@@ -115,6 +138,9 @@ export async function runHistoricalBackfill(): Promise<void> {
   console.log('💾 Storage required: ~20-25 MB');
   console.log('🔄 Checkpoint-enabled: Safe to restart if interrupted\n');
 
+  const syncRun = run || await SyncRunService.start('backfill');
+  const reportProgress = SyncRunService.progressReporter(syncRun);
+
   try {
     const syncService = new CongressionalDataService();
     const dashboardService = new DashboardService();
@@ -135,10 +161,12 @@ export async function runHistoricalBackfill(): Promise<void> {
       onProgress: (progress) => {
         const percent = ((progress.current / progress.total) * 100).toFixed(1);
         console.log(`  📈 ${progress.type}: ${progress.current}/${progress.total} (${percent}%)`);
+        reportProgress(progress);
       }
     });
 
     const duration = Date.now() - startTime;
+    await SyncRunService.complete(syncRun, result);
 
     // Log results
     console.log('\n✅ HISTORICAL BACKFILL COMPLETED!');
@@ -176,6 +204,7 @@ export async function runHistoricalBackfill(): Promise<void> {
 
   } catch (error) {
     const duration = Date.now() - startTime;
+    await SyncRunService.fail(syncRun, error);
     console.error('\n❌ Historical backfill job FAILED!');
     console.error(`⏱️  Failed after: ${(duration / 1000 / 60).toFixed(2)} minutes`);
     console.error(`🔥 Error:`, error);
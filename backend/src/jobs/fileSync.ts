@@ -0,0 +1,66 @@
+import { CongressionalDataService } from '../services/CongressionalDataService';
+import { DashboardService } from '../services/DashboardService';
+import { createDataSource, ChamberFiles } from '../services/dataSources';
+import { SyncRunService } from '../services/SyncRunService';
+import { SyncRun } from '../models/SyncRun';
+
+export type FileSyncKind = 'file' | 'disclosure_dump';
+
+/**
+ * Load congressional trades from downloaded files instead of the FMP API:
+ * CSV/JSON/NDJSON exports, or House Clerk and Senate eFD dumps
+ */
+export async function runFileSync(
+  kind: FileSyncKind,
+  files: ChamberFiles,
+  forceUpdate = false,
+  run?: SyncRun
+): Promise<void> {
+  const startTime = Date.now();
+  console.log('🚀 Starting congressional trade file sync...');
+  Object.entries(files).forEach(([chamber, filePath]) => {
+    console.log(`📄 ${chamber === 'house' ? 'House' : 'Senate'}: ${filePath}`);
+  });
+
+  const syncRun = run || await SyncRunService.start('file', { dataSource: kind });
+
+  try {
+    const syncService = new CongressionalDataService(undefined, createDataSource(kind, files));
+    const result = await syncService.syncAllCongressionalData({
+      forceUpdate,
+      syncInsiders: false,
+      onProgress: SyncRunService.progressReporter(syncRun)
+    });
+    const duration = Date.now() - startTime;
+    await SyncRunService.complete(syncRun, result);
+
+    console.log('\n✅ File sync completed!');
+    console.log(`📈 Results:`);
+    console.log(`   - Processed: ${result.processedCount} trades`);
+    console.log(`   - Created: ${result.createdCount} new trades`);
+    console.log(`   - Updated: ${result.updatedCount} existing trades`);
+    console.log(`   - Skipped: ${result.skippedCount} duplicates`);
+    console.log(`   - Errors: ${result.errors.length}`);
+    console.log(`   - Duration: ${(duration / 1000).toFixed(2)}s`);
+
+    if (result.errors.length > 0) {
+      console.warn('\n⚠️  Errors encountered:');
+      result.errors.forEach((error, index) => {
+        console.warn(`   ${index + 1}. ${error}`);
+      });
+    }
+
+    if (result.createdCount > 0 || result.updatedCount > 0) {
+      console.log('\n🔄 Invalidating dashboard metrics cache...');
+      await new DashboardService().invalidateCache();
+    }
+  } catch (error) {
+    const duration = Date.now() - startTime;
+    await SyncRunService.fail(syncRun, error);
+    console.error('\n❌ File sync failed!');
+    console.error(`⏱️  Failed after: ${(duration / 1000).toFixed(2)}s`);
+    console.error(`🔥 Error:`, error);
+
+    throw error;
+  }
+}
@@ -0,0 +1,89 @@
+import { MemberRosterService, RosterImportOptions } from '../services/MemberRosterService';
+
+/**
+ * Import a legislators roster file, assigning Bioguide IDs, party and office
+ * dates to members and recording their name aliases for the sync
+ */
+export async function runMemberRosterImport(filePath: string, options: RosterImportOptions = {}): Promise<void> {
+  const startTime = Date.now();
+  console.log('🚀 Starting member roster import...');
+  console.log(`📄 File: ${filePath}`);
+
+  try {
+    const result = await MemberRosterService.importFile(filePath, options);
+    const duration = Date.now() - startTime;
+
+    console.log('\n✅ Member roster import completed!');
+    console.log(`👥 Results:`);
+    console.log(`   - Legislators in file: ${result.total}`);
+    console.log(`   - Members updated: ${result.updated}`);
+    console.log(`   - Members created: ${result.created}`);
+    console.log(`   - Not in database (skipped): ${result.skipped}`);
+    console.log(`   - Aliases added: ${result.aliasesAdded}`);
+    console.log(`   - Errors: ${result.errors.length}`);
+    console.log(`   - Duration: ${(duration / 1000).toFixed(2)}s`);
+
+    if (result.duplicates.length > 0) {
+      console.warn('\n⚠️  Possible duplicate members (not merged; see npm run traders:merge):');
+      result.duplicates.forEach(({ bioguideId, memberId, duplicateIds }) => {
+        console.warn(`   ${bioguideId}: kept ${memberId}, also matched ${duplicateIds.join(', ')}`);
+      });
+    }
+
+    if (result.errors.length > 0) {
+      console.warn('\n⚠️  Errors encountered:');
+      result.errors.forEach((error, index) => {
+        console.warn(`   ${index + 1}. ${error}`);
+      });
+    }
+  } catch (error) {
+    const duration = Date.now() - startTime;
+    console.error('\n❌ Member roster import failed!');
+    console.error(`⏱️  Failed after: ${(duration / 1000).toFixed(2)}s`);
+    console.error(`🔥 Error:`, error);
+
+    throw error;
+  }
+}
+
+/**
+ * Import committees and their rosters, which committee selloff alerts need
+ */
+export async function runCommitteeRosterImport(committeesPath: string, membershipPath: string): Promise<void> {
+  const startTime = Date.now();
+  console.log('🚀 Starting committee roster import...');
+  console.log(`📄 Committees: ${committeesPath}`);
+  console.log(`📄 Membership: ${membershipPath}`);
+
+  try {
+    const result = await MemberRosterService.importCommitteeFiles(committeesPath, membershipPath);
+    const duration = Date.now() - startTime;
+
+    console.log('\n✅ Committee roster import completed!');
+    console.log(`🏛️  Results:`);
+    console.log(`   - Committees and subcommittees: ${result.committees}`);
+    console.log(`   - Committee seats: ${result.memberships}`);
+    console.log(`   - Members not in database: ${result.unmatchedMembers.length}`);
+    console.log(`   - Errors: ${result.errors.length}`);
+    console.log(`   - Duration: ${(duration / 1000).toFixed(2)}s`);
+
+    if (result.unmatchedMembers.length > 0) {
+      console.warn('\n⚠️  Bioguide IDs with no member (run npm run roster:import first):');
+      console.warn(`   ${result.unmatchedMembers.join(', ')}`);
+    }
+
+    if (result.errors.length > 0) {
+      console.warn('\n⚠️  Errors encountered:');
+      result.errors.forEach((error, index) => {
+        console.warn(`   ${index + 1}. ${error}`);
+      });
+    }
+  } catch (error) {
+    const duration = Date.now() - startTime;
+    console.error('\n❌ Committee roster import failed!');
+    console.error(`⏱️  Failed after: ${(duration / 1000).toFixed(2)}s`);
+    console.error(`🔥 Error:`, error);
+
+    throw error;
+  }
+}
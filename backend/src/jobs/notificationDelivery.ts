@@ -0,0 +1,12 @@
+import { NotificationDeliveryService } from '../services/notifications';
+
+/**
+ * Retry notification deliveries whose backoff has elapsed
+ */
+export async function runNotificationRetries(): Promise<void> {
+  const result = await NotificationDeliveryService.processRetries();
+
+  if (result.attempted > 0) {
+    console.log(`📬 Notification retries: ${result.attempted} attempted, ${result.sent} sent, ${result.failed} failed permanently`);
+  }
+}
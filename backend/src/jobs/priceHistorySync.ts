@@ -0,0 +1,46 @@
+import { PriceHistoryService } from '../services/PriceHistoryService';
+
+/**
+ * Daily job to fetch end-of-day prices for every traded ticker and the
+ * SPY benchmark, used for trade forward returns and alpha
+ */
+export async function runPriceHistorySync(symbols?: string[]): Promise<void> {
+  const startTime = Date.now();
+  console.log('🚀 Starting price history sync...');
+  console.log(`📅 Start time: ${new Date().toISOString()}`);
+
+  try {
+    const result = await PriceHistoryService.syncPriceHistory({
+      symbols,
+      onProgress: (progress) => {
+        if (progress.current % 25 === 0 || progress.current === progress.total) {
+          console.log(`  Progress: ${progress.current}/${progress.total} symbols (${progress.symbol})`);
+        }
+      }
+    });
+
+    const duration = Date.now() - startTime;
+
+    console.log('\n✅ Price history sync completed!');
+    console.log(`📈 Results:`);
+    console.log(`   - Symbols updated: ${result.symbolsProcessed}`);
+    console.log(`   - Symbols already current: ${result.skippedSymbols}`);
+    console.log(`   - Prices stored: ${result.pricesStored}`);
+    console.log(`   - Errors: ${result.errors.length}`);
+    console.log(`   - Duration: ${(duration / 1000).toFixed(2)}s`);
+
+    if (result.errors.length > 0) {
+      console.warn('\n⚠️  Errors encountered:');
+      result.errors.forEach((error, index) => {
+        console.warn(`   ${index + 1}. ${error}`);
+      });
+    }
+  } catch (error) {
+    const duration = Date.now() - startTime;
+    console.error('\n❌ Price history sync failed!');
+    console.error(`⏱️  Failed after: ${(duration / 1000).toFixed(2)}s`);
+    console.error(`🔥 Error:`, error);
+
+    throw error; // Re-throw to allow scheduler to handle it
+  }
+}
@@ -11,12 +11,21 @@
  */
 
 import { runDailySync, runIncrementalSync } from './dailySync';
+import { runPriceHistorySync } from './priceHistorySync';
+import { runNotificationRetries } from './notificationDelivery';
+import { runAlertDigests } from './alertDigests';
 
 interface SchedulerOptions {
   enableDailySync?: boolean;
   enableIncrementalSync?: boolean;
   dailySyncHour?: number; // 0-23, default: 2 (2 AM)
   incrementalSyncInterval?: number; // Minutes, default: 60 (1 hour)
+  enablePriceHistorySync?: boolean;
+  priceHistorySyncHour?: number; // 0-23, default: 3 (3 AM, after the daily trade sync)
+  enableNotificationRetries?: boolean;
+  enableAlertDigests?: boolean;
+  digestHour?: number; // 0-23, default: 7 (7 AM) for daily and weekly digests
+  weeklyDigestDay?: number; // 0-6 (Sunday-Saturday), default: 1 (Monday)
 }
 
 class JobScheduler {
@@ -31,7 +40,13 @@ class JobScheduler {
       enableDailySync = true,
       enableIncrementalSync = false,
       dailySyncHour = 2,
-      incrementalSyncInterval = 60
+      incrementalSyncInterval = 60,
+      enablePriceHistorySync = true,
+      priceHistorySyncHour = 3,
+      enableNotificationRetries = true,
+      enableAlertDigests = true,
+      digestHour = 7,
+      weeklyDigestDay = 1
     } = options;
 
     if (this.isRunning) {
@@ -52,6 +67,21 @@ class JobScheduler {
       this.scheduleIncrementalSync(incrementalSyncInterval);
     }
 
+    // Schedule price history sync
+    if (enablePriceHistorySync) {
+      this.schedulePriceHistorySync(priceHistorySyncHour);
+    }
+
+    // Schedule notification delivery retries
+    if (enableNotificationRetries) {
+      this.scheduleNotificationRetries();
+    }
+
+    // Schedule alert digests
+    if (enableAlertDigests) {
+      this.scheduleAlertDigests(digestHour, weeklyDigestDay);
+    }
+
     console.log('✅ Job scheduler started successfully\n');
   }
 
@@ -83,6 +113,80 @@ class JobScheduler {
     this.intervals.push(interval);
   }
 
+  /**
+   * Schedule price history sync to run daily at a specific hour
+   */
+  private schedulePriceHistorySync(hour: number): void {
+    console.log(`📅 Scheduling price history sync for ${hour}:00 (${this.formatHour(hour)})`);
+
+    const interval = setInterval(async () => {
+      const now = new Date();
+
+      if (now.getHours() === hour && now.getMinutes() === 0) {
+        console.log(`\n⏰ Time to run price history sync (${this.formatHour(hour)})`);
+
+        try {
+          await runPriceHistorySync();
+        } catch (error) {
+          console.error('❌ Price history sync job failed:', error);
+          // Don't throw - let the scheduler continue running
+        }
+      }
+    }, 60 * 1000); // Check every minute
+
+    this.intervals.push(interval);
+  }
+
+  /**
+   * Retry failed notification deliveries every minute
+   */
+  private scheduleNotificationRetries(): void {
+    console.log('📅 Scheduling notification delivery retries every minute');
+
+    const interval = setInterval(async () => {
+      try {
+        await runNotificationRetries();
+      } catch (error) {
+        console.error('❌ Notification retry job failed:', error);
+      }
+    }, 60 * 1000);
+
+    this.intervals.push(interval);
+  }
+
+  /**
+   * Send hourly digests at the top of every hour, and daily and weekly
+   * digests at a specific hour
+   */
+  private scheduleAlertDigests(hour: number, weekday: number): void {
+    console.log(`📅 Scheduling alert digests hourly, daily at ${this.formatHour(hour)} and weekly on day ${weekday}`);
+
+    const interval = setInterval(async () => {
+      const now = new Date();
+      if (now.getMinutes() !== 0) {
+        return;
+      }
+
+      const frequencies: Array<'hourly' | 'daily' | 'weekly'> = ['hourly'];
+      if (now.getHours() === hour) {
+        frequencies.push('daily');
+        if (now.getDay() === weekday) {
+          frequencies.push('weekly');
+        }
+      }
+
+      for (const frequency of frequencies) {
+        try {
+          await runAlertDigests(frequency);
+        } catch (error) {
+          console.error(`❌ ${frequency} alert digest job failed:`, error);
+        }
+      }
+    }, 60 * 1000); // Check every minute
+
+    this.intervals.push(interval);
+  }
+
   /**
    * Schedule incremental sync to run at regular intervals
    */
@@ -167,6 +271,22 @@ class JobScheduler {
     console.log('🔧 Manually triggering incremental sync...');
     await runIncrementalSync();
   }
+
+  /**
+   * Manually trigger price history sync (for testing or admin purposes)
+   */
+  async triggerPriceHistorySync(): Promise<void> {
+    console.log('🔧 Manually triggering price history sync...');
+    await runPriceHistorySync();
+  }
+
+  /**
+   * Manually send alert digests (for testing or admin purposes)
+   */
+  async triggerAlertDigests(frequency: 'hourly' | 'daily' | 'weekly'): Promise<void> {
+    console.log(`🔧 Manually triggering ${frequency} alert digests...`);
+    await runAlertDigests(frequency);
+  }
 }
 
 // Singleton instance
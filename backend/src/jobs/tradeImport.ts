@@ -0,0 +1,48 @@
+import { TradeImportService, TradeImportOptions } from '../services/TradeImportService';
+
+/**
+ * Import a historical trades file (CSV, NDJSON or JSON), or validate it
+ * without writing anything on a dry run
+ */
+export async function runTradeImport(filePath: string, options: TradeImportOptions = {}): Promise<void> {
+  const startTime = Date.now();
+  console.log(`🚀 Starting trade import${options.dryRun ? ' (dry run)' : ''}...`);
+  console.log(`📄 File: ${filePath}`);
+
+  try {
+    const report = await TradeImportService.importFile(filePath, options);
+    const duration = Date.now() - startTime;
+
+    console.log(`\n✅ Trade import ${report.dryRun ? 'dry run ' : ''}completed!`);
+    console.log(`📈 Results:`);
+    console.log(`   - Rows in file: ${report.totalRows}`);
+    console.log(`   - Valid rows: ${report.validRows}`);
+    console.log(`   - ${report.dryRun ? 'Would create' : 'Created'}: ${report.createdCount} trades`);
+    console.log(`   - Duplicates (skipped): ${report.duplicateCount}`);
+    console.log(`   - New members: ${report.newMembers.length}`);
+    console.log(`   - New tickers: ${report.newTickers.length}`);
+    console.log(`   - Errors: ${report.errorCount}`);
+    console.log(`   - Duration: ${(duration / 1000).toFixed(2)}s`);
+
+    if (report.newMembers.length > 0) {
+      console.log(`\n👥 New members: ${report.newMembers.join(', ')}`);
+    }
+
+    if (report.errors.length > 0) {
+      console.warn('\n⚠️  Row errors:');
+      report.errors.forEach(({ row, error }) => {
+        console.warn(`   Row ${row}: ${error}`);
+      });
+      if (report.errorCount > report.errors.length) {
+        console.warn(`   ...and ${report.errorCount - report.errors.length} more`);
+      }
+    }
+  } catch (error) {
+    const duration = Date.now() - startTime;
+    console.error('\n❌ Trade import failed!');
+    console.error(`⏱️  Failed after: ${(duration / 1000).toFixed(2)}s`);
+    console.error(`🔥 Error:`, error);
+
+    throw error;
+  }
+}
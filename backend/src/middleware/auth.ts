@@ -1,6 +1,9 @@
 import { Request, Response, NextFunction } from 'express';
 import jwt from 'jsonwebtoken';
-import { User } from '../models/User';
+import { User, UserRole } from '../models/User';
+import { ApiKey, ApiKeyScope } from '../models/ApiKey';
+import { UserSession } from '../models/UserSession';
+import { TwoFactorService } from '../services/TwoFactorService';
 
 // Extend Express Request interface to include user
 declare global {
@@ -8,6 +11,9 @@ declare global {
     interface Request {
       user?: User;
       userId?: string;
+      sessionId?: string; // Login session of the access token
+      apiKey?: ApiKey; // Set when the request authenticated with an API key
+      apiKeyScope?: ApiKeyScope; // Scope an API key needs for this route
     }
   }
 }
@@ -20,12 +26,91 @@ export interface AuthenticatedRequest extends Request {
 export interface JWTPayload {
   userId: string;
   email: string;
+  sessionId?: string;
   iat?: number;
   exp?: number;
 }
 
 /**
- * Authentication middleware that verifies JWT tokens
+ * The API key sent as a Bearer token or in the X-API-Key header, if any
+ */
+const getApiKeyCredential = (req: Request): string | undefined => {
+  const header = req.headers['x-api-key'];
+  if (typeof header === 'string' && header) {
+    return header;
+  }
+
+  const authHeader = req.headers.authorization;
+  if (authHeader?.startsWith('Bearer ') && ApiKey.isApiKey(authHeader.substring(7))) {
+    return authHeader.substring(7);
+  }
+
+  return undefined;
+};
+
+/**
+ * Resolve an API key to its owner. Keys only work on routes that opted in
+ * with allowApiKeys, and only with the scope that route asked for.
+ */
+const authenticateApiKey = async (
+  req: Request,
+  key: string
+): Promise<{ user: User; apiKey: ApiKey } | { status: number; body: object }> => {
+  const requiredScope = req.apiKeyScope;
+  if (!requiredScope) {
+    return {
+      status: 403,
+      body: {
+        error: 'API key not allowed',
+        message: 'API keys cannot be used for this endpoint',
+        code: 'API_KEY_NOT_ALLOWED'
+      }
+    };
+  }
+
+  const apiKey = await ApiKey.findByKey(key);
+  if (!apiKey) {
+    return {
+      status: 401,
+      body: {
+        error: 'Invalid API key',
+        message: 'API key is invalid or has been revoked',
+        code: 'AUTH_API_KEY_INVALID'
+      }
+    };
+  }
+
+  if (!apiKey.hasScope(requiredScope)) {
+    return {
+      status: 403,
+      body: {
+        error: 'Insufficient scope',
+        message: `This endpoint requires an API key with the ${requiredScope} scope`,
+        code: 'API_KEY_SCOPE_REQUIRED',
+        requiredScope
+      }
+    };
+  }
+
+  const user = await User.findById(apiKey.userId);
+  if (!user || !user.hasActiveSubscription()) {
+    return {
+      status: 401,
+      body: {
+        error: 'Account suspended',
+        message: 'User account is not active',
+        code: 'AUTH_ACCOUNT_SUSPENDED'
+      }
+    };
+  }
+
+  apiKey.touch().catch(error => console.error('Failed to record API key use:', error));
+
+  return { user, apiKey };
+};
+
+/**
+ * Authentication middleware that verifies JWT tokens or API keys
  * Adds user information to request object if valid
  */
 export const authenticate = async (
@@ -34,6 +119,20 @@ export const authenticate = async (
   next: NextFunction
 ): Promise<void> => {
   try {
+    const apiKeyCredential = getApiKeyCredential(req);
+    if (apiKeyCredential) {
+      const result = await authenticateApiKey(req, apiKeyCredential);
+      if ('status' in result) {
+        res.status(result.status).json(result.body);
+        return;
+      }
+
+      req.user = result.user;
+      req.userId = result.user.id!;
+      req.apiKey = result.apiKey;
+      return next();
+    }
+
     // Extract token from Authorization header
     const authHeader = req.headers.authorization;
     
@@ -97,8 +196,8 @@ export const authenticate = async (
       }
     }
 
-    // Validate payload structure
-    if (!payload.userId || !payload.email) {
+    // Validate payload structure; tokens from before sessions existed have no sessionId
+    if (!payload.userId || !payload.email || !payload.sessionId) {
       res.status(401).json({
         error: 'Invalid token payload',
         message: 'Token contains invalid user information',
@@ -107,6 +206,17 @@ export const authenticate = async (
       return;
     }
 
+    // A logged-out or revoked session's tokens stop working straight away
+    const session = await UserSession.findActiveById(payload.sessionId);
+    if (!session || session.userId !== payload.userId) {
+      res.status(401).json({
+        error: 'Session revoked',
+        message: 'This session has ended; please log in again',
+        code: 'AUTH_SESSION_REVOKED'
+      });
+      return;
+    }
+
     // Look up user in database
     const user = await User.findById(payload.userId);
     
@@ -132,6 +242,7 @@ export const authenticate = async (
     // Add user information to request
     req.user = user;
     req.userId = user.id!;
+    req.sessionId = session.id;
 
     next();
   } catch (error) {
@@ -154,6 +265,18 @@ export const optionalAuthenticate = async (
   next: NextFunction
 ): Promise<void> => {
   try {
+    // Unusable API keys are ignored like invalid tokens
+    const apiKeyCredential = getApiKeyCredential(req);
+    if (apiKeyCredential) {
+      const result = await authenticateApiKey(req, apiKeyCredential);
+      if (!('status' in result)) {
+        req.user = result.user;
+        req.userId = result.user.id!;
+        req.apiKey = result.apiKey;
+      }
+      return next();
+    }
+
     const authHeader = req.headers.authorization;
     
     // If no auth header, continue without authentication
@@ -174,11 +297,13 @@ export const optionalAuthenticate = async (
     try {
       const payload = jwt.verify(token, jwtSecret) as JWTPayload;
       
-      if (payload.userId && payload.email) {
-        const user = await User.findById(payload.userId);
+      if (payload.userId && payload.email && payload.sessionId) {
+        const session = await UserSession.findActiveById(payload.sessionId);
+        const user = session?.userId === payload.userId ? await User.findById(payload.userId) : null;
         if (user && user.hasActiveSubscription()) {
           req.user = user;
           req.userId = user.id!;
+          req.sessionId = payload.sessionId;
         }
       }
     } catch (jwtError) {
@@ -192,6 +317,18 @@ export const optionalAuthenticate = async (
   }
 };
 
+/**
+ * Let API keys with the given scope authenticate on a route; without this,
+ * authenticate rejects API keys. Goes before authenticate or
+ * optionalAuthenticate.
+ */
+export const allowApiKeys = (scope: ApiKeyScope) => {
+  return (req: Request, res: Response, next: NextFunction): void => {
+    req.apiKeyScope = scope;
+    next();
+  };
+};
+
 /**
  * Middleware to require specific subscription status
  */
@@ -223,48 +360,67 @@ export const requireSubscription = (
 };
 
 /**
- * Middleware to check if user has billing privileges (for admin functions)
+ * Middleware restricting a route to users with at least the given role
+ * (user < analyst < admin). When 2FA is required for admins, an admin who
+ * hasn't enabled it is turned away until they do.
  */
-export const requireBillingAccess = async (
-  req: Request,
-  res: Response,
-  next: NextFunction
-): Promise<void> => {
-  if (!req.user) {
-    res.status(401).json({
-      error: 'Authentication required',
-      message: 'This endpoint requires authentication',
-      code: 'AUTH_REQUIRED'
-    });
-    return;
-  }
+export const requireRole = (role: UserRole) => {
+  return async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    if (!req.user) {
+      res.status(401).json({
+        error: 'Authentication required',
+        message: 'This endpoint requires authentication',
+        code: 'AUTH_REQUIRED'
+      });
+      return;
+    }
 
-  // Check if user is admin (you might have an isAdmin field)
-  // For now, check if user has any active follows (basic billing access)
-  try {
-    const followCount = await req.user.getActiveFollowsCount();
-    
-    // Allow access if user has billing activity or is admin
-    // This is a placeholder - you might want different logic
-    if (followCount >= 0) { // All authenticated users can access for now
-      return next();
+    if (!req.user.hasRole(role)) {
+      res.status(403).json({
+        error: 'Insufficient privileges',
+        message: role === 'admin'
+          ? 'This endpoint requires administrator access'
+          : `This endpoint requires the ${role} role`,
+        code: role === 'admin' ? 'ADMIN_REQUIRED' : 'ROLE_REQUIRED',
+        requiredRole: role
+      });
+      return;
     }
 
-    res.status(403).json({
-      error: 'Insufficient privileges',
-      message: 'This endpoint requires billing access',
-      code: 'BILLING_ACCESS_REQUIRED'
-    });
-  } catch (error) {
-    console.error('Billing access check error:', error);
-    res.status(500).json({
-      error: 'Authorization service error',
-      message: 'An error occurred during authorization check',
-      code: 'AUTH_SERVICE_ERROR'
-    });
-  }
+    try {
+      if (!req.user.isTwoFactorEnabled() && await TwoFactorService.isRequiredFor(req.user)) {
+        res.status(403).json({
+          error: 'Two-factor authentication required',
+          message: 'Administrators must enable two-factor authentication to use this endpoint',
+          code: 'TWO_FACTOR_SETUP_REQUIRED'
+        });
+        return;
+      }
+    } catch (error) {
+      console.error('Role check error:', error);
+      res.status(500).json({
+        error: 'Authentication service error',
+        message: 'An error occurred during authentication',
+        code: 'AUTH_SERVICE_ERROR'
+      });
+      return;
+    }
+
+    next();
+  };
 };
 
+/**
+ * Middleware restricting a route to administrators
+ */
+export const requireAdmin = requireRole('admin');
+
+/**
+ * Middleware for billing operations such as processing monthly charges,
+ * which only administrators may run
+ */
+export const requireBillingAccess = requireAdmin;
+
 /**
  * Middleware to validate user owns a resource
  * Used for endpoints where users should only access their own data
@@ -361,8 +517,11 @@ export const updateLastLogin = async (
 export default {
   authenticate,
   optionalAuthenticate,
+  allowApiKeys,
   requireSubscription,
   requireBillingAccess,
+  requireRole,
+  requireAdmin,
   requireResourceOwnership,
   extractUserIdFromToken,
   updateLastLogin
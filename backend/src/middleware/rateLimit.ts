@@ -28,6 +28,11 @@ interface RateLimitConfig extends Partial<Options> {
  */
 const createKeyGenerator = (includeUserId: boolean = false) => {
   return (req: Request): string => {
+    // Each API key gets its own budget, separate from its owner's sessions
+    if (includeUserId && req.apiKey) {
+      return `apikey:${req.apiKey.id}`;
+    }
+
     if (includeUserId && req.user?.id) {
       return `user:${req.user.id}`;
     }
@@ -217,9 +222,13 @@ export const createTieredRateLimit = (
 ) => {
   return createRateLimiter({
     ...baseConfig,
-    // Override max to be dynamic based on user subscription
+    // Override max to be dynamic based on user subscription; anonymous
+    // requests get the base limit
     max: (req: Request): number => {
-      const subscriptionStatus = req.user?.subscriptionStatus || 'cancelled';
+      if (!req.user) {
+        return baseConfig.max;
+      }
+      const subscriptionStatus = req.user.subscriptionStatus || 'cancelled';
       const multiplier = multipliers[subscriptionStatus] || 1;
       return Math.floor(baseConfig.max * multiplier);
     }
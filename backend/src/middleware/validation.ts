@@ -33,6 +33,14 @@ export const handleValidationErrors = (
   next();
 };
 
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * Whether a value is a UUID, for IDs checked outside a validation chain
+ */
+export const isUuid = (value: unknown): value is string =>
+  typeof value === 'string' && UUID_PATTERN.test(value);
+
 /**
  * Common validation rules
  */
@@ -347,6 +355,11 @@ export const validationRules = {
     validators.filters.minValue,
     validators.filters.maxValue,
     query('hasFilingDate').optional().isBoolean().toBoolean(),
+    query('owner').optional().isIn(['self', 'spouse', 'joint', 'child']),
+    query('lateFiling').optional().isBoolean().toBoolean(),
+    query('dataSource').optional().isIn(['fmp', 'file', 'house_clerk', 'senate_efd']),
+    query('assetClass').optional().isIn(['stock', 'option', 'etf', 'mutual_fund', 'bond', 'crypto', 'other']),
+    query('optionType').optional().isIn(['call', 'put']),
     ...validators.pagination,
     handleValidationErrors
   ],
@@ -418,5 +431,6 @@ export default {
   validationRules,
   handleValidationErrors,
   createValidationChain,
-  sanitizeInput
+  sanitizeInput,
+  isUuid
 };
\ No newline at end of file
@@ -0,0 +1,212 @@
+import { db } from '../config/database';
+import { DigestFrequency } from './NotificationPreference';
+
+export interface DigestGroup {
+  key: string; // trader ID or ticker symbol
+  label: string;
+  trades: number;
+  buys: number;
+  sells: number;
+  totalValue: number;
+}
+
+export interface DigestSummary {
+  totals: {
+    notifications: number;
+    trades: number;
+    buys: number;
+    sells: number;
+    totalValue: number;
+  };
+  byPolitician: DigestGroup[];
+  byTicker: DigestGroup[];
+}
+
+export interface AlertDigestData {
+  id?: string;
+  userId: string;
+  frequency: DigestFrequency;
+  periodStart: Date;
+  periodEnd: Date;
+  notificationCount: number;
+  summary: DigestSummary;
+  createdAt?: Date;
+}
+
+export class AlertDigest {
+  id?: string;
+  userId: string;
+  frequency: DigestFrequency;
+  periodStart: Date;
+  periodEnd: Date;
+  notificationCount: number;
+  summary: DigestSummary;
+  createdAt?: Date;
+
+  constructor(data: AlertDigestData) {
+    this.id = data.id;
+    this.userId = data.userId;
+    this.frequency = data.frequency;
+    this.periodStart = data.periodStart;
+    this.periodEnd = data.periodEnd;
+    this.notificationCount = data.notificationCount;
+    this.summary = data.summary;
+    this.createdAt = data.createdAt;
+  }
+
+  /**
+   * Users with notifications waiting for a digest of the given frequency.
+   * Notifications held until later (e.g. the end of quiet hours) wait.
+   */
+  static async findUsersWithPending(frequency: DigestFrequency): Promise<string[]> {
+    const result = await db.query(
+      `SELECT DISTINCT user_id FROM alert_notifications
+       WHERE digest_frequency = $1 AND digest_id IS NULL
+         AND (held_until IS NULL OR held_until <= NOW())`,
+      [frequency]
+    );
+
+    return result.rows.map(row => row.user_id);
+  }
+
+  /**
+   * Compile a user's pending notifications of one frequency into a digest and
+   * mark them as included. Returns null when nothing is pending.
+   */
+  static async compile(userId: string, frequency: DigestFrequency): Promise<AlertDigest | null> {
+    return db.transaction(async client => {
+      const pending = await client.query(
+        `SELECT id, delivered_at FROM alert_notifications
+         WHERE user_id = $1 AND digest_frequency = $2 AND digest_id IS NULL
+           AND (held_until IS NULL OR held_until <= NOW())
+         ORDER BY delivered_at
+         FOR UPDATE SKIP LOCKED`,
+        [userId, frequency]
+      );
+
+      if (pending.rows.length === 0) {
+        return null;
+      }
+
+      const notificationIds = pending.rows.map(row => row.id);
+
+      // Several alerts can match the same trade; each trade is counted once
+      const tradesCte = `
+        WITH digest_trades AS (
+          SELECT st.* FROM stock_trades st
+          WHERE st.id IN (
+            SELECT trade_id FROM alert_notification_trades WHERE notification_id = ANY($1::uuid[])
+            UNION
+            SELECT trade_id FROM alert_notifications WHERE id = ANY($1::uuid[]) AND trade_id IS NOT NULL
+          )
+        )`;
+      const aggregates = `
+        COUNT(*) AS trades,
+        COUNT(*) FILTER (WHERE dt.transaction_type = 'buy') AS buys,
+        COUNT(*) FILTER (WHERE dt.transaction_type = 'sell') AS sells,
+        COALESCE(SUM(dt.estimated_value), 0) AS total_value`;
+
+      const byPolitician = await client.query(
+        `${tradesCte}
+         SELECT dt.trader_id AS key, COALESCE(cm.name, ci.name, dt.trader_id::text) AS label, ${aggregates}
+         FROM digest_trades dt
+         LEFT JOIN congressional_members cm ON dt.trader_type = 'congressional' AND dt.trader_id = cm.id
+         LEFT JOIN corporate_insiders ci ON dt.trader_type = 'corporate' AND dt.trader_id = ci.id
+         GROUP BY dt.trader_id, COALESCE(cm.name, ci.name, dt.trader_id::text)
+         ORDER BY total_value DESC, trades DESC`,
+        [notificationIds]
+      );
+
+      const byTicker = await client.query(
+        `${tradesCte}
+         SELECT dt.ticker_symbol AS key, COALESCE(sk.company_name, dt.ticker_symbol) AS label, ${aggregates}
+         FROM digest_trades dt
+         LEFT JOIN stock_tickers sk ON dt.ticker_symbol = sk.symbol
+         GROUP BY dt.ticker_symbol, COALESCE(sk.company_name, dt.ticker_symbol)
+         ORDER BY total_value DESC, trades DESC`,
+        [notificationIds]
+      );
+
+      const toGroup = (row: any): DigestGroup => ({
+        key: row.key,
+        label: row.label,
+        trades: parseInt(row.trades),
+        buys: parseInt(row.buys),
+        sells: parseInt(row.sells),
+        totalValue: parseFloat(row.total_value)
+      });
+      const tickerGroups = byTicker.rows.map(toGroup);
+
+      const summary: DigestSummary = {
+        totals: {
+          notifications: notificationIds.length,
+          trades: tickerGroups.reduce((sum, group) => sum + group.trades, 0),
+          buys: tickerGroups.reduce((sum, group) => sum + group.buys, 0),
+          sells: tickerGroups.reduce((sum, group) => sum + group.sells, 0),
+          totalValue: tickerGroups.reduce((sum, group) => sum + group.totalValue, 0)
+        },
+        byPolitician: byPolitician.rows.map(toGroup),
+        byTicker: tickerGroups
+      };
+
+      const result = await client.query(
+        `INSERT INTO alert_digests (user_id, frequency, period_start, period_end, notification_count, summary)
+         VALUES ($1, $2, $3, NOW(), $4, $5)
+         RETURNING *`,
+        [userId, frequency, pending.rows[0].delivered_at, notificationIds.length, JSON.stringify(summary)]
+      );
+      const digest = AlertDigest.fromRow(result.rows[0]);
+
+      await client.query(
+        'UPDATE alert_notifications SET digest_id = $1 WHERE id = ANY($2::uuid[])',
+        [digest.id, notificationIds]
+      );
+
+      return digest;
+    });
+  }
+
+  /**
+   * Find digest by ID
+   */
+  static async findById(id: string): Promise<AlertDigest | null> {
+    const result = await db.query('SELECT * FROM alert_digests WHERE id = $1', [id]);
+    return result.rows.length > 0 ? AlertDigest.fromRow(result.rows[0]) : null;
+  }
+
+  /**
+   * A user's digests, newest first
+   */
+  static async findByUser(
+    userId: string,
+    limit: number = 20,
+    offset: number = 0
+  ): Promise<{ digests: AlertDigest[]; total: number }> {
+    const [result, count] = await Promise.all([
+      db.query(
+        `SELECT * FROM alert_digests WHERE user_id = $1
+         ORDER BY created_at DESC LIMIT $2 OFFSET $3`,
+        [userId, limit, offset]
+      ),
+      db.query('SELECT COUNT(*) AS total FROM alert_digests WHERE user_id = $1', [userId])
+    ]);
+
+    return {
+      digests: result.rows.map(row => AlertDigest.fromRow(row)),
+      total: parseInt(count.rows[0].total)
+    };
+  }
+
+  private static fromRow(row: any): AlertDigest {
+    return new AlertDigest({
+      id: row.id,
+      userId: row.user_id,
+      frequency: row.frequency,
+      periodStart: row.period_start,
+      periodEnd: row.period_end,
+      notificationCount: row.notification_count,
+      summary: row.summary,
+      createdAt: row.created_at
+    });
+  }
+}
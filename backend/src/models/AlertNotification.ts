@@ -1,15 +1,28 @@
 import { db } from '../config/database';
 import { PoolClient } from 'pg';
+import { DigestFrequency } from './NotificationPreference';
 
 export type NotificationType = 'in_app';
+export type NotificationHeldReason = 'quiet_hours' | 'rate_limit';
 
 export interface AlertNotificationData {
   id?: string;
   alertId: string;
   userId: string;
   tradeId?: string;
+  // Every trade behind the notification, including tradeId
+  tradeIds?: string[];
+  // Set when the notification is about an amendment to the trade
+  tradeRevision?: number;
   notificationType?: NotificationType;
   message: string;
+  // Set while the notification is held for a digest
+  digestFrequency?: DigestFrequency;
+  // The digest that included it
+  digestId?: string;
+  // Set when quiet hours or the hourly cap moved the notification into a summary
+  heldReason?: NotificationHeldReason;
+  heldUntil?: Date;
   deliveredAt?: Date;
   readAt?: Date;
 }
@@ -18,8 +31,17 @@ export interface CreateAlertNotificationData {
   alertId: string;
   userId: string;
   tradeId?: string;
+  // Additional contributing trades, e.g. the members behind a cluster alert
+  tradeIds?: string[];
+  // The revision of tradeId an amendment notification is about
+  tradeRevision?: number;
   notificationType?: NotificationType;
   message: string;
+  // Hold for the next digest of this frequency instead of delivering now
+  digestFrequency?: DigestFrequency;
+  heldReason?: NotificationHeldReason;
+  // Leave out of digests compiled before this time
+  heldUntil?: Date;
 }
 
 export interface AlertNotificationFilters {
@@ -48,7 +70,15 @@ export interface NotificationWithDetails extends AlertNotificationData {
     transactionType: string;
     transactionDate: Date;
     estimatedValue?: number;
+    status: string;
   };
+  deliveries?: Array<{
+    channel: 'email' | 'webhook' | 'in_app';
+    status: 'pending' | 'retrying' | 'sent' | 'failed' | 'skipped';
+    attempts: number;
+    lastError?: string;
+    deliveredAt?: Date;
+  }>;
 }
 
 export interface NotificationStats {
@@ -65,8 +95,14 @@ export class AlertNotification {
   alertId: string;
   userId: string;
   tradeId?: string;
+  tradeIds?: string[];
+  tradeRevision?: number;
   notificationType: NotificationType;
   message: string;
+  digestFrequency?: DigestFrequency;
+  digestId?: string;
+  heldReason?: NotificationHeldReason;
+  heldUntil?: Date;
   deliveredAt?: Date;
   readAt?: Date;
 
@@ -75,8 +111,14 @@ export class AlertNotification {
     this.alertId = data.alertId;
     this.userId = data.userId;
     this.tradeId = data.tradeId;
+    this.tradeIds = data.tradeIds;
+    this.tradeRevision = data.tradeRevision;
     this.notificationType = data.notificationType || 'in_app';
     this.message = data.message;
+    this.digestFrequency = data.digestFrequency;
+    this.digestId = data.digestId;
+    this.heldReason = data.heldReason;
+    this.heldUntil = data.heldUntil;
     this.deliveredAt = data.deliveredAt;
     this.readAt = data.readAt;
   }
@@ -121,14 +163,19 @@ export class AlertNotification {
         throw new Error('User does not exist');
       }
 
-      // Verify trade exists if provided
-      if (notificationData.tradeId) {
-        const trade = await client.query(
-          'SELECT id FROM stock_trades WHERE id = $1',
-          [notificationData.tradeId]
+      // Verify trades exist if provided
+      const tradeIds = Array.from(new Set([
+        ...(notificationData.tradeId ? [notificationData.tradeId] : []),
+        ...(notificationData.tradeIds || [])
+      ]));
+
+      if (tradeIds.length > 0) {
+        const trades = await client.query(
+          'SELECT id FROM stock_trades WHERE id = ANY($1::uuid[])',
+          [tradeIds]
         );
 
-        if (trade.rows.length === 0) {
+        if (trades.rows.length !== tradeIds.length) {
           throw new Error('Trade does not exist');
         }
       }
@@ -136,26 +183,46 @@ export class AlertNotification {
       // Insert new notification
       const result = await client.query(
         `INSERT INTO alert_notifications 
-         (alert_id, user_id, trade_id, notification_type, message)
-         VALUES ($1, $2, $3, $4, $5)
+         (alert_id, user_id, trade_id, trade_revision, notification_type, message, digest_frequency, held_reason,
+          held_until)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
          RETURNING *`,
         [
           notificationData.alertId,
           notificationData.userId,
           notificationData.tradeId || null,
+          notificationData.tradeRevision || null,
           notificationData.notificationType || 'in_app',
-          notificationData.message
+          notificationData.message,
+          notificationData.digestFrequency || null,
+          notificationData.heldReason || null,
+          notificationData.heldUntil || null
         ]
       );
 
       const notificationRow = result.rows[0];
+
+      if (tradeIds.length > 0) {
+        await client.query(
+          `INSERT INTO alert_notification_trades (notification_id, trade_id)
+           SELECT $1, UNNEST($2::uuid[])`,
+          [notificationRow.id, tradeIds]
+        );
+      }
+
       return new AlertNotification({
         id: notificationRow.id,
         alertId: notificationRow.alert_id,
         userId: notificationRow.user_id,
         tradeId: notificationRow.trade_id,
+        tradeIds,
+        tradeRevision: notificationRow.trade_revision || undefined,
         notificationType: notificationRow.notification_type,
         message: notificationRow.message,
+        digestFrequency: notificationRow.digest_frequency || undefined,
+        digestId: notificationRow.digest_id || undefined,
+        heldReason: notificationRow.held_reason || undefined,
+        heldUntil: notificationRow.held_until || undefined,
         deliveredAt: notificationRow.delivered_at,
         readAt: notificationRow.read_at
       });
@@ -184,6 +251,10 @@ export class AlertNotification {
       tradeId: result.trade_id,
       notificationType: result.notification_type,
       message: result.message,
+      digestFrequency: result.digest_frequency || undefined,
+      digestId: result.digest_id || undefined,
+      heldReason: result.held_reason || undefined,
+      heldUntil: result.held_until || undefined,
       deliveredAt: result.delivered_at,
       readAt: result.read_at
     });
@@ -218,10 +289,28 @@ export class AlertNotification {
                 'tickerSymbol', st.ticker_symbol,
                 'transactionType', st.transaction_type,
                 'transactionDate', st.transaction_date,
-                'estimatedValue', st.estimated_value
+                'estimatedValue', st.estimated_value,
+                'status', st.status
               )
             ELSE NULL
-          END as trade
+          END as trade,
+          (
+            SELECT COALESCE(json_agg(json_build_object(
+              'channel', nd.channel,
+              'status', nd.status,
+              'attempts', nd.attempts,
+              'lastError', nd.last_error,
+              'deliveredAt', nd.delivered_at
+            ) ORDER BY nd.channel), '[]'::json)
+            FROM notification_deliveries nd
+            WHERE nd.notification_id = an.id
+          ) as deliveries,
+          (
+            SELECT COALESCE(json_agg(ant.trade_id ORDER BY ct.transaction_date, ct.created_at), '[]'::json)
+            FROM alert_notification_trades ant
+            JOIN stock_trades ct ON ant.trade_id = ct.id
+            WHERE ant.notification_id = an.id
+          ) as trade_ids
         FROM alert_notifications an
         LEFT JOIN user_alerts ua ON an.alert_id = ua.id
         LEFT JOIN stock_trades st ON an.trade_id = st.id
@@ -278,12 +367,19 @@ export class AlertNotification {
         alertId: row.alert_id,
         userId: row.user_id,
         tradeId: row.trade_id,
+        tradeIds: row.trade_ids,
+        tradeRevision: row.trade_revision || undefined,
         notificationType: row.notification_type,
         message: row.message,
+        digestFrequency: row.digest_frequency || undefined,
+        digestId: row.digest_id || undefined,
+        heldReason: row.held_reason || undefined,
+        heldUntil: row.held_until || undefined,
         deliveredAt: row.delivered_at,
         readAt: row.read_at,
         alert: row.alert,
-        trade: row.trade
+        trade: row.trade,
+        deliveries: row.deliveries
       }));
     } finally {
       client.release();
@@ -326,6 +422,80 @@ export class AlertNotification {
     return AlertNotification.findWithDetails({ userId, startDate }, limit, 0);
   }
 
+  /**
+   * Whether the user already has a single-trade notification for this trade,
+   * or for this revision of it when given. Notifications covering several
+   * trades (cluster alerts) do not count.
+   */
+  static async existsForTrade(userId: string, tradeId: string, tradeRevision?: number): Promise<boolean> {
+    const result = await db.query(
+      `SELECT 1 FROM alert_notifications an
+       WHERE an.user_id = $1 AND an.trade_id = $2 AND an.trade_revision IS NOT DISTINCT FROM $3
+         AND (SELECT COUNT(*) FROM alert_notification_trades ant WHERE ant.notification_id = an.id) <= 1
+       LIMIT 1`,
+      [userId, tradeId, tradeRevision ?? null]
+    );
+
+    return result.rows.length > 0;
+  }
+
+  /**
+   * Number of notifications delivered individually (not held for a digest)
+   * to the user since the given time
+   */
+  static async countDeliveredSince(userId: string, since: Date): Promise<number> {
+    const result = await db.query(
+      `SELECT COUNT(*) AS count FROM alert_notifications
+       WHERE user_id = $1 AND delivered_at > $2 AND digest_frequency IS NULL`,
+      [userId, since]
+    );
+
+    return parseInt(result.rows[0].count);
+  }
+
+  /**
+   * Find notifications delivered in-app after a (deliveredAt, id) cursor,
+   * oldest first. Used to replay notifications a live stream client missed
+   * while disconnected. Notifications held for a digest were never pushed
+   * live and are left out.
+   */
+  static async findInAppSince(
+    userId: string,
+    since: { deliveredAt: Date; id: string },
+    limit: number = 100
+  ): Promise<AlertNotification[]> {
+    const result = await db.query(
+      `SELECT an.*,
+              ARRAY(
+                SELECT ant.trade_id FROM alert_notification_trades ant
+                WHERE ant.notification_id = an.id
+              ) AS trade_ids
+       FROM alert_notifications an
+       WHERE an.user_id = $1
+         AND (date_trunc('milliseconds', an.delivered_at), an.id) > ($2, $3::uuid)
+         AND an.digest_frequency IS NULL
+         AND NOT EXISTS (
+           SELECT 1 FROM notification_deliveries nd
+           WHERE nd.notification_id = an.id AND nd.channel = 'in_app' AND nd.status = 'skipped'
+         )
+       ORDER BY date_trunc('milliseconds', an.delivered_at) ASC, an.id ASC
+       LIMIT $4`,
+      [userId, since.deliveredAt, since.id, limit]
+    );
+
+    return result.rows.map(row => new AlertNotification({
+      id: row.id,
+      alertId: row.alert_id,
+      userId: row.user_id,
+      tradeId: row.trade_id,
+      tradeIds: row.trade_ids,
+      notificationType: row.notification_type,
+      message: row.message,
+      deliveredAt: row.delivered_at,
+      readAt: row.read_at
+    }));
+  }
+
   /**
    * Mark notification as read
    */
@@ -501,10 +671,11 @@ export class AlertNotification {
       await client.query('BEGIN');
 
       for (const notification of notifications) {
-        await client.query(
+        const result = await client.query(
           `INSERT INTO alert_notifications 
            (alert_id, user_id, trade_id, notification_type, message)
-           VALUES ($1, $2, $3, $4, $5)`,
+           VALUES ($1, $2, $3, $4, $5)
+           RETURNING id`,
           [
             notification.alertId,
             notification.userId,
@@ -513,6 +684,18 @@ export class AlertNotification {
             notification.message
           ]
         );
+
+        const tradeIds = Array.from(new Set([
+          ...(notification.tradeId ? [notification.tradeId] : []),
+          ...(notification.tradeIds || [])
+        ]));
+        if (tradeIds.length > 0) {
+          await client.query(
+            `INSERT INTO alert_notification_trades (notification_id, trade_id)
+             SELECT $1, UNNEST($2::uuid[])`,
+            [result.rows[0].id, tradeIds]
+          );
+        }
       }
 
       await client.query('COMMIT');
@@ -640,8 +823,13 @@ export class AlertNotification {
       alertId: this.alertId,
       userId: this.userId,
       tradeId: this.tradeId,
+      tradeIds: this.tradeIds,
       notificationType: this.notificationType,
       message: this.message,
+      digestFrequency: this.digestFrequency,
+      digestId: this.digestId,
+      heldReason: this.heldReason,
+      heldUntil: this.heldUntil,
       deliveredAt: this.deliveredAt,
       readAt: this.readAt
     };
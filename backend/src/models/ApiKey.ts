@@ -0,0 +1,182 @@
+import crypto from 'crypto';
+import { db } from '../config/database';
+import { ValidationError } from '../middleware/errors';
+
+export type ApiKeyScope = 'read:trades' | 'read:analytics' | 'manage:alerts';
+
+export const API_KEY_SCOPES: ApiKeyScope[] = ['read:trades', 'read:analytics', 'manage:alerts'];
+
+// Every key starts with this, so a key can be told apart from a JWT
+export const API_KEY_PREFIX = 'ctk_';
+
+const MAX_ACTIVE_KEYS_PER_USER = 10;
+const DISPLAYED_PREFIX_LENGTH = 12;
+
+// How stale last_used_at may get before a request updates it
+const LAST_USED_RESOLUTION_SECONDS = 60;
+
+export interface ApiKeyData {
+  id: string;
+  userId: string;
+  name: string;
+  keyPrefix: string;
+  scopes: ApiKeyScope[];
+  lastUsedAt?: Date;
+  revokedAt?: Date;
+  createdAt: Date;
+}
+
+const hashKey = (key: string): string =>
+  crypto.createHash('sha256').update(key).digest('hex');
+
+export class ApiKey {
+  id: string;
+  userId: string;
+  name: string;
+  keyPrefix: string;
+  scopes: ApiKeyScope[];
+  lastUsedAt?: Date;
+  revokedAt?: Date;
+  createdAt: Date;
+
+  constructor(data: ApiKeyData) {
+    this.id = data.id;
+    this.userId = data.userId;
+    this.name = data.name;
+    this.keyPrefix = data.keyPrefix;
+    this.scopes = data.scopes;
+    this.lastUsedAt = data.lastUsedAt;
+    this.revokedAt = data.revokedAt;
+    this.createdAt = data.createdAt;
+  }
+
+  static isApiKey(credential: string): boolean {
+    return credential.startsWith(API_KEY_PREFIX);
+  }
+
+  /**
+   * Create a key for a user. The plaintext key is only returned here; just
+   * its hash is stored.
+   */
+  static async create(
+    userId: string,
+    data: { name: string; scopes: ApiKeyScope[] }
+  ): Promise<{ apiKey: ApiKey; key: string }> {
+    const name = data.name?.trim();
+    if (!name || name.length > 100) {
+      throw new ValidationError('Name is required and must be at most 100 characters');
+    }
+
+    if (!Array.isArray(data.scopes) || data.scopes.length === 0) {
+      throw new ValidationError(`At least one scope is required: ${API_KEY_SCOPES.join(', ')}`);
+    }
+
+    const invalid = data.scopes.filter(scope => !API_KEY_SCOPES.includes(scope));
+    if (invalid.length > 0) {
+      throw new ValidationError(`Unknown scopes: ${invalid.join(', ')}`);
+    }
+
+    const active = await db.query(
+      'SELECT COUNT(*) AS total FROM api_keys WHERE user_id = $1 AND revoked_at IS NULL',
+      [userId]
+    );
+    if (parseInt(active.rows[0].total) >= MAX_ACTIVE_KEYS_PER_USER) {
+      throw new ValidationError(`A user can have at most ${MAX_ACTIVE_KEYS_PER_USER} active API keys`);
+    }
+
+    const key = API_KEY_PREFIX + crypto.randomBytes(32).toString('base64url');
+
+    const result = await db.query(
+      `INSERT INTO api_keys (user_id, name, key_prefix, key_hash, scopes)
+       VALUES ($1, $2, $3, $4, $5)
+       RETURNING *`,
+      [userId, name, key.slice(0, DISPLAYED_PREFIX_LENGTH), hashKey(key), [...new Set(data.scopes)]]
+    );
+
+    return { apiKey: ApiKey.fromRow(result.rows[0]), key };
+  }
+
+  /**
+   * The unrevoked key matching a plaintext key, if any
+   */
+  static async findByKey(key: string): Promise<ApiKey | null> {
+    const result = await db.query(
+      'SELECT * FROM api_keys WHERE key_hash = $1 AND revoked_at IS NULL',
+      [hashKey(key)]
+    );
+    return result.rows.length > 0 ? ApiKey.fromRow(result.rows[0]) : null;
+  }
+
+  /**
+   * A user's keys, newest first, including revoked ones
+   */
+  static async findByUser(userId: string): Promise<ApiKey[]> {
+    const result = await db.query(
+      'SELECT * FROM api_keys WHERE user_id = $1 ORDER BY created_at DESC',
+      [userId]
+    );
+    return result.rows.map(row => ApiKey.fromRow(row));
+  }
+
+  static async findByIdForUser(id: string, userId: string): Promise<ApiKey | null> {
+    const result = await db.query(
+      'SELECT * FROM api_keys WHERE id = $1 AND user_id = $2',
+      [id, userId]
+    );
+    return result.rows.length > 0 ? ApiKey.fromRow(result.rows[0]) : null;
+  }
+
+  hasScope(scope: ApiKeyScope): boolean {
+    return this.scopes.includes(scope);
+  }
+
+  async revoke(): Promise<void> {
+    const result = await db.query(
+      `UPDATE api_keys SET revoked_at = COALESCE(revoked_at, NOW())
+       WHERE id = $1
+       RETURNING revoked_at`,
+      [this.id]
+    );
+    this.revokedAt = result.rows[0]?.revoked_at;
+  }
+
+  /**
+   * Record that the key was just used; skipped when it was already recorded
+   * within the last minute so busy scripts don't write on every request
+   */
+  async touch(): Promise<void> {
+    await db.query(
+      `UPDATE api_keys SET last_used_at = NOW()
+       WHERE id = $1
+         AND (last_used_at IS NULL OR last_used_at < NOW() - make_interval(secs => $2))`,
+      [this.id, LAST_USED_RESOLUTION_SECONDS]
+    );
+    this.lastUsedAt = new Date();
+  }
+
+  toJSON(): ApiKeyData {
+    return {
+      id: this.id,
+      userId: this.userId,
+      name: this.name,
+      keyPrefix: this.keyPrefix,
+      scopes: this.scopes,
+      lastUsedAt: this.lastUsedAt,
+      revokedAt: this.revokedAt,
+      createdAt: this.createdAt
+    };
+  }
+
+  private static fromRow(row: any): ApiKey {
+    return new ApiKey({
+      id: row.id,
+      userId: row.user_id,
+      name: row.name,
+      keyPrefix: row.key_prefix,
+      scopes: row.scopes || [],
+      lastUsedAt: row.last_used_at || undefined,
+      revokedAt: row.revoked_at || undefined,
+      createdAt: row.created_at
+    });
+  }
+}
@@ -0,0 +1,45 @@
+import { db } from '../config/database';
+
+/**
+ * Settings administrators can change at runtime
+ */
+export interface AppSettings {
+  requireAdminTwoFactor: boolean; // Admin-role users must enable 2FA to use privileged routes
+}
+
+const SETTING_KEYS: Record<keyof AppSettings, string> = {
+  requireAdminTwoFactor: 'require_admin_two_factor'
+};
+
+const DEFAULT_SETTINGS: AppSettings = {
+  requireAdminTwoFactor: false
+};
+
+export class AppSetting {
+  static async get<K extends keyof AppSettings>(name: K): Promise<AppSettings[K]> {
+    const result = await db.query('SELECT value FROM app_settings WHERE key = $1', [SETTING_KEYS[name]]);
+    return result.rows.length > 0 ? result.rows[0].value : DEFAULT_SETTINGS[name];
+  }
+
+  static async getAll(): Promise<AppSettings> {
+    const result = await db.query('SELECT key, value FROM app_settings');
+    const settings = { ...DEFAULT_SETTINGS };
+
+    for (const name of Object.keys(SETTING_KEYS) as Array<keyof AppSettings>) {
+      const row = result.rows.find(r => r.key === SETTING_KEYS[name]);
+      if (row) {
+        settings[name] = row.value;
+      }
+    }
+    return settings;
+  }
+
+  static async set<K extends keyof AppSettings>(name: K, value: AppSettings[K], updatedBy?: string): Promise<void> {
+    await db.query(
+      `INSERT INTO app_settings (key, value, updated_by, updated_at)
+       VALUES ($1, $2, $3, NOW())
+       ON CONFLICT (key) DO UPDATE SET value = EXCLUDED.value, updated_by = EXCLUDED.updated_by, updated_at = NOW()`,
+      [SETTING_KEYS[name], JSON.stringify(value), updatedBy || null]
+    );
+  }
+}
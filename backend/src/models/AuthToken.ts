@@ -0,0 +1,109 @@
+import crypto from 'crypto';
+import { db } from '../config/database';
+
+export type AuthTokenPurpose = 'password_reset' | 'email_verification';
+
+export interface AuthTokenData {
+  id: string;
+  userId: string;
+  purpose: AuthTokenPurpose;
+  email: string;
+  createdAt: Date;
+  expiresAt: Date;
+  usedAt?: Date;
+}
+
+const hashToken = (token: string): string =>
+  crypto.createHash('sha256').update(token).digest('hex');
+
+/**
+ * Single-use token behind a password reset or email verification link
+ */
+export class AuthToken {
+  id: string;
+  userId: string;
+  purpose: AuthTokenPurpose;
+  email: string;
+  createdAt: Date;
+  expiresAt: Date;
+  usedAt?: Date;
+
+  constructor(data: AuthTokenData) {
+    this.id = data.id;
+    this.userId = data.userId;
+    this.purpose = data.purpose;
+    this.email = data.email;
+    this.createdAt = data.createdAt;
+    this.expiresAt = data.expiresAt;
+    this.usedAt = data.usedAt;
+  }
+
+  /**
+   * Issue a token for a user's current email address. Any earlier unused
+   * token for the same purpose stops working, so only the latest link is
+   * valid. The plaintext token is only returned here; just its hash is stored.
+   */
+  static async issue(
+    userId: string,
+    email: string,
+    purpose: AuthTokenPurpose,
+    ttlMinutes: number
+  ): Promise<{ authToken: AuthToken; token: string }> {
+    const token = crypto.randomBytes(32).toString('base64url');
+
+    return db.transaction(async (client) => {
+      await client.query(
+        'DELETE FROM auth_tokens WHERE user_id = $1 AND purpose = $2 AND used_at IS NULL',
+        [userId, purpose]
+      );
+
+      const result = await client.query(
+        `INSERT INTO auth_tokens (user_id, purpose, token_hash, email, expires_at)
+         VALUES ($1, $2, $3, $4, NOW() + make_interval(mins => $5))
+         RETURNING *`,
+        [userId, purpose, hashToken(token), email, ttlMinutes]
+      );
+
+      return { authToken: AuthToken.fromRow(result.rows[0]), token };
+    });
+  }
+
+  /**
+   * Mark a token used and return it, or null when it is unknown, expired,
+   * already used or issued for another purpose. The check and the update
+   * are one statement, so two requests can't both use the same token.
+   */
+  static async consume(token: string, purpose: AuthTokenPurpose): Promise<AuthToken | null> {
+    const result = await db.query(
+      `UPDATE auth_tokens SET used_at = NOW()
+       WHERE token_hash = $1 AND purpose = $2 AND used_at IS NULL AND expires_at > NOW()
+       RETURNING *`,
+      [hashToken(token), purpose]
+    );
+    return result.rows.length > 0 ? AuthToken.fromRow(result.rows[0]) : null;
+  }
+
+  toJSON(): AuthTokenData {
+    return {
+      id: this.id,
+      userId: this.userId,
+      purpose: this.purpose,
+      email: this.email,
+      createdAt: this.createdAt,
+      expiresAt: this.expiresAt,
+      usedAt: this.usedAt
+    };
+  }
+
+  private static fromRow(row: any): AuthToken {
+    return new AuthToken({
+      id: row.id,
+      userId: row.user_id,
+      purpose: row.purpose,
+      email: row.email,
+      createdAt: row.created_at,
+      expiresAt: row.expires_at,
+      usedAt: row.used_at || undefined
+    });
+  }
+}
@@ -0,0 +1,124 @@
+import { db } from '../config/database';
+
+export type CommitteeChamber = 'senate' | 'house' | 'joint';
+
+export interface CommitteeData {
+  id?: string;
+  code: string;
+  name: string;
+  chamber: CommitteeChamber;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+export interface CommitteeMemberData {
+  memberId: string;
+  role?: string;
+}
+
+export class Committee {
+  id?: string;
+  code: string;
+  name: string;
+  chamber: CommitteeChamber;
+  createdAt?: Date;
+  updatedAt?: Date;
+
+  constructor(data: CommitteeData) {
+    this.id = data.id;
+    this.code = data.code.toUpperCase();
+    this.name = data.name;
+    this.chamber = data.chamber;
+    this.createdAt = data.createdAt;
+    this.updatedAt = data.updatedAt;
+  }
+
+  /**
+   * Insert or update a committee by its code
+   */
+  static async upsert(data: CommitteeData): Promise<Committee> {
+    if (!['senate', 'house', 'joint'].includes(data.chamber)) {
+      throw new Error('Committee chamber must be "senate", "house", or "joint"');
+    }
+
+    const result = await db.query(
+      `INSERT INTO committees (code, name, chamber)
+       VALUES ($1, $2, $3)
+       ON CONFLICT (code) DO UPDATE SET
+         name = EXCLUDED.name,
+         chamber = EXCLUDED.chamber,
+         updated_at = NOW()
+       RETURNING *`,
+      [data.code.toUpperCase(), data.name, data.chamber]
+    );
+
+    return Committee.fromRow(result.rows[0]);
+  }
+
+  /**
+   * Find a committee by its code
+   */
+  static async findByCode(code: string): Promise<Committee | null> {
+    const result = await db.query('SELECT * FROM committees WHERE code = $1', [code.toUpperCase()]);
+    return result.rows.length > 0 ? Committee.fromRow(result.rows[0]) : null;
+  }
+
+  /**
+   * Committees a member currently sits on
+   */
+  static async findByMember(memberId: string): Promise<Committee[]> {
+    const result = await db.query(
+      `SELECT c.* FROM committees c
+       JOIN committee_memberships cm ON cm.committee_id = c.id
+       WHERE cm.member_id = $1
+       ORDER BY c.code`,
+      [memberId]
+    );
+
+    return result.rows.map(row => Committee.fromRow(row));
+  }
+
+  /**
+   * Replace the committee's roster with the given members
+   */
+  async setMembers(members: CommitteeMemberData[]): Promise<void> {
+    if (!this.id) {
+      throw new Error('Committee ID is required to set members');
+    }
+
+    await db.transaction(async client => {
+      await client.query('DELETE FROM committee_memberships WHERE committee_id = $1', [this.id]);
+      for (const member of members) {
+        await client.query(
+          `INSERT INTO committee_memberships (committee_id, member_id, role)
+           VALUES ($1, $2, $3)
+           ON CONFLICT (committee_id, member_id) DO UPDATE SET role = EXCLUDED.role`,
+          [this.id, member.memberId, member.role || null]
+        );
+      }
+    });
+  }
+
+  /**
+   * IDs of the committee's current members
+   */
+  async getMemberIds(): Promise<string[]> {
+    const result = await db.query(
+      'SELECT member_id FROM committee_memberships WHERE committee_id = $1',
+      [this.id]
+    );
+
+    return result.rows.map(row => row.member_id);
+  }
+
+  private static fromRow(row: any): Committee {
+    return new Committee({
+      id: row.id,
+      code: row.code,
+      name: row.name,
+      chamber: row.chamber,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at
+    });
+  }
+}
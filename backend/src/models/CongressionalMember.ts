@@ -1,5 +1,23 @@
 import { db } from '../config/database';
 import { PoolClient } from 'pg';
+import { StockTrade } from './StockTrade';
+
+/**
+ * Normalize a member name for alias matching: case, accents, punctuation,
+ * honorifics and generational suffixes are ignored, so "Thomas H. Tuberville"
+ * and "thomas h tuberville" compare equal.
+ */
+export function normalizeMemberName(name: string): string {
+  return name
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[.,']/g, '')
+    .replace(/^(the )?(hon|honorable|sen|senator|rep|representative|dr|mr|mrs|ms) /, '')
+    .replace(/ (jr|sr|ii|iii|iv)$/, '')
+    .replace(/[^a-z-]+/g, ' ')
+    .trim();
+}
 
 export interface CongressionalMemberData {
   id?: string;
@@ -10,6 +28,7 @@ export interface CongressionalMemberData {
   partyAffiliation?: 'democratic' | 'republican' | 'independent' | 'other';
   officeStartDate?: Date;
   officeEndDate?: Date;
+  bioguideId?: string;
   createdAt?: Date;
   updatedAt?: Date;
 }
@@ -22,8 +41,11 @@ export interface CreateCongressionalMemberData {
   partyAffiliation?: 'democratic' | 'republican' | 'independent' | 'other';
   officeStartDate?: Date;
   officeEndDate?: Date;
+  bioguideId?: string;
 }
 
+export type MemberAliasSource = 'roster' | 'sync' | 'manual';
+
 export interface CongressionalMemberFilters {
   position?: 'senator' | 'representative';
   stateCode?: string;
@@ -40,6 +62,7 @@ export class CongressionalMember {
   partyAffiliation?: 'democratic' | 'republican' | 'independent' | 'other';
   officeStartDate?: Date;
   officeEndDate?: Date;
+  bioguideId?: string;
   createdAt?: Date;
   updatedAt?: Date;
 
@@ -52,6 +75,7 @@ export class CongressionalMember {
     this.partyAffiliation = data.partyAffiliation;
     this.officeStartDate = data.officeStartDate;
     this.officeEndDate = data.officeEndDate;
+    this.bioguideId = data.bioguideId;
     this.createdAt = data.createdAt;
     this.updatedAt = data.updatedAt;
   }
@@ -91,8 +115,8 @@ export class CongressionalMember {
       // Insert new congressional member
       const result = await client.query(
         `INSERT INTO congressional_members 
-         (name, position, state_code, district, party_affiliation, office_start_date, office_end_date)
-         VALUES ($1, $2, $3, $4, $5, $6, $7)
+         (name, position, state_code, district, party_affiliation, office_start_date, office_end_date, bioguide_id)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
          RETURNING *`,
         [
           memberData.name,
@@ -101,7 +125,8 @@ export class CongressionalMember {
           memberData.district || null,
           memberData.partyAffiliation || null,
           memberData.officeStartDate || null,
-          memberData.officeEndDate || null
+          memberData.officeEndDate || null,
+          memberData.bioguideId || null
         ]
       );
 
@@ -115,6 +140,7 @@ export class CongressionalMember {
         partyAffiliation: memberRow.party_affiliation,
         officeStartDate: memberRow.office_start_date,
         officeEndDate: memberRow.office_end_date,
+        bioguideId: memberRow.bioguide_id || undefined,
         createdAt: memberRow.created_at,
         updatedAt: memberRow.updated_at
       });
@@ -152,7 +178,9 @@ export class CongressionalMember {
 
     const result = await client.query(query, params);
 
-    if (result.rows.length > 0) {
+    // Each state has two Senate seats
+    const seats = memberData.position === 'senator' ? 2 : 1;
+    if (result.rows.length >= seats) {
       const positionDesc = memberData.position === 'senator' 
         ? `senator for ${memberData.stateCode}` 
         : `representative for ${memberData.stateCode}-${memberData.district}`;
@@ -182,6 +210,7 @@ export class CongressionalMember {
       partyAffiliation: result.party_affiliation,
       officeStartDate: result.office_start_date,
       officeEndDate: result.office_end_date,
+      bioguideId: result.bioguide_id || undefined,
       createdAt: result.created_at,
       updatedAt: result.updated_at
     });
@@ -237,6 +266,7 @@ export class CongressionalMember {
         partyAffiliation: row.party_affiliation,
         officeStartDate: row.office_start_date,
         officeEndDate: row.office_end_date,
+        bioguideId: row.bioguide_id || undefined,
         createdAt: row.created_at,
         updatedAt: row.updated_at
       }));
@@ -313,6 +343,7 @@ export class CongressionalMember {
         partyAffiliation: row.party_affiliation,
         officeStartDate: row.office_start_date,
         officeEndDate: row.office_end_date,
+        bioguideId: row.bioguide_id || undefined,
         createdAt: row.created_at,
         updatedAt: row.updated_at
       }));
@@ -372,7 +403,7 @@ export class CongressionalMember {
       };
 
       // Apply validation rules
-      if (mergedData.position === 'senator' && mergedData.district !== undefined) {
+      if (mergedData.position === 'senator' && mergedData.district != null) {
         throw new Error('Senators cannot have a district number');
       }
 
@@ -416,6 +447,11 @@ export class CongressionalMember {
       values.push(updates.officeEndDate);
     }
 
+    if (updates.bioguideId !== undefined) {
+      fields.push(`bioguide_id = $${paramCounter++}`);
+      values.push(updates.bioguideId);
+    }
+
     if (fields.length === 0) {
       return;
     }
@@ -449,6 +485,7 @@ export class CongressionalMember {
       if (updates.partyAffiliation !== undefined) this.partyAffiliation = updates.partyAffiliation;
       if (updates.officeStartDate !== undefined) this.officeStartDate = updates.officeStartDate;
       if (updates.officeEndDate !== undefined) this.officeEndDate = updates.officeEndDate;
+      if (updates.bioguideId !== undefined) this.bioguideId = updates.bioguideId;
       this.updatedAt = new Date();
     } finally {
       client.release();
@@ -494,7 +531,8 @@ export class CongressionalMember {
     const client = await db.connect();
     try {
       const result = await client.query(
-        'SELECT COUNT(*) as count FROM stock_trades WHERE trader_type = $1 AND trader_id = $2',
+        `SELECT COUNT(*) as count FROM stock_trades
+         WHERE trader_type = $1 AND trader_id = $2 AND ${StockTrade.countedCondition('stock_trades')}`,
         ['congressional', this.id]
       );
       return parseInt(result.rows[0].count);
@@ -514,6 +552,7 @@ export class CongressionalMember {
          INNER JOIN stock_trades st ON cm.id = st.trader_id 
          WHERE st.trader_type = 'congressional' 
          AND st.transaction_date >= NOW() - INTERVAL '${days} days'
+         AND ${StockTrade.countedCondition()}
          ORDER BY cm.name ASC
          LIMIT $1`,
         [limit]
@@ -528,6 +567,7 @@ export class CongressionalMember {
         partyAffiliation: row.party_affiliation,
         officeStartDate: row.office_start_date,
         officeEndDate: row.office_end_date,
+        bioguideId: row.bioguide_id || undefined,
         createdAt: row.created_at,
         updatedAt: row.updated_at
       }));
@@ -611,6 +651,7 @@ export class CongressionalMember {
         partyAffiliation: memberRow.party_affiliation,
         officeStartDate: memberRow.office_start_date,
         officeEndDate: memberRow.office_end_date,
+        bioguideId: memberRow.bioguide_id || undefined,
         createdAt: memberRow.created_at,
         updatedAt: memberRow.updated_at
       });
@@ -619,6 +660,80 @@ export class CongressionalMember {
     }
   }
 
+  /**
+   * Find by Bioguide ID
+   */
+  static async findByBioguideId(bioguideId: string): Promise<CongressionalMember | null> {
+    const result = await db.query(
+      'SELECT * FROM congressional_members WHERE bioguide_id = $1',
+      [bioguideId.toUpperCase()]
+    );
+
+    return result.rows.length > 0 ? CongressionalMember.fromRow(result.rows[0]) : null;
+  }
+
+  /**
+   * Find the member a disclosure names: by exact name, then by a known alias
+   * of the full name or first and last name (e.g. from the roster import)
+   */
+  static async findByDisclosedName(
+    fullName: string,
+    firstName: string,
+    lastName: string,
+    stateCode?: string
+  ): Promise<CongressionalMember | null> {
+    return await CongressionalMember.findByName(fullName)
+      || await CongressionalMember.findByAlias(fullName, stateCode)
+      || await CongressionalMember.findByAlias(`${firstName} ${lastName}`, stateCode);
+  }
+
+  /**
+   * Find the member a name variant belongs to via the alias table, optionally
+   * restricted to one state. Returns null when no alias matches or when
+   * several members share it.
+   */
+  static async findByAlias(name: string, stateCode?: string): Promise<CongressionalMember | null> {
+    const params: any[] = [normalizeMemberName(name)];
+    let query = `
+      SELECT DISTINCT cm.* FROM congressional_members cm
+      JOIN member_aliases ma ON ma.member_id = cm.id
+      WHERE ma.normalized_alias = $1
+    `;
+
+    if (stateCode) {
+      query += ' AND cm.state_code = $2';
+      params.push(stateCode.toUpperCase());
+    }
+
+    const result = await db.query(query, params);
+    return result.rows.length === 1 ? CongressionalMember.fromRow(result.rows[0]) : null;
+  }
+
+  /**
+   * Record name variants for this member. Returns how many were new.
+   */
+  async addAliases(aliases: string[], source: MemberAliasSource = 'manual'): Promise<number> {
+    if (!this.id) {
+      throw new Error('Congressional member ID is required to add aliases');
+    }
+
+    let added = 0;
+    for (const alias of aliases) {
+      const normalized = normalizeMemberName(alias);
+      if (!normalized) continue;
+
+      const result = await db.query(
+        `INSERT INTO member_aliases (member_id, alias, normalized_alias, source)
+         VALUES ($1, $2, $3, $4)
+         ON CONFLICT (member_id, normalized_alias) DO NOTHING`,
+        [this.id, alias.trim(), normalized, source]
+      );
+      added += result.rowCount || 0;
+    }
+
+    return added;
+  }
+
   /**
    * Search members
    */
@@ -641,6 +756,7 @@ export class CongressionalMember {
         partyAffiliation: row.party_affiliation,
         officeStartDate: row.office_start_date,
         officeEndDate: row.office_end_date,
+        bioguideId: row.bioguide_id || undefined,
         createdAt: row.created_at,
         updatedAt: row.updated_at
       }));
@@ -673,6 +789,22 @@ export class CongressionalMember {
     }));
   }
 
+  private static fromRow(row: any): CongressionalMember {
+    return new CongressionalMember({
+      id: row.id,
+      name: row.name,
+      position: row.position,
+      stateCode: row.state_code,
+      district: row.district,
+      partyAffiliation: row.party_affiliation,
+      officeStartDate: row.office_start_date,
+      officeEndDate: row.office_end_date,
+      bioguideId: row.bioguide_id || undefined,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at
+    });
+  }
+
   /**
    * Convert to JSON
    */
@@ -686,6 +818,7 @@ export class CongressionalMember {
       partyAffiliation: this.partyAffiliation,
       officeStartDate: this.officeStartDate,
       officeEndDate: this.officeEndDate,
+      bioguideId: this.bioguideId,
       createdAt: this.createdAt,
       updatedAt: this.updatedAt
     };
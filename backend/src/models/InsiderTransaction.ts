@@ -0,0 +1,324 @@
+import { PoolClient } from 'pg';
+import { db } from '../config/database';
+import { StockTrade, TransactionType } from './StockTrade';
+
+// SEC Form 4 transaction codes
+export const TRANSACTION_CODE_LABELS: Record<string, string> = {
+  P: 'Open-market purchase',
+  S: 'Open-market sale',
+  A: 'Grant or award',
+  D: 'Disposition to the issuer',
+  F: 'Shares withheld for taxes',
+  I: 'Discretionary transaction',
+  M: 'Option exercise',
+  C: 'Derivative conversion',
+  E: 'Short derivative expired',
+  H: 'Long derivative expired',
+  O: 'Out-of-the-money option exercise',
+  X: 'In-the-money option exercise',
+  G: 'Gift',
+  L: 'Small acquisition',
+  W: 'Will or inheritance',
+  Z: 'Voting trust deposit or withdrawal',
+  J: 'Other acquisition or disposition',
+  K: 'Equity swap',
+  U: 'Tender of shares',
+  V: 'Voluntarily reported'
+};
+
+// Only these reflect an insider choosing to buy or sell at market prices
+export const OPEN_MARKET_CODES = ['P', 'S'];
+
+export interface InsiderTransactionData {
+  tradeId: string;
+  transactionCode: string;
+  acquiredDisposed?: 'A' | 'D';
+  shares?: number;
+  pricePerShare?: number;
+  sharesOwnedAfter?: number;
+  securityName?: string;
+  ownerType?: string;
+  reportingCik?: string;
+  companyCik?: string;
+  filingUrl?: string;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+export interface InsiderActivityTransaction extends InsiderTransactionData {
+  label: string;
+  openMarket: boolean;
+  insiderId: string;
+  insiderName: string;
+  transactionDate: Date;
+  filingDate?: Date;
+  value?: number;
+}
+
+export interface InsiderActivity {
+  symbol: string;
+  days: number;
+  summary: {
+    purchases: number;
+    sales: number;
+    purchaseValue: number;
+    saleValue: number;
+    buyers: number; // distinct insiders with open-market purchases
+    sellers: number;
+    otherTransactions: number; // awards, exercises, gifts, ...
+    signal: 'buying' | 'selling' | 'neutral';
+  };
+  transactions: InsiderActivityTransaction[];
+}
+
+export class InsiderTransaction {
+  tradeId: string;
+  transactionCode: string;
+  acquiredDisposed?: 'A' | 'D';
+  shares?: number;
+  pricePerShare?: number;
+  sharesOwnedAfter?: number;
+  securityName?: string;
+  ownerType?: string;
+  reportingCik?: string;
+  companyCik?: string;
+  filingUrl?: string;
+  createdAt?: Date;
+  updatedAt?: Date;
+
+  constructor(data: InsiderTransactionData) {
+    this.tradeId = data.tradeId;
+    this.transactionCode = data.transactionCode;
+    this.acquiredDisposed = data.acquiredDisposed;
+    this.shares = data.shares;
+    this.pricePerShare = data.pricePerShare;
+    this.sharesOwnedAfter = data.sharesOwnedAfter;
+    this.securityName = data.securityName;
+    this.ownerType = data.ownerType;
+    this.reportingCik = data.reportingCik;
+    this.companyCik = data.companyCik;
+    this.filingUrl = data.filingUrl;
+    this.createdAt = data.createdAt;
+    this.updatedAt = data.updatedAt;
+  }
+
+  /**
+   * The code from a filing's transaction type, e.g. "P-Purchase" or "M-Exempt"
+   */
+  static parseCode(transactionType?: string | null): string | undefined {
+    const code = (transactionType || '').trim().charAt(0).toUpperCase();
+    return TRANSACTION_CODE_LABELS[code] ? code : undefined;
+  }
+
+  static isOpenMarket(code: string): boolean {
+    return OPEN_MARKET_CODES.includes(code);
+  }
+
+  /**
+   * How a Form 4 transaction is stored on stock_trades: open-market purchases
+   * and sales are buys and sells; everything else is an exchange, so awards,
+   * exercises and gifts don't count as insider buying or selling
+   */
+  static tradeTypeForCode(code: string): TransactionType {
+    if (code === 'P') return 'buy';
+    if (code === 'S') return 'sell';
+    return 'exchange';
+  }
+
+  /**
+   * Record or refresh a trade's filing detail, in the transaction that stored the trade
+   */
+  static async upsert(client: PoolClient, data: InsiderTransactionData): Promise<InsiderTransaction> {
+    const result = await client.query(
+      `INSERT INTO insider_transactions
+       (trade_id, transaction_code, acquired_disposed, shares, price_per_share, shares_owned_after,
+        security_name, owner_type, reporting_cik, company_cik, filing_url)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)
+       ON CONFLICT (trade_id) DO UPDATE SET
+         transaction_code = EXCLUDED.transaction_code,
+         acquired_disposed = EXCLUDED.acquired_disposed,
+         shares = EXCLUDED.shares,
+         price_per_share = EXCLUDED.price_per_share,
+         shares_owned_after = EXCLUDED.shares_owned_after,
+         security_name = EXCLUDED.security_name,
+         owner_type = EXCLUDED.owner_type,
+         reporting_cik = EXCLUDED.reporting_cik,
+         company_cik = EXCLUDED.company_cik,
+         filing_url = EXCLUDED.filing_url
+       RETURNING *`,
+      [
+        data.tradeId,
+        data.transactionCode,
+        data.acquiredDisposed || null,
+        data.shares ?? null,
+        data.pricePerShare ?? null,
+        data.sharesOwnedAfter ?? null,
+        data.securityName || null,
+        data.ownerType || null,
+        data.reportingCik || null,
+        data.companyCik || null,
+        data.filingUrl || null
+      ]
+    );
+
+    return InsiderTransaction.fromRow(result.rows[0]);
+  }
+
+  static async findByTradeId(tradeId: string): Promise<InsiderTransaction | null> {
+    const result = await db.query('SELECT * FROM insider_transactions WHERE trade_id = $1', [tradeId]);
+    return result.rows.length > 0 ? InsiderTransaction.fromRow(result.rows[0]) : null;
+  }
+
+  /**
+   * The stored trade for one line of a filing. Form 4s often report several
+   * transactions by one insider on one day (an exercise and a sale, or
+   * purchases at different prices), so the code, share count and price tell
+   * them apart.
+   */
+  static async findExistingTradeId(
+    insiderId: string,
+    tickerSymbol: string,
+    transactionDate: Date,
+    transactionCode: string,
+    shares?: number,
+    pricePerShare?: number
+  ): Promise<string | null> {
+    const result = await db.query(
+      `SELECT st.id FROM stock_trades st
+       JOIN insider_transactions it ON it.trade_id = st.id
+       WHERE st.trader_type = 'corporate' AND st.trader_id = $1 AND st.ticker_symbol = $2
+         AND st.transaction_date = $3 AND it.transaction_code = $4
+         AND it.shares IS NOT DISTINCT FROM $5::NUMERIC
+         AND it.price_per_share IS NOT DISTINCT FROM $6::NUMERIC
+       LIMIT 1`,
+      [insiderId, tickerSymbol.toUpperCase(), transactionDate, transactionCode, shares ?? null, pricePerShare ?? null]
+    );
+
+    return result.rows.length > 0 ? result.rows[0].id : null;
+  }
+
+  /**
+   * Insider filings for a stock over the last given days, newest first, with
+   * open-market buying and selling summarized
+   */
+  static async getActivity(symbol: string, days: number = 90, limit: number = 100): Promise<InsiderActivity> {
+    const ticker = symbol.toUpperCase();
+    const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+
+    const [summaryResult, transactionsResult] = await Promise.all([
+      db.query(
+        `SELECT
+           COUNT(*) FILTER (WHERE it.transaction_code = 'P')::int AS purchases,
+           COUNT(*) FILTER (WHERE it.transaction_code = 'S')::int AS sales,
+           COALESCE(SUM(it.shares * it.price_per_share) FILTER (WHERE it.transaction_code = 'P'), 0) AS purchase_value,
+           COALESCE(SUM(it.shares * it.price_per_share) FILTER (WHERE it.transaction_code = 'S'), 0) AS sale_value,
+           COUNT(DISTINCT st.trader_id) FILTER (WHERE it.transaction_code = 'P')::int AS buyers,
+           COUNT(DISTINCT st.trader_id) FILTER (WHERE it.transaction_code = 'S')::int AS sellers,
+           COUNT(*) FILTER (WHERE it.transaction_code NOT IN ('P', 'S'))::int AS other_transactions
+         FROM insider_transactions it
+         JOIN stock_trades st ON st.id = it.trade_id
+         WHERE st.ticker_symbol = $1 AND st.transaction_date >= $2 AND ${StockTrade.countedCondition()}`,
+        [ticker, since]
+      ),
+      db.query(
+        `SELECT it.*, st.trader_id, st.transaction_date, st.filing_date, ci.name AS insider_name
+         FROM insider_transactions it
+         JOIN stock_trades st ON st.id = it.trade_id
+         LEFT JOIN corporate_insiders ci ON ci.id = st.trader_id
+         WHERE st.ticker_symbol = $1 AND st.transaction_date >= $2 AND ${StockTrade.countedCondition()}
+         ORDER BY st.transaction_date DESC, it.created_at DESC
+         LIMIT $3`,
+        [ticker, since, limit]
+      )
+    ]);
+
+    const row = summaryResult.rows[0];
+    const purchaseValue = parseFloat(row.purchase_value) || 0;
+    const saleValue = parseFloat(row.sale_value) || 0;
+
+    let signal: InsiderActivity['summary']['signal'] = 'neutral';
+    if (row.purchases > 0 && purchaseValue > saleValue) {
+      signal = 'buying';
+    } else if (row.sales > 0 && saleValue > purchaseValue) {
+      signal = 'selling';
+    }
+
+    return {
+      symbol: ticker,
+      days,
+      summary: {
+        purchases: row.purchases,
+        sales: row.sales,
+        purchaseValue,
+        saleValue,
+        buyers: row.buyers,
+        sellers: row.sellers,
+        otherTransactions: row.other_transactions,
+        signal
+      },
+      transactions: transactionsResult.rows.map(txRow => {
+        const transaction = InsiderTransaction.fromRow(txRow);
+        return {
+          ...transaction.toJSON(),
+          insiderId: txRow.trader_id,
+          insiderName: txRow.insider_name || 'Unknown',
+          transactionDate: txRow.transaction_date,
+          filingDate: txRow.filing_date || undefined,
+          value: transaction.getValue()
+        };
+      })
+    };
+  }
+
+  getLabel(): string {
+    return TRANSACTION_CODE_LABELS[this.transactionCode] || 'Unknown transaction';
+  }
+
+  // Exact value of the transaction; awards and gifts are usually reported at $0
+  getValue(): number | undefined {
+    if (this.shares === undefined || this.pricePerShare === undefined) {
+      return undefined;
+    }
+    return Math.round(this.shares * this.pricePerShare * 100) / 100;
+  }
+
+  toJSON(): InsiderTransactionData & { label: string; openMarket: boolean } {
+    return {
+      tradeId: this.tradeId,
+      transactionCode: this.transactionCode,
+      label: this.getLabel(),
+      openMarket: InsiderTransaction.isOpenMarket(this.transactionCode),
+      acquiredDisposed: this.acquiredDisposed,
+      shares: this.shares,
+      pricePerShare: this.pricePerShare,
+      sharesOwnedAfter: this.sharesOwnedAfter,
+      securityName: this.securityName,
+      ownerType: this.ownerType,
+      reportingCik: this.reportingCik,
+      companyCik: this.companyCik,
+      filingUrl: this.filingUrl,
+      createdAt: this.createdAt,
+      updatedAt: this.updatedAt
+    };
+  }
+
+  private static fromRow(row: any): InsiderTransaction {
+    const toNumber = (value: any) => (value === null || value === undefined ? undefined : parseFloat(value));
+
+    return new InsiderTransaction({
+      tradeId: row.trade_id,
+      transactionCode: row.transaction_code,
+      acquiredDisposed: row.acquired_disposed || undefined,
+      shares: toNumber(row.shares),
+      pricePerShare: toNumber(row.price_per_share),
+      sharesOwnedAfter: toNumber(row.shares_owned_after),
+      securityName: row.security_name || undefined,
+      ownerType: row.owner_type || undefined,
+      reportingCik: row.reporting_cik || undefined,
+      companyCik: row.company_cik || undefined,
+      filingUrl: row.filing_url || undefined,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at
+    });
+  }
+}
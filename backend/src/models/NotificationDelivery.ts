@@ -0,0 +1,168 @@
+import { db } from '../config/database';
+
+export type DeliveryChannel = 'email' | 'webhook' | 'in_app';
+export type DeliveryStatus = 'pending' | 'retrying' | 'sent' | 'failed' | 'skipped';
+
+export interface NotificationDeliveryData {
+  id?: string;
+  // Exactly one of notificationId and digestId is set
+  notificationId?: string;
+  digestId?: string;
+  channel: DeliveryChannel;
+  status: DeliveryStatus;
+  attempts: number;
+  lastError?: string;
+  nextAttemptAt?: Date;
+  deliveredAt?: Date;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+export class NotificationDelivery {
+  id?: string;
+  notificationId?: string;
+  digestId?: string;
+  channel: DeliveryChannel;
+  status: DeliveryStatus;
+  attempts: number;
+  lastError?: string;
+  nextAttemptAt?: Date;
+  deliveredAt?: Date;
+  createdAt?: Date;
+  updatedAt?: Date;
+
+  constructor(data: NotificationDeliveryData) {
+    this.id = data.id;
+    this.notificationId = data.notificationId;
+    this.digestId = data.digestId;
+    this.channel = data.channel;
+    this.status = data.status;
+    this.attempts = data.attempts;
+    this.lastError = data.lastError;
+    this.nextAttemptAt = data.nextAttemptAt;
+    this.deliveredAt = data.deliveredAt;
+    this.createdAt = data.createdAt;
+    this.updatedAt = data.updatedAt;
+  }
+
+  /**
+   * Create the delivery record for a notification on one channel
+   */
+  static async create(
+    notificationId: string,
+    channel: DeliveryChannel,
+    status: DeliveryStatus = 'pending',
+    note?: string
+  ): Promise<NotificationDelivery> {
+    const result = await db.query(
+      `INSERT INTO notification_deliveries (notification_id, channel, status, last_error)
+       VALUES ($1, $2, $3, $4)
+       ON CONFLICT (notification_id, channel) DO UPDATE SET updated_at = NOW()
+       RETURNING *`,
+      [notificationId, channel, status, note || null]
+    );
+
+    return NotificationDelivery.fromRow(result.rows[0]);
+  }
+
+  /**
+   * Create the delivery record for a digest on one channel
+   */
+  static async createForDigest(
+    digestId: string,
+    channel: DeliveryChannel,
+    status: DeliveryStatus = 'pending',
+    note?: string
+  ): Promise<NotificationDelivery> {
+    const result = await db.query(
+      `INSERT INTO notification_deliveries (digest_id, channel, status, last_error)
+       VALUES ($1, $2, $3, $4)
+       ON CONFLICT (digest_id, channel) WHERE digest_id IS NOT NULL DO UPDATE SET updated_at = NOW()
+       RETURNING *`,
+      [digestId, channel, status, note || null]
+    );
+
+    return NotificationDelivery.fromRow(result.rows[0]);
+  }
+
+  /**
+   * Find all delivery records for a notification
+   */
+  static async findByNotification(notificationId: string): Promise<NotificationDelivery[]> {
+    const result = await db.query(
+      'SELECT * FROM notification_deliveries WHERE notification_id = $1 ORDER BY channel',
+      [notificationId]
+    );
+
+    return result.rows.map(row => NotificationDelivery.fromRow(row));
+  }
+
+  /**
+   * Claim retrying deliveries whose backoff has elapsed. Claimed rows are pushed
+   * back briefly so a concurrent worker does not pick them up as well.
+   */
+  static async claimDue(limit: number = 50, leaseSeconds: number = 300): Promise<NotificationDelivery[]> {
+    const result = await db.query(
+      `UPDATE notification_deliveries SET
+         next_attempt_at = NOW() + ($2::int * INTERVAL '1 second'),
+         updated_at = NOW()
+       WHERE id IN (
+         SELECT id FROM notification_deliveries
+         WHERE status = 'retrying' AND next_attempt_at <= NOW()
+         ORDER BY next_attempt_at
+         LIMIT $1
+         FOR UPDATE SKIP LOCKED
+       )
+       RETURNING *`,
+      [limit, leaseSeconds]
+    );
+
+    return result.rows.map(row => NotificationDelivery.fromRow(row));
+  }
+
+  /**
+   * Record a successful attempt
+   */
+  async markSent(): Promise<void> {
+    const result = await db.query(
+      `UPDATE notification_deliveries SET
+         status = 'sent', attempts = attempts + 1, last_error = NULL,
+         next_attempt_at = NULL, delivered_at = NOW(), updated_at = NOW()
+       WHERE id = $1
+       RETURNING *`,
+      [this.id]
+    );
+    Object.assign(this, NotificationDelivery.fromRow(result.rows[0]));
+  }
+
+  /**
+   * Record a failed attempt; with a retry time the delivery stays open, otherwise it is final
+   */
+  async markFailed(error: string, nextAttemptAt?: Date): Promise<void> {
+    const result = await db.query(
+      `UPDATE notification_deliveries SET
+         status = $2, attempts = attempts + 1, last_error = $3,
+         next_attempt_at = $4, updated_at = NOW()
+       WHERE id = $1
+       RETURNING *`,
+      [this.id, nextAttemptAt ? 'retrying' : 'failed', error.slice(0, 1000), nextAttemptAt || null]
+    );
+    Object.assign(this, NotificationDelivery.fromRow(result.rows[0]));
+  }
+
+  private static fromRow(row: any): NotificationDelivery {
+    return new NotificationDelivery({
+      id: row.id,
+      notificationId: row.notification_id || undefined,
+      digestId: row.digest_id || undefined,
+      channel: row.channel,
+      status: row.status,
+      attempts: row.attempts,
+      lastError: row.last_error || undefined,
+      nextAttemptAt: row.next_attempt_at || undefined,
+      deliveredAt: row.delivered_at || undefined,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at
+    });
+  }
+}
@@ -0,0 +1,215 @@
+import crypto from 'crypto';
+import { db } from '../config/database';
+import { ValidationError } from '../middleware/errors';
+
+export type NotificationFrequency = 'immediate' | 'hourly' | 'daily' | 'weekly';
+export type DigestFrequency = Exclude<NotificationFrequency, 'immediate'>;
+
+export const NOTIFICATION_FREQUENCIES: NotificationFrequency[] = ['immediate', 'hourly', 'daily', 'weekly'];
+
+export interface QuietHours {
+  start: string; // HH:MM in the user's timezone
+  end: string; // HH:MM; earlier than start when the window spans midnight
+}
+
+export interface NotificationPreferences {
+  email: boolean;
+  push: boolean;
+  inApp: boolean;
+  webhook: boolean;
+  webhookUrl?: string;
+  frequency: NotificationFrequency;
+  quietHours?: QuietHours;
+  timezone: string; // IANA name, e.g. America/New_York
+  // Notifications beyond this many per hour are rolled into a summary
+  maxPerHour?: number;
+  // Notify once per trade when several alerts match it
+  dedupeTrades: boolean;
+}
+
+export const DEFAULT_NOTIFICATION_PREFERENCES: NotificationPreferences = {
+  email: true,
+  push: true,
+  inApp: true,
+  webhook: false,
+  frequency: 'immediate',
+  timezone: 'UTC',
+  dedupeTrades: true
+};
+
+const TIME_OF_DAY_PATTERN = /^([01]\d|2[0-3]):([0-5]\d)$/;
+
+const toMinutes = (time: string): number => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+/**
+ * Whether a string is an IANA timezone the runtime knows about
+ */
+export function isValidTimezone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Whether a string is a 24-hour HH:MM time of day
+ */
+export function isValidTimeOfDay(time: string): boolean {
+  return TIME_OF_DAY_PATTERN.test(time);
+}
+
+export class NotificationPreference {
+  userId: string;
+  preferences: NotificationPreferences;
+  webhookSecret?: string;
+
+  constructor(userId: string, preferences: NotificationPreferences, webhookSecret?: string) {
+    this.userId = userId;
+    this.preferences = preferences;
+    this.webhookSecret = webhookSecret;
+  }
+
+  /**
+   * Get a user's preferences, falling back to the defaults when none are stored
+   */
+  static async findByUser(userId: string): Promise<NotificationPreference> {
+    const result = await db.query(
+      'SELECT * FROM notification_preferences WHERE user_id = $1',
+      [userId]
+    );
+
+    if (result.rows.length === 0) {
+      return new NotificationPreference(userId, { ...DEFAULT_NOTIFICATION_PREFERENCES });
+    }
+
+    return NotificationPreference.fromRow(result.rows[0]);
+  }
+
+  /**
+   * When the given instant falls within the user's quiet hours, the instant
+   * they end; otherwise null
+   */
+  getQuietHoursEnd(at: Date = new Date()): Date | null {
+    const quietHours = this.preferences.quietHours;
+    if (!quietHours) {
+      return null;
+    }
+
+    const start = toMinutes(quietHours.start);
+    const end = toMinutes(quietHours.end);
+    if (start === end) {
+      return null;
+    }
+
+    const parts = new Intl.DateTimeFormat('en-US', {
+      timeZone: this.preferences.timezone,
+      hour: '2-digit',
+      minute: '2-digit',
+      hourCycle: 'h23'
+    }).formatToParts(at);
+    const hour = Number(parts.find(part => part.type === 'hour')!.value);
+    const minute = Number(parts.find(part => part.type === 'minute')!.value);
+    const now = hour * 60 + minute;
+
+    const inQuietHours = start < end
+      ? now >= start && now < end
+      : now >= start || now < end;
+    if (!inQuietHours) {
+      return null;
+    }
+
+    const minutesLeft = (end - now + 24 * 60) % (24 * 60);
+    const endsAt = new Date(at.getTime() + minutesLeft * 60 * 1000);
+    endsAt.setUTCSeconds(0, 0);
+    return endsAt;
+  }
+
+  /**
+   * Merge updates into a user's stored preferences. A webhook signing secret
+   * is generated the first time a webhook URL is set.
+   */
+  static async upsert(userId: string, updates: Partial<NotificationPreferences>): Promise<NotificationPreference> {
+    const current = await NotificationPreference.findByUser(userId);
+    const merged: NotificationPreferences = { ...current.preferences, ...updates };
+
+    if (merged.webhook && !merged.webhookUrl) {
+      throw new ValidationError('A webhook URL is required to enable webhook notifications');
+    }
+
+    if (merged.quietHours && (!isValidTimeOfDay(merged.quietHours.start) || !isValidTimeOfDay(merged.quietHours.end))) {
+      throw new ValidationError('Quiet hours must be given as HH:MM start and end times');
+    }
+
+    if (!isValidTimezone(merged.timezone)) {
+      throw new ValidationError(`Unknown timezone: ${merged.timezone}`);
+    }
+
+    const webhookSecret = current.webhookSecret || (merged.webhookUrl ? crypto.randomBytes(32).toString('hex') : null);
+
+    const result = await db.query(
+      `INSERT INTO notification_preferences
+       (user_id, email_enabled, push_enabled, in_app_enabled, webhook_enabled, webhook_url, webhook_secret, frequency,
+        quiet_hours_start, quiet_hours_end, timezone, max_per_hour, dedupe_trades)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13)
+       ON CONFLICT (user_id) DO UPDATE SET
+         email_enabled = EXCLUDED.email_enabled,
+         push_enabled = EXCLUDED.push_enabled,
+         in_app_enabled = EXCLUDED.in_app_enabled,
+         webhook_enabled = EXCLUDED.webhook_enabled,
+         webhook_url = EXCLUDED.webhook_url,
+         webhook_secret = EXCLUDED.webhook_secret,
+         frequency = EXCLUDED.frequency,
+         quiet_hours_start = EXCLUDED.quiet_hours_start,
+         quiet_hours_end = EXCLUDED.quiet_hours_end,
+         timezone = EXCLUDED.timezone,
+         max_per_hour = EXCLUDED.max_per_hour,
+         dedupe_trades = EXCLUDED.dedupe_trades,
+         updated_at = NOW()
+       RETURNING *`,
+      [
+        userId,
+        merged.email,
+        merged.push,
+        merged.inApp,
+        merged.webhook,
+        merged.webhookUrl || null,
+        webhookSecret,
+        merged.frequency,
+        merged.quietHours?.start || null,
+        merged.quietHours?.end || null,
+        merged.timezone,
+        merged.maxPerHour || null,
+        merged.dedupeTrades
+      ]
+    );
+
+    return NotificationPreference.fromRow(result.rows[0]);
+  }
+
+  private static fromRow(row: any): NotificationPreference {
+    return new NotificationPreference(
+      row.user_id,
+      {
+        email: row.email_enabled,
+        push: row.push_enabled,
+        inApp: row.in_app_enabled,
+        webhook: row.webhook_enabled,
+        webhookUrl: row.webhook_url || undefined,
+        frequency: row.frequency,
+        // TIME columns come back as HH:MM:SS
+        quietHours: row.quiet_hours_start && row.quiet_hours_end
+          ? { start: row.quiet_hours_start.slice(0, 5), end: row.quiet_hours_end.slice(0, 5) }
+          : undefined,
+        timezone: row.timezone || 'UTC',
+        maxPerHour: row.max_per_hour || undefined,
+        dedupeTrades: row.dedupe_trades !== false
+      },
+      row.webhook_secret || undefined
+    );
+  }
+}
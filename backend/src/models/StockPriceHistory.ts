@@ -0,0 +1,132 @@
+import { db } from '../config/database';
+
+export interface StockPriceData {
+  tickerSymbol: string;
+  priceDate: Date;
+  openPrice?: number;
+  highPrice?: number;
+  lowPrice?: number;
+  closePrice: number;
+  volume?: number;
+}
+
+export class StockPriceHistory {
+  private static readonly UPSERT_BATCH_SIZE = 500;
+
+  /**
+   * Insert or update daily prices, keyed on (ticker_symbol, price_date)
+   * Returns the number of rows written
+   */
+  static async upsertMany(prices: StockPriceData[]): Promise<number> {
+    if (!prices || prices.length === 0) {
+      return 0;
+    }
+
+    const client = await db.connect();
+    try {
+      await client.query('BEGIN');
+
+      let written = 0;
+      for (let i = 0; i < prices.length; i += this.UPSERT_BATCH_SIZE) {
+        const batch = prices.slice(i, i + this.UPSERT_BATCH_SIZE);
+        const values: any[] = [];
+        const placeholders = batch.map((price, index) => {
+          if (price.closePrice < 0) {
+            throw new Error(`Close price for ${price.tickerSymbol} cannot be negative`);
+          }
+
+          const offset = index * 7;
+          values.push(
+            price.tickerSymbol.toUpperCase(),
+            price.priceDate,
+            price.openPrice ?? null,
+            price.highPrice ?? null,
+            price.lowPrice ?? null,
+            price.closePrice,
+            price.volume ?? null
+          );
+          return `($${offset + 1}, $${offset + 2}, $${offset + 3}, $${offset + 4}, $${offset + 5}, $${offset + 6}, $${offset + 7})`;
+        });
+
+        const result = await client.query(
+          `INSERT INTO stock_price_history
+           (ticker_symbol, price_date, open_price, high_price, low_price, close_price, volume)
+           VALUES ${placeholders.join(', ')}
+           ON CONFLICT (ticker_symbol, price_date) DO UPDATE SET
+             open_price = EXCLUDED.open_price,
+             high_price = EXCLUDED.high_price,
+             low_price = EXCLUDED.low_price,
+             close_price = EXCLUDED.close_price,
+             volume = EXCLUDED.volume`,
+          values
+        );
+        written += result.rowCount || 0;
+      }
+
+      await client.query('COMMIT');
+      return written;
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Earliest and most recent stored price dates for each symbol; symbols
+   * without history are omitted
+   */
+  static async getStoredDateRanges(symbols: string[]): Promise<Map<string, { earliest: Date; latest: Date }>> {
+    if (!symbols || symbols.length === 0) {
+      return new Map();
+    }
+
+    const result = await db.query(
+      `SELECT ticker_symbol, MIN(price_date) AS earliest_date, MAX(price_date) AS latest_date
+       FROM stock_price_history
+       WHERE ticker_symbol = ANY($1)
+       GROUP BY ticker_symbol`,
+      [symbols.map(symbol => symbol.toUpperCase())]
+    );
+
+    return new Map(result.rows.map((row: any) => [
+      row.ticker_symbol,
+      { earliest: new Date(row.earliest_date), latest: new Date(row.latest_date) }
+    ]));
+  }
+
+  /**
+   * Daily prices for a symbol in ascending date order
+   */
+  static async findBySymbol(symbol: string, startDate?: Date, endDate?: Date): Promise<StockPriceData[]> {
+    const conditions = ['ticker_symbol = $1'];
+    const values: any[] = [symbol.toUpperCase()];
+
+    if (startDate) {
+      values.push(startDate);
+      conditions.push(`price_date >= $${values.length}`);
+    }
+    if (endDate) {
+      values.push(endDate);
+      conditions.push(`price_date <= $${values.length}`);
+    }
+
+    const result = await db.query(
+      `SELECT * FROM stock_price_history
+       WHERE ${conditions.join(' AND ')}
+       ORDER BY price_date ASC`,
+      values
+    );
+
+    return result.rows.map((row: any) => ({
+      tickerSymbol: row.ticker_symbol,
+      priceDate: row.price_date,
+      openPrice: row.open_price !== null ? parseFloat(row.open_price) : undefined,
+      highPrice: row.high_price !== null ? parseFloat(row.high_price) : undefined,
+      lowPrice: row.low_price !== null ? parseFloat(row.low_price) : undefined,
+      closePrice: parseFloat(row.close_price),
+      volume: row.volume !== null ? parseInt(row.volume) : undefined
+    }));
+  }
+}
@@ -1,5 +1,6 @@
 import { db } from '../config/database';
 import { PoolClient } from 'pg';
+import { StockTrade } from './StockTrade';
 
 export interface StockTickerData {
   symbol: string;
@@ -373,6 +374,7 @@ export class StockTicker {
          FROM stock_tickers st
          INNER JOIN stock_trades trades ON st.symbol = trades.ticker_symbol
          WHERE trades.transaction_date >= NOW() - INTERVAL '${days} days'
+         AND ${StockTrade.countedCondition('trades')}
          GROUP BY st.symbol, st.company_name, st.sector, st.industry, st.market_cap, st.last_price, st.last_updated, st.created_at
          ORDER BY trade_count DESC
          LIMIT $1`,
@@ -548,7 +550,8 @@ export class StockTicker {
            COUNT(DISTINCT CONCAT(trader_type, '-', trader_id)) as unique_traders
          FROM stock_trades 
          WHERE ticker_symbol = $1 
-         AND transaction_date >= NOW() - INTERVAL '${days} days'`,
+         AND transaction_date >= NOW() - INTERVAL '${days} days'
+         AND ${StockTrade.countedCondition('stock_trades')}`,
         [this.symbol]
       );
 
@@ -1,8 +1,52 @@
 import { db } from '../config/database';
 import { PoolClient } from 'pg';
+import { TradeRevision, TradeRevisionChanges } from './TradeRevision';
 
 export type TraderType = 'congressional' | 'corporate';
 export type TransactionType = 'buy' | 'sell' | 'exchange';
+// Whose account the disclosed asset is held in
+export type TradeOwner = 'self' | 'spouse' | 'joint' | 'child';
+
+export const TRADE_OWNERS: TradeOwner[] = ['self', 'spouse', 'joint', 'child'];
+
+// amended: a later disclosure changed the trade; withdrawn: the filer retracted it
+export type TradeStatus = 'active' | 'amended' | 'withdrawn';
+
+export const TRADE_STATUSES: TradeStatus[] = ['active', 'amended', 'withdrawn'];
+
+// Where a trade was imported from
+export type TradeDataSource = 'fmp' | 'file' | 'house_clerk' | 'senate_efd';
+
+export const TRADE_DATA_SOURCES: TradeDataSource[] = ['fmp', 'file', 'house_clerk', 'senate_efd'];
+
+// What was traded; disclosures cover far more than common stock
+export type AssetClass = 'stock' | 'option' | 'etf' | 'mutual_fund' | 'bond' | 'crypto' | 'other';
+
+export const ASSET_CLASSES: AssetClass[] = ['stock', 'option', 'etf', 'mutual_fund', 'bond', 'crypto', 'other'];
+
+// Asset classes whose dollars analytics count as equity flow
+export const EQUITY_ASSET_CLASSES: AssetClass[] = ['stock', 'etf'];
+
+export type OptionType = 'call' | 'put';
+
+export const OPTION_TYPES: OptionType[] = ['call', 'put'];
+
+/**
+ * What a disclosed trade was in, with the contract terms for options
+ */
+export interface TradeAsset {
+  assetClass: AssetClass;
+  optionType?: OptionType;
+  strikePrice?: number;
+  expirationDate?: Date;
+}
+
+// Fields a later disclosure can change; anything else identifies the trade.
+// Owner and amount range also tell apart lots disclosed in the same filing.
+const AMENDABLE_FIELDS = ['amountRange', 'estimatedValue', 'quantity', 'filingDate', 'owner'] as const;
+
+// STOCK Act: periodic transaction reports are due within 45 days of the trade
+export const STOCK_ACT_FILING_WINDOW_DAYS = 45;
 
 export interface StockTradeData {
   id?: string;
@@ -15,7 +59,17 @@ export interface StockTradeData {
   estimatedValue?: number;
   quantity?: number;
   filingDate?: Date;
-  sourceData?: any; // JSONB data from FMP API
+  owner?: TradeOwner;
+  status?: TradeStatus;
+  revision?: number;
+  dataSource?: TradeDataSource;
+  assetClass?: AssetClass; // undefined until classified
+  optionType?: OptionType;
+  strikePrice?: number;
+  expirationDate?: Date; // option expiry
+  filingLagDays?: number; // Derived: days from transaction to disclosure
+  lateFiling?: boolean; // Derived: disclosed after the STOCK Act window
+  sourceData?: any; // JSONB record from the data source
   createdAt?: Date;
   updatedAt?: Date;
 }
@@ -30,7 +84,13 @@ export interface CreateStockTradeData {
   estimatedValue?: number;
   quantity?: number;
   filingDate?: Date;
-  sourceData?: any;
+  owner?: TradeOwner;
+  dataSource?: TradeDataSource;
+  assetClass?: AssetClass;
+  optionType?: OptionType;
+  strikePrice?: number;
+  expirationDate?: Date;
+  sourceData?: any; // includes the source's provenance record
 }
 
 export interface StockTradeFilters {
@@ -43,6 +103,29 @@ export interface StockTradeFilters {
   minValue?: number;
   maxValue?: number;
   hasFilingDate?: boolean;
+  owner?: TradeOwner;
+  dataSource?: TradeDataSource;
+  assetClass?: AssetClass;
+  optionType?: OptionType;
+  lateFiling?: boolean; // true: disclosed after the window; false: disclosed within it
+  excludeWithdrawn?: boolean;
+}
+
+export interface FilingLagStats {
+  filingWindowDays: number;
+  filedTrades: number;
+  lateFilings: number;
+  lateFilingRate: number; // 0-1 share of filed trades
+  avgLagDays: number | null;
+  medianLagDays: number | null;
+  maxLagDays: number | null;
+  latestLateFiling: {
+    tradeId: string;
+    tickerSymbol: string;
+    transactionDate: Date;
+    filingDate: Date;
+    lagDays: number;
+  } | null;
 }
 
 export interface TradeWithTrader extends StockTradeData {
@@ -74,6 +157,14 @@ export class StockTrade {
   estimatedValue?: number;
   quantity?: number;
   filingDate?: Date;
+  owner?: TradeOwner;
+  status: TradeStatus;
+  revision: number;
+  dataSource?: TradeDataSource;
+  assetClass?: AssetClass;
+  optionType?: OptionType;
+  strikePrice?: number;
+  expirationDate?: Date;
   sourceData?: any;
   createdAt?: Date;
   updatedAt?: Date;
@@ -89,15 +180,23 @@ export class StockTrade {
     this.estimatedValue = data.estimatedValue;
     this.quantity = data.quantity;
     this.filingDate = data.filingDate;
+    this.owner = data.owner;
+    this.status = data.status || 'active';
+    this.revision = data.revision || 1;
+    this.dataSource = data.dataSource;
+    this.assetClass = data.assetClass;
+    this.optionType = data.optionType;
+    this.strikePrice = data.strikePrice;
+    this.expirationDate = data.expirationDate;
     this.sourceData = data.sourceData;
     this.createdAt = data.createdAt;
     this.updatedAt = data.updatedAt;
   }
 
   /**
-   * Create a new stock trade
+   * Create a new stock trade, within the caller's transaction when a client is given
    */
-  static async create(tradeData: CreateStockTradeData): Promise<StockTrade> {
+  static async create(tradeData: CreateStockTradeData, transactionClient?: PoolClient): Promise<StockTrade> {
     // Validate required fields
     if (!tradeData.traderType || !tradeData.traderId || !tradeData.tickerSymbol || 
         !tradeData.transactionDate || !tradeData.transactionType) {
@@ -128,7 +227,17 @@ export class StockTrade {
       throw new Error('Filing date cannot be before transaction date');
     }
 
-    const client = await db.connect();
+    if (tradeData.owner && !TRADE_OWNERS.includes(tradeData.owner)) {
+      throw new Error('Owner must be "self", "spouse", "joint", or "child"');
+    }
+
+    if (tradeData.dataSource && !TRADE_DATA_SOURCES.includes(tradeData.dataSource)) {
+      throw new Error('Unknown trade data source');
+    }
+
+    StockTrade.validateAsset(tradeData);
+
+    const client = transactionClient || await db.connect();
     try {
       // Verify that the trader exists
       await StockTrade.validateTraderExists(client, tradeData.traderType, tradeData.traderId);
@@ -140,8 +249,9 @@ export class StockTrade {
       const result = await client.query(
         `INSERT INTO stock_trades 
          (trader_type, trader_id, ticker_symbol, transaction_date, transaction_type, 
-          amount_range, estimated_value, quantity, filing_date, source_data)
-         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
+          amount_range, estimated_value, quantity, filing_date, owner, data_source,
+          asset_class, option_type, strike_price, expiration_date, source_data)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16)
          RETURNING *`,
         [
           tradeData.traderType,
@@ -153,6 +263,12 @@ export class StockTrade {
           tradeData.estimatedValue || null,
           tradeData.quantity || null,
           tradeData.filingDate || null,
+          tradeData.owner || null,
+          tradeData.dataSource || null,
+          tradeData.assetClass || null,
+          tradeData.optionType || null,
+          tradeData.strikePrice ?? null,
+          tradeData.expirationDate || null,
           tradeData.sourceData ? JSON.stringify(tradeData.sourceData) : null
         ]
       );
@@ -169,12 +285,19 @@ export class StockTrade {
         estimatedValue: tradeRow.estimated_value,
         quantity: tradeRow.quantity,
         filingDate: tradeRow.filing_date,
+        owner: tradeRow.owner || undefined,
+        status: tradeRow.status,
+        revision: tradeRow.revision,
+        dataSource: tradeRow.data_source || undefined,
+        ...StockTrade.assetFromRow(tradeRow),
         sourceData: tradeRow.source_data,
         createdAt: tradeRow.created_at,
         updatedAt: tradeRow.updated_at
       });
     } finally {
-      client.release();
+      if (!transactionClient) {
+        client.release();
+      }
     }
   }
 
@@ -247,6 +370,11 @@ export class StockTrade {
       estimatedValue: result.estimated_value,
       quantity: result.quantity,
       filingDate: result.filing_date,
+      owner: result.owner || undefined,
+      status: result.status,
+      revision: result.revision,
+      dataSource: result.data_source || undefined,
+      ...StockTrade.assetFromRow(result),
       sourceData: result.source_data,
       createdAt: result.created_at,
       updatedAt: result.updated_at
@@ -349,6 +477,34 @@ export class StockTrade {
         query += ' AND st.filing_date IS NULL';
       }
 
+      if (filters.owner) {
+        query += ` AND st.owner = $${paramCounter++}`;
+        params.push(filters.owner);
+      }
+
+      if (filters.dataSource) {
+        query += ` AND st.data_source = $${paramCounter++}`;
+        params.push(filters.dataSource);
+      }
+
+      if (filters.assetClass) {
+        query += ` AND st.asset_class = $${paramCounter++}`;
+        params.push(filters.assetClass);
+      }
+
+      if (filters.optionType) {
+        query += ` AND st.option_type = $${paramCounter++}`;
+        params.push(filters.optionType);
+      }
+
+      if (filters.lateFiling !== undefined) {
+        query += ` AND ${StockTrade.lateFilingCondition(filters.lateFiling)}`;
+      }
+
+      if (filters.excludeWithdrawn) {
+        query += ` AND ${StockTrade.countedCondition()}`;
+      }
+
       query += ` ORDER BY st.${orderBy} LIMIT $${paramCounter++} OFFSET $${paramCounter++}`;
       params.push(limit, offset);
 
@@ -365,6 +521,13 @@ export class StockTrade {
         estimatedValue: row.estimated_value,
         quantity: row.quantity,
         filingDate: row.filing_date,
+        owner: row.owner || undefined,
+        status: row.status,
+        revision: row.revision,
+        dataSource: row.data_source || undefined,
+        ...StockTrade.assetFromRow(row),
+        filingLagDays: StockTrade.calculateFilingLag(row.transaction_date, row.filing_date),
+        lateFiling: StockTrade.isLate(row.transaction_date, row.filing_date),
         sourceData: row.source_data,
         createdAt: row.created_at,
         updatedAt: row.updated_at,
@@ -406,6 +569,11 @@ export class StockTrade {
         estimatedValue: row.estimated_value,
         quantity: row.quantity,
         filingDate: row.filing_date,
+        owner: row.owner || undefined,
+        status: row.status,
+        revision: row.revision,
+        dataSource: row.data_source || undefined,
+        ...StockTrade.assetFromRow(row),
         sourceData: row.source_data,
         createdAt: row.created_at,
         updatedAt: row.updated_at
@@ -473,7 +641,8 @@ export class StockTrade {
            AVG(estimated_value) as average_trade_value
          FROM stock_trades 
          WHERE trader_type = $1 AND trader_id = $2
-         AND transaction_date >= NOW() - INTERVAL '${days} days'`,
+         AND transaction_date >= NOW() - INTERVAL '${days} days'
+         AND ${StockTrade.countedCondition('stock_trades')}`,
         [traderType, traderId]
       );
 
@@ -517,7 +686,8 @@ export class StockTrade {
            AVG(estimated_value) as average_trade_value
          FROM stock_trades 
          WHERE ticker_symbol = $1
-         AND transaction_date >= NOW() - INTERVAL '${days} days'`,
+         AND transaction_date >= NOW() - INTERVAL '${days} days'
+         AND ${StockTrade.countedCondition('stock_trades')}`,
         [tickerSymbol.toUpperCase()]
       );
 
@@ -553,9 +723,9 @@ export class StockTrade {
   }
 
   /**
-   * Update stock trade
+   * Update stock trade, within the caller's transaction when a client is given
    */
-  async update(updates: Partial<CreateStockTradeData>): Promise<void> {
+  async update(updates: Partial<CreateStockTradeData>, transactionClient?: PoolClient): Promise<void> {
     if (!this.id) {
       throw new Error('Stock trade ID is required to update');
     }
@@ -593,6 +763,34 @@ export class StockTrade {
       values.push(updates.filingDate);
     }
 
+    if (updates.owner !== undefined) {
+      if (updates.owner && !TRADE_OWNERS.includes(updates.owner)) {
+        throw new Error('Owner must be "self", "spouse", "joint", or "child"');
+      }
+      fields.push(`owner = $${paramCounter++}`);
+      values.push(updates.owner || null);
+    }
+
+    if (updates.dataSource !== undefined) {
+      if (updates.dataSource && !TRADE_DATA_SOURCES.includes(updates.dataSource)) {
+        throw new Error('Unknown trade data source');
+      }
+      fields.push(`data_source = $${paramCounter++}`);
+      values.push(updates.dataSource || null);
+    }
+
+    if (updates.assetClass !== undefined) {
+      StockTrade.validateAsset(updates);
+      fields.push(`asset_class = $${paramCounter++}`);
+      values.push(updates.assetClass || null);
+      fields.push(`option_type = $${paramCounter++}`);
+      values.push(updates.optionType || null);
+      fields.push(`strike_price = $${paramCounter++}`);
+      values.push(updates.strikePrice ?? null);
+      fields.push(`expiration_date = $${paramCounter++}`);
+      values.push(updates.expirationDate || null);
+    }
+
     if (updates.sourceData !== undefined) {
       fields.push(`source_data = $${paramCounter++}`);
       values.push(updates.sourceData ? JSON.stringify(updates.sourceData) : null);
@@ -605,7 +803,7 @@ export class StockTrade {
     fields.push(`updated_at = NOW()`);
     values.push(this.id);
 
-    const client = await db.connect();
+    const client = transactionClient || await db.connect();
     try {
       await client.query(
         `UPDATE stock_trades SET ${fields.join(', ')} WHERE id = $${paramCounter}`,
@@ -617,21 +815,188 @@ export class StockTrade {
       if (updates.estimatedValue !== undefined) this.estimatedValue = updates.estimatedValue;
       if (updates.quantity !== undefined) this.quantity = updates.quantity;
       if (updates.filingDate !== undefined) this.filingDate = updates.filingDate;
+      if (updates.owner !== undefined) this.owner = updates.owner || undefined;
+      if (updates.dataSource !== undefined) this.dataSource = updates.dataSource || undefined;
+      if (updates.assetClass !== undefined) {
+        this.assetClass = updates.assetClass || undefined;
+        this.optionType = updates.optionType;
+        this.strikePrice = updates.strikePrice;
+        this.expirationDate = updates.expirationDate;
+      }
       if (updates.sourceData !== undefined) this.sourceData = updates.sourceData;
       this.updatedAt = new Date();
+    } finally {
+      if (!transactionClient) {
+        client.release();
+      }
+    }
+  }
+
+  /**
+   * Apply a later disclosure of this trade, recording the fields it changed
+   * as a new revision. Returns null when the disclosure changes nothing.
+   */
+  async amend(updates: Partial<CreateStockTradeData>, reason?: string): Promise<TradeRevision | null> {
+    const changes = this.getChanges(updates);
+    if (Object.keys(changes).length === 0) {
+      return null;
+    }
+
+    return db.transaction(async client => {
+      await this.update(updates, client);
+      return this.recordRevision(client, 'amended', changes, reason, updates.sourceData);
+    });
+  }
+
+  /**
+   * Mark the trade as retracted by the filer. The trade is kept so its
+   * history stays visible.
+   */
+  async withdraw(reason?: string): Promise<TradeRevision> {
+    if (this.status === 'withdrawn') {
+      throw new Error('Trade has already been withdrawn');
+    }
+
+    const changes = { status: { from: this.status, to: 'withdrawn' } };
+    return db.transaction(client => this.recordRevision(client, 'withdrawn', changes, reason));
+  }
+
+  /**
+   * Previous and new values of each amendable field the updates change
+   */
+  getChanges(updates: Partial<CreateStockTradeData>): TradeRevisionChanges {
+    const changes: TradeRevisionChanges = {};
+
+    for (const field of AMENDABLE_FIELDS) {
+      if (updates[field] === undefined) continue;
+
+      const from = StockTrade.comparableValue(this[field]);
+      const to = StockTrade.comparableValue(updates[field]);
+      if (from !== to) {
+        changes[field] = { from, to };
+      }
+    }
+
+    return changes;
+  }
+
+  private async recordRevision(
+    client: PoolClient,
+    status: TradeStatus,
+    changes: TradeRevisionChanges,
+    reason?: string,
+    sourceData?: any
+  ): Promise<TradeRevision> {
+    const result = await client.query(
+      `UPDATE stock_trades SET status = $2, revision = revision + 1, updated_at = NOW()
+       WHERE id = $1 RETURNING revision`,
+      [this.id, status]
+    );
+
+    this.status = status;
+    this.revision = result.rows[0].revision;
+
+    return TradeRevision.create(client, {
+      tradeId: this.id!,
+      revision: this.revision,
+      status,
+      changes,
+      reason,
+      sourceData
+    });
+  }
+
+  /**
+   * Normalize a field value so stored and incoming values compare equal.
+   * NUMERIC columns come back as strings and DATE columns as local midnight,
+   * while disclosure dates are parsed as UTC midnight.
+   */
+  private static comparableValue(value: unknown): string | number | null {
+    if (value === undefined || value === null || value === '') {
+      return null;
+    }
+
+    if (value instanceof Date) {
+      const isUtcMidnight = value.getTime() % 86400000 === 0;
+      const [year, month, day] = isUtcMidnight
+        ? [value.getUTCFullYear(), value.getUTCMonth(), value.getUTCDate()]
+        : [value.getFullYear(), value.getMonth(), value.getDate()];
+      return `${year}-${String(month + 1).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+    }
+
+    if (typeof value === 'number' || (typeof value === 'string' && value.trim() !== '' && !isNaN(Number(value)))) {
+      return Number(value);
+    }
+
+    return String(value).trim();
+  }
+
+  /**
+   * Find the stored trade a disclosure describes, to avoid duplicates. When
+   * the asset is given, a same-day trade in a different asset of the same
+   * ticker (the stock versus its options, or another option contract) is a
+   * different trade.
+   */
+  static async findExistingTrade(
+    traderType: TraderType,
+    traderId: string,
+    tickerSymbol: string,
+    transactionDate: Date,
+    transactionType: TransactionType,
+    trade?: Partial<TradeAsset> & Pick<StockTradeData, 'owner' | 'amountRange' | 'filingDate'>
+  ): Promise<StockTrade | null> {
+    const client = await db.connect();
+    try {
+      const row = await StockTrade.findSameTradeRow(client, {
+        ...trade,
+        traderType,
+        traderId,
+        tickerSymbol,
+        transactionDate,
+        transactionType
+      });
+
+      if (row) {
+        return new StockTrade({
+          id: row.id,
+          traderType: row.trader_type,
+          traderId: row.trader_id,
+          tickerSymbol: row.ticker_symbol,
+          transactionDate: row.transaction_date,
+          transactionType: row.transaction_type,
+          amountRange: row.amount_range,
+          estimatedValue: row.estimated_value,
+          quantity: row.quantity,
+          filingDate: row.filing_date,
+          owner: row.owner || undefined,
+          dataSource: row.data_source || undefined,
+          ...StockTrade.assetFromRow(row),
+          status: row.status,
+          revision: row.revision,
+          sourceData: row.source_data,
+          createdAt: row.created_at,
+          updatedAt: row.updated_at
+        });
+      }
+
+      return null;
     } finally {
       client.release();
     }
   }
 
   /**
-   * Bulk create trades (for data imports)
+   * Bulk create trades (for data imports), skipping ones already stored, as
+   * matched by findExistingTrade
    */
-  static async bulkCreate(trades: CreateStockTradeData[]): Promise<void> {
+  static async bulkCreate(trades: CreateStockTradeData[]): Promise<{ inserted: number; skipped: number }> {
     if (!trades || trades.length === 0) {
-      return;
+      return { inserted: 0, skipped: 0 };
     }
 
+    let inserted = 0;
+    let skipped = 0;
+
     const client = await db.connect();
     try {
       await client.query('BEGIN');
@@ -643,43 +1008,41 @@ export class StockTrade {
           throw new Error('Invalid trade data: missing required fields');
         }
 
-        // Check for duplicates based on trader, ticker, date, and type
-        const existing = await client.query(
-          `SELECT id FROM stock_trades 
-           WHERE trader_type = $1 AND trader_id = $2 AND ticker_symbol = $3 
-           AND transaction_date = $4 AND transaction_type = $5`,
+        if (await StockTrade.findSameTradeRow(client, trade)) {
+          skipped++;
+          continue;
+        }
+
+        await client.query(
+          `INSERT INTO stock_trades 
+           (trader_type, trader_id, ticker_symbol, transaction_date, transaction_type, 
+            amount_range, estimated_value, quantity, filing_date, owner, data_source,
+            asset_class, option_type, strike_price, expiration_date, source_data)
+           VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16)`,
           [
             trade.traderType,
             trade.traderId,
             trade.tickerSymbol.toUpperCase(),
             trade.transactionDate,
-            trade.transactionType
+            trade.transactionType,
+            trade.amountRange || null,
+            trade.estimatedValue || null,
+            trade.quantity || null,
+            trade.filingDate || null,
+            trade.owner || null,
+            trade.dataSource || null,
+            trade.assetClass || null,
+            trade.optionType || null,
+            trade.strikePrice ?? null,
+            trade.expirationDate || null,
+            trade.sourceData ? JSON.stringify(trade.sourceData) : null
           ]
         );
-
-        if (existing.rows.length === 0) {
-          await client.query(
-            `INSERT INTO stock_trades 
-             (trader_type, trader_id, ticker_symbol, transaction_date, transaction_type, 
-              amount_range, estimated_value, quantity, filing_date, source_data)
-             VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)`,
-            [
-              trade.traderType,
-              trade.traderId,
-              trade.tickerSymbol.toUpperCase(),
-              trade.transactionDate,
-              trade.transactionType,
-              trade.amountRange || null,
-              trade.estimatedValue || null,
-              trade.quantity || null,
-              trade.filingDate || null,
-              trade.sourceData ? JSON.stringify(trade.sourceData) : null
-            ]
-          );
-        }
+        inserted++;
       }
 
       await client.query('COMMIT');
+      return { inserted, skipped };
     } catch (error) {
       await client.query('ROLLBACK');
       throw error;
@@ -688,6 +1051,125 @@ export class StockTrade {
     }
   }
 
+  /**
+   * SQL matching trades in the same asset, taking four parameters from
+   * firstParam. Trades stored before classification match any asset.
+   */
+  private static sameAssetCondition(firstParam: number): string {
+    const [assetClass, optionType, strikePrice, expirationDate] = [0, 1, 2, 3].map(i => `$${firstParam + i}`);
+    return `(asset_class IS NULL OR (asset_class = ${assetClass}
+      AND option_type IS NOT DISTINCT FROM ${optionType}::VARCHAR
+      AND strike_price IS NOT DISTINCT FROM ${strikePrice}::NUMERIC
+      AND expiration_date IS NOT DISTINCT FROM ${expirationDate}::DATE))`;
+  }
+
+  private static sameAssetParams(asset: Partial<TradeAsset>): any[] {
+    return [asset.assetClass, asset.optionType || null, asset.strikePrice ?? null, asset.expirationDate || null];
+  }
+
+  /**
+   * The stored row a disclosure describes. Same-day trades by the trader in
+   * the same ticker, type and asset are candidates: the one in the same lot
+   * (owner and amount range, either unset on older rows) is the trade. A
+   * disclosure from another filing that matches no lot amends or restates
+   * the one candidate from another filing with the same owner, or the only
+   * lot there is; lots filed together stay separate trades.
+   */
+  private static async findSameTradeRow(
+    client: PoolClient,
+    trade: Pick<StockTradeData, 'traderType' | 'traderId' | 'tickerSymbol' | 'transactionDate' | 'transactionType'>
+      & Partial<TradeAsset> & Pick<StockTradeData, 'owner' | 'amountRange' | 'filingDate'>
+  ): Promise<any | null> {
+    const result = await client.query(
+      `SELECT * FROM stock_trades 
+       WHERE trader_type = $1 AND trader_id = $2 AND ticker_symbol = $3 
+       AND transaction_date = $4 AND transaction_type = $5
+       ${trade.assetClass ? `AND ${StockTrade.sameAssetCondition(6)}` : ''}
+       ORDER BY created_at, id`,
+      [
+        trade.traderType,
+        trade.traderId,
+        trade.tickerSymbol.toUpperCase(),
+        trade.transactionDate,
+        trade.transactionType,
+        ...(trade.assetClass ? StockTrade.sameAssetParams(trade) : [])
+      ]
+    );
+
+    const matches = (stored: string | null, incoming?: string) => !stored || !incoming || stored === incoming;
+    const sameOwner = (row: any) => matches(row.owner, trade.owner);
+
+    const sameLot = result.rows.find(row => sameOwner(row) && matches(row.amount_range, trade.amountRange));
+    if (sameLot) {
+      return sameLot;
+    }
+
+    const filed = StockTrade.comparableValue(trade.filingDate);
+    if (filed === null) {
+      return null;
+    }
+
+    const otherFilings = result.rows.filter(row => {
+      const rowFiled = StockTrade.comparableValue(row.filing_date);
+      return rowFiled !== null && rowFiled !== filed;
+    });
+    const sameOwnerFilings = otherFilings.filter(sameOwner);
+    if (sameOwnerFilings.length > 0) {
+      return sameOwnerFilings.length === 1 ? sameOwnerFilings[0] : null;
+    }
+
+    // A changed owner only when the trade has a single lot
+    return result.rows.length === 1 && otherFilings.length === 1 ? otherFilings[0] : null;
+  }
+
+  private static validateAsset(asset: Partial<TradeAsset>): void {
+    if (asset.assetClass && !ASSET_CLASSES.includes(asset.assetClass)) {
+      throw new Error(`Asset class must be one of: ${ASSET_CLASSES.join(', ')}`);
+    }
+
+    if (asset.optionType && !OPTION_TYPES.includes(asset.optionType)) {
+      throw new Error('Option type must be "call" or "put"');
+    }
+
+    if (asset.strikePrice !== undefined && asset.strikePrice < 0) {
+      throw new Error('Strike price cannot be negative');
+    }
+  }
+
+  /**
+   * The asset fields of a stock_trades row
+   */
+  private static assetFromRow(row: any): Partial<TradeAsset> {
+    return {
+      assetClass: row.asset_class || undefined,
+      optionType: row.option_type || undefined,
+      strikePrice: row.strike_price !== null && row.strike_price !== undefined ? parseFloat(row.strike_price) : undefined,
+      expirationDate: row.expiration_date || undefined
+    };
+  }
+
+  /**
+   * Normalize the owner reported on a disclosure ("Self", "Spouse", "Joint",
+   * "Child", "Dependent Child", ...). Returns undefined when unrecognized.
+   */
+  static parseOwner(owner?: string | null): TradeOwner | undefined {
+    if (!owner) {
+      return undefined;
+    }
+
+    const normalized = owner.trim().toLowerCase();
+
+    // House Clerk reports use owner codes
+    const code = ({ sp: 'spouse', jt: 'joint', dc: 'child' } as Record<string, TradeOwner>)[normalized];
+    if (code) return code;
+
+    if (normalized === 'self') return 'self';
+    if (normalized.startsWith('spouse')) return 'spouse';
+    if (normalized.startsWith('joint')) return 'joint';
+    if (normalized.includes('child') || normalized.includes('dependent')) return 'child';
+    return undefined;
+  }
+
   /**
    * Calculate estimated value from amount range
    */
@@ -779,12 +1261,21 @@ export class StockTrade {
       };
 
       const dbColumnName = columnMap[sortBy] || 'transaction_date';
+      // Creation order matches the createdAfter cursor; ties go by id
+      const sortColumn = dbColumnName === 'created_at'
+        ? "date_trunc('milliseconds', st.created_at)"
+        : `st.${dbColumnName}`;
 
       // Build WHERE clause from filters
       const whereConditions: string[] = [];
       const queryParams: any[] = [];
       let paramCounter = 1;
 
+      if (filters.id) {
+        whereConditions.push(`st.id = $${paramCounter++}`);
+        queryParams.push(filters.id);
+      }
+
       if (filters.traderId) {
         whereConditions.push(`st.trader_id = $${paramCounter++}`);
         queryParams.push(filters.traderId);
@@ -815,6 +1306,15 @@ export class StockTrade {
         queryParams.push(filters.endDate);
       }
 
+      // Stream replay cursor: trades after (createdAt, id), compared at the
+      // millisecond precision of JavaScript dates
+      if (filters.createdAfter) {
+        whereConditions.push(
+          `(date_trunc('milliseconds', st.created_at), st.id) > ($${paramCounter++}, $${paramCounter++}::uuid)`
+        );
+        queryParams.push(filters.createdAfter.createdAt, filters.createdAfter.id);
+      }
+
       if (filters.minValue !== undefined) {
         whereConditions.push(`st.estimated_value >= $${paramCounter++}`);
         queryParams.push(filters.minValue);
@@ -825,6 +1325,34 @@ export class StockTrade {
         queryParams.push(filters.maxValue);
       }
 
+      if (filters.owner) {
+        whereConditions.push(`st.owner = $${paramCounter++}`);
+        queryParams.push(filters.owner);
+      }
+
+      if (filters.dataSource) {
+        whereConditions.push(`st.data_source = $${paramCounter++}`);
+        queryParams.push(filters.dataSource);
+      }
+
+      if (filters.assetClass) {
+        whereConditions.push(`st.asset_class = $${paramCounter++}`);
+        queryParams.push(filters.assetClass);
+      }
+
+      if (filters.optionType) {
+        whereConditions.push(`st.option_type = $${paramCounter++}`);
+        queryParams.push(filters.optionType);
+      }
+
+      if (filters.lateFiling !== undefined) {
+        whereConditions.push(StockTrade.lateFilingCondition(filters.lateFiling));
+      }
+
+      if (filters.excludeWithdrawn) {
+        whereConditions.push(StockTrade.countedCondition());
+      }
+
       const whereClause = whereConditions.length > 0
         ? `WHERE ${whereConditions.join(' AND ')}`
         : '';
@@ -856,7 +1384,7 @@ export class StockTrade {
         LEFT JOIN congressional_members cm ON st.trader_id = cm.id AND st.trader_type = 'congressional'
         LEFT JOIN stock_tickers sk ON st.ticker_symbol = sk.symbol
         ${whereClause}
-        ORDER BY st.${dbColumnName} ${sortOrder.toUpperCase()}
+        ORDER BY ${sortColumn} ${sortOrder.toUpperCase()}, st.id ${sortOrder.toUpperCase()}
         LIMIT ${limitParam} OFFSET ${offsetParam}`,
         queryParams
       );
@@ -879,6 +1407,11 @@ export class StockTrade {
           estimatedValue: row.estimated_value,
           quantity: row.quantity,
           filingDate: row.filing_date,
+          owner: row.owner || undefined,
+          status: row.status,
+          revision: row.revision,
+          dataSource: row.data_source || undefined,
+          ...StockTrade.assetFromRow(row),
           sourceData: row.source_data,
           createdAt: row.created_at,
           updatedAt: row.updated_at
@@ -921,6 +1454,111 @@ export class StockTrade {
     }
   }
 
+  /**
+   * Days between the trade and its disclosure; undefined until it is filed
+   */
+  static calculateFilingLag(transactionDate: Date, filingDate?: Date | null): number | undefined {
+    if (!transactionDate || !filingDate) {
+      return undefined;
+    }
+
+    const start = new Date(transactionDate);
+    const end = new Date(filingDate);
+    const startDay = Date.UTC(start.getFullYear(), start.getMonth(), start.getDate());
+    const endDay = Date.UTC(end.getFullYear(), end.getMonth(), end.getDate());
+
+    return Math.round((endDay - startDay) / 86400000);
+  }
+
+  private static isLate(transactionDate: Date, filingDate?: Date | null): boolean {
+    const lag = StockTrade.calculateFilingLag(transactionDate, filingDate);
+    return lag !== undefined && lag > STOCK_ACT_FILING_WINDOW_DAYS;
+  }
+
+  /**
+   * SQL condition on `st` for trades disclosed after (or within) the window
+   */
+  private static lateFilingCondition(late: boolean): string {
+    return late
+      ? `st.filing_date - st.transaction_date > ${STOCK_ACT_FILING_WINDOW_DAYS}`
+      : `st.filing_date - st.transaction_date <= ${STOCK_ACT_FILING_WINDOW_DAYS}`;
+  }
+
+  /**
+   * SQL condition for trades that count in statistics, analytics and alerts;
+   * a withdrawn disclosure no longer describes a trade
+   */
+  static countedCondition(alias: string = 'st'): string {
+    return `${alias}.status != 'withdrawn'`;
+  }
+
+  /**
+   * SQL condition for trades in the asset classes bound to `param` (an array);
+   * trades stored before asset classification count as stock
+   */
+  static assetClassCondition(param: string, alias: string = 'st'): string {
+    return `COALESCE(${alias}.asset_class, 'stock') = ANY(${param}::varchar[])`;
+  }
+
+  getFilingLagDays(): number | undefined {
+    return StockTrade.calculateFilingLag(this.transactionDate, this.filingDate);
+  }
+
+  isLateFiling(): boolean {
+    return StockTrade.isLate(this.transactionDate, this.filingDate);
+  }
+
+  /**
+   * Disclosure lag statistics across one trader's filed trades
+   */
+  static async getFilingLagStats(traderType: TraderType, traderId: string): Promise<FilingLagStats> {
+    const [stats, latest] = await Promise.all([
+      db.query(
+        `SELECT
+          COUNT(*) AS filed_trades,
+          COUNT(*) FILTER (WHERE filing_date - transaction_date > $3) AS late_filings,
+          AVG(filing_date - transaction_date) AS avg_lag,
+          PERCENTILE_CONT(0.5) WITHIN GROUP (ORDER BY filing_date - transaction_date) AS median_lag,
+          MAX(filing_date - transaction_date) AS max_lag
+        FROM stock_trades
+        WHERE trader_type = $1 AND trader_id = $2 AND filing_date IS NOT NULL
+          AND ${StockTrade.countedCondition('stock_trades')}`,
+        [traderType, traderId, STOCK_ACT_FILING_WINDOW_DAYS]
+      ),
+      db.query(
+        `SELECT id, ticker_symbol, transaction_date, filing_date, filing_date - transaction_date AS lag_days
+        FROM stock_trades
+        WHERE trader_type = $1 AND trader_id = $2 AND ${StockTrade.countedCondition('stock_trades')}
+          AND filing_date - transaction_date > $3
+        ORDER BY filing_date DESC
+        LIMIT 1`,
+        [traderType, traderId, STOCK_ACT_FILING_WINDOW_DAYS]
+      )
+    ]);
+
+    const row = stats.rows[0];
+    const filedTrades = parseInt(row.filed_trades);
+    const lateFilings = parseInt(row.late_filings);
+    const late = latest.rows[0];
+
+    return {
+      filingWindowDays: STOCK_ACT_FILING_WINDOW_DAYS,
+      filedTrades,
+      lateFilings,
+      lateFilingRate: filedTrades > 0 ? lateFilings / filedTrades : 0,
+      avgLagDays: row.avg_lag !== null ? Math.round(parseFloat(row.avg_lag) * 10) / 10 : null,
+      medianLagDays: row.median_lag !== null ? parseFloat(row.median_lag) : null,
+      maxLagDays: row.max_lag !== null ? parseInt(row.max_lag) : null,
+      latestLateFiling: late ? {
+        tradeId: late.id,
+        tickerSymbol: late.ticker_symbol,
+        transactionDate: late.transaction_date,
+        filingDate: late.filing_date,
+        lagDays: parseInt(late.lag_days)
+      } : null
+    };
+  }
+
   /**
    * Calculate summary statistics
    */
@@ -963,7 +1601,7 @@ export class StockTrade {
           ) as stock
         FROM stock_trades st
         JOIN stock_tickers s ON st.ticker_symbol = s.symbol
-        WHERE st.transaction_date >= $1
+        WHERE st.transaction_date >= $1 AND ${StockTrade.countedCondition()}
         GROUP BY st.ticker_symbol, s.symbol, s.company_name, s.sector, s.industry, s.market_cap, s.last_price
         ORDER BY total_value DESC
         LIMIT $2
@@ -1007,6 +1645,7 @@ export class StockTrade {
         JOIN congressional_members cm ON st.trader_id = cm.id
         WHERE st.transaction_date >= $1
           AND st.trader_type = 'congressional'
+          AND ${StockTrade.countedCondition()}
         GROUP BY st.trader_id, cm.id, cm.name, cm.party_affiliation, cm.position, cm.state_code, cm.district
         ORDER BY total_value DESC
         LIMIT $2
@@ -1042,6 +1681,16 @@ export class StockTrade {
       estimatedValue: this.estimatedValue,
       quantity: this.quantity,
       filingDate: this.filingDate,
+      owner: this.owner,
+      status: this.status,
+      revision: this.revision,
+      dataSource: this.dataSource,
+      assetClass: this.assetClass,
+      optionType: this.optionType,
+      strikePrice: this.strikePrice,
+      expirationDate: this.expirationDate,
+      filingLagDays: this.getFilingLagDays(),
+      lateFiling: this.isLateFiling(),
       sourceData: this.sourceData,
       createdAt: this.createdAt,
       updatedAt: this.updatedAt
@@ -0,0 +1,254 @@
+import { db } from '../config/database';
+
+export type SyncRunType = 'daily' | 'incremental' | 'backfill' | 'file';
+export type SyncRunTrigger = 'scheduled' | 'manual' | 'cli';
+export type SyncRunStatus = 'running' | 'succeeded' | 'failed';
+
+export const SYNC_RUN_TYPES: SyncRunType[] = ['daily', 'incremental', 'backfill', 'file'];
+export const SYNC_RUN_STATUSES: SyncRunStatus[] = ['running', 'succeeded', 'failed'];
+
+export interface SyncRunProgress {
+  type: string; // 'senate', 'house' or 'insiders'
+  current: number;
+  total: number;
+}
+
+/**
+ * FMPClient.getRateLimitStatus at the end of a run
+ */
+export interface FMPRateLimitSnapshot {
+  minute: { used: number; limit: number; resetIn: number };
+  hour: { used: number; limit: number; resetIn: number };
+  day: { used: number; limit: number; resetIn: number };
+}
+
+export interface SyncRunCounts {
+  processedCount: number;
+  createdCount: number;
+  updatedCount: number;
+  skippedCount: number;
+  errorCount: number;
+  errors: string[];
+}
+
+export interface SyncRunData extends SyncRunCounts {
+  id: string;
+  runType: SyncRunType;
+  trigger: SyncRunTrigger;
+  status: SyncRunStatus;
+  dataSource?: string;
+  triggeredBy?: string;
+  startedAt: Date;
+  finishedAt?: Date;
+  durationMs?: number;
+  progress?: SyncRunProgress;
+  progressUpdatedAt?: Date;
+  fmpRequests?: number;
+  fmpRateLimit?: FMPRateLimitSnapshot;
+}
+
+export interface SyncRunFilters {
+  runType?: SyncRunType;
+  status?: SyncRunStatus;
+}
+
+export class SyncRun {
+  id: string;
+  runType: SyncRunType;
+  trigger: SyncRunTrigger;
+  status: SyncRunStatus;
+  dataSource?: string;
+  triggeredBy?: string;
+  startedAt: Date;
+  finishedAt?: Date;
+  durationMs?: number;
+  processedCount: number;
+  createdCount: number;
+  updatedCount: number;
+  skippedCount: number;
+  errorCount: number;
+  errors: string[];
+  progress?: SyncRunProgress;
+  progressUpdatedAt?: Date;
+  fmpRequests?: number;
+  fmpRateLimit?: FMPRateLimitSnapshot;
+
+  constructor(data: SyncRunData) {
+    this.id = data.id;
+    this.runType = data.runType;
+    this.trigger = data.trigger;
+    this.status = data.status;
+    this.dataSource = data.dataSource;
+    this.triggeredBy = data.triggeredBy;
+    this.startedAt = data.startedAt;
+    this.finishedAt = data.finishedAt;
+    this.durationMs = data.durationMs;
+    this.processedCount = data.processedCount;
+    this.createdCount = data.createdCount;
+    this.updatedCount = data.updatedCount;
+    this.skippedCount = data.skippedCount;
+    this.errorCount = data.errorCount;
+    this.errors = data.errors;
+    this.progress = data.progress;
+    this.progressUpdatedAt = data.progressUpdatedAt;
+    this.fmpRequests = data.fmpRequests;
+    this.fmpRateLimit = data.fmpRateLimit;
+  }
+
+  static async create(data: {
+    runType: SyncRunType;
+    trigger: SyncRunTrigger;
+    dataSource?: string;
+    triggeredBy?: string;
+  }): Promise<SyncRun> {
+    const result = await db.query(
+      `INSERT INTO sync_runs (run_type, trigger, data_source, triggered_by)
+       VALUES ($1, $2, $3, $4)
+       RETURNING *`,
+      [data.runType, data.trigger, data.dataSource || null, data.triggeredBy || null]
+    );
+
+    return SyncRun.fromRow(result.rows[0]);
+  }
+
+  static async findById(id: string): Promise<SyncRun | null> {
+    const result = await db.query('SELECT * FROM sync_runs WHERE id = $1', [id]);
+    return result.rows.length > 0 ? SyncRun.fromRow(result.rows[0]) : null;
+  }
+
+  /**
+   * Run history, newest first
+   */
+  static async findAll(
+    filters: SyncRunFilters = {},
+    limit: number = 20,
+    offset: number = 0
+  ): Promise<{ runs: SyncRun[]; total: number }> {
+    const conditions: string[] = [];
+    const params: any[] = [];
+
+    if (filters.runType) {
+      params.push(filters.runType);
+      conditions.push(`run_type = $${params.length}`);
+    }
+
+    if (filters.status) {
+      params.push(filters.status);
+      conditions.push(`status = $${params.length}`);
+    }
+
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+
+    const [result, count] = await Promise.all([
+      db.query(
+        `SELECT * FROM sync_runs ${where}
+         ORDER BY started_at DESC LIMIT $${params.length + 1} OFFSET $${params.length + 2}`,
+        [...params, limit, offset]
+      ),
+      db.query(`SELECT COUNT(*) AS total FROM sync_runs ${where}`, params)
+    ]);
+
+    return {
+      runs: result.rows.map(row => SyncRun.fromRow(row)),
+      total: parseInt(count.rows[0].total)
+    };
+  }
+
+  /**
+   * Record how far the run has got; ignored once the run has finished so a
+   * late progress write can't overwrite the final state
+   */
+  async updateProgress(progress: SyncRunProgress): Promise<void> {
+    await db.query(
+      `UPDATE sync_runs SET progress = $2, progress_updated_at = NOW()
+       WHERE id = $1 AND status = 'running'`,
+      [this.id, JSON.stringify(progress)]
+    );
+
+    this.progress = progress;
+  }
+
+  /**
+   * Record the outcome; a run is only finished once, so an error after its
+   * trades were stored (a cache refresh, say) doesn't mark it failed
+   */
+  async finish(
+    status: Exclude<SyncRunStatus, 'running'>,
+    counts: SyncRunCounts,
+    fmp?: { requests: number; rateLimit: FMPRateLimitSnapshot }
+  ): Promise<void> {
+    const result = await db.query(
+      `UPDATE sync_runs SET
+         status = $2, finished_at = NOW(),
+         duration_ms = (EXTRACT(EPOCH FROM (NOW() - started_at)) * 1000)::int,
+         processed_count = $3, created_count = $4, updated_count = $5, skipped_count = $6,
+         error_count = $7, errors = $8, fmp_requests = $9, fmp_rate_limit = $10
+       WHERE id = $1 AND status = 'running'
+       RETURNING *`,
+      [
+        this.id,
+        status,
+        counts.processedCount,
+        counts.createdCount,
+        counts.updatedCount,
+        counts.skippedCount,
+        counts.errorCount,
+        JSON.stringify(counts.errors),
+        fmp ? fmp.requests : null,
+        fmp ? JSON.stringify(fmp.rateLimit) : null
+      ]
+    );
+
+    if (result.rows.length > 0) {
+      Object.assign(this, SyncRun.fromRow(result.rows[0]));
+    }
+  }
+
+  toJSON(): SyncRunData {
+    return {
+      id: this.id,
+      runType: this.runType,
+      trigger: this.trigger,
+      status: this.status,
+      dataSource: this.dataSource,
+      triggeredBy: this.triggeredBy,
+      startedAt: this.startedAt,
+      finishedAt: this.finishedAt,
+      durationMs: this.durationMs,
+      processedCount: this.processedCount,
+      createdCount: this.createdCount,
+      updatedCount: this.updatedCount,
+      skippedCount: this.skippedCount,
+      errorCount: this.errorCount,
+      errors: this.errors,
+      progress: this.progress,
+      progressUpdatedAt: this.progressUpdatedAt,
+      fmpRequests: this.fmpRequests,
+      fmpRateLimit: this.fmpRateLimit
+    };
+  }
+
+  private static fromRow(row: any): SyncRun {
+    return new SyncRun({
+      id: row.id,
+      runType: row.run_type,
+      trigger: row.trigger,
+      status: row.status,
+      dataSource: row.data_source || undefined,
+      triggeredBy: row.triggered_by || undefined,
+      startedAt: row.started_at,
+      finishedAt: row.finished_at || undefined,
+      durationMs: row.duration_ms ?? undefined,
+      processedCount: row.processed_count,
+      createdCount: row.created_count,
+      updatedCount: row.updated_count,
+      skippedCount: row.skipped_count,
+      errorCount: row.error_count,
+      errors: row.errors || [],
+      progress: row.progress || undefined,
+      progressUpdatedAt: row.progress_updated_at || undefined,
+      fmpRequests: row.fmp_requests ?? undefined,
+      fmpRateLimit: row.fmp_rate_limit || undefined
+    });
+  }
+}
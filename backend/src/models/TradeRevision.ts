@@ -0,0 +1,125 @@
+import { PoolClient } from 'pg';
+import { db } from '../config/database';
+import type { TradeStatus } from './StockTrade';
+
+export interface TradeFieldChange {
+  from: string | number | null;
+  to: string | number | null;
+}
+
+// Keyed by StockTrade field name, e.g. amountRange or filingDate
+export type TradeRevisionChanges = Record<string, TradeFieldChange>;
+
+export interface TradeRevisionData {
+  id?: string;
+  tradeId: string;
+  revision: number;
+  status: TradeStatus;
+  changes: TradeRevisionChanges;
+  reason?: string;
+  sourceData?: any;
+  recordedAt?: Date;
+}
+
+export class TradeRevision {
+  id?: string;
+  tradeId: string;
+  revision: number;
+  status: TradeStatus;
+  changes: TradeRevisionChanges;
+  reason?: string;
+  sourceData?: any;
+  recordedAt?: Date;
+
+  constructor(data: TradeRevisionData) {
+    this.id = data.id;
+    this.tradeId = data.tradeId;
+    this.revision = data.revision;
+    this.status = data.status;
+    this.changes = data.changes;
+    this.reason = data.reason;
+    this.sourceData = data.sourceData;
+    this.recordedAt = data.recordedAt;
+  }
+
+  /**
+   * Record a revision as part of the transaction that changed the trade
+   */
+  static async create(client: PoolClient, data: TradeRevisionData): Promise<TradeRevision> {
+    const result = await client.query(
+      `INSERT INTO trade_revisions (trade_id, revision, status, changes, reason, source_data)
+       VALUES ($1, $2, $3, $4, $5, $6)
+       RETURNING *`,
+      [
+        data.tradeId,
+        data.revision,
+        data.status,
+        JSON.stringify(data.changes),
+        data.reason || null,
+        data.sourceData ? JSON.stringify(data.sourceData) : null
+      ]
+    );
+
+    return TradeRevision.fromRow(result.rows[0]);
+  }
+
+  /**
+   * A trade's revisions, newest first
+   */
+  static async findByTrade(tradeId: string): Promise<TradeRevision[]> {
+    const result = await db.query(
+      'SELECT * FROM trade_revisions WHERE trade_id = $1 ORDER BY revision DESC',
+      [tradeId]
+    );
+
+    return result.rows.map(row => TradeRevision.fromRow(row));
+  }
+
+  /**
+   * One-line summary of what changed, e.g. for notifications
+   */
+  describeChanges(): string {
+    if (this.status === 'withdrawn') {
+      return this.reason || 'disclosure withdrawn';
+    }
+
+    // The estimated value follows from the amount range; only mention it on its own
+    return Object.entries(this.changes)
+      .filter(([field]) => field !== 'estimatedValue' || !this.changes.amountRange)
+      .map(([field, { from, to }]) => `${TradeRevision.FIELD_LABELS[field] || field} ${from ?? 'none'} → ${to ?? 'none'}`)
+      .join(', ');
+  }
+
+  private static readonly FIELD_LABELS: Record<string, string> = {
+    amountRange: 'amount',
+    estimatedValue: 'estimated value',
+    quantity: 'quantity',
+    filingDate: 'filing date',
+    owner: 'owner'
+  };
+
+  toJSON(): Omit<TradeRevisionData, 'sourceData'> {
+    return {
+      id: this.id,
+      tradeId: this.tradeId,
+      revision: this.revision,
+      status: this.status,
+      changes: this.changes,
+      reason: this.reason,
+      recordedAt: this.recordedAt
+    };
+  }
+
+  private static fromRow(row: any): TradeRevision {
+    return new TradeRevision({
+      id: row.id,
+      tradeId: row.trade_id,
+      revision: row.revision,
+      status: row.status,
+      changes: row.changes,
+      reason: row.reason || undefined,
+      sourceData: row.source_data || undefined,
+      recordedAt: row.recorded_at
+    });
+  }
+}
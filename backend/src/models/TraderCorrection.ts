@@ -0,0 +1,241 @@
+import { PoolClient } from 'pg';
+import { db } from '../config/database';
+import { TraderType } from './StockTrade';
+
+export type TraderCorrectionOperation = 'merge' | 'split';
+
+/**
+ * Everything a merge or split changed, so it can be reversed exactly
+ */
+export interface TraderCorrectionChanges {
+  tradeIds: string[];
+  alertIds: string[];
+  followIds: string[]; // follows re-pointed to the target
+  closedFollowIds: string[]; // follows ended because the user already followed the target
+  committeeIds: string[]; // committee seats added to the target
+  aliasIds: string[]; // aliases added to the target
+  bioguideId?: string; // Bioguide ID carried over to a target that had none
+}
+
+/**
+ * The row a merge removed, with the dependent rows deleted alongside it
+ */
+export interface TraderSnapshot {
+  row: Record<string, any>;
+  aliases: Array<{ alias: string; normalized_alias: string; source: string }>;
+  committees: Array<{ committee_id: string; role: string | null }>;
+}
+
+export interface TraderCorrectionData {
+  id?: string;
+  operation: TraderCorrectionOperation;
+  traderType: TraderType;
+  sourceId: string;
+  targetId: string;
+  sourceSnapshot?: TraderSnapshot;
+  changes: TraderCorrectionChanges;
+  reason?: string;
+  performedBy?: string;
+  performedAt?: Date;
+  undoneBy?: string;
+  undoneAt?: Date;
+}
+
+export interface TraderCorrectionFilters {
+  traderType?: TraderType;
+  traderId?: string; // source or target
+}
+
+export class TraderCorrection {
+  id?: string;
+  operation: TraderCorrectionOperation;
+  traderType: TraderType;
+  sourceId: string;
+  targetId: string;
+  sourceSnapshot?: TraderSnapshot;
+  changes: TraderCorrectionChanges;
+  reason?: string;
+  performedBy?: string;
+  performedAt?: Date;
+  undoneBy?: string;
+  undoneAt?: Date;
+
+  constructor(data: TraderCorrectionData) {
+    this.id = data.id;
+    this.operation = data.operation;
+    this.traderType = data.traderType;
+    this.sourceId = data.sourceId;
+    this.targetId = data.targetId;
+    this.sourceSnapshot = data.sourceSnapshot;
+    this.changes = data.changes;
+    this.reason = data.reason;
+    this.performedBy = data.performedBy;
+    this.performedAt = data.performedAt;
+    this.undoneBy = data.undoneBy;
+    this.undoneAt = data.undoneAt;
+  }
+
+  /**
+   * Record a correction as part of the transaction that performed it
+   */
+  static async create(client: PoolClient, data: TraderCorrectionData): Promise<TraderCorrection> {
+    const result = await client.query(
+      `INSERT INTO trader_corrections
+       (operation, trader_type, source_id, target_id, source_snapshot, changes, reason, performed_by)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+       RETURNING *`,
+      [
+        data.operation,
+        data.traderType,
+        data.sourceId,
+        data.targetId,
+        data.sourceSnapshot ? JSON.stringify(data.sourceSnapshot) : null,
+        JSON.stringify(data.changes),
+        data.reason || null,
+        data.performedBy || null
+      ]
+    );
+
+    return TraderCorrection.fromRow(result.rows[0]);
+  }
+
+  /**
+   * Find correction by ID, locking it when a transaction client is given
+   */
+  static async findById(id: string, client?: PoolClient): Promise<TraderCorrection | null> {
+    const result = client
+      ? await client.query('SELECT * FROM trader_corrections WHERE id = $1 FOR UPDATE', [id])
+      : await db.query('SELECT * FROM trader_corrections WHERE id = $1', [id]);
+
+    return result.rows.length > 0 ? TraderCorrection.fromRow(result.rows[0]) : null;
+  }
+
+  /**
+   * Audit trail, newest first
+   */
+  static async findAll(
+    filters: TraderCorrectionFilters = {},
+    limit: number = 50,
+    offset: number = 0
+  ): Promise<{ corrections: TraderCorrection[]; total: number }> {
+    const conditions: string[] = [];
+    const params: any[] = [];
+
+    if (filters.traderType) {
+      params.push(filters.traderType);
+      conditions.push(`trader_type = $${params.length}`);
+    }
+
+    if (filters.traderId) {
+      params.push(filters.traderId);
+      conditions.push(`(source_id = $${params.length} OR target_id = $${params.length})`);
+    }
+
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+
+    const [result, count] = await Promise.all([
+      db.query(
+        `SELECT * FROM trader_corrections ${where}
+         ORDER BY performed_at DESC LIMIT $${params.length + 1} OFFSET $${params.length + 2}`,
+        [...params, limit, offset]
+      ),
+      db.query(`SELECT COUNT(*) AS total FROM trader_corrections ${where}`, params)
+    ]);
+
+    return {
+      corrections: result.rows.map(row => TraderCorrection.fromRow(row)),
+      total: parseInt(count.rows[0].total)
+    };
+  }
+
+  /**
+   * Whether a later correction that is still in effect touched either trader
+   * of this one; undoing out of order would move rows it depends on
+   */
+  async hasLaterCorrections(client: PoolClient): Promise<boolean> {
+    const result = await client.query(
+      `SELECT 1 FROM trader_corrections
+       WHERE id != $1 AND trader_type = $2 AND undone_at IS NULL AND performed_at > $3
+         AND (source_id IN ($4, $5) OR target_id IN ($4, $5))
+       LIMIT 1`,
+      [this.id, this.traderType, this.performedAt, this.sourceId, this.targetId]
+    );
+
+    return result.rows.length > 0;
+  }
+
+  async markUndone(client: PoolClient, undoneBy?: string): Promise<void> {
+    const result = await client.query(
+      `UPDATE trader_corrections SET undone_at = NOW(), undone_by = $2
+       WHERE id = $1 RETURNING undone_at`,
+      [this.id, undoneBy || null]
+    );
+
+    this.undoneAt = result.rows[0].undone_at;
+    this.undoneBy = undoneBy;
+  }
+
+  /**
+   * The insider a merged-away insider now lives on, following chains of
+   * merges. Null when no merge removed an insider with this name and ticker.
+   */
+  static async findMergedInsiderId(name: string, tickerSymbol: string): Promise<string | null> {
+    let result = await db.query(
+      `SELECT target_id FROM trader_corrections
+       WHERE operation = 'merge' AND trader_type = 'corporate' AND undone_at IS NULL
+         AND source_snapshot->'row'->>'name' = $1 AND source_snapshot->'row'->>'ticker_symbol' = $2
+       ORDER BY performed_at DESC LIMIT 1`,
+      [name, tickerSymbol]
+    );
+
+    // A survivor may itself have been merged away later
+    for (let hops = 0; result.rows.length > 0 && hops < 10; hops++) {
+      const targetId = result.rows[0].target_id;
+      result = await db.query(
+        `SELECT target_id FROM trader_corrections
+         WHERE operation = 'merge' AND trader_type = 'corporate' AND undone_at IS NULL AND source_id = $1
+         ORDER BY performed_at DESC LIMIT 1`,
+        [targetId]
+      );
+      if (result.rows.length === 0) {
+        return targetId;
+      }
+    }
+
+    return null;
+  }
+
+  toJSON(): TraderCorrectionData {
+    return {
+      id: this.id,
+      operation: this.operation,
+      traderType: this.traderType,
+      sourceId: this.sourceId,
+      targetId: this.targetId,
+      sourceSnapshot: this.sourceSnapshot,
+      changes: this.changes,
+      reason: this.reason,
+      performedBy: this.performedBy,
+      performedAt: this.performedAt,
+      undoneBy: this.undoneBy,
+      undoneAt: this.undoneAt
+    };
+  }
+
+  private static fromRow(row: any): TraderCorrection {
+    return new TraderCorrection({
+      id: row.id,
+      operation: row.operation,
+      traderType: row.trader_type,
+      sourceId: row.source_id,
+      targetId: row.target_id,
+      sourceSnapshot: row.source_snapshot || undefined,
+      changes: row.changes,
+      reason: row.reason || undefined,
+      performedBy: row.performed_by || undefined,
+      performedAt: row.performed_at,
+      undoneBy: row.undone_by || undefined,
+      undoneAt: row.undone_at || undefined
+    });
+  }
+}
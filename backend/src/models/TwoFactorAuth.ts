@@ -0,0 +1,178 @@
+import crypto from 'crypto';
+import { PoolClient } from 'pg';
+import { db } from '../config/database';
+import { ConflictError, ValidationError } from '../middleware/errors';
+import { generateTotpSecret, verifyTotp } from '../utils/totp';
+
+export const RECOVERY_CODE_COUNT = 10;
+
+export type TwoFactorMethod = 'totp' | 'recovery_code';
+
+export interface TwoFactorStatus {
+  enabled: boolean;
+  enabledAt?: Date;
+  recoveryCodesRemaining: number;
+}
+
+const hashCode = (code: string): string =>
+  crypto.createHash('sha256').update(code).digest('hex');
+
+// Recovery codes are shown as xxxxx-xxxxx; accept them with or without the dash
+const normalizeRecoveryCode = (code: string): string =>
+  code.toLowerCase().replace(/[^0-9a-f]/g, '');
+
+const generateRecoveryCode = (): string => {
+  const code = crypto.randomBytes(5).toString('hex');
+  return `${code.slice(0, 5)}-${code.slice(5)}`;
+};
+
+/**
+ * A user's TOTP secret and recovery codes. The secret is stored while
+ * enrollment is pending and only protects logins once it is enabled.
+ */
+export class TwoFactorAuth {
+  static async getStatus(userId: string): Promise<TwoFactorStatus> {
+    const result = await db.query(
+      `SELECT u.two_factor_enabled_at,
+              (SELECT COUNT(*) FROM two_factor_recovery_codes rc
+               WHERE rc.user_id = u.id AND rc.used_at IS NULL) AS recovery_codes_remaining
+       FROM users u
+       WHERE u.id = $1`,
+      [userId]
+    );
+    const row = result.rows[0];
+
+    return {
+      enabled: !!row?.two_factor_enabled_at,
+      enabledAt: row?.two_factor_enabled_at || undefined,
+      recoveryCodesRemaining: parseInt(row?.recovery_codes_remaining || '0')
+    };
+  }
+
+  /**
+   * Generate a new secret for the user to add to their authenticator app,
+   * replacing any enrollment that wasn't finished
+   */
+  static async startEnrollment(userId: string): Promise<string> {
+    const secret = generateTotpSecret();
+
+    const result = await db.query(
+      `UPDATE users SET two_factor_secret = $2, two_factor_last_step = NULL, updated_at = NOW()
+       WHERE id = $1 AND two_factor_enabled_at IS NULL
+       RETURNING id`,
+      [userId, secret]
+    );
+    if (result.rows.length === 0) {
+      throw new ConflictError('Two-factor authentication is already enabled');
+    }
+
+    return secret;
+  }
+
+  /**
+   * Turn 2FA on once the user proves their app produces valid codes.
+   * Returns the recovery codes, which are only ever shown here, or null
+   * when the code is wrong.
+   */
+  static async confirmEnrollment(userId: string, code: string): Promise<string[] | null> {
+    return db.transaction(async (client) => {
+      const result = await client.query(
+        'SELECT two_factor_secret, two_factor_enabled_at FROM users WHERE id = $1 FOR UPDATE',
+        [userId]
+      );
+      const row = result.rows[0];
+
+      if (row?.two_factor_enabled_at) {
+        throw new ConflictError('Two-factor authentication is already enabled');
+      }
+      if (!row?.two_factor_secret) {
+        throw new ValidationError('Start two-factor setup before confirming it');
+      }
+
+      const step = verifyTotp(row.two_factor_secret, code);
+      if (step === null) {
+        return null;
+      }
+
+      await client.query(
+        `UPDATE users SET two_factor_enabled_at = NOW(), two_factor_last_step = $2, updated_at = NOW()
+         WHERE id = $1`,
+        [userId, step]
+      );
+
+      return TwoFactorAuth.replaceRecoveryCodes(client, userId);
+    });
+  }
+
+  /**
+   * Check a login code: an authenticator code, which can't be reused, or
+   * an unused recovery code, which is used up. Returns which one matched.
+   */
+  static async verify(userId: string, code: string): Promise<TwoFactorMethod | null> {
+    const result = await db.query(
+      'SELECT two_factor_secret FROM users WHERE id = $1 AND two_factor_enabled_at IS NOT NULL',
+      [userId]
+    );
+    const secret = result.rows[0]?.two_factor_secret;
+    if (!secret || !code) {
+      return null;
+    }
+
+    const step = verifyTotp(secret, code);
+    if (step !== null) {
+      // Only a later time step than the last accepted one, so a code works once
+      const accepted = await db.query(
+        `UPDATE users SET two_factor_last_step = $2
+         WHERE id = $1 AND (two_factor_last_step IS NULL OR two_factor_last_step < $2)
+         RETURNING id`,
+        [userId, step]
+      );
+      return accepted.rows.length > 0 ? 'totp' : null;
+    }
+
+    const recoveryCode = normalizeRecoveryCode(code);
+    if (recoveryCode.length !== 10) {
+      return null;
+    }
+
+    const used = await db.query(
+      `UPDATE two_factor_recovery_codes SET used_at = NOW()
+       WHERE user_id = $1 AND code_hash = $2 AND used_at IS NULL
+       RETURNING id`,
+      [userId, hashCode(recoveryCode)]
+    );
+    return used.rows.length > 0 ? 'recovery_code' : null;
+  }
+
+  /**
+   * Issue a fresh set of recovery codes; the old ones stop working
+   */
+  static async regenerateRecoveryCodes(userId: string): Promise<string[]> {
+    return db.transaction(client => TwoFactorAuth.replaceRecoveryCodes(client, userId));
+  }
+
+  static async disable(userId: string): Promise<void> {
+    await db.transaction(async (client) => {
+      await client.query(
+        `UPDATE users SET two_factor_secret = NULL, two_factor_enabled_at = NULL,
+           two_factor_last_step = NULL, updated_at = NOW()
+         WHERE id = $1`,
+        [userId]
+      );
+      await client.query('DELETE FROM two_factor_recovery_codes WHERE user_id = $1', [userId]);
+    });
+  }
+
+  private static async replaceRecoveryCodes(client: PoolClient, userId: string): Promise<string[]> {
+    const codes = Array.from({ length: RECOVERY_CODE_COUNT }, generateRecoveryCode);
+
+    await client.query('DELETE FROM two_factor_recovery_codes WHERE user_id = $1', [userId]);
+    await client.query(
+      `INSERT INTO two_factor_recovery_codes (user_id, code_hash)
+       SELECT $1, UNNEST($2::char(64)[])`,
+      [userId, codes.map(code => hashCode(normalizeRecoveryCode(code)))]
+    );
+
+    return codes;
+  }
+}
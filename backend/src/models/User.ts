@@ -3,6 +3,11 @@ import jwt from 'jsonwebtoken';
 import { db } from '../config/database';
 import { PoolClient } from 'pg';
 
+export type UserRole = 'user' | 'analyst' | 'admin';
+
+// Ordered by privilege: each role can do everything the ones before it can
+export const USER_ROLES: UserRole[] = ['user', 'analyst', 'admin'];
+
 export interface UserData {
   id?: string;
   email: string;
@@ -11,7 +16,10 @@ export interface UserData {
   createdAt?: Date;
   updatedAt?: Date;
   subscriptionStatus?: 'active' | 'suspended' | 'cancelled';
+  role?: UserRole;
   lastLoginAt?: Date;
+  emailVerifiedAt?: Date;
+  twoFactorEnabledAt?: Date;
 }
 
 export interface CreateUserData {
@@ -23,11 +31,13 @@ export interface CreateUserData {
 export interface LoginCredentials {
   email: string;
   password: string;
+  twoFactorCode?: string; // Authenticator or recovery code, for accounts with 2FA
 }
 
 export interface JWTPayload {
   userId: string;
   email: string;
+  sessionId?: string; // Login session the access token belongs to
   iat?: number;
   exp?: number;
 }
@@ -40,7 +50,10 @@ export class User {
   createdAt?: Date;
   updatedAt?: Date;
   subscriptionStatus: 'active' | 'suspended' | 'cancelled';
+  role: UserRole;
   lastLoginAt?: Date;
+  emailVerifiedAt?: Date;
+  twoFactorEnabledAt?: Date;
 
   constructor(data: UserData) {
     this.id = data.id;
@@ -50,7 +63,10 @@ export class User {
     this.createdAt = data.createdAt;
     this.updatedAt = data.updatedAt;
     this.subscriptionStatus = data.subscriptionStatus || 'active';
+    this.role = data.role || 'user';
     this.lastLoginAt = data.lastLoginAt;
+    this.emailVerifiedAt = data.emailVerifiedAt;
+    this.twoFactorEnabledAt = data.twoFactorEnabledAt;
   }
 
   /**
@@ -91,7 +107,7 @@ export class User {
       const result = await client.query(
         `INSERT INTO users (email, name, password_hash, subscription_status)
          VALUES ($1, $2, $3, 'active')
-         RETURNING id, email, name, created_at, updated_at, subscription_status, last_login_at`,
+         RETURNING id, email, name, created_at, updated_at, subscription_status, role, last_login_at, email_verified_at, two_factor_enabled_at`,
         [userData.email, userData.name || null, passwordHash]
       );
 
@@ -103,7 +119,10 @@ export class User {
         createdAt: userRow.created_at,
         updatedAt: userRow.updated_at,
         subscriptionStatus: userRow.subscription_status,
-        lastLoginAt: userRow.last_login_at
+        role: userRow.role,
+        lastLoginAt: userRow.last_login_at,
+        emailVerifiedAt: userRow.email_verified_at || undefined,
+        twoFactorEnabledAt: userRow.two_factor_enabled_at || undefined
       });
     } finally {
       client.release();
@@ -131,7 +150,10 @@ export class User {
       createdAt: result.created_at,
       updatedAt: result.updated_at,
       subscriptionStatus: result.subscription_status,
-      lastLoginAt: result.last_login_at
+      role: result.role,
+      lastLoginAt: result.last_login_at,
+      emailVerifiedAt: result.email_verified_at || undefined,
+      twoFactorEnabledAt: result.two_factor_enabled_at || undefined
     });
   }
 
@@ -163,7 +185,10 @@ export class User {
         createdAt: userRow.created_at,
         updatedAt: userRow.updated_at,
         subscriptionStatus: userRow.subscription_status,
-        lastLoginAt: userRow.last_login_at
+        role: userRow.role,
+        lastLoginAt: userRow.last_login_at,
+        emailVerifiedAt: userRow.email_verified_at || undefined,
+        twoFactorEnabledAt: userRow.two_factor_enabled_at || undefined
       });
     } finally {
       client.release();
@@ -171,7 +196,8 @@ export class User {
   }
 
   /**
-   * Authenticate user with email and password
+   * Authenticate user with email and password. Login is not complete until
+   * any second factor is checked, so this doesn't record the login.
    */
   static async authenticate(credentials: LoginCredentials): Promise<User | null> {
     if (!credentials.email || !credentials.password) {
@@ -188,9 +214,6 @@ export class User {
       return null;
     }
 
-    // Update last login timestamp
-    await user.updateLastLogin();
-
     return user;
   }
 
@@ -302,6 +325,11 @@ export class User {
 
       fields.push(`email = $${paramCounter++}`);
       values.push(updates.email);
+
+      // A new address has to be verified again
+      if (updates.email !== this.email) {
+        fields.push('email_verified_at = NULL');
+      }
     }
 
     if (fields.length === 0) {
@@ -334,8 +362,9 @@ export class User {
       if (updates.name !== undefined) {
         this.name = updates.name;
       }
-      if (updates.email !== undefined) {
+      if (updates.email !== undefined && updates.email !== this.email) {
         this.email = updates.email;
+        this.emailVerifiedAt = undefined;
       }
       this.updatedAt = new Date();
     } finally {
@@ -378,6 +407,42 @@ export class User {
     }
   }
 
+  /**
+   * Check a password against the user's, e.g. to confirm a sensitive change
+   */
+  async verifyPassword(password: string): Promise<boolean> {
+    if (!this.passwordHash || !password) {
+      return false;
+    }
+    return User.comparePassword(password, this.passwordHash);
+  }
+
+  isTwoFactorEnabled(): boolean {
+    return !!this.twoFactorEnabledAt;
+  }
+
+  isEmailVerified(): boolean {
+    return !!this.emailVerifiedAt;
+  }
+
+  /**
+   * Record that the user confirmed they own their email address
+   */
+  async markEmailVerified(): Promise<void> {
+    if (!this.id) {
+      throw new Error('User ID is required to verify email');
+    }
+
+    const result = await db.query(
+      `UPDATE users SET email_verified_at = COALESCE(email_verified_at, NOW()), updated_at = NOW()
+       WHERE id = $1
+       RETURNING email_verified_at`,
+      [this.id]
+    );
+    this.emailVerifiedAt = result.rows[0]?.email_verified_at;
+    this.updatedAt = new Date();
+  }
+
   /**
    * Update subscription status
    */
@@ -406,6 +471,37 @@ export class User {
     return this.subscriptionStatus === 'active';
   }
 
+  /**
+   * Whether the user has at least the given role
+   */
+  hasRole(role: UserRole): boolean {
+    return USER_ROLES.indexOf(this.role) >= USER_ROLES.indexOf(role);
+  }
+
+  isAdmin(): boolean {
+    return this.role === 'admin';
+  }
+
+  /**
+   * Change the user's role
+   */
+  async updateRole(role: UserRole): Promise<void> {
+    if (!this.id) {
+      throw new Error('User ID is required to update role');
+    }
+
+    if (!USER_ROLES.includes(role)) {
+      throw new Error(`Role must be one of: ${USER_ROLES.join(', ')}`);
+    }
+
+    await db.query(
+      'UPDATE users SET role = $1, updated_at = NOW() WHERE id = $2',
+      [role, this.id]
+    );
+    this.role = role;
+    this.updatedAt = new Date();
+  }
+
   /**
    * Get user's active follows count (for billing)
    */
@@ -448,19 +544,23 @@ export class User {
       createdAt: this.createdAt,
       updatedAt: this.updatedAt,
       subscriptionStatus: this.subscriptionStatus,
-      lastLoginAt: this.lastLoginAt
+      role: this.role,
+      lastLoginAt: this.lastLoginAt,
+      emailVerifiedAt: this.emailVerifiedAt,
+      twoFactorEnabledAt: this.twoFactorEnabledAt
     };
   }
 
   /**
-   * Get all users (admin function)
+   * Get all users, or those with a role (admin function)
    */
-  static async findAll(limit: number = 50, offset: number = 0): Promise<User[]> {
+  static async findAll(limit: number = 50, offset: number = 0, role?: UserRole): Promise<User[]> {
     const client = await db.connect();
     try {
       const result = await client.query(
-        'SELECT * FROM users ORDER BY created_at DESC LIMIT $1 OFFSET $2',
-        [limit, offset]
+        `SELECT * FROM users WHERE ($3::varchar IS NULL OR role = $3)
+         ORDER BY created_at DESC LIMIT $1 OFFSET $2`,
+        [limit, offset, role ?? null]
       );
 
       return result.rows.map(row => new User({
@@ -471,13 +571,28 @@ export class User {
         createdAt: row.created_at,
         updatedAt: row.updated_at,
         subscriptionStatus: row.subscription_status,
-        lastLoginAt: row.last_login_at
+        role: row.role,
+        lastLoginAt: row.last_login_at,
+        emailVerifiedAt: row.email_verified_at || undefined,
+        twoFactorEnabledAt: row.two_factor_enabled_at || undefined
       }));
     } finally {
       client.release();
     }
   }
 
+  /**
+   * Count all users, or those with a role
+   */
+  static async count(role?: UserRole): Promise<number> {
+    const result = await db.query(
+      'SELECT COUNT(*) FROM users WHERE ($1::varchar IS NULL OR role = $1)',
+      [role ?? null]
+    );
+
+    return parseInt(result.rows[0].count, 10);
+  }
+
   /**
    * Get users by subscription status
    */
@@ -497,10 +612,13 @@ export class User {
         createdAt: row.created_at,
         updatedAt: row.updated_at,
         subscriptionStatus: row.subscription_status,
-        lastLoginAt: row.last_login_at
+        role: row.role,
+        lastLoginAt: row.last_login_at,
+        emailVerifiedAt: row.email_verified_at || undefined,
+        twoFactorEnabledAt: row.two_factor_enabled_at || undefined
       }));
     } finally {
       client.release();
     }
   }
-}
\ No newline at end of file
+}
@@ -1,19 +1,64 @@
 import { db } from '../config/database';
 import { PoolClient } from 'pg';
+import { NotificationFrequency, NOTIFICATION_FREQUENCIES } from './NotificationPreference';
+import { STOCK_ACT_FILING_WINDOW_DAYS } from './StockTrade';
+import { Committee } from './Committee';
+import { ValidationError } from '../middleware/errors';
 
 export type AlertType = 'politician' | 'stock' | 'pattern';
 export type AlertStatus = 'active' | 'paused' | 'deleted';
 
+export type PatternTimeFrame = '1h' | '24h' | '7d' | '30d';
+export type Chamber = 'senate' | 'house';
+export type ClusterConditionType = 'member_cluster' | 'first_sector_trade' | 'committee_selloff';
+
+/**
+ * Condition evaluated over a sliding window of trades rather than one trade:
+ * - member_cluster: minMembers distinct members trading the same ticker within windowDays
+ * - first_sector_trade: a member's first-ever trade in the stock's sector
+ * - committee_selloff: minMembers members of a committee selling within windowDays
+ * The pattern's other criteria decide which trades count towards it.
+ */
+export interface ClusterCondition {
+  type: ClusterConditionType;
+  minMembers?: number;
+  windowDays?: number;
+  committee?: string; // committee code, required for committee_selloff
+}
+
 export interface PatternConfig {
   minValue?: number;
   maxValue?: number;
   transactionType?: 'buy' | 'sell' | 'exchange';
-  timeFrame?: '1h' | '24h' | '7d' | '30d';
-  // Additional pattern criteria can be added here
+  // Window for minTrades / minTotalValue, ending on the trade's transaction date
+  timeFrame?: PatternTimeFrame;
+  minTrades?: number;
+  minTotalValue?: number;
+  // Matched case-insensitively against the asset description and company name
   keywords?: string[];
   sectors?: string[];
+  // Member criteria; a pattern using any of these only matches congressional trades
+  parties?: Array<'democratic' | 'republican' | 'independent' | 'other'>;
+  states?: string[];
+  chambers?: Chamber[];
+  // Only trades disclosed after the STOCK Act filing window
+  lateFiling?: boolean;
+  cluster?: ClusterCondition;
 }
 
+export const PATTERN_TIME_FRAMES: PatternTimeFrame[] = ['1h', '24h', '7d', '30d'];
+const PATTERN_PARTIES = ['democratic', 'republican', 'independent', 'other'];
+const PATTERN_CHAMBERS: Chamber[] = ['senate', 'house'];
+const CLUSTER_CONDITION_TYPES: ClusterConditionType[] = ['member_cluster', 'first_sector_trade', 'committee_selloff'];
+const MAX_CLUSTER_WINDOW_DAYS = 365;
+
+export const DEFAULT_CLUSTER_MIN_MEMBERS = 3;
+export const DEFAULT_CLUSTER_WINDOW_DAYS: Record<ClusterConditionType, number> = {
+  member_cluster: 7,
+  first_sector_trade: 0,
+  committee_selloff: 30
+};
+
 export interface UserAlertData {
   id?: string;
   userId: string;
@@ -22,6 +67,10 @@ export interface UserAlertData {
   politicianId?: string;
   tickerSymbol?: string;
   patternConfig?: PatternConfig;
+  // Overrides the user's notification frequency for this alert
+  digestFrequency?: NotificationFrequency;
+  // Also notify when a matching trade is amended or withdrawn
+  notifyOnAmendments?: boolean;
   createdAt?: Date;
   updatedAt?: Date;
   lastTriggeredAt?: Date;
@@ -34,6 +83,8 @@ export interface CreateUserAlertData {
   politicianId?: string;
   tickerSymbol?: string;
   patternConfig?: PatternConfig;
+  digestFrequency?: NotificationFrequency | null;
+  notifyOnAmendments?: boolean;
 }
 
 export interface UserAlertFilters {
@@ -68,6 +119,8 @@ export class UserAlert {
   politicianId?: string;
   tickerSymbol?: string;
   patternConfig?: PatternConfig;
+  digestFrequency?: NotificationFrequency;
+  notifyOnAmendments: boolean;
   createdAt?: Date;
   updatedAt?: Date;
   lastTriggeredAt?: Date;
@@ -80,6 +133,8 @@ export class UserAlert {
     this.politicianId = data.politicianId;
     this.tickerSymbol = data.tickerSymbol?.toUpperCase();
     this.patternConfig = data.patternConfig;
+    this.digestFrequency = data.digestFrequency;
+    this.notifyOnAmendments = data.notifyOnAmendments ?? false;
     this.createdAt = data.createdAt;
     this.updatedAt = data.updatedAt;
     this.lastTriggeredAt = data.lastTriggeredAt;
@@ -101,6 +156,9 @@ export class UserAlert {
 
     // Validate type-specific requirements
     await UserAlert.validateAlertData(alertData);
+    if (alertData.digestFrequency) {
+      UserAlert.validateDigestFrequency(alertData.digestFrequency);
+    }
 
     const client = await db.connect();
     try {
@@ -120,8 +178,9 @@ export class UserAlert {
       // Insert new user alert
       const result = await client.query(
         `INSERT INTO user_alerts 
-         (user_id, alert_type, alert_status, politician_id, ticker_symbol, pattern_config)
-         VALUES ($1, $2, $3, $4, $5, $6)
+         (user_id, alert_type, alert_status, politician_id, ticker_symbol, pattern_config, digest_frequency,
+          notify_on_amendments)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
          RETURNING *`,
         [
           alertData.userId,
@@ -129,7 +188,9 @@ export class UserAlert {
           alertData.alertStatus || 'active',
           alertData.politicianId || null,
           alertData.tickerSymbol?.toUpperCase() || null,
-          alertData.patternConfig ? JSON.stringify(alertData.patternConfig) : null
+          alertData.patternConfig ? JSON.stringify(alertData.patternConfig) : null,
+          alertData.digestFrequency || null,
+          alertData.notifyOnAmendments ?? false
         ]
       );
 
@@ -142,6 +203,8 @@ export class UserAlert {
         politicianId: alertRow.politician_id,
         tickerSymbol: alertRow.ticker_symbol,
         patternConfig: alertRow.pattern_config,
+        digestFrequency: alertRow.digest_frequency || undefined,
+        notifyOnAmendments: alertRow.notify_on_amendments,
         createdAt: alertRow.created_at,
         updatedAt: alertRow.updated_at,
         lastTriggeredAt: alertRow.last_triggered_at
@@ -190,6 +253,12 @@ export class UserAlert {
     }
   }
 
+  private static validateDigestFrequency(frequency: NotificationFrequency): void {
+    if (!NOTIFICATION_FREQUENCIES.includes(frequency)) {
+      throw new Error(`Digest frequency must be one of: ${NOTIFICATION_FREQUENCIES.join(', ')}`);
+    }
+  }
+
   /**
    * Validate pattern configuration
    */
@@ -211,9 +280,101 @@ export class UserAlert {
       throw new Error('Transaction type must be "buy", "sell", or "exchange"');
     }
 
-    if (config.timeFrame && !['1h', '24h', '7d', '30d'].includes(config.timeFrame)) {
+    if (config.timeFrame && !PATTERN_TIME_FRAMES.includes(config.timeFrame)) {
       throw new Error('Time frame must be "1h", "24h", "7d", or "30d"');
     }
+
+    if (config.minTrades !== undefined && (!Number.isInteger(config.minTrades) || config.minTrades < 1)) {
+      throw new Error('Minimum trade count must be a positive integer');
+    }
+
+    if (config.minTotalValue !== undefined && config.minTotalValue < 0) {
+      throw new Error('Minimum total value cannot be negative');
+    }
+
+    if ((config.minTrades !== undefined || config.minTotalValue !== undefined) && !config.timeFrame) {
+      throw new Error('A time frame is required for minimum trade count or total value');
+    }
+
+    const lists: Array<[keyof PatternConfig, string]> = [
+      ['keywords', 'Keywords'],
+      ['sectors', 'Sectors'],
+      ['parties', 'Parties'],
+      ['states', 'States'],
+      ['chambers', 'Chambers']
+    ];
+    for (const [key, label] of lists) {
+      const value = config[key];
+      if (value !== undefined && (!Array.isArray(value) || value.some(item => typeof item !== 'string' || !item.trim()))) {
+        throw new Error(`${label} must be a list of non-empty strings`);
+      }
+    }
+
+    if (config.parties && config.parties.some(party => !PATTERN_PARTIES.includes(party))) {
+      throw new Error('Parties must be "democratic", "republican", "independent", or "other"');
+    }
+
+    if (config.chambers && config.chambers.some(chamber => !PATTERN_CHAMBERS.includes(chamber))) {
+      throw new Error('Chambers must be "senate" or "house"');
+    }
+
+    if (config.states && config.states.some(state => !/^[A-Za-z]{2}$/.test(state))) {
+      throw new Error('States must be two-letter state codes');
+    }
+
+    if (config.lateFiling !== undefined && typeof config.lateFiling !== 'boolean') {
+      throw new Error('Late filing must be true or false');
+    }
+
+    if (config.cluster !== undefined) {
+      UserAlert.validateClusterCondition(config);
+    }
+  }
+
+  /**
+   * Validate a pattern's cluster condition
+   */
+  private static validateClusterCondition(config: PatternConfig): void {
+    const cluster = config.cluster!;
+
+    if (!cluster || typeof cluster !== 'object' || !CLUSTER_CONDITION_TYPES.includes(cluster.type)) {
+      throw new ValidationError('Cluster type must be "member_cluster", "first_sector_trade", or "committee_selloff"');
+    }
+
+    if (config.minTrades !== undefined || config.minTotalValue !== undefined) {
+      throw new ValidationError('Cluster conditions cannot be combined with minimum trade count or total value');
+    }
+
+    if (cluster.minMembers !== undefined && (!Number.isInteger(cluster.minMembers) || cluster.minMembers < 2)) {
+      throw new ValidationError('Cluster minimum members must be an integer of at least 2');
+    }
+
+    if (cluster.windowDays !== undefined &&
+        (!Number.isInteger(cluster.windowDays) || cluster.windowDays < 1 || cluster.windowDays > MAX_CLUSTER_WINDOW_DAYS)) {
+      throw new ValidationError(`Cluster window must be between 1 and ${MAX_CLUSTER_WINDOW_DAYS} days`);
+    }
+
+    if (cluster.type === 'committee_selloff' && (typeof cluster.committee !== 'string' || !cluster.committee.trim())) {
+      throw new ValidationError('A committee code is required for committee selloff alerts');
+    }
+
+    if (cluster.type === 'committee_selloff' && config.transactionType && config.transactionType !== 'sell') {
+      throw new ValidationError('Committee selloff alerts only count sell transactions');
+    }
+  }
+
+  /**
+   * Committee selloff alerts need a committee whose roster has been imported
+   */
+  private static async validateCommitteeExists(config?: PatternConfig | null): Promise<void> {
+    const cluster = config?.cluster;
+    if (cluster?.type !== 'committee_selloff') {
+      return;
+    }
+
+    if (!(await Committee.findByCode(cluster.committee!))) {
+      throw new ValidationError(`Unknown committee code "${cluster.committee}"`);
+    }
   }
 
   /**
@@ -244,6 +405,8 @@ export class UserAlert {
         throw new Error('Stock ticker does not exist');
       }
     }
+
+    await UserAlert.validateCommitteeExists(alertData.patternConfig);
   }
 
   /**
@@ -267,6 +430,8 @@ export class UserAlert {
       politicianId: result.politician_id,
       tickerSymbol: result.ticker_symbol,
       patternConfig: result.pattern_config,
+      digestFrequency: result.digest_frequency || undefined,
+      notifyOnAmendments: result.notify_on_amendments,
       createdAt: result.created_at,
       updatedAt: result.updated_at,
       lastTriggeredAt: result.last_triggered_at
@@ -350,6 +515,8 @@ export class UserAlert {
         politicianId: row.politician_id,
         tickerSymbol: row.ticker_symbol,
         patternConfig: row.pattern_config,
+        digestFrequency: row.digest_frequency || undefined,
+        notifyOnAmendments: row.notify_on_amendments,
         createdAt: row.created_at,
         updatedAt: row.updated_at,
         lastTriggeredAt: row.last_triggered_at,
@@ -445,6 +612,8 @@ export class UserAlert {
         politicianId: row.politician_id,
         tickerSymbol: row.ticker_symbol,
         patternConfig: row.pattern_config,
+        digestFrequency: row.digest_frequency || undefined,
+        notifyOnAmendments: row.notify_on_amendments,
         createdAt: row.created_at,
         updatedAt: row.updated_at,
         lastTriggeredAt: row.last_triggered_at
@@ -501,11 +670,25 @@ export class UserAlert {
       }
       if (updates.patternConfig) {
         UserAlert.validatePatternConfig(updates.patternConfig);
+        await UserAlert.validateCommitteeExists(updates.patternConfig);
       }
       fields.push(`pattern_config = $${paramCounter++}`);
       values.push(updates.patternConfig ? JSON.stringify(updates.patternConfig) : null);
     }
 
+    if (updates.digestFrequency !== undefined) {
+      if (updates.digestFrequency) {
+        UserAlert.validateDigestFrequency(updates.digestFrequency);
+      }
+      fields.push(`digest_frequency = $${paramCounter++}`);
+      values.push(updates.digestFrequency || null);
+    }
+
+    if (updates.notifyOnAmendments !== undefined) {
+      fields.push(`notify_on_amendments = $${paramCounter++}`);
+      values.push(updates.notifyOnAmendments);
+    }
+
     if (fields.length === 0) {
       return;
     }
@@ -525,6 +708,8 @@ export class UserAlert {
       if (updates.politicianId !== undefined) this.politicianId = updates.politicianId;
       if (updates.tickerSymbol !== undefined) this.tickerSymbol = updates.tickerSymbol?.toUpperCase();
       if (updates.patternConfig !== undefined) this.patternConfig = updates.patternConfig;
+      if (updates.digestFrequency !== undefined) this.digestFrequency = updates.digestFrequency || undefined;
+      if (updates.notifyOnAmendments !== undefined) this.notifyOnAmendments = updates.notifyOnAmendments;
       this.updatedAt = new Date();
     } finally {
       client.release();
@@ -605,7 +790,9 @@ export class UserAlert {
   }
 
   /**
-   * Check if trade matches pattern criteria
+   * Check if trade matches the pattern's value and transaction type criteria.
+   * Sector, member, keyword and time-frame criteria need the trade's stock and
+   * member data and are evaluated by AlertService.
    */
   private matchesPattern(tradeData: {
     transactionType: 'buy' | 'sell' | 'exchange';
@@ -633,24 +820,13 @@ export class UserAlert {
       }
     }
 
-    // Check time frame
-    if (config.timeFrame) {
-      const now = new Date();
-      const timeFrameMs = this.getTimeFrameMs(config.timeFrame);
-      const cutoffTime = new Date(now.getTime() - timeFrameMs);
-      
-      if (tradeData.transactionDate < cutoffTime) {
-        return false;
-      }
-    }
-
     return true;
   }
 
   /**
    * Convert time frame to milliseconds
    */
-  private getTimeFrameMs(timeFrame: string): number {
+  static getTimeFrameMs(timeFrame: string): number {
     switch (timeFrame) {
       case '1h': return 60 * 60 * 1000;
       case '24h': return 24 * 60 * 60 * 1000;
@@ -687,6 +863,10 @@ export class UserAlert {
     const parts: string[] = [];
     const config = this.patternConfig;
 
+    if (config.cluster) {
+      parts.push(UserAlert.getClusterDescription(config.cluster));
+    }
+
     if (config.transactionType) {
       parts.push(`${config.transactionType} transactions`);
     }
@@ -701,6 +881,38 @@ export class UserAlert {
       }
     }
 
+    if (config.sectors?.length) {
+      parts.push(`in ${config.sectors.join('/')}`);
+    }
+
+    if (config.parties?.length) {
+      parts.push(`by ${config.parties.join('/')} members`);
+    }
+
+    if (config.chambers?.length) {
+      parts.push(`in the ${config.chambers.join('/')}`);
+    }
+
+    if (config.states?.length) {
+      parts.push(`from ${config.states.map(state => state.toUpperCase()).join('/')}`);
+    }
+
+    if (config.lateFiling) {
+      parts.push(`filed more than ${STOCK_ACT_FILING_WINDOW_DAYS} days late`);
+    }
+
+    if (config.keywords?.length) {
+      parts.push(`mentioning ${config.keywords.map(keyword => `"${keyword}"`).join(' or ')}`);
+    }
+
+    if (config.minTrades !== undefined) {
+      parts.push(`at least ${config.minTrades} trades`);
+    }
+
+    if (config.minTotalValue !== undefined) {
+      parts.push(`totaling at least $${config.minTotalValue.toLocaleString()}`);
+    }
+
     if (config.timeFrame) {
       parts.push(`within ${config.timeFrame}`);
     }
@@ -708,6 +920,24 @@ export class UserAlert {
     return parts.length > 0 ? parts.join(', ') : 'Pattern alert';
   }
 
+  /**
+   * Describe a cluster condition for display
+   */
+  private static getClusterDescription(cluster: ClusterCondition): string {
+    switch (cluster.type) {
+      case 'member_cluster':
+        return `${cluster.minMembers ?? DEFAULT_CLUSTER_MIN_MEMBERS}+ members trading the same stock within ` +
+          `${cluster.windowDays ?? DEFAULT_CLUSTER_WINDOW_DAYS.member_cluster} days`;
+      case 'first_sector_trade':
+        return `a member's first trade in a sector`;
+      case 'committee_selloff':
+        return `${cluster.minMembers ?? DEFAULT_CLUSTER_MIN_MEMBERS}+ ${cluster.committee} committee members selling within ` +
+          `${cluster.windowDays ?? DEFAULT_CLUSTER_WINDOW_DAYS.committee_selloff} days`;
+      default:
+        return 'cluster condition';
+    }
+  }
+
   /**
    * Check if alert is active
    */
@@ -767,6 +997,8 @@ export class UserAlert {
       politicianId: this.politicianId,
       tickerSymbol: this.tickerSymbol,
       patternConfig: this.patternConfig,
+      digestFrequency: this.digestFrequency,
+      notifyOnAmendments: this.notifyOnAmendments,
       createdAt: this.createdAt,
       updatedAt: this.updatedAt,
       lastTriggeredAt: this.lastTriggeredAt
@@ -0,0 +1,227 @@
+import crypto from 'crypto';
+import { PoolClient } from 'pg';
+import { db } from '../config/database';
+
+export type SessionRevokedReason = 'logout' | 'user_revoked' | 'password_change' | 'token_reuse';
+
+export interface SessionContext {
+  userAgent?: string;
+  ipAddress?: string;
+}
+
+export interface UserSessionData {
+  id: string;
+  userId: string;
+  userAgent?: string;
+  ipAddress?: string;
+  createdAt: Date;
+  lastSeenAt: Date;
+  expiresAt: Date;
+  revokedAt?: Date;
+  revokedReason?: SessionRevokedReason;
+}
+
+/**
+ * Outcome of exchanging a refresh token. 'reused' means the token had
+ * already been exchanged, so the session has been revoked.
+ */
+export type RefreshTokenRotation =
+  | { status: 'rotated'; session: UserSession; refreshToken: string }
+  | { status: 'reused'; session: UserSession }
+  | { status: 'invalid' };
+
+const hashToken = (token: string): string =>
+  crypto.createHash('sha256').update(token).digest('hex');
+
+const generateToken = (): string => crypto.randomBytes(48).toString('base64url');
+
+export class UserSession {
+  id: string;
+  userId: string;
+  userAgent?: string;
+  ipAddress?: string;
+  createdAt: Date;
+  lastSeenAt: Date;
+  expiresAt: Date;
+  revokedAt?: Date;
+  revokedReason?: SessionRevokedReason;
+
+  constructor(data: UserSessionData) {
+    this.id = data.id;
+    this.userId = data.userId;
+    this.userAgent = data.userAgent;
+    this.ipAddress = data.ipAddress;
+    this.createdAt = data.createdAt;
+    this.lastSeenAt = data.lastSeenAt;
+    this.expiresAt = data.expiresAt;
+    this.revokedAt = data.revokedAt;
+    this.revokedReason = data.revokedReason;
+  }
+
+  /**
+   * Start a session and issue its first refresh token. The plaintext token
+   * is only returned here; just its hash is stored.
+   */
+  static async create(
+    userId: string,
+    context: SessionContext,
+    ttlDays: number
+  ): Promise<{ session: UserSession; refreshToken: string }> {
+    return db.transaction(async (client) => {
+      const result = await client.query(
+        `INSERT INTO user_sessions (user_id, user_agent, ip_address, expires_at)
+         VALUES ($1, $2, $3, NOW() + make_interval(days => $4))
+         RETURNING *`,
+        [userId, context.userAgent?.slice(0, 500) || null, context.ipAddress || null, ttlDays]
+      );
+      const session = UserSession.fromRow(result.rows[0]);
+      const refreshToken = await UserSession.issueRefreshToken(client, session.id);
+
+      return { session, refreshToken };
+    });
+  }
+
+  /**
+   * Exchange a refresh token for a new one. Each token works once; presenting
+   * a token that was already exchanged means it leaked, so the whole session
+   * is revoked.
+   */
+  static async rotate(
+    refreshToken: string,
+    context: SessionContext,
+    ttlDays: number
+  ): Promise<RefreshTokenRotation> {
+    return db.transaction(async (client): Promise<RefreshTokenRotation> => {
+      const tokenResult = await client.query(
+        `SELECT rt.id AS token_id, rt.rotated_at, s.*
+         FROM refresh_tokens rt
+         JOIN user_sessions s ON s.id = rt.session_id
+         WHERE rt.token_hash = $1
+         FOR UPDATE OF rt, s`,
+        [hashToken(refreshToken)]
+      );
+
+      if (tokenResult.rows.length === 0) {
+        return { status: 'invalid' };
+      }
+
+      const row = tokenResult.rows[0];
+      const session = UserSession.fromRow(row);
+
+      if (session.revokedAt || new Date(session.expiresAt) <= new Date()) {
+        return { status: 'invalid' };
+      }
+
+      if (row.rotated_at) {
+        await session.revoke('token_reuse', client);
+        return { status: 'reused', session };
+      }
+
+      await client.query('UPDATE refresh_tokens SET rotated_at = NOW() WHERE id = $1', [row.token_id]);
+
+      const updated = await client.query(
+        `UPDATE user_sessions SET
+           last_seen_at = NOW(),
+           expires_at = NOW() + make_interval(days => $2),
+           user_agent = COALESCE($3, user_agent),
+           ip_address = COALESCE($4, ip_address)
+         WHERE id = $1
+         RETURNING *`,
+        [session.id, ttlDays, context.userAgent?.slice(0, 500) || null, context.ipAddress || null]
+      );
+
+      return {
+        status: 'rotated',
+        session: UserSession.fromRow(updated.rows[0]),
+        refreshToken: await UserSession.issueRefreshToken(client, session.id)
+      };
+    });
+  }
+
+  /**
+   * A session that hasn't been revoked or expired
+   */
+  static async findActiveById(id: string): Promise<UserSession | null> {
+    const result = await db.query(
+      `SELECT * FROM user_sessions
+       WHERE id = $1 AND revoked_at IS NULL AND expires_at > NOW()`,
+      [id]
+    );
+    return result.rows.length > 0 ? UserSession.fromRow(result.rows[0]) : null;
+  }
+
+  /**
+   * A user's active sessions, most recently seen first
+   */
+  static async findActiveByUser(userId: string): Promise<UserSession[]> {
+    const result = await db.query(
+      `SELECT * FROM user_sessions
+       WHERE user_id = $1 AND revoked_at IS NULL AND expires_at > NOW()
+       ORDER BY last_seen_at DESC`,
+      [userId]
+    );
+    return result.rows.map(row => UserSession.fromRow(row));
+  }
+
+  /**
+   * Revoke every active session a user has, optionally sparing one
+   */
+  static async revokeAllForUser(
+    userId: string,
+    reason: SessionRevokedReason,
+    exceptSessionId?: string
+  ): Promise<number> {
+    const result = await db.query(
+      `UPDATE user_sessions SET revoked_at = NOW(), revoked_reason = $2
+       WHERE user_id = $1 AND revoked_at IS NULL AND ($3::uuid IS NULL OR id != $3::uuid)`,
+      [userId, reason, exceptSessionId || null]
+    );
+    return result.rowCount || 0;
+  }
+
+  async revoke(reason: SessionRevokedReason, client?: PoolClient): Promise<void> {
+    const sql = `UPDATE user_sessions SET revoked_at = COALESCE(revoked_at, NOW()), revoked_reason = COALESCE(revoked_reason, $2)
+       WHERE id = $1
+       RETURNING revoked_at, revoked_reason`;
+    const params = [this.id, reason];
+    const result = client ? await client.query(sql, params) : await db.query(sql, params);
+    this.revokedAt = result.rows[0]?.revoked_at;
+    this.revokedReason = result.rows[0]?.revoked_reason;
+  }
+
+  toJSON(): Omit<UserSessionData, 'revokedReason'> {
+    return {
+      id: this.id,
+      userId: this.userId,
+      userAgent: this.userAgent,
+      ipAddress: this.ipAddress,
+      createdAt: this.createdAt,
+      lastSeenAt: this.lastSeenAt,
+      expiresAt: this.expiresAt,
+      revokedAt: this.revokedAt
+    };
+  }
+
+  private static async issueRefreshToken(client: PoolClient, sessionId: string): Promise<string> {
+    const refreshToken = generateToken();
+    await client.query(
+      'INSERT INTO refresh_tokens (session_id, token_hash) VALUES ($1, $2)',
+      [sessionId, hashToken(refreshToken)]
+    );
+    return refreshToken;
+  }
+
+  private static fromRow(row: any): UserSession {
+    return new UserSession({
+      id: row.id,
+      userId: row.user_id,
+      userAgent: row.user_agent || undefined,
+      ipAddress: row.ip_address || undefined,
+      createdAt: row.created_at,
+      lastSeenAt: row.last_seen_at,
+      expiresAt: row.expires_at,
+      revokedAt: row.revoked_at || undefined,
+      revokedReason: row.revoked_reason || undefined
+    });
+  }
+}
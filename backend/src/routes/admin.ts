@@ -0,0 +1,94 @@
+import { Router } from 'express';
+import { AdminController } from '../controllers/AdminController';
+import { authenticate, requireAdmin } from '../middleware/auth';
+import { rateLimiters } from '../middleware/rateLimit';
+
+const router = Router();
+
+// All admin routes require an authenticated administrator
+
+router.post('/traders/merge/preview',
+  authenticate,
+  requireAdmin,
+  rateLimiters.admin,
+  AdminController.previewTraderMerge
+);
+
+router.post('/traders/merge',
+  authenticate,
+  requireAdmin,
+  rateLimiters.admin,
+  AdminController.mergeTraders
+);
+
+router.post('/traders/split',
+  authenticate,
+  requireAdmin,
+  rateLimiters.admin,
+  AdminController.splitTrader
+);
+
+router.get('/traders/corrections',
+  authenticate,
+  requireAdmin,
+  rateLimiters.admin,
+  AdminController.getTraderCorrections
+);
+
+router.get('/traders/corrections/:id',
+  authenticate,
+  requireAdmin,
+  rateLimiters.admin,
+  AdminController.getTraderCorrectionById
+);
+
+router.post('/traders/corrections/:id/undo',
+  authenticate,
+  requireAdmin,
+  rateLimiters.admin,
+  AdminController.undoTraderCorrection
+);
+
+router.post('/trades/import',
+  authenticate,
+  requireAdmin,
+  rateLimiters.admin,
+  AdminController.importTrades
+);
+
+router.post('/trades/:id/withdraw',
+  authenticate,
+  requireAdmin,
+  rateLimiters.admin,
+  AdminController.withdrawTrade
+);
+
+router.get('/users',
+  authenticate,
+  requireAdmin,
+  rateLimiters.admin,
+  AdminController.getUsers
+);
+
+router.put('/users/:id/role',
+  authenticate,
+  requireAdmin,
+  rateLimiters.admin,
+  AdminController.updateUserRole
+);
+
+router.get('/settings',
+  authenticate,
+  requireAdmin,
+  rateLimiters.admin,
+  AdminController.getSettings
+);
+
+router.put('/settings',
+  authenticate,
+  requireAdmin,
+  rateLimiters.admin,
+  AdminController.updateSettings
+);
+
+export { router as adminRoutes };
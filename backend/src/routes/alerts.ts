@@ -1,6 +1,6 @@
 import { Router } from 'express';
 import { AlertController } from '../controllers/AlertController';
-import { authenticate } from '../middleware/auth';
+import { authenticate, allowApiKeys } from '../middleware/auth';
 import { validationRules } from '../middleware/validation';
 import { rateLimiters } from '../middleware/rateLimit';
 
@@ -9,60 +9,77 @@ const router = Router();
 // All alert routes require authentication
 
 router.post('/', 
+  allowApiKeys('manage:alerts'),
   authenticate,
   rateLimiters.alerts,
   AlertController.createAlert
 );
 
 router.get('/', 
+  allowApiKeys('manage:alerts'),
   authenticate,
   rateLimiters.alerts,
   AlertController.getUserAlerts
 );
 
 router.get('/summary', 
+  allowApiKeys('manage:alerts'),
   authenticate,
   rateLimiters.alerts,
   AlertController.getAlertSummary
 );
 
 router.get('/notifications', 
+  allowApiKeys('manage:alerts'),
   authenticate,
   rateLimiters.alerts,
   AlertController.getAlertNotifications
 );
 
+router.get('/digests', 
+  allowApiKeys('manage:alerts'),
+  authenticate,
+  rateLimiters.alerts,
+  AlertController.getAlertDigests
+);
+
 router.get('/preferences', 
+  allowApiKeys('manage:alerts'),
   authenticate,
   rateLimiters.alerts,
   AlertController.getNotificationPreferences
 );
 
 router.put('/preferences', 
+  allowApiKeys('manage:alerts'),
   authenticate,
   rateLimiters.alerts,
   AlertController.updateNotificationPreferences
 );
 
 router.get('/:id', 
+  allowApiKeys('manage:alerts'),
   authenticate,
   rateLimiters.alerts,
   AlertController.getAlertById
 );
 
 router.put('/:id', 
+  allowApiKeys('manage:alerts'),
   authenticate,
   rateLimiters.alerts,
   AlertController.updateAlert
 );
 
 router.delete('/:id', 
+  allowApiKeys('manage:alerts'),
   authenticate,
   rateLimiters.modify,
   AlertController.deleteAlert
 );
 
 router.put('/notifications/:id/read', 
+  allowApiKeys('manage:alerts'),
   authenticate,
   rateLimiters.alerts,
   AlertController.markNotificationRead
@@ -1,64 +1,100 @@
 import { Router } from 'express';
 import { AnalyticsController } from '../controllers/AnalyticsController';
-import { authenticate, optionalAuthenticate } from '../middleware/auth';
-import { rateLimiters } from '../middleware/rateLimit';
+import { authenticate, optionalAuthenticate, allowApiKeys } from '../middleware/auth';
+import { rateLimiters, tieredRateLimiters } from '../middleware/rateLimit';
 
 const router = Router();
 
 // Analytics routes are mostly public but may have enhanced features for authenticated users
+// API keys need the read:analytics scope. Requests are limited per IP before
+// authentication, then per user or API key after it.
 
 router.get('/portfolio/:traderId', 
+  allowApiKeys('read:analytics'),
   rateLimiters.data,
   optionalAuthenticate,
+  tieredRateLimiters.dataAccess,
   AnalyticsController.getPortfolioConcentration
 );
 
 router.get('/patterns/:traderId', 
+  allowApiKeys('read:analytics'),
   rateLimiters.data,
   optionalAuthenticate,
+  tieredRateLimiters.dataAccess,
   AnalyticsController.getTradingPatterns
 );
 
 router.get('/market-trends', 
+  allowApiKeys('read:analytics'),
   rateLimiters.data,
   optionalAuthenticate,
+  tieredRateLimiters.dataAccess,
   AnalyticsController.getMarketTrends
 );
 
 router.get('/compare/:traderAId/:traderBId', 
+  allowApiKeys('read:analytics'),
   rateLimiters.data,
   optionalAuthenticate,
+  tieredRateLimiters.dataAccess,
   AnalyticsController.compareTraders
 );
 
 router.get('/benchmarks', 
+  allowApiKeys('read:analytics'),
   rateLimiters.data,
   optionalAuthenticate,
+  tieredRateLimiters.dataAccess,
   AnalyticsController.getPerformanceBenchmarks
 );
 
 router.get('/rankings', 
+  allowApiKeys('read:analytics'),
   rateLimiters.data,
   optionalAuthenticate,
+  tieredRateLimiters.dataAccess,
   AnalyticsController.getTraderRankings
 );
 
 router.get('/sectors', 
+  allowApiKeys('read:analytics'),
   rateLimiters.data,
   optionalAuthenticate,
+  tieredRateLimiters.dataAccess,
   AnalyticsController.getSectorAnalysis
 );
 
 router.get('/correlation', 
+  allowApiKeys('read:analytics'),
   rateLimiters.data,
   optionalAuthenticate,
+  tieredRateLimiters.dataAccess,
   AnalyticsController.getCorrelationAnalysis
 );
 
 router.get('/risk/:traderId', 
+  allowApiKeys('read:analytics'),
   rateLimiters.data,
   optionalAuthenticate,
+  tieredRateLimiters.dataAccess,
   AnalyticsController.getRiskAssessment
 );
 
+router.get('/late-filers', 
+  allowApiKeys('read:analytics'),
+  rateLimiters.data,
+  optionalAuthenticate,
+  tieredRateLimiters.dataAccess,
+  AnalyticsController.getLateFilers
+);
+
+router.get('/asset-classes', 
+  allowApiKeys('read:analytics'),
+  rateLimiters.data,
+  optionalAuthenticate,
+  tieredRateLimiters.dataAccess,
+  AnalyticsController.getAssetClasses
+);
+
 export { router as analyticsRoutes };
\ No newline at end of file
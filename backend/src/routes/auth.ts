@@ -1,5 +1,7 @@
 import { Router } from 'express';
 import { AuthController } from '../controllers/AuthController';
+import { ApiKeyController } from '../controllers/ApiKeyController';
+import { TwoFactorController } from '../controllers/TwoFactorController';
 import { authenticate, optionalAuthenticate } from '../middleware/auth';
 import { validationRules } from '../middleware/validation';
 import { rateLimiters } from '../middleware/rateLimit';
@@ -19,6 +21,11 @@ router.post('/login',
   AuthController.login
 );
 
+router.post('/refresh',
+  rateLimiters.auth,
+  AuthController.refresh
+);
+
 router.post('/password/reset-request', 
   rateLimiters.passwordReset,
   AuthController.requestPasswordReset
@@ -29,12 +36,23 @@ router.post('/password/reset',
   AuthController.resetPassword
 );
 
+router.post('/email/verify',
+  rateLimiters.auth,
+  AuthController.verifyEmail
+);
+
 // Protected routes (authentication required)
 router.get('/verify', 
   authenticate,
   AuthController.verifyToken
 );
 
+router.post('/email/verify/resend',
+  authenticate,
+  rateLimiters.passwordReset,
+  AuthController.resendEmailVerification
+);
+
 router.put('/profile', 
   authenticate,
   ...validationRules.updateProfile,
@@ -54,4 +72,75 @@ router.delete('/account',
   AuthController.deactivateAccount
 );
 
+// Login sessions
+router.post('/logout',
+  authenticate,
+  AuthController.logout
+);
+
+router.get('/sessions',
+  authenticate,
+  AuthController.getSessions
+);
+
+router.delete('/sessions',
+  authenticate,
+  rateLimiters.modify,
+  AuthController.revokeAllSessions
+);
+
+router.delete('/sessions/:id',
+  authenticate,
+  rateLimiters.modify,
+  AuthController.revokeSession
+);
+
+// Personal API keys; managed with a session, never with another API key
+router.get('/api-keys',
+  authenticate,
+  ApiKeyController.getApiKeys
+);
+
+router.post('/api-keys',
+  authenticate,
+  rateLimiters.modify,
+  ApiKeyController.createApiKey
+);
+
+router.delete('/api-keys/:id',
+  authenticate,
+  rateLimiters.modify,
+  ApiKeyController.revokeApiKey
+);
+
+// Two-factor authentication; failed codes count against the auth rate limit
+router.get('/2fa',
+  authenticate,
+  TwoFactorController.getStatus
+);
+
+router.post('/2fa/setup',
+  authenticate,
+  rateLimiters.modify,
+  TwoFactorController.startEnrollment
+);
+
+router.post('/2fa/enable',
+  authenticate,
+  rateLimiters.auth,
+  TwoFactorController.confirmEnrollment
+);
+
+router.post('/2fa/disable',
+  authenticate,
+  rateLimiters.auth,
+  TwoFactorController.disable
+);
+
+router.post('/2fa/recovery-codes',
+  authenticate,
+  rateLimiters.auth,
+  TwoFactorController.regenerateRecoveryCodes
+);
+
 export { router as authRoutes };
\ No newline at end of file
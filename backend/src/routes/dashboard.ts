@@ -1,6 +1,7 @@
 import { Router } from 'express';
 import { DashboardController } from '../controllers/DashboardController';
 import { rateLimit } from 'express-rate-limit';
+import { authenticate, requireAdmin } from '../middleware/auth';
 
 const router = Router();
 const dashboardController = new DashboardController();
@@ -54,11 +55,12 @@ router.get(
 /**
  * @route POST /api/v1/dashboard/cache/invalidate
  * @desc Invalidate dashboard metrics cache
- * @access Internal/Admin (should be protected in production)
+ * @access Admin
  */
 router.post(
   '/cache/invalidate',
-  // TODO: Add authentication middleware for production
+  authenticate,
+  requireAdmin,
   dashboardController.invalidateCache.bind(dashboardController)
 );
 
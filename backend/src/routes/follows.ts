@@ -1,6 +1,6 @@
 import { Router } from 'express';
 import { FollowController } from '../controllers/FollowController';
-import { authenticate } from '../middleware/auth';
+import { authenticate, requireBillingAccess } from '../middleware/auth';
 import { rateLimiters } from '../middleware/rateLimit';
 
 const router = Router();
@@ -31,9 +31,11 @@ router.get('/billing',
   FollowController.calculateBilling
 );
 
+// Charges every user's follows, so only administrators may run it
 router.post('/billing/process', 
   authenticate,
-  rateLimiters.modify,
+  requireBillingAccess,
+  rateLimiters.admin,
   FollowController.processMonthlyBilling
 );
 
@@ -9,6 +9,7 @@ import { dashboardRoutes } from './dashboard';
 import memberRoutes from './members';
 import stockRoutes from './stocks';
 import syncRoutes from './sync';
+import { adminRoutes } from './admin';
 
 const router = Router();
 
@@ -23,6 +24,7 @@ router.use('/follows', followRoutes);
 router.use('/analytics', analyticsRoutes);
 router.use('/dashboard', dashboardRoutes);
 router.use('/sync', syncRoutes);
+router.use('/admin', adminRoutes);
 
 // Health check endpoint
 router.get('/health', (req, res) => {
@@ -48,7 +50,8 @@ router.get('/', (req, res) => {
       alerts: '/api/v1/alerts',
       follows: '/api/v1/follows',
       analytics: '/api/v1/analytics',
-      dashboard: '/api/v1/dashboard'
+      dashboard: '/api/v1/dashboard',
+      admin: '/api/v1/admin'
     },
     documentation: '/api/v1/docs'
   });
@@ -25,4 +25,11 @@ router.get('/:id', memberController.getMemberById.bind(memberController));
  */
 router.get('/:id/trades', memberController.getMemberTrades.bind(memberController));
 
+/**
+ * @route GET /api/v1/members/:id/filing-stats
+ * @description Get disclosure lag and STOCK Act late-filing statistics for a member
+ * @access Public
+ */
+router.get('/:id/filing-stats', memberController.getMemberFilingStats.bind(memberController));
+
 export default router;
@@ -25,4 +25,12 @@ router.get('/:symbol', stockController.getStockBySymbol.bind(stockController));
  */
 router.get('/:symbol/trades', stockController.getStockTrades.bind(stockController));
 
+/**
+ * @route GET /api/v1/stocks/:symbol/insiders
+ * @description Get corporate insiders' Form 4 transactions for a stock; only
+ *              open-market purchases and sales count toward the buying signal
+ * @access Public
+ */
+router.get('/:symbol/insiders', stockController.getStockInsiderActivity.bind(stockController));
+
 export default router;
@@ -1,19 +1,26 @@
 import { Router, Request, Response } from 'express';
 import { runDailySync, runHistoricalBackfill } from '../jobs/dailySync';
+import { SyncRunService } from '../services/SyncRunService';
+import { SyncRun, SYNC_RUN_TYPES, SYNC_RUN_STATUSES, SyncRunType, SyncRunStatus } from '../models/SyncRun';
+import { authenticate, requireAdmin, requireRole } from '../middleware/auth';
+import { rateLimiters } from '../middleware/rateLimit';
+import { isUuid } from '../middleware/validation';
 
 const router = Router();
 
 /**
  * @route POST /api/v1/sync/now
  * @description Trigger manual data sync from FMP API
- * @access Public (should be protected in production)
+ * @access Admin
  */
-router.post('/now', async (req: Request, res: Response) => {
+router.post('/now', authenticate, requireAdmin, rateLimiters.admin, async (req: Request, res: Response) => {
   try {
     console.log('🚀 Manual sync triggered via API...');
 
+    const run = await SyncRunService.start('daily', { trigger: 'manual', triggeredBy: req.userId });
+
     // Run sync in background
-    runDailySync()
+    runDailySync(run)
       .then(() => {
         console.log('✅ Manual sync completed successfully');
       })
@@ -24,7 +31,11 @@ router.post('/now', async (req: Request, res: Response) => {
     // Return immediate response
     res.status(202).json({
       success: true,
-      message: 'Data sync started in background. Check server logs for progress.'
+      message: 'Data sync started in background. Follow its progress at the run URL.',
+      data: {
+        runId: run.id,
+        runUrl: `/api/v1/sync/runs/${run.id}`
+      }
     });
   } catch (error) {
     console.error('Error starting sync:', error);
@@ -38,16 +49,18 @@ router.post('/now', async (req: Request, res: Response) => {
 /**
  * @route POST /api/v1/sync/backfill
  * @description Trigger historical backfill to fetch ALL data from September 2012
- * @access Public (should be protected in production)
+ * @access Admin
  * @warning This should only be run ONCE during initial setup
  */
-router.post('/backfill', async (req: Request, res: Response) => {
+router.post('/backfill', authenticate, requireAdmin, rateLimiters.admin, async (req: Request, res: Response) => {
   try {
     console.log('🚀 Historical backfill triggered via API...');
     console.log('⚠️  This will fetch ~40,055 trades from September 2012 - Present');
 
+    const run = await SyncRunService.start('backfill', { trigger: 'manual', triggeredBy: req.userId });
+
     // Run backfill in background
-    runHistoricalBackfill()
+    runHistoricalBackfill(run)
       .then(() => {
         console.log('✅ Historical backfill completed successfully');
       })
@@ -63,7 +76,11 @@ router.post('/backfill', async (req: Request, res: Response) => {
       dataCoverage: 'September 2012 - Present',
       estimatedDuration: '2-3 minutes',
       storageRequired: '~20-25 MB',
-      note: 'Check server logs for detailed progress. This should only be run once during initial setup.'
+      note: 'Follow its progress at the run URL. This should only be run once during initial setup.',
+      data: {
+        runId: run.id,
+        runUrl: `/api/v1/sync/runs/${run.id}`
+      }
     });
   } catch (error) {
     console.error('Error starting historical backfill:', error);
@@ -74,4 +91,113 @@ router.post('/backfill', async (req: Request, res: Response) => {
   }
 });
 
+/**
+ * @route GET /api/v1/sync/runs
+ * @description Sync run history, newest first, with the running job's progress
+ * @access Analyst
+ */
+router.get('/runs', authenticate, requireRole('analyst'), rateLimiters.data, async (req: Request, res: Response) => {
+  try {
+    const { runType, status, limit, offset } = req.query;
+
+    if (runType && !SYNC_RUN_TYPES.includes(runType as SyncRunType)) {
+      res.status(400).json({
+        success: false,
+        error: `runType must be one of: ${SYNC_RUN_TYPES.join(', ')}`
+      });
+      return;
+    }
+
+    if (status && !SYNC_RUN_STATUSES.includes(status as SyncRunStatus)) {
+      res.status(400).json({
+        success: false,
+        error: `status must be one of: ${SYNC_RUN_STATUSES.join(', ')}`
+      });
+      return;
+    }
+
+    let limitNum = 20;
+    if (limit) {
+      limitNum = parseInt(limit as string);
+      if (isNaN(limitNum) || limitNum < 1 || limitNum > 100) {
+        res.status(400).json({
+          success: false,
+          error: 'limit must be between 1 and 100'
+        });
+        return;
+      }
+    }
+
+    let offsetNum = 0;
+    if (offset) {
+      offsetNum = parseInt(offset as string);
+      if (isNaN(offsetNum) || offsetNum < 0) {
+        res.status(400).json({
+          success: false,
+          error: 'offset must be non-negative'
+        });
+        return;
+      }
+    }
+
+    const result = await SyncRun.findAll(
+      {
+        runType: runType as SyncRunType | undefined,
+        status: status as SyncRunStatus | undefined
+      },
+      limitNum,
+      offsetNum
+    );
+
+    res.status(200).json({
+      success: true,
+      data: result
+    });
+  } catch (error) {
+    console.error('Error fetching sync runs:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch sync runs'
+    });
+  }
+});
+
+/**
+ * @route GET /api/v1/sync/runs/:id
+ * @description One sync run; poll it for the progress of a running job
+ * @access Analyst
+ */
+router.get('/runs/:id', authenticate, requireRole('analyst'), rateLimiters.data, async (req: Request, res: Response) => {
+  try {
+    if (!isUuid(req.params.id)) {
+      res.status(400).json({
+        success: false,
+        error: 'Invalid sync run ID'
+      });
+      return;
+    }
+
+    const run = await SyncRun.findById(req.params.id);
+
+    if (!run) {
+      res.status(404).json({
+        success: false,
+        error: 'Sync run not found'
+      });
+      return;
+    }
+
+    res.status(200).json({
+      success: true,
+      data: run
+    });
+  } catch (error) {
+    console.error('Error fetching sync run:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch sync run'
+    });
+  }
+});
+
 export default router;
@@ -1,58 +1,93 @@
 import { Router } from 'express';
 import { TradeController } from '../controllers/TradeController';
-import { authenticate, optionalAuthenticate } from '../middleware/auth';
-import { rateLimiters } from '../middleware/rateLimit';
+import { authenticate, optionalAuthenticate, allowApiKeys } from '../middleware/auth';
+import { rateLimiters, tieredRateLimiters } from '../middleware/rateLimit';
 
 const router = Router();
 
 // Most trade routes are public (read-only access to trading data)
-// But we apply optional authentication for usage tracking
+// But we apply optional authentication for usage tracking, and so that
+// API keys with the read:trades scope get their own rate limit. A per-IP
+// limit runs first so floods of bad keys or tokens never reach the database.
 
 router.get('/', 
+  allowApiKeys('read:trades'),
   rateLimiters.data,
   optionalAuthenticate,
+  tieredRateLimiters.dataAccess,
   TradeController.getTrades
 );
 
 router.get('/recent', 
+  allowApiKeys('read:trades'),
   rateLimiters.data,
   optionalAuthenticate,
+  tieredRateLimiters.dataAccess,
   TradeController.getTrades // Same endpoint, different default sorting
 );
 
 router.get('/top-stocks', 
+  allowApiKeys('read:trades'),
   rateLimiters.data,
   optionalAuthenticate,
+  tieredRateLimiters.dataAccess,
   TradeController.getTopTradedStocks
 );
 
 router.get('/active-traders', 
+  allowApiKeys('read:trades'),
   rateLimiters.data,
   optionalAuthenticate,
+  tieredRateLimiters.dataAccess,
   TradeController.getMostActiveTraders
 );
 
 router.get('/statistics', 
+  allowApiKeys('read:trades'),
   rateLimiters.data,
   optionalAuthenticate,
+  tieredRateLimiters.dataAccess,
   TradeController.getTradeStatistics
 );
 
+// Server-Sent Events; must be registered before /:id
+router.get('/stream',
+  allowApiKeys('read:trades'),
+  rateLimiters.data,
+  optionalAuthenticate,
+  tieredRateLimiters.dataAccess,
+  TradeController.streamTrades
+);
+
+router.get('/:id/history',
+  allowApiKeys('read:trades'),
+  rateLimiters.data,
+  optionalAuthenticate,
+  tieredRateLimiters.dataAccess,
+  TradeController.getTradeHistory
+);
+
 router.get('/:id', 
+  allowApiKeys('read:trades'),
   rateLimiters.data,
   optionalAuthenticate,
+  tieredRateLimiters.dataAccess,
   TradeController.getTradeById
 );
 
 router.get('/trader/:traderId', 
+  allowApiKeys('read:trades'),
   rateLimiters.data,
   optionalAuthenticate,
+  tieredRateLimiters.dataAccess,
   TradeController.getTraderTrades
 );
 
 router.get('/stock/:symbol', 
+  allowApiKeys('read:trades'),
   rateLimiters.data,
   optionalAuthenticate,
+  tieredRateLimiters.dataAccess,
   TradeController.getStockTrades
 );
 
@@ -0,0 +1,110 @@
+import { getMailTransport, getMailFrom } from '../config/mail';
+import { EmailContent, escapeHtml } from './notifications/templates';
+
+interface AccountEmailContext {
+  email: string;
+  name?: string;
+  url: string; // Link carrying the token
+  expiresInMinutes: number;
+}
+
+const appUrl = (): string => (process.env.APP_URL || 'http://localhost:3000').replace(/\/$/, '');
+
+const formatExpiry = (minutes: number): string =>
+  minutes % 60 === 0 ? `${minutes / 60} hour${minutes === 60 ? '' : 's'}` : `${minutes} minutes`;
+
+/**
+ * Greeting, one paragraph, a link to act on and a closing note, as text and HTML
+ */
+const renderAccountEmail = (
+  context: AccountEmailContext,
+  subject: string,
+  message: string,
+  action: string,
+  footer: string
+): EmailContent => {
+  const greeting = context.name ? `Hi ${context.name},` : 'Hi,';
+  const expiry = `This link expires in ${formatExpiry(context.expiresInMinutes)} and can only be used once.`;
+
+  const text = [
+    greeting,
+    '',
+    message,
+    '',
+    `${action}: ${context.url}`,
+    '',
+    expiry,
+    footer
+  ].join('\n');
+
+  const html = `<p>${escapeHtml(greeting)}</p>
+<p>${escapeHtml(message)}</p>
+<p><a href="${escapeHtml(context.url)}">${escapeHtml(action)}</a></p>
+<p style="color:#6b7280;font-size:12px">${escapeHtml(expiry)} ${escapeHtml(footer)}</p>`;
+
+  return { subject, text, html };
+};
+
+export function renderPasswordResetEmail(context: AccountEmailContext): EmailContent {
+  return renderAccountEmail(
+    context,
+    'Reset your CongressTracker password',
+    'Someone asked to reset the password for your CongressTracker account.',
+    'Choose a new password',
+    'If you did not ask for this, you can ignore this email; your password has not changed.'
+  );
+}
+
+export function renderEmailVerificationEmail(context: AccountEmailContext): EmailContent {
+  return renderAccountEmail(
+    context,
+    'Verify your CongressTracker email address',
+    `Please confirm that ${context.email} is your email address.`,
+    'Verify email address',
+    'If you did not create a CongressTracker account, you can ignore this email.'
+  );
+}
+
+/**
+ * Account emails (password reset, email verification) sent over the
+ * configured SMTP transport
+ */
+export class AccountEmailService {
+  static async sendPasswordReset(
+    user: { email: string; name?: string },
+    token: string,
+    expiresInMinutes: number
+  ): Promise<void> {
+    await this.deliver(user.email, renderPasswordResetEmail({
+      email: user.email,
+      name: user.name,
+      url: `${appUrl()}/reset-password?token=${encodeURIComponent(token)}`,
+      expiresInMinutes
+    }));
+  }
+
+  static async sendEmailVerification(
+    user: { email: string; name?: string },
+    token: string,
+    expiresInMinutes: number
+  ): Promise<void> {
+    await this.deliver(user.email, renderEmailVerificationEmail({
+      email: user.email,
+      name: user.name,
+      url: `${appUrl()}/verify-email?token=${encodeURIComponent(token)}`,
+      expiresInMinutes
+    }));
+  }
+
+  private static async deliver(to: string, content: EmailContent): Promise<void> {
+    await getMailTransport().sendMail({
+      from: getMailFrom(),
+      to,
+      subject: content.subject,
+      text: content.text,
+      html: content.html
+    });
+  }
+}
+
+export default AccountEmailService;
@@ -1,9 +1,21 @@
-import { UserAlert } from '../models/UserAlert';
-import { AlertNotification } from '../models/AlertNotification';
+import {
+  UserAlert,
+  PatternConfig,
+  DEFAULT_CLUSTER_MIN_MEMBERS,
+  DEFAULT_CLUSTER_WINDOW_DAYS
+} from '../models/UserAlert';
+import { AlertNotification, CreateAlertNotificationData } from '../models/AlertNotification';
 import { User } from '../models/User';
 import { CongressionalMember } from '../models/CongressionalMember';
 import { StockTicker } from '../models/StockTicker';
-import { StockTrade } from '../models/StockTrade';
+import { StockTrade, STOCK_ACT_FILING_WINDOW_DAYS } from '../models/StockTrade';
+import { TradeRevision } from '../models/TradeRevision';
+import { NotificationPreference, NotificationPreferences, DigestFrequency } from '../models/NotificationPreference';
+import { AlertDigest } from '../models/AlertDigest';
+import { NotificationDeliveryService } from './notifications';
+import { db } from '../config/database';
+
+export type { NotificationPreferences } from '../models/NotificationPreference';
 
 export interface CreateAlertData {
   userId: string;
@@ -12,6 +24,14 @@ export interface CreateAlertData {
   politicianId?: string;
   tickerSymbol?: string;
   patternConfig?: any;
+  digestFrequency?: 'immediate' | 'hourly' | 'daily' | 'weekly' | null;
+  notifyOnAmendments?: boolean;
+}
+
+export interface DigestRunResult {
+  users: number;
+  digests: number;
+  notifications: number;
 }
 
 export interface AlertMatchData {
@@ -20,6 +40,19 @@ export interface AlertMatchData {
   triggerReason: string;
 }
 
+interface AlertMatch {
+  triggerReason: string;
+  // All trades behind the match when it spans more than the triggering trade
+  tradeIds?: string[];
+}
+
+interface ClusterCandidateTrade {
+  id: string;
+  traderId: string;
+  traderName: string;
+  transactionDate: Date;
+}
+
 export interface AlertSummary {
   totalAlerts: number;
   activeAlerts: number;
@@ -33,13 +66,6 @@ export interface AlertSummary {
   };
 }
 
-export interface NotificationPreferences {
-  email: boolean;
-  push: boolean;
-  inApp: boolean;
-  frequency: 'immediate' | 'hourly' | 'daily';
-}
-
 export class AlertService {
   private static readonly MAX_ALERTS_PER_USER = 100;
   private static readonly MAX_ALERTS_FREE_USER = 10;
@@ -222,16 +248,37 @@ export class AlertService {
       const potentialAlerts = await this.getPotentialAlerts(trade);
 
       for (const alert of potentialAlerts) {
-        const isMatch = await this.evaluateAlertMatch(alert, trade);
-        if (isMatch) {
+        const match = await this.evaluateAlertMatch(alert, trade);
+        if (match) {
+          await this.triggerAlert(alert, { trade, ...match });
+        }
+      }
+    } catch (error) {
+      console.error('Check trade alerts error:', error);
+    }
+  }
+
+  /**
+   * Notify alerts that opted into amendments when a trade they match is
+   * amended or withdrawn
+   */
+  static async checkAmendmentAlerts(trade: StockTrade, revision: TradeRevision): Promise<void> {
+    try {
+      const potentialAlerts = (await this.getPotentialAlerts(trade)).filter(alert => alert.notifyOnAmendments);
+
+      for (const alert of potentialAlerts) {
+        const match = await this.evaluateAlertMatch(alert, trade);
+        if (match) {
+          const action = revision.status === 'withdrawn' ? 'Trade withdrawn' : 'Trade amended';
           await this.triggerAlert(alert, {
             trade,
-            triggerReason: this.getAlertTriggerReason(alert, trade)
+            revision,
+            triggerReason: `${action} (${revision.describeChanges()})`
           });
         }
       }
     } catch (error) {
-      console.error('Check trade alerts error:', error);
+      console.error('Check amendment alerts error:', error);
     }
   }
 
@@ -240,25 +287,136 @@ export class AlertService {
    */
   static async triggerAlert(alert: UserAlert, matchData: any): Promise<void> {
     try {
+      const trade: StockTrade | undefined = matchData.trade;
+      const revision: TradeRevision | undefined = matchData.revision;
+      const preference = await NotificationPreference.findByUser(alert.userId);
+
+      // Update alert's last triggered timestamp
+      await alert.markTriggered();
+
+      // When several alerts match the same trade, the user hears about it once
+      const singleTrade = !matchData.tradeIds || matchData.tradeIds.length <= 1;
+      if (preference.preferences.dedupeTrades && trade?.id && singleTrade &&
+          await AlertNotification.existsForTrade(alert.userId, trade.id, revision?.revision)) {
+        return;
+      }
+
       // Create notification
-      await AlertNotification.create({
+      const notification = await AlertNotification.create({
         alertId: alert.id!,
         userId: alert.userId,
-        notificationType: 'trade_match',
-        notificationData: matchData,
-        deliveryStatus: 'pending'
+        tradeId: trade?.id,
+        tradeIds: matchData.tradeIds,
+        tradeRevision: revision?.revision,
+        message: this.buildNotificationMessage(matchData.triggerReason, trade),
+        ...await this.getDeliverySchedule(alert, preference)
       });
 
-      // Update alert's last triggered timestamp
-      await alert.updateLastTriggered();
-
-      // Send notification based on user preferences
-      await this.sendNotification(alert, matchData);
+      // Send notification based on user preferences; digest notifications wait for the digest job
+      if (!notification.digestFrequency) {
+        await this.sendNotification(notification);
+      }
     } catch (error) {
       console.error('Trigger alert error:', error);
     }
   }
 
+  /**
+   * Decide whether a new notification goes out now or is held for a digest.
+   * The alert's own frequency takes precedence over the user's. Immediate
+   * notifications arriving during quiet hours, or beyond the hourly cap, are
+   * rolled into the next hourly summary instead.
+   */
+  private static async getDeliverySchedule(
+    alert: UserAlert,
+    preference: NotificationPreference
+  ): Promise<Pick<CreateAlertNotificationData, 'digestFrequency' | 'heldReason' | 'heldUntil'>> {
+    const frequency = alert.digestFrequency || preference.preferences.frequency;
+    if (frequency !== 'immediate') {
+      return { digestFrequency: frequency };
+    }
+
+    const quietHoursEnd = preference.getQuietHoursEnd();
+    if (quietHoursEnd) {
+      return { digestFrequency: 'hourly', heldReason: 'quiet_hours', heldUntil: quietHoursEnd };
+    }
+
+    const { maxPerHour } = preference.preferences;
+    if (maxPerHour) {
+      const deliveredLastHour = await AlertNotification.countDeliveredSince(
+        alert.userId,
+        new Date(Date.now() - 60 * 60 * 1000)
+      );
+      if (deliveredLastHour >= maxPerHour) {
+        return { digestFrequency: 'hourly', heldReason: 'rate_limit' };
+      }
+    }
+
+    return {};
+  }
+
+  /**
+   * Compile and deliver a digest for every user with notifications held for
+   * the given frequency
+   */
+  static async processDigests(frequency: DigestFrequency): Promise<DigestRunResult> {
+    const userIds = await AlertDigest.findUsersWithPending(frequency);
+    const result: DigestRunResult = { users: userIds.length, digests: 0, notifications: 0 };
+
+    for (const userId of userIds) {
+      try {
+        // Digests wait for the end of the user's quiet hours too
+        const preference = await NotificationPreference.findByUser(userId);
+        if (preference.getQuietHoursEnd()) continue;
+
+        const digest = await AlertDigest.compile(userId, frequency);
+        if (!digest) continue;
+
+        result.digests++;
+        result.notifications += digest.notificationCount;
+        await NotificationDeliveryService.deliverDigest(digest.id!);
+      } catch (error) {
+        // One user's failure should not hold back everyone else's digest
+        console.error(`Alert digest error for user ${userId}:`, error);
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Get a user's past digests
+   */
+  static async getDigests(
+    userId: string,
+    limit: number = 20,
+    offset: number = 0
+  ): Promise<{ digests: AlertDigest[]; total: number }> {
+    return AlertDigest.findByUser(userId, limit, offset);
+  }
+
+  /**
+   * Get a user's notification preferences
+   */
+  static async getNotificationPreferences(
+    userId: string
+  ): Promise<NotificationPreferences & { webhookSecret?: string }> {
+    const preference = await NotificationPreference.findByUser(userId);
+    // The owner needs the secret to verify webhook signatures
+    return { ...preference.preferences, webhookSecret: preference.webhookSecret };
+  }
+
+  /**
+   * Update a user's notification preferences
+   */
+  static async updateNotificationPreferences(
+    userId: string,
+    updates: Partial<NotificationPreferences>
+  ): Promise<NotificationPreferences & { webhookSecret?: string }> {
+    const preference = await NotificationPreference.upsert(userId, updates);
+    return { ...preference.preferences, webhookSecret: preference.webhookSecret };
+  }
+
   /**
    * Get alert summary for a user
    */
@@ -354,89 +512,301 @@ export class AlertService {
    * Get alerts that might match a trade
    */
   private static async getPotentialAlerts(trade: StockTrade): Promise<UserAlert[]> {
-    const alerts: UserAlert[] = [];
-
-    // Get politician alerts
-    if (trade.traderType === 'congressional') {
-      const politicianAlerts = await UserAlert.findByPolitician(trade.traderId);
-      alerts.push(...politicianAlerts);
-    }
-
-    // Get stock alerts
-    const stockAlerts = await UserAlert.findByStock(trade.tickerSymbol);
-    alerts.push(...stockAlerts);
-
-    // Get pattern alerts (these need to be evaluated individually)
-    const patternAlerts = await UserAlert.findByType('pattern');
-    alerts.push(...patternAlerts);
-
-    return alerts.filter(alert => alert.alertStatus === 'active');
+    // Politician and stock alerts are matched in SQL; pattern alerts are
+    // pre-filtered on value and transaction type and evaluated individually
+    return UserAlert.findTriggerable({
+      traderId: trade.traderId,
+      traderType: trade.traderType,
+      tickerSymbol: trade.tickerSymbol,
+      transactionType: trade.transactionType,
+      estimatedValue: trade.estimatedValue
+    });
   }
 
   /**
    * Evaluate if an alert matches a trade
    */
-  private static async evaluateAlertMatch(alert: UserAlert, trade: StockTrade): Promise<boolean> {
+  private static async evaluateAlertMatch(alert: UserAlert, trade: StockTrade): Promise<AlertMatch | null> {
     try {
       switch (alert.alertType) {
         case 'politician':
-          return alert.politicianId === trade.traderId;
+          return alert.politicianId === trade.traderId
+            ? { triggerReason: this.getAlertTriggerReason(alert, trade) }
+            : null;
 
         case 'stock':
-          return alert.tickerSymbol === trade.tickerSymbol;
+          return alert.tickerSymbol === trade.tickerSymbol
+            ? { triggerReason: this.getAlertTriggerReason(alert, trade) }
+            : null;
 
         case 'pattern':
-          return this.evaluatePatternMatch(alert.patternConfig, trade);
+          return this.evaluatePatternMatch(alert, trade);
 
         default:
-          return false;
+          return null;
       }
     } catch (error) {
       console.error('Evaluate alert match error:', error);
-      return false;
+      return null;
     }
   }
 
   /**
-   * Evaluate pattern-based alert matches
+   * Evaluate a pattern alert against a trade. Criteria are applied in SQL so
+   * the trade's stock sector and member details are available; with a time
+   * frame and minTrades/minTotalValue, matching trades in the window ending
+   * on the trade's transaction date are aggregated as well.
    */
-  private static evaluatePatternMatch(patternConfig: any, trade: StockTrade): boolean {
-    if (!patternConfig) return false;
+  private static async evaluatePatternMatch(alert: UserAlert, trade: StockTrade): Promise<AlertMatch | null> {
+    const config = alert.patternConfig;
+    if (!config) return null;
 
-    try {
-      // Transaction type filter
-      if (patternConfig.transactionType && patternConfig.transactionType !== trade.transactionType) {
-        return false;
-      }
+    if (config.cluster) {
+      return this.evaluateClusterMatch(alert, trade);
+    }
 
-      // Value threshold filter
-      if (patternConfig.minValue && trade.estimatedValue && trade.estimatedValue < patternConfig.minValue) {
-        return false;
-      }
+    const windowed = !!config.timeFrame && (config.minTrades !== undefined || config.minTotalValue !== undefined);
+    const params: any[] = [trade.id];
+    // A withdrawn trade can still report its own withdrawal, but no longer counts toward the window
+    const conditions: string[] = [`(st.id = $1 OR ${StockTrade.countedCondition()})`];
+
+    if (windowed) {
+      const windowDays = Math.floor(UserAlert.getTimeFrameMs(config.timeFrame!) / (24 * 60 * 60 * 1000));
+      params.push(trade.transactionDate, windowDays);
+      conditions.push(`(st.id = $1 OR st.transaction_date BETWEEN $2::date - $3::int AND $2::date)`);
+    } else {
+      conditions.push('st.id = $1');
+    }
 
-      if (patternConfig.maxValue && trade.estimatedValue && trade.estimatedValue > patternConfig.maxValue) {
-        return false;
-      }
+    conditions.push(...this.buildPatternConditions(config, params));
+
+    const result = await db.query(
+      `SELECT COUNT(*) FILTER (WHERE st.id = $1) AS trade_matches,
+              COUNT(*) AS window_trades,
+              COALESCE(SUM(st.estimated_value), 0) AS window_value
+       FROM stock_trades st
+       LEFT JOIN stock_tickers sk ON st.ticker_symbol = sk.symbol
+       LEFT JOIN congressional_members cm ON st.trader_type = 'congressional' AND st.trader_id = cm.id
+       WHERE ${conditions.join(' AND ')}`,
+      params
+    );
+
+    const row = result.rows[0];
+    if (parseInt(row.trade_matches) === 0) {
+      return null;
+    }
 
-      // Sector filter
-      if (patternConfig.sectors && patternConfig.sectors.length > 0) {
-        // This would require joining with stock ticker data
-        // Implementation depends on trade model structure
+    const description = alert.getDescription();
+    if (!windowed) {
+      return { triggerReason: `Trade matches your pattern (${description})` };
+    }
+
+    const windowTrades = parseInt(row.window_trades);
+    const windowValue = parseFloat(row.window_value);
+    if (config.minTrades !== undefined && windowTrades < config.minTrades) return null;
+    if (config.minTotalValue !== undefined && windowValue < config.minTotalValue) return null;
+
+    return {
+      triggerReason: `${windowTrades} matching trade${windowTrades === 1 ? '' : 's'} totaling ` +
+        `$${windowValue.toLocaleString('en-US')} within ${config.timeFrame} (${description})`
+    };
+  }
+
+  /**
+   * Evaluate a pattern's cluster condition over the trades around this one.
+   * A cluster is reported once: trades already referenced by an earlier
+   * notification for the alert do not trigger it again.
+   */
+  private static async evaluateClusterMatch(alert: UserAlert, trade: StockTrade): Promise<AlertMatch | null> {
+    const config = alert.patternConfig!;
+    const cluster = config.cluster!;
+    if (trade.traderType !== 'congressional') return null;
+
+    const minMembers = cluster.minMembers ?? DEFAULT_CLUSTER_MIN_MEMBERS;
+    const windowDays = cluster.windowDays ?? DEFAULT_CLUSTER_WINDOW_DAYS[cluster.type];
+    const params: any[] = [trade.id];
+    const conditions = [
+      `st.trader_type = 'congressional'`,
+      `(st.id = $1 OR ${StockTrade.countedCondition()})`,
+      ...this.buildPatternConditions(config, params)
+    ];
+
+    switch (cluster.type) {
+      case 'first_sector_trade': {
+        conditions.push('st.id = $1');
+        const result = await db.query(
+          `SELECT sk.sector, cm.name AS trader_name,
+                  EXISTS (
+                    SELECT 1 FROM stock_trades prior
+                    JOIN stock_tickers psk ON prior.ticker_symbol = psk.symbol
+                    WHERE prior.trader_type = 'congressional' AND prior.trader_id = st.trader_id
+                      AND psk.sector = sk.sector AND prior.id <> st.id
+                      AND ${StockTrade.countedCondition('prior')}
+                  ) AS has_prior
+           FROM stock_trades st
+           JOIN stock_tickers sk ON st.ticker_symbol = sk.symbol
+           LEFT JOIN congressional_members cm ON st.trader_id = cm.id
+           WHERE sk.sector IS NOT NULL AND ${conditions.join(' AND ')}`,
+          params
+        );
+
+        const row = result.rows[0];
+        if (!row || row.has_prior) return null;
+
+        return {
+          triggerReason: `First ${row.sector} trade by ${row.trader_name || 'a member'}`,
+          tradeIds: [trade.id!]
+        };
       }
 
-      // Party filter (for congressional trades)
-      if (patternConfig.parties && patternConfig.parties.length > 0 && trade.traderType === 'congressional') {
-        // This would require joining with congressional member data
-        // Implementation depends on trade model structure
+      case 'member_cluster':
+        params.push(trade.tickerSymbol);
+        conditions.push(`st.ticker_symbol = $${params.length}`);
+        break;
+
+      case 'committee_selloff':
+        params.push(cluster.committee!.toUpperCase());
+        conditions.push(`st.transaction_type = 'sell'`);
+        conditions.push(`st.trader_id IN (
+          SELECT cmb.member_id FROM committee_memberships cmb
+          JOIN committees c ON cmb.committee_id = c.id
+          WHERE c.code = $${params.length}
+        )`);
+        break;
+    }
+
+    params.push(trade.transactionDate, windowDays);
+    const dateParam = params.length - 1;
+    const result = await db.query(
+      `SELECT st.id, st.trader_id, st.transaction_date, cm.name AS trader_name
+       FROM stock_trades st
+       LEFT JOIN stock_tickers sk ON st.ticker_symbol = sk.symbol
+       LEFT JOIN congressional_members cm ON st.trader_type = 'congressional' AND st.trader_id = cm.id
+       WHERE st.transaction_date BETWEEN $${dateParam}::date - $${dateParam + 1}::int
+                                     AND $${dateParam}::date + $${dateParam + 1}::int
+         AND ${conditions.join(' AND ')}
+       ORDER BY st.transaction_date, st.created_at`,
+      params
+    );
+
+    const candidates: ClusterCandidateTrade[] = result.rows.map(row => ({
+      id: row.id,
+      traderId: row.trader_id,
+      traderName: row.trader_name,
+      transactionDate: new Date(row.transaction_date)
+    }));
+
+    // The triggering trade must itself satisfy the pattern
+    if (!candidates.some(candidate => candidate.id === trade.id)) return null;
+
+    const window = this.findDensestWindow(candidates, new Date(trade.transactionDate), windowDays);
+    const members = Array.from(new Map(window.map(t => [t.traderId, t.traderName])).values());
+    if (members.length < minMembers) return null;
+
+    const tradeIds = window.map(t => t.id);
+    const alreadyReported = await db.query(
+      `SELECT 1 FROM alert_notification_trades ant
+       JOIN alert_notifications an ON ant.notification_id = an.id
+       WHERE an.alert_id = $1 AND ant.trade_id = ANY($2::uuid[]) AND ant.trade_id <> $3
+       LIMIT 1`,
+      [alert.id, tradeIds, trade.id]
+    );
+    if (alreadyReported.rows.length > 0) return null;
+
+    const names = members.map(name => name || 'Unknown member').join(', ');
+    const triggerReason = cluster.type === 'committee_selloff'
+      ? `${members.length} ${cluster.committee!.toUpperCase()} committee members sold within ${windowDays} days (${names})`
+      : `${members.length} members ${this.describeTransactionVerb(config.transactionType)} ${trade.tickerSymbol} ` +
+        `within ${windowDays} days (${names})`;
+
+    return { triggerReason, tradeIds };
+  }
+
+  /**
+   * Of all windows of windowDays that contain the anchor date, the trades in
+   * the one with the most distinct members
+   */
+  private static findDensestWindow(
+    trades: ClusterCandidateTrade[],
+    anchor: Date,
+    windowDays: number
+  ): ClusterCandidateTrade[] {
+    const dayMs = 24 * 60 * 60 * 1000;
+    let best: ClusterCandidateTrade[] = [];
+    let bestMembers = 0;
+
+    for (const start of trades) {
+      const startMs = start.transactionDate.getTime();
+      const endMs = startMs + windowDays * dayMs;
+      if (startMs > anchor.getTime() || endMs < anchor.getTime()) continue;
+
+      const inWindow = trades.filter(t => t.transactionDate.getTime() >= startMs && t.transactionDate.getTime() <= endMs);
+      const memberCount = new Set(inWindow.map(t => t.traderId)).size;
+      if (memberCount > bestMembers) {
+        best = inWindow;
+        bestMembers = memberCount;
       }
+    }
 
-      return true;
-    } catch (error) {
-      console.error('Evaluate pattern match error:', error);
-      return false;
+    return best;
+  }
+
+  private static describeTransactionVerb(transactionType?: 'buy' | 'sell' | 'exchange'): string {
+    switch (transactionType) {
+      case 'buy': return 'bought';
+      case 'sell': return 'sold';
+      case 'exchange': return 'exchanged';
+      default: return 'traded';
     }
   }
 
+  /**
+   * SQL conditions for a pattern's trade, stock and member criteria over
+   * stock_trades st, stock_tickers sk and congressional_members cm
+   */
+  private static buildPatternConditions(config: PatternConfig, params: any[]): string[] {
+    const conditions: string[] = [];
+    const param = (value: any) => {
+      params.push(value);
+      return `$${params.length}`;
+    };
+
+    if (config.transactionType) {
+      conditions.push(`st.transaction_type = ${param(config.transactionType)}`);
+    }
+    if (config.minValue !== undefined) {
+      conditions.push(`st.estimated_value >= ${param(config.minValue)}`);
+    }
+    if (config.maxValue !== undefined) {
+      conditions.push(`st.estimated_value <= ${param(config.maxValue)}`);
+    }
+    if (config.sectors?.length) {
+      conditions.push(`LOWER(sk.sector) = ANY(${param(config.sectors.map(sector => sector.toLowerCase()))}::text[])`);
+    }
+    if (config.parties?.length) {
+      conditions.push(`cm.party_affiliation::text = ANY(${param(config.parties)}::text[])`);
+    }
+    if (config.states?.length) {
+      conditions.push(`cm.state_code = ANY(${param(config.states.map(state => state.toUpperCase()))}::text[])`);
+    }
+    if (config.chambers?.length) {
+      const positions = config.chambers.map(chamber => chamber === 'senate' ? 'senator' : 'representative');
+      conditions.push(`cm.position::text = ANY(${param(positions)}::text[])`);
+    }
+    if (config.lateFiling) {
+      conditions.push(`st.filing_date - st.transaction_date > ${param(STOCK_ACT_FILING_WINDOW_DAYS)}`);
+    }
+    if (config.keywords?.length) {
+      const patterns = config.keywords.map(keyword => `%${keyword.trim().replace(/[\\%_]/g, '\\$&')}%`);
+      conditions.push(`(
+        COALESCE(st.source_data->'originalData'->>'assetDescription', st.source_data->'originalData'->>'securityName', '')
+        || ' ' || COALESCE(sk.company_name, '')
+      ) ILIKE ANY(${param(patterns)}::text[])`);
+    }
+
+    return conditions;
+  }
+
   /**
    * Get alert trigger reason
    */
@@ -454,22 +824,27 @@ export class AlertService {
   }
 
   /**
-   * Send notification based on user preferences
+   * Build the stored notification message for a triggered alert
+   */
+  private static buildNotificationMessage(triggerReason: string, trade?: StockTrade): string {
+    if (!trade) {
+      return triggerReason;
+    }
+
+    const value = trade.amountRange
+      ? ` (${trade.amountRange})`
+      : trade.estimatedValue
+        ? ` ($${Number(trade.estimatedValue).toLocaleString('en-US')})`
+        : '';
+    return `${triggerReason}: ${trade.transactionType.toUpperCase()} ${trade.tickerSymbol}${value}`;
+  }
+
+  /**
+   * Send notification over the channels enabled in the user's preferences
    */
-  private static async sendNotification(alert: UserAlert, matchData: any): Promise<void> {
+  private static async sendNotification(notification: AlertNotification): Promise<void> {
     try {
-      // Get user notification preferences
-      const user = await User.findById(alert.userId);
-      if (!user) return;
-
-      // This would integrate with actual notification services
-      // For now, just log the notification
-      console.log(`Notification for user ${alert.userId}: Alert ${alert.id} triggered`);
-
-      // TODO: Implement actual notification delivery
-      // - Email notifications via SendGrid/SES
-      // - Push notifications via Firebase/OneSignal
-      // - In-app notifications via WebSocket/SSE
+      await NotificationDeliveryService.deliver(notification.id!);
     } catch (error) {
       console.error('Send notification error:', error);
     }
@@ -1,6 +1,17 @@
-import { StockTrade } from '../models/StockTrade';
+import {
+  AssetClass,
+  ASSET_CLASSES,
+  EQUITY_ASSET_CLASSES,
+  OptionType,
+  StockTrade,
+  STOCK_ACT_FILING_WINDOW_DAYS
+} from '../models/StockTrade';
 import { CongressionalMember } from '../models/CongressionalMember';
 import { StockTicker } from '../models/StockTicker';
+import { db } from '../config/database';
+import { PoolClient } from 'pg';
+import { pearsonCorrelation } from '../utils/statistics';
+import { PriceHistoryService, TradeForwardReturn, BENCHMARK_SYMBOL, RETURN_HORIZONS } from './PriceHistoryService';
 
 export interface PortfolioConcentration {
   traderId: string;
@@ -11,6 +22,7 @@ export interface PortfolioConcentration {
   concentrationScore: number; // 0-100, higher = more concentrated
   topHoldings: Array<{
     symbol: string;
+    assetClass: AssetClass;
     companyName: string;
     value: number;
     percentage: number;
@@ -48,9 +60,44 @@ export interface TradingPatterns {
     winRate: number; // percentage of profitable trades
     bestPerformingStock: { symbol: string; return: number };
     worstPerformingStock: { symbol: string; return: number };
+    benchmarkSymbol: string;
+    primaryHorizonDays: number; // horizon behind avgReturn, winRate and best/worst stock
+    horizons: HorizonPerformance[];
   };
 }
 
+// Forward-return performance of a set of trades at one horizon, in percent.
+// Returns are trader-direction: a sale profits when the stock subsequently falls.
+export interface HorizonPerformance {
+  horizonDays: number;
+  tradesEvaluated: number;
+  avgReturn: number;
+  avgBenchmarkReturn: number;
+  alpha: number; // avgReturn over the benchmark for the same windows
+  winRate: number; // percentage of trades with a positive return
+  beatBenchmarkRate: number; // percentage of trades that outperformed the benchmark
+}
+
+// Which trades flow analytics count: one asset class, 'equity' (stocks and ETFs) or 'all'
+export type AssetClassFilter = AssetClass | 'equity' | 'all';
+
+export const ASSET_CLASS_FILTERS: AssetClassFilter[] = ['equity', 'all', ...ASSET_CLASSES];
+
+export interface PerformanceBenchmarks {
+  timeframe: 'month' | 'quarter' | 'year';
+  assetClass: AssetClassFilter;
+  benchmarkSymbol: string;
+  primaryHorizonDays: number;
+  avgPortfolioSize: number;
+  avgConcentration: number;
+  avgTradingFrequency: number;
+  horizons: HorizonPerformance[]; // across every trade in the timeframe
+  tradersBeatingBenchmark: number; // percentage of ranked traders with positive alpha
+  topPerformers: Array<{ traderId: string; traderName: string; score: number; tradesEvaluated: number }>;
+  mostDiversified: Array<{ traderId: string; traderName: string; score: number }>;
+  mostActive: Array<{ traderId: string; traderName: string; tradeCount: number }>;
+}
+
 export interface MarketTrends {
   timeframe: 'day' | 'week' | 'month' | 'quarter';
   totalTrades: number;
@@ -98,10 +145,207 @@ export interface ComparisonAnalysis {
   insights: string[];
 }
 
+export type SectorTimeframe = 'day' | 'week' | 'month' | 'quarter' | 'year';
+
+export interface SectorMetrics {
+  totalTrades: number;
+  totalValue: number;
+  avgTradeSize: number;
+  uniqueTraders: number;
+  buyTrades: number;
+  sellTrades: number;
+  buyValue: number;
+  sellValue: number;
+  netFlow: number; // buy value minus sell value
+  sentiment: 'bullish' | 'bearish' | 'neutral';
+}
+
+export interface SectorStockActivity {
+  symbol: string;
+  companyName: string;
+  sector: string;
+  tradeCount: number;
+  totalValue: number;
+  uniqueTraders: number;
+  sentiment: 'bullish' | 'bearish' | 'neutral';
+}
+
+export interface SectorTraderActivity {
+  traderId: string;
+  traderType: 'congressional' | 'corporate';
+  traderName: string;
+  tradeCount: number;
+  totalValue: number;
+  netFlow: number;
+  sentiment: 'bullish' | 'bearish' | 'neutral';
+}
+
+export interface SectorBreakdown {
+  sector: string;
+  metrics: SectorMetrics;
+  shareOfValue: number; // percentage of total traded value in the period
+  topStocks: SectorStockActivity[];
+  topTraders: SectorTraderActivity[];
+}
+
+export interface SectorPeriodComparison {
+  sector: string;
+  current: { totalTrades: number; totalValue: number; sentiment: 'bullish' | 'bearish' | 'neutral' };
+  previous: { totalTrades: number; totalValue: number; sentiment: 'bullish' | 'bearish' | 'neutral' };
+  tradeCountChange: number | null; // percentage, null when the previous period had no trades
+  valueChange: number | null;
+}
+
+export interface SectorAnalysis {
+  timeframe: SectorTimeframe;
+  sector: string;
+  assetClass: AssetClassFilter;
+  period: {
+    start: string;
+    end: string;
+    previousStart: string;
+  };
+  metrics: SectorMetrics;
+  sectors: SectorBreakdown[];
+  topStocks: SectorStockActivity[];
+  topTraders: SectorTraderActivity[];
+  performanceComparison: SectorPeriodComparison[];
+}
+
+export type CorrelationInterval = 'week' | 'month';
+
+export interface CorrelationPair {
+  entityA: string;
+  entityB: string;
+  coefficient: number | null; // null when either series has no variance
+  pValue: number | null;
+  significant: boolean;
+  sampleSize: number;
+  sharedTickers: string[]; // tickers both entities traded within the same bucket
+  sharedBuckets: number; // buckets in which both entities traded a common ticker
+}
+
+export interface CorrelationAnalysis {
+  analysisType: 'trader' | 'sector';
+  timeframe: 'month' | 'quarter' | 'year';
+  interval: CorrelationInterval;
+  assetClass: AssetClassFilter;
+  entities: string[];
+  entityNames: string[];
+  buckets: string[];
+  series: number[][]; // net buy/sell dollar flow per entity, aligned with buckets
+  correlationMatrix: Array<Array<number | null>>;
+  pairs: CorrelationPair[];
+  insights: string[];
+  methodology: string;
+  significanceLevel: number;
+}
+
+export interface RiskDriver {
+  factor: 'concentration' | 'sector_overexposure' | 'late_filing' | 'derivatives';
+  score: number; // 0-100 for this factor alone
+  weight: number; // share of the composite score
+  contribution: number; // points contributed to the composite score
+  explanation: string;
+}
+
+export interface RiskAssessment {
+  traderId: string;
+  traderName: string;
+  traderType: 'congressional' | 'corporate';
+  timeframe: 'month' | 'quarter' | 'year';
+  riskScore: number; // 0-100, higher = more risky
+  riskLevel: 'High' | 'Medium' | 'Low';
+  metrics: {
+    diversificationRatio: number;
+    herfindahlIndex: number;
+    largestPosition: number;
+    top5Concentration: number;
+  };
+  portfolioMetrics: {
+    totalPositions: number;
+    totalValue: number;
+    concentrationScore: number;
+    effectivePositions: number; // 1 / HHI, the equivalent number of equal-sized positions
+  };
+  sectorExposure: Array<{
+    sector: string;
+    percentage: number;
+    benchmarkPercentage: number; // same sector's share across all traders of this type
+    overexposed: boolean;
+  }>;
+  filingCompliance: {
+    filingWindowDays: number;
+    tradesWithFilingDate: number;
+    lateFilings: number;
+    lateFilingShare: number; // percentage of filed trades
+    avgFilingLagDays: number | null;
+    maxFilingLagDays: number | null;
+  };
+  derivativesExposure: {
+    optionTrades: number;
+    otherDerivativeTrades: number;
+    derivativeValue: number;
+    derivativeShare: number; // percentage of traded value
+  };
+  drivers: RiskDriver[];
+  recommendations: string[];
+}
+
+export interface LateFiler {
+  rank: number;
+  memberId: string;
+  name: string;
+  position: string;
+  stateCode: string;
+  partyAffiliation: string | null;
+  filedTrades: number;
+  lateFilings: number;
+  lateFilingShare: number; // percentage of filed trades
+  avgFilingLagDays: number;
+  maxFilingLagDays: number;
+}
+
+export interface LateFilersLeaderboard {
+  timeframe: 'quarter' | 'year' | 'all';
+  chamber: 'house' | 'senate' | 'all';
+  filingWindowDays: number;
+  minTrades: number;
+  leaders: LateFiler[];
+}
+
+export interface AssetClassBreakdown {
+  timeframe: 'month' | 'quarter' | 'year' | 'all';
+  traderId?: string;
+  totalTrades: number;
+  classes: Array<{
+    assetClass: AssetClass | 'unclassified';
+    trades: number;
+    totalValue: number;
+    buyValue: number;
+    sellValue: number;
+    netFlow: number;
+    percentage: number; // share of all trades
+    optionTypes?: Partial<Record<OptionType, { trades: number; totalValue: number }>>;
+  }>;
+}
+
 export class AnalyticsService {
   private static readonly CACHE_TTL = 3600; // 1 hour cache
   private static readonly HIGH_CONCENTRATION_THRESHOLD = 70;
   private static readonly DIVERSIFICATION_THRESHOLD = 10; // minimum positions for good diversification
+  private static readonly SECTOR_TOP_LIMIT = 5; // top stocks/traders listed per sector
+  private static readonly SIGNIFICANCE_LEVEL = 0.05;
+  private static readonly PRIMARY_RETURN_HORIZON = 90; // days
+  private static readonly MIN_TRADES_FOR_ALPHA = 3;
+  private static readonly BENCHMARK_LIST_LIMIT = 10;
+  private static readonly SECTOR_OVEREXPOSURE_THRESHOLD = 40; // percent of holdings in one sector
+  private static readonly RISK_WEIGHTS = {
+    concentration: 0.35,
+    sector_overexposure: 0.2,
+    late_filing: 0.25,
+    derivatives: 0.2
+  };
 
   /**
    * Calculate portfolio concentration for a trader
@@ -132,6 +376,7 @@ export class AnalyticsService {
       const topHoldings = await this.enrichHoldings(
         positions.slice(0, 20).map(pos => ({
           symbol: pos.symbol,
+          assetClass: pos.assetClass,
           companyName: pos.companyName || pos.symbol,
           value: pos.value,
           percentage: totalAbsoluteValue > 0 ? (Math.abs(pos.value) / totalAbsoluteValue) * 100 : 0,
@@ -307,35 +552,139 @@ export class AnalyticsService {
   }
 
   /**
-   * Get performance benchmarks
+   * Get performance benchmarks: activity and diversification across traders,
+   * and forward-return alpha against SPY for trades made in the timeframe
    */
   static async getPerformanceBenchmarks(
-    timeframe: 'month' | 'quarter' | 'year' = 'year'
-  ): Promise<{
-    avgPortfolioSize: number;
-    avgConcentration: number;
-    avgTradingFrequency: number;
-    topPerformers: Array<{ traderId: string; traderName: string; score: number }>;
-    mostDiversified: Array<{ traderId: string; traderName: string; score: number }>;
-    mostActive: Array<{ traderId: string; traderName: string; tradeCount: number }>;
-  }> {
+    timeframe: 'month' | 'quarter' | 'year' = 'year',
+    assetClass: AssetClassFilter = 'equity'
+  ): Promise<PerformanceBenchmarks> {
+    const startDate = this.getTimeframeStartDate(timeframe);
+    const months = { month: 1, quarter: 3, year: 12 }[timeframe];
+    const assetClasses = this.resolveAssetClasses(assetClass);
+
     try {
-      // This would calculate benchmarks across all traders
-      // For now, return mock data structure
+      const [positionsResult, forwardReturns] = await Promise.all([
+        db.query(
+          `SELECT st.trader_type, st.trader_id,
+                  COALESCE(cm.name, ci.name, 'Unknown') AS trader_name,
+                  st.ticker_symbol,
+                  COUNT(*)::int AS trade_count,
+                  COALESCE(SUM(st.estimated_value), 0) AS total_value
+           FROM stock_trades st
+           LEFT JOIN congressional_members cm ON st.trader_type = 'congressional' AND st.trader_id = cm.id
+           LEFT JOIN corporate_insiders ci ON st.trader_type = 'corporate' AND st.trader_id = ci.id
+           WHERE st.transaction_date >= $1 AND ${StockTrade.countedCondition()}
+             ${assetClasses ? `AND ${StockTrade.assetClassCondition('$2')}` : ''}
+           GROUP BY st.trader_type, st.trader_id, cm.name, ci.name, st.ticker_symbol`,
+          assetClasses ? [startDate, assetClasses] : [startDate]
+        ),
+        PriceHistoryService.getForwardReturns({ since: startDate, assetClasses })
+      ]);
+
+      const traders = new Map<string, {
+        traderId: string;
+        traderName: string;
+        tradeCount: number;
+        totalValue: number;
+        tickerValues: number[];
+      }>();
+      for (const row of positionsResult.rows) {
+        const key = `${row.trader_type}:${row.trader_id}`;
+        const trader = traders.get(key) || {
+          traderId: row.trader_id,
+          traderName: row.trader_name,
+          tradeCount: 0,
+          totalValue: 0,
+          tickerValues: []
+        };
+        const value = parseFloat(row.total_value) || 0;
+        trader.tradeCount += row.trade_count;
+        trader.totalValue += value;
+        trader.tickerValues.push(value);
+        traders.set(key, trader);
+      }
+
+      const traderStats = Array.from(traders.values()).map(trader => {
+        const herfindahlIndex = trader.totalValue > 0
+          ? trader.tickerValues.reduce((sum, value) => sum + Math.pow(value / trader.totalValue, 2), 0)
+          : 1;
+        return { ...trader, herfindahlIndex };
+      });
+      const traderCount = traderStats.length;
+
+      // Alpha per trader at the primary horizon
+      const returnsByTrader = new Map<string, TradeForwardReturn[]>();
+      for (const entry of forwardReturns) {
+        const key = `${entry.traderType}:${entry.traderId}`;
+        returnsByTrader.set(key, [...(returnsByTrader.get(key) || []), entry]);
+      }
+      const rankedTraders = Array.from(returnsByTrader.entries())
+        .map(([key, entries]) => ({
+          key,
+          performance: this.summarizeHorizon(entries, this.PRIMARY_RETURN_HORIZON)
+        }))
+        .filter(entry => entry.performance.tradesEvaluated >= this.MIN_TRADES_FOR_ALPHA);
+
       return {
-        avgPortfolioSize: 0,
-        avgConcentration: 0,
-        avgTradingFrequency: 0,
-        topPerformers: [],
-        mostDiversified: [],
-        mostActive: []
+        timeframe,
+        assetClass,
+        benchmarkSymbol: BENCHMARK_SYMBOL,
+        primaryHorizonDays: this.PRIMARY_RETURN_HORIZON,
+        avgPortfolioSize: traderCount > 0
+          ? traderStats.reduce((sum, trader) => sum + trader.totalValue, 0) / traderCount
+          : 0,
+        avgConcentration: traderCount > 0
+          ? traderStats.reduce((sum, trader) => sum + trader.herfindahlIndex * 100, 0) / traderCount
+          : 0,
+        avgTradingFrequency: traderCount > 0
+          ? traderStats.reduce((sum, trader) => sum + trader.tradeCount, 0) / traderCount / months
+          : 0,
+        horizons: RETURN_HORIZONS.map(horizon => this.summarizeHorizon(forwardReturns, horizon)),
+        tradersBeatingBenchmark: rankedTraders.length > 0
+          ? (rankedTraders.filter(entry => entry.performance.alpha > 0).length / rankedTraders.length) * 100
+          : 0,
+        topPerformers: rankedTraders
+          .sort((a, b) => b.performance.alpha - a.performance.alpha)
+          .slice(0, this.BENCHMARK_LIST_LIMIT)
+          .map(entry => {
+            const [, traderId] = entry.key.split(':');
+            return {
+              traderId,
+              traderName: traders.get(entry.key)?.traderName || 'Unknown',
+              score: Math.round(entry.performance.alpha * 100) / 100,
+              tradesEvaluated: entry.performance.tradesEvaluated
+            };
+          }),
+        mostDiversified: [...traderStats]
+          .sort((a, b) => a.herfindahlIndex - b.herfindahlIndex || b.tickerValues.length - a.tickerValues.length)
+          .slice(0, this.BENCHMARK_LIST_LIMIT)
+          .map(trader => ({
+            traderId: trader.traderId,
+            traderName: trader.traderName,
+            score: Math.round((1 - trader.herfindahlIndex) * 100)
+          })),
+        mostActive: [...traderStats]
+          .sort((a, b) => b.tradeCount - a.tradeCount)
+          .slice(0, this.BENCHMARK_LIST_LIMIT)
+          .map(trader => ({
+            traderId: trader.traderId,
+            traderName: trader.traderName,
+            tradeCount: trader.tradeCount
+          }))
       };
     } catch (error) {
       console.error('Get performance benchmarks error:', error);
       return {
+        timeframe,
+        assetClass,
+        benchmarkSymbol: BENCHMARK_SYMBOL,
+        primaryHorizonDays: this.PRIMARY_RETURN_HORIZON,
         avgPortfolioSize: 0,
         avgConcentration: 0,
         avgTradingFrequency: 0,
+        horizons: [],
+        tradersBeatingBenchmark: 0,
         topPerformers: [],
         mostDiversified: [],
         mostActive: []
@@ -343,6 +692,766 @@ export class AnalyticsService {
     }
   }
 
+  /**
+   * Aggregate trading activity by stock sector over a timeframe, with
+   * the immediately preceding period of equal length for comparison
+   */
+  static async getSectorAnalysis(
+    timeframe: SectorTimeframe = 'month',
+    sector?: string,
+    assetClass: AssetClassFilter = 'equity'
+  ): Promise<SectorAnalysis> {
+    const end = new Date();
+    const start = this.getTimeframeStartDate(timeframe);
+    const previousStart = new Date(start.getTime() - (end.getTime() - start.getTime()));
+
+    // Every query binds its period as $1 and $2; the filters follow
+    const filterParams: any[] = [];
+    const filterParam = (value: any) => {
+      filterParams.push(value);
+      return `$${filterParams.length + 2}`;
+    };
+
+    const sectorFilter = sector && sector !== 'all' ? sector : null;
+    let filterClause = '';
+    if (sectorFilter) {
+      filterClause += ` AND LOWER(COALESCE(sk.sector, 'Unknown')) = LOWER(${filterParam(sectorFilter)})`;
+    }
+    const assetClasses = this.resolveAssetClasses(assetClass);
+    if (assetClasses) {
+      filterClause += ` AND ${StockTrade.assetClassCondition(filterParam(assetClasses))}`;
+    }
+
+    const client = await db.connect();
+    try {
+      // Sector totals for both periods; the empty grouping set yields the overall row
+      const totalsResult = await client.query(
+        `SELECT
+           GROUPING(COALESCE(sk.sector, 'Unknown')) AS is_total,
+           COALESCE(sk.sector, 'Unknown') AS sector,
+           COUNT(*) FILTER (WHERE st.transaction_date >= $1)::int AS trade_count,
+           COALESCE(SUM(st.estimated_value) FILTER (WHERE st.transaction_date >= $1), 0) AS total_value,
+           COUNT(DISTINCT st.trader_type || ':' || st.trader_id) FILTER (WHERE st.transaction_date >= $1)::int AS unique_traders,
+           COUNT(*) FILTER (WHERE st.transaction_date >= $1 AND st.transaction_type = 'buy')::int AS buy_count,
+           COUNT(*) FILTER (WHERE st.transaction_date >= $1 AND st.transaction_type = 'sell')::int AS sell_count,
+           COALESCE(SUM(st.estimated_value) FILTER (WHERE st.transaction_date >= $1 AND st.transaction_type = 'buy'), 0) AS buy_value,
+           COALESCE(SUM(st.estimated_value) FILTER (WHERE st.transaction_date >= $1 AND st.transaction_type = 'sell'), 0) AS sell_value,
+           COUNT(*) FILTER (WHERE st.transaction_date < $1)::int AS prev_trade_count,
+           COALESCE(SUM(st.estimated_value) FILTER (WHERE st.transaction_date < $1), 0) AS prev_total_value,
+           COUNT(*) FILTER (WHERE st.transaction_date < $1 AND st.transaction_type = 'buy')::int AS prev_buy_count,
+           COUNT(*) FILTER (WHERE st.transaction_date < $1 AND st.transaction_type = 'sell')::int AS prev_sell_count
+         FROM stock_trades st
+         LEFT JOIN stock_tickers sk ON st.ticker_symbol = sk.symbol
+         WHERE st.transaction_date >= $2 AND ${StockTrade.countedCondition()}${filterClause}
+         GROUP BY GROUPING SETS ((COALESCE(sk.sector, 'Unknown')), ())`,
+        [start, previousStart, ...filterParams]
+      );
+
+      const stocksResult = await client.query(
+        `SELECT
+           COALESCE(sk.sector, 'Unknown') AS sector,
+           st.ticker_symbol,
+           COALESCE(sk.company_name, st.ticker_symbol) AS company_name,
+           COUNT(*)::int AS trade_count,
+           COALESCE(SUM(st.estimated_value), 0) AS total_value,
+           COUNT(DISTINCT st.trader_type || ':' || st.trader_id)::int AS unique_traders,
+           COUNT(*) FILTER (WHERE st.transaction_type = 'buy')::int AS buy_count,
+           COUNT(*) FILTER (WHERE st.transaction_type = 'sell')::int AS sell_count
+         FROM stock_trades st
+         LEFT JOIN stock_tickers sk ON st.ticker_symbol = sk.symbol
+         WHERE st.transaction_date >= $1 AND st.transaction_date <= $2
+           AND ${StockTrade.countedCondition()}${filterClause}
+         GROUP BY COALESCE(sk.sector, 'Unknown'), st.ticker_symbol, sk.company_name
+         ORDER BY total_value DESC`,
+        [start, end, ...filterParams]
+      );
+
+      const tradersResult = await client.query(
+        `SELECT
+           COALESCE(sk.sector, 'Unknown') AS sector,
+           st.trader_type,
+           st.trader_id,
+           COALESCE(cm.name, ci.name, 'Unknown') AS trader_name,
+           COUNT(*)::int AS trade_count,
+           COALESCE(SUM(st.estimated_value), 0) AS total_value,
+           COUNT(*) FILTER (WHERE st.transaction_type = 'buy')::int AS buy_count,
+           COUNT(*) FILTER (WHERE st.transaction_type = 'sell')::int AS sell_count,
+           COALESCE(SUM(st.estimated_value) FILTER (WHERE st.transaction_type = 'buy'), 0) AS buy_value,
+           COALESCE(SUM(st.estimated_value) FILTER (WHERE st.transaction_type = 'sell'), 0) AS sell_value
+         FROM stock_trades st
+         LEFT JOIN stock_tickers sk ON st.ticker_symbol = sk.symbol
+         LEFT JOIN congressional_members cm ON st.trader_type = 'congressional' AND st.trader_id = cm.id
+         LEFT JOIN corporate_insiders ci ON st.trader_type = 'corporate' AND st.trader_id = ci.id
+         WHERE st.transaction_date >= $1 AND st.transaction_date <= $2
+           AND ${StockTrade.countedCondition()}${filterClause}
+         GROUP BY COALESCE(sk.sector, 'Unknown'), st.trader_type, st.trader_id, cm.name, ci.name
+         ORDER BY total_value DESC`,
+        [start, end, ...filterParams]
+      );
+
+      const totalRow = totalsResult.rows.find(row => row.is_total === 1);
+      const sectorRows = totalsResult.rows.filter(row => row.is_total !== 1);
+      const metrics = this.buildSectorMetrics(totalRow);
+
+      const stocks: SectorStockActivity[] = stocksResult.rows.map(row => ({
+        symbol: row.ticker_symbol,
+        companyName: row.company_name,
+        sector: row.sector,
+        tradeCount: row.trade_count,
+        totalValue: parseFloat(row.total_value) || 0,
+        uniqueTraders: row.unique_traders,
+        sentiment: this.calculateMarketSentiment(row.buy_count, row.sell_count)
+      }));
+
+      const traderRows = tradersResult.rows.map(row => ({
+        sector: row.sector as string,
+        traderKey: `${row.trader_type}:${row.trader_id}`,
+        traderId: row.trader_id as string,
+        traderType: row.trader_type as 'congressional' | 'corporate',
+        traderName: row.trader_name as string,
+        tradeCount: row.trade_count as number,
+        totalValue: parseFloat(row.total_value) || 0,
+        buyCount: row.buy_count as number,
+        sellCount: row.sell_count as number,
+        netFlow: (parseFloat(row.buy_value) || 0) - (parseFloat(row.sell_value) || 0)
+      }));
+
+      const toTraderActivity = (row: typeof traderRows[number]): SectorTraderActivity => ({
+        traderId: row.traderId,
+        traderType: row.traderType,
+        traderName: row.traderName,
+        tradeCount: row.tradeCount,
+        totalValue: row.totalValue,
+        netFlow: row.netFlow,
+        sentiment: this.calculateMarketSentiment(row.buyCount, row.sellCount)
+      });
+
+      // Each trade belongs to exactly one sector, so per-sector trader rows can be summed
+      const tradersOverall = new Map<string, typeof traderRows[number]>();
+      for (const row of traderRows) {
+        const existing = tradersOverall.get(row.traderKey);
+        if (existing) {
+          existing.tradeCount += row.tradeCount;
+          existing.totalValue += row.totalValue;
+          existing.buyCount += row.buyCount;
+          existing.sellCount += row.sellCount;
+          existing.netFlow += row.netFlow;
+        } else {
+          tradersOverall.set(row.traderKey, { ...row });
+        }
+      }
+
+      const sectors: SectorBreakdown[] = sectorRows
+        .filter(row => row.trade_count > 0)
+        .map(row => ({
+          sector: row.sector,
+          metrics: this.buildSectorMetrics(row),
+          shareOfValue: metrics.totalValue > 0
+            ? ((parseFloat(row.total_value) || 0) / metrics.totalValue) * 100
+            : 0,
+          topStocks: stocks
+            .filter(stock => stock.sector === row.sector)
+            .slice(0, this.SECTOR_TOP_LIMIT),
+          topTraders: traderRows
+            .filter(trader => trader.sector === row.sector)
+            .slice(0, this.SECTOR_TOP_LIMIT)
+            .map(toTraderActivity)
+        }))
+        .sort((a, b) => b.metrics.totalValue - a.metrics.totalValue);
+
+      const performanceComparison: SectorPeriodComparison[] = sectorRows
+        .map(row => {
+          const currentValue = parseFloat(row.total_value) || 0;
+          const previousValue = parseFloat(row.prev_total_value) || 0;
+          return {
+            sector: row.sector,
+            current: {
+              totalTrades: row.trade_count,
+              totalValue: currentValue,
+              sentiment: this.calculateMarketSentiment(row.buy_count, row.sell_count)
+            },
+            previous: {
+              totalTrades: row.prev_trade_count,
+              totalValue: previousValue,
+              sentiment: this.calculateMarketSentiment(row.prev_buy_count, row.prev_sell_count)
+            },
+            tradeCountChange: this.percentChange(row.trade_count, row.prev_trade_count),
+            valueChange: this.percentChange(currentValue, previousValue)
+          };
+        })
+        .sort((a, b) => b.current.totalValue - a.current.totalValue);
+
+      return {
+        timeframe,
+        sector: sectorFilter || 'all',
+        assetClass,
+        period: {
+          start: start.toISOString(),
+          end: end.toISOString(),
+          previousStart: previousStart.toISOString()
+        },
+        metrics,
+        sectors,
+        topStocks: stocks.slice(0, this.SECTOR_TOP_LIMIT * 2),
+        topTraders: Array.from(tradersOverall.values())
+          .sort((a, b) => b.totalValue - a.totalValue)
+          .slice(0, this.SECTOR_TOP_LIMIT * 2)
+          .map(toTraderActivity),
+        performanceComparison
+      };
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Pairwise Pearson correlation of net buy/sell dollar flow between
+   * traders or sectors, bucketed by week or month
+   */
+  static async getCorrelationAnalysis(
+    analysisType: 'trader' | 'sector',
+    entityIds: string[],
+    timeframe: 'month' | 'quarter' | 'year' = 'year',
+    interval?: CorrelationInterval,
+    assetClass: AssetClassFilter = 'equity'
+  ): Promise<CorrelationAnalysis> {
+    const bucketInterval: CorrelationInterval = interval || (timeframe === 'year' ? 'month' : 'week');
+    const start = this.getTimeframeStartDate(timeframe);
+    const assetClasses = this.resolveAssetClasses(assetClass);
+
+    const entityExpression = analysisType === 'trader'
+      ? 'st.trader_id::text'
+      : `COALESCE(sk.sector, 'Unknown')`;
+    const entityCondition = analysisType === 'trader'
+      ? 'st.trader_id = ANY($3::uuid[])'
+      : `LOWER(COALESCE(sk.sector, 'Unknown')) = ANY($3::text[])`;
+    const lookupIds = analysisType === 'trader'
+      ? entityIds
+      : entityIds.map(id => id.toLowerCase());
+
+    const client = await db.connect();
+    try {
+      const bucketsResult = await client.query(
+        `SELECT to_char(bucket, 'YYYY-MM-DD') AS bucket
+         FROM generate_series(
+           date_trunc($1, $2::date),
+           date_trunc($1, CURRENT_DATE),
+           ('1 ' || $1)::interval
+         ) AS bucket
+         ORDER BY bucket`,
+        [bucketInterval, start]
+      );
+      const buckets: string[] = bucketsResult.rows.map(row => row.bucket);
+
+      const flowsResult = await client.query(
+        `SELECT
+           ${entityExpression} AS entity,
+           to_char(date_trunc($1, st.transaction_date), 'YYYY-MM-DD') AS bucket,
+           COALESCE(SUM(CASE WHEN st.transaction_type = 'buy' THEN st.estimated_value
+                             WHEN st.transaction_type = 'sell' THEN -st.estimated_value
+                             ELSE 0 END), 0) AS net_flow,
+           ARRAY_AGG(DISTINCT st.ticker_symbol) AS tickers
+         FROM stock_trades st
+         LEFT JOIN stock_tickers sk ON st.ticker_symbol = sk.symbol
+         WHERE st.transaction_date >= $2 AND ${entityCondition} AND ${StockTrade.countedCondition()}
+           ${assetClasses ? `AND ${StockTrade.assetClassCondition('$4')}` : ''}
+         GROUP BY 1, 2`,
+        assetClasses ? [bucketInterval, start, lookupIds, assetClasses] : [bucketInterval, start, lookupIds]
+      );
+
+      const entityNames = await this.resolveCorrelationEntityNames(client, analysisType, entityIds);
+
+      // Map each returned row back onto the requested entity it belongs to
+      const entityIndex = new Map<string, number>();
+      entityIds.forEach((id, index) => entityIndex.set(lookupIds[index], index));
+      const bucketIndex = new Map<string, number>();
+      buckets.forEach((bucket, index) => bucketIndex.set(bucket, index));
+
+      const series = entityIds.map(() => buckets.map(() => 0));
+      const tickersByBucket = entityIds.map(() => new Map<number, Set<string>>());
+
+      for (const row of flowsResult.rows) {
+        const key = analysisType === 'trader' ? row.entity : String(row.entity).toLowerCase();
+        const e = entityIndex.get(key);
+        const b = bucketIndex.get(row.bucket);
+        if (e === undefined || b === undefined) continue;
+
+        if (analysisType === 'sector') {
+          entityNames[e] = row.entity; // canonical casing from stock_tickers
+        }
+        series[e][b] += parseFloat(row.net_flow) || 0;
+        const tickers = tickersByBucket[e].get(b) || new Set<string>();
+        for (const ticker of row.tickers || []) {
+          tickers.add(ticker);
+        }
+        tickersByBucket[e].set(b, tickers);
+      }
+
+      const correlationMatrix: Array<Array<number | null>> = entityIds.map((_, i) =>
+        entityIds.map((__, j) => (i === j ? 1 : null))
+      );
+      const pairs: CorrelationPair[] = [];
+
+      for (let i = 0; i < entityIds.length; i++) {
+        for (let j = i + 1; j < entityIds.length; j++) {
+          const result = pearsonCorrelation(series[i], series[j]);
+          correlationMatrix[i][j] = result ? result.coefficient : null;
+          correlationMatrix[j][i] = result ? result.coefficient : null;
+
+          const sharedTickerCounts = new Map<string, number>();
+          let sharedBuckets = 0;
+          for (const [bucket, tickersA] of tickersByBucket[i]) {
+            const tickersB = tickersByBucket[j].get(bucket);
+            if (!tickersB) continue;
+            const common = Array.from(tickersA).filter(ticker => tickersB.has(ticker));
+            if (common.length === 0) continue;
+            sharedBuckets++;
+            for (const ticker of common) {
+              sharedTickerCounts.set(ticker, (sharedTickerCounts.get(ticker) || 0) + 1);
+            }
+          }
+
+          pairs.push({
+            entityA: entityIds[i],
+            entityB: entityIds[j],
+            coefficient: result ? result.coefficient : null,
+            pValue: result ? result.pValue : null,
+            significant: result ? result.pValue < this.SIGNIFICANCE_LEVEL : false,
+            sampleSize: buckets.length,
+            sharedTickers: Array.from(sharedTickerCounts.entries())
+              .sort((a, b) => b[1] - a[1])
+              .map(([ticker]) => ticker),
+            sharedBuckets
+          });
+        }
+      }
+
+      return {
+        analysisType,
+        timeframe,
+        interval: bucketInterval,
+        assetClass,
+        entities: entityIds,
+        entityNames,
+        buckets,
+        series,
+        correlationMatrix,
+        pairs,
+        insights: this.generateCorrelationInsights(
+          analysisType,
+          entityIds,
+          entityNames,
+          pairs,
+          buckets.length,
+          bucketInterval
+        ),
+        methodology: 'Pearson correlation coefficient',
+        significanceLevel: this.SIGNIFICANCE_LEVEL
+      };
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Composite risk profile for a trader: holdings concentration from the
+   * portfolio_concentration view, sector overexposure, STOCK Act filing
+   * lateness and option/derivative exposure over the timeframe
+   */
+  static async getRiskAssessment(
+    traderId: string,
+    timeframe: 'month' | 'quarter' | 'year' = 'year'
+  ): Promise<RiskAssessment | null> {
+    const client = await db.connect();
+    try {
+      const traderResult = await client.query(
+        `SELECT id, name, 'congressional' AS trader_type FROM congressional_members WHERE id = $1
+         UNION ALL
+         SELECT id, name, 'corporate' AS trader_type FROM corporate_insiders WHERE id = $1`,
+        [traderId]
+      );
+      if (traderResult.rows.length === 0) {
+        return null;
+      }
+      const trader = traderResult.rows[0];
+      const traderType: 'congressional' | 'corporate' = trader.trader_type;
+
+      // Current holdings come from the materialized view; fall back to the
+      // live trades when the view has not been refreshed since they arrived
+      let positionsResult = await client.query(
+        `SELECT pc.ticker_symbol, pc.net_position_value, COALESCE(sk.sector, 'Unknown') AS sector
+         FROM portfolio_concentration pc
+         LEFT JOIN stock_tickers sk ON pc.ticker_symbol = sk.symbol
+         WHERE pc.trader_type = $1 AND pc.trader_id = $2
+         ORDER BY pc.net_position_value DESC`,
+        [traderType, traderId]
+      );
+      if (positionsResult.rows.length === 0) {
+        positionsResult = await client.query(
+          `SELECT st.ticker_symbol,
+                  SUM(CASE WHEN st.transaction_type = 'buy' THEN st.estimated_value
+                           WHEN st.transaction_type = 'sell' THEN -st.estimated_value
+                           ELSE 0 END) AS net_position_value,
+                  COALESCE(sk.sector, 'Unknown') AS sector
+           FROM stock_trades st
+           LEFT JOIN stock_tickers sk ON st.ticker_symbol = sk.symbol
+           WHERE st.trader_type = $1 AND st.trader_id = $2 AND ${StockTrade.countedCondition()}
+             AND st.transaction_date >= NOW() - INTERVAL '2 years'
+             AND st.estimated_value IS NOT NULL
+           GROUP BY st.ticker_symbol, sk.sector
+           HAVING SUM(CASE WHEN st.transaction_type = 'buy' THEN st.estimated_value
+                           WHEN st.transaction_type = 'sell' THEN -st.estimated_value
+                           ELSE 0 END) > 0
+           ORDER BY net_position_value DESC`,
+          [traderType, traderId]
+        );
+      }
+
+      const benchmarkResult = await client.query(
+        `SELECT COALESCE(sk.sector, 'Unknown') AS sector, SUM(pc.net_position_value) AS value
+         FROM portfolio_concentration pc
+         LEFT JOIN stock_tickers sk ON pc.ticker_symbol = sk.symbol
+         WHERE pc.trader_type = $1
+         GROUP BY 1`,
+        [traderType]
+      );
+
+      const tradesResult = await client.query(
+        `SELECT estimated_value, asset_class,
+                (filing_date - transaction_date) AS filing_lag_days,
+                source_data->'originalData'->>'assetType' AS asset_type,
+                source_data->'originalData'->>'assetDescription' AS asset_description
+         FROM stock_trades
+         WHERE trader_type = $1 AND trader_id = $2 AND transaction_date >= $3
+           AND ${StockTrade.countedCondition('stock_trades')}`,
+        [traderType, traderId, this.getTimeframeStartDate(timeframe)]
+      );
+
+      if (positionsResult.rows.length === 0 && tradesResult.rows.length === 0) {
+        return null;
+      }
+
+      // Concentration
+      const positions = positionsResult.rows.map(row => ({
+        symbol: row.ticker_symbol,
+        sector: row.sector,
+        value: parseFloat(row.net_position_value) || 0
+      }));
+      const totalValue = positions.reduce((sum, pos) => sum + pos.value, 0);
+      const riskMetrics = this.calculateRiskMetrics(positions, totalValue);
+      const effectivePositions = positions.length > 0 && riskMetrics.herfindahlIndex > 0
+        ? 1 / riskMetrics.herfindahlIndex
+        : 0;
+
+      // Sector exposure against the peer benchmark
+      const benchmarkTotal = benchmarkResult.rows.reduce((sum, row) => sum + (parseFloat(row.value) || 0), 0);
+      const benchmarkShare = new Map<string, number>(benchmarkResult.rows.map(row => [
+        row.sector,
+        benchmarkTotal > 0 ? ((parseFloat(row.value) || 0) / benchmarkTotal) * 100 : 0
+      ]));
+      const sectorExposure = this.calculateSectorDistribution(positions, totalValue).map(entry => {
+        const benchmarkPercentage = benchmarkShare.get(entry.sector) || 0;
+        return {
+          sector: entry.sector,
+          percentage: entry.percentage,
+          benchmarkPercentage,
+          overexposed: entry.sector !== 'Unknown' && (
+            entry.percentage >= this.SECTOR_OVEREXPOSURE_THRESHOLD ||
+            (benchmarkTotal > 0 && entry.percentage >= this.SECTOR_OVEREXPOSURE_THRESHOLD / 2 &&
+              entry.percentage >= benchmarkPercentage * 2)
+          )
+        };
+      });
+
+      // Filing lateness and derivative exposure over the timeframe
+      let tradesWithFilingDate = 0;
+      let lateFilings = 0;
+      let lagTotal = 0;
+      let maxLag: number | null = null;
+      let optionTrades = 0;
+      let otherDerivativeTrades = 0;
+      let derivativeValue = 0;
+      let tradedValue = 0;
+
+      for (const row of tradesResult.rows) {
+        const value = parseFloat(row.estimated_value) || 0;
+        tradedValue += value;
+
+        if (row.filing_lag_days !== null && row.filing_lag_days !== undefined) {
+          const lag = Number(row.filing_lag_days);
+          tradesWithFilingDate++;
+          lagTotal += lag;
+          maxLag = maxLag === null ? lag : Math.max(maxLag, lag);
+          if (lag > STOCK_ACT_FILING_WINDOW_DAYS) {
+            lateFilings++;
+          }
+        }
+
+        const derivative = this.classifyDerivativeAsset(row.asset_class, row.asset_type, row.asset_description);
+        if (derivative === 'option') {
+          optionTrades++;
+        } else if (derivative === 'derivative') {
+          otherDerivativeTrades++;
+        }
+        if (derivative) {
+          derivativeValue += value;
+        }
+      }
+
+      const lateFilingShare = tradesWithFilingDate > 0 ? (lateFilings / tradesWithFilingDate) * 100 : 0;
+      const derivativeShare = tradedValue > 0 ? (derivativeValue / tradedValue) * 100 : 0;
+      const worstSector = sectorExposure.reduce<typeof sectorExposure[number] | null>(
+        (worst, entry) => (entry.sector !== 'Unknown' && (!worst || entry.percentage > worst.percentage) ? entry : worst),
+        null
+      );
+
+      // Factor scores, each 0-100
+      const factorScores = {
+        concentration: Math.min(100, riskMetrics.herfindahlIndex * 100),
+        sector_overexposure: worstSector
+          ? Math.min(100, Math.max(0, (worstSector.percentage - 25) / 75 * 100))
+          : 0,
+        late_filing: Math.min(100, lateFilingShare * 2),
+        derivatives: Math.min(100, derivativeShare * 2)
+      };
+
+      const explanations: Record<RiskDriver['factor'], string> = {
+        concentration: positions.length > 0
+          ? `Herfindahl index of ${riskMetrics.herfindahlIndex.toFixed(2)} across ${positions.length} positions, equivalent to ${effectivePositions.toFixed(1)} equal-sized holdings; largest position is ${riskMetrics.largestPosition.toFixed(1)}% of the portfolio`
+          : 'No open positions in the last two years',
+        sector_overexposure: worstSector
+          ? `${worstSector.sector} makes up ${worstSector.percentage.toFixed(1)}% of holdings` + (benchmarkTotal > 0
+            ? ` versus ${worstSector.benchmarkPercentage.toFixed(1)}% for the average ${traderType === 'congressional' ? 'member' : 'insider'}`
+            : '')
+          : 'No sector data for current holdings',
+        late_filing: tradesWithFilingDate > 0
+          ? `${lateFilings} of ${tradesWithFilingDate} trades (${lateFilingShare.toFixed(1)}%) were disclosed more than ${STOCK_ACT_FILING_WINDOW_DAYS} days after the transaction`
+          : 'No filing dates recorded in this timeframe',
+        derivatives: optionTrades + otherDerivativeTrades > 0
+          ? `${optionTrades} option and ${otherDerivativeTrades} other derivative trades account for ${derivativeShare.toFixed(1)}% of traded value`
+          : 'No option or derivative trades in this timeframe'
+      };
+
+      const drivers: RiskDriver[] = (Object.keys(factorScores) as RiskDriver['factor'][])
+        .map(factor => ({
+          factor,
+          score: Math.round(factorScores[factor]),
+          weight: this.RISK_WEIGHTS[factor],
+          contribution: Math.round(factorScores[factor] * this.RISK_WEIGHTS[factor] * 10) / 10,
+          explanation: explanations[factor]
+        }))
+        .sort((a, b) => b.contribution - a.contribution);
+
+      const riskScore = Math.round(drivers.reduce((sum, driver) => sum + factorScores[driver.factor] * driver.weight, 0));
+
+      const recommendations = [
+        riskMetrics.herfindahlIndex > 0.25 ? 'Portfolio is concentrated in a few positions' : null,
+        riskMetrics.largestPosition > 25 ? 'Largest position represents significant portfolio risk' : null,
+        sectorExposure.some(entry => entry.overexposed)
+          ? `Overexposed to ${sectorExposure.filter(entry => entry.overexposed).map(entry => entry.sector).join(', ')}`
+          : null,
+        lateFilings > 0 ? `${lateFilings} ${lateFilings === 1 ? 'disclosure' : 'disclosures'} missed the STOCK Act ${STOCK_ACT_FILING_WINDOW_DAYS}-day window` : null,
+        derivativeShare > 10 ? 'Significant options or derivatives activity amplifies exposure' : null
+      ].filter((item): item is string => Boolean(item));
+
+      return {
+        traderId,
+        traderName: trader.name,
+        traderType,
+        timeframe,
+        riskScore,
+        riskLevel: riskScore > this.HIGH_CONCENTRATION_THRESHOLD ? 'High' : riskScore > 40 ? 'Medium' : 'Low',
+        metrics: riskMetrics,
+        portfolioMetrics: {
+          totalPositions: positions.length,
+          totalValue,
+          concentrationScore: Math.round(factorScores.concentration),
+          effectivePositions
+        },
+        sectorExposure,
+        filingCompliance: {
+          filingWindowDays: STOCK_ACT_FILING_WINDOW_DAYS,
+          tradesWithFilingDate,
+          lateFilings,
+          lateFilingShare,
+          avgFilingLagDays: tradesWithFilingDate > 0 ? lagTotal / tradesWithFilingDate : null,
+          maxFilingLagDays: maxLag
+        },
+        derivativesExposure: {
+          optionTrades,
+          otherDerivativeTrades,
+          derivativeValue,
+          derivativeShare
+        },
+        drivers,
+        recommendations
+      };
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Members ranked by how many trades they disclosed after the STOCK Act
+   * window, over trades filed within the timeframe
+   */
+  static async getLateFilers(options: {
+    timeframe?: 'quarter' | 'year' | 'all';
+    chamber?: 'house' | 'senate' | 'all';
+    minTrades?: number;
+    limit?: number;
+  } = {}): Promise<LateFilersLeaderboard> {
+    const timeframe = options.timeframe || 'year';
+    const chamber = options.chamber || 'all';
+    const minTrades = options.minTrades ?? 1;
+    const limit = options.limit ?? 20;
+
+    const params: any[] = [STOCK_ACT_FILING_WINDOW_DAYS, minTrades, limit];
+    let filters = '';
+    if (timeframe !== 'all') {
+      params.push(this.getTimeframeStartDate(timeframe));
+      filters += ` AND st.filing_date >= $${params.length}`;
+    }
+    if (chamber !== 'all') {
+      params.push(chamber === 'senate' ? 'senator' : 'representative');
+      filters += ` AND cm.position = $${params.length}`;
+    }
+
+    const result = await db.query(
+      `SELECT
+         cm.id, cm.name, cm.position, cm.state_code, cm.party_affiliation,
+         COUNT(*)::int AS filed_trades,
+         COUNT(*) FILTER (WHERE st.filing_date - st.transaction_date > $1)::int AS late_filings,
+         AVG(st.filing_date - st.transaction_date) AS avg_lag,
+         MAX(st.filing_date - st.transaction_date) AS max_lag
+       FROM stock_trades st
+       JOIN congressional_members cm ON st.trader_type = 'congressional' AND st.trader_id = cm.id
+       WHERE st.filing_date IS NOT NULL AND ${StockTrade.countedCondition()}${filters}
+       GROUP BY cm.id
+       HAVING COUNT(*) >= $2 AND COUNT(*) FILTER (WHERE st.filing_date - st.transaction_date > $1) > 0
+       ORDER BY late_filings DESC,
+                COUNT(*) FILTER (WHERE st.filing_date - st.transaction_date > $1)::numeric / COUNT(*) DESC,
+                max_lag DESC
+       LIMIT $3`,
+      params
+    );
+
+    return {
+      timeframe,
+      chamber,
+      filingWindowDays: STOCK_ACT_FILING_WINDOW_DAYS,
+      minTrades,
+      leaders: result.rows.map((row, index) => ({
+        rank: index + 1,
+        memberId: row.id,
+        name: row.name,
+        position: row.position,
+        stateCode: row.state_code,
+        partyAffiliation: row.party_affiliation || null,
+        filedTrades: row.filed_trades,
+        lateFilings: row.late_filings,
+        lateFilingShare: Math.round((row.late_filings / row.filed_trades) * 1000) / 10,
+        avgFilingLagDays: Math.round(parseFloat(row.avg_lag) * 10) / 10,
+        maxFilingLagDays: parseInt(row.max_lag)
+      }))
+    };
+  }
+
+  /**
+   * Trading activity split by asset class, with options broken down into
+   * calls and puts; trades synced before classification are counted apart
+   */
+  static async getAssetClassBreakdown(options: {
+    timeframe?: 'month' | 'quarter' | 'year' | 'all';
+    traderId?: string;
+  } = {}): Promise<AssetClassBreakdown> {
+    const timeframe = options.timeframe || 'year';
+
+    const params: any[] = [];
+    let filters = '';
+    if (timeframe !== 'all') {
+      params.push(this.getTimeframeStartDate(timeframe));
+      filters += ` AND transaction_date >= $${params.length}`;
+    }
+    if (options.traderId) {
+      params.push(options.traderId);
+      filters += ` AND trader_id = $${params.length}`;
+    }
+
+    const result = await db.query(
+      `SELECT
+         COALESCE(asset_class, 'unclassified') AS asset_class,
+         option_type,
+         COUNT(*)::int AS trades,
+         COALESCE(SUM(estimated_value), 0) AS total_value,
+         COALESCE(SUM(estimated_value) FILTER (WHERE transaction_type = 'buy'), 0) AS buy_value,
+         COALESCE(SUM(estimated_value) FILTER (WHERE transaction_type = 'sell'), 0) AS sell_value
+       FROM stock_trades
+       WHERE ${StockTrade.countedCondition('stock_trades')}${filters}
+       GROUP BY 1, 2`,
+      params
+    );
+
+    const classes = new Map<string, AssetClassBreakdown['classes'][number]>();
+    for (const row of result.rows) {
+      const totalValue = parseFloat(row.total_value) || 0;
+      const buyValue = parseFloat(row.buy_value) || 0;
+      const sellValue = parseFloat(row.sell_value) || 0;
+      const entry: AssetClassBreakdown['classes'][number] = classes.get(row.asset_class) || {
+        assetClass: row.asset_class,
+        trades: 0,
+        totalValue: 0,
+        buyValue: 0,
+        sellValue: 0,
+        netFlow: 0,
+        percentage: 0
+      };
+
+      entry.trades += row.trades;
+      entry.totalValue += totalValue;
+      entry.buyValue += buyValue;
+      entry.sellValue += sellValue;
+      entry.netFlow = entry.buyValue - entry.sellValue;
+
+      if (row.asset_class === 'option' && row.option_type) {
+        const optionTypes = entry.optionTypes || {};
+        optionTypes[row.option_type as OptionType] = { trades: row.trades, totalValue };
+        entry.optionTypes = optionTypes;
+      }
+
+      classes.set(row.asset_class, entry);
+    }
+
+    const totalTrades = result.rows.reduce((sum, row) => sum + row.trades, 0);
+
+    return {
+      timeframe,
+      traderId: options.traderId,
+      totalTrades,
+      classes: Array.from(classes.values())
+        .map(entry => ({
+          ...entry,
+          percentage: totalTrades > 0 ? Math.round((entry.trades / totalTrades) * 1000) / 10 : 0
+        }))
+        .sort((a, b) => b.trades - a.trades)
+    };
+  }
+
+  /**
+   * Asset classes a filter selects, or undefined for every class
+   */
+  private static resolveAssetClasses(filter: AssetClassFilter): AssetClass[] | undefined {
+    if (filter === 'all') return undefined;
+    return filter === 'equity' ? EQUITY_ASSET_CLASSES : [filter];
+  }
+
+  /**
+   * Refresh the portfolio_concentration materialized view after new trades arrive
+   */
+  static async refreshPortfolioConcentration(): Promise<void> {
+    await db.query('SELECT refresh_portfolio_concentration()');
+  }
+
   /**
    * Get trader trades for a timeframe
    */
@@ -350,19 +1459,15 @@ export class AnalyticsService {
     traderId: string,
     timeframe: string
   ): Promise<StockTrade[]> {
-    const startDate = timeframe === 'all' ? null : this.getTimeframeStartDate(timeframe);
-
-    if (startDate) {
-      return await StockTrade.findByTraderAndDateRange(traderId, startDate, new Date());
-    } else {
-      // Fetch all trades for this congressional member
-      const { trades } = await StockTrade.findWithFilters(
-        { traderId, traderType: 'congressional' },
-        10000, // high limit to get all trades
-        0
-      );
-      return trades;
-    }
+    const startDate = timeframe === 'all' ? undefined : this.getTimeframeStartDate(timeframe);
+
+    // Fetch all trades for this congressional member within the timeframe
+    const { trades } = await StockTrade.findWithFilters(
+      { traderId, traderType: 'congressional', startDate, excludeWithdrawn: true },
+      10000, // high limit to get all trades
+      0
+    );
+    return trades;
   }
 
   /**
@@ -370,6 +1475,7 @@ export class AnalyticsService {
    */
   private static calculateNetPositions(trades: StockTrade[]): Array<{
     symbol: string;
+    assetClass: AssetClass;
     companyName?: string;
     sector?: string;
     value: number;
@@ -380,9 +1486,12 @@ export class AnalyticsService {
     const positions = new Map();
 
     for (const trade of trades) {
-      const key = trade.tickerSymbol;
+      // Options and bonds on a ticker are separate holdings from its shares
+      const assetClass = trade.assetClass || 'stock';
+      const key = `${trade.tickerSymbol}:${assetClass}`;
       const existing = positions.get(key) || {
         symbol: trade.tickerSymbol,
+        assetClass,
         value: 0,
         shares: 0,
         transactionCount: 0,
@@ -540,17 +1649,74 @@ export class AnalyticsService {
   }
 
   /**
-   * Calculate trader performance
+   * Calculate trader performance from forward returns against SPY
    */
-  private static async calculateTraderPerformance(trades: StockTrade[]): Promise<any> {
-    const totalValue = trades.reduce((sum, trade) => sum + (trade.estimatedValue || 0), 0);
+  private static async calculateTraderPerformance(trades: StockTrade[]): Promise<TradingPatterns['performance']> {
+    const totalValue = trades.reduce((sum, trade) => sum + (parseFloat(String(trade.estimatedValue)) || 0), 0);
+    const tradeIds = trades.map(trade => trade.id).filter((id): id is string => Boolean(id));
+    const forwardReturns = await PriceHistoryService.getForwardReturns({ tradeIds });
+
+    const horizons = RETURN_HORIZONS.map(horizon => this.summarizeHorizon(forwardReturns, horizon));
+    const primary = horizons.find(entry => entry.horizonDays === this.PRIMARY_RETURN_HORIZON)!;
+
+    // Average trader-direction return per stock at the primary horizon
+    const byStock = new Map<string, number[]>();
+    for (const entry of forwardReturns) {
+      if (entry.horizonDays !== this.PRIMARY_RETURN_HORIZON || entry.excessReturn === null) continue;
+      const directedReturn = entry.transactionType === 'sell' ? -entry.stockReturn! : entry.stockReturn!;
+      byStock.set(entry.tickerSymbol, [...(byStock.get(entry.tickerSymbol) || []), directedReturn]);
+    }
+    const stockReturns = Array.from(byStock.entries())
+      .map(([symbol, returns]) => ({ symbol, return: returns.reduce((sum, r) => sum + r, 0) / returns.length }))
+      .sort((a, b) => b.return - a.return);
 
     return {
       totalValue,
-      avgReturn: 0, // Would require price data
-      winRate: 50, // Would require performance tracking
-      bestPerformingStock: { symbol: 'N/A', return: 0 },
-      worstPerformingStock: { symbol: 'N/A', return: 0 }
+      avgReturn: primary.avgReturn,
+      winRate: primary.winRate,
+      bestPerformingStock: stockReturns[0] || { symbol: 'N/A', return: 0 },
+      worstPerformingStock: stockReturns[stockReturns.length - 1] || { symbol: 'N/A', return: 0 },
+      benchmarkSymbol: BENCHMARK_SYMBOL,
+      primaryHorizonDays: this.PRIMARY_RETURN_HORIZON,
+      horizons
+    };
+  }
+
+  /**
+   * Summarize buy/sell forward returns at one horizon; trades without prices
+   * for both the stock and the benchmark are left out
+   */
+  private static summarizeHorizon(forwardReturns: TradeForwardReturn[], horizonDays: number): HorizonPerformance {
+    const evaluated = forwardReturns.filter(entry =>
+      entry.horizonDays === horizonDays && entry.excessReturn !== null
+    );
+    const count = evaluated.length;
+    if (count === 0) {
+      return { horizonDays, tradesEvaluated: 0, avgReturn: 0, avgBenchmarkReturn: 0, alpha: 0, winRate: 0, beatBenchmarkRate: 0 };
+    }
+
+    let returnSum = 0;
+    let benchmarkSum = 0;
+    let wins = 0;
+    let beats = 0;
+    for (const entry of evaluated) {
+      const directedReturn = entry.transactionType === 'sell' ? -entry.stockReturn! : entry.stockReturn!;
+      // A sale is measured against staying in the market, so its benchmark leg is flipped too
+      const directedBenchmark = entry.transactionType === 'sell' ? -entry.benchmarkReturn! : entry.benchmarkReturn!;
+      returnSum += directedReturn;
+      benchmarkSum += directedBenchmark;
+      if (directedReturn > 0) wins++;
+      if (entry.excessReturn! > 0) beats++;
+    }
+
+    return {
+      horizonDays,
+      tradesEvaluated: count,
+      avgReturn: returnSum / count,
+      avgBenchmarkReturn: benchmarkSum / count,
+      alpha: (returnSum - benchmarkSum) / count,
+      winRate: (wins / count) * 100,
+      beatBenchmarkRate: (beats / count) * 100
     };
   }
 
@@ -565,6 +1731,156 @@ export class AnalyticsService {
     return 'neutral';
   }
 
+  /**
+   * Resolve display names for correlation entities
+   */
+  private static async resolveCorrelationEntityNames(
+    client: PoolClient,
+    analysisType: 'trader' | 'sector',
+    entityIds: string[]
+  ): Promise<string[]> {
+    if (analysisType === 'sector') {
+      return [...entityIds];
+    }
+
+    const result = await client.query(
+      `SELECT id::text AS id, name FROM congressional_members WHERE id = ANY($1::uuid[])
+       UNION ALL
+       SELECT id::text AS id, name FROM corporate_insiders WHERE id = ANY($1::uuid[])`,
+      [entityIds]
+    );
+    const names = new Map<string, string>(result.rows.map(row => [row.id, row.name]));
+    return entityIds.map(id => names.get(id) || id);
+  }
+
+  /**
+   * Plain-language summaries of the notable correlation pairs
+   */
+  private static generateCorrelationInsights(
+    analysisType: 'trader' | 'sector',
+    entityIds: string[],
+    entityNames: string[],
+    pairs: CorrelationPair[],
+    sampleSize: number,
+    interval: CorrelationInterval
+  ): string[] {
+    const insights: string[] = [];
+    const nameOf = (id: string): string => entityNames[entityIds.indexOf(id)] || id;
+    const period = `${interval}s`;
+
+    if (sampleSize < 3) {
+      insights.push(`Not enough ${period} in this timeframe to test for correlation`);
+      return insights;
+    }
+
+    const ranked = [...pairs].sort(
+      (a, b) => Math.abs(b.coefficient || 0) - Math.abs(a.coefficient || 0)
+    );
+
+    for (const pair of ranked) {
+      const a = nameOf(pair.entityA);
+      const b = nameOf(pair.entityB);
+      const pText = pair.pValue !== null && pair.pValue < 0.001 ? 'p < 0.001' : `p = ${pair.pValue?.toFixed(3)}`;
+      const stats = `r = ${pair.coefficient?.toFixed(2)}, ${pText}`;
+
+      if (pair.significant && (pair.coefficient || 0) > 0) {
+        insights.push(`${a} and ${b} tend to buy and sell in the same ${period} (${stats})`);
+      } else if (pair.significant) {
+        insights.push(`${a} and ${b} move money in opposite directions: when one is buying, the other tends to be selling (${stats})`);
+      }
+
+      if (analysisType === 'trader' && pair.sharedBuckets >= 2) {
+        const tickers = pair.sharedTickers.slice(0, 3).join(', ');
+        insights.push(`${a} and ${b} traded the same names in the same ${interval} ${pair.sharedBuckets} times (${tickers})`);
+      }
+    }
+
+    if (!pairs.some(pair => pair.significant)) {
+      insights.push(`No statistically significant correlations at the ${this.SIGNIFICANCE_LEVEL} level`);
+    }
+
+    if (pairs.length > 0 && pairs.every(pair => pair.coefficient === null)) {
+      insights.push(`No variation in trading flow over this timeframe, so correlations could not be computed`);
+    }
+
+    return insights;
+  }
+
+  /**
+   * Classify a disclosure's asset as an option, another derivative, or neither.
+   * The stored asset class wins; the disclosure text is only read for trades
+   * not yet classified or classified as other.
+   */
+  private static classifyDerivativeAsset(
+    assetClass?: string | null,
+    assetType?: string | null,
+    assetDescription?: string | null
+  ): 'option' | 'derivative' | null {
+    if (assetClass === 'option') {
+      return 'option';
+    }
+    if (assetClass && assetClass !== 'other') {
+      return null;
+    }
+
+    const text = `${assetType || ''} ${assetDescription || ''}`.toLowerCase();
+
+    if (/\boption|\bcall\b|\bput\b/.test(text)) {
+      return 'option';
+    }
+    if (/warrant|future|swap|forward contract|derivative/.test(text)) {
+      return 'derivative';
+    }
+    return null;
+  }
+
+  /**
+   * Build sector metrics from an aggregate row of getSectorAnalysis
+   */
+  private static buildSectorMetrics(row: any): SectorMetrics {
+    if (!row) {
+      return {
+        totalTrades: 0,
+        totalValue: 0,
+        avgTradeSize: 0,
+        uniqueTraders: 0,
+        buyTrades: 0,
+        sellTrades: 0,
+        buyValue: 0,
+        sellValue: 0,
+        netFlow: 0,
+        sentiment: 'neutral'
+      };
+    }
+
+    const totalValue = parseFloat(row.total_value) || 0;
+    const buyValue = parseFloat(row.buy_value) || 0;
+    const sellValue = parseFloat(row.sell_value) || 0;
+
+    return {
+      totalTrades: row.trade_count,
+      totalValue,
+      avgTradeSize: row.trade_count > 0 ? totalValue / row.trade_count : 0,
+      uniqueTraders: row.unique_traders,
+      buyTrades: row.buy_count,
+      sellTrades: row.sell_count,
+      buyValue,
+      sellValue,
+      netFlow: buyValue - sellValue,
+      sentiment: this.calculateMarketSentiment(row.buy_count, row.sell_count)
+    };
+  }
+
+  /**
+   * Percentage change between periods, null when there is no baseline
+   */
+  private static percentChange(current: number, previous: number): number | null {
+    if (!previous) {
+      return null;
+    }
+    return ((current - previous) / previous) * 100;
+  }
+
   /**
    * Get top sectors from trades
    */
@@ -1,12 +1,21 @@
 import * as bcrypt from 'bcrypt';
 import * as jwt from 'jsonwebtoken';
 import { User, CreateUserData, LoginCredentials, JWTPayload } from '../models/User';
+import { UserSession, SessionContext } from '../models/UserSession';
+import { AuthToken } from '../models/AuthToken';
+import { TwoFactorAuth } from '../models/TwoFactorAuth';
+import { AccountEmailService } from './AccountEmailService';
+import { TwoFactorService } from './TwoFactorService';
 
 export interface AuthResult {
   success: boolean;
   user?: User;
-  token?: string;
+  token?: string; // Short-lived access token
+  refreshToken?: string; // Exchanged for a new token pair at /auth/refresh
+  expiresIn?: number; // Seconds until the access token expires
+  twoFactorSetupRequired?: boolean; // Policy requires 2FA and the user hasn't enabled it
   error?: string;
+  errorCode?: 'TWO_FACTOR_REQUIRED' | 'TWO_FACTOR_INVALID';
 }
 
 export interface PasswordResetRequest {
@@ -30,13 +39,16 @@ export interface PasswordChangeData {
 
 export class AuthService {
   private static readonly SALT_ROUNDS = 12;
-  private static readonly JWT_EXPIRES_IN = '7d';
-  private static readonly RESET_TOKEN_EXPIRES_IN = '1h';
+  private static readonly ACCESS_TOKEN_EXPIRES_IN = process.env.ACCESS_TOKEN_EXPIRES_IN || '15m';
+  // Sessions end after this long without a refresh
+  private static readonly REFRESH_TOKEN_TTL_DAYS = parseInt(process.env.REFRESH_TOKEN_TTL_DAYS || '30');
+  private static readonly PASSWORD_RESET_TTL_MINUTES = 60;
+  private static readonly EMAIL_VERIFICATION_TTL_MINUTES = 24 * 60;
 
   /**
    * Register a new user with email and password
    */
-  static async register(userData: CreateUserData): Promise<AuthResult> {
+  static async register(userData: CreateUserData, context: SessionContext = {}): Promise<AuthResult> {
     try {
       // Check if user already exists
       const existingUser = await User.findByEmail(userData.email);
@@ -72,13 +84,12 @@ export class AuthService {
         };
       }
 
-      // Generate JWT token
-      const token = this.generateAccessToken(user);
+      await this.sendEmailVerification(user);
 
       return {
         success: true,
         user,
-        token
+        ...await this.startSession(user, context)
       };
     } catch (error) {
       console.error('Registration error:', error);
@@ -92,7 +103,7 @@ export class AuthService {
   /**
    * Authenticate user with email and password
    */
-  static async login(credentials: LoginCredentials): Promise<AuthResult> {
+  static async login(credentials: LoginCredentials, context: SessionContext = {}): Promise<AuthResult> {
     try {
       // Use the existing authenticate method from User model
       const user = await User.authenticate(credentials);
@@ -111,13 +122,33 @@ export class AuthService {
         };
       }
 
-      // Generate JWT token
-      const token = this.generateAccessToken(user);
+      // Second step: the client asks for a code and sends the login again with it
+      if (user.isTwoFactorEnabled()) {
+        if (!credentials.twoFactorCode) {
+          return {
+            success: false,
+            error: 'Two-factor authentication code required',
+            errorCode: 'TWO_FACTOR_REQUIRED'
+          };
+        }
+
+        const method = await TwoFactorAuth.verify(user.id!, credentials.twoFactorCode);
+        if (!method) {
+          return {
+            success: false,
+            error: 'Invalid two-factor authentication code',
+            errorCode: 'TWO_FACTOR_INVALID'
+          };
+        }
+      }
+
+      await user.updateLastLogin();
 
       return {
         success: true,
         user,
-        token
+        ...await this.startSession(user, context),
+        twoFactorSetupRequired: !user.isTwoFactorEnabled() && await TwoFactorService.isRequiredFor(user)
       };
     } catch (error) {
       console.error('Login error:', error);
@@ -128,6 +159,105 @@ export class AuthService {
     }
   }
 
+  /**
+   * Exchange a refresh token for a new access token and refresh token
+   */
+  static async refresh(refreshToken: string, context: SessionContext = {}): Promise<AuthResult> {
+    try {
+      const rotation = await UserSession.rotate(refreshToken, context, this.REFRESH_TOKEN_TTL_DAYS);
+
+      if (rotation.status === 'reused') {
+        console.warn(`⚠️  Refresh token reused for session ${rotation.session.id}; session revoked`);
+        return {
+          success: false,
+          error: 'Refresh token has already been used; the session has been revoked'
+        };
+      }
+
+      if (rotation.status === 'invalid') {
+        return {
+          success: false,
+          error: 'Invalid or expired refresh token'
+        };
+      }
+
+      const user = await User.findById(rotation.session.userId);
+      if (!user || user.subscriptionStatus === 'suspended') {
+        await rotation.session.revoke('user_revoked');
+        return {
+          success: false,
+          error: 'Account is not active'
+        };
+      }
+
+      const token = this.generateAccessToken(user, rotation.session.id);
+
+      return {
+        success: true,
+        user,
+        token,
+        refreshToken: rotation.refreshToken,
+        expiresIn: this.getExpiresIn(token)
+      };
+    } catch (error) {
+      console.error('Token refresh error:', error);
+      return {
+        success: false,
+        error: 'Token refresh failed. Please log in again.'
+      };
+    }
+  }
+
+  /**
+   * End the session an access token belongs to
+   */
+  static async logout(sessionId: string): Promise<{ success: boolean; error?: string }> {
+    try {
+      const session = await UserSession.findActiveById(sessionId);
+      if (session) {
+        await session.revoke('logout');
+      }
+
+      return { success: true };
+    } catch (error) {
+      console.error('Logout error:', error);
+      return {
+        success: false,
+        error: 'Failed to log out'
+      };
+    }
+  }
+
+  /**
+   * A user's active sessions, most recently seen first
+   */
+  static async getSessions(userId: string): Promise<UserSession[]> {
+    return UserSession.findActiveByUser(userId);
+  }
+
+  /**
+   * Revoke one of a user's sessions
+   */
+  static async revokeSession(userId: string, sessionId: string): Promise<{ success: boolean; error?: string }> {
+    const session = await UserSession.findActiveById(sessionId);
+    if (!session || session.userId !== userId) {
+      return {
+        success: false,
+        error: 'Session not found'
+      };
+    }
+
+    await session.revoke('user_revoked');
+    return { success: true };
+  }
+
+  /**
+   * Log a user out everywhere
+   */
+  static async revokeAllSessions(userId: string): Promise<number> {
+    return UserSession.revokeAllForUser(userId, 'user_revoked');
+  }
+
   /**
    * Verify JWT token and return user
    */
@@ -140,6 +270,15 @@ export class AuthService {
 
       // Verify token
       const payload = jwt.verify(token, jwtSecret) as JWTPayload;
+
+      // The session must still be active
+      const session = payload.sessionId ? await UserSession.findActiveById(payload.sessionId) : null;
+      if (!session || session.userId !== payload.userId) {
+        return {
+          success: false,
+          error: 'Session has been revoked'
+        };
+      }
       
       // Find user
       const user = await User.findById(payload.userId);
@@ -184,7 +323,7 @@ export class AuthService {
   }
 
   /**
-   * Request password reset - generates reset token
+   * Request password reset - emails a single-use reset link
    */
   static async requestPasswordReset(data: PasswordResetRequest): Promise<{ success: boolean; error?: string }> {
     try {
@@ -194,15 +333,18 @@ export class AuthService {
         return { success: true };
       }
 
-      // Generate reset token
-      const resetToken = this.generateResetToken(user);
-      
-      // Store reset token (in a real app, you'd store this in DB with expiration)
-      // For now, we'll just log it (in production, you'd send via email)
-      console.log(`Password reset token for ${user.email}: ${resetToken}`);
-      
-      // TODO: Send email with reset link
-      // await EmailService.sendPasswordResetEmail(user.email, resetToken);
+      try {
+        const { token } = await AuthToken.issue(
+          user.id!,
+          user.email,
+          'password_reset',
+          this.PASSWORD_RESET_TTL_MINUTES
+        );
+        await AccountEmailService.sendPasswordReset(user, token, this.PASSWORD_RESET_TTL_MINUTES);
+      } catch (error) {
+        // Answer as for an unknown address; a failure here would reveal the account
+        console.error(`Failed to send password reset email to user ${user.id}:`, error);
+      }
 
       return { success: true };
     } catch (error) {
@@ -215,34 +357,35 @@ export class AuthService {
   }
 
   /**
-   * Reset password using reset token
+   * Reset password using reset token. The token is used up even if the
+   * reset fails after this point, so a link never works twice.
    */
   static async resetPassword(data: PasswordResetData): Promise<{ success: boolean; error?: string }> {
     try {
-      // Verify reset token
-      const payload = this.verifyResetToken(data.token);
-      if (!payload) {
+      // Validate new password first so a weak one doesn't use up the link
+      const passwordValidation = this.validatePassword(data.newPassword);
+      if (!passwordValidation.isValid) {
         return {
           success: false,
-          error: 'Invalid or expired reset token'
+          error: passwordValidation.error || 'Password validation failed'
         };
       }
 
-      // Find user
-      const user = await User.findById(payload.userId);
-      if (!user) {
+      // Verify reset token
+      const authToken = await AuthToken.consume(data.token, 'password_reset');
+      if (!authToken) {
         return {
           success: false,
-          error: 'User not found'
+          error: 'Invalid or expired reset token'
         };
       }
 
-      // Validate new password
-      const passwordValidation = this.validatePassword(data.newPassword);
-      if (!passwordValidation.isValid) {
+      // Find user; the link is void if the address changed since it was sent
+      const user = await User.findById(authToken.userId);
+      if (!user || user.email !== authToken.email) {
         return {
           success: false,
-          error: passwordValidation.error || 'Password validation failed'
+          error: 'Invalid or expired reset token'
         };
       }
 
@@ -261,6 +404,12 @@ export class AuthService {
         client.release();
       }
 
+      // Whoever had the old password is logged out
+      await UserSession.revokeAllForUser(user.id!, 'password_change');
+
+      // Following the emailed link proves the user owns the address
+      await user.markEmailVerified();
+
       return { success: true };
     } catch (error) {
       console.error('Password reset error:', error);
@@ -271,6 +420,66 @@ export class AuthService {
     }
   }
 
+  /**
+   * Verify the user's email address using a verification token
+   */
+  static async verifyEmail(token: string): Promise<AuthResult> {
+    try {
+      const authToken = await AuthToken.consume(token, 'email_verification');
+      const user = authToken ? await User.findById(authToken.userId) : null;
+
+      // The link is void if the address changed since it was sent
+      if (!authToken || !user || user.email !== authToken.email) {
+        return {
+          success: false,
+          error: 'Invalid or expired verification token'
+        };
+      }
+
+      await user.markEmailVerified();
+
+      return {
+        success: true,
+        user
+      };
+    } catch (error) {
+      console.error('Email verification error:', error);
+      return {
+        success: false,
+        error: 'Failed to verify email address'
+      };
+    }
+  }
+
+  /**
+   * Send a fresh verification link; earlier links stop working
+   */
+  static async resendEmailVerification(userId: string): Promise<{ success: boolean; error?: string }> {
+    const user = await User.findById(userId);
+    if (!user) {
+      return {
+        success: false,
+        error: 'User not found'
+      };
+    }
+
+    if (user.isEmailVerified()) {
+      return {
+        success: false,
+        error: 'Email address is already verified'
+      };
+    }
+
+    if (!await this.sendEmailVerification(user)) {
+      return {
+        success: false,
+        error: 'Failed to send verification email'
+      };
+    }
+
+    return { success: true };
+  }
+
   /**
    * Update user profile information
    */
@@ -296,8 +505,13 @@ export class AuthService {
       }
 
       // Update profile
+      const emailChanged = data.email !== undefined && data.email !== user.email;
       await user.updateProfile(data);
 
+      if (emailChanged) {
+        await this.sendEmailVerification(user);
+      }
+
       return {
         success: true,
         user
@@ -312,9 +526,10 @@ export class AuthService {
   }
 
   /**
-   * Change user password
+   * Change user password. Every session is revoked, and the caller gets a
+   * fresh one so they stay logged in on this device.
    */
-  static async changePassword(userId: string, data: PasswordChangeData): Promise<{ success: boolean; error?: string }> {
+  static async changePassword(userId: string, data: PasswordChangeData, context: SessionContext = {}): Promise<AuthResult> {
     try {
       const user = await User.findById(userId);
       if (!user) {
@@ -373,7 +588,13 @@ export class AuthService {
         client.release();
       }
 
-      return { success: true };
+      await UserSession.revokeAllForUser(userId, 'password_change');
+
+      return {
+        success: true,
+        user,
+        ...await this.startSession(user, context)
+      };
     } catch (error) {
       console.error('Password change error:', error);
       return {
@@ -418,64 +639,67 @@ export class AuthService {
 
 
   /**
-   * Generate JWT access token
+   * Start a login session and issue its first token pair
    */
-  private static generateAccessToken(user: User): string {
-    const jwtSecret = process.env.JWT_SECRET;
-    if (!jwtSecret) {
-      throw new Error('JWT_SECRET not configured');
-    }
-
-    const payload: JWTPayload = {
-      userId: user.id!,
-      email: user.email
+  private static async startSession(
+    user: User,
+    context: SessionContext
+  ): Promise<Pick<AuthResult, 'token' | 'refreshToken' | 'expiresIn'>> {
+    const { session, refreshToken } = await UserSession.create(user.id!, context, this.REFRESH_TOKEN_TTL_DAYS);
+    const token = this.generateAccessToken(user, session.id);
+
+    return {
+      token,
+      refreshToken,
+      expiresIn: this.getExpiresIn(token)
     };
-
-    return jwt.sign(payload, jwtSecret, {
-      expiresIn: this.JWT_EXPIRES_IN
-    });
   }
 
   /**
-   * Generate password reset token
+   * Generate JWT access token for a session
    */
-  private static generateResetToken(user: User): string {
+  private static generateAccessToken(user: User, sessionId: string): string {
     const jwtSecret = process.env.JWT_SECRET;
     if (!jwtSecret) {
       throw new Error('JWT_SECRET not configured');
     }
 
-    const payload = {
+    const payload: JWTPayload = {
       userId: user.id!,
       email: user.email,
-      type: 'password_reset'
+      sessionId
     };
 
     return jwt.sign(payload, jwtSecret, {
-      expiresIn: this.RESET_TOKEN_EXPIRES_IN
-    });
+      expiresIn: this.ACCESS_TOKEN_EXPIRES_IN
+    } as jwt.SignOptions);
   }
 
   /**
-   * Verify reset token
+   * Seconds until an access token expires
    */
-  private static verifyResetToken(token: string): any {
-    try {
-      const jwtSecret = process.env.JWT_SECRET;
-      if (!jwtSecret) {
-        throw new Error('JWT_SECRET not configured');
-      }
-
-      const payload = jwt.verify(token, jwtSecret) as any;
-      
-      // Check if it's a reset token
-      if (payload.type !== 'password_reset') {
-        return null;
-      }
+  private static getExpiresIn(token: string): number {
+    const { exp } = jwt.decode(token) as JWTPayload;
+    return exp ? exp - Math.floor(Date.now() / 1000) : 0;
+  }
 
-      return payload;
+  /**
+   * Email a verification link for the user's current address. Failures are
+   * logged rather than thrown, since the user can ask for another link.
+   */
+  private static async sendEmailVerification(user: User): Promise<boolean> {
+    try {
+      const { token } = await AuthToken.issue(
+        user.id!,
+        user.email,
+        'email_verification',
+        this.EMAIL_VERIFICATION_TTL_MINUTES
+      );
+      await AccountEmailService.sendEmailVerification(user, token, this.EMAIL_VERIFICATION_TTL_MINUTES);
+      return true;
     } catch (error) {
-      return null;
+      console.error(`Failed to send verification email to user ${user.id}:`, error);
+      return false;
     }
   }
 
@@ -1,8 +1,13 @@
-import { FMPClient, getFMPClient, FMPSenateTradeResponse, FMPHouseTradeResponse, FMPInsiderTradingResponse } from './FMPClient';
-import { StockTrade, CreateStockTradeData } from '../models/StockTrade';
+import { FMPClient, getFMPClient, FMPInsiderTradingResponse } from './FMPClient';
+import { StockTrade, CreateStockTradeData, AssetClass } from '../models/StockTrade';
 import { CongressionalMember } from '../models/CongressionalMember';
 import { StockTicker } from '../models/StockTicker';
+import { TraderCorrection } from '../models/TraderCorrection';
+import { InsiderTransaction, InsiderTransactionData } from '../models/InsiderTransaction';
 import { db } from '../config/database';
+import { AlertService } from './AlertService';
+import { TradeStreamService } from './TradeStreamService';
+import { TradeDataSource, SourceTrade, DisclosedMember, getConfiguredDataSource, classifyAsset } from './dataSources';
 
 export interface SyncResult {
   success: boolean;
@@ -22,14 +27,26 @@ export interface SyncOptions {
   onProgress?: (progress: { current: number; total: number; type: string }) => void;
   useBatchProcessing?: boolean; // Use batch inserts for faster processing (default: true)
   batchSize?: number; // Number of trades to process in a batch (default: 100)
-  useCheckpoints?: boolean; // Enable resume capability via checkpoints (default: true)
+  useCheckpoints?: boolean; // Enable resume capability via checkpoints (default: when the data source supports it)
+}
+
+export interface AssetClassificationResult {
+  processedCount: number;
+  assetClassCounts: Partial<Record<AssetClass, number>>;
+  duration: number;
 }
 
 export class CongressionalDataService {
-  private fmpClient: FMPClient;
+  private fmpClient?: FMPClient;
+  private dataSource: TradeDataSource;
 
-  constructor(fmpClient?: FMPClient) {
-    this.fmpClient = fmpClient || getFMPClient();
+  /**
+   * Congressional trades come from the given data source, or the one
+   * configured by TRADE_DATA_SOURCE. Insider trades always come from FMP.
+   */
+  constructor(fmpClient?: FMPClient, dataSource?: TradeDataSource) {
+    this.fmpClient = fmpClient;
+    this.dataSource = dataSource || getConfiguredDataSource(fmpClient);
   }
 
   /**
@@ -108,7 +125,7 @@ export class CongressionalDataService {
     let skippedCount = 0;
     const errors: string[] = [];
 
-    const useCheckpoints = options.useCheckpoints !== false; // Default: true
+    const useCheckpoints = options.useCheckpoints ?? this.dataSource.supportsCheckpoints;
     const useBatchProcessing = options.useBatchProcessing !== false; // Default: true
     const batchSize = options.batchSize || 100;
 
@@ -152,11 +169,11 @@ export class CongressionalDataService {
         }
       }
 
-      console.log(`Fetching up to ${maxPages} pages of Senate trades (${limit} per page)...`);
-      const senateTrades = await this.fmpClient.getAllSenateTrades(maxPages, limit);
+      console.log(`Fetching Senate trades from ${this.dataSource.name}...`);
+      const senateTrades = await this.dataSource.fetchTrades('senate', { maxPages, limit });
 
-      if (!Array.isArray(senateTrades) || senateTrades.length === 0) {
-        console.log('No Senate trades found from FMP API');
+      if (senateTrades.length === 0) {
+        console.log(`No Senate trades found from ${this.dataSource.name}`);
         if (useCheckpoints) {
           await this.updateSyncProgress('senate', { status: 'completed', completed: true });
         }
@@ -171,7 +188,7 @@ export class CongressionalDataService {
         };
       }
 
-      console.log(`Processing ${senateTrades.length} Senate trades from ${maxPages} pages...`);
+      console.log(`Processing ${senateTrades.length} Senate trades...`);
 
       // Update total records if first run
       if (useCheckpoints && (!checkpoint || checkpoint.totalRecords === 0)) {
@@ -186,7 +203,7 @@ export class CongressionalDataService {
         const trade = senateTrades[i];
 
         try {
-          const result = await this.processSenateTradeRecord(trade, options.forceUpdate);
+          const result = await this.processSourceTrade(trade, options.forceUpdate);
 
           if (result.action === 'created') createdCount++;
           else if (result.action === 'updated') updatedCount++;
@@ -277,7 +294,7 @@ export class CongressionalDataService {
     let skippedCount = 0;
     const errors: string[] = [];
 
-    const useCheckpoints = options.useCheckpoints !== false; // Default: true
+    const useCheckpoints = options.useCheckpoints ?? this.dataSource.supportsCheckpoints;
     const batchSize = options.batchSize || 100;
 
     try {
@@ -320,11 +337,11 @@ export class CongressionalDataService {
         }
       }
 
-      console.log(`Fetching up to ${maxPages} pages of House trades (${limit} per page)...`);
-      const houseTrades = await this.fmpClient.getAllHouseTrades(maxPages, limit);
+      console.log(`Fetching House trades from ${this.dataSource.name}...`);
+      const houseTrades = await this.dataSource.fetchTrades('house', { maxPages, limit });
 
-      if (!Array.isArray(houseTrades) || houseTrades.length === 0) {
-        console.log('No House trades found from FMP API');
+      if (houseTrades.length === 0) {
+        console.log(`No House trades found from ${this.dataSource.name}`);
         if (useCheckpoints) {
           await this.updateSyncProgress('house', { status: 'completed', completed: true });
         }
@@ -339,7 +356,7 @@ export class CongressionalDataService {
         };
       }
 
-      console.log(`Processing ${houseTrades.length} House trades from ${maxPages} pages...`);
+      console.log(`Processing ${houseTrades.length} House trades...`);
 
       // Update total records if first run
       if (useCheckpoints && (!checkpoint || checkpoint.totalRecords === 0)) {
@@ -354,7 +371,7 @@ export class CongressionalDataService {
         const trade = houseTrades[i];
 
         try {
-          const result = await this.processHouseTradeRecord(trade, options.forceUpdate);
+          const result = await this.processSourceTrade(trade, options.forceUpdate);
 
           if (result.action === 'created') createdCount++;
           else if (result.action === 'updated') updatedCount++;
@@ -448,7 +465,7 @@ export class CongressionalDataService {
     try {
       console.log('Starting insider trades sync...');
       
-      const insiderTrades = await this.fmpClient.getLatestInsiderTrades(options.limit);
+      const insiderTrades = await this.getFMPClient().getLatestInsiderTrades(options.limit);
       
       if (!Array.isArray(insiderTrades) || insiderTrades.length === 0) {
         console.log('No insider trades found from FMP API');
@@ -522,155 +539,57 @@ export class CongressionalDataService {
   }
 
   /**
-   * Process a single Senate trade record
+   * Store one congressional trade from the data source
    */
-  private async processSenateTradeRecord(
-    trade: FMPSenateTradeResponse,
+  private async processSourceTrade(
+    record: SourceTrade,
     forceUpdate = false
   ): Promise<{ action: 'created' | 'updated' | 'skipped'; trade?: StockTrade }> {
     try {
-      // Find or create the congressional member
-      // Use office (full name) as the fullName parameter
-      const member = await this.findOrCreateCongressionalMember(
-        trade.office,
-        trade.firstName,
-        trade.lastName,
-        'senator',
-        trade.office,
-        trade.district
-      );
+      const member = await this.findOrCreateCongressionalMember(record.member);
 
       // Ensure the stock ticker exists
-      const ticker = await this.findOrCreateStockTicker(trade.symbol, trade.assetDescription);
-
-      // Parse dates
-      const transactionDate = new Date(trade.transactionDate);
-      const filingDate = trade.disclosureDate ? new Date(trade.disclosureDate) : undefined;
-
-      // Parse transaction type
-      const transactionType = this.parseTransactionType(trade.type);
-
-      // Parse estimated value from amount range
-      const estimatedValue = this.parseAmountRange(trade.amount);
+      await this.findOrCreateStockTicker(record.trade.tickerSymbol, record.companyName || '');
 
       // Check if this trade already exists
-      const existingTrade = await this.findExistingTrade(
+      const existingTrade = await StockTrade.findExistingTrade(
         'congressional',
         member.id!,
-        trade.symbol,
-        transactionDate,
-        transactionType
+        record.trade.tickerSymbol,
+        record.trade.transactionDate,
+        record.trade.transactionType,
+        record.trade
       );
 
-      if (existingTrade && !forceUpdate) {
-        return { action: 'skipped', trade: existingTrade };
-      }
-
       const tradeData: CreateStockTradeData = {
+        ...record.trade,
         traderType: 'congressional',
         traderId: member.id!,
-        tickerSymbol: trade.symbol,
-        transactionDate,
-        transactionType,
-        amountRange: trade.amount,
-        estimatedValue,
-        filingDate,
+        dataSource: record.provenance.source,
         sourceData: {
-          source: 'FMP',
-          originalData: trade,
-          syncedAt: new Date().toISOString()
+          source: record.provenance.source.toUpperCase(),
+          originalData: record.originalData,
+          syncedAt: new Date().toISOString(),
+          provenance: record.provenance
         }
       };
 
-      if (existingTrade && forceUpdate) {
-        await existingTrade.update(tradeData);
-        return { action: 'updated', trade: existingTrade };
-      } else {
-        const newTrade = await StockTrade.create(tradeData);
-        return { action: 'created', trade: newTrade };
-      }
-    } catch (error) {
-      console.error('Error processing Senate trade:', error);
-      throw error;
-    }
-  }
-
-  /**
-   * Process a single House trade record
-   */
-  private async processHouseTradeRecord(
-    trade: FMPHouseTradeResponse,
-    forceUpdate = false
-  ): Promise<{ action: 'created' | 'updated' | 'skipped'; trade?: StockTrade }> {
-    try {
-      // Find or create the congressional member
-      // Use office (full name) as the fullName parameter
-      const member = await this.findOrCreateCongressionalMember(
-        trade.office,
-        trade.firstName,
-        trade.lastName,
-        'representative',
-        trade.office,
-        trade.district
-      );
-
-      // Ensure the stock ticker exists
-      const ticker = await this.findOrCreateStockTicker(trade.symbol, trade.assetDescription);
-
-      // Parse dates
-      const transactionDate = new Date(trade.transactionDate);
-      const filingDate = trade.disclosureDate ? new Date(trade.disclosureDate) : undefined;
-
-      // Parse transaction type
-      const transactionType = this.parseTransactionType(trade.type);
-
-      // Parse estimated value from amount range
-      const estimatedValue = this.parseAmountRange(trade.amount);
-
-      // Check if this trade already exists
-      const existingTrade = await this.findExistingTrade(
-        'congressional',
-        member.id!,
-        trade.symbol,
-        transactionDate,
-        transactionType
-      );
-
-      if (existingTrade && !forceUpdate) {
-        return { action: 'skipped', trade: existingTrade };
-      }
-
-      const tradeData: CreateStockTradeData = {
-        traderType: 'congressional',
-        traderId: member.id!,
-        tickerSymbol: trade.symbol,
-        transactionDate,
-        transactionType,
-        amountRange: trade.amount,
-        estimatedValue,
-        filingDate,
-        sourceData: {
-          source: 'FMP',
-          originalData: trade,
-          syncedAt: new Date().toISOString()
-        }
-      };
-
-      if (existingTrade && forceUpdate) {
-        await existingTrade.update(tradeData);
-        return { action: 'updated', trade: existingTrade };
+      if (existingTrade) {
+        return this.reconcileExistingTrade(existingTrade, tradeData, forceUpdate);
       } else {
         const newTrade = await StockTrade.create(tradeData);
+        await this.onTradeCreated(newTrade);
         return { action: 'created', trade: newTrade };
       }
     } catch (error) {
-      console.error('Error processing House trade:', error);
+      console.error(`Error processing ${record.member.chamber === 'senate' ? 'Senate' : 'House'} trade:`, error);
       throw error;
     }
   }
 
   /**
-   * Process a single insider trade record
+   * Process a single insider trade record: one line of a Form 4, stored as a
+   * trade plus its filing detail
    */
   private async processInsiderTradeRecord(
     trade: FMPInsiderTradingResponse,
@@ -681,33 +600,35 @@ export class CongressionalDataService {
       const insider = await this.findOrCreateCorporateInsider(
         trade.reportingName,
         trade.symbol,
-        trade.typeOfOwner
+        trade.typeOfOwner,
+        trade.reportingCik,
+        trade.companyCik
       );
 
       // Ensure the stock ticker exists
-      const ticker = await this.findOrCreateStockTicker(trade.symbol, trade.securityName);
+      await this.findOrCreateStockTicker(trade.symbol, trade.securityName);
 
       // Parse dates
       const transactionDate = new Date(trade.transactionDate);
       const filingDate = new Date(trade.filingDate);
 
-      // Parse transaction type from acquired/disposed code
-      const transactionType = this.parseInsiderTransactionType(trade.acquiredDisposedCode);
-
-      // Calculate estimated value
-      const estimatedValue = trade.amountOfShares * trade.pricePerShare;
+      // "P-Purchase" -> P; an unrecognized type is recorded as J (other)
+      const transactionCode = InsiderTransaction.parseCode(trade.transactionType) || 'J';
+      const shares = this.parseFilingNumber(trade.amountOfShares);
+      const pricePerShare = this.parseFilingNumber(trade.pricePerShare);
 
       // Check if this trade already exists
-      const existingTrade = await this.findExistingTrade(
-        'corporate',
+      const existingTradeId = await InsiderTransaction.findExistingTradeId(
         insider.id!,
         trade.symbol,
         transactionDate,
-        transactionType
+        transactionCode,
+        shares,
+        pricePerShare
       );
 
-      if (existingTrade && !forceUpdate) {
-        return { action: 'skipped', trade: existingTrade };
+      if (existingTradeId && !forceUpdate) {
+        return { action: 'skipped' };
       }
 
       const tradeData: CreateStockTradeData = {
@@ -715,10 +636,12 @@ export class CongressionalDataService {
         traderId: insider.id!,
         tickerSymbol: trade.symbol,
         transactionDate,
-        transactionType,
-        estimatedValue,
-        quantity: trade.amountOfShares,
+        transactionType: InsiderTransaction.tradeTypeForCode(transactionCode),
+        estimatedValue: shares !== undefined && pricePerShare !== undefined ? shares * pricePerShare : undefined,
+        quantity: shares,
         filingDate,
+        ...classifyAsset(undefined, trade.securityName),
+        dataSource: 'fmp',
         sourceData: {
           source: 'FMP',
           originalData: trade,
@@ -726,68 +649,132 @@ export class CongressionalDataService {
         }
       };
 
-      if (existingTrade && forceUpdate) {
-        await existingTrade.update(tradeData);
-        return { action: 'updated', trade: existingTrade };
-      } else {
-        const newTrade = await StockTrade.create(tradeData);
-        return { action: 'created', trade: newTrade };
+      const detail: Omit<InsiderTransactionData, 'tradeId'> = {
+        transactionCode,
+        acquiredDisposed: this.parseAcquiredDisposed(trade.acquiredDisposedCode),
+        shares,
+        pricePerShare,
+        sharesOwnedAfter: this.parseFilingNumber(trade.securitiesOwned),
+        securityName: trade.securityName,
+        ownerType: trade.typeOfOwner,
+        reportingCik: trade.reportingCik,
+        companyCik: trade.companyCik,
+        filingUrl: trade.link
+      };
+
+      if (existingTradeId) {
+        const existingTrade = await StockTrade.findById(existingTradeId);
+        await existingTrade!.update(tradeData);
+        await db.transaction(client => InsiderTransaction.upsert(client, { ...detail, tradeId: existingTradeId }));
+        return { action: 'updated', trade: existingTrade! };
       }
+
+      const newTrade = await db.transaction(async client => {
+        const created = await StockTrade.create(tradeData, client);
+        await InsiderTransaction.upsert(client, { ...detail, tradeId: created.id! });
+        return created;
+      });
+      await this.onTradeCreated(newTrade);
+      return { action: 'created', trade: newTrade };
     } catch (error) {
       console.error('Error processing insider trade:', error);
       throw error;
     }
   }
 
+  /**
+   * Compare a disclosure with the congressional trade already stored for it.
+   * A filing that changes the trade is kept as an amendment; one filed before
+   * the stored version is stale and skipped. forceUpdate refreshes the stored
+   * source record even when nothing changed.
+   */
+  private async reconcileExistingTrade(
+    existingTrade: StockTrade,
+    tradeData: CreateStockTradeData,
+    forceUpdate: boolean
+  ): Promise<{ action: 'updated' | 'skipped'; trade: StockTrade }> {
+    const isStale = !!existingTrade.filingDate && !!tradeData.filingDate
+      && tradeData.filingDate.getTime() < new Date(existingTrade.filingDate).getTime();
+
+    if (!isStale) {
+      const revision = await existingTrade.amend(tradeData, 'Amended disclosure');
+      if (revision) {
+        // checkAmendmentAlerts handles and logs its own errors
+        await AlertService.checkAmendmentAlerts(existingTrade, revision);
+        return { action: 'updated', trade: existingTrade };
+      }
+    }
+
+    // Trades stored before asset classification pick it up from the new disclosure
+    const classify: Partial<CreateStockTradeData> = !existingTrade.assetClass && tradeData.assetClass
+      ? {
+          assetClass: tradeData.assetClass,
+          optionType: tradeData.optionType,
+          strikePrice: tradeData.strikePrice,
+          expirationDate: tradeData.expirationDate
+        }
+      : {};
+
+    if (forceUpdate) {
+      await existingTrade.update({ ...classify, sourceData: tradeData.sourceData });
+      return { action: 'updated', trade: existingTrade };
+    }
+
+    if (classify.assetClass) {
+      await existingTrade.update(classify);
+    }
+
+    return { action: 'skipped', trade: existingTrade };
+  }
+
+  /**
+   * Publish a newly stored trade to live streams and evaluate user alerts.
+   * Failures here must not abort the sync.
+   */
+  private async onTradeCreated(trade: StockTrade): Promise<void> {
+    try {
+      await TradeStreamService.publishTrade(trade);
+    } catch (error) {
+      console.error('Error publishing trade to stream:', error);
+    }
+
+    // checkTradeAlerts handles and logs its own errors
+    await AlertService.checkTradeAlerts(trade);
+  }
+
   /**
    * Find or create a congressional member
    */
-  private async findOrCreateCongressionalMember(
-    fullName: string,
-    firstName: string,
-    lastName: string,
-    position: 'senator' | 'representative',
-    office: string,
-    districtField: string
-  ): Promise<CongressionalMember> {
-    // Try to find existing member by name
-    const existing = await CongressionalMember.findByName(fullName);
+  private async findOrCreateCongressionalMember(disclosed: DisclosedMember): Promise<CongressionalMember> {
+    const { fullName, firstName, lastName, stateCode, district } = disclosed;
+
+    const existing = await CongressionalMember.findByDisclosedName(fullName, firstName, lastName, stateCode);
     if (existing) {
       return existing;
     }
 
-    // Extract state code and district from FMP's district field
-    // For senators: district = "OK" (just state code)
-    // For representatives: district = "FL02" (state + district number)
-    let stateCode: string;
-    let district: number | undefined;
-
-    if (position === 'senator') {
-      // Senators: district field contains just the state code
-      stateCode = districtField;
-    } else {
-      // Representatives: extract state (first 2 chars) and district number (remaining chars)
-      stateCode = districtField.substring(0, 2);
-      const districtNumber = districtField.substring(2);
-      district = districtNumber ? parseInt(districtNumber, 10) : undefined;
+    if (!stateCode) {
+      throw new Error(`Unknown member "${fullName}" disclosed without a state`);
     }
 
     // Create new member
     return CongressionalMember.create({
       name: fullName,
-      position,
+      position: disclosed.chamber === 'senate' ? 'senator' : 'representative',
       stateCode,
       district
     });
   }
 
   /**
-   * Find or create a corporate insider
+   * Find or create a corporate insider, by SEC CIK when the filing has one
    */
   private async findOrCreateCorporateInsider(
     name: string,
     companySymbol: string,
-    position: string
+    position: string,
+    cik?: string,
+    companyCik?: string
   ): Promise<any> {
     // Get company name from stock ticker
     const ticker = await StockTicker.findBySymbol(companySymbol);
@@ -795,27 +782,52 @@ export class CongressionalDataService {
 
     const client = await db.connect();
     try {
-      // Try to find existing insider
-      const existingResult = await client.query(
-        'SELECT * FROM corporate_insiders WHERE name = $1 AND ticker_symbol = $2',
-        [name, companySymbol]
-      );
+      // Try to find existing insider; names vary between filings, CIKs don't
+      let existingResult = cik
+        ? await client.query('SELECT * FROM corporate_insiders WHERE cik = $1 AND ticker_symbol = $2', [cik, companySymbol])
+        : { rows: [] as any[] };
+
+      if (existingResult.rows.length === 0) {
+        existingResult = await client.query(
+          'SELECT * FROM corporate_insiders WHERE name = $1 AND ticker_symbol = $2',
+          [name, companySymbol]
+        );
+      }
+
+      // An admin may have merged this insider into another; don't recreate it
+      if (existingResult.rows.length === 0) {
+        const mergedId = await TraderCorrection.findMergedInsiderId(name, companySymbol);
+        if (mergedId) {
+          existingResult = await client.query('SELECT * FROM corporate_insiders WHERE id = $1', [mergedId]);
+        }
+      }
 
       if (existingResult.rows.length > 0) {
+        const existing = existingResult.rows[0];
+
+        // Link insiders found by name to their CIK
+        if (cik && !existing.cik) {
+          await client.query(
+            'UPDATE corporate_insiders SET cik = $2, company_cik = COALESCE(company_cik, $3) WHERE id = $1',
+            [existing.id, cik, companyCik || null]
+          );
+        }
+
         return {
-          id: existingResult.rows[0].id,
-          name: existingResult.rows[0].name,
-          companyName: existingResult.rows[0].company_name,
-          position: existingResult.rows[0].position,
-          tickerSymbol: existingResult.rows[0].ticker_symbol
+          id: existing.id,
+          name: existing.name,
+          companyName: existing.company_name,
+          position: existing.position,
+          tickerSymbol: existing.ticker_symbol,
+          cik: existing.cik || cik
         };
       }
 
       // Create new insider
       const insertResult = await client.query(
-        `INSERT INTO corporate_insiders (name, company_name, position, ticker_symbol)
-         VALUES ($1, $2, $3, $4) RETURNING *`,
-        [name, companyName, position, companySymbol]
+        `INSERT INTO corporate_insiders (name, company_name, position, ticker_symbol, cik, company_cik)
+         VALUES ($1, $2, $3, $4, $5, $6) RETURNING *`,
+        [name, companyName, position, companySymbol, cik || null, companyCik || null]
       );
 
       const insider = insertResult.rows[0];
@@ -824,7 +836,8 @@ export class CongressionalDataService {
         name: insider.name,
         companyName: insider.company_name,
         position: insider.position,
-        tickerSymbol: insider.ticker_symbol
+        tickerSymbol: insider.ticker_symbol,
+        cik: insider.cik || undefined
       };
     } finally {
       client.release();
@@ -847,99 +860,82 @@ export class CongressionalDataService {
   }
 
   /**
-   * Find existing trade to avoid duplicates
+   * Parse an insider filing's acquired/disposed code
    */
-  private async findExistingTrade(
-    traderType: 'congressional' | 'corporate',
-    traderId: string,
-    tickerSymbol: string,
-    transactionDate: Date,
-    transactionType: 'buy' | 'sell' | 'exchange'
-  ): Promise<StockTrade | null> {
-    const client = await db.connect();
-    try {
-      const result = await client.query(
-        `SELECT * FROM stock_trades 
-         WHERE trader_type = $1 AND trader_id = $2 AND ticker_symbol = $3 
-         AND transaction_date = $4 AND transaction_type = $5`,
-        [traderType, traderId, tickerSymbol.toUpperCase(), transactionDate, transactionType]
-      );
+  private parseAcquiredDisposed(code?: string): 'A' | 'D' | undefined {
+    const normalized = (code || '').toLowerCase().trim();
 
-      if (result.rows.length > 0) {
-        const row = result.rows[0];
-        return new StockTrade({
-          id: row.id,
-          traderType: row.trader_type,
-          traderId: row.trader_id,
-          tickerSymbol: row.ticker_symbol,
-          transactionDate: row.transaction_date,
-          transactionType: row.transaction_type,
-          amountRange: row.amount_range,
-          estimatedValue: row.estimated_value,
-          quantity: row.quantity,
-          filingDate: row.filing_date,
-          sourceData: row.source_data,
-          createdAt: row.created_at,
-          updatedAt: row.updated_at
-        });
-      }
-
-      return null;
-    } finally {
-      client.release();
+    if (normalized === 'a' || normalized === 'acquired') {
+      return 'A';
+    } else if (normalized === 'd' || normalized === 'disposed') {
+      return 'D';
     }
+    return undefined;
   }
 
-  /**
-   * Parse transaction type from FMP data
-   */
-  private parseTransactionType(type: string): 'buy' | 'sell' | 'exchange' {
-    const normalized = type.toLowerCase().trim();
-    
-    if (normalized.includes('purchase') || normalized.includes('buy')) {
-      return 'buy';
-    } else if (normalized.includes('sale') || normalized.includes('sell')) {
-      return 'sell';
-    } else {
-      return 'exchange';
-    }
+  // Share counts and prices can be missing or null in insider filings
+  private parseFilingNumber(value: unknown): number | undefined {
+    const number = typeof value === 'number' ? value : parseFloat(String(value ?? ''));
+    return isFinite(number) ? number : undefined;
   }
 
-  /**
-   * Parse transaction type from insider acquired/disposed code
-   */
-  private parseInsiderTransactionType(code: string): 'buy' | 'sell' | 'exchange' {
-    const normalized = code.toLowerCase().trim();
-    
-    if (normalized === 'a' || normalized === 'acquired') {
-      return 'buy';
-    } else if (normalized === 'd' || normalized === 'disposed') {
-      return 'sell';
-    } else {
-      return 'exchange';
+  // Created on first use so syncs from files don't need an FMP API key
+  private getFMPClient(): FMPClient {
+    if (!this.fmpClient) {
+      this.fmpClient = getFMPClient();
     }
+    return this.fmpClient;
   }
 
   /**
-   * Parse amount range and return estimated value
+   * Classify the assets of stored trades from their source records: trades
+   * synced before asset classification, or every trade with all (e.g. after
+   * the classifier learns a new description format)
    */
-  private parseAmountRange(amount: string): number | undefined {
-    if (!amount) return undefined;
-
-    // Try to extract numbers from amount string
-    const numbers = amount.match(/\$?([\d,]+)/g);
-    if (!numbers) return undefined;
-
-    const values = numbers.map(n => parseInt(n.replace(/[$,]/g, '')));
-    
-    if (values.length === 1) {
-      return values[0];
-    } else if (values.length === 2) {
-      // Return midpoint of range
-      return (values[0] + values[1]) / 2;
+  async classifyStoredTrades(options: { all?: boolean; batchSize?: number } = {}): Promise<AssetClassificationResult> {
+    const startTime = Date.now();
+    const batchSize = options.batchSize || 500;
+    const assetClassCounts: Partial<Record<AssetClass, number>> = {};
+    let processedCount = 0;
+    let lastId: string | null = null;
+
+    for (;;) {
+      const result = await db.query(
+        `SELECT id, trader_type, source_data->'originalData' AS original_data
+         FROM stock_trades
+         WHERE ($1::BOOLEAN OR asset_class IS NULL) AND ($2::UUID IS NULL OR id > $2::UUID)
+         ORDER BY id
+         LIMIT $3`,
+        [!!options.all, lastId, batchSize]
+      );
+
+      if (result.rows.length === 0) {
+        break;
+      }
+
+      await db.transaction(async client => {
+        for (const row of result.rows) {
+          const original = row.original_data || {};
+          // Form 4 lines name the security: "Common Stock", "Stock Option (Right to Buy)"
+          const asset = row.trader_type === 'corporate'
+            ? classifyAsset(undefined, original.securityName)
+            : classifyAsset(original.assetType, original.assetDescription, original.comment);
+
+          await client.query(
+            `UPDATE stock_trades
+             SET asset_class = $2, option_type = $3, strike_price = $4, expiration_date = $5
+             WHERE id = $1`,
+            [row.id, asset.assetClass, asset.optionType || null, asset.strikePrice ?? null, asset.expirationDate || null]
+          );
+          assetClassCounts[asset.assetClass] = (assetClassCounts[asset.assetClass] || 0) + 1;
+        }
+      });
+
+      processedCount += result.rows.length;
+      lastId = result.rows[result.rows.length - 1].id;
     }
 
-    return undefined;
+    return { processedCount, assetClassCounts, duration: Date.now() - startTime };
   }
 
   /**
@@ -1,5 +1,6 @@
 import { db } from '../config/database';
 import { CacheService } from './CacheService';
+import { StockTrade } from '../models/StockTrade';
 
 export interface DashboardMetrics {
   totalTrades: number;
@@ -80,6 +81,7 @@ export class DashboardService {
             SUM(CASE WHEN cm.position = 'representative' THEN 1 ELSE 0 END) as house_trades
           FROM stock_trades st
           LEFT JOIN congressional_members cm ON st.trader_id = cm.id AND st.trader_type = 'congressional'
+          WHERE ${StockTrade.countedCondition()}
         `);
 
         // 2. Active Members (overall and by chamber)
@@ -90,6 +92,7 @@ export class DashboardService {
             COUNT(DISTINCT CASE WHEN cm.position = 'representative' THEN cm.id END) as representatives
           FROM congressional_members cm
           INNER JOIN stock_trades st ON st.trader_id = cm.id AND st.trader_type = 'congressional'
+          WHERE ${StockTrade.countedCondition()}
         `);
 
         // 3. Total Volume (last 30 days, by chamber)
@@ -101,6 +104,7 @@ export class DashboardService {
           FROM stock_trades st
           LEFT JOIN congressional_members cm ON st.trader_id = cm.id AND st.trader_type = 'congressional'
           WHERE st.transaction_date >= CURRENT_DATE - INTERVAL '30 days'
+            AND ${StockTrade.countedCondition()}
         `);
 
         // 4. Alerts Triggered (last 24 hours)
@@ -148,7 +152,9 @@ export class DashboardService {
 
     try {
       // 1. Total Trades
-      const tradesResult = await client.query('SELECT COUNT(*) as count FROM stock_trades');
+      const tradesResult = await client.query(
+        `SELECT COUNT(*) as count FROM stock_trades WHERE ${StockTrade.countedCondition('stock_trades')}`
+      );
       const totalTrades = parseInt(tradesResult.rows[0].count || '0');
 
       // 2. Active Members (unique congressional members who have trades)
@@ -156,6 +162,7 @@ export class DashboardService {
         SELECT COUNT(DISTINCT cm.id) as count
         FROM congressional_members cm
         INNER JOIN stock_trades st ON st.trader_id = cm.id AND st.trader_type = 'congressional'
+        WHERE ${StockTrade.countedCondition()}
       `);
       const activeMembers = parseInt(membersResult.rows[0].count || '0');
 
@@ -164,6 +171,7 @@ export class DashboardService {
         SELECT COALESCE(SUM(estimated_value), 0) as volume
         FROM stock_trades
         WHERE transaction_date >= CURRENT_DATE - INTERVAL '30 days'
+          AND ${StockTrade.countedCondition('stock_trades')}
       `);
       const totalVolume = parseFloat(volumeResult.rows[0].volume || '0');
 
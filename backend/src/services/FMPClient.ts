@@ -67,6 +67,19 @@ export interface FMPInsiderTradingResponse {
   link: string;
 }
 
+export interface FMPHistoricalPriceResponse {
+  symbol: string;
+  date: string;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number;
+  change?: number;
+  changePercent?: number;
+  vwap?: number;
+}
+
 export interface FMPApiError {
   error: string;
   message?: string;
@@ -509,6 +522,30 @@ export class FMPClient {
     }
   }
 
+  /**
+   * Get daily end-of-day prices for a symbol, newest first
+   * @param from Earliest date to include (YYYY-MM-DD)
+   * @param to Latest date to include (YYYY-MM-DD)
+   */
+  async getHistoricalPrices(symbol: string, from?: string, to?: string): Promise<FMPHistoricalPriceResponse[]> {
+    try {
+      const params: any = { symbol: symbol.toUpperCase() };
+      if (from) params.from = from;
+      if (to) params.to = to;
+
+      const data = await this.makeRequest<FMPHistoricalPriceResponse[]>({
+        method: 'GET',
+        url: '/stable/historical-price-eod/full',
+        params
+      });
+
+      return Array.isArray(data) ? data : [];
+    } catch (error) {
+      console.error(`Error fetching historical prices for ${symbol}:`, error);
+      throw error;
+    }
+  }
+
   /**
    * Test API connection and authentication
    */
@@ -0,0 +1,341 @@
+import fs from 'fs';
+import path from 'path';
+import yaml from 'js-yaml';
+import { CongressionalMember, CreateCongressionalMemberData, normalizeMemberName } from '../models/CongressionalMember';
+import { Committee, CommitteeChamber, CommitteeMemberData } from '../models/Committee';
+
+/**
+ * One legislator in the format published by the unitedstates/congress-legislators
+ * project (legislators-current.yaml / .json). Only the fields we use are listed.
+ */
+export interface LegislatorRecord {
+  id: { bioguide: string };
+  name: {
+    first: string;
+    last: string;
+    middle?: string;
+    nickname?: string;
+    suffix?: string;
+    official_full?: string;
+  };
+  other_names?: Array<{ first?: string; middle?: string; last?: string }>;
+  terms: Array<{
+    type: 'sen' | 'rep';
+    start: string;
+    end: string;
+    state: string;
+    district?: number;
+    party?: string;
+  }>;
+}
+
+/**
+ * One committee from committees-current.yaml in the same project. Subcommittee
+ * codes are appended to the parent's, e.g. SSBK with subcommittee 08 is SSBK08.
+ */
+export interface CommitteeRecord {
+  type: CommitteeChamber;
+  name: string;
+  thomas_id: string;
+  subcommittees?: Array<{ name: string; thomas_id: string }>;
+}
+
+/**
+ * committee-membership-current.yaml: each committee or subcommittee code
+ * mapped to its members
+ */
+export type CommitteeMembershipRecords = Record<string, Array<{
+  bioguide: string;
+  name?: string;
+  title?: string;
+}>>;
+
+export interface RosterImportOptions {
+  // Create members the roster lists but the database doesn't have yet
+  createMissing?: boolean;
+}
+
+export interface RosterImportResult {
+  total: number;
+  created: number;
+  updated: number;
+  skipped: number;
+  aliasesAdded: number;
+  // Members left over when several rows matched one legislator; merge them by hand
+  duplicates: Array<{ bioguideId: string; memberId: string; duplicateIds: string[] }>;
+  errors: string[];
+}
+
+export interface CommitteeImportResult {
+  committees: number;
+  memberships: number;
+  // Bioguide IDs with no member in the database; import the legislators roster first
+  unmatchedMembers: string[];
+  errors: string[];
+}
+
+type Party = NonNullable<CreateCongressionalMemberData['partyAffiliation']>;
+
+export class MemberRosterService {
+  /**
+   * Import a legislators file (.yaml, .yml or .json)
+   */
+  static async importFile(filePath: string, options: RosterImportOptions = {}): Promise<RosterImportResult> {
+    const records = this.loadFile(filePath);
+    if (!Array.isArray(records)) {
+      throw new Error('Roster file must contain a list of legislators');
+    }
+
+    return this.importLegislators(records as LegislatorRecord[], options);
+  }
+
+  /**
+   * Import a committees file and its membership file (.yaml, .yml or .json)
+   */
+  static async importCommitteeFiles(committeesPath: string, membershipPath: string): Promise<CommitteeImportResult> {
+    const committees = this.loadFile(committeesPath);
+    if (!Array.isArray(committees)) {
+      throw new Error('Committees file must contain a list of committees');
+    }
+
+    const memberships = this.loadFile(membershipPath);
+    if (!memberships || typeof memberships !== 'object' || Array.isArray(memberships)) {
+      throw new Error('Committee membership file must map committee codes to their members');
+    }
+
+    return this.importCommittees(committees as CommitteeRecord[], memberships as CommitteeMembershipRecords);
+  }
+
+  /**
+   * Create or update each committee and subcommittee, then replace the
+   * rosters of those the membership file lists. Members are matched by
+   * Bioguide ID, so the legislators roster should be imported first.
+   */
+  static async importCommittees(
+    records: CommitteeRecord[],
+    memberships: CommitteeMembershipRecords
+  ): Promise<CommitteeImportResult> {
+    const result: CommitteeImportResult = { committees: 0, memberships: 0, unmatchedMembers: [], errors: [] };
+    const memberIds = new Map<string, string | null>();
+    const unmatched = new Set<string>();
+
+    for (const record of records) {
+      const entries = [
+        { code: record?.thomas_id, name: record?.name },
+        ...(record?.subcommittees || []).map(sub => ({
+          code: record.thomas_id && sub?.thomas_id ? `${record.thomas_id}${sub.thomas_id}` : undefined,
+          name: sub?.name && `${record.name}: ${sub.name}`
+        }))
+      ];
+
+      for (const { code, name } of entries) {
+        try {
+          if (!code || !name) {
+            throw new Error('missing committee code or name');
+          }
+
+          const committee = await Committee.upsert({ code, name, chamber: record.type });
+          result.committees++;
+
+          const roster = memberships[committee.code];
+          if (!roster) continue;
+
+          const members: CommitteeMemberData[] = [];
+          for (const entry of roster) {
+            const bioguideId = entry?.bioguide?.toUpperCase();
+            if (!bioguideId) continue;
+
+            if (!memberIds.has(bioguideId)) {
+              memberIds.set(bioguideId, (await CongressionalMember.findByBioguideId(bioguideId))?.id || null);
+            }
+            const memberId = memberIds.get(bioguideId);
+            if (memberId) {
+              members.push({ memberId, role: entry.title });
+            } else {
+              unmatched.add(bioguideId);
+            }
+          }
+
+          await committee.setMembers(members);
+          result.memberships += members.length;
+        } catch (error) {
+          result.errors.push(`${code || name || 'unknown'}: ${(error as Error).message}`);
+        }
+      }
+    }
+
+    result.unmatchedMembers = [...unmatched];
+    return result;
+  }
+
+  /**
+   * Match each legislator to an existing member by Bioguide ID, alias or name
+   * within their state, then fill in their identity, party and office dates
+   * and record their name variants as aliases
+   */
+  static async importLegislators(
+    records: LegislatorRecord[],
+    options: RosterImportOptions = {}
+  ): Promise<RosterImportResult> {
+    const createMissing = options.createMissing ?? true;
+    const result: RosterImportResult = {
+      total: records.length,
+      created: 0,
+      updated: 0,
+      skipped: 0,
+      aliasesAdded: 0,
+      duplicates: [],
+      errors: []
+    };
+
+    for (const record of records) {
+      const bioguideId = record?.id?.bioguide;
+      try {
+        if (!bioguideId || !record.name?.first || !record.name?.last || !record.terms?.length) {
+          throw new Error('missing Bioguide ID, name or terms');
+        }
+
+        const data = this.toMemberData(record);
+        const aliases = this.getAliases(record);
+
+        const { member, duplicateIds } = await this.findExistingMember(bioguideId, data, aliases);
+        if (duplicateIds.length > 0 && member) {
+          result.duplicates.push({ bioguideId, memberId: member.id!, duplicateIds });
+        }
+
+        let target = member;
+        if (target) {
+          // Keep the name the sync knew them by so it still resolves
+          aliases.push(target.name);
+
+          // Only move a member to a different seat when the roster says so, so
+          // duplicate rows awaiting a merge don't block the identity update
+          const { position, stateCode, district, ...identity } = data;
+          const seatChanged = target.position !== position || target.stateCode !== stateCode
+            || (position === 'representative' && target.district !== district);
+          await target.update(seatChanged ? data : identity);
+          result.updated++;
+        } else if (createMissing) {
+          target = await CongressionalMember.create(data);
+          result.created++;
+        } else {
+          result.skipped++;
+          continue;
+        }
+
+        result.aliasesAdded += await target.addAliases(aliases, 'roster');
+      } catch (error) {
+        result.errors.push(`${bioguideId || record?.name?.official_full || 'unknown'}: ${(error as Error).message}`);
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Member fields from a legislator's most recent term
+   */
+  private static toMemberData(record: LegislatorRecord): CreateCongressionalMemberData & { bioguideId: string } {
+    const terms = [...record.terms].sort((a, b) => a.start.localeCompare(b.start));
+    const current = terms[terms.length - 1];
+
+    // Office start is the first of the unbroken run of terms in the current chamber
+    let firstTerm = current;
+    for (let i = terms.length - 2; i >= 0 && terms[i].type === current.type && terms[i].state === current.state; i--) {
+      firstTerm = terms[i];
+    }
+
+    const position = current.type === 'sen' ? 'senator' : 'representative';
+
+    return {
+      bioguideId: record.id.bioguide.toUpperCase(),
+      name: record.name.official_full || `${record.name.first} ${record.name.last}`,
+      position,
+      stateCode: current.state.toUpperCase(),
+      // At-large seats are district 0 in the roster; we store them as district 1
+      district: position === 'representative' ? Math.max(current.district || 0, 1) : undefined,
+      partyAffiliation: this.parseParty(current.party),
+      officeStartDate: new Date(firstTerm.start),
+      officeEndDate: new Date(current.end)
+    };
+  }
+
+  /**
+   * Name variants a disclosure might use for this legislator
+   */
+  private static getAliases(record: LegislatorRecord): string[] {
+    const { first, last, middle, nickname, suffix, official_full: officialFull } = record.name;
+    const aliases = [`${first} ${last}`];
+
+    if (officialFull) aliases.push(officialFull);
+    if (nickname) aliases.push(`${nickname} ${last}`);
+    if (middle) {
+      aliases.push(`${first} ${middle} ${last}`, `${first} ${middle.charAt(0)} ${last}`);
+    }
+    if (suffix) aliases.push(`${first} ${last} ${suffix}`);
+
+    for (const other of record.other_names || []) {
+      aliases.push(`${other.first || first} ${other.last || last}`);
+    }
+
+    return aliases;
+  }
+
+  /**
+   * The existing member a legislator corresponds to, and any other rows in
+   * the same state and chamber that look like the same person
+   */
+  private static async findExistingMember(
+    bioguideId: string,
+    data: CreateCongressionalMemberData,
+    aliases: string[]
+  ): Promise<{ member: CongressionalMember | null; duplicateIds: string[] }> {
+    const names = new Set(aliases.map(normalizeMemberName));
+    const canonicalName = normalizeMemberName(data.name);
+    const candidates = (await CongressionalMember.findAll({ stateCode: data.stateCode, position: data.position }, 1000))
+      .filter(member => !member.bioguideId && names.has(normalizeMemberName(member.name)))
+      // Prefer the row already carrying the official name
+      .sort((a, b) => Number(normalizeMemberName(b.name) === canonicalName) - Number(normalizeMemberName(a.name) === canonicalName));
+
+    let member = await CongressionalMember.findByBioguideId(bioguideId);
+    for (const alias of aliases) {
+      if (member) break;
+      const match = await CongressionalMember.findByAlias(alias, data.stateCode);
+      if (match && (!match.bioguideId || match.bioguideId === bioguideId.toUpperCase())) {
+        member = match;
+      }
+    }
+    member = member || candidates[0] || null;
+
+    return {
+      member,
+      duplicateIds: candidates.filter(candidate => candidate.id !== member?.id).map(candidate => candidate.id!)
+    };
+  }
+
+  /**
+   * Parse a roster file by its extension
+   */
+  private static loadFile(filePath: string): unknown {
+    const contents = fs.readFileSync(filePath, 'utf8');
+    const extension = path.extname(filePath).toLowerCase();
+
+    if (extension === '.json') {
+      return JSON.parse(contents);
+    }
+    if (extension === '.yaml' || extension === '.yml') {
+      return yaml.load(contents);
+    }
+    throw new Error(`Unsupported roster file type "${extension}"; expected .yaml, .yml or .json`);
+  }
+
+  private static parseParty(party?: string): Party | undefined {
+    if (!party) return undefined;
+
+    const normalized = party.toLowerCase();
+    if (normalized.startsWith('democrat')) return 'democratic';
+    if (normalized.startsWith('republican')) return 'republican';
+    if (normalized.startsWith('independent')) return 'independent';
+    return 'other';
+  }
+}
@@ -0,0 +1,286 @@
+import { db } from '../config/database';
+import { FMPClient, FMPHistoricalPriceResponse, getFMPClient } from './FMPClient';
+import { StockTicker } from '../models/StockTicker';
+import { AssetClass, StockTrade } from '../models/StockTrade';
+import { StockPriceHistory, StockPriceData } from '../models/StockPriceHistory';
+
+export const BENCHMARK_SYMBOL = 'SPY';
+export const RETURN_HORIZONS = [30, 90, 365];
+
+export interface PriceSyncOptions {
+  symbols?: string[]; // defaults to every traded ticker plus the benchmark
+  lookbackDays?: number; // history fetched before a symbol's first trade
+  onProgress?: (progress: { current: number; total: number; symbol: string }) => void;
+}
+
+export interface PriceSyncResult {
+  symbolsProcessed: number;
+  pricesStored: number;
+  skippedSymbols: number;
+  errors: string[];
+}
+
+export interface TradeForwardReturn {
+  tradeId: string;
+  traderType: 'congressional' | 'corporate';
+  traderId: string;
+  tickerSymbol: string;
+  transactionType: 'buy' | 'sell' | 'exchange';
+  horizonDays: number;
+  entryPrice: number | null;
+  exitPrice: number | null;
+  stockReturn: number | null; // percent change of the stock over the horizon
+  benchmarkReturn: number | null; // percent change of SPY over the same window
+  excessReturn: number | null; // trader-direction return over the benchmark: buys gain when the stock beats SPY, sells when it lags
+}
+
+export interface ForwardReturnFilters {
+  tradeIds?: string[];
+  since?: Date;
+  assetClasses?: AssetClass[];
+}
+
+export class PriceHistoryService {
+  // Prices are looked up on the first trading day on or after the target date
+  private static readonly PRICE_LOOKUP_TOLERANCE_DAYS = 7;
+  private static readonly DEFAULT_LOOKBACK_DAYS = 7;
+
+  /**
+   * Fetch missing daily prices from FMP for traded tickers and the benchmark
+   */
+  static async syncPriceHistory(
+    options: PriceSyncOptions = {},
+    fmpClient: FMPClient = getFMPClient()
+  ): Promise<PriceSyncResult> {
+    const lookbackDays = options.lookbackDays ?? this.DEFAULT_LOOKBACK_DAYS;
+    const result: PriceSyncResult = {
+      symbolsProcessed: 0,
+      pricesStored: 0,
+      skippedSymbols: 0,
+      errors: []
+    };
+
+    await StockTicker.createIfNotExists({
+      symbol: BENCHMARK_SYMBOL,
+      companyName: 'SPDR S&P 500 ETF Trust'
+    });
+
+    const firstTradeDates = await this.getFirstTradeDates(options.symbols);
+    const symbols = Array.from(firstTradeDates.keys());
+    const storedRanges = await StockPriceHistory.getStoredDateRanges(symbols);
+    const today = this.formatDate(new Date());
+    const priceUpdates: Array<{ symbol: string; price: number }> = [];
+
+    for (let i = 0; i < symbols.length; i++) {
+      const symbol = symbols[i];
+      options.onProgress?.({ current: i + 1, total: symbols.length, symbol });
+
+      const start = this.addDays(firstTradeDates.get(symbol)!, -lookbackDays);
+      const stored = storedRanges.get(symbol);
+      const ranges: Array<[string, string]> = [];
+      if (!stored) {
+        ranges.push([this.formatDate(start), today]);
+      } else {
+        // Older trades imported since the last sync need prices before the stored
+        // history; a start within the lookup tolerance is just a weekend or holiday
+        if (stored.earliest > this.addDays(start, this.PRICE_LOOKUP_TOLERANCE_DAYS)) {
+          ranges.push([this.formatDate(start), this.formatDate(this.addDays(stored.earliest, -1))]);
+        }
+        const next = this.formatDate(this.addDays(stored.latest, 1));
+        if (next <= today) {
+          ranges.push([next, today]);
+        }
+      }
+
+      if (ranges.length === 0) {
+        result.skippedSymbols++;
+        continue;
+      }
+
+      try {
+        const history: FMPHistoricalPriceResponse[] = [];
+        for (const [from, to] of ranges) {
+          history.push(...await fmpClient.getHistoricalPrices(symbol, from, to));
+        }
+        const prices: StockPriceData[] = history
+          .filter(entry => entry.date && typeof entry.close === 'number')
+          .map(entry => ({
+            tickerSymbol: symbol,
+            priceDate: new Date(entry.date),
+            openPrice: entry.open,
+            highPrice: entry.high,
+            lowPrice: entry.low,
+            closePrice: entry.close,
+            volume: entry.volume
+          }));
+
+        result.pricesStored += await StockPriceHistory.upsertMany(prices);
+        result.symbolsProcessed++;
+
+        const newest = prices.reduce<StockPriceData | null>(
+          (latestPrice, price) => (!latestPrice || price.priceDate > latestPrice.priceDate ? price : latestPrice),
+          null
+        );
+        // A backfill alone brings in older prices, not a newer current price
+        if (newest && (!stored || newest.priceDate > stored.latest)) {
+          priceUpdates.push({ symbol, price: newest.closePrice });
+        }
+      } catch (error: any) {
+        result.errors.push(`${symbol}: ${error.message || error}`);
+      }
+    }
+
+    if (priceUpdates.length > 0) {
+      await StockTicker.batchUpdatePrices(priceUpdates);
+    }
+
+    return result;
+  }
+
+  /**
+   * Forward returns of trades at each horizon, alongside SPY over the same window.
+   * Horizons that have not elapsed yet, or lack price data, come back with null returns.
+   */
+  static async getForwardReturns(
+    filters: ForwardReturnFilters,
+    horizons: number[] = RETURN_HORIZONS
+  ): Promise<TradeForwardReturn[]> {
+    const conditions: string[] = [StockTrade.countedCondition()];
+    const values: any[] = [horizons, BENCHMARK_SYMBOL, this.PRICE_LOOKUP_TOLERANCE_DAYS];
+
+    if (filters.tradeIds) {
+      if (filters.tradeIds.length === 0) {
+        return [];
+      }
+      values.push(filters.tradeIds);
+      conditions.push(`st.id = ANY($${values.length}::uuid[])`);
+    }
+    if (filters.since) {
+      values.push(filters.since);
+      conditions.push(`st.transaction_date >= $${values.length}`);
+    }
+    if (filters.assetClasses) {
+      values.push(filters.assetClasses);
+      conditions.push(StockTrade.assetClassCondition(`$${values.length}`));
+    }
+
+    const result = await db.query(
+      `SELECT st.id AS trade_id, st.trader_type, st.trader_id, st.ticker_symbol, st.transaction_type,
+              h.horizon_days,
+              entry.close_price AS entry_price,
+              exit.close_price AS exit_price,
+              bench_entry.close_price AS benchmark_entry_price,
+              bench_exit.close_price AS benchmark_exit_price
+       FROM stock_trades st
+       CROSS JOIN unnest($1::int[]) AS h(horizon_days)
+       LEFT JOIN LATERAL (
+         SELECT close_price FROM stock_price_history p
+         WHERE p.ticker_symbol = st.ticker_symbol
+           AND p.price_date BETWEEN st.transaction_date AND st.transaction_date + $3::int
+         ORDER BY p.price_date LIMIT 1
+       ) entry ON true
+       LEFT JOIN LATERAL (
+         SELECT close_price FROM stock_price_history p
+         WHERE p.ticker_symbol = st.ticker_symbol
+           AND p.price_date BETWEEN st.transaction_date + h.horizon_days
+                                AND st.transaction_date + h.horizon_days + $3::int
+         ORDER BY p.price_date LIMIT 1
+       ) exit ON true
+       LEFT JOIN LATERAL (
+         SELECT close_price FROM stock_price_history p
+         WHERE p.ticker_symbol = $2
+           AND p.price_date BETWEEN st.transaction_date AND st.transaction_date + $3::int
+         ORDER BY p.price_date LIMIT 1
+       ) bench_entry ON true
+       LEFT JOIN LATERAL (
+         SELECT close_price FROM stock_price_history p
+         WHERE p.ticker_symbol = $2
+           AND p.price_date BETWEEN st.transaction_date + h.horizon_days
+                                AND st.transaction_date + h.horizon_days + $3::int
+         ORDER BY p.price_date LIMIT 1
+       ) bench_exit ON true
+       WHERE ${conditions.join(' AND ')}
+       ORDER BY st.transaction_date DESC, h.horizon_days`,
+      values
+    );
+
+    return result.rows.map((row: any) => {
+      const entryPrice = row.entry_price !== null ? parseFloat(row.entry_price) : null;
+      const exitPrice = row.exit_price !== null ? parseFloat(row.exit_price) : null;
+      const stockReturn = this.percentReturn(entryPrice, exitPrice);
+      const benchmarkReturn = this.percentReturn(
+        row.benchmark_entry_price !== null ? parseFloat(row.benchmark_entry_price) : null,
+        row.benchmark_exit_price !== null ? parseFloat(row.benchmark_exit_price) : null
+      );
+
+      // A sale is well-timed when the stock subsequently lags the market
+      const direction = row.transaction_type === 'sell' ? -1 : row.transaction_type === 'buy' ? 1 : 0;
+      const excessReturn = stockReturn !== null && benchmarkReturn !== null && direction !== 0
+        ? direction * (stockReturn - benchmarkReturn)
+        : null;
+
+      return {
+        tradeId: row.trade_id,
+        traderType: row.trader_type,
+        traderId: row.trader_id,
+        tickerSymbol: row.ticker_symbol,
+        transactionType: row.transaction_type,
+        horizonDays: row.horizon_days,
+        entryPrice,
+        exitPrice,
+        stockReturn,
+        benchmarkReturn,
+        excessReturn
+      };
+    });
+  }
+
+  /**
+   * Earliest trade date for each symbol to sync, including the benchmark
+   */
+  private static async getFirstTradeDates(symbols?: string[]): Promise<Map<string, Date>> {
+    const result = symbols && symbols.length > 0
+      ? await db.query(
+          `SELECT ticker_symbol, MIN(transaction_date) AS first_trade_date
+           FROM stock_trades WHERE ticker_symbol = ANY($1)
+           GROUP BY ticker_symbol`,
+          [symbols.map(symbol => symbol.toUpperCase())]
+        )
+      : await db.query(
+          `SELECT ticker_symbol, MIN(transaction_date) AS first_trade_date
+           FROM stock_trades GROUP BY ticker_symbol`
+        );
+
+    const dates = new Map<string, Date>(
+      result.rows.map((row: any) => [row.ticker_symbol, new Date(row.first_trade_date)])
+    );
+
+    // The benchmark needs to cover every trade being evaluated
+    const earliest = Array.from(dates.values()).reduce<Date | null>(
+      (min, date) => (!min || date < min ? date : min),
+      null
+    );
+    if (!dates.has(BENCHMARK_SYMBOL)) {
+      dates.set(BENCHMARK_SYMBOL, earliest || new Date());
+    } else if (earliest && earliest < dates.get(BENCHMARK_SYMBOL)!) {
+      dates.set(BENCHMARK_SYMBOL, earliest);
+    }
+
+    return dates;
+  }
+
+  private static percentReturn(entry: number | null, exit: number | null): number | null {
+    if (entry === null || exit === null || entry <= 0) {
+      return null;
+    }
+    return ((exit - entry) / entry) * 100;
+  }
+
+  private static addDays(date: Date, days: number): Date {
+    return new Date(date.getTime() + days * 24 * 60 * 60 * 1000);
+  }
+
+  private static formatDate(date: Date): string {
+    return date.toISOString().split('T')[0];
+  }
+}
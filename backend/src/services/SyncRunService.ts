@@ -0,0 +1,121 @@
+import { SyncRun, SyncRunType, SyncRunTrigger, SyncRunProgress, FMPRateLimitSnapshot } from '../models/SyncRun';
+import { getFMPClient } from './FMPClient';
+import { SyncResult } from './CongressionalDataService';
+
+export interface SyncRunStartOptions {
+  trigger?: SyncRunTrigger;
+  triggeredBy?: string;
+  dataSource?: string; // Defaults to the configured TRADE_DATA_SOURCE
+}
+
+/**
+ * Records trade sync runs in sync_runs: when they started and finished,
+ * what they created, updated and skipped, how many FMP calls they made, and
+ * how far the running one has got. Tracking is best-effort once a run has
+ * started; a failed progress write never fails the sync itself.
+ */
+export class SyncRunService {
+  private static readonly PROGRESS_INTERVAL_MS = 2000;
+  private static readonly MAX_RECORDED_ERRORS = 50;
+
+  // FMP calls counted for the day when each in-flight run started
+  private static fmpRequestsAtStart = new Map<string, number>();
+
+  static async start(runType: SyncRunType, options: SyncRunStartOptions = {}): Promise<SyncRun> {
+    const run = await SyncRun.create({
+      runType,
+      trigger: options.trigger || 'scheduled',
+      triggeredBy: options.triggeredBy,
+      dataSource: options.dataSource || process.env.TRADE_DATA_SOURCE || 'fmp'
+    });
+
+    const rateLimit = this.getFMPRateLimit();
+    if (rateLimit) {
+      this.fmpRequestsAtStart.set(run.id, rateLimit.day.used);
+    }
+
+    console.log(`📝 Recording ${runType} sync as run ${run.id}`);
+    return run;
+  }
+
+  /**
+   * A SyncOptions.onProgress callback that saves the run's progress at most
+   * every couple of seconds, plus the end of each chamber
+   */
+  static progressReporter(run: SyncRun): (progress: SyncRunProgress) => void {
+    let lastWrite = 0;
+
+    return (progress) => {
+      const now = Date.now();
+      if (now - lastWrite < this.PROGRESS_INTERVAL_MS && progress.current < progress.total) {
+        return;
+      }
+      lastWrite = now;
+
+      run.updateProgress({ type: progress.type, current: progress.current, total: progress.total })
+        .catch(error => console.warn(`⚠️  Failed to record progress for sync run ${run.id}:`, error));
+    };
+  }
+
+  /**
+   * Record a finished sync. A sync that reported errors without processing
+   * anything (the source was unreachable, say) counts as failed.
+   */
+  static async complete(run: SyncRun, result: SyncResult): Promise<void> {
+    const failed = !result.success && result.processedCount === 0 && result.errors.length > 0;
+    await this.finish(run, failed ? 'failed' : 'succeeded', result, result.errors);
+  }
+
+  static async fail(run: SyncRun, error: unknown): Promise<void> {
+    const message = error instanceof Error ? error.message : String(error);
+    await this.finish(run, 'failed', undefined, [message]);
+  }
+
+  private static async finish(
+    run: SyncRun,
+    status: 'succeeded' | 'failed',
+    result: SyncResult | undefined,
+    errors: string[]
+  ): Promise<void> {
+    const rateLimit = this.getFMPRateLimit();
+    const startedAt = this.fmpRequestsAtStart.get(run.id);
+    this.fmpRequestsAtStart.delete(run.id);
+
+    // The daily counter resets at most once during a run; after a reset the
+    // count so far is all from this run
+    const fmp = rateLimit && startedAt !== undefined
+      ? {
+        requests: rateLimit.day.used >= startedAt ? rateLimit.day.used - startedAt : rateLimit.day.used,
+        rateLimit
+      }
+      : undefined;
+
+    try {
+      await run.finish(status, {
+        processedCount: result?.processedCount ?? 0,
+        createdCount: result?.createdCount ?? 0,
+        updatedCount: result?.updatedCount ?? 0,
+        skippedCount: result?.skippedCount ?? 0,
+        errorCount: errors.length,
+        errors: errors.slice(0, this.MAX_RECORDED_ERRORS)
+      }, fmp);
+    } catch (error) {
+      console.warn(`⚠️  Failed to record the outcome of sync run ${run.id}:`, error);
+    }
+  }
+
+  /**
+   * FMP usage so far, or undefined when FMP isn't configured (file syncs)
+   */
+  private static getFMPRateLimit(): FMPRateLimitSnapshot | undefined {
+    if (!process.env.FMP_API_KEY) {
+      return undefined;
+    }
+
+    try {
+      return getFMPClient().getRateLimitStatus();
+    } catch {
+      return undefined;
+    }
+  }
+}
@@ -0,0 +1,314 @@
+import fs from 'fs';
+import path from 'path';
+import { StockTrade, CreateStockTradeData } from '../models/StockTrade';
+import { CongressionalMember } from '../models/CongressionalMember';
+import { StockTicker } from '../models/StockTicker';
+import { ValidationError } from '../middleware/errors';
+import {
+  Chamber,
+  DisclosedMember,
+  ColumnMapping,
+  DisclosureField,
+  DISCLOSURE_FIELDS,
+  parseRecords,
+  applyColumnMapping,
+  recordChamber,
+  normalizeFileRecord
+} from './dataSources';
+
+export type ImportFormat = 'csv' | 'ndjson' | 'json';
+
+export const IMPORT_FORMATS: ImportFormat[] = ['csv', 'ndjson', 'json'];
+
+export interface TradeImportOptions {
+  columnMapping?: ColumnMapping;
+  chamber?: Chamber; // For rows without a chamber column
+  dryRun?: boolean; // Validate and report without writing anything
+  batchSize?: number; // Trades per bulkCreate transaction (default: 500)
+  fileName?: string; // Recorded in each trade's provenance
+  importedBy?: string;
+}
+
+export interface TradeImportRowError {
+  row: number; // 1-based, not counting a CSV header
+  error: string;
+}
+
+export interface TradeImportReport {
+  dryRun: boolean;
+  totalRows: number;
+  validRows: number;
+  createdCount: number; // Created, or that would be on a dry run
+  duplicateCount: number; // Already stored, or repeated within the file
+  newMembers: string[]; // Created, or that would be on a dry run
+  newTickers: string[];
+  errorCount: number;
+  errors: TradeImportRowError[]; // The first MAX_REPORTED_ERRORS
+}
+
+/**
+ * Imports historical congressional trades from CSV, NDJSON or JSON. Rows are
+ * matched to members by name or alias, deduplicated against stored trades and
+ * inserted in batches. Imported trades are history: they are not streamed and
+ * don't trigger alerts. A failed batch leaves earlier batches in place;
+ * re-running the import skips them as duplicates.
+ */
+export class TradeImportService {
+  private static readonly DEFAULT_BATCH_SIZE = 500;
+  private static readonly MAX_REPORTED_ERRORS = 500;
+
+  /**
+   * Import a file; the format follows its extension
+   */
+  static async importFile(filePath: string, options: TradeImportOptions = {}): Promise<TradeImportReport> {
+    const format = path.extname(filePath).toLowerCase().replace(/^\./, '').replace('jsonl', 'ndjson') as ImportFormat;
+    if (!IMPORT_FORMATS.includes(format)) {
+      throw new ValidationError(`Unsupported import file "${path.basename(filePath)}"; expected .csv, .ndjson or .json`);
+    }
+
+    const contents = fs.readFileSync(filePath, 'utf8');
+    return this.importContent(contents, format, { fileName: path.basename(filePath), ...options });
+  }
+
+  /**
+   * Import uploaded file contents
+   */
+  static async importContent(
+    contents: string,
+    format: ImportFormat,
+    options: TradeImportOptions = {}
+  ): Promise<TradeImportReport> {
+    let records: Record<string, any>[];
+    try {
+      records = parseRecords(contents, `.${format}`, options.fileName || 'import');
+    } catch (error) {
+      throw new ValidationError(error instanceof Error ? error.message : 'Could not parse the import file');
+    }
+
+    return this.importRecords(records, options);
+  }
+
+  static async importRecords(
+    records: Record<string, any>[],
+    options: TradeImportOptions = {}
+  ): Promise<TradeImportReport> {
+    if (records.length === 0) {
+      throw new ValidationError('The import file has no rows');
+    }
+
+    const mapping = options.columnMapping || {};
+    this.validateMapping(records, mapping);
+
+    const dryRun = !!options.dryRun;
+    const batchSize = options.batchSize || this.DEFAULT_BATCH_SIZE;
+    const fileName = options.fileName || 'import';
+    const retrievedAt = new Date().toISOString();
+
+    const report: TradeImportReport = {
+      dryRun,
+      totalRows: records.length,
+      validRows: 0,
+      createdCount: 0,
+      duplicateCount: 0,
+      newMembers: [],
+      newTickers: [],
+      errorCount: 0,
+      errors: []
+    };
+
+    const members = new Map<string, CongressionalMember | null>();
+    const tickers = new Set<string>();
+    const seen = new Set<string>();
+    let batch: CreateStockTradeData[] = [];
+
+    for (const [index, record] of records.entries()) {
+      const row = index + 1;
+      const addError = (error: string) => {
+        report.errorCount++;
+        if (report.errors.length < this.MAX_REPORTED_ERRORS) {
+          report.errors.push({ row, error });
+        }
+      };
+
+      const mapped = applyColumnMapping(record, mapping);
+      const chamber = recordChamber(mapped) || options.chamber;
+      if (!chamber) {
+        addError('no chamber; map a chamber column or choose a default chamber');
+        continue;
+      }
+
+      const parsed = normalizeFileRecord(mapped, chamber, 'file', `${fileName}#${row}`, retrievedAt);
+      if (typeof parsed === 'string') {
+        addError(parsed);
+        continue;
+      }
+
+      const { trade } = parsed;
+      if (trade.filingDate && trade.filingDate < trade.transactionDate) {
+        addError('filing date is before the transaction date');
+        continue;
+      }
+
+      let member: CongressionalMember | null;
+      try {
+        member = await this.resolveMember(parsed.member, dryRun, members, report);
+      } catch (error) {
+        addError(error instanceof Error ? error.message : 'could not match the member');
+        continue;
+      }
+
+      report.validRows++;
+
+      // Members that only exist on a dry run are keyed by name
+      const memberKey = member?.id || `${chamber}:${parsed.member.fullName}`;
+      const tradeKey = [
+        memberKey,
+        trade.tickerSymbol,
+        trade.transactionDate.toISOString(),
+        trade.transactionType,
+        trade.owner,
+        trade.amountRange,
+        trade.assetClass,
+        trade.optionType,
+        trade.strikePrice,
+        trade.expirationDate?.toISOString()
+      ].join('|');
+      if (seen.has(tradeKey)) {
+        report.duplicateCount++;
+        continue;
+      }
+      seen.add(tradeKey);
+
+      if (member && await StockTrade.findExistingTrade(
+        'congressional',
+        member.id!,
+        trade.tickerSymbol,
+        trade.transactionDate,
+        trade.transactionType,
+        trade
+      )) {
+        report.duplicateCount++;
+        continue;
+      }
+
+      await this.ensureTicker(trade.tickerSymbol, parsed.companyName, dryRun, tickers, report);
+
+      if (dryRun || !member) {
+        report.createdCount++;
+        continue;
+      }
+
+      batch.push({
+        ...trade,
+        traderType: 'congressional',
+        traderId: member.id!,
+        dataSource: 'file',
+        sourceData: {
+          source: 'FILE',
+          originalData: parsed.originalData,
+          syncedAt: retrievedAt,
+          importedBy: options.importedBy,
+          provenance: parsed.provenance
+        }
+      });
+
+      if (batch.length >= batchSize) {
+        await this.createBatch(batch, report);
+        batch = [];
+      }
+    }
+
+    if (batch.length > 0) {
+      await this.createBatch(batch, report);
+    }
+
+    return report;
+  }
+
+  /**
+   * Store a batch, counting trades bulkCreate finds already stored as
+   * duplicates, the same as the check that queued them
+   */
+  private static async createBatch(batch: CreateStockTradeData[], report: TradeImportReport): Promise<void> {
+    const { inserted, skipped } = await StockTrade.bulkCreate(batch);
+    report.createdCount += inserted;
+    report.duplicateCount += skipped;
+  }
+
+  /**
+   * Every mapped field must be known and name a column the file has
+   */
+  private static validateMapping(records: Record<string, any>[], mapping: ColumnMapping): void {
+    for (const [field, column] of Object.entries(mapping)) {
+      if (!DISCLOSURE_FIELDS.includes(field as DisclosureField)) {
+        throw new ValidationError(
+          `Unknown field "${field}" in column mapping; expected one of: ${DISCLOSURE_FIELDS.join(', ')}`
+        );
+      }
+
+      if (typeof column !== 'string' || !records.some(record => column in record)) {
+        throw new ValidationError(`Column "${column}" mapped to ${field} is not in the file`);
+      }
+    }
+  }
+
+  /**
+   * Match the disclosed member, creating them when the row names their state.
+   * On a dry run new members are only reported, and resolve to null.
+   */
+  private static async resolveMember(
+    disclosed: DisclosedMember,
+    dryRun: boolean,
+    cache: Map<string, CongressionalMember | null>,
+    report: TradeImportReport
+  ): Promise<CongressionalMember | null> {
+    const { fullName, firstName, lastName, stateCode, district } = disclosed;
+    const key = `${disclosed.chamber}:${fullName}:${stateCode || ''}`;
+    if (cache.has(key)) {
+      return cache.get(key)!;
+    }
+
+    let member = await CongressionalMember.findByDisclosedName(fullName, firstName, lastName, stateCode);
+    if (!member) {
+      if (!stateCode) {
+        throw new Error(`unknown member "${fullName}" and no state to create them with`);
+      }
+
+      report.newMembers.push(fullName);
+      member = dryRun ? null : await CongressionalMember.create({
+        name: fullName,
+        position: disclosed.chamber === 'senate' ? 'senator' : 'representative',
+        stateCode,
+        district
+      });
+    }
+
+    cache.set(key, member);
+    return member;
+  }
+
+  private static async ensureTicker(
+    symbol: string,
+    companyName: string | undefined,
+    dryRun: boolean,
+    known: Set<string>,
+    report: TradeImportReport
+  ): Promise<void> {
+    if (known.has(symbol)) {
+      return;
+    }
+    known.add(symbol);
+
+    if (await StockTicker.findBySymbol(symbol)) {
+      return;
+    }
+
+    report.newTickers.push(symbol);
+    if (!dryRun) {
+      await StockTicker.create({
+        symbol,
+        companyName: companyName || `Company (${symbol})`
+      });
+    }
+  }
+}
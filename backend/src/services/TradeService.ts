@@ -1,6 +1,10 @@
-import { StockTrade } from '../models/StockTrade';
+import { StockTrade, TradeOwner, TradeDataSource, AssetClass, OptionType } from '../models/StockTrade';
 import { CongressionalMember } from '../models/CongressionalMember';
 import { StockTicker } from '../models/StockTicker';
+import { TradeRevision } from '../models/TradeRevision';
+import { AlertService } from './AlertService';
+import { AnalyticsService } from './AnalyticsService';
+import { ConflictError } from '../middleware/errors';
 
 export interface TradeFilters {
   traderId?: string;
@@ -12,6 +16,11 @@ export interface TradeFilters {
   minValue?: number;
   maxValue?: number;
   hasFilingDate?: boolean;
+  owner?: TradeOwner;
+  lateFiling?: boolean;
+  dataSource?: TradeDataSource;
+  assetClass?: AssetClass;
+  optionType?: OptionType;
   sectors?: string[];
   states?: string[];
   parties?: string[];
@@ -60,6 +69,12 @@ export interface StockTradeHistory {
   summary: TradeSummary;
 }
 
+export interface TradeHistory {
+  trade: StockTrade;
+  // Newest first; the original filing is revision 1 and has no entry
+  revisions: TradeRevision[];
+}
+
 export class TradeService {
   private static readonly DEFAULT_LIMIT = 50;
   private static readonly MAX_LIMIT = 500;
@@ -336,6 +351,45 @@ export class TradeService {
     }
   }
 
+  /**
+   * Get a trade with every amendment or withdrawal recorded for it
+   */
+  static async getTradeHistory(tradeId: string): Promise<TradeHistory | null> {
+    const trade = await StockTrade.findById(tradeId);
+    if (!trade) {
+      return null;
+    }
+
+    const revisions = await TradeRevision.findByTrade(tradeId);
+    return { trade, revisions };
+  }
+
+  /**
+   * Mark a trade as withdrawn by the filer and notify alerts that follow amendments
+   */
+  static async withdrawTrade(tradeId: string, reason?: string): Promise<TradeHistory | null> {
+    const trade = await StockTrade.findById(tradeId);
+    if (!trade) {
+      return null;
+    }
+
+    if (trade.status === 'withdrawn') {
+      throw new ConflictError('Trade has already been withdrawn');
+    }
+
+    const revision = await trade.withdraw(reason);
+    await AlertService.checkAmendmentAlerts(trade, revision);
+
+    // Drop the position from the concentration view now rather than at the next daily sync
+    try {
+      await AnalyticsService.refreshPortfolioConcentration();
+    } catch (error) {
+      console.error('Refresh portfolio concentration error:', error);
+    }
+
+    return this.getTradeHistory(tradeId);
+  }
+
   /**
    * Delete trade record
    */
@@ -0,0 +1,170 @@
+import { EventEmitter } from 'events';
+import { StockTrade } from '../models/StockTrade';
+import { AlertNotification } from '../models/AlertNotification';
+import { inAppNotificationEvents } from './notifications';
+
+export type TradeStreamEventType = 'trade' | 'notification';
+
+export interface TradeStreamEvent {
+  /** "<creation ms>-<row id>"; clients send it back as Last-Event-ID */
+  id: string;
+  event: TradeStreamEventType;
+  data: Record<string, any>;
+}
+
+/**
+ * Position in the stream: events are ordered by creation time, to the
+ * millisecond, then by row id
+ */
+export interface TradeStreamCursor {
+  createdAt: Date;
+  id: string;
+}
+
+// Sorts before every row id, for Last-Event-IDs that were a bare timestamp
+const NIL_UUID = '00000000-0000-0000-0000-000000000000';
+
+/**
+ * Newly ingested trades, published once per trade for every open stream
+ */
+export const tradeStreamEvents = new EventEmitter();
+tradeStreamEvents.setMaxListeners(0);
+
+/**
+ * Fans newly created trades and in-app alert notifications out to live
+ * stream connections, and replays what a reconnecting client missed.
+ *
+ * Event IDs encode the creation time and row id, so they are unique and
+ * ordered even when a sync stores many rows in the same millisecond, and a
+ * Last-Event-ID from before a server restart still resumes exactly after
+ * the last event the client received.
+ */
+export class TradeStreamService {
+  private static readonly REPLAY_LIMIT = 500;
+
+  /**
+   * Publish a trade that was just stored
+   */
+  static async publishTrade(trade: StockTrade): Promise<void> {
+    if (tradeStreamEvents.listenerCount('trade') === 0) {
+      return;
+    }
+
+    // Load the trade with trader and stock details, matching GET /trades
+    const { trades } = await StockTrade.findWithFilters({ id: trade.id }, 1, 0);
+    const detailed = trades[0] || trade;
+
+    tradeStreamEvents.emit('trade', this.tradeEvent(detailed));
+  }
+
+  /**
+   * Subscribe to live events: all new trades, plus the user's own
+   * notifications when authenticated. Returns the unsubscribe function.
+   */
+  static subscribe(userId: string | undefined, listener: (event: TradeStreamEvent) => void): () => void {
+    const onNotification = (payload: Record<string, any>) => {
+      listener(this.notificationEvent(payload));
+    };
+
+    tradeStreamEvents.on('trade', listener);
+    if (userId) {
+      inAppNotificationEvents.on(`user:${userId}`, onNotification);
+    }
+
+    return () => {
+      tradeStreamEvents.off('trade', listener);
+      if (userId) {
+        inAppNotificationEvents.off(`user:${userId}`, onNotification);
+      }
+    };
+  }
+
+  /**
+   * Events created after the given event ID, oldest first
+   */
+  static async getEventsSince(lastEventId: string, userId?: string): Promise<TradeStreamEvent[]> {
+    const since = this.parseEventId(lastEventId);
+    if (!since) {
+      return [];
+    }
+
+    const { trades } = await StockTrade.findWithFilters(
+      { createdAfter: since },
+      this.REPLAY_LIMIT,
+      0,
+      'createdAt',
+      'asc'
+    );
+    const sources = [trades.map(trade => this.tradeEvent(trade))];
+
+    if (userId) {
+      const notifications = await AlertNotification.findInAppSince(
+        userId,
+        { deliveredAt: since.createdAt, id: since.id },
+        this.REPLAY_LIMIT
+      );
+      sources.push(notifications.map(notification => this.notificationEvent({
+        id: notification.id,
+        alertId: notification.alertId,
+        message: notification.message,
+        tradeId: notification.tradeId || null,
+        tradeIds: notification.tradeIds || [],
+        createdAt: notification.deliveredAt
+      })));
+    }
+
+    // A source cut off at the limit may have more events; stop at its last
+    // one so the client resumes from there rather than skipping the rest
+    const cutoff = sources
+      .filter(events => events.length === this.REPLAY_LIMIT)
+      .map(events => events[events.length - 1].id)
+      .sort((a, b) => this.compareEventIds(a, b))[0];
+
+    return sources
+      .flat()
+      .filter(event => !cutoff || this.compareEventIds(event.id, cutoff) <= 0)
+      .sort((a, b) => this.compareEventIds(a.id, b.id));
+  }
+
+  /**
+   * Parse a Last-Event-ID value; null when it is not one of ours. A bare
+   * millisecond timestamp resumes from the start of that millisecond.
+   */
+  static parseEventId(lastEventId?: string): TradeStreamCursor | null {
+    const match = lastEventId && /^(\d+)(?:-([0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}))?$/i.exec(lastEventId);
+    if (!match) {
+      return null;
+    }
+
+    const createdAt = new Date(Number(match[1]));
+    return isNaN(createdAt.getTime()) ? null : { createdAt, id: (match[2] || NIL_UUID).toLowerCase() };
+  }
+
+  private static eventId(createdAt: Date, id: string): string {
+    return `${createdAt.getTime()}-${id}`;
+  }
+
+  private static compareEventIds(a: string, b: string): number {
+    const first = this.parseEventId(a)!;
+    const second = this.parseEventId(b)!;
+    return first.createdAt.getTime() - second.createdAt.getTime()
+      || (first.id < second.id ? -1 : first.id > second.id ? 1 : 0);
+  }
+
+  private static tradeEvent(trade: StockTrade): TradeStreamEvent {
+    return {
+      id: this.eventId(new Date(trade.createdAt || Date.now()), trade.id!),
+      event: 'trade',
+      data: trade.toJSON()
+    };
+  }
+
+  private static notificationEvent(payload: Record<string, any>): TradeStreamEvent {
+    const createdAt = new Date(payload.createdAt || Date.now());
+    return {
+      id: this.eventId(createdAt, payload.id),
+      event: 'notification',
+      data: { ...payload, createdAt: createdAt.toISOString() }
+    };
+  }
+}
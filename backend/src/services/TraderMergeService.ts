@@ -0,0 +1,428 @@
+import { PoolClient } from 'pg';
+import { db } from '../config/database';
+import { TraderType } from '../models/StockTrade';
+import { normalizeMemberName } from '../models/CongressionalMember';
+import {
+  TraderCorrection,
+  TraderCorrectionChanges,
+  TraderSnapshot
+} from '../models/TraderCorrection';
+import { ConflictError, NotFoundError, ValidationError } from '../middleware/errors';
+import { isUuid } from '../middleware/validation';
+
+export interface TraderSummary {
+  id: string;
+  name: string;
+  trades: number;
+}
+
+export interface MergePreview {
+  traderType: TraderType;
+  source: TraderSummary;
+  target: TraderSummary;
+  trades: number;
+  // Source trades the target already has a trade for on the same day, ticker and type
+  overlappingTrades: number;
+  alerts: number;
+  follows: number;
+  // Users following both traders; their follow of the source is ended
+  conflictingFollows: number;
+  committees: number;
+  aliases: number;
+}
+
+export interface CorrectionOptions {
+  reason?: string;
+  performedBy?: string; // user ID; omitted when run from the CLI
+}
+
+const TRADER_TABLES: Record<TraderType, string> = {
+  congressional: 'congressional_members',
+  corporate: 'corporate_insiders'
+};
+
+/**
+ * Merges duplicate congressional members or corporate insiders and splits
+ * misattributed trades off a trader. Every change is recorded in
+ * trader_corrections with enough detail to undo it.
+ */
+export class TraderMergeService {
+  /**
+   * What merging the source into the target would change, without changing it
+   */
+  static async previewMerge(traderType: TraderType, sourceId: string, targetId: string): Promise<MergePreview> {
+    this.validatePair(traderType, sourceId, targetId);
+
+    const client = await db.connect();
+    try {
+      const source = await this.loadTrader(client, traderType, sourceId, 'Source trader');
+      const target = await this.loadTrader(client, traderType, targetId, 'Target trader');
+
+      const counts = await client.query(
+        `SELECT
+           (SELECT COUNT(*) FROM stock_trades WHERE trader_type = $3 AND trader_id = $1) AS source_trades,
+           (SELECT COUNT(*) FROM stock_trades WHERE trader_type = $3 AND trader_id = $2) AS target_trades,
+           (SELECT COUNT(*) FROM stock_trades s WHERE s.trader_type = $3 AND s.trader_id = $1 AND EXISTS (
+              SELECT 1 FROM stock_trades t
+              WHERE t.trader_type = $3 AND t.trader_id = $2 AND t.ticker_symbol = s.ticker_symbol
+                AND t.transaction_date = s.transaction_date AND t.transaction_type = s.transaction_type
+           )) AS overlapping_trades,
+           (SELECT COUNT(*) FROM user_follows WHERE trader_type = $3 AND trader_id = $1) AS follows,
+           (SELECT COUNT(*) FROM user_follows f WHERE f.trader_type = $3 AND f.trader_id = $1 AND f.unfollowed_at IS NULL
+              AND EXISTS (
+                SELECT 1 FROM user_follows t
+                WHERE t.user_id = f.user_id AND t.trader_type = $3 AND t.trader_id = $2 AND t.unfollowed_at IS NULL
+           )) AS conflicting_follows`,
+        [sourceId, targetId, traderType]
+      );
+      const row = counts.rows[0];
+
+      let alerts = 0;
+      let committees = 0;
+      let aliases = 0;
+      if (traderType === 'congressional') {
+        const memberCounts = await client.query(
+          `SELECT
+             (SELECT COUNT(*) FROM user_alerts WHERE politician_id = $1) AS alerts,
+             (SELECT COUNT(*) FROM committee_memberships WHERE member_id = $1) AS committees,
+             (SELECT COUNT(*) FROM member_aliases WHERE member_id = $1) AS aliases`,
+          [sourceId]
+        );
+        alerts = parseInt(memberCounts.rows[0].alerts);
+        committees = parseInt(memberCounts.rows[0].committees);
+        aliases = parseInt(memberCounts.rows[0].aliases);
+      }
+
+      return {
+        traderType,
+        source: { id: source.id, name: source.name, trades: parseInt(row.source_trades) },
+        target: { id: target.id, name: target.name, trades: parseInt(row.target_trades) },
+        trades: parseInt(row.source_trades),
+        overlappingTrades: parseInt(row.overlapping_trades),
+        alerts,
+        follows: parseInt(row.follows),
+        conflictingFollows: parseInt(row.conflicting_follows),
+        committees,
+        aliases
+      };
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Move everything that references the source trader onto the target and
+   * delete the source. The source's name becomes an alias of the target so
+   * the next sync doesn't recreate it.
+   */
+  static async merge(
+    traderType: TraderType,
+    sourceId: string,
+    targetId: string,
+    options: CorrectionOptions = {}
+  ): Promise<TraderCorrection> {
+    this.validatePair(traderType, sourceId, targetId);
+
+    return db.transaction(async client => {
+      const source = await this.loadTrader(client, traderType, sourceId, 'Source trader', true);
+      const target = await this.loadTrader(client, traderType, targetId, 'Target trader', true);
+
+      const changes: TraderCorrectionChanges = {
+        tradeIds: [],
+        alertIds: [],
+        followIds: [],
+        closedFollowIds: [],
+        committeeIds: [],
+        aliasIds: []
+      };
+      const snapshot: TraderSnapshot = { row: source, aliases: [], committees: [] };
+
+      const trades = await client.query(
+        `UPDATE stock_trades SET trader_id = $2, updated_at = NOW()
+         WHERE trader_type = $3 AND trader_id = $1 RETURNING id`,
+        [sourceId, targetId, traderType]
+      );
+      changes.tradeIds = trades.rows.map(row => row.id);
+
+      // A user may follow both; keep one active follow per trader
+      const closedFollows = await client.query(
+        `UPDATE user_follows f SET unfollowed_at = NOW()
+         WHERE f.trader_type = $3 AND f.trader_id = $1 AND f.unfollowed_at IS NULL
+           AND EXISTS (
+             SELECT 1 FROM user_follows t
+             WHERE t.user_id = f.user_id AND t.trader_type = $3 AND t.trader_id = $2 AND t.unfollowed_at IS NULL
+           )
+         RETURNING f.id`,
+        [sourceId, targetId, traderType]
+      );
+      changes.closedFollowIds = closedFollows.rows.map(row => row.id);
+
+      const follows = await client.query(
+        `UPDATE user_follows SET trader_id = $2
+         WHERE trader_type = $3 AND trader_id = $1 RETURNING id`,
+        [sourceId, targetId, traderType]
+      );
+      changes.followIds = follows.rows.map(row => row.id);
+
+      if (traderType === 'congressional') {
+        const alerts = await client.query(
+          `UPDATE user_alerts SET politician_id = $2, updated_at = NOW()
+           WHERE politician_id = $1 RETURNING id`,
+          [sourceId, targetId]
+        );
+        changes.alertIds = alerts.rows.map(row => row.id);
+
+        const committees = await client.query(
+          'SELECT committee_id, role FROM committee_memberships WHERE member_id = $1',
+          [sourceId]
+        );
+        snapshot.committees = committees.rows;
+
+        const addedCommittees = await client.query(
+          `INSERT INTO committee_memberships (committee_id, member_id, role)
+           SELECT committee_id, $2, role FROM committee_memberships WHERE member_id = $1
+           ON CONFLICT (committee_id, member_id) DO NOTHING
+           RETURNING committee_id`,
+          [sourceId, targetId]
+        );
+        changes.committeeIds = addedCommittees.rows.map(row => row.committee_id);
+
+        const aliases = await client.query(
+          'SELECT alias, normalized_alias, source FROM member_aliases WHERE member_id = $1',
+          [sourceId]
+        );
+        snapshot.aliases = aliases.rows;
+
+        const addedAliases = await client.query(
+          `INSERT INTO member_aliases (member_id, alias, normalized_alias, source)
+           SELECT $2::uuid, alias, normalized_alias, source FROM member_aliases WHERE member_id = $1
+           UNION ALL
+           SELECT $2::uuid, $3::varchar, $4::varchar, 'manual'
+           ON CONFLICT (member_id, normalized_alias) DO NOTHING
+           RETURNING id`,
+          [sourceId, targetId, source.name, normalizeMemberName(source.name)]
+        );
+        changes.aliasIds = addedAliases.rows.map(row => row.id);
+      }
+
+      await client.query(`DELETE FROM ${TRADER_TABLES[traderType]} WHERE id = $1`, [sourceId]);
+
+      if (traderType === 'congressional' && source.bioguide_id && !target.bioguide_id) {
+        await client.query(
+          'UPDATE congressional_members SET bioguide_id = $2 WHERE id = $1',
+          [targetId, source.bioguide_id]
+        );
+        changes.bioguideId = source.bioguide_id;
+      }
+
+      return TraderCorrection.create(client, {
+        operation: 'merge',
+        traderType,
+        sourceId,
+        targetId,
+        sourceSnapshot: snapshot,
+        changes,
+        reason: options.reason,
+        performedBy: options.performedBy
+      });
+    });
+  }
+
+  /**
+   * Move trades wrongly attributed to the source trader onto the target.
+   * Alerts and follows stay with the source.
+   */
+  static async split(
+    traderType: TraderType,
+    sourceId: string,
+    targetId: string,
+    tradeIds: string[],
+    options: CorrectionOptions = {}
+  ): Promise<TraderCorrection> {
+    this.validatePair(traderType, sourceId, targetId);
+    if (!Array.isArray(tradeIds) || tradeIds.length === 0) {
+      throw new ValidationError('At least one trade ID is required to split');
+    }
+
+    if (!tradeIds.every(isUuid)) {
+      throw new ValidationError('tradeIds must be valid UUIDs');
+    }
+
+    const uniqueTradeIds = [...new Set(tradeIds)];
+
+    return db.transaction(async client => {
+      await this.loadTrader(client, traderType, sourceId, 'Source trader', true);
+      await this.loadTrader(client, traderType, targetId, 'Target trader', true);
+
+      const trades = await client.query(
+        `UPDATE stock_trades SET trader_id = $2, updated_at = NOW()
+         WHERE id = ANY($4::uuid[]) AND trader_type = $3 AND trader_id = $1 RETURNING id`,
+        [sourceId, targetId, traderType, uniqueTradeIds]
+      );
+
+      if (trades.rows.length !== uniqueTradeIds.length) {
+        throw new ValidationError(
+          `${uniqueTradeIds.length - trades.rows.length} of the given trades do not belong to the source trader`
+        );
+      }
+
+      return TraderCorrection.create(client, {
+        operation: 'split',
+        traderType,
+        sourceId,
+        targetId,
+        changes: {
+          tradeIds: trades.rows.map(row => row.id),
+          alertIds: [],
+          followIds: [],
+          closedFollowIds: [],
+          committeeIds: [],
+          aliasIds: []
+        },
+        reason: options.reason,
+        performedBy: options.performedBy
+      });
+    });
+  }
+
+  /**
+   * Reverse a merge or split. Corrections must be undone newest first when
+   * they involve the same traders.
+   */
+  static async undo(correctionId: string, undoneBy?: string): Promise<TraderCorrection> {
+    if (!isUuid(correctionId)) {
+      throw new ValidationError('Invalid correction ID');
+    }
+
+    return db.transaction(async client => {
+      const correction = await TraderCorrection.findById(correctionId, client);
+      if (!correction) {
+        throw new NotFoundError('Correction');
+      }
+
+      if (correction.undoneAt) {
+        throw new ConflictError('This correction has already been undone');
+      }
+
+      if (await correction.hasLaterCorrections(client)) {
+        throw new ConflictError('A later merge or split involves these traders; undo it first');
+      }
+
+      const { traderType, sourceId, targetId, changes } = correction;
+
+      if (correction.operation === 'merge') {
+        await this.restoreSource(client, correction);
+      }
+
+      await client.query(
+        `UPDATE stock_trades SET trader_id = $1, updated_at = NOW()
+         WHERE id = ANY($3::uuid[]) AND trader_type = $4 AND trader_id = $2`,
+        [sourceId, targetId, changes.tradeIds, traderType]
+      );
+
+      await client.query(
+        `UPDATE user_follows SET trader_id = $1
+         WHERE id = ANY($3::uuid[]) AND trader_type = $4 AND trader_id = $2`,
+        [sourceId, targetId, changes.followIds, traderType]
+      );
+      await client.query(
+        'UPDATE user_follows SET unfollowed_at = NULL WHERE id = ANY($1::uuid[])',
+        [changes.closedFollowIds]
+      );
+
+      if (traderType === 'congressional') {
+        await client.query(
+          `UPDATE user_alerts SET politician_id = $1, updated_at = NOW()
+           WHERE id = ANY($3::uuid[]) AND politician_id = $2`,
+          [sourceId, targetId, changes.alertIds]
+        );
+        await client.query(
+          'DELETE FROM committee_memberships WHERE member_id = $1 AND committee_id = ANY($2::uuid[])',
+          [targetId, changes.committeeIds]
+        );
+        await client.query(
+          'DELETE FROM member_aliases WHERE id = ANY($1::uuid[])',
+          [changes.aliasIds]
+        );
+      }
+
+      await correction.markUndone(client, undoneBy);
+      return correction;
+    });
+  }
+
+  /**
+   * Recreate a merged-away trader with its original ID, aliases and committee seats
+   */
+  private static async restoreSource(client: PoolClient, correction: TraderCorrection): Promise<void> {
+    const { traderType, sourceId, targetId, changes } = correction;
+    const snapshot = correction.sourceSnapshot;
+    if (!snapshot) {
+      throw new ConflictError('This merge has no snapshot of the removed trader');
+    }
+
+    const table = TRADER_TABLES[traderType];
+
+    // The Bioguide ID is unique, so take it back before restoring the source
+    if (changes.bioguideId) {
+      await client.query('UPDATE congressional_members SET bioguide_id = NULL WHERE id = $1', [targetId]);
+    }
+
+    await client.query(
+      `INSERT INTO ${table} SELECT * FROM json_populate_record(NULL::${table}, $1)`,
+      [JSON.stringify(snapshot.row)]
+    );
+
+    for (const committee of snapshot.committees) {
+      await client.query(
+        'INSERT INTO committee_memberships (committee_id, member_id, role) VALUES ($1, $2, $3) ON CONFLICT DO NOTHING',
+        [committee.committee_id, sourceId, committee.role]
+      );
+    }
+
+    for (const alias of snapshot.aliases) {
+      await client.query(
+        `INSERT INTO member_aliases (member_id, alias, normalized_alias, source)
+         VALUES ($1, $2, $3, $4) ON CONFLICT (member_id, normalized_alias) DO NOTHING`,
+        [sourceId, alias.alias, alias.normalized_alias, alias.source]
+      );
+    }
+  }
+
+  private static validatePair(traderType: TraderType, sourceId: string, targetId: string): void {
+    if (!TRADER_TABLES[traderType]) {
+      throw new ValidationError('traderType must be "congressional" or "corporate"');
+    }
+
+    if (!sourceId || !targetId) {
+      throw new ValidationError('sourceId and targetId are required');
+    }
+
+    if (!isUuid(sourceId) || !isUuid(targetId)) {
+      throw new ValidationError('sourceId and targetId must be valid UUIDs');
+    }
+
+    if (sourceId === targetId) {
+      throw new ValidationError('sourceId and targetId must be different traders');
+    }
+  }
+
+  private static async loadTrader(
+    client: PoolClient,
+    traderType: TraderType,
+    id: string,
+    label: string,
+    lock: boolean = false
+  ): Promise<Record<string, any>> {
+    const result = await client.query(
+      `SELECT * FROM ${TRADER_TABLES[traderType]} WHERE id = $1${lock ? ' FOR UPDATE' : ''}`,
+      [id]
+    );
+
+    if (result.rows.length === 0) {
+      throw new NotFoundError(label);
+    }
+
+    return result.rows[0];
+  }
+}
@@ -0,0 +1,103 @@
+import QRCode from 'qrcode';
+import { User } from '../models/User';
+import { TwoFactorAuth, TwoFactorStatus } from '../models/TwoFactorAuth';
+import { AppSetting } from '../models/AppSetting';
+import { UserSession } from '../models/UserSession';
+import { AuthorizationError, ValidationError } from '../middleware/errors';
+import { buildOtpauthUrl } from '../utils/totp';
+
+const TOTP_ISSUER = 'CongressTracker';
+
+export interface TwoFactorEnrollment {
+  secret: string; // For typing into the app when the QR code can't be scanned
+  otpauthUrl: string;
+  qrCode: string; // PNG data URL of otpauthUrl
+}
+
+/**
+ * Enrolling in and managing TOTP two-factor authentication
+ */
+export class TwoFactorService {
+  static async getStatus(user: User): Promise<TwoFactorStatus & { required: boolean }> {
+    return {
+      ...await TwoFactorAuth.getStatus(user.id!),
+      required: await this.isRequiredFor(user)
+    };
+  }
+
+  /**
+   * Whether policy says the user must have 2FA: admins do once an admin
+   * turns on requireAdminTwoFactor
+   */
+  static async isRequiredFor(user: User): Promise<boolean> {
+    return user.isAdmin() && await AppSetting.get('requireAdminTwoFactor');
+  }
+
+  /**
+   * Start enrollment with a new secret and the QR code for it
+   */
+  static async startEnrollment(user: User): Promise<TwoFactorEnrollment> {
+    const secret = await TwoFactorAuth.startEnrollment(user.id!);
+    const otpauthUrl = buildOtpauthUrl(secret, user.email, TOTP_ISSUER);
+
+    return {
+      secret,
+      otpauthUrl,
+      qrCode: await QRCode.toDataURL(otpauthUrl)
+    };
+  }
+
+  /**
+   * Finish enrollment with a code from the app. Other sessions are logged
+   * out, since they were started without the second factor.
+   */
+  static async confirmEnrollment(user: User, code: string, currentSessionId?: string): Promise<string[]> {
+    if (!code) {
+      throw new ValidationError('Code is required');
+    }
+
+    const recoveryCodes = await TwoFactorAuth.confirmEnrollment(user.id!, code);
+    if (!recoveryCodes) {
+      throw new ValidationError('Invalid two-factor authentication code');
+    }
+
+    await UserSession.revokeAllForUser(user.id!, 'user_revoked', currentSessionId);
+    return recoveryCodes;
+  }
+
+  /**
+   * Turn 2FA off; needs the password and a current code
+   */
+  static async disable(user: User, password: string, code: string): Promise<void> {
+    if (await this.isRequiredFor(user)) {
+      throw new AuthorizationError('Two-factor authentication is required for administrators', 'TWO_FACTOR_REQUIRED_BY_POLICY');
+    }
+
+    if (!await user.verifyPassword(password)) {
+      throw new ValidationError('Password is incorrect');
+    }
+
+    await this.requireValidCode(user, code);
+    await TwoFactorAuth.disable(user.id!);
+  }
+
+  /**
+   * Replace the recovery codes; needs a current code
+   */
+  static async regenerateRecoveryCodes(user: User, code: string): Promise<string[]> {
+    await this.requireValidCode(user, code);
+    return TwoFactorAuth.regenerateRecoveryCodes(user.id!);
+  }
+
+  private static async requireValidCode(user: User, code: string): Promise<void> {
+    if (!user.isTwoFactorEnabled()) {
+      throw new ValidationError('Two-factor authentication is not enabled');
+    }
+
+    if (!code || !await TwoFactorAuth.verify(user.id!, code)) {
+      throw new ValidationError('Invalid two-factor authentication code');
+    }
+  }
+}
+
+export default TwoFactorService;
@@ -0,0 +1,38 @@
+import path from 'path';
+import { TradeDataSource, SourceTrade, Chamber } from './types';
+import { ChamberFiles } from './FileDataSource';
+import { readRecordFile, normalizeFileRecords } from './parsing';
+
+/**
+ * Trades from downloaded House Clerk and Senate eFD periodic transaction
+ * report dumps: the JSON transaction lists compiled from those sites
+ * (ticker, asset_description, transaction_date, disclosure_date, type,
+ * amount, owner, representative/senator, district, ptr_link), or XML with
+ * one <Transaction> element per trade holding the same fields. Trades are
+ * recorded as coming from the chamber's official source.
+ */
+export class DisclosureDumpDataSource implements TradeDataSource {
+  readonly name = 'disclosure dump';
+  readonly supportsCheckpoints = false;
+  private files: ChamberFiles;
+
+  constructor(files: ChamberFiles) {
+    for (const filePath of Object.values(files)) {
+      const extension = path.extname(filePath || '').toLowerCase();
+      if (filePath && extension !== '.json' && extension !== '.xml') {
+        throw new Error(`Unsupported disclosure dump "${path.basename(filePath)}"; expected .json or .xml`);
+      }
+    }
+    this.files = files;
+  }
+
+  async fetchTrades(chamber: Chamber): Promise<SourceTrade[]> {
+    const filePath = this.files[chamber];
+    if (!filePath) {
+      return [];
+    }
+
+    const source = chamber === 'house' ? 'house_clerk' : 'senate_efd';
+    return normalizeFileRecords(filePath, readRecordFile(filePath), chamber, source);
+  }
+}
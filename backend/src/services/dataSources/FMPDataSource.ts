@@ -0,0 +1,80 @@
+import { FMPClient, getFMPClient, FMPSenateTradeResponse, FMPHouseTradeResponse } from '../FMPClient';
+import { StockTrade } from '../../models/StockTrade';
+import { TradeDataSource, SourceTrade, Chamber, FetchTradesOptions } from './types';
+import { parseTransactionType, parseAmountRange, parseStateDistrict, classifyAsset } from './parsing';
+
+/**
+ * Senate and House trades from Financial Modeling Prep's paginated feeds
+ */
+export class FMPDataSource implements TradeDataSource {
+  readonly name = 'FMP';
+  readonly supportsCheckpoints = true;
+  private client?: FMPClient;
+
+  constructor(client?: FMPClient) {
+    this.client = client;
+  }
+
+  async fetchTrades(chamber: Chamber, options: FetchTradesOptions = {}): Promise<SourceTrade[]> {
+    const maxPages = options.maxPages || 10;
+    const limit = options.limit || 250;
+    const client = this.getClient();
+
+    const records = chamber === 'senate'
+      ? await client.getAllSenateTrades(maxPages, limit)
+      : await client.getAllHouseTrades(maxPages, limit);
+
+    if (!Array.isArray(records)) {
+      return [];
+    }
+
+    const retrievedAt = new Date().toISOString();
+    return records.map(record => this.normalize(record, chamber, retrievedAt));
+  }
+
+  private normalize(
+    record: FMPSenateTradeResponse | FMPHouseTradeResponse,
+    chamber: Chamber,
+    retrievedAt: string
+  ): SourceTrade {
+    // Senators' district field is just the state code ("OK"); representatives'
+    // is state and district number ("FL02")
+    const { stateCode, district } = parseStateDistrict(record.district);
+
+    return {
+      member: {
+        fullName: record.office,
+        firstName: record.firstName,
+        lastName: record.lastName,
+        chamber,
+        stateCode: stateCode || record.district,
+        district: chamber === 'house' ? district : undefined
+      },
+      trade: {
+        tickerSymbol: record.symbol,
+        transactionDate: new Date(record.transactionDate),
+        transactionType: parseTransactionType(record.type),
+        amountRange: record.amount,
+        estimatedValue: parseAmountRange(record.amount),
+        filingDate: record.disclosureDate ? new Date(record.disclosureDate) : undefined,
+        owner: StockTrade.parseOwner(record.owner),
+        ...classifyAsset(record.assetType, record.assetDescription, record.comment)
+      },
+      companyName: record.assetDescription,
+      originalData: record,
+      provenance: {
+        source: 'fmp',
+        url: record.link || undefined,
+        retrievedAt
+      }
+    };
+  }
+
+  // Created on first use so file-based syncs don't need an FMP API key
+  private getClient(): FMPClient {
+    if (!this.client) {
+      this.client = getFMPClient();
+    }
+    return this.client;
+  }
+}
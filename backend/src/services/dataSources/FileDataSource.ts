@@ -0,0 +1,29 @@
+import { TradeDataSource, SourceTrade, Chamber } from './types';
+import { readRecordFile, normalizeFileRecords } from './parsing';
+
+export type ChamberFiles = Partial<Record<Chamber, string>>;
+
+/**
+ * Trades from local CSV, JSON or NDJSON files. Columns are matched by name
+ * (ticker, transactionDate, disclosureDate, type, amount, owner, name,
+ * state, district, ...). One file may hold both chambers when it has a
+ * chamber column; give it as both the House and Senate file.
+ */
+export class FileDataSource implements TradeDataSource {
+  readonly name = 'file';
+  readonly supportsCheckpoints = false;
+  private files: ChamberFiles;
+
+  constructor(files: ChamberFiles) {
+    this.files = files;
+  }
+
+  async fetchTrades(chamber: Chamber): Promise<SourceTrade[]> {
+    const filePath = this.files[chamber];
+    if (!filePath) {
+      return [];
+    }
+
+    return normalizeFileRecords(filePath, readRecordFile(filePath), chamber, 'file');
+  }
+}
@@ -0,0 +1,58 @@
+import { FMPClient } from '../FMPClient';
+import { TradeDataSource } from './types';
+import { FMPDataSource } from './FMPDataSource';
+import { FileDataSource, ChamberFiles } from './FileDataSource';
+import { DisclosureDumpDataSource } from './DisclosureDumpDataSource';
+
+export type { TradeDataSource, SourceTrade, DisclosedMember, TradeProvenance, Chamber, FetchTradesOptions } from './types';
+export { FMPDataSource } from './FMPDataSource';
+export { FileDataSource } from './FileDataSource';
+export type { ChamberFiles } from './FileDataSource';
+export { DisclosureDumpDataSource } from './DisclosureDumpDataSource';
+export {
+  parseTransactionType,
+  parseAmountRange,
+  parseDisclosureDate,
+  classifyAsset,
+  parseCsv,
+  parseRecords,
+  readRecordFile,
+  normalizeFileRecord,
+  applyColumnMapping,
+  recordChamber,
+  DISCLOSURE_FIELDS
+} from './parsing';
+export type { ColumnMapping, DisclosureField } from './parsing';
+
+export type DataSourceKind = 'fmp' | 'file' | 'disclosure_dump';
+
+export const DATA_SOURCE_KINDS: DataSourceKind[] = ['fmp', 'file', 'disclosure_dump'];
+
+/**
+ * Build a data source adapter; file-based kinds read the given files
+ */
+export function createDataSource(kind: DataSourceKind, files: ChamberFiles = {}, fmpClient?: FMPClient): TradeDataSource {
+  switch (kind) {
+    case 'fmp':
+      return new FMPDataSource(fmpClient);
+    case 'file':
+      return new FileDataSource(files);
+    case 'disclosure_dump':
+      return new DisclosureDumpDataSource(files);
+    default:
+      throw new Error(`Unknown data source "${kind}"; expected ${DATA_SOURCE_KINDS.join(', ')}`);
+  }
+}
+
+/**
+ * The data source the scheduled sync uses: TRADE_DATA_SOURCE (default fmp),
+ * reading TRADE_DATA_HOUSE_FILE and TRADE_DATA_SENATE_FILE for file kinds
+ */
+export function getConfiguredDataSource(fmpClient?: FMPClient): TradeDataSource {
+  const kind = (process.env.TRADE_DATA_SOURCE || 'fmp') as DataSourceKind;
+
+  return createDataSource(kind, {
+    house: process.env.TRADE_DATA_HOUSE_FILE || undefined,
+    senate: process.env.TRADE_DATA_SENATE_FILE || undefined
+  }, fmpClient);
+}
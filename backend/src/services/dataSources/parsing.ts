@@ -0,0 +1,546 @@
+import fs from 'fs';
+import path from 'path';
+import { StockTrade, TradeDataSource as TradeDataSourceName, TradeAsset, AssetClass } from '../../models/StockTrade';
+import { Chamber, SourceTrade } from './types';
+
+/**
+ * Parse a disclosure's transaction type ("Purchase", "Sale (Partial)", "sale_full", ...)
+ */
+export function parseTransactionType(type: string): 'buy' | 'sell' | 'exchange' {
+  const normalized = type.toLowerCase().trim();
+
+  if (normalized.includes('purchase') || normalized.includes('buy')) {
+    return 'buy';
+  } else if (normalized.includes('sale') || normalized.includes('sell')) {
+    return 'sell';
+  } else {
+    return 'exchange';
+  }
+}
+
+/**
+ * Parse amount range and return estimated value
+ */
+export function parseAmountRange(amount: string): number | undefined {
+  if (!amount) return undefined;
+
+  // Try to extract numbers from amount string
+  const numbers = amount.match(/\$?([\d,]+)/g);
+  if (!numbers) return undefined;
+
+  const values = numbers.map(n => parseInt(n.replace(/[$,]/g, '')));
+
+  if (values.length === 1) {
+    return values[0];
+  } else if (values.length === 2) {
+    // Return midpoint of range
+    return (values[0] + values[1]) / 2;
+  }
+
+  return undefined;
+}
+
+/**
+ * Parse an ISO (2024-06-03) or US-style (06/03/2024) date. Both become
+ * midnight UTC, as FMP's ISO dates always have.
+ */
+export function parseDisclosureDate(value?: string | null): Date | undefined {
+  if (!value) return undefined;
+
+  const trimmed = String(value).trim();
+  const us = trimmed.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})$/);
+  const iso = us
+    ? `${us[3]}-${us[1].padStart(2, '0')}-${us[2].padStart(2, '0')}`
+    : trimmed.slice(0, 10);
+
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(iso)) return undefined;
+
+  const date = new Date(iso);
+  return isNaN(date.getTime()) ? undefined : date;
+}
+
+// House Clerk asset type codes; codes not listed here are classified as other
+const HOUSE_ASSET_CODES: Record<string, AssetClass> = {
+  ST: 'stock', // stocks, including ADRs
+  PS: 'stock', // stock not publicly traded
+  RS: 'stock', // restricted stock units
+  OP: 'option',
+  EF: 'etf', // exchange traded funds and notes
+  MF: 'mutual_fund',
+  CS: 'bond', // corporate bonds and notes
+  GS: 'bond', // government securities and agency debt
+  AB: 'bond', // asset-backed securities
+  CT: 'crypto'
+};
+
+const ASSET_KEYWORDS: Array<[AssetClass, RegExp]> = [
+  ['option', /\boptions?\b/],
+  ['crypto', /\bcrypto|\bbitcoin\b|\bethereum\b/],
+  ['etf', /\betfs?\b|exchange[- ]traded|\bishares\b|\bspdr\b/],
+  ['bond', /\bbonds?\b|\bnotes? due\b|\btreasury\b|\bmunicipal\b|\bgovernment securit|\bdebentures?\b|\d%\s+due\b/],
+  ['mutual_fund', /\bmutual funds?\b|\bfund\b/],
+  ['stock', /\bstock\b|\bshares\b|\bequity\b|\badrs?\b|\bcommon\b/],
+  ['other', /\bother\b/]
+];
+
+const NUMBER = String.raw`(\d[\d,]*(?:\.\d+)?)`;
+const OPTION_DATE = String.raw`(\d{1,2}\/\d{1,2}\/\d{2,4}|\d{4}-\d{2}-\d{2}|[a-z]{3,9}\.?\s+\d{1,2},?\s+\d{4})`;
+
+/**
+ * Classify a disclosed asset from its type ("Stock Option", "Corporate Bond",
+ * House Clerk codes like "OP") and description, and read an option's terms
+ * ("Purchased 20 call options with a strike price of $150 and an expiration
+ * date of 12/20/24"). The comment is searched for option terms too. Assets
+ * that can't be placed are taken to be stock: every trade names a ticker.
+ */
+export function classifyAsset(
+  assetType?: string | null,
+  assetDescription?: string | null,
+  comment?: string | null
+): TradeAsset {
+  const description = String(assetDescription || '');
+  // A generic type such as "Other Securities" gives way to a description naming a fund or option
+  const candidates = [
+    classifyAssetType(assetType),
+    classifyAssetType(description.match(/\[([A-Z0-9]{2})\]/)?.[1]),
+    classifyAssetText(description.toLowerCase(), true)
+  ];
+  const assetClass = candidates.find(candidate => candidate && candidate !== 'other')
+    ?? candidates.find(Boolean)
+    ?? 'stock';
+
+  if (assetClass !== 'option') {
+    return { assetClass };
+  }
+
+  const text = [assetType, description, comment].filter(Boolean).join(' ').toLowerCase();
+  const call = text.search(/\bcalls?\b/);
+  const put = text.search(/\bputs?\b/);
+  const strike = text.match(new RegExp(String.raw`strike(?:\s+price)?(?:\s+of)?\s*[:=]?\s*\$?\s*${NUMBER}`))
+    || text.match(new RegExp(String.raw`\$\s*${NUMBER}\s*(?:strike|calls?|puts?)\b`));
+  const expiry = text.match(new RegExp(String.raw`\bexp(?:ir(?:ation|es|ing|y|ed))?\.?(?:\s+date)?(?:\s+(?:of|on))?\s*[:=]?\s*${OPTION_DATE}`));
+
+  return {
+    assetClass,
+    optionType: put >= 0 && (call < 0 || put < call) ? 'put' : call >= 0 ? 'call' : undefined,
+    strikePrice: strike ? parseFloat(strike[1].replace(/,/g, '')) : undefined,
+    expirationDate: expiry ? parseOptionDate(expiry[1]) : undefined
+  };
+}
+
+function classifyAssetType(assetType?: string | null): AssetClass | undefined {
+  const trimmed = String(assetType || '').trim();
+  if (!trimmed) return undefined;
+
+  if (/^[A-Z0-9]{2}$/.test(trimmed)) {
+    return HOUSE_ASSET_CODES[trimmed] || 'other';
+  }
+  return classifyAssetText(trimmed.toLowerCase(), false);
+}
+
+// Descriptions name companies ("Option Care Health", "Callaway Golf"), so
+// they only count as options alongside contract terms
+function classifyAssetText(text: string, isDescription: boolean): AssetClass | undefined {
+  if (isDescription) {
+    const contract = /\b(calls?|puts?)\b.*\boptions?\b|\boptions?\b.*\b(calls?|puts?)\b|\bstock options?\b/.test(text)
+      || (/\b(calls?|puts?|options?)\b/.test(text) && /\bstrike\b|\bexp(ir|\.|\b)/.test(text));
+    if (contract) {
+      return 'option';
+    }
+  }
+
+  const match = ASSET_KEYWORDS.find(([assetClass, pattern]) =>
+    pattern.test(text) && !(isDescription && ['option', 'stock', 'other'].includes(assetClass))
+  );
+  return match?.[0];
+}
+
+// Option expiries: 12/20/2024, 12/20/24, 2024-12-20 or "Dec 20, 2024"
+function parseOptionDate(value: string): Date | undefined {
+  const shortYear = value.match(/^(\d{1,2})\/(\d{1,2})\/(\d{2})$/);
+  if (shortYear) {
+    return parseDisclosureDate(`${shortYear[1]}/${shortYear[2]}/20${shortYear[3]}`);
+  }
+
+  const named = value.match(/^([a-z]{3})[a-z]*\.?\s+(\d{1,2}),?\s+(\d{4})$/);
+  if (named) {
+    const month = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'].indexOf(named[1]);
+    return month >= 0 ? new Date(Date.UTC(parseInt(named[3], 10), month, parseInt(named[2], 10))) : undefined;
+  }
+
+  return parseDisclosureDate(value);
+}
+
+/**
+ * Split a state-and-district code: "FL02" and "CA-11" for representatives,
+ * "OK" for senators
+ */
+export function parseStateDistrict(value?: string | null): { stateCode?: string; district?: number } {
+  const match = String(value || '').trim().toUpperCase().match(/^([A-Z]{2})?-?(\d+)?$/);
+  if (!match) return {};
+
+  return {
+    stateCode: match[1],
+    district: match[2] !== undefined ? parseInt(match[2], 10) : undefined
+  };
+}
+
+/**
+ * A filer's display name and its first and last parts. Handles the
+ * "Last, First M. (Senator)" and "Hon. First Last" forms used by the
+ * official disclosure sites.
+ */
+export function parseFilerName(name: string): { fullName: string; firstName: string; lastName: string } {
+  let cleaned = name.replace(/\([^)]*\)/g, '').replace(/^(hon\.?|honorable|mr\.?|mrs\.?|ms\.?|dr\.?)\s+/i, '').trim();
+  const suffixes = /^(jr|sr|ii|iii|iv)\.?,?$/i;
+
+  // "Last, First M. Jr." keeps the suffix after the last name
+  const comma = cleaned.match(/^([^,]+),\s*(.+)$/);
+  if (comma && !suffixes.test(comma[2])) {
+    const given = comma[2].split(/[\s,]+/).filter(Boolean);
+    const suffix = given.length > 1 && suffixes.test(given[given.length - 1]) ? given.pop() : undefined;
+    cleaned = [...given, comma[1], suffix].filter(Boolean).join(' ');
+  }
+
+  const parts = cleaned.split(/\s+/).filter(Boolean);
+  const nameParts = parts.filter((part, index) => index === 0 || !suffixes.test(part));
+
+  return {
+    fullName: parts.join(' '),
+    firstName: nameParts[0] || '',
+    lastName: nameParts[nameParts.length - 1] || ''
+  };
+}
+
+/**
+ * Minimal RFC 4180 CSV parser: quoted fields, escaped quotes and embedded newlines
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  // Drop blank lines
+  return rows.filter(fields => fields.some(value => value.trim() !== ''));
+}
+
+/**
+ * Records of a flat XML document: each <recordTag> element becomes an object
+ * of its child elements' text. Nested elements beyond one level are ignored.
+ */
+export function parseXmlRecords(xml: string, recordTag: string): Record<string, string>[] {
+  const records: Record<string, string>[] = [];
+  const recordPattern = new RegExp(`<${recordTag}\\b[^>]*>([\\s\\S]*?)</${recordTag}>`, 'g');
+  const fieldPattern = /<([A-Za-z_][\w.-]*)\b[^>]*?(?:\/>|>([\s\S]*?)<\/\1>)/g;
+
+  for (const [, body] of xml.matchAll(recordPattern)) {
+    const record: Record<string, string> = {};
+    for (const [, name, value] of body.matchAll(fieldPattern)) {
+      record[name] = decodeXmlText(value || '');
+    }
+    records.push(record);
+  }
+
+  return records;
+}
+
+function decodeXmlText(value: string): string {
+  const cdata = value.match(/^\s*<!\[CDATA\[([\s\S]*)\]\]>\s*$/);
+  if (cdata) return cdata[1];
+
+  return value
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&#(\d+);/g, (_, code) => String.fromCharCode(parseInt(code, 10)))
+    .replace(/&#x([0-9a-f]+);/gi, (_, code) => String.fromCharCode(parseInt(code, 16)))
+    .replace(/&amp;/g, '&')
+    .trim();
+}
+
+/**
+ * Read the records of a .csv, .json, .ndjson/.jsonl or .xml file. JSON may be
+ * a list or an object holding one under "transactions", "data" or "records".
+ */
+export function readRecordFile(filePath: string, xmlRecordTag: string = 'Transaction'): Record<string, any>[] {
+  const contents = fs.readFileSync(filePath, 'utf8');
+  return parseRecords(contents, path.extname(filePath), path.basename(filePath), xmlRecordTag);
+}
+
+/**
+ * Parse records from file contents by extension (".csv", ".ndjson", ...); the
+ * name is only used in error messages
+ */
+export function parseRecords(
+  text: string,
+  extension: string,
+  name: string,
+  xmlRecordTag: string = 'Transaction'
+): Record<string, any>[] {
+  const contents = text.replace(/^\uFEFF/, '');
+
+  switch (extension.toLowerCase()) {
+    case '.csv': {
+      const [header, ...rows] = parseCsv(contents);
+      if (!header) return [];
+      return rows.map(row => Object.fromEntries(header.map((column, index) => [column.trim(), row[index] ?? ''])));
+    }
+
+    case '.json': {
+      const parsed = JSON.parse(contents);
+      const records = Array.isArray(parsed) ? parsed : parsed?.transactions || parsed?.data || parsed?.records;
+      if (!Array.isArray(records)) {
+        throw new Error(`${name} does not contain a list of records`);
+      }
+      return records;
+    }
+
+    case '.ndjson':
+    case '.jsonl':
+      return contents
+        .split(/\r?\n/)
+        .filter(line => line.trim() !== '')
+        .map((line, index) => {
+          try {
+            return JSON.parse(line);
+          } catch {
+            throw new Error(`${name} line ${index + 1} is not valid JSON`);
+          }
+        });
+
+    case '.xml':
+      return parseXmlRecords(contents, xmlRecordTag);
+
+    default:
+      throw new Error(`Unsupported file type "${extension.toLowerCase()}"; expected .csv, .json, .ndjson, .jsonl or .xml`);
+  }
+}
+
+/**
+ * Column names each field may appear under, compared without case or punctuation
+ */
+const FIELD_ALIASES = {
+  ticker: ['ticker', 'symbol', 'tickersymbol'],
+  transactionDate: ['transactiondate', 'tradedate', 'date'],
+  filingDate: ['disclosuredate', 'filingdate', 'datereceived', 'notificationdate'],
+  type: ['type', 'transactiontype'],
+  amount: ['amount', 'amountrange'],
+  quantity: ['quantity', 'shares'],
+  owner: ['owner'],
+  assetDescription: ['assetdescription', 'asset', 'assetname', 'description', 'companyname'],
+  assetType: ['assettype'],
+  link: ['ptrlink', 'link', 'url', 'sourceurl'],
+  comment: ['comment', 'comments'],
+  name: ['name', 'fullname', 'representative', 'senator', 'member', 'office'],
+  firstName: ['firstname', 'first'],
+  lastName: ['lastname', 'last'],
+  state: ['state', 'statecode'],
+  district: ['district', 'statedst'],
+  chamber: ['chamber'],
+  reference: ['reference', 'docid', 'documentid', 'filingid', 'transactionid', 'id']
+};
+
+export type DisclosureField = keyof typeof FIELD_ALIASES;
+
+export const DISCLOSURE_FIELDS = Object.keys(FIELD_ALIASES) as DisclosureField[];
+
+/**
+ * Which column holds each field, for files whose headers the aliases don't cover
+ */
+export type ColumnMapping = Partial<Record<DisclosureField, string>>;
+
+const normalizeKey = (key: string) => key.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+function getFields(record: Record<string, any>): Record<DisclosureField, string | undefined> {
+  const byKey = new Map<string, string>();
+  for (const [key, value] of Object.entries(record)) {
+    if (value !== null && value !== undefined && String(value).trim() !== '') {
+      byKey.set(normalizeKey(key), String(value).trim());
+    }
+  }
+
+  const fields = {} as Record<DisclosureField, string | undefined>;
+  for (const [field, aliases] of Object.entries(FIELD_ALIASES) as Array<[DisclosureField, string[]]>) {
+    fields[field] = aliases.map(alias => byKey.get(alias)).find(value => value !== undefined);
+  }
+  return fields;
+}
+
+/**
+ * Rename a record's columns per the mapping. Columns that would otherwise be
+ * read as a mapped field are dropped so the mapping always wins.
+ */
+export function applyColumnMapping(record: Record<string, any>, mapping: ColumnMapping): Record<string, any> {
+  const mapped = Object.entries(mapping).filter(([, column]) => !!column) as Array<[DisclosureField, string]>;
+  if (mapped.length === 0) {
+    return record;
+  }
+
+  const shadowed = new Set(mapped.flatMap(([field]) => FIELD_ALIASES[field]));
+  const result: Record<string, any> = {};
+  for (const [key, value] of Object.entries(record)) {
+    if (!shadowed.has(normalizeKey(key))) {
+      result[key] = value;
+    }
+  }
+  for (const [field, column] of mapped) {
+    result[field] = record[column];
+  }
+  return result;
+}
+
+/**
+ * The chamber a record names in its chamber column, if any
+ */
+export function recordChamber(record: Record<string, any>): Chamber | undefined {
+  return parseChamber(getFields(record).chamber);
+}
+
+function parseChamber(value?: string): Chamber | undefined {
+  const normalized = (value || '').toLowerCase();
+  if (['senate', 'senator', 'sen'].includes(normalized)) return 'senate';
+  if (['house', 'representative', 'rep'].includes(normalized)) return 'house';
+  return undefined;
+}
+
+/**
+ * Normalize one file record into a source trade. Returns the reason instead
+ * when the record is for the other chamber or lacks what a trade needs.
+ */
+export function normalizeFileRecord(
+  record: Record<string, any>,
+  chamber: Chamber,
+  source: TradeDataSourceName,
+  reference: string,
+  retrievedAt: string
+): SourceTrade | string {
+  const fields = getFields(record);
+
+  const recordChamber = parseChamber(fields.chamber);
+  if (recordChamber && recordChamber !== chamber) {
+    return 'other chamber';
+  }
+
+  const ticker = (fields.ticker || '').replace(/<[^>]+>/g, '').replace(/^\$/, '').trim().toUpperCase();
+  if (!ticker || ticker === '--' || ticker === 'N/A') {
+    return 'no ticker symbol';
+  }
+
+  const transactionDate = parseDisclosureDate(fields.transactionDate);
+  if (!transactionDate) {
+    return 'missing or invalid transaction date';
+  }
+
+  const named = parseFilerName(fields.name || `${fields.firstName || ''} ${fields.lastName || ''}`);
+  if (!named.fullName) {
+    return 'no filer name';
+  }
+
+  const { stateCode, district } = parseStateDistrict(fields.district);
+  const quantity = fields.quantity ? parseFloat(fields.quantity.replace(/,/g, '')) : undefined;
+
+  return {
+    member: {
+      fullName: named.fullName,
+      firstName: fields.firstName || named.firstName,
+      lastName: fields.lastName || named.lastName,
+      chamber,
+      stateCode: (fields.state || stateCode)?.toUpperCase(),
+      district: chamber === 'house' ? district : undefined
+    },
+    trade: {
+      tickerSymbol: ticker,
+      transactionDate,
+      transactionType: parseTransactionType(fields.type || ''),
+      amountRange: fields.amount,
+      estimatedValue: parseAmountRange(fields.amount || ''),
+      quantity: quantity !== undefined && !isNaN(quantity) ? quantity : undefined,
+      filingDate: parseDisclosureDate(fields.filingDate),
+      owner: StockTrade.parseOwner(fields.owner),
+      ...classifyAsset(fields.assetType, fields.assetDescription, fields.comment)
+    },
+    companyName: fields.assetDescription,
+    originalData: {
+      ...record,
+      assetDescription: fields.assetDescription,
+      assetType: fields.assetType,
+      owner: fields.owner,
+      link: fields.link,
+      comment: fields.comment
+    },
+    provenance: {
+      source,
+      reference: fields.reference || reference,
+      url: fields.link,
+      retrievedAt
+    }
+  };
+}
+
+/**
+ * Normalize every record of a file, logging a summary of the ones dropped
+ */
+export function normalizeFileRecords(
+  filePath: string,
+  records: Record<string, any>[],
+  chamber: Chamber,
+  source: TradeDataSourceName
+): SourceTrade[] {
+  const retrievedAt = new Date().toISOString();
+  const fileName = path.basename(filePath);
+  const trades: SourceTrade[] = [];
+  const dropped = new Map<string, number>();
+
+  records.forEach((record, index) => {
+    const result = normalizeFileRecord(record, chamber, source, `${fileName}#${index + 1}`, retrievedAt);
+    if (typeof result === 'string') {
+      dropped.set(result, (dropped.get(result) || 0) + 1);
+    } else {
+      trades.push(result);
+    }
+  });
+
+  // Mixed-chamber files are expected; only report records that were unusable
+  dropped.delete('other chamber');
+  if (dropped.size > 0) {
+    const summary = Array.from(dropped, ([reason, count]) => `${count} with ${reason}`).join(', ');
+    console.warn(`Skipped records in ${fileName}: ${summary}`);
+  }
+
+  return trades;
+}
@@ -0,0 +1,65 @@
+import { CreateStockTradeData, TradeDataSource as TradeDataSourceName } from '../../models/StockTrade';
+
+export type Chamber = 'senate' | 'house';
+
+/**
+ * Where a stored trade came from
+ */
+export interface TradeProvenance {
+  source: TradeDataSourceName;
+  /** Vendor record ID, filing document ID, or file name and row */
+  reference?: string;
+  /** The filing itself, when the source links to it */
+  url?: string;
+  retrievedAt: string;
+}
+
+/**
+ * The filer as a disclosure names them, before matching a stored member
+ */
+export interface DisclosedMember {
+  fullName: string;
+  firstName: string;
+  lastName: string;
+  chamber: Chamber;
+  /** Some dumps omit the state; the member must then already exist */
+  stateCode?: string;
+  district?: number;
+}
+
+/**
+ * One disclosed trade, normalized into stock trade fields
+ */
+export interface SourceTrade {
+  member: DisclosedMember;
+  trade: Omit<CreateStockTradeData, 'traderType' | 'traderId' | 'dataSource' | 'sourceData'>;
+  /** Used to name the ticker when it is new */
+  companyName?: string;
+  /**
+   * The record as received. Adapters also fill the fields the rest of the app
+   * reads from it: assetDescription, assetType, owner, link and comment.
+   */
+  originalData: Record<string, any>;
+  provenance: TradeProvenance;
+}
+
+export interface FetchTradesOptions {
+  maxPages?: number; // paginated sources only
+  limit?: number; // records per page
+}
+
+export interface TradeDataSource {
+  readonly name: string;
+
+  /**
+   * Whether an interrupted sync can resume by index from sync_progress. Only
+   * the scheduled FMP feed does; re-reading a file is cheap.
+   */
+  readonly supportsCheckpoints: boolean;
+
+  /**
+   * Every trade the source has for a chamber. Records it cannot read are
+   * logged and dropped.
+   */
+  fetchTrades(chamber: Chamber, options?: FetchTradesOptions): Promise<SourceTrade[]>;
+}
@@ -0,0 +1,43 @@
+import { getMailTransport, getMailFrom } from '../../config/mail';
+import { NotificationPreference } from '../../models/NotificationPreference';
+import { NotificationChannel, NotificationContext, DigestContext, ChannelDeliveryError } from './types';
+import { renderEmail, renderDigestEmail, EmailContent } from './templates';
+
+/**
+ * Email delivery over SMTP
+ */
+export class EmailChannel implements NotificationChannel {
+  readonly name = 'email' as const;
+
+  isEnabled(preference: NotificationPreference): boolean {
+    return preference.preferences.email;
+  }
+
+  async send(context: NotificationContext): Promise<void> {
+    await this.deliver(context.userEmail, renderEmail(context));
+  }
+
+  async sendDigest(context: DigestContext): Promise<void> {
+    await this.deliver(context.userEmail, renderDigestEmail(context));
+  }
+
+  private async deliver(to: string, content: EmailContent): Promise<void> {
+    if (!to) {
+      throw new ChannelDeliveryError('User has no email address', false);
+    }
+
+    try {
+      await getMailTransport().sendMail({
+        from: getMailFrom(),
+        to,
+        subject: content.subject,
+        text: content.text,
+        html: content.html
+      });
+    } catch (error: any) {
+      // SMTP 5xx replies are permanent (e.g. unknown mailbox); 4xx and connection errors are transient
+      const permanent = typeof error.responseCode === 'number' && error.responseCode >= 500;
+      throw new ChannelDeliveryError(`SMTP delivery failed: ${error.message}`, !permanent);
+    }
+  }
+}
@@ -0,0 +1,27 @@
+import { EventEmitter } from 'events';
+import { NotificationPreference } from '../../models/NotificationPreference';
+import { NotificationChannel, NotificationContext, DigestContext } from './types';
+import { renderInAppEvent, renderDigestInAppEvent } from './templates';
+
+/**
+ * In-app notifications are the alert_notifications rows themselves; delivery
+ * publishes an event that live connections for the user can forward.
+ */
+export const inAppNotificationEvents = new EventEmitter();
+inAppNotificationEvents.setMaxListeners(0);
+
+export class InAppChannel implements NotificationChannel {
+  readonly name = 'in_app' as const;
+
+  isEnabled(preference: NotificationPreference): boolean {
+    return preference.preferences.inApp;
+  }
+
+  async send(context: NotificationContext): Promise<void> {
+    inAppNotificationEvents.emit(`user:${context.userId}`, renderInAppEvent(context));
+  }
+
+  async sendDigest(context: DigestContext): Promise<void> {
+    inAppNotificationEvents.emit(`user:${context.userId}`, renderDigestInAppEvent(context));
+  }
+}
@@ -0,0 +1,281 @@
+import { db } from '../../config/database';
+import { NotificationDelivery, DeliveryChannel } from '../../models/NotificationDelivery';
+import { NotificationPreference } from '../../models/NotificationPreference';
+import { AlertDigest } from '../../models/AlertDigest';
+import { NotificationChannel, NotificationContext, DigestContext, ChannelDeliveryError } from './types';
+import { EmailChannel } from './EmailChannel';
+import { WebhookChannel } from './WebhookChannel';
+import { InAppChannel } from './InAppChannel';
+
+export interface RetryRunResult {
+  attempted: number;
+  sent: number;
+  failed: number;
+}
+
+/**
+ * Fans an alert notification, or a digest of held notifications, out to every
+ * registered channel the user has enabled, recording a delivery row per
+ * channel. Failed attempts are retried with exponential backoff by
+ * processRetries().
+ */
+export class NotificationDeliveryService {
+  private static readonly MAX_ATTEMPTS = 5;
+  private static readonly BASE_RETRY_DELAY_MS = 60 * 1000; // 1m, 2m, 4m, 8m
+
+  private static channels = new Map<DeliveryChannel, NotificationChannel>([
+    ['in_app', new InAppChannel()],
+    ['email', new EmailChannel()],
+    ['webhook', new WebhookChannel()]
+  ]);
+
+  /**
+   * Register or replace a channel implementation
+   */
+  static registerChannel(channel: NotificationChannel): void {
+    this.channels.set(channel.name, channel);
+  }
+
+  /**
+   * Deliver a stored notification on all channels
+   */
+  static async deliver(notificationId: string): Promise<NotificationDelivery[]> {
+    const context = await this.buildContext(notificationId);
+    if (!context) {
+      throw new Error(`Notification ${notificationId} not found`);
+    }
+
+    const preference = await NotificationPreference.findByUser(context.userId);
+    const deliveries: NotificationDelivery[] = [];
+
+    for (const channel of this.channels.values()) {
+      if (!channel.isEnabled(preference)) {
+        deliveries.push(await NotificationDelivery.create(
+          notificationId,
+          channel.name,
+          'skipped',
+          'Disabled in notification preferences'
+        ));
+        continue;
+      }
+
+      const delivery = await NotificationDelivery.create(notificationId, channel.name);
+      await this.attempt(delivery, `Notification ${notificationId} ${channel.name}`, () => channel.send(context, preference));
+      deliveries.push(delivery);
+    }
+
+    return deliveries;
+  }
+
+  /**
+   * Deliver a compiled digest on all channels
+   */
+  static async deliverDigest(digestId: string): Promise<NotificationDelivery[]> {
+    const context = await this.buildDigestContext(digestId);
+    if (!context) {
+      throw new Error(`Digest ${digestId} not found`);
+    }
+
+    const preference = await NotificationPreference.findByUser(context.userId);
+    const deliveries: NotificationDelivery[] = [];
+
+    for (const channel of this.channels.values()) {
+      if (!channel.isEnabled(preference)) {
+        deliveries.push(await NotificationDelivery.createForDigest(
+          digestId,
+          channel.name,
+          'skipped',
+          'Disabled in notification preferences'
+        ));
+        continue;
+      }
+
+      const delivery = await NotificationDelivery.createForDigest(digestId, channel.name);
+      await this.attempt(delivery, `Digest ${digestId} ${channel.name}`, () => channel.sendDigest(context, preference));
+      deliveries.push(delivery);
+    }
+
+    return deliveries;
+  }
+
+  /**
+   * Retry deliveries whose backoff has elapsed
+   */
+  static async processRetries(limit: number = 50): Promise<RetryRunResult> {
+    const due = await NotificationDelivery.claimDue(limit);
+    const result: RetryRunResult = { attempted: due.length, sent: 0, failed: 0 };
+
+    for (const delivery of due) {
+      const channel = this.channels.get(delivery.channel);
+      const context = delivery.digestId
+        ? await this.buildDigestContext(delivery.digestId)
+        : await this.buildContext(delivery.notificationId!);
+
+      if (!channel || !context) {
+        await delivery.markFailed(
+          channel
+            ? `${delivery.digestId ? 'Digest' : 'Notification'} no longer exists`
+            : `No channel registered for ${delivery.channel}`
+        );
+        result.failed++;
+        continue;
+      }
+
+      // Preferences may have changed since the first attempt
+      const preference = await NotificationPreference.findByUser(context.userId);
+      if (!channel.isEnabled(preference)) {
+        await delivery.markFailed('Channel disabled in notification preferences before retry');
+        result.failed++;
+        continue;
+      }
+
+      if ('digestId' in context) {
+        await this.attempt(delivery, `Digest ${context.digestId} ${channel.name}`, () => channel.sendDigest(context, preference));
+      } else {
+        await this.attempt(delivery, `Notification ${context.notificationId} ${channel.name}`, () => channel.send(context, preference));
+      }
+      if (delivery.status === 'sent') {
+        result.sent++;
+      } else if (delivery.status === 'failed') {
+        result.failed++;
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Backoff before the next attempt, given the number of attempts made so far
+   */
+  static getRetryDelayMs(attempts: number): number {
+    return this.BASE_RETRY_DELAY_MS * Math.pow(2, Math.max(0, attempts - 1));
+  }
+
+  private static async attempt(
+    delivery: NotificationDelivery,
+    label: string,
+    send: () => Promise<void>
+  ): Promise<void> {
+    try {
+      await send();
+      await delivery.markSent();
+    } catch (error: any) {
+      const attempts = delivery.attempts + 1;
+      const retryable = !(error instanceof ChannelDeliveryError) || error.retryable;
+      const nextAttemptAt = retryable && attempts < this.MAX_ATTEMPTS
+        ? new Date(Date.now() + this.getRetryDelayMs(attempts))
+        : undefined;
+
+      await delivery.markFailed(error.message || String(error), nextAttemptAt);
+      console.warn(`${label} delivery attempt ${attempts} failed: ${error.message}`);
+    }
+  }
+
+  /**
+   * Load the notification with its user, alert and trades for rendering
+   */
+  private static async buildContext(notificationId: string): Promise<NotificationContext | null> {
+    const result = await db.query(
+      `SELECT an.id, an.alert_id, an.user_id, an.message, an.delivered_at,
+              ua.alert_type, u.email, u.name AS user_name,
+              st.id AS trade_id, st.trader_type, st.trader_id, st.ticker_symbol,
+              st.transaction_type, st.transaction_date, st.estimated_value, st.amount_range,
+              COALESCE(cm.name, ci.name) AS trader_name, sk.company_name,
+              ARRAY(
+                SELECT ant.trade_id FROM alert_notification_trades ant
+                JOIN stock_trades linked ON ant.trade_id = linked.id
+                WHERE ant.notification_id = an.id
+                ORDER BY linked.transaction_date, linked.created_at
+              ) AS trade_ids
+       FROM alert_notifications an
+       JOIN users u ON an.user_id = u.id
+       JOIN user_alerts ua ON an.alert_id = ua.id
+       LEFT JOIN stock_trades st ON an.trade_id = st.id
+       LEFT JOIN congressional_members cm ON st.trader_type = 'congressional' AND st.trader_id = cm.id
+       LEFT JOIN corporate_insiders ci ON st.trader_type = 'corporate' AND st.trader_id = ci.id
+       LEFT JOIN stock_tickers sk ON st.ticker_symbol = sk.symbol
+       WHERE an.id = $1`,
+      [notificationId]
+    );
+
+    if (result.rows.length === 0) {
+      return null;
+    }
+
+    const row = result.rows[0];
+    return {
+      notificationId: row.id,
+      alertId: row.alert_id,
+      alertType: row.alert_type,
+      userId: row.user_id,
+      userEmail: row.email,
+      userName: row.user_name || undefined,
+      message: row.message,
+      createdAt: row.delivered_at,
+      trade: row.trade_id
+        ? {
+            id: row.trade_id,
+            traderType: row.trader_type,
+            traderId: row.trader_id,
+            traderName: row.trader_name || undefined,
+            tickerSymbol: row.ticker_symbol,
+            companyName: row.company_name || undefined,
+            transactionType: row.transaction_type,
+            transactionDate: row.transaction_date,
+            estimatedValue: row.estimated_value !== null ? parseFloat(row.estimated_value) : undefined,
+            amountRange: row.amount_range || undefined
+          }
+        : undefined,
+      tradeIds: row.trade_ids || [],
+      appUrl: process.env.APP_URL || 'http://localhost:3000'
+    };
+  }
+
+  /**
+   * Load a digest with its user and included notifications for rendering
+   */
+  private static async buildDigestContext(digestId: string): Promise<DigestContext | null> {
+    const digest = await AlertDigest.findById(digestId);
+    if (!digest) {
+      return null;
+    }
+
+    const [user, notifications] = await Promise.all([
+      db.query('SELECT email, name FROM users WHERE id = $1', [digest.userId]),
+      db.query(
+        `SELECT an.id, an.alert_id, an.message, an.delivered_at,
+                ARRAY(
+                  SELECT ant.trade_id FROM alert_notification_trades ant
+                  WHERE ant.notification_id = an.id
+                ) AS trade_ids
+         FROM alert_notifications an
+         WHERE an.digest_id = $1
+         ORDER BY an.delivered_at`,
+        [digestId]
+      )
+    ]);
+
+    if (user.rows.length === 0) {
+      return null;
+    }
+
+    return {
+      digestId,
+      userId: digest.userId,
+      userEmail: user.rows[0].email,
+      userName: user.rows[0].name || undefined,
+      frequency: digest.frequency,
+      periodStart: digest.periodStart,
+      periodEnd: digest.periodEnd,
+      summary: digest.summary,
+      notifications: notifications.rows.map(row => ({
+        id: row.id,
+        alertId: row.alert_id,
+        message: row.message,
+        tradeIds: row.trade_ids || [],
+        createdAt: row.delivered_at
+      })),
+      appUrl: process.env.APP_URL || 'http://localhost:3000'
+    };
+  }
+}
@@ -0,0 +1,78 @@
+import crypto from 'crypto';
+import axios from 'axios';
+import { NotificationPreference } from '../../models/NotificationPreference';
+import { NotificationChannel, NotificationContext, DigestContext, ChannelDeliveryError } from './types';
+import { renderWebhookPayload, renderDigestWebhookPayload } from './templates';
+import { BLOCKED_ADDRESS_ERROR_CODE, checkWebhookUrl, webhookHttpAgent, webhookHttpsAgent } from './webhookUrl';
+
+/**
+ * HTTP POST of a JSON payload to the user's webhook URL. The body is signed
+ * with HMAC-SHA256 using the user's webhook secret. URLs pointing at
+ * private or internal addresses are refused, both before sending and when
+ * the hostname is resolved for the request.
+ */
+export class WebhookChannel implements NotificationChannel {
+  readonly name = 'webhook' as const;
+  private static readonly TIMEOUT_MS = 10000;
+
+  isEnabled(preference: NotificationPreference): boolean {
+    return preference.preferences.webhook && !!preference.preferences.webhookUrl;
+  }
+
+  async send(context: NotificationContext, preference: NotificationPreference): Promise<void> {
+    await this.post(preference, 'alert.triggered', context.notificationId, renderWebhookPayload(context));
+  }
+
+  async sendDigest(context: DigestContext, preference: NotificationPreference): Promise<void> {
+    await this.post(preference, 'alert.digest', context.digestId, renderDigestWebhookPayload(context));
+  }
+
+  private async post(
+    preference: NotificationPreference,
+    event: string,
+    deliveryId: string,
+    payload: Record<string, any>
+  ): Promise<void> {
+    const url = preference.preferences.webhookUrl;
+    if (!url) {
+      throw new ChannelDeliveryError('No webhook URL configured', false);
+    }
+
+    const problem = await checkWebhookUrl(url);
+    if (problem) {
+      throw new ChannelDeliveryError(problem, false);
+    }
+
+    const body = JSON.stringify(payload);
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json',
+      'User-Agent': 'CongressionalTracker/1.0',
+      'X-CongressTracker-Event': event,
+      'X-CongressTracker-Delivery': deliveryId
+    };
+    if (preference.webhookSecret) {
+      const signature = crypto.createHmac('sha256', preference.webhookSecret).update(body).digest('hex');
+      headers['X-CongressTracker-Signature'] = `sha256=${signature}`;
+    }
+
+    try {
+      await axios.post(url, body, {
+        headers,
+        timeout: WebhookChannel.TIMEOUT_MS,
+        maxRedirects: 0,
+        httpAgent: webhookHttpAgent,
+        httpsAgent: webhookHttpsAgent
+      });
+    } catch (error: any) {
+      const status: number | undefined = error.response?.status;
+      // Client errors other than timeouts and rate limiting will not succeed on retry
+      const retryable = status === undefined
+        ? error.code !== BLOCKED_ADDRESS_ERROR_CODE
+        : status >= 500 || status === 408 || status === 429;
+      throw new ChannelDeliveryError(
+        status ? `Webhook responded with HTTP ${status}` : `Webhook request failed: ${error.message}`,
+        retryable
+      );
+    }
+  }
+}
@@ -0,0 +1,16 @@
+export { NotificationDeliveryService } from './NotificationDeliveryService';
+export type { RetryRunResult } from './NotificationDeliveryService';
+export { ChannelDeliveryError } from './types';
+export type { NotificationChannel, NotificationContext, DigestContext } from './types';
+export { EmailChannel } from './EmailChannel';
+export { WebhookChannel } from './WebhookChannel';
+export { checkWebhookUrl } from './webhookUrl';
+export { InAppChannel, inAppNotificationEvents } from './InAppChannel';
+export {
+  renderEmail,
+  renderWebhookPayload,
+  renderInAppEvent,
+  renderDigestEmail,
+  renderDigestWebhookPayload,
+  renderDigestInAppEvent
+} from './templates';
@@ -0,0 +1,224 @@
+import { NotificationContext, DigestContext } from './types';
+import { DigestGroup } from '../../models/AlertDigest';
+
+export interface EmailContent {
+  subject: string;
+  text: string;
+  html: string;
+}
+
+export const escapeHtml = (value: string): string =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
+const formatValue = (context: NotificationContext): string | null => {
+  const trade = context.trade;
+  if (!trade) return null;
+  if (trade.amountRange) return trade.amountRange;
+  if (trade.estimatedValue) return `$${Number(trade.estimatedValue).toLocaleString('en-US')}`;
+  return null;
+};
+
+const formatDate = (date: Date): string => new Date(date).toISOString().split('T')[0];
+
+/**
+ * Lines describing the trade, shared by the text and HTML email bodies
+ */
+const tradeDetails = (context: NotificationContext): Array<[string, string]> => {
+  const trade = context.trade;
+  if (!trade) return [];
+
+  const details: Array<[string, string]> = [
+    ['Trader', trade.traderName || trade.traderId],
+    ['Stock', trade.companyName ? `${trade.tickerSymbol} (${trade.companyName})` : trade.tickerSymbol],
+    ['Transaction', trade.transactionType.toUpperCase()],
+    ['Date', formatDate(trade.transactionDate)]
+  ];
+  const value = formatValue(context);
+  if (value) details.push(['Value', value]);
+  return details;
+};
+
+/**
+ * Email: subject line plus plain-text and HTML bodies
+ */
+export function renderEmail(context: NotificationContext): EmailContent {
+  const trade = context.trade;
+  const subject = trade
+    ? `Alert: ${trade.traderName || 'A trader'} ${trade.transactionType === 'buy' ? 'bought' : trade.transactionType === 'sell' ? 'sold' : 'exchanged'} ${trade.tickerSymbol}`
+    : 'CongressTracker alert triggered';
+  const details = tradeDetails(context);
+  const notificationsUrl = `${context.appUrl}/alerts`;
+  const greeting = context.userName ? `Hi ${context.userName},` : 'Hi,';
+
+  const text = [
+    greeting,
+    '',
+    context.message,
+    '',
+    ...details.map(([label, value]) => `${label}: ${value}`),
+    '',
+    `View your alerts: ${notificationsUrl}`,
+    '',
+    'You are receiving this because email notifications are enabled in your alert preferences.'
+  ].join('\n');
+
+  const html = `<p>${escapeHtml(greeting)}</p>
+<p>${escapeHtml(context.message)}</p>
+${details.length > 0
+    ? `<table>${details.map(([label, value]) => `<tr><th align="left">${escapeHtml(label)}</th><td>${escapeHtml(value)}</td></tr>`).join('')}</table>`
+    : ''}
+<p><a href="${escapeHtml(notificationsUrl)}">View your alerts</a></p>
+<p style="color:#6b7280;font-size:12px">You are receiving this because email notifications are enabled in your alert preferences.</p>`;
+
+  return { subject, text, html };
+}
+
+/**
+ * Webhook: versioned JSON payload
+ */
+export function renderWebhookPayload(context: NotificationContext): Record<string, any> {
+  return {
+    version: 1,
+    event: 'alert.triggered',
+    notificationId: context.notificationId,
+    alertId: context.alertId,
+    alertType: context.alertType,
+    message: context.message,
+    createdAt: new Date(context.createdAt).toISOString(),
+    trade: context.trade
+      ? {
+          ...context.trade,
+          transactionDate: formatDate(context.trade.transactionDate)
+        }
+      : null,
+    tradeIds: context.tradeIds
+  };
+}
+
+/**
+ * In-app: the event pushed to connected clients
+ */
+export function renderInAppEvent(context: NotificationContext): Record<string, any> {
+  return {
+    id: context.notificationId,
+    alertId: context.alertId,
+    message: context.message,
+    tradeId: context.trade?.id || null,
+    tradeIds: context.tradeIds,
+    createdAt: new Date(context.createdAt).toISOString()
+  };
+}
+
+const DIGEST_TITLES: Record<DigestContext['frequency'], string> = {
+  hourly: 'Hourly',
+  daily: 'Daily',
+  weekly: 'Weekly'
+};
+
+// Notification lines listed in a digest email before it is cut short
+const DIGEST_EMAIL_MAX_NOTIFICATIONS = 50;
+
+const formatMoney = (value: number): string => `$${Math.round(value).toLocaleString('en-US')}`;
+
+const describeGroup = (group: DigestGroup): string =>
+  `${group.label}: ${group.trades} trade${group.trades === 1 ? '' : 's'} ` +
+  `(${group.buys} buy, ${group.sells} sell), ${formatMoney(group.totalValue)}`;
+
+const digestHeadline = (context: DigestContext): string => {
+  const { totals } = context.summary;
+  return `${totals.notifications} alert notification${totals.notifications === 1 ? '' : 's'} for ` +
+    `${totals.trades} trade${totals.trades === 1 ? '' : 's'} totaling ${formatMoney(totals.totalValue)}`;
+};
+
+/**
+ * Digest email: totals, then trades grouped by politician and by ticker,
+ * then the individual notifications
+ */
+export function renderDigestEmail(context: DigestContext): EmailContent {
+  const subject = `${DIGEST_TITLES[context.frequency]} alert digest: ${digestHeadline(context)}`;
+  const notificationsUrl = `${context.appUrl}/alerts`;
+  const greeting = context.userName ? `Hi ${context.userName},` : 'Hi,';
+  const { byPolitician, byTicker } = context.summary;
+  const listed = context.notifications.slice(0, DIGEST_EMAIL_MAX_NOTIFICATIONS);
+  const remaining = context.notifications.length - listed.length;
+
+  const text = [
+    greeting,
+    '',
+    `${digestHeadline(context)} between ${formatDate(context.periodStart)} and ${formatDate(context.periodEnd)}.`,
+    '',
+    'By politician:',
+    ...byPolitician.map(group => `  ${describeGroup(group)}`),
+    '',
+    'By ticker:',
+    ...byTicker.map(group => `  ${group.key} - ${describeGroup(group)}`),
+    '',
+    'Notifications:',
+    ...listed.map(notification => `  - ${notification.message}`),
+    ...(remaining > 0 ? [`  ...and ${remaining} more`] : []),
+    '',
+    `View your alerts: ${notificationsUrl}`,
+    '',
+    'You are receiving this because email notifications are enabled in your alert preferences.'
+  ].join('\n');
+
+  const groupTable = (groups: DigestGroup[], withKey: boolean) =>
+    `<table>${groups.map(group =>
+      `<tr><th align="left">${escapeHtml(withKey ? `${group.key} (${group.label})` : group.label)}</th>` +
+      `<td>${group.trades}</td><td>${group.buys} buy / ${group.sells} sell</td>` +
+      `<td>${escapeHtml(formatMoney(group.totalValue))}</td></tr>`
+    ).join('')}</table>`;
+
+  const html = `<p>${escapeHtml(greeting)}</p>
+<p>${escapeHtml(digestHeadline(context))} between ${escapeHtml(formatDate(context.periodStart))} and ${escapeHtml(formatDate(context.periodEnd))}.</p>
+<h3>By politician</h3>
+${groupTable(byPolitician, false)}
+<h3>By ticker</h3>
+${groupTable(byTicker, true)}
+<h3>Notifications</h3>
+<ul>${listed.map(notification => `<li>${escapeHtml(notification.message)}</li>`).join('')}${remaining > 0 ? `<li>...and ${remaining} more</li>` : ''}</ul>
+<p><a href="${escapeHtml(notificationsUrl)}">View your alerts</a></p>
+<p style="color:#6b7280;font-size:12px">You are receiving this because email notifications are enabled in your alert preferences.</p>`;
+
+  return { subject, text, html };
+}
+
+/**
+ * Digest webhook: versioned JSON payload with the full summary
+ */
+export function renderDigestWebhookPayload(context: DigestContext): Record<string, any> {
+  return {
+    version: 1,
+    event: 'alert.digest',
+    digestId: context.digestId,
+    frequency: context.frequency,
+    periodStart: new Date(context.periodStart).toISOString(),
+    periodEnd: new Date(context.periodEnd).toISOString(),
+    summary: context.summary,
+    notifications: context.notifications.map(notification => ({
+      ...notification,
+      createdAt: new Date(notification.createdAt).toISOString()
+    }))
+  };
+}
+
+/**
+ * Digest in-app event, shaped like a notification event so connected clients
+ * can treat it as one
+ */
+export function renderDigestInAppEvent(context: DigestContext): Record<string, any> {
+  return {
+    id: context.digestId,
+    digestId: context.digestId,
+    alertId: null,
+    message: `${DIGEST_TITLES[context.frequency]} digest: ${digestHeadline(context)}`,
+    tradeId: null,
+    tradeIds: Array.from(new Set(context.notifications.flatMap(notification => notification.tradeIds))),
+    createdAt: new Date(context.periodEnd).toISOString()
+  };
+}
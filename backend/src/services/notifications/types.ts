@@ -0,0 +1,87 @@
+import { DeliveryChannel } from '../../models/NotificationDelivery';
+import { NotificationPreference, DigestFrequency } from '../../models/NotificationPreference';
+import { DigestSummary } from '../../models/AlertDigest';
+
+/**
+ * Everything a channel needs to render and deliver one alert notification
+ */
+export interface NotificationContext {
+  notificationId: string;
+  alertId: string;
+  alertType: 'politician' | 'stock' | 'pattern';
+  userId: string;
+  userEmail: string;
+  userName?: string;
+  message: string;
+  createdAt: Date;
+  trade?: {
+    id: string;
+    traderType: 'congressional' | 'corporate';
+    traderId: string;
+    traderName?: string;
+    tickerSymbol: string;
+    companyName?: string;
+    transactionType: 'buy' | 'sell' | 'exchange';
+    transactionDate: Date;
+    estimatedValue?: number;
+    amountRange?: string;
+  };
+  /** Every trade the notification references, e.g. all trades in a cluster */
+  tradeIds: string[];
+  appUrl: string;
+}
+
+/**
+ * Everything a channel needs to render and deliver one alert digest
+ */
+export interface DigestContext {
+  digestId: string;
+  userId: string;
+  userEmail: string;
+  userName?: string;
+  frequency: DigestFrequency;
+  periodStart: Date;
+  periodEnd: Date;
+  summary: DigestSummary;
+  notifications: Array<{
+    id: string;
+    alertId: string;
+    message: string;
+    tradeIds: string[];
+    createdAt: Date;
+  }>;
+  appUrl: string;
+}
+
+export interface NotificationChannel {
+  readonly name: DeliveryChannel;
+
+  /**
+   * Whether the user has opted in to this channel
+   */
+  isEnabled(preference: NotificationPreference): boolean;
+
+  /**
+   * Deliver the notification; throw ChannelDeliveryError to control retries
+   */
+  send(context: NotificationContext, preference: NotificationPreference): Promise<void>;
+
+  /**
+   * Deliver a digest of held notifications; same error contract as send
+   */
+  sendDigest(context: DigestContext, preference: NotificationPreference): Promise<void>;
+}
+
+/**
+ * Delivery failure raised by a channel. Non-retryable failures (bad address,
+ * rejected webhook) are recorded as failed without further attempts.
+ */
+export class ChannelDeliveryError extends Error {
+  public readonly retryable: boolean;
+
+  constructor(message: string, retryable: boolean = true) {
+    super(message);
+    this.name = 'ChannelDeliveryError';
+    this.retryable = retryable;
+  }
+}
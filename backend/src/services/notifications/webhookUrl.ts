@@ -0,0 +1,117 @@
+import dns from 'dns';
+import http from 'http';
+import https from 'https';
+import net from 'net';
+
+// Addresses webhooks may not reach: loopback, private networks, link-local
+// (which includes the 169.254.169.254 cloud metadata service) and other
+// ranges that are not on the public internet. IPv4-mapped IPv6 addresses
+// are checked against the IPv4 ranges.
+const BLOCKED_ADDRESSES = new net.BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['224.0.0.0', 4],
+  ['240.0.0.0', 4]
+] as const) {
+  BLOCKED_ADDRESSES.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [
+  ['::', 128],
+  ['::1', 128],
+  ['64:ff9b::', 96], // NAT64
+  ['fc00::', 7],
+  ['fe80::', 10],
+  ['ff00::', 8]
+] as const) {
+  BLOCKED_ADDRESSES.addSubnet(network, prefix, 'ipv6');
+}
+
+export const BLOCKED_ADDRESS_ERROR_CODE = 'ERR_WEBHOOK_BLOCKED_ADDRESS';
+
+export function isBlockedAddress(address: string): boolean {
+  const family = net.isIP(address);
+  if (family === 0) {
+    return true;
+  }
+  return BLOCKED_ADDRESSES.check(address, family === 4 ? 'ipv4' : 'ipv6');
+}
+
+/**
+ * Why a webhook URL can't be used, or null when it can. Plain http is only
+ * accepted in development. Hostnames that don't resolve yet are allowed;
+ * every delivery resolves them again.
+ */
+export async function checkWebhookUrl(value: string): Promise<string | null> {
+  let url: URL;
+  try {
+    url = new URL(value);
+  } catch {
+    return 'webhookUrl must be a valid URL';
+  }
+
+  const allowHttp = process.env.NODE_ENV === 'development';
+  if (url.protocol !== 'https:' && !(allowHttp && url.protocol === 'http:')) {
+    return allowHttp ? 'webhookUrl must be an http(s) URL' : 'webhookUrl must be an https URL';
+  }
+
+  const hostname = url.hostname.replace(/^\[|\]$/g, '');
+  if (hostname === 'localhost' || hostname.endsWith('.localhost')) {
+    return 'webhookUrl must point to a public address';
+  }
+
+  if (net.isIP(hostname)) {
+    return isBlockedAddress(hostname) ? 'webhookUrl must point to a public address' : null;
+  }
+
+  try {
+    const addresses = await dns.promises.lookup(hostname, { all: true });
+    if (addresses.some(({ address }) => isBlockedAddress(address))) {
+      return 'webhookUrl must point to a public address';
+    }
+  } catch {
+    // Not resolvable right now
+  }
+
+  return null;
+}
+
+/**
+ * DNS lookup that fails for non-public addresses, so a hostname that
+ * resolves differently after checkWebhookUrl still can't reach them
+ */
+const publicLookup = ((
+  hostname: string,
+  options: dns.LookupOptions,
+  callback: (error: NodeJS.ErrnoException | null, address: string | dns.LookupAddress[], family?: number) => void
+) => {
+  dns.lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) {
+      callback(error, '');
+      return;
+    }
+
+    if (addresses.length === 0 || addresses.some(({ address }) => isBlockedAddress(address))) {
+      const blocked: NodeJS.ErrnoException = new Error(`${hostname} does not resolve to a public address`);
+      blocked.code = BLOCKED_ADDRESS_ERROR_CODE;
+      callback(blocked, '');
+      return;
+    }
+
+    if (options.all) {
+      callback(null, addresses);
+    } else {
+      callback(null, addresses[0].address, addresses[0].family);
+    }
+  });
+}) as net.LookupFunction;
+
+export const webhookHttpAgent = new http.Agent({ lookup: publicLookup });
+export const webhookHttpsAgent = new https.Agent({ lookup: publicLookup });
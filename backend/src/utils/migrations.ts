@@ -289,5 +289,666 @@ COMMENT ON TABLE sync_progress IS 'Tracks progress of historical data backfill t
 COMMENT ON COLUMN sync_progress.last_processed_index IS 'Index of last successfully processed trade in the fetched array';
 COMMENT ON COLUMN sync_progress.total_records IS 'Total number of records fetched from FMP API for this sync type';
     `
+  },
+  {
+    name: '003_portfolio_concentration_fix.sql',
+    sql: `
+-- Migration: Rebuild portfolio_concentration materialized view
+-- Purpose: Aggregate the portfolio total with a windowed SUM over the grouped rows
+--          and add the unique index required by REFRESH ... CONCURRENTLY
+-- Date: 2026-10-19
+
+DROP MATERIALIZED VIEW IF EXISTS portfolio_concentration;
+
+CREATE MATERIALIZED VIEW portfolio_concentration AS
+SELECT
+    trader_type,
+    trader_id,
+    ticker_symbol,
+    SUM(CASE WHEN transaction_type = 'buy' THEN estimated_value
+             WHEN transaction_type = 'sell' THEN -estimated_value
+             ELSE 0 END) as net_position_value,
+    COUNT(*) as transaction_count,
+    MAX(transaction_date) as latest_transaction,
+    -- Portfolio concentration metrics
+    SUM(SUM(estimated_value)) OVER (PARTITION BY trader_type, trader_id) as total_portfolio_value,
+    (SUM(CASE WHEN transaction_type = 'buy' THEN estimated_value
+              WHEN transaction_type = 'sell' THEN -estimated_value
+              ELSE 0 END) /
+     NULLIF(SUM(SUM(estimated_value)) OVER (PARTITION BY trader_type, trader_id), 0)) * 100 as position_percentage
+FROM stock_trades
+WHERE transaction_date >= NOW() - INTERVAL '2 years'
+  AND estimated_value IS NOT NULL
+GROUP BY trader_type, trader_id, ticker_symbol
+HAVING SUM(CASE WHEN transaction_type = 'buy' THEN estimated_value
+                WHEN transaction_type = 'sell' THEN -estimated_value
+                ELSE 0 END) > 0;
+
+CREATE UNIQUE INDEX idx_portfolio_concentration_unique ON portfolio_concentration(trader_type, trader_id, ticker_symbol);
+CREATE INDEX idx_portfolio_concentration_trader ON portfolio_concentration(trader_type, trader_id);
+CREATE INDEX idx_portfolio_concentration_position ON portfolio_concentration(position_percentage DESC);
+    `
+  },
+  {
+    name: '004_stock_price_history.sql',
+    sql: `
+-- Migration: Daily stock price history
+-- Purpose: Store end-of-day prices so trade forward returns and alpha vs SPY can be computed
+-- Date: 2026-10-19
+
+CREATE TABLE IF NOT EXISTS stock_price_history (
+  ticker_symbol VARCHAR(10) NOT NULL REFERENCES stock_tickers(symbol) ON DELETE CASCADE,
+  price_date DATE NOT NULL,
+  open_price DECIMAL(12,4),
+  high_price DECIMAL(12,4),
+  low_price DECIMAL(12,4),
+  close_price DECIMAL(12,4) NOT NULL CHECK (close_price >= 0),
+  volume BIGINT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  PRIMARY KEY (ticker_symbol, price_date)
+);
+
+-- Forward-return lookups scan a short date range per symbol
+CREATE INDEX IF NOT EXISTS idx_stock_price_history_date ON stock_price_history(price_date);
+
+COMMENT ON TABLE stock_price_history IS 'Daily end-of-day prices from FMP, used for trade forward returns and benchmark comparison';
+    `
+  },
+  {
+    name: '005_notification_delivery.sql',
+    sql: `
+-- Migration: Notification delivery channels
+-- Purpose: Persist per-user notification preferences and track delivery of each
+--          alert notification over email, webhook and in-app channels
+-- Date: 2026-10-19
+
+CREATE TABLE IF NOT EXISTS notification_preferences (
+  user_id UUID PRIMARY KEY REFERENCES users(id) ON DELETE CASCADE,
+  email_enabled BOOLEAN NOT NULL DEFAULT true,
+  push_enabled BOOLEAN NOT NULL DEFAULT true,
+  in_app_enabled BOOLEAN NOT NULL DEFAULT true,
+  webhook_enabled BOOLEAN NOT NULL DEFAULT false,
+  webhook_url TEXT,
+  webhook_secret VARCHAR(128), -- HMAC key for the X-CongressTracker-Signature header
+  frequency VARCHAR(20) NOT NULL DEFAULT 'immediate' CHECK (frequency IN ('immediate', 'hourly', 'daily')),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS notification_deliveries (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  notification_id UUID NOT NULL REFERENCES alert_notifications(id) ON DELETE CASCADE,
+  channel VARCHAR(20) NOT NULL CHECK (channel IN ('email', 'webhook', 'in_app')),
+  status VARCHAR(20) NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'retrying', 'sent', 'failed', 'skipped')),
+  attempts INTEGER NOT NULL DEFAULT 0,
+  last_error TEXT,
+  next_attempt_at TIMESTAMP WITH TIME ZONE,
+  delivered_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE (notification_id, channel)
+);
+
+-- Retry worker picks up deliveries whose backoff has elapsed
+CREATE INDEX IF NOT EXISTS idx_notification_deliveries_due
+  ON notification_deliveries(next_attempt_at)
+  WHERE status = 'retrying';
+
+COMMENT ON TABLE notification_deliveries IS 'Delivery status of each alert notification per channel, with retry state';
+    `
+  },
+  {
+    name: '006_cluster_alerts.sql',
+    sql: `
+-- Migration: Cluster alerts
+-- Purpose: Committee rosters for committee-wide alert conditions, and a link
+--          table so a notification can reference every trade behind it
+-- Date: 2026-10-19
+
+CREATE TABLE IF NOT EXISTS committees (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  code VARCHAR(20) NOT NULL UNIQUE, -- e.g. SSBK (Senate Banking), HSAS (House Armed Services)
+  name VARCHAR(255) NOT NULL,
+  chamber VARCHAR(10) NOT NULL CHECK (chamber IN ('senate', 'house', 'joint')),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS committee_memberships (
+  committee_id UUID NOT NULL REFERENCES committees(id) ON DELETE CASCADE,
+  member_id UUID NOT NULL REFERENCES congressional_members(id) ON DELETE CASCADE,
+  role VARCHAR(50),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  PRIMARY KEY (committee_id, member_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_committee_memberships_member ON committee_memberships(member_id);
+
+CREATE TABLE IF NOT EXISTS alert_notification_trades (
+  notification_id UUID NOT NULL REFERENCES alert_notifications(id) ON DELETE CASCADE,
+  trade_id UUID NOT NULL REFERENCES stock_trades(id) ON DELETE CASCADE,
+  PRIMARY KEY (notification_id, trade_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_alert_notification_trades_trade ON alert_notification_trades(trade_id);
+
+COMMENT ON TABLE alert_notification_trades IS 'All trades that contributed to a notification; cluster alerts reference several';
+    `
+  },
+  {
+    name: '007_alert_digests.sql',
+    sql: `
+-- Migration: Alert digests
+-- Purpose: Let users receive matched alerts as hourly, daily or weekly digests
+--          instead of one notification per trade, per user or per alert
+-- Date: 2026-10-19
+
+ALTER TABLE notification_preferences DROP CONSTRAINT IF EXISTS notification_preferences_frequency_check;
+ALTER TABLE notification_preferences ADD CONSTRAINT notification_preferences_frequency_check
+  CHECK (frequency IN ('immediate', 'hourly', 'daily', 'weekly'));
+
+-- Per-alert override of the user's frequency; NULL follows the user's preference
+ALTER TABLE user_alerts ADD COLUMN IF NOT EXISTS digest_frequency VARCHAR(20)
+  CHECK (digest_frequency IN ('immediate', 'hourly', 'daily', 'weekly'));
+
+CREATE TABLE IF NOT EXISTS alert_digests (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  frequency VARCHAR(20) NOT NULL CHECK (frequency IN ('hourly', 'daily', 'weekly')),
+  period_start TIMESTAMP WITH TIME ZONE NOT NULL,
+  period_end TIMESTAMP WITH TIME ZONE NOT NULL,
+  notification_count INTEGER NOT NULL DEFAULT 0,
+  summary JSONB NOT NULL DEFAULT '{}', -- totals plus groupings by politician and by ticker
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_alert_digests_user ON alert_digests(user_id, created_at DESC);
+
+-- Notifications held for a digest carry its frequency until a digest includes them
+ALTER TABLE alert_notifications ADD COLUMN IF NOT EXISTS digest_frequency VARCHAR(20)
+  CHECK (digest_frequency IN ('hourly', 'daily', 'weekly'));
+ALTER TABLE alert_notifications ADD COLUMN IF NOT EXISTS digest_id UUID REFERENCES alert_digests(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_alert_notifications_digest_pending
+  ON alert_notifications(digest_frequency, user_id)
+  WHERE digest_frequency IS NOT NULL AND digest_id IS NULL;
+
+-- Digests are delivered and retried like individual notifications
+ALTER TABLE notification_deliveries ALTER COLUMN notification_id DROP NOT NULL;
+ALTER TABLE notification_deliveries ADD COLUMN IF NOT EXISTS digest_id UUID REFERENCES alert_digests(id) ON DELETE CASCADE;
+ALTER TABLE notification_deliveries DROP CONSTRAINT IF EXISTS notification_deliveries_target_check;
+ALTER TABLE notification_deliveries ADD CONSTRAINT notification_deliveries_target_check
+  CHECK ((notification_id IS NULL) <> (digest_id IS NULL));
+CREATE UNIQUE INDEX IF NOT EXISTS idx_notification_deliveries_digest_channel
+  ON notification_deliveries(digest_id, channel)
+  WHERE digest_id IS NOT NULL;
+
+COMMENT ON TABLE alert_digests IS 'Grouped summaries of alert notifications held back by a digest frequency';
+    `
+  },
+  {
+    name: '008_notification_throttling.sql',
+    sql: `
+-- Migration: Notification quiet hours, rate caps and de-duplication
+-- Purpose: Hold alert notifications during a user's quiet hours or beyond their
+--          hourly cap and roll them into a summary, and notify once per trade
+-- Date: 2026-10-19
+
+ALTER TABLE notification_preferences ADD COLUMN IF NOT EXISTS quiet_hours_start TIME;
+ALTER TABLE notification_preferences ADD COLUMN IF NOT EXISTS quiet_hours_end TIME;
+ALTER TABLE notification_preferences ADD COLUMN IF NOT EXISTS timezone VARCHAR(64) NOT NULL DEFAULT 'UTC'; -- IANA name
+ALTER TABLE notification_preferences ADD COLUMN IF NOT EXISTS max_per_hour INTEGER CHECK (max_per_hour > 0);
+ALTER TABLE notification_preferences ADD COLUMN IF NOT EXISTS dedupe_trades BOOLEAN NOT NULL DEFAULT true;
+
+-- Why a notification was held for a summary instead of being delivered, and
+-- the earliest time the summary may include it
+ALTER TABLE alert_notifications ADD COLUMN IF NOT EXISTS held_reason VARCHAR(20)
+  CHECK (held_reason IN ('quiet_hours', 'rate_limit'));
+ALTER TABLE alert_notifications ADD COLUMN IF NOT EXISTS held_until TIMESTAMP WITH TIME ZONE;
+
+CREATE INDEX IF NOT EXISTS idx_alert_notifications_user_trade ON alert_notifications(user_id, trade_id);
+    `
+  },
+  {
+    name: '009_trade_owner.sql',
+    sql: `
+-- Migration: Trade owner
+-- Purpose: Store whose account a disclosed trade was made in (the member,
+--          their spouse, a joint account or a dependent child)
+-- Date: 2026-10-19
+
+ALTER TABLE stock_trades ADD COLUMN IF NOT EXISTS owner VARCHAR(10)
+  CHECK (owner IN ('self', 'spouse', 'joint', 'child'));
+
+-- Backfill from the owner recorded in the raw disclosure
+UPDATE stock_trades SET owner = CASE
+    WHEN LOWER(TRIM(source_data->'originalData'->>'owner')) = 'self' THEN 'self'
+    WHEN LOWER(TRIM(source_data->'originalData'->>'owner')) LIKE 'spouse%' THEN 'spouse'
+    WHEN LOWER(TRIM(source_data->'originalData'->>'owner')) LIKE 'joint%' THEN 'joint'
+    WHEN LOWER(source_data->'originalData'->>'owner') LIKE '%child%'
+      OR LOWER(source_data->'originalData'->>'owner') LIKE '%dependent%' THEN 'child'
+  END
+WHERE owner IS NULL AND source_data->'originalData'->>'owner' IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_stock_trades_owner ON stock_trades(owner);
+    `
+  },
+  {
+    name: '010_member_identity.sql',
+    sql: `
+-- Migration: Canonical member identity
+-- Purpose: Bioguide IDs for congressional members, and name aliases the sync
+--          consults so spelling variants resolve to one member
+-- Date: 2026-10-19
+
+ALTER TABLE congressional_members ADD COLUMN IF NOT EXISTS bioguide_id VARCHAR(10) UNIQUE; -- e.g. T000278
+
+CREATE TABLE IF NOT EXISTS member_aliases (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  member_id UUID NOT NULL REFERENCES congressional_members(id) ON DELETE CASCADE,
+  alias VARCHAR(255) NOT NULL,
+  normalized_alias VARCHAR(255) NOT NULL, -- lowercased, punctuation and suffixes removed
+  source VARCHAR(20) NOT NULL DEFAULT 'manual' CHECK (source IN ('roster', 'sync', 'manual')),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE (member_id, normalized_alias)
+);
+
+CREATE INDEX IF NOT EXISTS idx_member_aliases_normalized ON member_aliases(normalized_alias);
+
+COMMENT ON TABLE member_aliases IS 'Name variants (e.g. "Tommy Tuberville", "Thomas H. Tuberville") that identify a member';
+    `
+  },
+  {
+    name: '011_trader_corrections.sql',
+    sql: `
+-- Migration: Trader merge and split audit trail
+-- Purpose: Record every admin merge of duplicate members/insiders and every
+--          split of misattributed trades, with what was changed so it can be undone
+-- Date: 2026-10-19
+
+CREATE TABLE IF NOT EXISTS trader_corrections (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  operation VARCHAR(10) NOT NULL CHECK (operation IN ('merge', 'split')),
+  trader_type trader_type NOT NULL,
+  source_id UUID NOT NULL, -- merge: the duplicate removed; split: the trader trades were moved off
+  target_id UUID NOT NULL, -- merge: the survivor; split: the trader trades were moved to
+  source_snapshot JSONB, -- merge: the removed row with its aliases and committee seats, restored on undo
+  changes JSONB NOT NULL, -- IDs of every row re-pointed or closed
+  reason TEXT,
+  performed_by UUID REFERENCES users(id) ON DELETE SET NULL, -- NULL when run from the CLI
+  performed_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  undone_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  undone_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX IF NOT EXISTS idx_trader_corrections_source ON trader_corrections(trader_type, source_id);
+CREATE INDEX IF NOT EXISTS idx_trader_corrections_target ON trader_corrections(trader_type, target_id);
+CREATE INDEX IF NOT EXISTS idx_trader_corrections_performed ON trader_corrections(performed_at DESC);
+    `
+  },
+  {
+    name: '012_trade_revisions.sql',
+    sql: `
+-- Migration: Trade revisions
+-- Purpose: Keep every version of a trade when a member amends or withdraws
+--          a disclosure, and let alerts notify on amendments
+-- Date: 2026-10-19
+
+ALTER TABLE stock_trades
+  ADD COLUMN IF NOT EXISTS status VARCHAR(20) NOT NULL DEFAULT 'active'
+    CHECK (status IN ('active', 'amended', 'withdrawn')),
+  ADD COLUMN IF NOT EXISTS revision INTEGER NOT NULL DEFAULT 1;
+
+CREATE INDEX IF NOT EXISTS idx_stock_trades_status ON stock_trades(status) WHERE status != 'active';
+
+-- One row per change after the original filing (revision 1)
+CREATE TABLE IF NOT EXISTS trade_revisions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  trade_id UUID NOT NULL REFERENCES stock_trades(id) ON DELETE CASCADE,
+  revision INTEGER NOT NULL,
+  status VARCHAR(20) NOT NULL CHECK (status IN ('active', 'amended', 'withdrawn')),
+  changes JSONB NOT NULL, -- { field: { from, to } } for each field that changed
+  reason TEXT,
+  source_data JSONB, -- the disclosure record that superseded the previous version
+  recorded_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE (trade_id, revision)
+);
+
+ALTER TABLE user_alerts ADD COLUMN IF NOT EXISTS notify_on_amendments BOOLEAN NOT NULL DEFAULT FALSE;
+
+-- The trade revision an amendment notification is about; NULL for new trades
+ALTER TABLE alert_notifications ADD COLUMN IF NOT EXISTS trade_revision INTEGER;
+    `
+  },
+  {
+    name: '013_trade_provenance.sql',
+    sql: `
+-- Migration: Trade provenance
+-- Purpose: Record which data source each trade was imported from, so trades
+--          from FMP, local files and official disclosure dumps can be told apart
+-- Date: 2026-10-19
+
+ALTER TABLE stock_trades ADD COLUMN IF NOT EXISTS data_source VARCHAR(20)
+  CHECK (data_source IN ('fmp', 'file', 'house_clerk', 'senate_efd'));
+
+-- Everything synced so far came from FMP
+UPDATE stock_trades SET data_source = 'fmp'
+WHERE data_source IS NULL AND UPPER(source_data->>'source') = 'FMP';
+
+CREATE INDEX IF NOT EXISTS idx_stock_trades_data_source ON stock_trades(data_source);
+    `
+  },
+  {
+    name: '014_insider_filings.sql',
+    sql: `
+-- Migration: Insider filings
+-- Purpose: Keep the Form 4 detail of corporate insider trades (transaction
+--          code, exact shares and price, holdings after, CIKs) alongside
+--          the stock_trades row, and link insiders to their SEC CIK
+-- Date: 2026-10-19
+
+ALTER TABLE corporate_insiders ADD COLUMN IF NOT EXISTS cik VARCHAR(10); -- reporting owner's CIK
+ALTER TABLE corporate_insiders ADD COLUMN IF NOT EXISTS company_cik VARCHAR(10);
+
+CREATE INDEX IF NOT EXISTS idx_corporate_insiders_cik ON corporate_insiders(cik);
+
+CREATE TABLE IF NOT EXISTS insider_transactions (
+  trade_id UUID PRIMARY KEY REFERENCES stock_trades(id) ON DELETE CASCADE,
+  transaction_code CHAR(1) NOT NULL, -- Form 4 code: P purchase, S sale, M option exercise, A award, G gift, ...
+  acquired_disposed CHAR(1) CHECK (acquired_disposed IN ('A', 'D')),
+  shares NUMERIC(20, 4),
+  price_per_share NUMERIC(14, 4),
+  shares_owned_after NUMERIC(20, 4),
+  security_name VARCHAR(255),
+  owner_type VARCHAR(255), -- e.g. "director", "officer: Chief Executive Officer", "10 percent owner"
+  reporting_cik VARCHAR(10),
+  company_cik VARCHAR(10),
+  filing_url TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_insider_transactions_code ON insider_transactions(transaction_code);
+CREATE INDEX IF NOT EXISTS idx_insider_transactions_reporting_cik ON insider_transactions(reporting_cik);
+
+CREATE TRIGGER update_insider_transactions_updated_at BEFORE UPDATE ON insider_transactions
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Recover the detail of insider trades already synced from FMP
+INSERT INTO insider_transactions
+  (trade_id, transaction_code, acquired_disposed, shares, price_per_share, shares_owned_after,
+   security_name, owner_type, reporting_cik, company_cik, filing_url)
+SELECT
+  st.id,
+  UPPER(LEFT(od->>'transactionType', 1)),
+  CASE UPPER(LEFT(od->>'acquiredDisposedCode', 1)) WHEN 'A' THEN 'A' WHEN 'D' THEN 'D' END,
+  NULLIF(od->>'amountOfShares', '')::NUMERIC,
+  NULLIF(od->>'pricePerShare', '')::NUMERIC,
+  NULLIF(od->>'securitiesOwned', '')::NUMERIC,
+  od->>'securityName',
+  od->>'typeOfOwner',
+  od->>'reportingCik',
+  od->>'companyCik',
+  od->>'link'
+FROM (
+  SELECT id, source_data->'originalData' AS od FROM stock_trades WHERE trader_type = 'corporate'
+) st
+WHERE COALESCE(od->>'transactionType', '') <> ''
+ON CONFLICT (trade_id) DO NOTHING;
+
+-- Only open-market purchases and sales are buys and sells; awards, exercises,
+-- gifts and the like were recorded by acquired/disposed direction before
+UPDATE stock_trades st
+SET transaction_type = coded.transaction_type
+FROM (
+  SELECT trade_id,
+    (CASE transaction_code WHEN 'P' THEN 'buy' WHEN 'S' THEN 'sell' ELSE 'exchange' END)::transaction_type AS transaction_type
+  FROM insider_transactions
+) coded
+WHERE coded.trade_id = st.id
+  AND st.transaction_type <> coded.transaction_type;
+
+UPDATE corporate_insiders ci
+SET cik = latest.reporting_cik, company_cik = latest.company_cik
+FROM (
+  SELECT DISTINCT ON (st.trader_id) st.trader_id, it.reporting_cik, it.company_cik
+  FROM stock_trades st
+  JOIN insider_transactions it ON it.trade_id = st.id
+  WHERE st.trader_type = 'corporate' AND it.reporting_cik IS NOT NULL
+  ORDER BY st.trader_id, st.transaction_date DESC
+) latest
+WHERE ci.id = latest.trader_id AND ci.cik IS NULL;
+    `
+  },
+  {
+    name: '015_trade_asset_classes.sql',
+    sql: `
+-- Migration: Trade asset classes
+-- Purpose: Classify what each trade was in (stock, option, ETF, mutual fund,
+--          bond, crypto) and keep the contract terms of option trades, so
+--          analytics don't mix a call option purchase with a bond buy
+-- Date: 2026-10-19
+
+-- NULL until classified; trades synced before this migration are classified
+-- from their source record by "npm run trades:classify-assets"
+ALTER TABLE stock_trades ADD COLUMN IF NOT EXISTS asset_class VARCHAR(20)
+  CHECK (asset_class IN ('stock', 'option', 'etf', 'mutual_fund', 'bond', 'crypto', 'other'));
+ALTER TABLE stock_trades ADD COLUMN IF NOT EXISTS option_type VARCHAR(4)
+  CHECK (option_type IN ('call', 'put'));
+ALTER TABLE stock_trades ADD COLUMN IF NOT EXISTS strike_price NUMERIC(14, 4);
+ALTER TABLE stock_trades ADD COLUMN IF NOT EXISTS expiration_date DATE;
+
+CREATE INDEX IF NOT EXISTS idx_stock_trades_asset_class ON stock_trades(asset_class);
+    `
+  },
+  {
+    name: '016_sync_runs.sql',
+    sql: `
+-- Migration: Sync run history
+-- Purpose: Record every trade sync run (scheduled or manual) with its timing,
+--          outcome counts and FMP API usage, and the live progress of the running one
+-- Date: 2026-10-19
+
+CREATE TABLE IF NOT EXISTS sync_runs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  run_type VARCHAR(20) NOT NULL CHECK (run_type IN ('daily', 'incremental', 'backfill', 'file')),
+  trigger VARCHAR(20) NOT NULL DEFAULT 'scheduled' CHECK (trigger IN ('scheduled', 'manual', 'cli')),
+  status VARCHAR(20) NOT NULL DEFAULT 'running' CHECK (status IN ('running', 'succeeded', 'failed')),
+  data_source VARCHAR(20), -- TRADE_DATA_SOURCE kind the run read from
+  triggered_by UUID REFERENCES users(id) ON DELETE SET NULL, -- admin who started a manual run
+  started_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  finished_at TIMESTAMP WITH TIME ZONE,
+  duration_ms INTEGER,
+  processed_count INTEGER NOT NULL DEFAULT 0,
+  created_count INTEGER NOT NULL DEFAULT 0,
+  updated_count INTEGER NOT NULL DEFAULT 0,
+  skipped_count INTEGER NOT NULL DEFAULT 0,
+  error_count INTEGER NOT NULL DEFAULT 0,
+  errors JSONB NOT NULL DEFAULT '[]', -- first errors reported by the sync
+  progress JSONB, -- latest { type, current, total } while running
+  progress_updated_at TIMESTAMP WITH TIME ZONE,
+  fmp_requests INTEGER, -- FMP API calls made during the run; NULL when FMP was not configured
+  fmp_rate_limit JSONB -- FMPClient rate limit status when the run finished
+);
+
+CREATE INDEX IF NOT EXISTS idx_sync_runs_started ON sync_runs(started_at DESC);
+CREATE INDEX IF NOT EXISTS idx_sync_runs_status ON sync_runs(status);
+    `
+  },
+  {
+    name: '017_user_roles.sql',
+    sql: `
+-- Migration: User roles
+-- Purpose: Give users a role (user, analyst, admin) that gates the admin,
+--          sync and billing endpoints in place of the ADMIN_EMAILS list
+-- Date: 2026-10-19
+
+ALTER TABLE users ADD COLUMN IF NOT EXISTS role VARCHAR(20) NOT NULL DEFAULT 'user'
+  CHECK (role IN ('user', 'analyst', 'admin'));
+
+-- No one is an admin yet; create the first with: npm run users:roles -- create-admin <email>
+CREATE INDEX IF NOT EXISTS idx_users_role ON users(role) WHERE role != 'user';
+    `
+  },
+  {
+    name: '018_api_keys.sql',
+    sql: `
+-- Migration: Personal API keys
+-- Purpose: Let users create scoped API keys for scripts, stored only as a
+--          SHA-256 hash, with last-used tracking and revocation
+-- Date: 2026-10-19
+
+CREATE TABLE IF NOT EXISTS api_keys (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  name VARCHAR(100) NOT NULL,
+  key_prefix VARCHAR(16) NOT NULL, -- start of the key, shown so users can tell keys apart
+  key_hash CHAR(64) NOT NULL UNIQUE, -- hex SHA-256 of the full key
+  scopes TEXT[] NOT NULL DEFAULT '{}', -- read:trades, read:analytics, manage:alerts
+  last_used_at TIMESTAMP WITH TIME ZONE,
+  revoked_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_api_keys_user ON api_keys(user_id, created_at DESC);
+    `
+  },
+  {
+    name: '019_user_sessions.sql',
+    sql: `
+-- Migration: Login sessions and refresh tokens
+-- Purpose: Replace the single 7-day JWT with short-lived access tokens and
+--          rotating refresh tokens. Each login is a session users can list
+--          and revoke; refresh tokens are stored as SHA-256 hashes, and
+--          presenting one that was already rotated revokes its session.
+-- Date: 2026-10-19
+
+CREATE TABLE IF NOT EXISTS user_sessions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  user_agent TEXT,
+  ip_address VARCHAR(45),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  last_seen_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL, -- pushed back on every refresh
+  revoked_at TIMESTAMP WITH TIME ZONE,
+  revoked_reason VARCHAR(30) CHECK (revoked_reason IN ('logout', 'user_revoked', 'password_change', 'token_reuse'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_user_sessions_user ON user_sessions(user_id, last_seen_at DESC) WHERE revoked_at IS NULL;
+
+CREATE TABLE IF NOT EXISTS refresh_tokens (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  session_id UUID NOT NULL REFERENCES user_sessions(id) ON DELETE CASCADE,
+  token_hash CHAR(64) NOT NULL UNIQUE, -- hex SHA-256 of the token
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  rotated_at TIMESTAMP WITH TIME ZONE -- set once exchanged; a later use is a reuse
+);
+
+CREATE INDEX IF NOT EXISTS idx_refresh_tokens_session ON refresh_tokens(session_id);
+    `
+  },
+  {
+    name: '020_auth_tokens.sql',
+    sql: `
+-- Migration: Password reset and email verification tokens
+-- Purpose: Persist single-use, expiring tokens for password reset and email
+--          verification links. Tokens are stored as SHA-256 hashes and are
+--          consumed by setting used_at, so a link works only once. Adds
+--          users.email_verified_at, set once an address is confirmed.
+-- Date: 2026-10-19
+
+ALTER TABLE users ADD COLUMN IF NOT EXISTS email_verified_at TIMESTAMP WITH TIME ZONE;
+
+CREATE TABLE IF NOT EXISTS auth_tokens (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  purpose VARCHAR(30) NOT NULL CHECK (purpose IN ('password_reset', 'email_verification')),
+  token_hash CHAR(64) NOT NULL UNIQUE,
+  email VARCHAR(255) NOT NULL, -- address the link was sent to; changing it invalidates the token
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  used_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX IF NOT EXISTS idx_auth_tokens_user_purpose ON auth_tokens(user_id, purpose) WHERE used_at IS NULL;
+    `
+  },
+  {
+    name: '021_two_factor_auth.sql',
+    sql: `
+-- Migration: TOTP two-factor authentication
+-- Purpose: Let users protect their account with an authenticator app. The
+--          TOTP secret lives on users and only counts once
+--          two_factor_enabled_at is set; the last accepted time step stops
+--          a code from being replayed. One-time recovery codes are stored
+--          as SHA-256 hashes. app_settings holds admin-controlled switches,
+--          starting with requiring 2FA for admin-role users.
+-- Date: 2026-10-19
+
+ALTER TABLE users ADD COLUMN IF NOT EXISTS two_factor_secret VARCHAR(64);
+ALTER TABLE users ADD COLUMN IF NOT EXISTS two_factor_enabled_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE users ADD COLUMN IF NOT EXISTS two_factor_last_step BIGINT;
+
+CREATE TABLE IF NOT EXISTS two_factor_recovery_codes (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  code_hash CHAR(64) NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  used_at TIMESTAMP WITH TIME ZONE,
+  UNIQUE (user_id, code_hash)
+);
+
+CREATE INDEX IF NOT EXISTS idx_two_factor_recovery_codes_user ON two_factor_recovery_codes(user_id) WHERE used_at IS NULL;
+
+CREATE TABLE IF NOT EXISTS app_settings (
+  key VARCHAR(100) PRIMARY KEY,
+  value JSONB NOT NULL,
+  updated_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+INSERT INTO app_settings (key, value) VALUES ('require_admin_two_factor', 'false')
+ON CONFLICT (key) DO NOTHING;
+    `
+  },
+  {
+    name: '022_portfolio_concentration_withdrawn.sql',
+    sql: `
+-- Migration: Leave withdrawn trades out of portfolio_concentration
+-- Purpose: A withdrawn disclosure no longer describes a position
+-- Date: 2026-10-19
+
+DROP MATERIALIZED VIEW IF EXISTS portfolio_concentration;
+
+CREATE MATERIALIZED VIEW portfolio_concentration AS
+SELECT
+    trader_type,
+    trader_id,
+    ticker_symbol,
+    SUM(CASE WHEN transaction_type = 'buy' THEN estimated_value
+             WHEN transaction_type = 'sell' THEN -estimated_value
+             ELSE 0 END) as net_position_value,
+    COUNT(*) as transaction_count,
+    MAX(transaction_date) as latest_transaction,
+    -- Portfolio concentration metrics
+    SUM(SUM(estimated_value)) OVER (PARTITION BY trader_type, trader_id) as total_portfolio_value,
+    (SUM(CASE WHEN transaction_type = 'buy' THEN estimated_value
+              WHEN transaction_type = 'sell' THEN -estimated_value
+              ELSE 0 END) /
+     NULLIF(SUM(SUM(estimated_value)) OVER (PARTITION BY trader_type, trader_id), 0)) * 100 as position_percentage
+FROM stock_trades
+WHERE transaction_date >= NOW() - INTERVAL '2 years'
+  AND estimated_value IS NOT NULL
+  AND status != 'withdrawn'
+GROUP BY trader_type, trader_id, ticker_symbol
+HAVING SUM(CASE WHEN transaction_type = 'buy' THEN estimated_value
+                WHEN transaction_type = 'sell' THEN -estimated_value
+                ELSE 0 END) > 0;
+
+CREATE UNIQUE INDEX idx_portfolio_concentration_unique ON portfolio_concentration(trader_type, trader_id, ticker_symbol);
+CREATE INDEX idx_portfolio_concentration_trader ON portfolio_concentration(trader_type, trader_id);
+CREATE INDEX idx_portfolio_concentration_position ON portfolio_concentration(position_percentage DESC);
+    `
   }
 ];
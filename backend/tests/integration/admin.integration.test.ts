@@ -0,0 +1,560 @@
+import request from 'supertest';
+import { Express } from 'express';
+import { v4 as uuidv4 } from 'uuid';
+import db from '../../src/config/database';
+import { generateTotp } from '../../src/utils/totp';
+
+let app: Express;
+let adminToken: string;
+let userToken: string;
+let analystToken: string;
+let adminId: string;
+let userId: string;
+let sourceMemberId: string;
+let targetMemberId: string;
+let tradeIds: string[] = [];
+let syncRunId: string;
+
+describe('Admin Integration Tests', () => {
+  beforeAll(async () => {
+    await db.testConnection();
+
+    const adminResponse = await request(app)
+      .post('/api/v1/auth/register')
+      .send({ email: 'admin-test@example.com', password: 'AdminTest123!', name: 'Admin Test User' })
+      .expect(201);
+    adminToken = adminResponse.body.token;
+    adminId = adminResponse.body.user.id;
+
+    const userResponse = await request(app)
+      .post('/api/v1/auth/register')
+      .send({ email: 'admin-test-user@example.com', password: 'AdminTest123!', name: 'Admin Test Regular User' })
+      .expect(201);
+    userToken = userResponse.body.token;
+    userId = userResponse.body.user.id;
+
+    const analystResponse = await request(app)
+      .post('/api/v1/auth/register')
+      .send({ email: 'admin-test-analyst@example.com', password: 'AdminTest123!', name: 'Admin Test Analyst' })
+      .expect(201);
+    analystToken = analystResponse.body.token;
+
+    await db.query("UPDATE users SET role = 'admin' WHERE email = $1", ['admin-test@example.com']);
+    await db.query("UPDATE users SET role = 'analyst' WHERE email = $1", ['admin-test-analyst@example.com']);
+
+    const source = await db.insert('congressional_members', {
+      id: uuidv4(),
+      name: 'Tommy Admin-Test',
+      position: 'senator',
+      state_code: 'WY',
+      party_affiliation: 'republican',
+      office_start_date: '2021-01-03'
+    });
+    const target = await db.insert('congressional_members', {
+      id: uuidv4(),
+      name: 'Thomas Admin-Test',
+      position: 'senator',
+      state_code: 'WY',
+      party_affiliation: 'republican',
+      office_start_date: '2021-01-03'
+    });
+    sourceMemberId = source.id;
+    targetMemberId = target.id;
+
+    for (const [date, type] of [['2024-01-05', 'buy'], ['2024-02-05', 'sell']]) {
+      const trade = await db.insert('stock_trades', {
+        id: uuidv4(),
+        trader_type: 'congressional',
+        trader_id: sourceMemberId,
+        ticker_symbol: 'AAPL',
+        transaction_date: date,
+        transaction_type: type,
+        filing_date: '2024-03-01'
+      });
+      tradeIds.push(trade.id);
+    }
+  });
+
+  afterAll(async () => {
+    await db.query('DELETE FROM stock_trades WHERE id = ANY($1::uuid[]) OR trader_id IN ($2, $3)', [tradeIds, sourceMemberId, targetMemberId]);
+    await db.query('DELETE FROM trader_corrections WHERE source_id = $1 OR target_id = $1', [sourceMemberId]);
+    await db.query('DELETE FROM sync_runs WHERE id = $1', [syncRunId]);
+    await db.query('DELETE FROM congressional_members WHERE id IN ($1, $2)', [sourceMemberId, targetMemberId]);
+    await db.query("DELETE FROM users WHERE email LIKE 'admin-test%'");
+    await db.close();
+  });
+
+  const adminHeaders = () => ({ Authorization: `Bearer ${adminToken}` });
+
+  describe('Access Control', () => {
+    it('should reject unauthenticated requests', async () => {
+      await request(app)
+        .get('/api/v1/admin/traders/corrections')
+        .expect(401);
+    });
+
+    it('should reject users who are not administrators', async () => {
+      const response = await request(app)
+        .get('/api/v1/admin/traders/corrections')
+        .set({ Authorization: `Bearer ${userToken}` })
+        .expect(403);
+
+      expect(response.body.code).toBe('ADMIN_REQUIRED');
+    });
+
+    it('should only let administrators start a sync', async () => {
+      await request(app)
+        .post('/api/v1/sync/daily')
+        .set({ Authorization: `Bearer ${analystToken}` })
+        .expect(403);
+    });
+
+    it('should only let administrators process billing', async () => {
+      await request(app)
+        .post('/api/v1/follows/billing/process')
+        .set({ Authorization: `Bearer ${userToken}` })
+        .expect(403);
+    });
+  });
+
+  describe('User Roles', () => {
+    it('should list users with a role', async () => {
+      const response = await request(app)
+        .get('/api/v1/admin/users')
+        .set(adminHeaders())
+        .query({ role: 'analyst' })
+        .expect(200);
+
+      const emails = response.body.data.map((user: any) => user.email);
+      expect(emails).toContain('admin-test-analyst@example.com');
+      expect(emails).not.toContain('admin-test-user@example.com');
+    });
+
+    it('should paginate users with a role and count only those', async () => {
+      const analysts = await db.query("SELECT COUNT(*) FROM users WHERE role = 'analyst'");
+      const total = parseInt(analysts.rows[0].count, 10);
+
+      const firstPage = await request(app)
+        .get('/api/v1/admin/users')
+        .set(adminHeaders())
+        .query({ role: 'analyst', limit: 1 })
+        .expect(200);
+
+      expect(firstPage.body.data).toHaveLength(1);
+      expect(firstPage.body.data[0].role).toBe('analyst');
+      expect(firstPage.body.pagination).toEqual({ total, limit: 1, offset: 0, hasMore: total > 1 });
+
+      const pastTheEnd = await request(app)
+        .get('/api/v1/admin/users')
+        .set(adminHeaders())
+        .query({ role: 'analyst', offset: total })
+        .expect(200);
+
+      expect(pastTheEnd.body.data).toEqual([]);
+      expect(pastTheEnd.body.pagination).toMatchObject({ total, hasMore: false });
+    });
+
+    it('should reject an unknown role', async () => {
+      await request(app)
+        .put(`/api/v1/admin/users/${userId}/role`)
+        .set(adminHeaders())
+        .send({ role: 'owner' })
+        .expect(400);
+    });
+
+    it('should change a user\'s role', async () => {
+      const response = await request(app)
+        .put(`/api/v1/admin/users/${userId}/role`)
+        .set(adminHeaders())
+        .send({ role: 'analyst' })
+        .expect(200);
+
+      expect(response.body.data.role).toBe('analyst');
+
+      await request(app)
+        .get('/api/v1/sync/runs')
+        .set({ Authorization: `Bearer ${userToken}` })
+        .expect(200);
+
+      await request(app)
+        .put(`/api/v1/admin/users/${userId}/role`)
+        .set(adminHeaders())
+        .send({ role: 'user' })
+        .expect(200);
+    });
+
+    it('should not let administrators change their own role', async () => {
+      await request(app)
+        .put(`/api/v1/admin/users/${adminId}/role`)
+        .set(adminHeaders())
+        .send({ role: 'user' })
+        .expect(400);
+    });
+  });
+
+  describe('Security Settings', () => {
+    afterAll(async () => {
+      await db.query("UPDATE app_settings SET value = 'false' WHERE key = 'require_admin_two_factor'");
+      await db.query("UPDATE users SET role = 'analyst' WHERE email = $1", ['admin-test-analyst@example.com']);
+    });
+
+    it('should not let an admin without 2FA require it', async () => {
+      await request(app)
+        .put('/api/v1/admin/settings')
+        .set(adminHeaders())
+        .send({ requireAdminTwoFactor: true })
+        .expect(400);
+    });
+
+    it('should turn away admins without 2FA once it is required', async () => {
+      const setupResponse = await request(app)
+        .post('/api/v1/auth/2fa/setup')
+        .set(adminHeaders())
+        .expect(200);
+
+      await request(app)
+        .post('/api/v1/auth/2fa/enable')
+        .set(adminHeaders())
+        .send({ code: generateTotp(setupResponse.body.data.secret) })
+        .expect(200);
+
+      const response = await request(app)
+        .put('/api/v1/admin/settings')
+        .set(adminHeaders())
+        .send({ requireAdminTwoFactor: true })
+        .expect(200);
+      expect(response.body.data.requireAdminTwoFactor).toBe(true);
+
+      // A second admin who hasn't set up 2FA
+      await db.query("UPDATE users SET role = 'admin' WHERE email = $1", ['admin-test-analyst@example.com']);
+
+      const rejected = await request(app)
+        .get('/api/v1/admin/users')
+        .set({ Authorization: `Bearer ${analystToken}` })
+        .expect(403);
+      expect(rejected.body.code).toBe('TWO_FACTOR_SETUP_REQUIRED');
+
+      await request(app)
+        .get('/api/v1/admin/users')
+        .set(adminHeaders())
+        .expect(200);
+    });
+  });
+
+  describe('Trader Merge', () => {
+    it('should preview a merge without changing anything', async () => {
+      const response = await request(app)
+        .post('/api/v1/admin/traders/merge/preview')
+        .set(adminHeaders())
+        .send({ traderType: 'congressional', sourceId: sourceMemberId, targetId: targetMemberId })
+        .expect(200);
+
+      expect(response.body.data).toMatchObject({
+        source: { id: sourceMemberId, trades: 2 },
+        target: { id: targetMemberId, trades: 0 },
+        trades: 2
+      });
+
+      const member = await db.query('SELECT id FROM congressional_members WHERE id = $1', [sourceMemberId]);
+      expect(member.rows).toHaveLength(1);
+    });
+
+    it('should reject merging a trader into itself', async () => {
+      await request(app)
+        .post('/api/v1/admin/traders/merge')
+        .set(adminHeaders())
+        .send({ traderType: 'congressional', sourceId: sourceMemberId, targetId: sourceMemberId })
+        .expect(400);
+    });
+
+    it('should reject trader and correction IDs that are not UUIDs', async () => {
+      for (const path of ['/api/v1/admin/traders/merge/preview', '/api/v1/admin/traders/merge']) {
+        const response = await request(app)
+          .post(path)
+          .set(adminHeaders())
+          .send({ traderType: 'congressional', sourceId: 'not-a-uuid', targetId: targetMemberId })
+          .expect(400);
+        expect(response.body.error).toBe('sourceId and targetId must be valid UUIDs');
+      }
+
+      await request(app)
+        .get('/api/v1/admin/traders/corrections')
+        .query({ traderId: '42' })
+        .set(adminHeaders())
+        .expect(400);
+
+      await request(app)
+        .get('/api/v1/admin/traders/corrections/42')
+        .set(adminHeaders())
+        .expect(400);
+
+      await request(app)
+        .post('/api/v1/admin/traders/corrections/42/undo')
+        .set(adminHeaders())
+        .expect(400);
+    });
+
+    it('should merge, record and undo', async () => {
+      const mergeResponse = await request(app)
+        .post('/api/v1/admin/traders/merge')
+        .set(adminHeaders())
+        .send({
+          traderType: 'congressional',
+          sourceId: sourceMemberId,
+          targetId: targetMemberId,
+          reason: 'Duplicate created by the sync'
+        })
+        .expect(201);
+
+      const correction = mergeResponse.body.data;
+      expect(correction).toMatchObject({
+        operation: 'merge',
+        sourceId: sourceMemberId,
+        targetId: targetMemberId,
+        reason: 'Duplicate created by the sync'
+      });
+      expect(correction.changes.tradeIds).toHaveLength(2);
+
+      const merged = await db.query('SELECT trader_id FROM stock_trades WHERE id = ANY($1::uuid[])', [tradeIds]);
+      merged.rows.forEach(row => expect(row.trader_id).toBe(targetMemberId));
+
+      const alias = await db.query(
+        'SELECT alias FROM member_aliases WHERE member_id = $1',
+        [targetMemberId]
+      );
+      expect(alias.rows.map(row => row.alias)).toContain('Tommy Admin-Test');
+
+      const listResponse = await request(app)
+        .get('/api/v1/admin/traders/corrections')
+        .query({ traderId: sourceMemberId })
+        .set(adminHeaders())
+        .expect(200);
+      expect(listResponse.body.data.corrections[0].id).toBe(correction.id);
+
+      const undoResponse = await request(app)
+        .post(`/api/v1/admin/traders/corrections/${correction.id}/undo`)
+        .set(adminHeaders())
+        .expect(200);
+      expect(undoResponse.body.data.undoneAt).toBeTruthy();
+
+      const restored = await db.query('SELECT trader_id FROM stock_trades WHERE id = ANY($1::uuid[])', [tradeIds]);
+      restored.rows.forEach(row => expect(row.trader_id).toBe(sourceMemberId));
+
+      await request(app)
+        .post(`/api/v1/admin/traders/corrections/${correction.id}/undo`)
+        .set(adminHeaders())
+        .expect(409);
+    });
+  });
+
+  describe('Trader Split', () => {
+    it('should move only the given trades', async () => {
+      const response = await request(app)
+        .post('/api/v1/admin/traders/split')
+        .set(adminHeaders())
+        .send({
+          traderType: 'congressional',
+          sourceId: sourceMemberId,
+          targetId: targetMemberId,
+          tradeIds: [tradeIds[1]]
+        })
+        .expect(201);
+
+      expect(response.body.data.changes.tradeIds).toEqual([tradeIds[1]]);
+
+      const trades = await db.query('SELECT id, trader_id FROM stock_trades WHERE id = ANY($1::uuid[])', [tradeIds]);
+      const byId = Object.fromEntries(trades.rows.map(row => [row.id, row.trader_id]));
+      expect(byId[tradeIds[0]]).toBe(sourceMemberId);
+      expect(byId[tradeIds[1]]).toBe(targetMemberId);
+    });
+
+    it('should reject trades that belong to another trader', async () => {
+      await request(app)
+        .post('/api/v1/admin/traders/split')
+        .set(adminHeaders())
+        .send({
+          traderType: 'congressional',
+          sourceId: sourceMemberId,
+          targetId: targetMemberId,
+          tradeIds: [tradeIds[1]]
+        })
+        .expect(400);
+    });
+
+    it('should reject trader and trade IDs that are not UUIDs', async () => {
+      await request(app)
+        .post('/api/v1/admin/traders/split')
+        .set(adminHeaders())
+        .send({ traderType: 'congressional', sourceId: sourceMemberId, targetId: 'bogus', tradeIds: [tradeIds[0]] })
+        .expect(400);
+
+      const response = await request(app)
+        .post('/api/v1/admin/traders/split')
+        .set(adminHeaders())
+        .send({ traderType: 'congressional', sourceId: sourceMemberId, targetId: targetMemberId, tradeIds: [tradeIds[0], 'bogus'] })
+        .expect(400);
+      expect(response.body.error).toBe('tradeIds must be valid UUIDs');
+    });
+  });
+
+  describe('Trade Import', () => {
+    const csv = [
+      'Member,Chamber,State,Symbol,Trade Date,Type,Amount',
+      'Thomas Admin-Test,senate,WY,MSFT,2023-06-01,Purchase,"$1,001 - $15,000"',
+      'Thomas Admin-Test,senate,WY,,2023-06-02,Purchase,"$1,001 - $15,000"'
+    ].join('\n');
+    const columnMapping = { name: 'Member', ticker: 'Symbol', transactionDate: 'Trade Date' };
+
+    it('should report a dry run without importing anything', async () => {
+      const response = await request(app)
+        .post('/api/v1/admin/trades/import')
+        .set(adminHeaders())
+        .send({ format: 'csv', data: csv, columnMapping, dryRun: true })
+        .expect(200);
+
+      expect(response.body.data).toMatchObject({
+        dryRun: true,
+        totalRows: 2,
+        validRows: 1,
+        createdCount: 1,
+        errors: [{ row: 2, error: 'no ticker symbol' }]
+      });
+
+      const stored = await db.query("SELECT id FROM stock_trades WHERE trader_id = $1 AND ticker_symbol = 'MSFT'", [targetMemberId]);
+      expect(stored.rows).toHaveLength(0);
+    });
+
+    it('should import new trades and skip them the second time', async () => {
+      const first = await request(app)
+        .post('/api/v1/admin/trades/import')
+        .set(adminHeaders())
+        .send({ format: 'csv', data: csv, columnMapping })
+        .expect(201);
+      expect(first.body.data.createdCount).toBe(1);
+
+      const stored = await db.query("SELECT data_source FROM stock_trades WHERE trader_id = $1 AND ticker_symbol = 'MSFT'", [targetMemberId]);
+      expect(stored.rows).toEqual([{ data_source: 'file' }]);
+
+      const second = await request(app)
+        .post('/api/v1/admin/trades/import')
+        .set(adminHeaders())
+        .send({ format: 'csv', data: csv, columnMapping })
+        .expect(201);
+      expect(second.body.data).toMatchObject({ createdCount: 0, duplicateCount: 1 });
+    });
+
+    it('should import same-day lots held by different owners as separate trades', async () => {
+      const lots = [
+        'Member,Chamber,State,Symbol,Trade Date,Type,Amount,Owner',
+        'Thomas Admin-Test,senate,WY,NVDA,2023-06-05,Purchase,"$1,001 - $15,000",Self',
+        'Thomas Admin-Test,senate,WY,NVDA,2023-06-05,Purchase,"$1,001 - $15,000",Spouse'
+      ].join('\n');
+      const lotMapping = { ...columnMapping, owner: 'Owner' };
+
+      const dryRun = await request(app)
+        .post('/api/v1/admin/trades/import')
+        .set(adminHeaders())
+        .send({ format: 'csv', data: lots, columnMapping: lotMapping, dryRun: true })
+        .expect(200);
+      expect(dryRun.body.data).toMatchObject({ createdCount: 2, duplicateCount: 0 });
+
+      const imported = await request(app)
+        .post('/api/v1/admin/trades/import')
+        .set(adminHeaders())
+        .send({ format: 'csv', data: lots, columnMapping: lotMapping })
+        .expect(201);
+      expect(imported.body.data).toMatchObject({ createdCount: 2, duplicateCount: 0 });
+
+      const stored = await db.query(
+        "SELECT owner FROM stock_trades WHERE trader_id = $1 AND ticker_symbol = 'NVDA' ORDER BY owner",
+        [targetMemberId]
+      );
+      expect(stored.rows).toEqual([{ owner: 'self' }, { owner: 'spouse' }]);
+    });
+
+    it('should reject a mapping to a column the file lacks', async () => {
+      await request(app)
+        .post('/api/v1/admin/trades/import')
+        .set(adminHeaders())
+        .send({ format: 'csv', data: csv, columnMapping: { ticker: 'Ticker Symbol' } })
+        .expect(400);
+    });
+
+    it('should reject an unknown format', async () => {
+      await request(app)
+        .post('/api/v1/admin/trades/import')
+        .set(adminHeaders())
+        .send({ format: 'xlsx', data: csv })
+        .expect(400);
+    });
+  });
+
+  describe('Sync Runs', () => {
+    beforeAll(async () => {
+      const run = await db.insert('sync_runs', {
+        id: uuidv4(),
+        run_type: 'daily',
+        trigger: 'manual',
+        status: 'running',
+        data_source: 'fmp',
+        processed_count: 120,
+        progress: JSON.stringify({ type: 'senate', current: 120, total: 250 })
+      });
+      syncRunId = run.id;
+    });
+
+    it('should list sync runs with the running job\'s progress', async () => {
+      const response = await request(app)
+        .get('/api/v1/sync/runs')
+        .set(adminHeaders())
+        .query({ status: 'running' })
+        .expect(200);
+
+      const run = response.body.data.runs.find((entry: any) => entry.id === syncRunId);
+      expect(run).toMatchObject({
+        runType: 'daily',
+        trigger: 'manual',
+        status: 'running',
+        progress: { type: 'senate', current: 120, total: 250 }
+      });
+    });
+
+    it('should get one sync run', async () => {
+      const response = await request(app)
+        .get(`/api/v1/sync/runs/${syncRunId}`)
+        .set(adminHeaders())
+        .expect(200);
+
+      expect(response.body.data).toMatchObject({ id: syncRunId, processedCount: 120, errors: [] });
+    });
+
+    it('should return 404 for an unknown sync run', async () => {
+      await request(app)
+        .get(`/api/v1/sync/runs/${uuidv4()}`)
+        .set(adminHeaders())
+        .expect(404);
+    });
+
+    it('should reject an unknown status filter', async () => {
+      await request(app)
+        .get('/api/v1/sync/runs')
+        .set(adminHeaders())
+        .query({ status: 'paused' })
+        .expect(400);
+    });
+
+    it('should let analysts read sync history', async () => {
+      await request(app)
+        .get('/api/v1/sync/runs')
+        .set({ Authorization: `Bearer ${analystToken}` })
+        .expect(200);
+    });
+
+    it('should reject users without the analyst role', async () => {
+      await request(app)
+        .get('/api/v1/sync/runs')
+        .set({ Authorization: `Bearer ${userToken}` })
+        .expect(403);
+    });
+  });
+});
@@ -2,6 +2,9 @@ import request from 'supertest';
 import { Express } from 'express';
 import { v4 as uuidv4 } from 'uuid';
 import db from '../../src/config/database';
+import { AlertService } from '../../src/services/AlertService';
+import { StockTrade } from '../../src/models/StockTrade';
+import { Committee } from '../../src/models/Committee';
 
 // This will be replaced with actual app once implemented
 let app: Express;
@@ -490,4 +493,598 @@ describe('Alerts Integration Tests', () => {
         .expect(400);
     });
   });
+
+  describe('Notification Preferences', () => {
+    afterEach(async () => {
+      await db.query('DELETE FROM notification_preferences WHERE user_id = $1', [testUserId]);
+    });
+
+    it('should return defaults before any preferences are saved', async () => {
+      const response = await request(app)
+        .get('/api/v1/alerts/preferences')
+        .set(authHeaders())
+        .expect(200);
+
+      expect(response.body.data).toMatchObject({
+        email: true,
+        inApp: true,
+        webhook: false,
+        frequency: 'immediate'
+      });
+    });
+
+    it('should persist channel choices and issue a webhook signing secret', async () => {
+      const updateResponse = await request(app)
+        .put('/api/v1/alerts/preferences')
+        .set(authHeaders())
+        .send({ email: false, webhook: true, webhookUrl: 'https://hooks.example.com/congress' })
+        .expect(200);
+
+      expect(updateResponse.body.data.webhookSecret).toMatch(/^[0-9a-f]{64}$/);
+
+      const response = await request(app)
+        .get('/api/v1/alerts/preferences')
+        .set(authHeaders())
+        .expect(200);
+
+      expect(response.body.data).toMatchObject({
+        email: false,
+        inApp: true,
+        webhook: true,
+        webhookUrl: 'https://hooks.example.com/congress',
+        webhookSecret: updateResponse.body.data.webhookSecret
+      });
+    });
+
+    it('should reject enabling webhooks without a URL', async () => {
+      await request(app)
+        .put('/api/v1/alerts/preferences')
+        .set(authHeaders())
+        .send({ webhook: true })
+        .expect(400);
+    });
+
+    it('should reject invalid preference values', async () => {
+      await request(app)
+        .put('/api/v1/alerts/preferences')
+        .set(authHeaders())
+        .send({ email: 'yes' })
+        .expect(400);
+
+      await request(app)
+        .put('/api/v1/alerts/preferences')
+        .set(authHeaders())
+        .send({ webhookUrl: 'ftp://example.com' })
+        .expect(400);
+    });
+
+    it('should reject webhook URLs that reach internal addresses', async () => {
+      for (const webhookUrl of [
+        'https://localhost/hook',
+        'https://127.0.0.1/hook',
+        'https://10.0.0.5/hook',
+        'https://169.254.169.254/latest/meta-data',
+        'https://[::1]/hook',
+        'https://[::ffff:127.0.0.1]/hook',
+        'http://hooks.example.com/congress'
+      ]) {
+        await request(app)
+          .put('/api/v1/alerts/preferences')
+          .set(authHeaders())
+          .send({ webhookUrl })
+          .expect(400);
+      }
+    });
+  });
+
+  describe('Pattern Alert Matching', () => {
+    let otherPoliticianId: string;
+
+    beforeEach(async () => {
+      const other = await db.insert('congressional_members', {
+        id: uuidv4(),
+        name: 'Alert Test Representative',
+        position: 'representative',
+        state_code: 'CA',
+        district: 12,
+        party_affiliation: 'democratic'
+      });
+      otherPoliticianId = other.id;
+    });
+
+    afterEach(async () => {
+      await db.query('DELETE FROM alert_notifications WHERE user_id = $1', [testUserId]);
+      await db.query('DELETE FROM stock_trades WHERE trader_id = ANY($1)', [[testPoliticianId, otherPoliticianId]]);
+      await db.query('DELETE FROM congressional_members WHERE id = $1', [otherPoliticianId]);
+    });
+
+    const ingestTrade = async (traderId: string, fields: Record<string, any>) => {
+      const row = await db.insert('stock_trades', {
+        id: uuidv4(),
+        trader_type: 'congressional',
+        trader_id: traderId,
+        ticker_symbol: 'ALERT',
+        transaction_date: '2024-06-03',
+        transaction_type: 'buy',
+        estimated_value: 75000,
+        ...fields
+      });
+      const trade = await StockTrade.findById(row.id);
+      await AlertService.checkTradeAlerts(trade!);
+    };
+
+    const notificationCount = async () => {
+      const response = await request(app)
+        .get('/api/v1/alerts/notifications')
+        .set(authHeaders())
+        .expect(200);
+      return response.body.data.length;
+    };
+
+    it('should only fire for trades matching sector, party and value together', async () => {
+      await request(app)
+        .post('/api/v1/alerts')
+        .set(authHeaders())
+        .send({
+          alertType: 'pattern',
+          patternConfig: { sectors: ['Technology'], parties: ['republican'], transactionType: 'buy', minValue: 50000 }
+        })
+        .expect(201);
+
+      // Technology buy over $50k, but by a Democrat
+      await ingestTrade(otherPoliticianId, {});
+      expect(await notificationCount()).toBe(0);
+
+      // Republican, but under the value threshold
+      await ingestTrade(testPoliticianId, { estimated_value: 10000 });
+      expect(await notificationCount()).toBe(0);
+
+      await ingestTrade(testPoliticianId, {});
+      expect(await notificationCount()).toBe(1);
+    });
+
+    it('should match state, chamber and asset description keywords', async () => {
+      await request(app)
+        .post('/api/v1/alerts')
+        .set(authHeaders())
+        .send({
+          alertType: 'pattern',
+          patternConfig: { chambers: ['senate'], states: ['FL'], keywords: ['call option'] }
+        })
+        .expect(201);
+
+      await ingestTrade(testPoliticianId, { source_data: { originalData: { assetDescription: 'Alert Test Inc Common Stock' } } });
+      expect(await notificationCount()).toBe(0);
+
+      await ingestTrade(otherPoliticianId, { source_data: { originalData: { assetDescription: 'Alert Test Inc Call Option' } } });
+      expect(await notificationCount()).toBe(0);
+
+      await ingestTrade(testPoliticianId, { source_data: { originalData: { assetDescription: 'Alert Test Inc Call Option' } } });
+      expect(await notificationCount()).toBe(1);
+    });
+
+    it('should require the windowed trade count within the time frame', async () => {
+      await request(app)
+        .post('/api/v1/alerts')
+        .set(authHeaders())
+        .send({
+          alertType: 'pattern',
+          patternConfig: { sectors: ['Technology'], timeFrame: '7d', minTrades: 3 }
+        })
+        .expect(201);
+
+      await ingestTrade(testPoliticianId, { transaction_date: '2024-05-01' });
+      await ingestTrade(otherPoliticianId, { transaction_date: '2024-06-01' });
+      await ingestTrade(testPoliticianId, { transaction_date: '2024-06-03' });
+      expect(await notificationCount()).toBe(0);
+
+      await ingestTrade(otherPoliticianId, { transaction_date: '2024-06-05' });
+      expect(await notificationCount()).toBe(1);
+    });
+
+    it('should reject invalid member and window criteria', async () => {
+      await request(app)
+        .post('/api/v1/alerts')
+        .set(authHeaders())
+        .send({ alertType: 'pattern', patternConfig: { parties: ['whig'] } })
+        .expect(400);
+
+      await request(app)
+        .post('/api/v1/alerts')
+        .set(authHeaders())
+        .send({ alertType: 'pattern', patternConfig: { chambers: ['senate'], minTrades: 2 } })
+        .expect(400);
+    });
+  });
+
+  describe('Cluster Alerts', () => {
+    let clusterMemberIds: string[];
+
+    beforeEach(async () => {
+      clusterMemberIds = [];
+      for (const [name, district] of [['Cluster Representative One', 3], ['Cluster Representative Two', 4]] as const) {
+        const member = await db.insert('congressional_members', {
+          id: uuidv4(),
+          name,
+          position: 'representative',
+          state_code: 'TX',
+          district,
+          party_affiliation: 'republican'
+        });
+        clusterMemberIds.push(member.id);
+      }
+    });
+
+    afterEach(async () => {
+      const memberIds = [testPoliticianId, ...clusterMemberIds];
+      await db.query('DELETE FROM alert_notifications WHERE user_id = $1', [testUserId]);
+      await db.query('DELETE FROM stock_trades WHERE trader_id = ANY($1)', [memberIds]);
+      await db.query('DELETE FROM committees WHERE code = $1', ['SSBK']);
+      await db.query('DELETE FROM congressional_members WHERE id = ANY($1)', [clusterMemberIds]);
+    });
+
+    const ingestTrade = async (traderId: string, fields: Record<string, any>) => {
+      const row = await db.insert('stock_trades', {
+        id: uuidv4(),
+        trader_type: 'congressional',
+        trader_id: traderId,
+        ticker_symbol: 'ALERT',
+        transaction_date: '2024-06-03',
+        transaction_type: 'buy',
+        estimated_value: 15000,
+        ...fields
+      });
+      const trade = await StockTrade.findById(row.id);
+      await AlertService.checkTradeAlerts(trade!);
+      return row.id as string;
+    };
+
+    const getNotifications = async () => {
+      const response = await request(app)
+        .get('/api/v1/alerts/notifications')
+        .set(authHeaders())
+        .expect(200);
+      return response.body.data;
+    };
+
+    it('should fire once when enough distinct members buy the ticker within the window', async () => {
+      await request(app)
+        .post('/api/v1/alerts')
+        .set(authHeaders())
+        .send({
+          alertType: 'pattern',
+          patternConfig: { transactionType: 'buy', cluster: { type: 'member_cluster', minMembers: 3, windowDays: 7 } }
+        })
+        .expect(201);
+
+      const first = await ingestTrade(testPoliticianId, { transaction_date: '2024-06-01' });
+      // The same member again does not count twice
+      await ingestTrade(testPoliticianId, { transaction_date: '2024-06-02' });
+      // Outside the window of the first trade
+      await ingestTrade(clusterMemberIds[0], { transaction_date: '2024-05-01' });
+      const second = await ingestTrade(clusterMemberIds[0], { transaction_date: '2024-06-04' });
+      expect(await getNotifications()).toHaveLength(0);
+
+      const third = await ingestTrade(clusterMemberIds[1], { transaction_date: '2024-06-07' });
+      const notifications = await getNotifications();
+      expect(notifications).toHaveLength(1);
+      expect(notifications[0].message).toContain('3 members bought ALERT within 7 days');
+      expect(notifications[0].tradeIds).toEqual(expect.arrayContaining([first, second, third]));
+      expect(notifications[0].tradeIds).toHaveLength(4);
+
+      // Further trades in an already reported cluster do not fire again
+      await ingestTrade(clusterMemberIds[1], { transaction_date: '2024-06-06' });
+      expect(await getNotifications()).toHaveLength(1);
+    });
+
+    it("should fire on a member's first trade in a sector", async () => {
+      await request(app)
+        .post('/api/v1/alerts')
+        .set(authHeaders())
+        .send({ alertType: 'pattern', patternConfig: { cluster: { type: 'first_sector_trade' } } })
+        .expect(201);
+
+      const first = await ingestTrade(clusterMemberIds[0], { transaction_date: '2024-03-01' });
+      await ingestTrade(clusterMemberIds[0], { transaction_date: '2024-04-01' });
+
+      const notifications = await getNotifications();
+      expect(notifications).toHaveLength(1);
+      expect(notifications[0].message).toContain('First Technology trade by Cluster Representative One');
+      expect(notifications[0].tradeIds).toEqual([first]);
+    });
+
+    it('should fire on a committee-wide selloff', async () => {
+      const committee = await Committee.upsert({ code: 'SSBK', name: 'Banking, Housing, and Urban Affairs', chamber: 'senate' });
+      await committee.setMembers([{ memberId: testPoliticianId }, { memberId: clusterMemberIds[0] }]);
+
+      await request(app)
+        .post('/api/v1/alerts')
+        .set(authHeaders())
+        .send({
+          alertType: 'pattern',
+          patternConfig: { cluster: { type: 'committee_selloff', committee: 'ssbk', minMembers: 2, windowDays: 30 } }
+        })
+        .expect(201);
+
+      // Not on the committee
+      await ingestTrade(clusterMemberIds[1], { transaction_type: 'sell', transaction_date: '2024-06-01' });
+      await ingestTrade(testPoliticianId, { transaction_type: 'sell', transaction_date: '2024-06-02' });
+      expect(await getNotifications()).toHaveLength(0);
+
+      await ingestTrade(clusterMemberIds[0], { transaction_type: 'sell', transaction_date: '2024-06-20' });
+      const notifications = await getNotifications();
+      expect(notifications).toHaveLength(1);
+      expect(notifications[0].message).toContain('2 SSBK committee members sold within 30 days');
+      expect(notifications[0].tradeIds).toHaveLength(2);
+    });
+
+    it('should reject invalid cluster conditions', async () => {
+      await request(app)
+        .post('/api/v1/alerts')
+        .set(authHeaders())
+        .send({ alertType: 'pattern', patternConfig: { cluster: { type: 'committee_selloff' } } })
+        .expect(400);
+
+      await request(app)
+        .post('/api/v1/alerts')
+        .set(authHeaders())
+        .send({ alertType: 'pattern', patternConfig: { cluster: { type: 'member_cluster', minMembers: 1 } } })
+        .expect(400);
+
+      const response = await request(app)
+        .post('/api/v1/alerts')
+        .set(authHeaders())
+        .send({ alertType: 'pattern', patternConfig: { cluster: { type: 'committee_selloff', committee: 'ZZZZ' } } })
+        .expect(400);
+      expect(response.body.error).toBe('Unknown committee code "ZZZZ"');
+    });
+  });
+
+  describe('Alert Digests', () => {
+    afterEach(async () => {
+      await db.query('DELETE FROM alert_digests WHERE user_id = $1', [testUserId]);
+      await db.query('DELETE FROM alert_notifications WHERE user_id = $1', [testUserId]);
+      await db.query('DELETE FROM stock_trades WHERE trader_id = $1', [testPoliticianId]);
+      await db.query('DELETE FROM notification_preferences WHERE user_id = $1', [testUserId]);
+    });
+
+    const ingestTrade = async (fields: Record<string, any>) => {
+      const row = await db.insert('stock_trades', {
+        id: uuidv4(),
+        trader_type: 'congressional',
+        trader_id: testPoliticianId,
+        ticker_symbol: 'ALERT',
+        transaction_date: '2024-06-03',
+        transaction_type: 'buy',
+        estimated_value: 15000,
+        ...fields
+      });
+      const trade = await StockTrade.findById(row.id);
+      await AlertService.checkTradeAlerts(trade!);
+    };
+
+    it('should hold notifications for the daily digest and mark them as included', async () => {
+      await request(app)
+        .put('/api/v1/alerts/preferences')
+        .set(authHeaders())
+        .send({ frequency: 'daily' })
+        .expect(200);
+
+      await request(app)
+        .post('/api/v1/alerts')
+        .set(authHeaders())
+        .send({ alertType: 'politician', politicianId: testPoliticianId })
+        .expect(201);
+
+      await ingestTrade({ transaction_type: 'buy', estimated_value: 15000 });
+      await ingestTrade({ transaction_type: 'sell', estimated_value: 50000 });
+
+      const held = await request(app)
+        .get('/api/v1/alerts/notifications')
+        .set(authHeaders())
+        .expect(200);
+      expect(held.body.data).toHaveLength(2);
+      held.body.data.forEach((notification: any) => {
+        expect(notification.digestFrequency).toBe('daily');
+        expect(notification.digestId).toBeUndefined();
+      });
+
+      // Weekly digests do not pick up daily notifications
+      expect(await AlertService.processDigests('weekly')).toMatchObject({ digests: 0 });
+      expect(await AlertService.processDigests('daily')).toMatchObject({ digests: 1, notifications: 2 });
+
+      const digests = await request(app)
+        .get('/api/v1/alerts/digests')
+        .set(authHeaders())
+        .expect(200);
+      expect(digests.body.data.total).toBe(1);
+      const digest = digests.body.data.digests[0];
+      expect(digest.summary.totals).toEqual({ notifications: 2, trades: 2, buys: 1, sells: 1, totalValue: 65000 });
+      expect(digest.summary.byPolitician).toEqual([
+        expect.objectContaining({ key: testPoliticianId, label: 'Alert Test Senator', trades: 2 })
+      ]);
+      expect(digest.summary.byTicker).toEqual([
+        expect.objectContaining({ key: 'ALERT', label: 'Alert Test Inc', trades: 2, totalValue: 65000 })
+      ]);
+
+      const included = await request(app)
+        .get('/api/v1/alerts/notifications')
+        .set(authHeaders())
+        .expect(200);
+      included.body.data.forEach((notification: any) => {
+        expect(notification.digestId).toBe(digest.id);
+      });
+
+      // Nothing is left for the next run
+      expect(await AlertService.processDigests('daily')).toMatchObject({ digests: 0 });
+    });
+
+    it('should let an alert override the user frequency', async () => {
+      await request(app)
+        .put('/api/v1/alerts/preferences')
+        .set(authHeaders())
+        .send({ frequency: 'weekly' })
+        .expect(200);
+
+      await request(app)
+        .post('/api/v1/alerts')
+        .set(authHeaders())
+        .send({ alertType: 'stock', tickerSymbol: 'ALERT', digestFrequency: 'immediate' })
+        .expect(201);
+
+      await ingestTrade({});
+
+      const response = await request(app)
+        .get('/api/v1/alerts/notifications')
+        .set(authHeaders())
+        .expect(200);
+      expect(response.body.data).toHaveLength(1);
+      expect(response.body.data[0].digestFrequency).toBeUndefined();
+      expect(await AlertService.processDigests('weekly')).toMatchObject({ digests: 0 });
+    });
+
+    it('should reject unknown frequencies', async () => {
+      await request(app)
+        .put('/api/v1/alerts/preferences')
+        .set(authHeaders())
+        .send({ frequency: 'monthly' })
+        .expect(400);
+
+      await request(app)
+        .post('/api/v1/alerts')
+        .set(authHeaders())
+        .send({ alertType: 'stock', tickerSymbol: 'ALERT', digestFrequency: 'monthly' })
+        .expect(400);
+    });
+  });
+
+  describe('Notification Throttling', () => {
+    afterEach(async () => {
+      await db.query('DELETE FROM alert_digests WHERE user_id = $1', [testUserId]);
+      await db.query('DELETE FROM alert_notifications WHERE user_id = $1', [testUserId]);
+      await db.query('DELETE FROM stock_trades WHERE trader_id = $1', [testPoliticianId]);
+      await db.query('DELETE FROM notification_preferences WHERE user_id = $1', [testUserId]);
+    });
+
+    const ingestTrade = async () => {
+      const row = await db.insert('stock_trades', {
+        id: uuidv4(),
+        trader_type: 'congressional',
+        trader_id: testPoliticianId,
+        ticker_symbol: 'ALERT',
+        transaction_date: '2024-06-03',
+        transaction_type: 'buy',
+        estimated_value: 15000
+      });
+      const trade = await StockTrade.findById(row.id);
+      await AlertService.checkTradeAlerts(trade!);
+    };
+
+    const createOverlappingAlerts = async () => {
+      await request(app)
+        .post('/api/v1/alerts')
+        .set(authHeaders())
+        .send({ alertType: 'politician', politicianId: testPoliticianId })
+        .expect(201);
+
+      await request(app)
+        .post('/api/v1/alerts')
+        .set(authHeaders())
+        .send({ alertType: 'stock', tickerSymbol: 'ALERT' })
+        .expect(201);
+    };
+
+    const getNotifications = async () => {
+      const response = await request(app)
+        .get('/api/v1/alerts/notifications')
+        .set(authHeaders())
+        .expect(200);
+      return response.body.data;
+    };
+
+    it('should save quiet hours, timezone and the hourly cap', async () => {
+      const response = await request(app)
+        .put('/api/v1/alerts/preferences')
+        .set(authHeaders())
+        .send({ quietHours: { start: '22:00', end: '07:00' }, timezone: 'America/New_York', maxPerHour: 10 })
+        .expect(200);
+
+      expect(response.body.data).toMatchObject({
+        quietHours: { start: '22:00', end: '07:00' },
+        timezone: 'America/New_York',
+        maxPerHour: 10,
+        dedupeTrades: true
+      });
+
+      await request(app)
+        .put('/api/v1/alerts/preferences')
+        .set(authHeaders())
+        .send({ timezone: 'Mars/Olympus_Mons' })
+        .expect(400);
+
+      await request(app)
+        .put('/api/v1/alerts/preferences')
+        .set(authHeaders())
+        .send({ quietHours: { start: '25:00', end: '07:00' } })
+        .expect(400);
+
+      await request(app)
+        .put('/api/v1/alerts/preferences')
+        .set(authHeaders())
+        .send({ maxPerHour: 0 })
+        .expect(400);
+    });
+
+    it('should notify once when several alerts match the same trade', async () => {
+      await createOverlappingAlerts();
+
+      await ingestTrade();
+      expect(await getNotifications()).toHaveLength(1);
+
+      await request(app)
+        .put('/api/v1/alerts/preferences')
+        .set(authHeaders())
+        .send({ dedupeTrades: false })
+        .expect(200);
+
+      await ingestTrade();
+      expect(await getNotifications()).toHaveLength(3);
+    });
+
+    it('should roll notifications beyond the hourly cap into a summary', async () => {
+      await request(app)
+        .put('/api/v1/alerts/preferences')
+        .set(authHeaders())
+        .send({ maxPerHour: 2 })
+        .expect(200);
+      await createOverlappingAlerts();
+
+      for (let i = 0; i < 4; i++) {
+        await ingestTrade();
+      }
+
+      const notifications = await getNotifications();
+      expect(notifications).toHaveLength(4);
+      expect(notifications.filter((n: any) => n.heldReason === 'rate_limit')).toHaveLength(2);
+
+      expect(await AlertService.processDigests('hourly')).toMatchObject({ digests: 1, notifications: 2 });
+    });
+
+    it('should hold notifications during quiet hours', async () => {
+      // A window covering the whole day keeps the test independent of the clock
+      await request(app)
+        .put('/api/v1/alerts/preferences')
+        .set(authHeaders())
+        .send({ quietHours: { start: '00:00', end: '23:59' }, timezone: 'UTC' })
+        .expect(200);
+      await createOverlappingAlerts();
+
+      await ingestTrade();
+
+      const notifications = await getNotifications();
+      expect(notifications).toHaveLength(1);
+      expect(notifications[0]).toMatchObject({ heldReason: 'quiet_hours', digestFrequency: 'hourly' });
+      expect(await AlertService.processDigests('hourly')).toMatchObject({ digests: 0 });
+    });
+  });
 });
\ No newline at end of file
@@ -114,6 +114,496 @@ describe('Analytics Integration Tests', () => {
     });
   });
 
+  describe('Sector Analysis', () => {
+    it('should aggregate trades by sector with top stocks and traders', async () => {
+      const politician = await db.insert('congressional_members', {
+        id: uuidv4(),
+        name: 'Sector Test Senator',
+        position: 'senator',
+        state_code: 'WY',
+        party_affiliation: 'republican'
+      });
+
+      await db.insert('stock_tickers', {
+        symbol: 'SECT1',
+        company_name: 'Sector Test Energy Corp',
+        sector: 'Energy',
+        last_updated: new Date().toISOString()
+      });
+
+      const recentDate = new Date(Date.now() - 3 * 24 * 60 * 60 * 1000).toISOString().split('T')[0];
+
+      await db.insert('stock_trades', {
+        id: uuidv4(),
+        trader_type: 'congressional',
+        trader_id: politician.id,
+        ticker_symbol: 'SECT1',
+        transaction_date: recentDate,
+        transaction_type: 'buy',
+        estimated_value: 32500
+      });
+
+      await db.insert('stock_trades', {
+        id: uuidv4(),
+        trader_type: 'congressional',
+        trader_id: politician.id,
+        ticker_symbol: 'SECT1',
+        transaction_date: recentDate,
+        transaction_type: 'sell',
+        estimated_value: 8000
+      });
+
+      const response = await request(app)
+        .get('/api/v1/analytics/sectors')
+        .query({ timeframe: 'month', sector: 'Energy' })
+        .expect(200);
+
+      const analysis = response.body.data;
+      expect(analysis.sector).toBe('Energy');
+      expect(analysis.metrics.totalTrades).toBeGreaterThanOrEqual(2);
+      expect(analysis.metrics.buyTrades).toBeGreaterThanOrEqual(1);
+      expect(analysis.metrics.sellTrades).toBeGreaterThanOrEqual(1);
+
+      const energy = analysis.sectors.find((s: any) => s.sector === 'Energy');
+      expect(energy.topStocks.map((s: any) => s.symbol)).toContain('SECT1');
+      expect(energy.topTraders.map((t: any) => t.traderId)).toContain(politician.id);
+
+      const comparison = analysis.performanceComparison.find((c: any) => c.sector === 'Energy');
+      expect(comparison.current.totalTrades).toBeGreaterThanOrEqual(2);
+
+      await db.query('DELETE FROM stock_trades WHERE trader_id = $1', [politician.id]);
+      await db.query('DELETE FROM congressional_members WHERE id = $1', [politician.id]);
+      await db.query(`DELETE FROM stock_tickers WHERE symbol = 'SECT1'`);
+    });
+
+    it('should leave withdrawn trades out of sector totals', async () => {
+      const politician = await db.insert('congressional_members', {
+        id: uuidv4(),
+        name: 'Withdrawn Sector Senator',
+        position: 'senator',
+        state_code: 'VT'
+      });
+
+      await db.insert('stock_tickers', {
+        symbol: 'WDRN1',
+        company_name: 'Withdrawn Test Materials Corp',
+        sector: 'Materials',
+        last_updated: new Date().toISOString()
+      });
+
+      const recentDate = new Date(Date.now() - 3 * 24 * 60 * 60 * 1000).toISOString().split('T')[0];
+
+      await db.insert('stock_trades', {
+        id: uuidv4(),
+        trader_type: 'congressional',
+        trader_id: politician.id,
+        ticker_symbol: 'WDRN1',
+        transaction_date: recentDate,
+        transaction_type: 'buy',
+        estimated_value: 32500
+      });
+
+      await db.insert('stock_trades', {
+        id: uuidv4(),
+        trader_type: 'congressional',
+        trader_id: politician.id,
+        ticker_symbol: 'WDRN1',
+        transaction_date: recentDate,
+        transaction_type: 'sell',
+        estimated_value: 8000,
+        status: 'withdrawn'
+      });
+
+      const response = await request(app)
+        .get('/api/v1/analytics/sectors')
+        .query({ timeframe: 'month', sector: 'Materials' })
+        .expect(200);
+
+      const materials = response.body.data.sectors.find((s: any) => s.sector === 'Materials');
+      const stock = materials.topStocks.find((s: any) => s.symbol === 'WDRN1');
+      expect(stock).toMatchObject({ tradeCount: 1, totalValue: 32500 });
+
+      await db.query('DELETE FROM stock_trades WHERE trader_id = $1', [politician.id]);
+      await db.query('DELETE FROM congressional_members WHERE id = $1', [politician.id]);
+      await db.query(`DELETE FROM stock_tickers WHERE symbol = 'WDRN1'`);
+    });
+
+    it('should count only equities unless another asset class is requested', async () => {
+      const politician = await db.insert('congressional_members', {
+        id: uuidv4(),
+        name: 'Asset Class Sector Senator',
+        position: 'senator',
+        state_code: 'NH'
+      });
+
+      await db.insert('stock_tickers', {
+        symbol: 'ASCL1',
+        company_name: 'Asset Class Utilities Corp',
+        sector: 'Utilities',
+        last_updated: new Date().toISOString()
+      });
+
+      const recentDate = new Date(Date.now() - 3 * 24 * 60 * 60 * 1000).toISOString().split('T')[0];
+
+      for (const [assetClass, value] of [['stock', 32500], ['option', 8000], ['bond', 100000]] as const) {
+        await db.insert('stock_trades', {
+          id: uuidv4(),
+          trader_type: 'congressional',
+          trader_id: politician.id,
+          ticker_symbol: 'ASCL1',
+          transaction_date: recentDate,
+          transaction_type: 'buy',
+          estimated_value: value,
+          asset_class: assetClass
+        });
+      }
+
+      const stockFor = async (query: Record<string, string>) => {
+        const response = await request(app)
+          .get('/api/v1/analytics/sectors')
+          .query({ timeframe: 'month', sector: 'Utilities', ...query })
+          .expect(200);
+        return response.body.data.topStocks.find((s: any) => s.symbol === 'ASCL1');
+      };
+
+      expect(await stockFor({})).toMatchObject({ tradeCount: 1, totalValue: 32500 });
+      expect(await stockFor({ assetClass: 'option' })).toMatchObject({ tradeCount: 1, totalValue: 8000 });
+      expect(await stockFor({ assetClass: 'all' })).toMatchObject({ tradeCount: 3, totalValue: 140500 });
+
+      await request(app)
+        .get('/api/v1/analytics/sectors')
+        .query({ assetClass: 'warrant' })
+        .expect(400);
+
+      await db.query('DELETE FROM stock_trades WHERE trader_id = $1', [politician.id]);
+      await db.query('DELETE FROM congressional_members WHERE id = $1', [politician.id]);
+      await db.query(`DELETE FROM stock_tickers WHERE symbol = 'ASCL1'`);
+    });
+
+    it('should reject an invalid timeframe', async () => {
+      await request(app)
+        .get('/api/v1/analytics/sectors')
+        .query({ timeframe: 'decade' })
+        .expect(400);
+    });
+  });
+
+  describe('Correlation Analysis', () => {
+    it('should correlate weekly net flow between two traders', async () => {
+      const senatorA = await db.insert('congressional_members', {
+        id: uuidv4(),
+        name: 'Correlation Senator A',
+        position: 'senator',
+        state_code: 'OH'
+      });
+      const senatorB = await db.insert('congressional_members', {
+        id: uuidv4(),
+        name: 'Correlation Senator B',
+        position: 'senator',
+        state_code: 'PA'
+      });
+
+      await db.insert('stock_tickers', {
+        symbol: 'CORR1',
+        company_name: 'Correlation Test Corp',
+        sector: 'Technology',
+        last_updated: new Date().toISOString()
+      });
+
+      // Both senators buy and sell the same ticker in the same weeks
+      for (let week = 1; week <= 8; week++) {
+        const date = new Date(Date.now() - week * 7 * 24 * 60 * 60 * 1000).toISOString().split('T')[0];
+        const transactionType = week % 2 === 0 ? 'buy' : 'sell';
+        for (const senator of [senatorA, senatorB]) {
+          await db.insert('stock_trades', {
+            id: uuidv4(),
+            trader_type: 'congressional',
+            trader_id: senator.id,
+            ticker_symbol: 'CORR1',
+            transaction_date: date,
+            transaction_type: transactionType,
+            estimated_value: 8000 * week
+          });
+        }
+      }
+
+      const response = await request(app)
+        .get('/api/v1/analytics/correlation')
+        .query({
+          analysisType: 'trader',
+          entityIds: `${senatorA.id},${senatorB.id}`,
+          timeframe: 'quarter',
+          interval: 'week'
+        })
+        .expect(200);
+
+      const correlation = response.body.data;
+      expect(correlation.correlationMatrix).toHaveLength(2);
+      expect(correlation.correlationMatrix[0][1]).toBeCloseTo(1, 5);
+      expect(correlation.pairs[0].significant).toBe(true);
+      expect(correlation.pairs[0].sharedTickers).toContain('CORR1');
+      expect(correlation.insights.length).toBeGreaterThan(0);
+
+      await db.query('DELETE FROM stock_trades WHERE trader_id = ANY($1::uuid[])', [[senatorA.id, senatorB.id]]);
+      await db.query('DELETE FROM congressional_members WHERE id = ANY($1::uuid[])', [[senatorA.id, senatorB.id]]);
+      await db.query(`DELETE FROM stock_tickers WHERE symbol = 'CORR1'`);
+    });
+
+    it('should reject non-UUID trader entity IDs', async () => {
+      await request(app)
+        .get('/api/v1/analytics/correlation')
+        .query({ analysisType: 'trader', entityIds: 'abc,def' })
+        .expect(400);
+    });
+  });
+
+  describe('Risk Assessment', () => {
+    it('should score concentration, late filings and option exposure', async () => {
+      const senator = await db.insert('congressional_members', {
+        id: uuidv4(),
+        name: 'Risk Test Senator',
+        position: 'senator',
+        state_code: 'AZ'
+      });
+
+      await db.insert('stock_tickers', {
+        symbol: 'RISK1',
+        company_name: 'Risk Test Corp',
+        sector: 'Technology',
+        last_updated: new Date().toISOString()
+      });
+
+      const daysAgo = (days: number) =>
+        new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString().split('T')[0];
+
+      // Filed 80 days after the trade, outside the 45-day STOCK Act window
+      await db.insert('stock_trades', {
+        id: uuidv4(),
+        trader_type: 'congressional',
+        trader_id: senator.id,
+        ticker_symbol: 'RISK1',
+        transaction_date: daysAgo(100),
+        transaction_type: 'buy',
+        estimated_value: 50000,
+        filing_date: daysAgo(20),
+        source_data: JSON.stringify({ originalData: { assetType: 'Stock Option', assetDescription: 'RISK1 call' } })
+      });
+
+      await db.insert('stock_trades', {
+        id: uuidv4(),
+        trader_type: 'congressional',
+        trader_id: senator.id,
+        ticker_symbol: 'RISK1',
+        transaction_date: daysAgo(60),
+        transaction_type: 'buy',
+        estimated_value: 50000,
+        filing_date: daysAgo(50),
+        source_data: JSON.stringify({ originalData: { assetType: 'Stock' } })
+      });
+
+      const response = await request(app)
+        .get(`/api/v1/analytics/risk/${senator.id}`)
+        .query({ timeframe: 'year' })
+        .expect(200);
+
+      const risk = response.body.data;
+      expect(risk.metrics.herfindahlIndex).toBeCloseTo(1, 5);
+      expect(risk.filingCompliance).toMatchObject({ filingWindowDays: 45, tradesWithFilingDate: 2, lateFilings: 1 });
+      expect(risk.derivativesExposure.optionTrades).toBe(1);
+      expect(risk.derivativesExposure.derivativeShare).toBeCloseTo(50, 1);
+      expect(risk.sectorExposure[0]).toMatchObject({ sector: 'Technology', overexposed: true });
+      expect(risk.riskLevel).toBe('High');
+      expect(risk.drivers[0].factor).toBe('concentration');
+
+      await db.query('DELETE FROM stock_trades WHERE trader_id = $1', [senator.id]);
+      await db.query('DELETE FROM congressional_members WHERE id = $1', [senator.id]);
+      await db.query(`DELETE FROM stock_tickers WHERE symbol = 'RISK1'`);
+    });
+
+    it('should return 404 for an unknown trader', async () => {
+      await request(app)
+        .get(`/api/v1/analytics/risk/${uuidv4()}`)
+        .expect(404);
+    });
+
+    it('should return 400 for a trader ID that is not a UUID', async () => {
+      const response = await request(app)
+        .get('/api/v1/analytics/risk/not-a-uuid')
+        .expect(400);
+
+      expect(response.body.error).toBe('traderId must be a valid UUID');
+    });
+  });
+
+  describe('Return-Based Performance', () => {
+    it('should compute forward returns and alpha against SPY', async () => {
+      const senator = await db.insert('congressional_members', {
+        id: uuidv4(),
+        name: 'Performance Test Senator',
+        position: 'senator',
+        state_code: 'VT'
+      });
+
+      for (const [symbol, name] of [['PERF1', 'Performance Test Corp'], ['SPY', 'SPDR S&P 500 ETF Trust']]) {
+        await db.query(
+          `INSERT INTO stock_tickers (symbol, company_name) VALUES ($1, $2) ON CONFLICT (symbol) DO NOTHING`,
+          [symbol, name]
+        );
+      }
+
+      const daysAgo = (days: number) =>
+        new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString().split('T')[0];
+
+      // PERF1 gains 20% over 90 days while SPY gains 5%
+      const prices: Array<[string, number, number]> = [
+        ['PERF1', 120, 100], ['PERF1', 30, 120],
+        ['SPY', 120, 400], ['SPY', 30, 420]
+      ];
+      for (const [symbol, days, close] of prices) {
+        await db.query(
+          `INSERT INTO stock_price_history (ticker_symbol, price_date, close_price)
+           VALUES ($1, $2, $3) ON CONFLICT (ticker_symbol, price_date) DO UPDATE SET close_price = EXCLUDED.close_price`,
+          [symbol, daysAgo(days), close]
+        );
+      }
+
+      for (let i = 0; i < 3; i++) {
+        await db.insert('stock_trades', {
+          id: uuidv4(),
+          trader_type: 'congressional',
+          trader_id: senator.id,
+          ticker_symbol: 'PERF1',
+          transaction_date: daysAgo(120),
+          transaction_type: 'buy',
+          estimated_value: 15000
+        });
+      }
+
+      const patternsResponse = await request(app)
+        .get(`/api/v1/analytics/patterns/${senator.id}`)
+        .query({ timeframe: 'year' })
+        .expect(200);
+
+      const performance = patternsResponse.body.data.performance;
+      const ninetyDay = performance.horizons.find((h: any) => h.horizonDays === 90);
+      expect(performance.benchmarkSymbol).toBe('SPY');
+      expect(ninetyDay.tradesEvaluated).toBe(3);
+      expect(ninetyDay.avgReturn).toBeCloseTo(20, 5);
+      expect(ninetyDay.avgBenchmarkReturn).toBeCloseTo(5, 5);
+      expect(ninetyDay.alpha).toBeCloseTo(15, 5);
+      expect(performance.bestPerformingStock.symbol).toBe('PERF1');
+
+      const benchmarksResponse = await request(app)
+        .get('/api/v1/analytics/benchmarks')
+        .query({ timeframe: 'year' })
+        .expect(200);
+
+      const topPerformer = benchmarksResponse.body.data.topPerformers
+        .find((t: any) => t.traderId === senator.id);
+      expect(topPerformer.score).toBeCloseTo(15, 1);
+
+      await db.query('DELETE FROM stock_trades WHERE trader_id = $1', [senator.id]);
+      await db.query('DELETE FROM congressional_members WHERE id = $1', [senator.id]);
+      await db.query(`DELETE FROM stock_price_history WHERE ticker_symbol = 'PERF1'`);
+      await db.query(`DELETE FROM stock_tickers WHERE symbol = 'PERF1'`);
+    });
+  });
+
+  describe('Late Filing Analytics', () => {
+    let representative: any;
+
+    beforeAll(async () => {
+      representative = await db.insert('congressional_members', {
+        id: uuidv4(),
+        name: 'Late Filing Test Representative',
+        position: 'representative',
+        state_code: 'NV',
+        district: 3
+      });
+
+      await db.insert('stock_tickers', {
+        symbol: 'LATE1',
+        company_name: 'Late Filing Test Corp',
+        last_updated: new Date().toISOString()
+      });
+
+      const daysAgo = (days: number) =>
+        new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString().split('T')[0];
+
+      // Disclosed 10, 60 and 90 days after the trade
+      for (const [traded, filed] of [[40, 30], [100, 40], [120, 30]]) {
+        await db.insert('stock_trades', {
+          id: uuidv4(),
+          trader_type: 'congressional',
+          trader_id: representative.id,
+          ticker_symbol: 'LATE1',
+          transaction_date: daysAgo(traded),
+          transaction_type: 'buy',
+          estimated_value: 8000,
+          filing_date: daysAgo(filed)
+        });
+      }
+    });
+
+    afterAll(async () => {
+      await db.query('DELETE FROM stock_trades WHERE trader_id = $1', [representative.id]);
+      await db.query('DELETE FROM congressional_members WHERE id = $1', [representative.id]);
+      await db.query(`DELETE FROM stock_tickers WHERE symbol = 'LATE1'`);
+    });
+
+    it('should report a member\'s disclosure lag statistics', async () => {
+      const response = await request(app)
+        .get(`/api/v1/members/${representative.id}/filing-stats`)
+        .expect(200);
+
+      expect(response.body.data).toMatchObject({
+        filingWindowDays: 45,
+        filedTrades: 3,
+        lateFilings: 2,
+        medianLagDays: 60,
+        maxLagDays: 90
+      });
+      expect(response.body.data.latestLateFiling.lagDays).toBe(60);
+    });
+
+    it('should flag late trades and filter by them', async () => {
+      const response = await request(app)
+        .get('/api/v1/trades')
+        .query({ traderId: representative.id, lateFiling: 'true' })
+        .expect(200);
+
+      expect(response.body.data).toHaveLength(2);
+      response.body.data.forEach((trade: any) => {
+        expect(trade.lateFiling).toBe(true);
+        expect(trade.filingLagDays).toBeGreaterThan(45);
+      });
+    });
+
+    it('should rank members on the late-filers leaderboard', async () => {
+      const response = await request(app)
+        .get('/api/v1/analytics/late-filers')
+        .query({ timeframe: 'year', chamber: 'house' })
+        .expect(200);
+
+      const entry = response.body.data.leaders.find((leader: any) => leader.memberId === representative.id);
+      expect(entry).toMatchObject({ filedTrades: 3, lateFilings: 2, maxFilingLagDays: 90 });
+      expect(entry.lateFilingShare).toBeCloseTo(66.7, 1);
+
+      const senate = await request(app)
+        .get('/api/v1/analytics/late-filers')
+        .query({ timeframe: 'year', chamber: 'senate' })
+        .expect(200);
+      expect(senate.body.data.leaders.find((leader: any) => leader.memberId === representative.id)).toBeUndefined();
+    });
+
+    it('should reject an invalid chamber', async () => {
+      await request(app)
+        .get('/api/v1/analytics/late-filers')
+        .query({ chamber: 'both' })
+        .expect(400);
+    });
+  });
+
   const cleanupAllTestData = async () => {
     await db.query('DELETE FROM users WHERE email LIKE %analytics-test%');
   };
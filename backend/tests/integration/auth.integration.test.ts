@@ -1,7 +1,10 @@
 import request from 'supertest';
 import { Express } from 'express';
 import { v4 as uuidv4 } from 'uuid';
+import nodemailer from 'nodemailer';
 import db from '../../src/config/database';
+import { setMailTransport } from '../../src/config/mail';
+import { generateTotp, getTotpStep } from '../../src/utils/totp';
 
 // This will be replaced with actual app once implemented
 let app: Express;
@@ -397,4 +400,505 @@ describe('Authentication Integration Tests', () => {
       expect(failed).toHaveLength(4);
     });
   });
-});
\ No newline at end of file
+
+  describe('Sessions and Refresh Tokens', () => {
+    const testUser = {
+      email: 'session-test@example.com',
+      password: 'SessionTest123!',
+      name: 'Session Test User'
+    };
+
+    const login = async () => {
+      const response = await request(app)
+        .post('/api/v1/auth/login')
+        .set('User-Agent', 'session-test-agent')
+        .send({ email: testUser.email, password: testUser.password })
+        .expect(200);
+      return response.body.data;
+    };
+
+    beforeEach(async () => {
+      await request(app)
+        .post('/api/v1/auth/register')
+        .send(testUser)
+        .expect(201);
+    });
+
+    it('should rotate refresh tokens', async () => {
+      const { token, refreshToken, expiresIn } = await login();
+      expect(token).toBeDefined();
+      expect(expiresIn).toBeLessThanOrEqual(15 * 60);
+
+      const response = await request(app)
+        .post('/api/v1/auth/refresh')
+        .send({ refreshToken })
+        .expect(200);
+
+      expect(response.body.data.refreshToken).not.toBe(refreshToken);
+
+      await request(app)
+        .get('/api/v1/auth/sessions')
+        .set('Authorization', `Bearer ${response.body.data.token}`)
+        .expect(200);
+    });
+
+    it('should revoke the session when a refresh token is reused', async () => {
+      const { refreshToken } = await login();
+
+      const rotated = await request(app)
+        .post('/api/v1/auth/refresh')
+        .send({ refreshToken })
+        .expect(200);
+
+      await request(app)
+        .post('/api/v1/auth/refresh')
+        .send({ refreshToken })
+        .expect(401);
+
+      // The legitimate holder of the new token is logged out too
+      await request(app)
+        .post('/api/v1/auth/refresh')
+        .send({ refreshToken: rotated.body.data.refreshToken })
+        .expect(401);
+
+      const response = await request(app)
+        .get('/api/v1/auth/sessions')
+        .set('Authorization', `Bearer ${rotated.body.data.token}`)
+        .expect(401);
+      expect(response.body.code).toBe('AUTH_SESSION_REVOKED');
+    });
+
+    it('should list sessions with device details and revoke one', async () => {
+      const first = await login();
+      const second = await login();
+
+      const listResponse = await request(app)
+        .get('/api/v1/auth/sessions')
+        .set('Authorization', `Bearer ${second.token}`)
+        .expect(200);
+
+      const sessions = listResponse.body.data;
+      const current = sessions.find((session: any) => session.current);
+      const other = sessions.find((session: any) => !session.current && session.userAgent === 'session-test-agent');
+      expect(current.lastSeenAt).toBeDefined();
+      expect(other).toBeDefined();
+
+      await request(app)
+        .delete(`/api/v1/auth/sessions/${other.id}`)
+        .set('Authorization', `Bearer ${second.token}`)
+        .expect(200);
+
+      await request(app)
+        .get('/api/v1/auth/sessions')
+        .set('Authorization', `Bearer ${first.token}`)
+        .expect(401);
+    });
+
+    it('should end only the current session on logout', async () => {
+      const first = await login();
+      const second = await login();
+
+      await request(app)
+        .post('/api/v1/auth/logout')
+        .set('Authorization', `Bearer ${first.token}`)
+        .expect(200);
+
+      await request(app)
+        .get('/api/v1/auth/sessions')
+        .set('Authorization', `Bearer ${first.token}`)
+        .expect(401);
+
+      await request(app)
+        .get('/api/v1/auth/sessions')
+        .set('Authorization', `Bearer ${second.token}`)
+        .expect(200);
+    });
+
+    it('should revoke every session when the password changes', async () => {
+      const first = await login();
+      const second = await login();
+
+      const response = await request(app)
+        .put('/api/v1/auth/password')
+        .set('Authorization', `Bearer ${second.token}`)
+        .send({ currentPassword: testUser.password, newPassword: 'SessionTest456!' })
+        .expect(200);
+
+      for (const token of [first.token, second.token]) {
+        await request(app)
+          .get('/api/v1/auth/sessions')
+          .set('Authorization', `Bearer ${token}`)
+          .expect(401);
+      }
+
+      await request(app)
+        .post('/api/v1/auth/refresh')
+        .send({ refreshToken: first.refreshToken })
+        .expect(401);
+
+      // The device that changed the password continues on its new tokens
+      await request(app)
+        .get('/api/v1/auth/sessions')
+        .set('Authorization', `Bearer ${response.body.data.token}`)
+        .expect(200);
+    });
+  });
+
+  describe('Password Reset and Email Verification', () => {
+    const testUser = {
+      email: 'reset-test@example.com',
+      password: 'ResetTest123!',
+      name: 'Reset Test User'
+    };
+    let sentMail: any[];
+
+    // The token from the link in the most recent email
+    const tokenFromLastEmail = (): string => {
+      const match = /token=([^\s"&]+)/.exec(sentMail[sentMail.length - 1].text);
+      return decodeURIComponent(match![1]);
+    };
+
+    beforeEach(async () => {
+      // Capture mail instead of delivering it; point SMTP_HOST at Mailpit to see real messages
+      sentMail = [];
+      const transport = nodemailer.createTransport({ jsonTransport: true });
+      const sendMail = transport.sendMail.bind(transport);
+      (transport as any).sendMail = async (message: any) => {
+        sentMail.push(message);
+        return sendMail(message);
+      };
+      setMailTransport(transport);
+
+      await request(app)
+        .post('/api/v1/auth/register')
+        .send(testUser)
+        .expect(201);
+    });
+
+    afterAll(() => {
+      setMailTransport(null);
+    });
+
+    it('should send a verification email on registration and verify once', async () => {
+      expect(sentMail).toHaveLength(1);
+      expect(sentMail[0].to).toBe(testUser.email);
+      expect(sentMail[0].text).toContain('/verify-email?token=');
+
+      const token = tokenFromLastEmail();
+      const response = await request(app)
+        .post('/api/v1/auth/email/verify')
+        .send({ token })
+        .expect(200);
+      expect(response.body.data.user.emailVerifiedAt).toBeDefined();
+
+      await request(app)
+        .post('/api/v1/auth/email/verify')
+        .send({ token })
+        .expect(401);
+    });
+
+    it('should invalidate earlier verification links when a new one is sent', async () => {
+      const firstToken = tokenFromLastEmail();
+
+      const loginResponse = await request(app)
+        .post('/api/v1/auth/login')
+        .send({ email: testUser.email, password: testUser.password })
+        .expect(200);
+
+      await request(app)
+        .post('/api/v1/auth/email/verify/resend')
+        .set('Authorization', `Bearer ${loginResponse.body.data.token}`)
+        .expect(200);
+      expect(sentMail).toHaveLength(2);
+
+      await request(app)
+        .post('/api/v1/auth/email/verify')
+        .send({ token: firstToken })
+        .expect(401);
+
+      await request(app)
+        .post('/api/v1/auth/email/verify')
+        .send({ token: tokenFromLastEmail() })
+        .expect(200);
+    });
+
+    it('should email a single-use reset link and store only its hash', async () => {
+      await request(app)
+        .post('/api/v1/auth/password/reset-request')
+        .send({ email: testUser.email })
+        .expect(200);
+
+      const token = tokenFromLastEmail();
+      expect(sentMail[sentMail.length - 1].text).toContain('/reset-password?token=');
+
+      const stored = await db.query(
+        "SELECT token_hash FROM auth_tokens WHERE purpose = 'password_reset' AND email = $1",
+        [testUser.email]
+      );
+      expect(stored.rows).toHaveLength(1);
+      expect(stored.rows[0].token_hash).not.toBe(token);
+
+      await request(app)
+        .post('/api/v1/auth/password/reset')
+        .send({ token, newPassword: 'ResetTest456!' })
+        .expect(200);
+
+      await request(app)
+        .post('/api/v1/auth/password/reset')
+        .send({ token, newPassword: 'ResetTest789!' })
+        .expect(401);
+
+      await request(app)
+        .post('/api/v1/auth/login')
+        .send({ email: testUser.email, password: 'ResetTest456!' })
+        .expect(200);
+    });
+
+    it('should reject expired reset links', async () => {
+      await request(app)
+        .post('/api/v1/auth/password/reset-request')
+        .send({ email: testUser.email })
+        .expect(200);
+
+      await db.query("UPDATE auth_tokens SET expires_at = NOW() - INTERVAL '1 minute' WHERE purpose = 'password_reset'");
+
+      await request(app)
+        .post('/api/v1/auth/password/reset')
+        .send({ token: tokenFromLastEmail(), newPassword: 'ResetTest456!' })
+        .expect(401);
+    });
+
+    it('should not reveal whether an email is registered', async () => {
+      const sentBefore = sentMail.length;
+
+      const response = await request(app)
+        .post('/api/v1/auth/password/reset-request')
+        .send({ email: 'no-such-user@example.com' })
+        .expect(200);
+
+      expect(response.body.success).toBe(true);
+      expect(sentMail).toHaveLength(sentBefore);
+    });
+
+    it('should answer a registered email the same way when the reset email cannot be sent', async () => {
+      const transport = nodemailer.createTransport({ jsonTransport: true });
+      (transport as any).sendMail = async () => {
+        throw new Error('SMTP connection refused');
+      };
+      setMailTransport(transport);
+
+      const response = await request(app)
+        .post('/api/v1/auth/password/reset-request')
+        .send({ email: testUser.email })
+        .expect(200);
+
+      expect(response.body.success).toBe(true);
+    });
+  });
+
+  describe('Two-Factor Authentication', () => {
+    const testUser = {
+      email: 'two-factor-test@example.com',
+      password: 'TwoFactor123!',
+      name: 'Two Factor Test User'
+    };
+    let authToken: string;
+    let secret: string;
+    let recoveryCodes: string[];
+
+    const login = (twoFactorCode?: string) =>
+      request(app)
+        .post('/api/v1/auth/login')
+        .send({ email: testUser.email, password: testUser.password, twoFactorCode });
+
+    beforeEach(async () => {
+      await request(app)
+        .post('/api/v1/auth/register')
+        .send(testUser)
+        .expect(201);
+
+      authToken = (await login().expect(200)).body.data.token;
+
+      const setupResponse = await request(app)
+        .post('/api/v1/auth/2fa/setup')
+        .set('Authorization', `Bearer ${authToken}`)
+        .expect(200);
+      secret = setupResponse.body.data.secret;
+      expect(setupResponse.body.data.qrCode).toMatch(/^data:image\/png;base64,/);
+      expect(setupResponse.body.data.otpauthUrl).toContain(`secret=${secret}`);
+
+      const enableResponse = await request(app)
+        .post('/api/v1/auth/2fa/enable')
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ code: generateTotp(secret) })
+        .expect(200);
+      recoveryCodes = enableResponse.body.data.recoveryCodes;
+    });
+
+    it('should not enable 2FA with a wrong code', async () => {
+      await request(app)
+        .post('/api/v1/auth/2fa/disable')
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ password: testUser.password, code: recoveryCodes[0] })
+        .expect(200);
+
+      await request(app)
+        .post('/api/v1/auth/2fa/setup')
+        .set('Authorization', `Bearer ${authToken}`)
+        .expect(200);
+
+      await request(app)
+        .post('/api/v1/auth/2fa/enable')
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ code: '000000' })
+        .expect(400);
+    });
+
+    it('should ask for a code after the password, then log in with it', async () => {
+      const challenge = await login().expect(401);
+      expect(challenge.body.code).toBe('TWO_FACTOR_REQUIRED');
+
+      const wrong = await login('123456').expect(401);
+      expect(wrong.body.code).toBe('TWO_FACTOR_INVALID');
+
+      // The enrollment code's time step has been used, so use the next one
+      const response = await login(generateTotp(secret, getTotpStep() + 1)).expect(200);
+      expect(response.body.data.token).toBeDefined();
+    });
+
+    it('should not accept the same authenticator code twice', async () => {
+      const code = generateTotp(secret, getTotpStep() + 1);
+      await login(code).expect(200);
+      await login(code).expect(401);
+    });
+
+    it('should accept each recovery code once', async () => {
+      expect(recoveryCodes).toHaveLength(10);
+
+      await login(recoveryCodes[0]).expect(200);
+      await login(recoveryCodes[0]).expect(401);
+
+      const status = await request(app)
+        .get('/api/v1/auth/2fa')
+        .set('Authorization', `Bearer ${authToken}`)
+        .expect(200);
+      expect(status.body.data.enabled).toBe(true);
+      expect(status.body.data.recoveryCodesRemaining).toBe(9);
+    });
+
+    it('should need the password and a code to turn 2FA off', async () => {
+      await request(app)
+        .post('/api/v1/auth/2fa/disable')
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ password: 'WrongPassword1!', code: recoveryCodes[0] })
+        .expect(400);
+
+      await request(app)
+        .post('/api/v1/auth/2fa/disable')
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ password: testUser.password, code: recoveryCodes[1] })
+        .expect(200);
+
+      await login().expect(200);
+    });
+  });
+
+  describe('API Keys', () => {
+    let authToken: string;
+
+    beforeEach(async () => {
+      const registerResponse = await request(app)
+        .post('/api/v1/auth/register')
+        .send({ email: 'apikey-test@example.com', password: 'ApiKeyTest123!', name: 'API Key Test User' })
+        .expect(201);
+      authToken = registerResponse.body.token;
+    });
+
+    const createKey = async (scopes: string[]) => {
+      const response = await request(app)
+        .post('/api/v1/auth/api-keys')
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ name: 'Research scripts', scopes })
+        .expect(201);
+      return response.body.data;
+    };
+
+    it('should create a key that is shown once and stored hashed', async () => {
+      const { apiKey, key } = await createKey(['read:trades']);
+
+      expect(key).toMatch(/^ctk_/);
+      expect(apiKey.scopes).toEqual(['read:trades']);
+      expect(key.startsWith(apiKey.keyPrefix)).toBe(true);
+
+      const listResponse = await request(app)
+        .get('/api/v1/auth/api-keys')
+        .set('Authorization', `Bearer ${authToken}`)
+        .expect(200);
+
+      expect(listResponse.body.data).toHaveLength(1);
+      expect(JSON.stringify(listResponse.body.data)).not.toContain(key);
+
+      const stored = await db.query('SELECT key_hash FROM api_keys WHERE id = $1', [apiKey.id]);
+      expect(stored.rows[0].key_hash).not.toBe(key);
+    });
+
+    it('should reject unknown scopes', async () => {
+      await request(app)
+        .post('/api/v1/auth/api-keys')
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ name: 'Too much', scopes: ['admin:all'] })
+        .expect(400);
+    });
+
+    it('should authenticate scoped requests and record when the key was used', async () => {
+      const { apiKey, key } = await createKey(['manage:alerts']);
+
+      await request(app)
+        .get('/api/v1/alerts')
+        .set('X-API-Key', key)
+        .expect(200);
+
+      const stored = await db.query('SELECT last_used_at FROM api_keys WHERE id = $1', [apiKey.id]);
+      expect(stored.rows[0].last_used_at).not.toBeNull();
+    });
+
+    it('should reject keys without the route\'s scope or on routes that do not accept keys', async () => {
+      const { key } = await createKey(['read:trades']);
+
+      const scopeResponse = await request(app)
+        .get('/api/v1/alerts')
+        .set('Authorization', `Bearer ${key}`)
+        .expect(403);
+      expect(scopeResponse.body.code).toBe('API_KEY_SCOPE_REQUIRED');
+
+      const routeResponse = await request(app)
+        .get('/api/v1/auth/api-keys')
+        .set('Authorization', `Bearer ${key}`)
+        .expect(403);
+      expect(routeResponse.body.code).toBe('API_KEY_NOT_ALLOWED');
+    });
+
+    it('should stop accepting a revoked key', async () => {
+      const { apiKey, key } = await createKey(['manage:alerts']);
+
+      const revokeResponse = await request(app)
+        .delete(`/api/v1/auth/api-keys/${apiKey.id}`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .expect(200);
+      expect(revokeResponse.body.data.revokedAt).toBeDefined();
+
+      const response = await request(app)
+        .get('/api/v1/alerts')
+        .set('X-API-Key', key)
+        .expect(401);
+      expect(response.body.code).toBe('AUTH_API_KEY_INVALID');
+    });
+
+    it('should not revoke another user\'s key', async () => {
+      await request(app)
+        .delete(`/api/v1/auth/api-keys/${uuidv4()}`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .expect(404);
+    });
+  });
+});
@@ -0,0 +1,225 @@
+import { v4 as uuidv4 } from 'uuid';
+import db from '../../src/config/database';
+import { Committee } from '../../src/models/Committee';
+import { CongressionalMember } from '../../src/models/CongressionalMember';
+import { CommitteeRecord, LegislatorRecord, MemberRosterService } from '../../src/services/MemberRosterService';
+
+describe('Member Roster Integration Tests', () => {
+  beforeAll(async () => {
+    await db.testConnection();
+  });
+
+  afterAll(async () => {
+    await db.close();
+  });
+
+  const cleanUpMembers = () => db.query(
+    `DELETE FROM congressional_members WHERE name LIKE '%Rosterville%' OR bioguide_id LIKE 'R00091%'`
+  );
+
+  describe('Legislator Import', () => {
+    const senator = (changes: Partial<LegislatorRecord['name']> = {}, bioguide = 'R000911'): LegislatorRecord => ({
+      id: { bioguide },
+      name: {
+        first: 'Thomas',
+        middle: 'Hawley',
+        nickname: 'Tommy',
+        last: 'Rosterville',
+        suffix: 'Jr.',
+        official_full: 'Tommy Rosterville',
+        ...changes
+      },
+      terms: [
+        { type: 'rep', start: '2015-01-06', end: '2021-01-03', state: 'AL', district: 1, party: 'Republican' },
+        { type: 'sen', start: '2021-01-03', end: '2027-01-03', state: 'AL', party: 'Republican' }
+      ]
+    });
+
+    beforeEach(cleanUpMembers);
+    afterAll(cleanUpMembers);
+
+    it('should match a member known by their middle initial and record every name variant', async () => {
+      const existing = await db.insert('congressional_members', {
+        id: uuidv4(),
+        name: 'Thomas H. Rosterville',
+        position: 'senator',
+        state_code: 'AL'
+      });
+
+      const result = await MemberRosterService.importLegislators([senator()]);
+
+      expect(result).toMatchObject({ total: 1, created: 0, updated: 1, skipped: 0, duplicates: [], errors: [] });
+      expect(result.aliasesAdded).toBe(4);
+
+      const member = await CongressionalMember.findByBioguideId('r000911');
+      expect(member).toMatchObject({
+        id: existing.id,
+        name: 'Tommy Rosterville',
+        position: 'senator',
+        stateCode: 'AL',
+        partyAffiliation: 'republican',
+        officeStartDate: new Date('2021-01-03')
+      });
+
+      for (const variant of [
+        'Thomas Rosterville',
+        'Tommy Rosterville',
+        'Thomas Hawley Rosterville',
+        'Thomas H Rosterville',
+        'Sen. Thomas Rosterville, Jr.',
+        'THOMAS H. ROSTERVILLE'
+      ]) {
+        expect((await CongressionalMember.findByAlias(variant, 'al'))?.id).toBe(existing.id);
+      }
+    });
+
+    it('should create missing members only when asked to', async () => {
+      const skipped = await MemberRosterService.importLegislators([senator()], { createMissing: false });
+      expect(skipped).toMatchObject({ created: 0, updated: 0, skipped: 1, aliasesAdded: 0 });
+      expect(await CongressionalMember.findByBioguideId('R000911')).toBeNull();
+
+      const created = await MemberRosterService.importLegislators([senator()]);
+      expect(created).toMatchObject({ created: 1, updated: 0, skipped: 0 });
+      expect((await CongressionalMember.findByDisclosedName('Tommy Rosterville Jr.', 'Tommy', 'Rosterville', 'AL'))?.bioguideId)
+        .toBe('R000911');
+    });
+
+    it('should report rows that look like the same legislator for merging', async () => {
+      const official = await db.insert('congressional_members', {
+        id: uuidv4(), name: 'Tommy Rosterville', position: 'senator', state_code: 'AL'
+      });
+      const duplicate = await db.insert('congressional_members', {
+        id: uuidv4(), name: 'Thomas Rosterville', position: 'senator', state_code: 'AL'
+      });
+      // Same name in another state is someone else
+      await db.insert('congressional_members', {
+        id: uuidv4(), name: 'Thomas Rosterville', position: 'senator', state_code: 'MS'
+      });
+
+      const result = await MemberRosterService.importLegislators([senator()]);
+
+      expect(result.updated).toBe(1);
+      expect(result.duplicates).toEqual([{ bioguideId: 'R000911', memberId: official.id, duplicateIds: [duplicate.id] }]);
+      expect((await CongressionalMember.findByBioguideId('R000911'))?.id).toBe(official.id);
+    });
+
+    it('should not take over a member another legislator owns when their aliases conflict', async () => {
+      await MemberRosterService.importLegislators([senator()]);
+
+      // Also goes by Tommy, so their nickname alias already belongs to R000911
+      const result = await MemberRosterService.importLegislators([
+        senator({ first: 'Pat', middle: undefined, suffix: undefined, official_full: 'Pat Rosterville' }, 'R000912')
+      ]);
+
+      expect(result).toMatchObject({ created: 1, updated: 0, duplicates: [], errors: [] });
+      const tommy = await CongressionalMember.findByBioguideId('R000911');
+      const pat = await CongressionalMember.findByBioguideId('R000912');
+      expect(tommy!.id).not.toBe(pat!.id);
+      expect(tommy!.name).toBe('Tommy Rosterville');
+
+      // A shared alias resolves to neither member
+      expect(await CongressionalMember.findByAlias('Tommy Rosterville', 'AL')).toBeNull();
+      expect((await CongressionalMember.findByAlias('Thomas Rosterville', 'AL'))?.id).toBe(tommy!.id);
+      expect((await CongressionalMember.findByAlias('Pat Rosterville', 'AL'))?.id).toBe(pat!.id);
+    });
+
+    it('should restrict alias matches to the given state', async () => {
+      await MemberRosterService.importLegislators([
+        senator(),
+        { ...senator({}, 'R000913'), terms: [{ type: 'sen', start: '2023-01-03', end: '2029-01-03', state: 'MS' }] }
+      ]);
+
+      expect(await CongressionalMember.findByAlias('Tommy Rosterville')).toBeNull();
+      expect((await CongressionalMember.findByAlias('Tommy Rosterville', 'MS'))?.bioguideId).toBe('R000913');
+      expect(await CongressionalMember.findByAlias('Tommy Rosterville', 'TX')).toBeNull();
+    });
+
+    it('should report records it cannot import and keep going', async () => {
+      const result = await MemberRosterService.importLegislators([
+        { ...senator({}, 'R000914'), terms: [] },
+        senator()
+      ]);
+
+      expect(result).toMatchObject({ total: 2, created: 1, errors: ['R000914: missing Bioguide ID, name or terms'] });
+    });
+  });
+
+  describe('Committee Import', () => {
+    let memberIds: string[];
+
+    beforeEach(async () => {
+      memberIds = [];
+      for (const [name, bioguideId] of [['Roster Senator One', 'R000901'], ['Roster Senator Two', 'R000902']]) {
+        const member = await db.insert('congressional_members', {
+          id: uuidv4(),
+          name,
+          position: 'senator',
+          state_code: 'OH',
+          bioguide_id: bioguideId
+        });
+        memberIds.push(member.id);
+      }
+    });
+
+    afterEach(async () => {
+      await db.query(`DELETE FROM committees WHERE code LIKE 'SSXX%'`);
+      await db.query('DELETE FROM congressional_members WHERE id = ANY($1)', [memberIds]);
+    });
+
+    const committees: CommitteeRecord[] = [{
+      type: 'senate',
+      name: 'Senate Committee on Testing',
+      thomas_id: 'SSXX',
+      subcommittees: [{ name: 'Oversight', thomas_id: '01' }]
+    }];
+
+    it('should import committees, subcommittees and their rosters by Bioguide ID', async () => {
+      const result = await MemberRosterService.importCommittees(committees, {
+        SSXX: [
+          { name: 'Roster Senator One', bioguide: 'R000901', title: 'Chairman' },
+          { name: 'Roster Senator Two', bioguide: 'r000902' },
+          { name: 'Not Imported Yet', bioguide: 'Z999999' }
+        ],
+        SSXX01: [{ name: 'Roster Senator Two', bioguide: 'R000902' }]
+      });
+
+      expect(result).toEqual({ committees: 2, memberships: 3, unmatchedMembers: ['Z999999'], errors: [] });
+
+      const committee = await Committee.findByCode('ssxx');
+      expect(committee).toMatchObject({ name: 'Senate Committee on Testing', chamber: 'senate' });
+      expect((await committee!.getMemberIds()).sort()).toEqual([...memberIds].sort());
+
+      const subcommittee = await Committee.findByCode('SSXX01');
+      expect(subcommittee!.name).toBe('Senate Committee on Testing: Oversight');
+      expect(await subcommittee!.getMemberIds()).toEqual([memberIds[1]]);
+
+      const roles = await db.query('SELECT role FROM committee_memberships WHERE member_id = $1', [memberIds[0]]);
+      expect(roles.rows).toEqual([{ role: 'Chairman' }]);
+    });
+
+    it('should replace a listed roster and keep rosters the membership file leaves out', async () => {
+      await MemberRosterService.importCommittees(committees, {
+        SSXX: [{ bioguide: 'R000901' }, { bioguide: 'R000902' }],
+        SSXX01: [{ bioguide: 'R000902' }]
+      });
+
+      const result = await MemberRosterService.importCommittees(committees, {
+        SSXX: [{ bioguide: 'R000902' }]
+      });
+
+      expect(result.memberships).toBe(1);
+      expect(await (await Committee.findByCode('SSXX'))!.getMemberIds()).toEqual([memberIds[1]]);
+      expect(await (await Committee.findByCode('SSXX01'))!.getMemberIds()).toEqual([memberIds[1]]);
+    });
+
+    it('should report committees with an unknown chamber', async () => {
+      const result = await MemberRosterService.importCommittees(
+        [{ type: 'state' as any, name: 'Not A Committee', thomas_id: 'SSXXBAD' }],
+        {}
+      );
+
+      expect(result.committees).toBe(0);
+      expect(result.errors).toEqual(['SSXXBAD: Committee chamber must be "senate", "house", or "joint"']);
+    });
+  });
+});
@@ -355,6 +355,69 @@ describe('Stock-Specific Trading Data Integration Tests', () => {
     });
   });
 
+  describe('Insider Filings', () => {
+    it('should count only open-market purchases and sales as insider activity', async () => {
+      const sale = await db.query(
+        'SELECT id FROM stock_trades WHERE trader_id = $1 AND ticker_symbol = $2',
+        [testCorporateInsiderId, testStockSymbol]
+      );
+      await db.insert('insider_transactions', {
+        trade_id: sale.rows[0].id,
+        transaction_code: 'S',
+        acquired_disposed: 'D',
+        shares: 800,
+        price_per_share: 250
+      });
+
+      const exercise = await db.insert('stock_trades', {
+        id: uuidv4(),
+        trader_type: 'corporate',
+        trader_id: testCorporateInsiderId,
+        ticker_symbol: testStockSymbol,
+        transaction_date: '2024-02-10',
+        transaction_type: 'exchange',
+        estimated_value: 40000,
+        quantity: 800,
+        filing_date: '2024-02-15'
+      });
+      await db.insert('insider_transactions', {
+        trade_id: exercise.id,
+        transaction_code: 'M',
+        acquired_disposed: 'A',
+        shares: 800,
+        price_per_share: 50
+      });
+
+      const response = await request(app)
+        .get(`/api/v1/stocks/${testStockSymbol}/insiders`)
+        .query({ days: 3650 })
+        .expect(200);
+
+      const { summary, transactions } = response.body.data;
+      expect(summary.purchases).toBe(0);
+      expect(summary.sales).toBe(1);
+      expect(summary.saleValue).toBe(200000);
+      expect(summary.otherTransactions).toBe(1);
+      expect(summary.signal).toBe('selling');
+
+      const exerciseTransaction = transactions.find((t: any) => t.transactionCode === 'M');
+      expect(exerciseTransaction.label).toBe('Option exercise');
+      expect(exerciseTransaction.openMarket).toBe(false);
+      expect(exerciseTransaction.insiderName).toBe('Stock Test Insider');
+    });
+
+    it('should validate the lookback window and stock symbol', async () => {
+      await request(app)
+        .get(`/api/v1/stocks/${testStockSymbol}/insiders`)
+        .query({ days: 0 })
+        .expect(400);
+
+      await request(app)
+        .get('/api/v1/stocks/NONEXISTENT/insiders')
+        .expect(404);
+    });
+  });
+
   describe('Error Handling and Edge Cases', () => {
     it('should handle non-existent stock symbols gracefully', async () => {
       const response = await request(app)
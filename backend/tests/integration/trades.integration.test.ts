@@ -2,6 +2,10 @@ import request from 'supertest';
 import { Express } from 'express';
 import { v4 as uuidv4 } from 'uuid';
 import db from '../../src/config/database';
+import { StockTrade, TradeOwner } from '../../src/models/StockTrade';
+import { parseDisclosureDate } from '../../src/services/dataSources/parsing';
+import { SourceTrade } from '../../src/services/dataSources';
+import { CongressionalDataService } from '../../src/services/CongressionalDataService';
 
 // This will be replaced with actual app once implemented
 let app: Express;
@@ -87,7 +91,10 @@ describe('Trading Data Integration Tests', () => {
         amount_range: '$15,001 - $50,000',
         estimated_value: 25000,
         quantity: 250,
-        filing_date: '2024-01-20'
+        filing_date: '2024-01-20',
+        owner: 'self',
+        data_source: 'fmp',
+        asset_class: 'stock'
       },
       {
         id: uuidv4(),
@@ -99,7 +106,9 @@ describe('Trading Data Integration Tests', () => {
         amount_range: '$5,001 - $15,000',
         estimated_value: 10000,
         quantity: 100,
-        filing_date: '2024-02-15'
+        filing_date: '2024-02-15',
+        owner: 'spouse',
+        data_source: 'house_clerk'
       },
       {
         id: uuidv4(),
@@ -111,7 +120,12 @@ describe('Trading Data Integration Tests', () => {
         amount_range: '$50,001 - $100,000',
         estimated_value: 75000,
         quantity: 500,
-        filing_date: '2024-03-10'
+        filing_date: '2024-03-10',
+        owner: 'joint',
+        asset_class: 'option',
+        option_type: 'call',
+        strike_price: 180,
+        expiration_date: '2024-06-21'
       }
     ];
 
@@ -535,4 +549,373 @@ describe('Trading Data Integration Tests', () => {
       expect(response2.body).toHaveProperty('error');
     });
   });
+
+  describe('Live Trade Stream', () => {
+    // Collect SSE text until the predicate matches, then drop the connection
+    const readStream = (until: (text: string) => boolean) => (res: any, callback: (err: any, body: string) => void) => {
+      let text = '';
+      res.setEncoding('utf8');
+      res.on('data', (chunk: string) => {
+        text += chunk;
+        if (until(text)) {
+          res.destroy();
+          callback(null, text);
+        }
+      });
+    };
+
+    it('should open an event stream', async () => {
+      const response = await request(app)
+        .get('/api/v1/trades/stream')
+        .buffer(true)
+        .parse(readStream(text => text.includes('retry:')));
+
+      expect(response.status).toBe(200);
+      expect(response.headers['content-type']).toContain('text/event-stream');
+      expect(response.body).toContain('retry: 5000');
+    });
+
+    it('should replay trades created after Last-Event-ID', async () => {
+      const response = await request(app)
+        .get('/api/v1/trades/stream')
+        .set('Last-Event-ID', String(Date.now() - 60 * 60 * 1000))
+        .buffer(true)
+        .parse(readStream(text => (text.match(/event: trade/g) || []).length >= 3));
+
+      const events = (response.body as string).split('\n\n').filter(block => block.includes('event: trade'));
+      expect(events).toHaveLength(3);
+
+      const ids = events.map(block => Number(/^id: (\d+)-[0-9a-f-]{36}$/m.exec(block)![1]));
+      expect(ids).toEqual([...ids].sort((a, b) => a - b));
+
+      const trade = JSON.parse(/^data: (.*)$/m.exec(events[0])![1]);
+      expect(trade).toHaveProperty('tickerSymbol');
+      expect(trade.trader).toHaveProperty('name', 'Trade Test Senator');
+    });
+
+    it('should resume after the last event when trades share a creation time', async () => {
+      await db.query(
+        "UPDATE stock_trades SET created_at = NOW() - INTERVAL '1 minute' WHERE trader_id = $1",
+        [testPoliticianId]
+      );
+      const eventIds = (text: string) => text.split('\n\n')
+        .filter(block => block.includes('event: trade'))
+        .map(block => /^id: (.*)$/m.exec(block)![1]);
+
+      const first = await request(app)
+        .get('/api/v1/trades/stream')
+        .set('Last-Event-ID', String(Date.now() - 60 * 60 * 1000))
+        .buffer(true)
+        .parse(readStream(text => (text.match(/event: trade/g) || []).length >= 3));
+      const ids = eventIds(first.body);
+      expect(new Set(ids).size).toBe(3);
+
+      const resumed = await request(app)
+        .get('/api/v1/trades/stream')
+        .set('Last-Event-ID', ids[0])
+        .buffer(true)
+        .parse(readStream(text => (text.match(/event: trade/g) || []).length >= 2));
+
+      expect(eventIds(resumed.body)).toEqual(ids.slice(1));
+    });
+
+    it('should replay the authenticated user\'s notifications', async () => {
+      const alert = await db.insert('user_alerts', {
+        id: uuidv4(),
+        user_id: testUserId,
+        alert_type: 'stock',
+        ticker_symbol: testStockSymbol
+      });
+      await db.insert('alert_notifications', {
+        id: uuidv4(),
+        alert_id: alert.id,
+        user_id: testUserId,
+        message: 'New buy trade in monitored stock TRADE'
+      });
+
+      const response = await request(app)
+        .get('/api/v1/trades/stream')
+        .set(authHeaders())
+        .set('Last-Event-ID', String(Date.now() - 60 * 60 * 1000))
+        .buffer(true)
+        .parse(readStream(text => text.includes('event: notification')));
+
+      const block = (response.body as string).split('\n\n').find(b => b.includes('event: notification'))!;
+      const notification = JSON.parse(/^data: (.*)$/m.exec(block)![1]);
+      expect(notification).toMatchObject({
+        alertId: alert.id,
+        message: 'New buy trade in monitored stock TRADE'
+      });
+
+      await db.query('DELETE FROM user_alerts WHERE id = $1', [alert.id]);
+    });
+
+    it('should reject a malformed Last-Event-ID', async () => {
+      const response = await request(app)
+        .get('/api/v1/trades/stream')
+        .set('Last-Event-ID', 'not-an-event')
+        .expect(400);
+
+      expect(response.body).toHaveProperty('error');
+    });
+  });
+
+  describe('Trade Owner', () => {
+    it('should include the owner on each trade', async () => {
+      const response = await request(app)
+        .get('/api/v1/trades')
+        .set(authHeaders())
+        .query({ traderId: testPoliticianId })
+        .expect(200);
+
+      const owners = response.body.data.map((trade: any) => trade.owner).sort();
+      expect(owners).toEqual(['joint', 'self', 'spouse']);
+    });
+
+    it('should filter trades by owner', async () => {
+      const response = await request(app)
+        .get('/api/v1/trades')
+        .set(authHeaders())
+        .query({ traderId: testPoliticianId, owner: 'spouse' })
+        .expect(200);
+
+      expect(response.body.data).toHaveLength(1);
+      expect(response.body.data[0]).toMatchObject({
+        owner: 'spouse',
+        transactionType: 'sell'
+      });
+    });
+
+    it('should reject an unknown owner', async () => {
+      const response = await request(app)
+        .get('/api/v1/trades')
+        .set(authHeaders())
+        .query({ owner: 'cousin' })
+        .expect(400);
+
+      expect(response.body).toHaveProperty('error');
+    });
+  });
+
+  describe('Trade Data Source', () => {
+    it('should include where each trade was imported from', async () => {
+      const response = await request(app)
+        .get('/api/v1/trades')
+        .set(authHeaders())
+        .query({ traderId: testPoliticianId, owner: 'self' })
+        .expect(200);
+
+      expect(response.body.data[0].dataSource).toBe('fmp');
+    });
+
+    it('should filter trades by data source', async () => {
+      const response = await request(app)
+        .get('/api/v1/trades')
+        .set(authHeaders())
+        .query({ traderId: testPoliticianId, dataSource: 'house_clerk' })
+        .expect(200);
+
+      expect(response.body.data).toHaveLength(1);
+      expect(response.body.data[0]).toMatchObject({
+        dataSource: 'house_clerk',
+        owner: 'spouse'
+      });
+    });
+
+    it('should reject an unknown data source', async () => {
+      const response = await request(app)
+        .get('/api/v1/trades')
+        .set(authHeaders())
+        .query({ dataSource: 'quiver' })
+        .expect(400);
+
+      expect(response.body).toHaveProperty('error');
+    });
+  });
+
+  describe('Trade Asset Class', () => {
+    it('should filter trades by asset class with option terms', async () => {
+      const response = await request(app)
+        .get('/api/v1/trades')
+        .set(authHeaders())
+        .query({ traderId: testPoliticianId, assetClass: 'option' })
+        .expect(200);
+
+      expect(response.body.data).toHaveLength(1);
+      expect(response.body.data[0]).toMatchObject({
+        assetClass: 'option',
+        optionType: 'call',
+        strikePrice: 180,
+        tickerSymbol: 'AAPL'
+      });
+    });
+
+    it('should filter options by call or put', async () => {
+      const response = await request(app)
+        .get('/api/v1/trades')
+        .set(authHeaders())
+        .query({ traderId: testPoliticianId, assetClass: 'option', optionType: 'put' })
+        .expect(200);
+
+      expect(response.body.data).toHaveLength(0);
+    });
+
+    it('should reject an unknown asset class', async () => {
+      const response = await request(app)
+        .get('/api/v1/trades')
+        .set(authHeaders())
+        .query({ assetClass: 'art' })
+        .expect(400);
+
+      expect(response.body).toHaveProperty('error');
+    });
+
+    it('should break down activity by asset class', async () => {
+      const response = await request(app)
+        .get('/api/v1/analytics/asset-classes')
+        .query({ traderId: testPoliticianId, timeframe: 'all' })
+        .expect(200);
+
+      const option = response.body.data.classes.find((entry: any) => entry.assetClass === 'option');
+      expect(option).toMatchObject({ trades: 1, optionTypes: { call: { trades: 1 } } });
+    });
+  });
+
+  describe('Trade History', () => {
+    it('should start with no revisions', async () => {
+      const trade = await db.query('SELECT id FROM stock_trades WHERE trader_id = $1 LIMIT 1', [testPoliticianId]);
+
+      const response = await request(app)
+        .get(`/api/v1/trades/${trade.rows[0].id}/history`)
+        .expect(200);
+
+      expect(response.body.data.trade).toMatchObject({ id: trade.rows[0].id, status: 'active', revision: 1 });
+      expect(response.body.data.revisions).toEqual([]);
+    });
+
+    it('should match a disclosure only to the same lot', async () => {
+      const result = await db.query(
+        "SELECT * FROM stock_trades WHERE trader_id = $1 AND owner = 'joint'",
+        [testPoliticianId]
+      );
+      const row = result.rows[0];
+      const find = (owner: TradeOwner) => StockTrade.findExistingTrade(
+        'congressional',
+        testPoliticianId,
+        row.ticker_symbol,
+        row.transaction_date,
+        row.transaction_type,
+        { owner, amountRange: row.amount_range }
+      );
+
+      expect((await find('joint'))?.id).toBe(row.id);
+      expect(await find('spouse')).toBeNull();
+    });
+
+    it('should not see an unchanged disclosure date as an amendment outside UTC', () => {
+      const timezone = process.env.TZ;
+      process.env.TZ = 'America/New_York';
+
+      try {
+        // pg returns DATE columns as local midnight; disclosures parse as UTC midnight
+        const trade = new StockTrade({
+          traderType: 'congressional',
+          traderId: testPoliticianId,
+          tickerSymbol: 'AAPL',
+          transactionDate: new Date(2024, 0, 10),
+          transactionType: 'buy',
+          filingDate: new Date(2024, 0, 15)
+        });
+
+        expect(trade.getChanges({ filingDate: parseDisclosureDate('2024-01-15') })).toEqual({});
+        expect(trade.getChanges({ filingDate: parseDisclosureDate('2024-01-16') })).toEqual({
+          filingDate: { from: '2024-01-15', to: '2024-01-16' }
+        });
+      } finally {
+        process.env.TZ = timezone;
+      }
+    });
+
+    it('should list amendments newest first with the fields that changed', async () => {
+      const result = await db.query(
+        "SELECT id FROM stock_trades WHERE trader_id = $1 AND owner = 'joint'",
+        [testPoliticianId]
+      );
+      const trade = (await StockTrade.findById(result.rows[0].id))!;
+
+      await trade.amend({ amountRange: '$50,001 - $100,000' }, 'Amended disclosure');
+      await trade.withdraw('Filed in error');
+
+      const response = await request(app)
+        .get(`/api/v1/trades/${trade.id}/history`)
+        .expect(200);
+
+      expect(response.body.data.trade).toMatchObject({ status: 'withdrawn', revision: 3 });
+      expect(response.body.data.revisions).toHaveLength(2);
+      expect(response.body.data.revisions[0]).toMatchObject({ revision: 3, status: 'withdrawn', reason: 'Filed in error' });
+      expect(response.body.data.revisions[1]).toMatchObject({
+        revision: 2,
+        status: 'amended',
+        changes: { amountRange: { to: '$50,001 - $100,000' } }
+      });
+    });
+
+    it('should return 404 for an unknown trade', async () => {
+      await request(app)
+        .get(`/api/v1/trades/${uuidv4()}/history`)
+        .expect(404);
+    });
+
+    it('should record an amended disclosure from a sync as a revision of the same trade', async () => {
+      const disclosure = (owner: string, amount: string, filed: string): SourceTrade => ({
+        member: {
+          fullName: 'Trade Test Senator',
+          firstName: 'Trade',
+          lastName: 'Senator',
+          chamber: 'senate',
+          stateCode: 'CA'
+        },
+        trade: {
+          tickerSymbol: testStockSymbol,
+          transactionDate: parseDisclosureDate('2024-05-01')!,
+          transactionType: 'buy',
+          amountRange: amount,
+          filingDate: parseDisclosureDate(filed),
+          owner: StockTrade.parseOwner(owner)
+        },
+        originalData: { owner },
+        provenance: { source: 'file', retrievedAt: new Date().toISOString() }
+      });
+
+      let records: SourceTrade[] = [
+        disclosure('Self', '$1,001 - $15,000', '2024-05-20'),
+        disclosure('Spouse', '$1,001 - $15,000', '2024-05-20')
+      ];
+      const service = new CongressionalDataService(undefined, {
+        name: 'test',
+        supportsCheckpoints: false,
+        fetchTrades: async (chamber: string) => chamber === 'senate' ? records : []
+      });
+      const storedTrades = async () => (await db.query(
+        "SELECT id, owner, amount_range, revision FROM stock_trades WHERE trader_id = $1 AND transaction_date = '2024-05-01' ORDER BY owner",
+        [testPoliticianId]
+      )).rows;
+
+      expect(await service.syncSenateTrades()).toMatchObject({ createdCount: 2 });
+
+      // The amendment changes the amount; syncs keep returning the original too
+      records = [...records, disclosure('Self', '$15,001 - $50,000', '2024-06-10')];
+      await service.syncSenateTrades();
+      await service.syncSenateTrades();
+
+      const trades = await storedTrades();
+      expect(trades).toHaveLength(2);
+      expect(trades[0]).toMatchObject({ owner: 'self', amount_range: '$15,001 - $50,000', revision: 2 });
+      expect(trades[1]).toMatchObject({ owner: 'spouse', amount_range: '$1,001 - $15,000', revision: 1 });
+
+      const revisions = await db.query('SELECT changes FROM trade_revisions WHERE trade_id = $1', [trades[0].id]);
+      expect(revisions.rows).toHaveLength(1);
+      expect(revisions.rows[0].changes).toMatchObject({ amountRange: { to: '$15,001 - $50,000' } });
+    });
+  });
 });
\ No newline at end of file
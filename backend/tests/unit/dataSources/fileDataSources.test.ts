@@ -0,0 +1,96 @@
+import path from 'path';
+import { DisclosureDumpDataSource, FileDataSource } from '../../../src/services/dataSources';
+
+const fixture = (name: string) => path.join(__dirname, 'fixtures', name);
+
+describe('FileDataSource', () => {
+  let warn: jest.SpyInstance;
+
+  beforeEach(() => {
+    warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    warn.mockRestore();
+  });
+
+  it('reads a chamber\'s trades from a CSV file and reports unusable rows', async () => {
+    const source = new FileDataSource({ house: fixture('house-trades.csv') });
+    const trades = await source.fetchTrades('house');
+
+    expect(trades.map(trade => [trade.member.fullName, trade.trade.tickerSymbol])).toEqual([
+      ['Nancy Pelosi', 'NVDA'],
+      ['Adam Smith Jr.', 'MSFT']
+    ]);
+    expect(trades[0]).toMatchObject({
+      member: { stateCode: 'CA', district: 11 },
+      trade: { estimatedValue: 8000.5, owner: 'spouse' },
+      companyName: 'NVIDIA Corp, Common Stock',
+      provenance: { source: 'file', reference: 'house-trades.csv#1' }
+    });
+    expect(trades[1].provenance.reference).toBe('house-trades.csv#2');
+    expect(warn).toHaveBeenCalledWith(
+      'Skipped records in house-trades.csv: 1 with no ticker symbol, 1 with missing or invalid transaction date'
+    );
+  });
+
+  it('reads the other chamber from the same file by its chamber column', async () => {
+    const source = new FileDataSource({ house: fixture('house-trades.csv'), senate: fixture('house-trades.csv') });
+    const trades = await source.fetchTrades('senate');
+
+    expect(trades).toHaveLength(1);
+    expect(trades[0].member).toMatchObject({ fullName: 'Jon Ossoff', chamber: 'senate', district: undefined });
+  });
+
+  it('returns nothing for a chamber without a file', async () => {
+    expect(await new FileDataSource({ house: fixture('house-trades.csv') }).fetchTrades('senate')).toEqual([]);
+  });
+});
+
+describe('DisclosureDumpDataSource', () => {
+  let warn: jest.SpyInstance;
+
+  beforeEach(() => {
+    warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    warn.mockRestore();
+  });
+
+  it('reads Senate eFD transactions from XML as coming from the official source', async () => {
+    const source = new DisclosureDumpDataSource({ senate: fixture('senate-ptr.xml') });
+    const trades = await source.fetchTrades('senate');
+
+    expect(trades).toHaveLength(2);
+    expect(trades[0]).toMatchObject({
+      member: { fullName: 'Mark R. Warner', firstName: 'Mark', lastName: 'Warner', chamber: 'senate', stateCode: 'VA' },
+      trade: {
+        tickerSymbol: 'AAPL',
+        transactionDate: new Date('2024-01-16'),
+        filingDate: new Date('2024-02-01'),
+        transactionType: 'sell',
+        estimatedValue: 75000.5,
+        owner: 'joint',
+        assetClass: 'stock'
+      },
+      companyName: 'Apple Inc. <Common Stock>',
+      provenance: {
+        source: 'senate_efd',
+        reference: 'senate-ptr.xml#1',
+        url: 'https://efdsearch.senate.gov/search/view/ptr/0a1b2c/'
+      }
+    });
+    expect(trades[1]).toMatchObject({
+      member: { fullName: 'Tommy Tuberville', stateCode: undefined },
+      trade: { tickerSymbol: 'MSFT', transactionType: 'buy', amountRange: undefined },
+      companyName: 'Microsoft Corp & Subsidiaries'
+    });
+    expect(warn).toHaveBeenCalledWith('Skipped records in senate-ptr.xml: 1 with no ticker symbol');
+  });
+
+  it('rejects files that are not JSON or XML dumps', () => {
+    expect(() => new DisclosureDumpDataSource({ house: fixture('house-trades.csv') }))
+      .toThrow('Unsupported disclosure dump "house-trades.csv"; expected .json or .xml');
+  });
+});
@@ -0,0 +1,219 @@
+import {
+  classifyAsset,
+  normalizeFileRecord,
+  parseCsv,
+  parseFilerName,
+  parseRecords,
+  parseXmlRecords
+} from '../../../src/services/dataSources/parsing';
+
+const isoDate = (date?: Date) => date?.toISOString().slice(0, 10);
+
+describe('classifyAsset', () => {
+  it.each([
+    ['Stock', 'Apple Inc', 'stock'],
+    ['Stock Option', 'Apple Inc', 'option'],
+    ['Corporate Bond', 'Apple Inc 3.45% due 2029', 'bond'],
+    ['Other Securities', 'SPDR S&P 500 ETF Trust', 'etf'],
+    ['Cryptocurrency', 'Bitcoin', 'crypto'],
+    ['ST', 'Microsoft Corporation', 'stock'],
+    ['OP', 'Microsoft Corporation', 'option'],
+    ['EF', 'Invesco QQQ Trust', 'etf'],
+    ['MF', 'Fidelity Contrafund', 'mutual_fund'],
+    ['CS', 'Boeing Co 2.7% Notes', 'bond'],
+    ['GS', 'US Treasury Bill', 'bond'],
+    ['CT', 'Ethereum', 'crypto'],
+    ['ZZ', 'Farmland in Iowa', 'other'],
+    [undefined, 'Vanguard 500 Index Fund', 'mutual_fund'],
+    [undefined, 'Microsoft Corporation [OP]', 'option'],
+    [undefined, 'Microsoft Corporation call options, strike $400', 'option'],
+    // Company names that read like option terms
+    [undefined, 'Option Care Health Inc', 'stock'],
+    [undefined, 'Callaway Golf Co', 'stock'],
+    [undefined, undefined, 'stock']
+  ])('classifies type %p with description %p as %s', (assetType, description, expected) => {
+    expect(classifyAsset(assetType, description).assetClass).toBe(expected);
+  });
+
+  it('leaves option terms off other asset classes', () => {
+    expect(classifyAsset('Stock', 'Apple Inc call strike $150 expires 12/20/2024')).toEqual({ assetClass: 'stock' });
+  });
+});
+
+describe('classifyAsset option terms', () => {
+  it.each([
+    {
+      description: 'Apple Inc call options, strike $150, expires 12/20/2024',
+      expected: { optionType: 'call', strikePrice: 150, expirationDate: '2024-12-20' }
+    },
+    {
+      description: 'Purchased 20 put options with a strike price of $1,200.50 and an expiration date of 01/17/25',
+      expected: { optionType: 'put', strikePrice: 1200.5, expirationDate: '2025-01-17' }
+    },
+    {
+      description: 'NVIDIA Corp $500 call exp. 2025-06-20',
+      expected: { optionType: 'call', strikePrice: 500, expirationDate: '2025-06-20' }
+    },
+    {
+      description: 'Tesla Inc puts, strike 200, expiration Mar 15, 2024',
+      expected: { optionType: 'put', strikePrice: 200, expirationDate: '2024-03-15' }
+    },
+    {
+      description: 'Tesla Inc $180 put and $220 call',
+      expected: { optionType: 'put', strikePrice: 180, expirationDate: undefined }
+    },
+    {
+      description: 'Apple Inc',
+      expected: { optionType: undefined, strikePrice: undefined, expirationDate: undefined }
+    }
+  ])('reads $description', ({ description, expected }) => {
+    const asset = classifyAsset('Stock Option', description);
+
+    expect(asset.assetClass).toBe('option');
+    expect({ ...asset, assetClass: undefined, expirationDate: isoDate(asset.expirationDate) })
+      .toEqual({ assetClass: undefined, ...expected });
+  });
+
+  it('reads option terms from the comment', () => {
+    const asset = classifyAsset('OP', 'Alphabet Inc Class A', 'Sold 10 calls, strike price: $175, expiring 9/19/2025');
+
+    expect(asset).toMatchObject({ assetClass: 'option', optionType: 'call', strikePrice: 175 });
+    expect(isoDate(asset.expirationDate)).toBe('2025-09-19');
+  });
+});
+
+describe('parseCsv', () => {
+  it('reads quoted commas, escaped quotes and embedded newlines', () => {
+    const csv = 'Name,Asset,Amount\r\n"Pelosi, Nancy","Say ""cheese"" Inc","$1,001 - $15,000"\n"Multi\nLine",X,\n';
+
+    expect(parseCsv(csv)).toEqual([
+      ['Name', 'Asset', 'Amount'],
+      ['Pelosi, Nancy', 'Say "cheese" Inc', '$1,001 - $15,000'],
+      ['Multi\nLine', 'X', '']
+    ]);
+  });
+
+  it('drops blank lines and keeps a last line without a newline', () => {
+    expect(parseCsv('a,b\n\n , \n1,2')).toEqual([['a', 'b'], ['1', '2']]);
+  });
+});
+
+describe('parseRecords', () => {
+  it('fills missing CSV columns with empty strings and ignores a byte order mark', () => {
+    const records = parseRecords('\uFEFFName, Ticker ,Amount\n"Doe, Jane",AAPL\n', '.CSV', 'trades.csv');
+
+    expect(records).toEqual([{ Name: 'Doe, Jane', Ticker: 'AAPL', Amount: '' }]);
+  });
+
+  it('rejects unsupported file types', () => {
+    expect(() => parseRecords('', '.xlsx', 'trades.xlsx'))
+      .toThrow('Unsupported file type ".xlsx"; expected .csv, .json, .ndjson, .jsonl or .xml');
+  });
+});
+
+describe('parseXmlRecords', () => {
+  it('reads each record element into its child elements', () => {
+    const xml = `<?xml version="1.0"?>
+      <Transactions>
+        <Transaction id="1">
+          <Ticker>AAPL</Ticker>
+          <Asset>Johnson &amp; Johnson &lt;JNJ&gt; &#65;&#x42;</Asset>
+          <Comment><![CDATA[<b>bold</b> & raw]]></Comment>
+          <Amount/>
+        </Transaction>
+        <Transaction><Ticker>MSFT</Ticker></Transaction>
+      </Transactions>`;
+
+    expect(parseXmlRecords(xml, 'Transaction')).toEqual([
+      { Ticker: 'AAPL', Asset: 'Johnson & Johnson <JNJ> AB', Comment: '<b>bold</b> & raw', Amount: '' },
+      { Ticker: 'MSFT' }
+    ]);
+  });
+
+  it('returns nothing when the record tag is absent', () => {
+    expect(parseXmlRecords('<Filings><Filing/></Filings>', 'Transaction')).toEqual([]);
+  });
+});
+
+describe('parseFilerName', () => {
+  it.each([
+    ['Hon. Pelosi, Nancy', 'Nancy Pelosi', 'Nancy', 'Pelosi'],
+    ['Warner, Mark R. (Senator)', 'Mark R. Warner', 'Mark', 'Warner'],
+    ['Honorable King, Angus S., Jr.', 'Angus S. King Jr.', 'Angus', 'King'],
+    ['Smith, Adam Jr.', 'Adam Smith Jr.', 'Adam', 'Smith'],
+    ['Smith Jr., Adam', 'Adam Smith Jr.', 'Adam', 'Smith'],
+    ['Hon. Thomas H. Tuberville', 'Thomas H. Tuberville', 'Thomas', 'Tuberville'],
+    ['Mr. John Smith III', 'John Smith III', 'John', 'Smith'],
+    ['', '', '', '']
+  ])('reads %p', (name, fullName, firstName, lastName) => {
+    expect(parseFilerName(name)).toEqual({ fullName, firstName, lastName });
+  });
+});
+
+describe('normalizeFileRecord', () => {
+  const retrievedAt = '2024-07-01T00:00:00.000Z';
+  const record = {
+    Representative: 'Hon. Pelosi, Nancy',
+    Ticker: '$nvda',
+    'Asset Description': 'NVIDIA Corp, Common Stock',
+    'Transaction Date': '06/03/2024',
+    'Disclosure Date': '2024-06-20',
+    Type: 'Purchase',
+    Amount: '$1,001 - $15,000',
+    Shares: '1,200',
+    Owner: 'SP',
+    District: 'CA11',
+    'PTR Link': 'https://disclosures-clerk.house.gov/ptr/20024567.pdf'
+  };
+
+  it('maps aliased columns to a source trade', () => {
+    const trade = normalizeFileRecord(record, 'house', 'house_clerk', 'house.csv#1', retrievedAt);
+
+    expect(trade).toMatchObject({
+      member: { fullName: 'Nancy Pelosi', firstName: 'Nancy', lastName: 'Pelosi', chamber: 'house', stateCode: 'CA', district: 11 },
+      trade: {
+        tickerSymbol: 'NVDA',
+        transactionDate: new Date('2024-06-03'),
+        filingDate: new Date('2024-06-20'),
+        transactionType: 'buy',
+        amountRange: '$1,001 - $15,000',
+        estimatedValue: 8000.5,
+        quantity: 1200,
+        owner: 'spouse',
+        assetClass: 'stock'
+      },
+      companyName: 'NVIDIA Corp, Common Stock',
+      provenance: {
+        source: 'house_clerk',
+        reference: 'house.csv#1',
+        url: 'https://disclosures-clerk.house.gov/ptr/20024567.pdf',
+        retrievedAt
+      }
+    });
+  });
+
+  it('prefers separate name columns and leaves optional fields out when missing', () => {
+    const trade = normalizeFileRecord(
+      { 'First Name': 'Jon', 'Last Name': 'Ossoff', Ticker: 'AAPL', Date: '2024-05-02', Type: 'Sale (Full)', State: 'ga' },
+      'senate',
+      'file',
+      'senate.csv#3',
+      retrievedAt
+    );
+
+    expect(trade).toMatchObject({
+      member: { fullName: 'Jon Ossoff', firstName: 'Jon', lastName: 'Ossoff', chamber: 'senate', stateCode: 'GA', district: undefined },
+      trade: { tickerSymbol: 'AAPL', transactionType: 'sell', amountRange: undefined, estimatedValue: undefined, filingDate: undefined }
+    });
+  });
+
+  it.each([
+    [{ Chamber: 'Senate' }, 'other chamber'],
+    [{ Ticker: '--' }, 'no ticker symbol'],
+    [{ Ticker: undefined }, 'no ticker symbol'],
+    [{ 'Transaction Date': 'last spring' }, 'missing or invalid transaction date'],
+    [{ Representative: ' ' }, 'no filer name']
+  ])('rejects a record with %p', (changes, reason) => {
+    expect(normalizeFileRecord({ ...record, ...changes }, 'house', 'file', 'house.csv#1', retrievedAt)).toBe(reason);
+  });
+});
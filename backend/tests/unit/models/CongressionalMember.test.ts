@@ -0,0 +1,29 @@
+import { normalizeMemberName } from '../../../src/models/CongressionalMember';
+
+describe('normalizeMemberName', () => {
+  it.each([
+    ['Thomas H. Tuberville', 'thomas h tuberville'],
+    ['THOMAS H TUBERVILLE', 'thomas h tuberville'],
+    ['Sen. Tommy Tuberville', 'tommy tuberville'],
+    ['The Honorable Nancy Pelosi', 'nancy pelosi'],
+    ['Rep. Ro Khanna', 'ro khanna'],
+    ['Dr. Mark E. Green', 'mark e green'],
+    ['Donald S. Beyer Jr.', 'donald s beyer'],
+    ['Donald S Beyer, Jr.', 'donald s beyer'],
+    ['John Smith III', 'john smith'],
+    ['Ben Ray Luján', 'ben ray lujan'],
+    ["Beto O'Rourke", 'beto orourke'],
+    ['Alexandria Ocasio-Cortez', 'alexandria ocasio-cortez'],
+    ['  Mitch   McConnell  ', 'mitch mcconnell']
+  ])('normalizes %p', (name, expected) => {
+    expect(normalizeMemberName(name)).toBe(expected);
+  });
+
+  it('keeps middle initials, so they need their own alias', () => {
+    expect(normalizeMemberName('Thomas H. Tuberville')).not.toBe(normalizeMemberName('Thomas Tuberville'));
+  });
+
+  it('keeps nicknames distinct from the given name', () => {
+    expect(normalizeMemberName('Tommy Tuberville')).not.toBe(normalizeMemberName('Thomas Tuberville'));
+  });
+});
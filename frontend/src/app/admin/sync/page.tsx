@@ -0,0 +1,286 @@
+'use client'
+
+import React, { useState, useEffect, useCallback } from 'react'
+import { AlertCircle, CheckCircle2, Loader2, RefreshCw, XCircle } from 'lucide-react'
+import Layout from '@/components/layout/Layout'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { ApiError, syncApi } from '@/lib/api'
+import { useAuth } from '@/contexts/AuthContext'
+import { SyncRun } from '@/types/api'
+
+// How often to refresh while a run is in progress
+const POLL_INTERVAL_MS = 5000
+
+function formatDuration(ms?: number) {
+  if (ms === undefined) return '—'
+  const seconds = Math.round(ms / 1000)
+  return seconds < 60 ? `${seconds}s` : `${Math.floor(seconds / 60)}m ${seconds % 60}s`
+}
+
+function StatusBadge({ status }: { status: SyncRun['status'] }) {
+  if (status === 'running') {
+    return (
+      <Badge variant="secondary" className="gap-1">
+        <Loader2 className="h-3 w-3 animate-spin" />
+        Running
+      </Badge>
+    )
+  }
+  if (status === 'failed') {
+    return (
+      <Badge variant="destructive" className="gap-1">
+        <XCircle className="h-3 w-3" />
+        Failed
+      </Badge>
+    )
+  }
+  return (
+    <Badge variant="outline" className="gap-1 text-green-600">
+      <CheckCircle2 className="h-3 w-3" />
+      Succeeded
+    </Badge>
+  )
+}
+
+export default function SyncRunsPage() {
+  const { user } = useAuth()
+  const isAdmin = user?.role === 'admin'
+  const [runs, setRuns] = useState<SyncRun[]>([])
+  const [total, setTotal] = useState(0)
+  const [selectedRun, setSelectedRun] = useState<SyncRun | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [starting, setStarting] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const fetchRuns = useCallback(async () => {
+    try {
+      const result = await syncApi.getRuns({ limit: 50 })
+      setRuns(result.runs)
+      setTotal(result.total)
+      setError(null)
+    } catch (err) {
+      console.error('Error fetching sync runs:', err)
+      setError(err instanceof ApiError && err.status === 403
+        ? 'Sync history is only available to analysts and administrators'
+        : 'Failed to load sync runs')
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    fetchRuns()
+  }, [fetchRuns])
+
+  // Poll for live progress while any run is still going
+  const hasRunningRun = runs.some(run => run.status === 'running')
+  useEffect(() => {
+    if (!hasRunningRun) return
+    const interval = setInterval(fetchRuns, POLL_INTERVAL_MS)
+    return () => clearInterval(interval)
+  }, [hasRunningRun, fetchRuns])
+
+  // Keep the detail panel in step with the list
+  useEffect(() => {
+    if (selectedRun) {
+      const updated = runs.find(run => run.id === selectedRun.id)
+      if (updated && updated !== selectedRun) setSelectedRun(updated)
+    }
+  }, [runs, selectedRun])
+
+  const handleSyncNow = async () => {
+    try {
+      setStarting(true)
+      await syncApi.syncNow()
+      await fetchRuns()
+    } catch (err) {
+      console.error('Error starting sync:', err)
+      setError('Failed to start a sync')
+    } finally {
+      setStarting(false)
+    }
+  }
+
+  if (loading) {
+    return (
+      <Layout>
+        <div className="flex items-center justify-center min-h-96">
+          <div className="text-center">
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600 mx-auto mb-4"></div>
+            <p className="text-gray-600">Loading sync runs...</p>
+          </div>
+        </div>
+      </Layout>
+    )
+  }
+
+  return (
+    <Layout>
+      <div className="space-y-6">
+        <div className="flex items-center justify-between">
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900">Data Sync</h1>
+            <p className="text-gray-600">{total} recorded sync runs</p>
+          </div>
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={fetchRuns}>
+              <RefreshCw className="h-4 w-4 mr-2" />
+              Refresh
+            </Button>
+            {isAdmin && (
+              <Button onClick={handleSyncNow} disabled={starting || hasRunningRun}>
+                {starting ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : null}
+                Sync Now
+              </Button>
+            )}
+          </div>
+        </div>
+
+        {error && (
+          <Card>
+            <CardContent className="flex items-center gap-2 py-4 text-red-600">
+              <AlertCircle className="h-5 w-5" />
+              {error}
+            </CardContent>
+          </Card>
+        )}
+
+        {runs.filter(run => run.status === 'running').map(run => (
+          <Card key={run.id}>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2 capitalize">
+                {run.runType} sync in progress
+                <StatusBadge status={run.status} />
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              {run.progress ? (
+                <>
+                  <div className="flex justify-between text-sm text-gray-600 mb-2">
+                    <span className="capitalize">{run.progress.type} trades</span>
+                    <span>{run.progress.current.toLocaleString()} / {run.progress.total.toLocaleString()}</span>
+                  </div>
+                  <div className="h-2 w-full rounded-full bg-gray-200">
+                    <div
+                      className="h-2 rounded-full bg-blue-600 transition-all"
+                      style={{ width: `${run.progress.total > 0 ? (run.progress.current / run.progress.total) * 100 : 0}%` }}
+                    />
+                  </div>
+                </>
+              ) : (
+                <p className="text-sm text-gray-600">Fetching trades...</p>
+              )}
+              <p className="text-xs text-gray-500 mt-2">
+                Started {new Date(run.startedAt).toLocaleString()}
+              </p>
+            </CardContent>
+          </Card>
+        ))}
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Run History</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {runs.length === 0 ? (
+              <p className="text-gray-600">No sync runs recorded yet.</p>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="border-b text-left text-gray-600">
+                      <th className="py-2 pr-4 font-medium">Started</th>
+                      <th className="py-2 pr-4 font-medium">Type</th>
+                      <th className="py-2 pr-4 font-medium">Status</th>
+                      <th className="py-2 pr-4 font-medium text-right">Created</th>
+                      <th className="py-2 pr-4 font-medium text-right">Updated</th>
+                      <th className="py-2 pr-4 font-medium text-right">Skipped</th>
+                      <th className="py-2 pr-4 font-medium text-right">Errors</th>
+                      <th className="py-2 pr-4 font-medium text-right">FMP Calls</th>
+                      <th className="py-2 font-medium text-right">Duration</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {runs.map(run => (
+                      <tr
+                        key={run.id}
+                        className="border-b last:border-0 cursor-pointer hover:bg-gray-50"
+                        onClick={() => setSelectedRun(run)}
+                      >
+                        <td className="py-2 pr-4 whitespace-nowrap">{new Date(run.startedAt).toLocaleString()}</td>
+                        <td className="py-2 pr-4">
+                          <span className="capitalize">{run.runType}</span>
+                          <span className="text-gray-500"> · {run.trigger}</span>
+                        </td>
+                        <td className="py-2 pr-4"><StatusBadge status={run.status} /></td>
+                        <td className="py-2 pr-4 text-right">{run.createdCount.toLocaleString()}</td>
+                        <td className="py-2 pr-4 text-right">{run.updatedCount.toLocaleString()}</td>
+                        <td className="py-2 pr-4 text-right">{run.skippedCount.toLocaleString()}</td>
+                        <td className={`py-2 pr-4 text-right ${run.errorCount > 0 ? 'text-red-600' : ''}`}>
+                          {run.errorCount.toLocaleString()}
+                        </td>
+                        <td className="py-2 pr-4 text-right">{run.fmpRequests?.toLocaleString() ?? '—'}</td>
+                        <td className="py-2 text-right">{formatDuration(run.durationMs)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        {selectedRun && (
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2 capitalize">
+                {selectedRun.runType} sync
+                <StatusBadge status={selectedRun.status} />
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4 text-sm">
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                <div>
+                  <p className="text-gray-600">Source</p>
+                  <p className="font-medium">{selectedRun.dataSource || 'Unknown'}</p>
+                </div>
+                <div>
+                  <p className="text-gray-600">Processed</p>
+                  <p className="font-medium">{selectedRun.processedCount.toLocaleString()}</p>
+                </div>
+                <div>
+                  <p className="text-gray-600">Finished</p>
+                  <p className="font-medium">
+                    {selectedRun.finishedAt ? new Date(selectedRun.finishedAt).toLocaleString() : '—'}
+                  </p>
+                </div>
+                <div>
+                  <p className="text-gray-600">FMP usage today</p>
+                  <p className="font-medium">
+                    {selectedRun.fmpRateLimit
+                      ? `${selectedRun.fmpRateLimit.day.used.toLocaleString()} / ${selectedRun.fmpRateLimit.day.limit.toLocaleString()}`
+                      : '—'}
+                  </p>
+                </div>
+              </div>
+              {selectedRun.errors.length > 0 && (
+                <div>
+                  <p className="text-gray-600 mb-1">
+                    Errors{selectedRun.errorCount > selectedRun.errors.length ? ` (first ${selectedRun.errors.length} of ${selectedRun.errorCount})` : ''}
+                  </p>
+                  <ul className="list-disc pl-5 space-y-1 text-red-600">
+                    {selectedRun.errors.map((message, index) => (
+                      <li key={index}>{message}</li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </Layout>
+  )
+}
@@ -3,10 +3,11 @@
 import { useState } from 'react';
 import { useRouter, useSearchParams } from 'next/navigation';
 import Link from 'next/link';
+import { getSession } from 'next-auth/react';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import * as z from 'zod';
-import { useAuth } from '@/contexts/AuthContext';
+import { useAuth, TwoFactorRequiredError } from '@/contexts/AuthContext';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
@@ -30,6 +31,10 @@ export default function LoginPage() {
   const searchParams = useSearchParams();
   const { login, isLoading } = useAuth();
   const [loginError, setLoginError] = useState<string>('');
+  // Second step for accounts with two-factor authentication
+  const [needsTwoFactorCode, setNeedsTwoFactorCode] = useState(false);
+  const [twoFactorCode, setTwoFactorCode] = useState('');
+  const [twoFactorMessage, setTwoFactorMessage] = useState<string>('');
 
   const form = useForm<LoginFormValues>({
     resolver: zodResolver(loginSchema),
@@ -42,13 +47,26 @@ export default function LoginPage() {
   const onSubmit = async (data: LoginFormValues) => {
     try {
       setLoginError('');
-      await login(data.email, data.password);
+      await login(data.email, data.password, needsTwoFactorCode ? twoFactorCode : undefined);
+
+      // Admins required to use 2FA set it up before anything else
+      const session = await getSession();
+      if (session?.user.twoFactorSetupRequired) {
+        router.push('/settings/security');
+        return;
+      }
       
       // Redirect to the intended page or dashboard
       const callbackUrl = searchParams.get('callbackUrl') || '/';
       router.push(callbackUrl);
       
     } catch (error) {
+      if (error instanceof TwoFactorRequiredError) {
+        setNeedsTwoFactorCode(true);
+        setTwoFactorCode('');
+        setTwoFactorMessage(error.message);
+        return;
+      }
       setLoginError(error instanceof Error ? error.message : 'Login failed');
     }
   };
@@ -113,6 +131,35 @@ export default function LoginPage() {
                   )}
                 />
 
+                <div className="text-right text-sm">
+                  <Link
+                    href="/forgot-password"
+                    className="text-primary underline-offset-4 hover:underline"
+                  >
+                    Forgot password?
+                  </Link>
+                </div>
+
+                {needsTwoFactorCode && (
+                  <div className="space-y-2">
+                    <label htmlFor="twoFactorCode" className="text-sm font-medium">
+                      Authentication code
+                    </label>
+                    <Input
+                      id="twoFactorCode"
+                      inputMode="numeric"
+                      placeholder="123456"
+                      autoComplete="one-time-code"
+                      value={twoFactorCode}
+                      onChange={(e) => setTwoFactorCode(e.target.value)}
+                      autoFocus
+                    />
+                    <p className={`text-sm ${twoFactorMessage.startsWith('Invalid') ? 'text-red-600' : 'text-muted-foreground'}`}>
+                      {twoFactorMessage}. Lost your device? Enter one of your recovery codes instead.
+                    </p>
+                  </div>
+                )}
+
                 {loginError && (
                   <div className="text-sm text-red-600 text-center">
                     {loginError}
@@ -122,9 +169,9 @@ export default function LoginPage() {
                 <Button
                   type="submit"
                   className="w-full"
-                  disabled={isLoading || form.formState.isSubmitting}
+                  disabled={isLoading || form.formState.isSubmitting || (needsTwoFactorCode && !twoFactorCode.trim())}
                 >
-                  {isLoading || form.formState.isSubmitting ? 'Signing in...' : 'Sign In'}
+                  {isLoading || form.formState.isSubmitting ? 'Signing in...' : needsTwoFactorCode ? 'Verify' : 'Sign In'}
                 </Button>
               </form>
             </Form>
@@ -3,14 +3,14 @@
 import React, { useState, useEffect } from 'react'
 import Link from 'next/link'
 import { useParams, useRouter } from 'next/navigation'
-import { ArrowLeft, MapPin, Calendar, Users, TrendingUp, TrendingDown, ExternalLink, AlertCircle, Eye } from 'lucide-react'
+import { ArrowLeft, MapPin, Calendar, Users, TrendingUp, TrendingDown, ExternalLink, AlertCircle, Eye, Clock } from 'lucide-react'
 import Layout from '@/components/layout/Layout'
 import { TradeFeed } from '@/components/trades/TradeFeed'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
 import { Badge } from '@/components/ui/badge'
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
-import { CongressionalMember, StockTrade, StockTicker, PortfolioHolding } from '@/types/api'
+import { CongressionalMember, StockTrade, StockTicker, PortfolioHolding, MemberFilingStats } from '@/types/api'
 
 // API response interface
 interface PortfolioHoldingResponse {
@@ -38,6 +38,7 @@ export default function PoliticianDetailPage() {
   const [politician, setPolitician] = useState<CongressionalMember | null>(null)
   const [trades, setTrades] = useState<StockTrade[]>([])
   const [portfolio, setPortfolio] = useState<PortfolioHolding[]>([])
+  const [filingStats, setFilingStats] = useState<MemberFilingStats | null>(null)
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
   const [isFollowing, setIsFollowing] = useState(false)
@@ -106,6 +107,22 @@ export default function PoliticianDetailPage() {
           // Portfolio is optional, don't fail the whole page
         }
 
+        // Fetch disclosure lag statistics
+        try {
+          const filingResponse = await fetch(
+            `http://localhost:3001/api/v1/members/${politicianId}/filing-stats`
+          )
+
+          if (filingResponse.ok) {
+            const filingData = await filingResponse.json()
+            if (filingData.success && filingData.data) {
+              setFilingStats(filingData.data)
+            }
+          }
+        } catch (filingErr) {
+          console.error('Error fetching filing stats:', filingErr)
+        }
+
         // Mock follow/alert status for now (these would come from user auth/preferences)
         setIsFollowing(false)
         setHasAlerts(false)
@@ -517,6 +534,57 @@ export default function PoliticianDetailPage() {
           </TabsContent>
 
           <TabsContent value="analytics" className="space-y-4">
+            {filingStats && filingStats.filedTrades > 0 && (
+              <Card>
+                <CardHeader className="flex flex-row items-center justify-between space-y-0">
+                  <CardTitle>Disclosure Timeliness</CardTitle>
+                  <Clock className="h-4 w-4 text-muted-foreground" />
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                    <div>
+                      <div className="text-2xl font-bold">
+                        {filingStats.medianLagDays !== null ? Math.round(filingStats.medianLagDays) : 'N/A'}
+                      </div>
+                      <p className="text-xs text-muted-foreground">Median days to disclose</p>
+                    </div>
+                    <div>
+                      <div className="text-2xl font-bold">
+                        {filingStats.avgLagDays !== null ? filingStats.avgLagDays.toFixed(1) : 'N/A'}
+                      </div>
+                      <p className="text-xs text-muted-foreground">Average days to disclose</p>
+                    </div>
+                    <div>
+                      <div className="text-2xl font-bold">{filingStats.maxLagDays ?? 'N/A'}</div>
+                      <p className="text-xs text-muted-foreground">Longest delay (days)</p>
+                    </div>
+                    <div>
+                      <div className={`text-2xl font-bold ${filingStats.lateFilings > 0 ? 'text-red-600' : ''}`}>
+                        {filingStats.lateFilings}
+                      </div>
+                      <p className="text-xs text-muted-foreground">
+                        Late filings ({(filingStats.lateFilingRate * 100).toFixed(1)}% of {filingStats.filedTrades})
+                      </p>
+                    </div>
+                  </div>
+                  <p className="text-sm text-muted-foreground">
+                    The STOCK Act requires trades to be disclosed within {filingStats.filingWindowDays} days.
+                    {filingStats.latestLateFiling && (
+                      <>
+                        {' '}Most recent late filing: {filingStats.latestLateFiling.tickerSymbol}, disclosed{' '}
+                        {filingStats.latestLateFiling.lagDays} days after the trade on{' '}
+                        {new Date(filingStats.latestLateFiling.filingDate).toLocaleDateString('en-US', {
+                          month: 'short',
+                          day: 'numeric',
+                          year: 'numeric'
+                        })}.
+                      </>
+                    )}
+                  </p>
+                </CardContent>
+              </Card>
+            )}
+
             <Card>
               <CardHeader>
                 <CardTitle>Portfolio Analytics</CardTitle>
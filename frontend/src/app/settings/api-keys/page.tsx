@@ -0,0 +1,215 @@
+'use client'
+
+import React, { useState, useEffect, useCallback } from 'react'
+import { AlertCircle, Copy, KeyRound, Loader2 } from 'lucide-react'
+import Layout from '@/components/layout/Layout'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Input } from '@/components/ui/input'
+import { apiKeysApi } from '@/lib/api'
+import { ApiKey, ApiKeyScope } from '@/types/api'
+
+const SCOPES: { value: ApiKeyScope; label: string }[] = [
+  { value: 'read:trades', label: 'Read trades' },
+  { value: 'read:analytics', label: 'Read analytics' },
+  { value: 'manage:alerts', label: 'Manage alerts' },
+]
+
+export default function ApiKeysPage() {
+  const [apiKeys, setApiKeys] = useState<ApiKey[]>([])
+  const [name, setName] = useState('')
+  const [scopes, setScopes] = useState<ApiKeyScope[]>(['read:trades'])
+  const [newKey, setNewKey] = useState<string | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [creating, setCreating] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const fetchApiKeys = useCallback(async () => {
+    try {
+      setApiKeys(await apiKeysApi.getApiKeys())
+      setError(null)
+    } catch (err) {
+      console.error('Error fetching API keys:', err)
+      setError('Failed to load API keys')
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    fetchApiKeys()
+  }, [fetchApiKeys])
+
+  const toggleScope = (scope: ApiKeyScope) => {
+    setScopes(current => current.includes(scope)
+      ? current.filter(s => s !== scope)
+      : [...current, scope])
+  }
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault()
+    try {
+      setCreating(true)
+      const result = await apiKeysApi.createApiKey({ name, scopes })
+      setNewKey(result.key)
+      setName('')
+      await fetchApiKeys()
+    } catch (err) {
+      console.error('Error creating API key:', err)
+      setError(err instanceof Error ? err.message : 'Failed to create API key')
+    } finally {
+      setCreating(false)
+    }
+  }
+
+  const handleRevoke = async (apiKey: ApiKey) => {
+    if (!confirm(`Revoke "${apiKey.name}"? Scripts using it will stop working.`)) return
+    try {
+      await apiKeysApi.revokeApiKey(apiKey.id)
+      await fetchApiKeys()
+    } catch (err) {
+      console.error('Error revoking API key:', err)
+      setError('Failed to revoke API key')
+    }
+  }
+
+  if (loading) {
+    return (
+      <Layout>
+        <div className="flex items-center justify-center min-h-96">
+          <div className="text-center">
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600 mx-auto mb-4"></div>
+            <p className="text-gray-600">Loading API keys...</p>
+          </div>
+        </div>
+      </Layout>
+    )
+  }
+
+  return (
+    <Layout>
+      <div className="space-y-6">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">API Keys</h1>
+          <p className="text-gray-600">
+            Use a key from scripts by sending it as <code>Authorization: Bearer &lt;key&gt;</code> or <code>X-API-Key</code>
+          </p>
+        </div>
+
+        {error && (
+          <Card>
+            <CardContent className="flex items-center gap-2 py-4 text-red-600">
+              <AlertCircle className="h-5 w-5" />
+              {error}
+            </CardContent>
+          </Card>
+        )}
+
+        {newKey && (
+          <Card>
+            <CardHeader>
+              <CardTitle>Your new API key</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-2">
+              <p className="text-sm text-gray-600">Copy it now; it will not be shown again.</p>
+              <div className="flex gap-2">
+                <Input readOnly value={newKey} className="font-mono" />
+                <Button variant="outline" onClick={() => navigator.clipboard.writeText(newKey)}>
+                  <Copy className="h-4 w-4" />
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Create a key</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <form onSubmit={handleCreate} className="space-y-4">
+              <Input
+                placeholder="Key name, e.g. Research scripts"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                maxLength={100}
+                required
+              />
+              <div className="flex flex-wrap gap-4 text-sm">
+                {SCOPES.map(scope => (
+                  <label key={scope.value} className="flex items-center gap-2">
+                    <input
+                      type="checkbox"
+                      checked={scopes.includes(scope.value)}
+                      onChange={() => toggleScope(scope.value)}
+                    />
+                    {scope.label}
+                  </label>
+                ))}
+              </div>
+              <Button type="submit" disabled={creating || !name.trim() || scopes.length === 0}>
+                {creating ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <KeyRound className="h-4 w-4 mr-2" />}
+                Create Key
+              </Button>
+            </form>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Your keys</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {apiKeys.length === 0 ? (
+              <p className="text-gray-600">You have no API keys yet.</p>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="border-b text-left text-gray-600">
+                      <th className="py-2 pr-4 font-medium">Name</th>
+                      <th className="py-2 pr-4 font-medium">Key</th>
+                      <th className="py-2 pr-4 font-medium">Scopes</th>
+                      <th className="py-2 pr-4 font-medium">Created</th>
+                      <th className="py-2 pr-4 font-medium">Last used</th>
+                      <th className="py-2 font-medium"></th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {apiKeys.map(apiKey => (
+                      <tr key={apiKey.id} className={`border-b last:border-0 ${apiKey.revokedAt ? 'text-gray-400' : ''}`}>
+                        <td className="py-2 pr-4">{apiKey.name}</td>
+                        <td className="py-2 pr-4 font-mono">{apiKey.keyPrefix}…</td>
+                        <td className="py-2 pr-4">
+                          <div className="flex flex-wrap gap-1">
+                            {apiKey.scopes.map(scope => (
+                              <Badge key={scope} variant="outline">{scope}</Badge>
+                            ))}
+                          </div>
+                        </td>
+                        <td className="py-2 pr-4 whitespace-nowrap">{new Date(apiKey.createdAt).toLocaleDateString()}</td>
+                        <td className="py-2 pr-4 whitespace-nowrap">
+                          {apiKey.lastUsedAt ? new Date(apiKey.lastUsedAt).toLocaleString() : 'Never'}
+                        </td>
+                        <td className="py-2 text-right">
+                          {apiKey.revokedAt ? (
+                            <Badge variant="secondary">Revoked</Badge>
+                          ) : (
+                            <Button variant="outline" size="sm" onClick={() => handleRevoke(apiKey)}>
+                              Revoke
+                            </Button>
+                          )}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </Layout>
+  )
+}
@@ -0,0 +1,272 @@
+'use client'
+
+import React, { useState, useEffect, useCallback } from 'react'
+import Image from 'next/image'
+import { AlertCircle, Copy, Loader2, ShieldCheck } from 'lucide-react'
+import Layout from '@/components/layout/Layout'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Input } from '@/components/ui/input'
+import { adminApi, twoFactorApi } from '@/lib/api'
+import { useAuth } from '@/contexts/AuthContext'
+import { AppSettings, TwoFactorEnrollment, TwoFactorStatus } from '@/types/api'
+
+function RecoveryCodes({ codes }: { codes: string[] }) {
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Your recovery codes</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <p className="text-sm text-gray-600">
+          Each code signs you in once if you lose your authenticator. Store them somewhere safe; they will not be shown again.
+        </p>
+        <div className="grid grid-cols-2 gap-2 font-mono text-sm">
+          {codes.map(code => <span key={code}>{code}</span>)}
+        </div>
+        <Button variant="outline" onClick={() => navigator.clipboard.writeText(codes.join('\n'))}>
+          <Copy className="h-4 w-4 mr-2" />
+          Copy Codes
+        </Button>
+      </CardContent>
+    </Card>
+  )
+}
+
+export default function SecurityPage() {
+  const { user } = useAuth()
+  const isAdmin = user?.role === 'admin'
+  const [status, setStatus] = useState<TwoFactorStatus | null>(null)
+  const [settings, setSettings] = useState<AppSettings | null>(null)
+  const [enrollment, setEnrollment] = useState<TwoFactorEnrollment | null>(null)
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null)
+  const [code, setCode] = useState('')
+  const [password, setPassword] = useState('')
+  const [loading, setLoading] = useState(true)
+  const [working, setWorking] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const fetchStatus = useCallback(async () => {
+    try {
+      setStatus(await twoFactorApi.getStatus())
+      setError(null)
+    } catch (err) {
+      console.error('Error fetching 2FA status:', err)
+      setError('Failed to load two-factor authentication status')
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    fetchStatus()
+  }, [fetchStatus])
+
+  useEffect(() => {
+    if (!isAdmin) return
+    adminApi.getSettings()
+      .then(setSettings)
+      .catch(err => console.error('Error fetching admin settings:', err))
+  }, [isAdmin])
+
+  // Runs an action with the shared busy and error state
+  const run = async (action: () => Promise<void>, failure: string) => {
+    try {
+      setWorking(true)
+      setError(null)
+      await action()
+    } catch (err) {
+      console.error(failure, err)
+      setError(err instanceof Error ? err.message : failure)
+    } finally {
+      setWorking(false)
+    }
+  }
+
+  const handleStartSetup = () => run(async () => {
+    setRecoveryCodes(null)
+    setEnrollment(await twoFactorApi.startSetup())
+  }, 'Failed to start two-factor setup')
+
+  const handleEnable = (e: React.FormEvent) => {
+    e.preventDefault()
+    return run(async () => {
+      const result = await twoFactorApi.enable(code.trim())
+      setRecoveryCodes(result.recoveryCodes)
+      setEnrollment(null)
+      setCode('')
+      await fetchStatus()
+    }, 'Failed to enable two-factor authentication')
+  }
+
+  const handleRegenerate = () => run(async () => {
+    const result = await twoFactorApi.regenerateRecoveryCodes(code.trim())
+    setRecoveryCodes(result.recoveryCodes)
+    setCode('')
+    await fetchStatus()
+  }, 'Failed to generate recovery codes')
+
+  const handleDisable = () => {
+    if (!confirm('Turn off two-factor authentication? Your password alone will protect your account.')) return
+    return run(async () => {
+      await twoFactorApi.disable(password, code.trim())
+      setRecoveryCodes(null)
+      setPassword('')
+      setCode('')
+      await fetchStatus()
+    }, 'Failed to disable two-factor authentication')
+  }
+
+  const handleRequireForAdmins = (requireAdminTwoFactor: boolean) => run(async () => {
+    setSettings(await adminApi.updateSettings({ requireAdminTwoFactor }))
+  }, 'Failed to update admin settings')
+
+  if (loading) {
+    return (
+      <Layout>
+        <div className="flex items-center justify-center min-h-96">
+          <div className="text-center">
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600 mx-auto mb-4"></div>
+            <p className="text-gray-600">Loading security settings...</p>
+          </div>
+        </div>
+      </Layout>
+    )
+  }
+
+  return (
+    <Layout>
+      <div className="space-y-6">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">Security</h1>
+          <p className="text-gray-600">Protect your account with an authenticator app</p>
+        </div>
+
+        {error && (
+          <Card>
+            <CardContent className="flex items-center gap-2 py-4 text-red-600">
+              <AlertCircle className="h-5 w-5" />
+              {error}
+            </CardContent>
+          </Card>
+        )}
+
+        {status?.required && !status.enabled && (
+          <Card>
+            <CardContent className="flex items-center gap-2 py-4 text-amber-700">
+              <AlertCircle className="h-5 w-5" />
+              Administrators must turn on two-factor authentication before using admin features.
+            </CardContent>
+          </Card>
+        )}
+
+        {recoveryCodes && <RecoveryCodes codes={recoveryCodes} />}
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              Two-factor authentication
+              {status?.enabled
+                ? <Badge variant="secondary">On</Badge>
+                : <Badge variant="outline">Off</Badge>}
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {status?.enabled ? (
+              <>
+                <p className="text-sm text-gray-600">
+                  On since {status.enabledAt ? new Date(status.enabledAt).toLocaleDateString() : 'setup'}.{' '}
+                  {status.recoveryCodesRemaining} recovery codes left.
+                </p>
+                <div className="space-y-2 max-w-sm">
+                  <Input
+                    placeholder="Authenticator or recovery code"
+                    autoComplete="one-time-code"
+                    value={code}
+                    onChange={(e) => setCode(e.target.value)}
+                  />
+                  {!status.required && (
+                    <Input
+                      type="password"
+                      placeholder="Password (to turn off)"
+                      autoComplete="current-password"
+                      value={password}
+                      onChange={(e) => setPassword(e.target.value)}
+                    />
+                  )}
+                </div>
+                <div className="flex flex-wrap gap-2">
+                  <Button variant="outline" onClick={handleRegenerate} disabled={working || !code.trim()}>
+                    New Recovery Codes
+                  </Button>
+                  {!status.required && (
+                    <Button variant="outline" onClick={handleDisable} disabled={working || !code.trim() || !password}>
+                      Turn Off
+                    </Button>
+                  )}
+                </div>
+                {status.required && (
+                  <p className="text-xs text-gray-500">Two-factor authentication is required for administrators, so it can&apos;t be turned off.</p>
+                )}
+              </>
+            ) : enrollment ? (
+              <form onSubmit={handleEnable} className="space-y-4">
+                <p className="text-sm text-gray-600">
+                  Scan this QR code with an authenticator app, then enter the 6-digit code it shows.
+                </p>
+                <Image src={enrollment.qrCode} alt="QR code for your authenticator app" width={200} height={200} unoptimized />
+                <p className="text-sm text-gray-600">
+                  Can&apos;t scan it? Enter this key instead: <code className="font-mono">{enrollment.secret}</code>
+                </p>
+                <div className="flex gap-2 max-w-sm">
+                  <Input
+                    inputMode="numeric"
+                    placeholder="123456"
+                    autoComplete="one-time-code"
+                    value={code}
+                    onChange={(e) => setCode(e.target.value)}
+                    required
+                  />
+                  <Button type="submit" disabled={working || !code.trim()}>
+                    {working ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <ShieldCheck className="h-4 w-4 mr-2" />}
+                    Turn On
+                  </Button>
+                </div>
+              </form>
+            ) : (
+              <>
+                <p className="text-sm text-gray-600">
+                  After your password, you&apos;ll also enter a code from an app such as Google Authenticator or 1Password when you sign in.
+                </p>
+                <Button onClick={handleStartSetup} disabled={working}>
+                  <ShieldCheck className="h-4 w-4 mr-2" />
+                  Set Up
+                </Button>
+              </>
+            )}
+          </CardContent>
+        </Card>
+
+        {isAdmin && settings && (
+          <Card>
+            <CardHeader>
+              <CardTitle>Admin policy</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <label className="flex items-center gap-2 text-sm">
+                <input
+                  type="checkbox"
+                  checked={settings.requireAdminTwoFactor}
+                  onChange={(e) => handleRequireForAdmins(e.target.checked)}
+                  disabled={working}
+                />
+                Require two-factor authentication for all administrators
+              </label>
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </Layout>
+  )
+}
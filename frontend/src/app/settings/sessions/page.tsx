@@ -0,0 +1,151 @@
+'use client'
+
+import React, { useState, useEffect, useCallback } from 'react'
+import { AlertCircle, LogOut, Monitor } from 'lucide-react'
+import Layout from '@/components/layout/Layout'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { authApi } from '@/lib/api'
+import { useAuth } from '@/contexts/AuthContext'
+import { UserSession } from '@/types/api'
+
+// A readable "Browser on OS" label from a user agent string
+function describeDevice(userAgent?: string) {
+  if (!userAgent) return 'Unknown device'
+  const browser = /Edg\//.test(userAgent) ? 'Edge'
+    : /Chrome\//.test(userAgent) ? 'Chrome'
+    : /Firefox\//.test(userAgent) ? 'Firefox'
+    : /Safari\//.test(userAgent) ? 'Safari'
+    : userAgent.split(/[/ ]/)[0]
+  const os = /Windows/.test(userAgent) ? 'Windows'
+    : /iPhone|iPad/.test(userAgent) ? 'iOS'
+    : /Mac OS X/.test(userAgent) ? 'macOS'
+    : /Android/.test(userAgent) ? 'Android'
+    : /Linux/.test(userAgent) ? 'Linux'
+    : undefined
+  return os ? `${browser} on ${os}` : browser
+}
+
+export default function SessionsPage() {
+  const { logout } = useAuth()
+  const [sessions, setSessions] = useState<UserSession[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  const fetchSessions = useCallback(async () => {
+    try {
+      setSessions(await authApi.getSessions())
+      setError(null)
+    } catch (err) {
+      console.error('Error fetching sessions:', err)
+      setError('Failed to load sessions')
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    fetchSessions()
+  }, [fetchSessions])
+
+  const handleRevoke = async (session: UserSession) => {
+    if (session.current) {
+      await logout()
+      return
+    }
+    try {
+      await authApi.revokeSession(session.id)
+      await fetchSessions()
+    } catch (err) {
+      console.error('Error revoking session:', err)
+      setError('Failed to revoke session')
+    }
+  }
+
+  const handleRevokeAll = async () => {
+    if (!confirm('Log out of every session, including this one?')) return
+    try {
+      await authApi.revokeAllSessions()
+      await logout()
+    } catch (err) {
+      console.error('Error revoking sessions:', err)
+      setError('Failed to log out everywhere')
+    }
+  }
+
+  if (loading) {
+    return (
+      <Layout>
+        <div className="flex items-center justify-center min-h-96">
+          <div className="text-center">
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600 mx-auto mb-4"></div>
+            <p className="text-gray-600">Loading sessions...</p>
+          </div>
+        </div>
+      </Layout>
+    )
+  }
+
+  return (
+    <Layout>
+      <div className="space-y-6">
+        <div className="flex items-center justify-between">
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900">Sessions</h1>
+            <p className="text-gray-600">Devices that are logged in to your account</p>
+          </div>
+          <Button variant="outline" onClick={handleRevokeAll}>
+            <LogOut className="h-4 w-4 mr-2" />
+            Log Out Everywhere
+          </Button>
+        </div>
+
+        {error && (
+          <Card>
+            <CardContent className="flex items-center gap-2 py-4 text-red-600">
+              <AlertCircle className="h-5 w-5" />
+              {error}
+            </CardContent>
+          </Card>
+        )}
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Active sessions</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {sessions.length === 0 ? (
+              <p className="text-gray-600">No active sessions.</p>
+            ) : (
+              <ul className="divide-y">
+                {sessions.map(session => (
+                  <li key={session.id} className="flex items-center justify-between gap-4 py-3">
+                    <div className="flex items-center gap-3">
+                      <Monitor className="h-5 w-5 text-gray-500" />
+                      <div>
+                        <p className="font-medium flex items-center gap-2">
+                          {describeDevice(session.userAgent)}
+                          {session.current && <Badge variant="secondary">This device</Badge>}
+                        </p>
+                        <p className="text-sm text-gray-600">
+                          {session.ipAddress || 'Unknown IP'} · Last seen {new Date(session.lastSeenAt).toLocaleString()}
+                        </p>
+                        <p className="text-xs text-gray-500">
+                          Signed in {new Date(session.createdAt).toLocaleString()}
+                        </p>
+                      </div>
+                    </div>
+                    <Button variant="outline" size="sm" onClick={() => handleRevoke(session)}>
+                      {session.current ? 'Log Out' : 'Revoke'}
+                    </Button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </Layout>
+  )
+}
@@ -18,7 +18,7 @@ import {
   BreadcrumbPage,
   BreadcrumbSeparator,
 } from '@/components/ui/breadcrumb'
-import { StockTicker, StockTrade, CongressionalMember } from '@/types/api'
+import { StockTicker, StockTrade, CongressionalMember, InsiderActivity } from '@/types/api'
 
 export default function StockDetailPage() {
   const params = useParams()
@@ -28,6 +28,7 @@ export default function StockDetailPage() {
   const [stock, setStock] = useState<StockTicker | null>(null)
   const [trades, setTrades] = useState<StockTrade[]>([])
   const [totalTrades, setTotalTrades] = useState<number>(0)
+  const [insiderActivity, setInsiderActivity] = useState<InsiderActivity | null>(null)
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
   const [hasAlerts, setHasAlerts] = useState(false)
@@ -71,6 +72,22 @@ export default function StockDetailPage() {
           setTotalTrades(tradesData.data.total || tradesData.data.trades?.length || 0)
         }
 
+        // Fetch Form 4 insider filings for the past year
+        try {
+          const insiderResponse = await fetch(
+            `http://localhost:3001/api/v1/stocks/${symbol}/insiders?days=365`
+          )
+
+          if (insiderResponse.ok) {
+            const insiderData = await insiderResponse.json()
+            if (insiderData.success && insiderData.data) {
+              setInsiderActivity(insiderData.data)
+            }
+          }
+        } catch (insiderErr) {
+          console.error('Error fetching insider filings:', insiderErr)
+        }
+
         // Mock alert status for now (this would come from user auth/preferences)
         setHasAlerts(false)
       } catch (err) {
@@ -343,8 +360,9 @@ export default function StockDetailPage() {
 
         {/* Main Content Tabs */}
         <Tabs defaultValue="trades" className="w-full">
-          <TabsList className="grid w-full grid-cols-1 sm:grid-cols-2">
+          <TabsList className="grid w-full grid-cols-1 sm:grid-cols-3">
             <TabsTrigger value="trades">Congressional Trades</TabsTrigger>
+            <TabsTrigger value="insiders">Insider Filings</TabsTrigger>
             <TabsTrigger value="analytics">Analytics</TabsTrigger>
           </TabsList>
 
@@ -379,6 +397,119 @@ export default function StockDetailPage() {
             </Card>
           </TabsContent>
 
+          <TabsContent value="insiders" className="space-y-4">
+            <Card>
+              <CardHeader className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+                <div>
+                  <CardTitle>Corporate Insider Filings</CardTitle>
+                  <p className="text-sm text-gray-600 mt-1">
+                    SEC Form 4 transactions over the past year. Only open-market purchases and sales count as insider buying or selling.
+                  </p>
+                </div>
+                {insiderActivity && (
+                  <Badge
+                    variant={insiderActivity.summary.signal === 'neutral' ? 'outline' : 'default'}
+                    className={
+                      insiderActivity.summary.signal === 'buying'
+                        ? 'bg-green-600'
+                        : insiderActivity.summary.signal === 'selling'
+                          ? 'bg-red-600'
+                          : ''
+                    }
+                  >
+                    {insiderActivity.summary.signal === 'buying'
+                      ? 'Insider buying'
+                      : insiderActivity.summary.signal === 'selling'
+                        ? 'Insider selling'
+                        : 'No clear signal'}
+                  </Badge>
+                )}
+              </CardHeader>
+              <CardContent>
+                {!insiderActivity || insiderActivity.transactions.length === 0 ? (
+                  <div className="text-center py-12">
+                    <Building2 className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+                    <p className="text-gray-600">No insider filings for {symbol} in the past year.</p>
+                  </div>
+                ) : (
+                  <div className="space-y-4">
+                    <div className="flex flex-wrap gap-x-6 gap-y-1 text-sm text-gray-600">
+                      <span>
+                        {insiderActivity.summary.purchases} open-market purchases
+                        (${insiderActivity.summary.purchaseValue.toLocaleString()}, {insiderActivity.summary.buyers} insiders)
+                      </span>
+                      <span>
+                        {insiderActivity.summary.sales} open-market sales
+                        (${insiderActivity.summary.saleValue.toLocaleString()}, {insiderActivity.summary.sellers} insiders)
+                      </span>
+                      <span>{insiderActivity.summary.otherTransactions} other transactions</span>
+                    </div>
+                    <div className="overflow-x-auto">
+                      <table className="w-full text-sm">
+                        <thead>
+                          <tr className="border-b text-left text-gray-600">
+                            <th className="py-2 pr-4 font-medium">Date</th>
+                            <th className="py-2 pr-4 font-medium">Insider</th>
+                            <th className="py-2 pr-4 font-medium">Transaction</th>
+                            <th className="py-2 pr-4 font-medium text-right">Shares</th>
+                            <th className="py-2 pr-4 font-medium text-right">Price</th>
+                            <th className="py-2 pr-4 font-medium text-right">Value</th>
+                            <th className="py-2 font-medium">Filing</th>
+                          </tr>
+                        </thead>
+                        <tbody>
+                          {insiderActivity.transactions.map((transaction) => (
+                            <tr key={transaction.tradeId} className="border-b last:border-0">
+                              <td className="py-2 pr-4 whitespace-nowrap">
+                                {new Date(transaction.transactionDate).toLocaleDateString()}
+                              </td>
+                              <td className="py-2 pr-4">{transaction.insiderName}</td>
+                              <td className="py-2 pr-4">
+                                <div className="flex items-center gap-2">
+                                  {transaction.transactionCode === 'P' && <TrendingUp className="h-4 w-4 text-green-600" />}
+                                  {transaction.transactionCode === 'S' && <TrendingDown className="h-4 w-4 text-red-600" />}
+                                  <span>{transaction.label}</span>
+                                  {!transaction.openMarket && (
+                                    <Badge variant="outline" className="text-xs">
+                                      {transaction.transactionCode}
+                                    </Badge>
+                                  )}
+                                </div>
+                              </td>
+                              <td className="py-2 pr-4 text-right">
+                                {transaction.shares !== undefined ? transaction.shares.toLocaleString() : '—'}
+                              </td>
+                              <td className="py-2 pr-4 text-right">
+                                {transaction.pricePerShare !== undefined ? `$${transaction.pricePerShare.toFixed(2)}` : '—'}
+                              </td>
+                              <td className="py-2 pr-4 text-right">
+                                {transaction.value !== undefined ? `$${transaction.value.toLocaleString()}` : '—'}
+                              </td>
+                              <td className="py-2">
+                                {transaction.filingUrl ? (
+                                  <a
+                                    href={transaction.filingUrl}
+                                    target="_blank"
+                                    rel="noopener noreferrer"
+                                    className="inline-flex items-center text-blue-600 hover:underline"
+                                  >
+                                    <ExternalLink className="h-4 w-4" />
+                                  </a>
+                                ) : (
+                                  '—'
+                                )}
+                              </td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    </div>
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          </TabsContent>
+
           <TabsContent value="analytics" className="space-y-4">
             <Card>
               <CardHeader>
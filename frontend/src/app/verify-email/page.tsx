@@ -0,0 +1,111 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { useSearchParams } from 'next/navigation';
+import Link from 'next/link';
+import { CheckCircle2, Loader2, XCircle } from 'lucide-react';
+import { authApi } from '@/lib/api';
+import { useAuth } from '@/contexts/AuthContext';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+
+type VerifyStatus = 'verifying' | 'verified' | 'failed';
+
+export default function VerifyEmailPage() {
+  const searchParams = useSearchParams();
+  const token = searchParams.get('token');
+  const { isAuthenticated } = useAuth();
+  const [status, setStatus] = useState<VerifyStatus>(token ? 'verifying' : 'failed');
+  const [verifyError, setVerifyError] = useState<string>(token ? '' : 'This verification link is missing its token.');
+  const [resendState, setResendState] = useState<'idle' | 'sending' | 'sent'>('idle');
+  // Tokens are single use, so make sure the request only goes out once
+  const submitted = useRef(false);
+
+  useEffect(() => {
+    if (!token || submitted.current) return;
+    submitted.current = true;
+
+    authApi.verifyEmail(token)
+      .then(() => setStatus('verified'))
+      .catch((error) => {
+        setVerifyError(error instanceof Error ? error.message : 'Verification failed');
+        setStatus('failed');
+      });
+  }, [token]);
+
+  const handleResend = async () => {
+    try {
+      setResendState('sending');
+      await authApi.resendVerificationEmail();
+      setResendState('sent');
+    } catch (error) {
+      setVerifyError(error instanceof Error ? error.message : 'Failed to send verification email');
+      setResendState('idle');
+    }
+  };
+
+  return (
+    <div className="container flex h-screen w-screen flex-col items-center justify-center">
+      <div className="mx-auto flex w-full flex-col justify-center space-y-6 sm:w-[350px]">
+        <Card>
+          <CardHeader className="space-y-1">
+            <CardTitle className="text-2xl text-center">Verify Email</CardTitle>
+            <CardDescription className="text-center">
+              Confirming the address on your account
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4 text-center text-sm">
+            {status === 'verifying' && (
+              <div className="flex flex-col items-center gap-2">
+                <Loader2 className="h-8 w-8 animate-spin text-blue-600" />
+                <p className="text-muted-foreground">Verifying your email address...</p>
+              </div>
+            )}
+
+            {status === 'verified' && (
+              <>
+                <div className="flex flex-col items-center gap-2">
+                  <CheckCircle2 className="h-8 w-8 text-green-600" />
+                  <p>Your email address is verified.</p>
+                </div>
+                <Button asChild className="w-full">
+                  <Link href={isAuthenticated ? '/' : '/login'}>
+                    {isAuthenticated ? 'Go to Dashboard' : 'Sign In'}
+                  </Link>
+                </Button>
+              </>
+            )}
+
+            {status === 'failed' && (
+              <>
+                <div className="flex flex-col items-center gap-2">
+                  <XCircle className="h-8 w-8 text-red-600" />
+                  <p className="text-red-600">{verifyError}</p>
+                </div>
+                {isAuthenticated ? (
+                  <Button
+                    className="w-full"
+                    onClick={handleResend}
+                    disabled={resendState !== 'idle'}
+                  >
+                    {resendState === 'sending' ? 'Sending...' : resendState === 'sent' ? 'Check Your Inbox' : 'Send a New Link'}
+                  </Button>
+                ) : (
+                  <p className="text-muted-foreground">
+                    <Link
+                      href="/login"
+                      className="text-primary underline-offset-4 hover:underline"
+                    >
+                      Sign in
+                    </Link>{' '}
+                    to get a new verification link.
+                  </p>
+                )}
+              </>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -1,5 +1,7 @@
-import NextAuth from 'next-auth';
+import NextAuth, { CredentialsSignin } from 'next-auth';
+import type { JWT } from 'next-auth/jwt';
 import Credentials from 'next-auth/providers/credentials';
+import type { UserRole } from '@/types/api';
 
 declare module 'next-auth' {
   interface Session {
@@ -8,9 +10,12 @@ declare module 'next-auth' {
       email: string;
       name: string;
       subscriptionStatus?: 'active' | 'suspended' | 'cancelled';
+      role?: UserRole;
       lastLoginAt?: string;
+      twoFactorSetupRequired?: boolean;
     };
     accessToken?: string;
+    error?: 'RefreshAccessTokenError';
   }
 
   interface User {
@@ -18,8 +23,59 @@ declare module 'next-auth' {
     email: string;
     name: string;
     subscriptionStatus?: 'active' | 'suspended' | 'cancelled';
+    role?: UserRole;
     lastLoginAt?: string;
     accessToken?: string;
+    refreshToken?: string;
+    expiresIn?: number;
+    twoFactorSetupRequired?: boolean;
+  }
+}
+
+export type TwoFactorSignInCode = 'two_factor_required' | 'two_factor_invalid';
+
+// Lets the login page tell "ask for a code" and "wrong code" apart from bad
+// credentials; the code reaches the client as signIn()'s `code`
+class TwoFactorSignInError extends CredentialsSignin {
+  constructor(code: TwoFactorSignInCode) {
+    super();
+    this.code = code;
+  }
+}
+
+// Renew access tokens this long before they expire
+const REFRESH_MARGIN_MS = 60 * 1000;
+
+// Refresh tokens are single use and reusing one ends the session, so
+// concurrent requests share a single refresh per token
+const refreshesInFlight = new Map<string, Promise<JWT>>();
+
+async function refreshAccessToken(token: JWT): Promise<JWT> {
+  try {
+    const response = await fetch(`${process.env.NEXT_PUBLIC_API_URL}/auth/refresh`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ refreshToken: token.refreshToken }),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Refresh failed with status ${response.status}`);
+    }
+
+    const { data } = await response.json();
+
+    return {
+      ...token,
+      accessToken: data.token,
+      refreshToken: data.refreshToken,
+      accessTokenExpires: Date.now() + data.expiresIn * 1000,
+      error: undefined,
+    };
+  } catch (error) {
+    console.error('Token refresh error:', error);
+    return { ...token, accessToken: undefined, error: 'RefreshAccessTokenError' };
   }
 }
 
@@ -29,6 +85,7 @@ export const { handlers, signIn, signOut, auth } = NextAuth({
       credentials: {
         email: { label: 'Email', type: 'email' },
         password: { label: 'Password', type: 'password' },
+        twoFactorCode: { label: 'Authentication code', type: 'text' },
       },
       async authorize(credentials) {
         if (!credentials?.email || !credentials?.password) {
@@ -44,28 +101,44 @@ export const { handlers, signIn, signOut, auth } = NextAuth({
             body: JSON.stringify({
               email: credentials.email,
               password: credentials.password,
+              twoFactorCode: credentials.twoFactorCode || undefined,
             }),
           });
 
           if (!response.ok) {
+            // Accounts with 2FA: the page asks for a code and signs in again with it
+            const { code } = await response.json().catch(() => ({}));
+            if (code === 'TWO_FACTOR_REQUIRED') {
+              throw new TwoFactorSignInError('two_factor_required');
+            }
+            if (code === 'TWO_FACTOR_INVALID') {
+              throw new TwoFactorSignInError('two_factor_invalid');
+            }
             return null;
           }
 
-          const data = await response.json();
+          const { data } = await response.json();
 
-          if (data.user && data.token) {
+          if (data?.user && data.token) {
             return {
               id: data.user.id,
               email: data.user.email,
               name: data.user.name,
               subscriptionStatus: data.user.subscriptionStatus,
+              role: data.user.role,
               lastLoginAt: data.user.lastLoginAt,
               accessToken: data.token,
+              refreshToken: data.refreshToken,
+              expiresIn: data.expiresIn,
+              twoFactorSetupRequired: data.twoFactorSetupRequired,
             };
           }
 
           return null;
         } catch (error) {
+          if (error instanceof TwoFactorSignInError) {
+            throw error;
+          }
           console.error('Authentication error:', error);
           return null;
         }
@@ -79,10 +152,30 @@ export const { handlers, signIn, signOut, auth } = NextAuth({
         token.email = user.email;
         token.name = user.name;
         token.subscriptionStatus = user.subscriptionStatus;
+        token.role = user.role;
         token.lastLoginAt = user.lastLoginAt;
+        token.twoFactorSetupRequired = user.twoFactorSetupRequired;
         token.accessToken = user.accessToken;
+        token.refreshToken = user.refreshToken;
+        token.accessTokenExpires = Date.now() + (user.expiresIn ?? 0) * 1000;
+        return token;
+      }
+
+      if (!token.refreshToken || token.error) {
+        return token;
+      }
+
+      if (Date.now() < (token.accessTokenExpires as number) - REFRESH_MARGIN_MS) {
+        return token;
+      }
+
+      const refreshToken = token.refreshToken as string;
+      let refresh = refreshesInFlight.get(refreshToken);
+      if (!refresh) {
+        refresh = refreshAccessToken(token).finally(() => refreshesInFlight.delete(refreshToken));
+        refreshesInFlight.set(refreshToken, refresh);
       }
-      return token;
+      return refresh;
     },
     async session({ session, token }) {
       if (token) {
@@ -90,8 +183,11 @@ export const { handlers, signIn, signOut, auth } = NextAuth({
         session.user.email = token.email as string;
         session.user.name = token.name as string;
         session.user.subscriptionStatus = token.subscriptionStatus as 'active' | 'suspended' | 'cancelled' | undefined;
+        session.user.role = token.role as UserRole | undefined;
         session.user.lastLoginAt = token.lastLoginAt as string | undefined;
+        session.user.twoFactorSetupRequired = token.twoFactorSetupRequired as boolean | undefined;
         session.accessToken = token.accessToken as string | undefined;
+        session.error = token.error as 'RefreshAccessTokenError' | undefined;
       }
       return session;
     },
@@ -101,7 +197,7 @@ export const { handlers, signIn, signOut, auth } = NextAuth({
   },
   session: {
     strategy: 'jwt',
-    maxAge: 7 * 24 * 60 * 60,
+    maxAge: 30 * 24 * 60 * 60, // The backend's REFRESH_TOKEN_TTL_DAYS
   },
   secret: process.env.NEXTAUTH_SECRET,
 });
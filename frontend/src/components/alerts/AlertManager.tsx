@@ -44,6 +44,7 @@ interface AlertFormData {
   tickerSymbol?: string
   stockName?: string
   patternConfig?: Record<string, unknown>
+  notifyOnAmendments?: boolean
 }
 
 export function AlertManager({
@@ -174,7 +175,8 @@ export function AlertManager({
         alertType: formData.alertType,
         politicianId: formData.politicianId,
         tickerSymbol: formData.tickerSymbol,
-        patternConfig: formData.patternConfig
+        patternConfig: formData.patternConfig,
+        notifyOnAmendments: formData.notifyOnAmendments
       }
 
       await onCreateAlert(alertRequest)
@@ -410,8 +412,31 @@ export function AlertManager({
                           }))}
                         />
                       </div>
+                      <label className="flex items-center gap-2 text-sm">
+                        <input
+                          type="checkbox"
+                          checked={!!formData.patternConfig?.lateFiling}
+                          onChange={(e) => setFormData(prev => ({
+                            ...prev,
+                            patternConfig: {
+                              ...prev.patternConfig,
+                              lateFiling: e.target.checked || undefined
+                            }
+                          }))}
+                        />
+                        Only trades disclosed after the 45-day STOCK Act window
+                      </label>
                     </div>
                   )}
+
+                  <label className="flex items-center gap-2 text-sm">
+                    <input
+                      type="checkbox"
+                      checked={!!formData.notifyOnAmendments}
+                      onChange={(e) => setFormData(prev => ({ ...prev, notifyOnAmendments: e.target.checked }))}
+                    />
+                    Also notify me when a matching trade is amended or withdrawn
+                  </label>
                 </div>
 
                 <DialogFooter>
@@ -493,6 +518,9 @@ export function AlertManager({
                       <div className="flex items-center gap-2 mb-1">
                         <h3 className="font-medium">{getAlertDescription(alert)}</h3>
                         {getStatusBadge(alert.alertStatus)}
+                        {alert.notifyOnAmendments && (
+                          <Badge variant="outline">Amendments</Badge>
+                        )}
                       </div>
                       
                       <div className="flex items-center gap-4 text-sm text-muted-foreground">
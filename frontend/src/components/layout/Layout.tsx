@@ -1,9 +1,9 @@
 'use client';
 
-import React, { useEffect } from 'react';
+import React, { useCallback, useEffect, useState } from 'react';
 import Link from 'next/link';
 import { useRouter, usePathname } from 'next/navigation';
-import { Building2, Menu, User, LogOut, Settings, Bell } from 'lucide-react';
+import { Building2, Menu, User, LogOut, Settings, Bell, KeyRound, Monitor, ShieldCheck } from 'lucide-react';
 import { useAuth } from '@/contexts/AuthContext';
 import { ThemeToggle } from '@/components/theme/ThemeToggle';
 import { Button } from '@/components/ui/button';
@@ -17,6 +17,8 @@ import {
 } from '@/components/ui/dropdown-menu';
 import { Sheet, SheetContent, SheetTrigger } from '@/components/ui/sheet';
 import { Badge } from '@/components/ui/badge';
+import { useTradeStream } from '@/hooks/useTradeStream';
+import { mutate } from 'swr';
 
 interface LayoutProps {
   children: React.ReactNode;
@@ -90,6 +92,20 @@ function NavigationItems({ mobile = false, onItemClick }: { mobile?: boolean; on
 function UserMenu() {
   const { user, logout, isAuthenticated } = useAuth();
   const router = useRouter();
+  const [newAlertCount, setNewAlertCount] = useState(0);
+
+  // Alert notifications arrive over the live trade stream
+  const handleNotification = useCallback(() => {
+    setNewAlertCount(count => count + 1);
+    mutate(key => Array.isArray(key) && key[0] === '/notifications');
+  }, []);
+
+  useTradeStream({ onNotification: handleNotification, enabled: isAuthenticated });
+
+  const openAlerts = () => {
+    setNewAlertCount(0);
+    router.push('/alerts');
+  };
 
   if (!isAuthenticated) {
     return (
@@ -118,6 +134,9 @@ function UserMenu() {
           <div className="h-8 w-8 rounded-full bg-blue-600 flex items-center justify-center">
             <User className="h-4 w-4 text-white" />
           </div>
+          {newAlertCount > 0 && (
+            <span className="absolute -top-0.5 -right-0.5 h-2.5 w-2.5 rounded-full bg-red-600 ring-2 ring-card" />
+          )}
         </Button>
       </DropdownMenuTrigger>
       <DropdownMenuContent className="w-56" align="end" forceMount>
@@ -138,12 +157,26 @@ function UserMenu() {
           <Settings className="mr-2 h-4 w-4" />
           <span>Settings</span>
         </DropdownMenuItem>
-        <DropdownMenuItem onClick={() => router.push('/alerts')}>
+        <DropdownMenuItem onClick={() => router.push('/settings/api-keys')}>
+          <KeyRound className="mr-2 h-4 w-4" />
+          <span>API Keys</span>
+        </DropdownMenuItem>
+        <DropdownMenuItem onClick={() => router.push('/settings/sessions')}>
+          <Monitor className="mr-2 h-4 w-4" />
+          <span>Sessions</span>
+        </DropdownMenuItem>
+        <DropdownMenuItem onClick={() => router.push('/settings/security')}>
+          <ShieldCheck className="mr-2 h-4 w-4" />
+          <span>Security</span>
+        </DropdownMenuItem>
+        <DropdownMenuItem onClick={openAlerts}>
           <Bell className="mr-2 h-4 w-4" />
           <span>Alerts</span>
-          <Badge variant="secondary" className="ml-auto">
-            3
-          </Badge>
+          {newAlertCount > 0 && (
+            <Badge variant="secondary" className="ml-auto">
+              {newAlertCount > 99 ? '99+' : newAlertCount}
+            </Badge>
+          )}
         </DropdownMenuItem>
         <DropdownMenuSeparator />
         <DropdownMenuItem onClick={logout}>
@@ -7,7 +7,7 @@ import { Button } from '../ui/button'
 import { Badge } from '../ui/badge'
 import { Avatar, AvatarFallback } from '../ui/avatar'
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '../ui/tabs'
-import { cn } from '@/lib/utils'
+import { cn, formatTradeOwner } from '@/lib/utils'
 import { CongressionalMember, StockTrade, PortfolioHolding, UserAlert, UserFollow } from '@/types/api'
 
 interface PoliticianProfileProps {
@@ -388,6 +388,9 @@ export function PoliticianProfile({
                           <Badge variant={trade.transactionType === 'buy' ? 'default' : 'destructive'}>
                             {trade.transactionType.toUpperCase()}
                           </Badge>
+                          {trade.owner && (
+                            <Badge variant="outline">{formatTradeOwner(trade.owner)}</Badge>
+                          )}
                         </div>
                         <div className="text-sm text-muted-foreground">
                           {trade.stock?.companyName || 'Unknown Company'}
@@ -1,6 +1,6 @@
 'use client'
 
-import React, { useState, useEffect, useMemo } from 'react'
+import React, { useState, useEffect, useMemo, useCallback, useRef } from 'react'
 import { Calendar, Filter, TrendingUp, TrendingDown, ExternalLink, ChevronDown, ChevronUp } from 'lucide-react'
 import { Card, CardContent, CardHeader, CardTitle } from '../ui/card'
 import { Button } from '../ui/button'
@@ -14,9 +14,10 @@ import {
   DropdownMenuSeparator,
   DropdownMenuTrigger,
 } from '../ui/dropdown-menu'
-import { cn } from '@/lib/utils'
+import { cn, formatTradeOwner, TRADE_OWNERS, formatAssetClass, formatOptionTerms, ASSET_CLASSES } from '@/lib/utils'
 import { StockTrade, TradeFilters, CongressionalMember, StockTicker, isCongressionalMember } from '@/types/api'
 import { apiClient } from '@/lib/api'
+import { useTradeStream } from '@/hooks/useTradeStream'
 
 // Extended trade type with optional source data
 interface ExtendedStockTrade extends StockTrade {
@@ -92,7 +93,9 @@ export function TradeFeed({
             startDate: filters.startDate,
             endDate: filters.endDate,
             transactionType: filters.transactionType,
-            tickerSymbol: filters.tickerSymbol
+            tickerSymbol: filters.tickerSymbol,
+            owner: filters.owner,
+            assetClass: filters.assetClass
           }
         })
 
@@ -114,7 +117,23 @@ export function TradeFeed({
     }
 
     fetchTrades()
-  }, [propTrades, pageSize, filters.sortField, filters.sortDirection, filters.startDate, filters.endDate, filters.transactionType, filters.tickerSymbol])
+  }, [propTrades, pageSize, filters.sortField, filters.sortDirection, filters.startDate, filters.endDate, filters.transactionType, filters.tickerSymbol, filters.owner, filters.assetClass])
+
+  // Prepend newly ingested trades pushed by the live stream
+  const streamedTradeIds = useRef(new Set<string>())
+  const handleStreamTrade = useCallback((trade: StockTrade) => {
+    // Reconnects may replay events we already have
+    if (streamedTradeIds.current.has(trade.id)) return
+    streamedTradeIds.current.add(trade.id)
+
+    setFetchedTrades(prev => prev.some(existing => existing.id === trade.id) ? prev : [trade, ...prev])
+    setTotalTrades(total => total + 1)
+  }, [])
+
+  const { connected: live } = useTradeStream({
+    onTrade: handleStreamTrade,
+    enabled: !(propTrades && propTrades.length > 0)
+  })
 
   // Mock trades data - only used as fallback if API fetch fails
   const mockTrades: StockTrade[] = [
@@ -213,6 +232,12 @@ export function TradeFeed({
         trade.tickerSymbol.toLowerCase().includes(filters.tickerSymbol!.toLowerCase())
       )
     }
+    if (filters.owner) {
+      filtered = filtered.filter(trade => trade.owner === filters.owner)
+    }
+    if (filters.assetClass) {
+      filtered = filtered.filter(trade => trade.assetClass === filters.assetClass)
+    }
     if (filters.minValue && filters.maxValue) {
       filtered = filtered.filter(trade => {
         const value = trade.estimatedValue || 0
@@ -247,7 +272,7 @@ export function TradeFeed({
     })
 
     return filtered
-  }, [displayTrades, filters.startDate, filters.endDate, filters.transactionType, filters.tickerSymbol, filters.minValue, filters.maxValue, filters.sortField, filters.sortDirection])
+  }, [displayTrades, filters.startDate, filters.endDate, filters.transactionType, filters.tickerSymbol, filters.owner, filters.assetClass, filters.minValue, filters.maxValue, filters.sortField, filters.sortDirection])
 
   const handleFilterChange = (key: keyof FilterState, value: string | number | undefined) => {
     setFilters(prev => ({ ...prev, [key]: value }))
@@ -328,7 +353,15 @@ export function TradeFeed({
         <Card>
           <CardHeader className="pb-3">
             <div className="flex items-center justify-between">
-              <CardTitle className="text-lg">Trading Activity</CardTitle>
+              <div className="flex items-center gap-2">
+                <CardTitle className="text-lg">Trading Activity</CardTitle>
+                {live && (
+                  <Badge variant="outline" className="gap-1 text-green-600">
+                    <span className="h-2 w-2 rounded-full bg-green-600" />
+                    Live
+                  </Badge>
+                )}
+              </div>
               <div className="flex gap-2">
                 <Button
                   variant="outline"
@@ -365,7 +398,7 @@ export function TradeFeed({
           
           {showFiltersPanel && (
             <CardContent className="border-t pt-4">
-              <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 lg:grid-cols-5 gap-4">
+              <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 lg:grid-cols-7 gap-4">
                 <div>
                   <label className="text-sm font-medium mb-1 block">Start Date</label>
                   <Input
@@ -407,6 +440,48 @@ export function TradeFeed({
                     </DropdownMenuContent>
                   </DropdownMenu>
                 </div>
+                <div>
+                  <label className="text-sm font-medium mb-1 block">Owner</label>
+                  <DropdownMenu>
+                    <DropdownMenuTrigger asChild>
+                      <Button variant="outline" className="w-full justify-between">
+                        {filters.owner ? formatTradeOwner(filters.owner) : 'All Owners'}
+                        <ChevronDown className="h-4 w-4" />
+                      </Button>
+                    </DropdownMenuTrigger>
+                    <DropdownMenuContent>
+                      <DropdownMenuItem onClick={() => handleFilterChange('owner', undefined)}>
+                        All Owners
+                      </DropdownMenuItem>
+                      {TRADE_OWNERS.map(owner => (
+                        <DropdownMenuItem key={owner} onClick={() => handleFilterChange('owner', owner)}>
+                          {formatTradeOwner(owner)}
+                        </DropdownMenuItem>
+                      ))}
+                    </DropdownMenuContent>
+                  </DropdownMenu>
+                </div>
+                <div>
+                  <label className="text-sm font-medium mb-1 block">Asset Class</label>
+                  <DropdownMenu>
+                    <DropdownMenuTrigger asChild>
+                      <Button variant="outline" className="w-full justify-between">
+                        {filters.assetClass ? formatAssetClass(filters.assetClass) : 'All Assets'}
+                        <ChevronDown className="h-4 w-4" />
+                      </Button>
+                    </DropdownMenuTrigger>
+                    <DropdownMenuContent>
+                      <DropdownMenuItem onClick={() => handleFilterChange('assetClass', undefined)}>
+                        All Assets
+                      </DropdownMenuItem>
+                      {ASSET_CLASSES.map(assetClass => (
+                        <DropdownMenuItem key={assetClass} onClick={() => handleFilterChange('assetClass', assetClass)}>
+                          {formatAssetClass(assetClass)}
+                        </DropdownMenuItem>
+                      ))}
+                    </DropdownMenuContent>
+                  </DropdownMenu>
+                </div>
                 <div>
                   <label className="text-sm font-medium mb-1 block">Stock Symbol</label>
                   <Input
@@ -499,6 +574,25 @@ export function TradeFeed({
                           }
                         </button>
                         {getTransactionBadge(trade.transactionType)}
+                        {trade.owner && (
+                          <Badge variant="outline">{formatTradeOwner(trade.owner)}</Badge>
+                        )}
+                        {trade.assetClass && trade.assetClass !== 'stock' && (
+                          <Badge variant="secondary">
+                            {trade.assetClass === 'option' ? formatOptionTerms(trade) : formatAssetClass(trade.assetClass)}
+                          </Badge>
+                        )}
+                        {trade.status === 'amended' && (
+                          <Badge variant="secondary" title={`Revision ${trade.revision}`}>Amended</Badge>
+                        )}
+                        {trade.status === 'withdrawn' && (
+                          <Badge variant="destructive">Withdrawn</Badge>
+                        )}
+                        {trade.lateFiling && (
+                          <Badge variant="destructive" title={`Disclosed ${trade.filingLagDays} days after the trade`}>
+                            Late filing
+                          </Badge>
+                        )}
                       </div>
 
                       <div className="flex items-center gap-2 mb-2">
@@ -546,6 +640,7 @@ export function TradeFeed({
                     )}
                     <div className="text-xs text-muted-foreground">
                       Filed: {formatDate(trade.filingDate || trade.transactionDate)}
+                      {trade.filingLagDays !== undefined && ` (${trade.filingLagDays}d)`}
                     </div>
                     {(trade as ExtendedStockTrade).sourceData?.originalData?.link && (
                       <Button
@@ -591,7 +686,9 @@ export function TradeFeed({
                     startDate: filters.startDate,
                     endDate: filters.endDate,
                     transactionType: filters.transactionType,
-                    tickerSymbol: filters.tickerSymbol
+                    tickerSymbol: filters.tickerSymbol,
+                    owner: filters.owner,
+                    assetClass: filters.assetClass
                   }
                 })
 
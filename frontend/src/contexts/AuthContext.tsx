@@ -3,21 +3,31 @@
 import { createContext, useContext, useEffect, useState, ReactNode } from 'react';
 import { useSession, signIn, signOut, SessionProvider } from 'next-auth/react';
 import { Session } from 'next-auth';
+import { UserRole } from '@/types/api';
+import { authApi } from '@/lib/api';
 
 interface User {
   id: string;
   email: string;
   name: string;
   subscriptionStatus?: 'active' | 'suspended' | 'cancelled';
+  role: UserRole;
   lastLoginAt?: Date;
+  twoFactorSetupRequired?: boolean;
 }
 
+/**
+ * The password was right, but the account also needs an authenticator or
+ * recovery code; the message says whether one was missing or wrong
+ */
+export class TwoFactorRequiredError extends Error {}
+
 interface AuthContextType {
   user: User | null;
   session: Session | null;
   isLoading: boolean;
   isAuthenticated: boolean;
-  login: (email: string, password: string) => Promise<void>;
+  login: (email: string, password: string, twoFactorCode?: string) => Promise<void>;
   logout: () => Promise<void>;
   register: (email: string, password: string, name: string) => Promise<void>;
 }
@@ -34,6 +44,13 @@ function AuthProviderInner({ children }: AuthProviderProps) {
   const isLoading = status === 'loading';
   const isAuthenticated = !!session && !!user;
 
+  // The session was revoked or expired on the server
+  useEffect(() => {
+    if (session?.error === 'RefreshAccessTokenError') {
+      signOut({ redirect: false });
+    }
+  }, [session?.error]);
+
   useEffect(() => {
     if (session?.user) {
       // Transform NextAuth session user to our User type
@@ -42,21 +59,32 @@ function AuthProviderInner({ children }: AuthProviderProps) {
         email: session.user.email || '',
         name: session.user.name || '',
         subscriptionStatus: session.user.subscriptionStatus,
+        role: session.user.role || 'user',
         lastLoginAt: session.user.lastLoginAt ? new Date(session.user.lastLoginAt) : undefined,
+        twoFactorSetupRequired: session.user.twoFactorSetupRequired,
       });
     } else {
       setUser(null);
     }
   }, [session]);
 
-  const login = async (email: string, password: string): Promise<void> => {
+  const login = async (email: string, password: string, twoFactorCode?: string): Promise<void> => {
     try {
       const result = await signIn('credentials', {
         email,
         password,
+        twoFactorCode,
         redirect: false,
       });
 
+      if (result?.code === 'two_factor_required') {
+        throw new TwoFactorRequiredError('Enter the code from your authenticator app');
+      }
+
+      if (result?.code === 'two_factor_invalid') {
+        throw new TwoFactorRequiredError('Invalid authentication code');
+      }
+
       if (result?.error) {
         throw new Error(result.error);
       }
@@ -65,12 +93,17 @@ function AuthProviderInner({ children }: AuthProviderProps) {
         throw new Error('Login failed');
       }
     } catch (error) {
+      if (error instanceof TwoFactorRequiredError) {
+        throw error;
+      }
       throw new Error(error instanceof Error ? error.message : 'Login failed');
     }
   };
 
   const logout = async (): Promise<void> => {
     try {
+      // End the server-side session too; signing out locally matters more
+      await authApi.logout().catch(error => console.warn('Failed to end server session:', error));
       await signOut({ redirect: false });
       setUser(null);
     } catch {
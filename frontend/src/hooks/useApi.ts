@@ -296,7 +296,7 @@ export function useNotifications(
     () => api.notifications.getNotifications(filters),
     {
       ...defaultConfig,
-      refreshInterval: 30000, // Check for new notifications every 30 seconds
+      // New notifications are pushed over the trade stream, which revalidates this key
       ...config,
     }
   );
@@ -0,0 +1,121 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { StockTrade, TradeStreamEventType, TradeStreamNotification } from '../../../shared/types/api';
+import { api } from '../lib/api';
+
+interface TradeStreamHandlers {
+  onTrade?: (trade: StockTrade) => void;
+  onNotification?: (notification: TradeStreamNotification) => void;
+  enabled?: boolean;
+}
+
+const RECONNECT_BASE_DELAY = 1000;
+const RECONNECT_MAX_DELAY = 30000;
+
+// Split a buffered SSE chunk into complete events, returning the unparsed remainder
+function parseEvents(buffer: string): {
+  events: Array<{ id?: string; event: string; data: string }>;
+  rest: string;
+} {
+  const blocks = buffer.replace(/\r\n/g, '\n').split('\n\n');
+  const rest = blocks.pop() || '';
+  const events = blocks.map(block => {
+    let id: string | undefined;
+    let event = 'message';
+    const data: string[] = [];
+
+    for (const line of block.split('\n')) {
+      if (line.startsWith(':')) continue; // heartbeat comment
+      const separator = line.indexOf(':');
+      const field = separator === -1 ? line : line.slice(0, separator);
+      const value = separator === -1 ? '' : line.slice(separator + 1).replace(/^ /, '');
+
+      if (field === 'id') id = value;
+      else if (field === 'event') event = value;
+      else if (field === 'data') data.push(value);
+    }
+
+    return { id, event, data: data.join('\n') };
+  });
+
+  return { events: events.filter(e => e.data), rest };
+}
+
+/**
+ * Subscribe to GET /trades/stream. New trades are delivered to everyone;
+ * alert notifications only when signed in. Reconnects with backoff and
+ * resumes from the last event received.
+ */
+export function useTradeStream({ onTrade, onNotification, enabled = true }: TradeStreamHandlers) {
+  const [connected, setConnected] = useState(false);
+  const handlers = useRef({ onTrade, onNotification });
+  const lastEventId = useRef<string | undefined>(undefined);
+
+  useEffect(() => {
+    handlers.current = { onTrade, onNotification };
+  }, [onTrade, onNotification]);
+
+  useEffect(() => {
+    if (!enabled || typeof fetch === 'undefined' || typeof TextDecoder === 'undefined') {
+      return;
+    }
+
+    const controller = new AbortController();
+    let retryTimer: ReturnType<typeof setTimeout> | undefined;
+    let attempt = 0;
+
+    const dispatch = (event: TradeStreamEventType, data: string) => {
+      try {
+        const payload = JSON.parse(data);
+        if (event === 'trade') handlers.current.onTrade?.(payload as StockTrade);
+        if (event === 'notification') handlers.current.onNotification?.(payload as TradeStreamNotification);
+      } catch (error) {
+        console.warn('Ignoring malformed trade stream event:', error);
+      }
+    };
+
+    const connect = async () => {
+      try {
+        const response = await api.stream.openTradeStream(lastEventId.current, controller.signal);
+        const reader = response.body!.getReader();
+        const decoder = new TextDecoder();
+        let buffer = '';
+
+        setConnected(true);
+        attempt = 0;
+
+        while (true) {
+          const { value, done } = await reader.read();
+          if (done) break;
+
+          const parsed = parseEvents(buffer + decoder.decode(value, { stream: true }));
+          buffer = parsed.rest;
+          for (const { id, event, data } of parsed.events) {
+            if (id) lastEventId.current = id;
+            if (event === 'trade' || event === 'notification') dispatch(event, data);
+          }
+        }
+      } catch (error) {
+        if (controller.signal.aborted) return;
+        console.warn('Trade stream disconnected:', error);
+      }
+
+      setConnected(false);
+      if (!controller.signal.aborted) {
+        const delay = Math.min(RECONNECT_BASE_DELAY * Math.pow(2, attempt++), RECONNECT_MAX_DELAY);
+        retryTimer = setTimeout(connect, delay);
+      }
+    };
+
+    connect();
+
+    return () => {
+      controller.abort();
+      if (retryTimer) clearTimeout(retryTimer);
+      setConnected(false);
+    };
+  }, [enabled]);
+
+  return { connected };
+}
@@ -6,9 +6,12 @@ import {
   LoginRequest,
   RegisterRequest,
   AuthResponse,
+  User,
+  UserSession,
   CongressionalMember,
   StockTicker,
   StockTrade,
+  TradeHistory,
   UserAlert,
   UserFollow,
   AlertNotification,
@@ -19,7 +22,19 @@ import {
   SearchRequest,
   SearchResponse,
   NotificationFilters,
-  PortfolioConcentration
+  PortfolioConcentration,
+  LateFilersLeaderboard,
+  AssetClassBreakdown,
+  SyncRun,
+  SyncRunType,
+  SyncRunStatus,
+  ApiKey,
+  ApiKeyScope,
+  CreateApiKeyResponse,
+  TwoFactorStatus,
+  TwoFactorEnrollment,
+  AppSettings,
+  InsiderActivity
 } from '../../../shared/types/api'
 
 // API Configuration
@@ -62,6 +77,20 @@ export class ValidationError extends ApiError {
   }
 }
 
+// Get the backend JWT from the NextAuth session
+const getSessionToken = async (): Promise<string | undefined> => {
+  const session = await getSession()
+
+  // For NextAuth, the token might be in different places depending on configuration
+  // We'll check for common JWT token locations
+  const sessionData = session as unknown as Record<string, unknown> | null;
+  const token = sessionData?.accessToken ||
+               sessionData?.access_token ||
+               sessionData?.token
+
+  return typeof token === 'string' ? token : undefined
+}
+
 // Create axios instance with default configuration
 const createApiClient = (): AxiosInstance => {
   const client = axios.create({
@@ -77,15 +106,7 @@ const createApiClient = (): AxiosInstance => {
   client.interceptors.request.use(
     async (config) => {
       try {
-        // Get session from NextAuth
-        const session = await getSession()
-        
-        // For NextAuth, the token might be in different places depending on configuration
-        // We'll check for common JWT token locations
-        const sessionData = session as unknown as Record<string, unknown> | null;
-        const token = sessionData?.accessToken ||
-                     sessionData?.access_token ||
-                     sessionData?.token
+        const token = await getSessionToken()
         
         if (token) {
           config.headers.Authorization = `Bearer ${token}`
@@ -206,8 +227,78 @@ export const authApi = {
     return request('GET', '/auth/profile')
   },
 
-  async refreshToken(): Promise<AuthResponse> {
-    return request<AuthResponse>('POST', '/auth/refresh')
+  async refreshToken(refreshToken: string): Promise<AuthResponse> {
+    return request<AuthResponse>('POST', '/auth/refresh', { refreshToken })
+  },
+
+  async logout(): Promise<void> {
+    return request<void>('POST', '/auth/logout')
+  },
+
+  async getSessions(): Promise<UserSession[]> {
+    return request<UserSession[]>('GET', '/auth/sessions')
+  },
+
+  async revokeSession(id: string): Promise<void> {
+    return request<void>('DELETE', `/auth/sessions/${id}`)
+  },
+
+  async revokeAllSessions(): Promise<{ revoked: number }> {
+    return request<{ revoked: number }>('DELETE', '/auth/sessions')
+  },
+
+  async requestPasswordReset(email: string): Promise<void> {
+    return request<void>('POST', '/auth/password/reset-request', { email })
+  },
+
+  async resetPassword(token: string, newPassword: string): Promise<void> {
+    return request<void>('POST', '/auth/password/reset', { token, newPassword })
+  },
+
+  async verifyEmail(token: string): Promise<{ user: User }> {
+    return request<{ user: User }>('POST', '/auth/email/verify', { token })
+  },
+
+  async resendVerificationEmail(): Promise<void> {
+    return request<void>('POST', '/auth/email/verify/resend')
+  },
+}
+
+// API keys API
+export const apiKeysApi = {
+  async getApiKeys(): Promise<ApiKey[]> {
+    return request<ApiKey[]>('GET', '/auth/api-keys')
+  },
+
+  async createApiKey(data: { name: string; scopes: ApiKeyScope[] }): Promise<CreateApiKeyResponse> {
+    return request<CreateApiKeyResponse>('POST', '/auth/api-keys', data)
+  },
+
+  async revokeApiKey(id: string): Promise<ApiKey> {
+    return request<ApiKey>('DELETE', `/auth/api-keys/${id}`)
+  },
+}
+
+// Two-factor authentication API
+export const twoFactorApi = {
+  async getStatus(): Promise<TwoFactorStatus> {
+    return request<TwoFactorStatus>('GET', '/auth/2fa')
+  },
+
+  async startSetup(): Promise<TwoFactorEnrollment> {
+    return request<TwoFactorEnrollment>('POST', '/auth/2fa/setup')
+  },
+
+  async enable(code: string): Promise<{ recoveryCodes: string[] }> {
+    return request<{ recoveryCodes: string[] }>('POST', '/auth/2fa/enable', { code })
+  },
+
+  async disable(password: string, code: string): Promise<void> {
+    return request<void>('POST', '/auth/2fa/disable', { password, code })
+  },
+
+  async regenerateRecoveryCodes(code: string): Promise<{ recoveryCodes: string[] }> {
+    return request<{ recoveryCodes: string[] }>('POST', '/auth/2fa/recovery-codes', { code })
   },
 }
 
@@ -228,6 +319,10 @@ export const tradesApi = {
     return request<StockTrade>('GET', `/trades/${id}`)
   },
 
+  async getTradeHistory(id: string): Promise<TradeHistory> {
+    return request<TradeHistory>('GET', `/trades/${id}/history`)
+  },
+
   async getPoliticianTrades(politicianId: string, filters?: TradeFilters): Promise<PaginatedResponse<StockTrade>> {
     return request<PaginatedResponse<StockTrade>>(
       'GET',
@@ -273,6 +368,10 @@ export const stocksApi = {
   async getStockBySymbol(symbol: string): Promise<StockTicker> {
     return request<StockTicker>('GET', `/stocks/${symbol}`)
   },
+
+  async getInsiderActivity(symbol: string, params?: { days?: number; limit?: number }): Promise<InsiderActivity> {
+    return request<InsiderActivity>('GET', `/stocks/${symbol}/insiders`, undefined, { params })
+  },
 }
 
 // Alerts API
@@ -334,6 +433,40 @@ export const analyticsApi = {
   async getRankings(params?: { metric?: string; limit?: number }): Promise<unknown> {
     return request('GET', '/analytics/rankings', undefined, { params })
   },
+
+  async getLateFilers(params?: { timeframe?: string; chamber?: string; minTrades?: number; limit?: number }): Promise<LateFilersLeaderboard> {
+    return request<LateFilersLeaderboard>('GET', '/analytics/late-filers', undefined, { params })
+  },
+
+  async getAssetClasses(params?: { timeframe?: string; traderId?: string }): Promise<AssetClassBreakdown> {
+    return request<AssetClassBreakdown>('GET', '/analytics/asset-classes', undefined, { params })
+  },
+}
+
+// Trade sync runs (admin)
+export const syncApi = {
+  async getRuns(params?: { runType?: SyncRunType; status?: SyncRunStatus; limit?: number; offset?: number }): Promise<{ runs: SyncRun[]; total: number }> {
+    return request<{ runs: SyncRun[]; total: number }>('GET', '/sync/runs', undefined, { params })
+  },
+
+  async getRun(id: string): Promise<SyncRun> {
+    return request<SyncRun>('GET', `/sync/runs/${id}`)
+  },
+
+  async syncNow(): Promise<{ runId: string; runUrl: string }> {
+    return request<{ runId: string; runUrl: string }>('POST', '/sync/now')
+  },
+}
+
+// Admin settings
+export const adminApi = {
+  async getSettings(): Promise<AppSettings> {
+    return request<AppSettings>('GET', '/admin/settings')
+  },
+
+  async updateSettings(settings: Partial<AppSettings>): Promise<AppSettings> {
+    return request<AppSettings>('PUT', '/admin/settings', settings)
+  },
 }
 
 // Notifications API
@@ -353,6 +486,34 @@ export const notificationsApi = {
   },
 }
 
+// Live trade stream (Server-Sent Events). Uses fetch rather than EventSource
+// so the auth token travels in a header instead of the URL.
+export const streamApi = {
+  async openTradeStream(lastEventId?: string, signal?: AbortSignal): Promise<Response> {
+    const headers: Record<string, string> = { Accept: 'text/event-stream' }
+
+    try {
+      const token = await getSessionToken()
+      if (token) {
+        headers.Authorization = `Bearer ${token}`
+      }
+    } catch (error) {
+      console.warn('Failed to get session for trade stream:', error)
+    }
+
+    if (lastEventId) {
+      headers['Last-Event-ID'] = lastEventId
+    }
+
+    const response = await fetch(`${API_BASE_URL}/trades/stream`, { headers, signal, cache: 'no-store' })
+    if (!response.ok || !response.body) {
+      throw new ApiError(`Trade stream unavailable (HTTP ${response.status})`, response.status)
+    }
+
+    return response
+  },
+}
+
 // Health check
 export const healthApi = {
   async check(): Promise<{ status: string; timestamp: string }> {
@@ -366,6 +527,8 @@ export { apiClient }
 // Export all APIs as a grouped object
 export const api = {
   auth: authApi,
+  apiKeys: apiKeysApi,
+  twoFactor: twoFactorApi,
   search: searchApi,
   trades: tradesApi,
   politicians: politiciansApi,
@@ -374,6 +537,9 @@ export const api = {
   follows: followsApi,
   analytics: analyticsApi,
   notifications: notificationsApi,
+  sync: syncApi,
+  admin: adminApi,
+  stream: streamApi,
   health: healthApi,
 }
 
@@ -1,5 +1,6 @@
 import type { NextAuthConfig } from 'next-auth';
 import CredentialsProvider from 'next-auth/providers/credentials';
+import type { UserRole } from '@/types/api';
 
 declare module 'next-auth' {
   interface Session {
@@ -8,7 +9,9 @@ declare module 'next-auth' {
       email: string;
       name: string;
       subscriptionStatus?: 'active' | 'suspended' | 'cancelled';
+      role?: UserRole;
       lastLoginAt?: string;
+      twoFactorSetupRequired?: boolean;
     };
     accessToken?: string;
   }
@@ -18,6 +21,7 @@ declare module 'next-auth' {
     email: string;
     name: string;
     subscriptionStatus?: 'active' | 'suspended' | 'cancelled';
+    role?: UserRole;
     lastLoginAt?: string;
     accessToken?: string;
   }
@@ -62,6 +66,7 @@ export const authConfig: NextAuthConfig = {
               email: data.user.email,
               name: data.user.name,
               subscriptionStatus: data.user.subscriptionStatus,
+              role: data.user.role,
               lastLoginAt: data.user.lastLoginAt,
               accessToken: data.token,
             };
@@ -83,6 +88,7 @@ export const authConfig: NextAuthConfig = {
         token.email = user.email;
         token.name = user.name;
         token.subscriptionStatus = user.subscriptionStatus;
+        token.role = user.role;
         token.lastLoginAt = user.lastLoginAt;
         token.accessToken = user.accessToken;
       }
@@ -95,6 +101,7 @@ export const authConfig: NextAuthConfig = {
         session.user.email = token.email as string;
         session.user.name = token.name as string;
         session.user.subscriptionStatus = token.subscriptionStatus as 'active' | 'suspended' | 'cancelled' | undefined;
+        session.user.role = token.role as UserRole | undefined;
         session.user.lastLoginAt = token.lastLoginAt as string | undefined;
         session.accessToken = token.accessToken as string | undefined;
       }
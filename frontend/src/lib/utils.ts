@@ -1,6 +1,49 @@
 import { clsx, type ClassValue } from "clsx"
 import { twMerge } from "tailwind-merge"
+import type { AssetClass, StockTrade, TradeOwner } from "@/types/api"
 
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs))
 }
+
+const TRADE_OWNER_LABELS: Record<TradeOwner, string> = {
+  self: 'Self',
+  spouse: 'Spouse',
+  joint: 'Joint',
+  child: 'Child',
+}
+
+export const TRADE_OWNERS = Object.keys(TRADE_OWNER_LABELS) as TradeOwner[]
+
+export function formatTradeOwner(owner: TradeOwner) {
+  return TRADE_OWNER_LABELS[owner]
+}
+
+const ASSET_CLASS_LABELS: Record<AssetClass, string> = {
+  stock: 'Stock',
+  option: 'Option',
+  etf: 'ETF',
+  mutual_fund: 'Mutual Fund',
+  bond: 'Bond',
+  crypto: 'Crypto',
+  other: 'Other',
+}
+
+export const ASSET_CLASSES = Object.keys(ASSET_CLASS_LABELS) as AssetClass[]
+
+export function formatAssetClass(assetClass: AssetClass) {
+  return ASSET_CLASS_LABELS[assetClass]
+}
+
+// e.g. "Call $150 exp Dec 20, 2024"; options without parsed terms show what is known
+export function formatOptionTerms(trade: Pick<StockTrade, 'optionType' | 'strikePrice' | 'expirationDate'>) {
+  const parts = [trade.optionType === 'put' ? 'Put' : trade.optionType === 'call' ? 'Call' : 'Option']
+  if (trade.strikePrice !== undefined && trade.strikePrice !== null) {
+    parts.push(`$${Number(trade.strikePrice).toLocaleString('en-US', { maximumFractionDigits: 2 })}`)
+  }
+  if (trade.expirationDate) {
+    const expiry = new Date(trade.expirationDate)
+    parts.push(`exp ${expiry.toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric', timeZone: 'UTC' })}`)
+  }
+  return parts.join(' ')
+}
@@ -544,7 +544,7 @@ describe('useApi Hooks', () => {
 
   describe('Notifications Hooks', () => {
     describe('useNotifications', () => {
-      it('should fetch notifications with 30 second refresh', () => {
+      it('should fetch notifications without polling', () => {
         const filters = { page: 1, limit: 10, read: false }
         const mockResponse = {
           items: [{ id: '1', message: 'New trade alert', read: false }],
@@ -559,7 +559,7 @@ describe('useApi Hooks', () => {
           ['/notifications', filters],
           expect.any(Function),
           expect.objectContaining({
-            refreshInterval: 30000,
+            refreshInterval: 0,
           })
         )
         expect(result.current.data).toEqual(mockResponse)
@@ -139,17 +139,17 @@ describe('API Client', () => {
     })
 
     it('should refresh token', async () => {
-      const tokenData = { token: 'new-token' }
+      const tokenData = { token: 'new-token', refreshToken: 'new-refresh-token', expiresIn: 900 }
       mockAxiosInstance.request.mockResolvedValue({
         data: { success: true, data: tokenData, message: 'Success' }
       })
 
-      const result = await authApi.refreshToken()
+      const result = await authApi.refreshToken('old-refresh-token')
 
       expect(mockAxiosInstance.request).toHaveBeenCalledWith({
         method: 'POST',
         url: '/auth/refresh',
-        data: undefined,
+        data: { refreshToken: 'old-refresh-token' },
       })
       expect(result).toEqual(tokenData)
     })
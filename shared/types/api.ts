@@ -34,17 +34,36 @@ export interface RegisterRequest {
 
 export interface AuthResponse {
   user: User;
-  token: string;
+  token: string; // Short-lived access token
+  refreshToken?: string; // Single use; exchanged at /auth/refresh for a new pair
+  expiresIn?: number; // Seconds until the access token expires
+  twoFactorSetupRequired?: boolean; // Admins must enable 2FA before using admin features
+}
+
+export interface UserSession {
+  id: string;
+  userAgent?: string;
+  ipAddress?: string;
+  createdAt: string;
+  lastSeenAt: string;
+  expiresAt: string;
+  current: boolean; // The session making the request
 }
 
 // Core entity types
+// Each role includes the ones before it
+export type UserRole = 'user' | 'analyst' | 'admin';
+
 export interface User {
   id: string;
   email: string;
   name?: string;
   subscriptionStatus: 'active' | 'suspended' | 'cancelled';
+  role?: UserRole;
   createdAt: string;
   lastLoginAt?: string;
+  emailVerifiedAt?: string; // Unset until the address is confirmed
+  twoFactorEnabledAt?: string; // Set while two-factor authentication is on
 }
 
 export interface CongressionalMember {
@@ -56,6 +75,7 @@ export interface CongressionalMember {
   partyAffiliation?: 'democratic' | 'republican' | 'independent' | 'other';
   officeStartDate?: string;
   officeEndDate?: string;
+  bioguideId?: string;
   createdAt: string;
   updatedAt: string;
 }
@@ -66,10 +86,51 @@ export interface CorporateInsider {
   companyName: string;
   position?: string;
   tickerSymbol?: string;
+  cik?: string;
+  companyCik?: string;
   createdAt: string;
   updatedAt: string;
 }
 
+// One transaction of an insider's SEC Form 4 filing
+export interface InsiderTransaction {
+  tradeId: string;
+  transactionCode: string; // P purchase, S sale, M option exercise, A award, G gift, ...
+  label: string;
+  openMarket: boolean; // only P and S count as insider buying or selling
+  acquiredDisposed?: 'A' | 'D';
+  shares?: number;
+  pricePerShare?: number;
+  sharesOwnedAfter?: number;
+  securityName?: string;
+  ownerType?: string;
+  reportingCik?: string;
+  companyCik?: string;
+  filingUrl?: string;
+}
+
+export interface InsiderActivity {
+  symbol: string;
+  days: number;
+  summary: {
+    purchases: number;
+    sales: number;
+    purchaseValue: number;
+    saleValue: number;
+    buyers: number;
+    sellers: number;
+    otherTransactions: number;
+    signal: 'buying' | 'selling' | 'neutral';
+  };
+  transactions: Array<InsiderTransaction & {
+    insiderId: string;
+    insiderName: string;
+    transactionDate: string;
+    filingDate?: string;
+    value?: number;
+  }>;
+}
+
 export interface StockTicker {
   symbol: string;
   companyName: string;
@@ -81,6 +142,12 @@ export interface StockTicker {
   createdAt: string;
 }
 
+export type TradeOwner = 'self' | 'spouse' | 'joint' | 'child';
+export type TradeStatus = 'active' | 'amended' | 'withdrawn';
+export type TradeDataSource = 'fmp' | 'file' | 'house_clerk' | 'senate_efd';
+export type AssetClass = 'stock' | 'option' | 'etf' | 'mutual_fund' | 'bond' | 'crypto' | 'other';
+export type OptionType = 'call' | 'put';
+
 export interface StockTrade {
   id: string;
   traderType: 'congressional' | 'corporate';
@@ -92,12 +159,153 @@ export interface StockTrade {
   estimatedValue?: number;
   quantity?: number;
   filingDate?: string;
+  owner?: TradeOwner;
+  dataSource?: TradeDataSource;
+  status?: TradeStatus;
+  revision?: number;
+  filingLagDays?: number;
+  lateFiling?: boolean;
+  assetClass?: AssetClass; // unset until the trade has been classified
+  optionType?: OptionType;
+  strikePrice?: number;
+  expirationDate?: string;
+  insiderTransaction?: InsiderTransaction; // corporate trades fetched by ID
   trader?: CongressionalMember | CorporateInsider;
   stock?: StockTicker;
   createdAt: string;
   updatedAt: string;
 }
 
+export interface TradeRevision {
+  id: string;
+  tradeId: string;
+  revision: number;
+  status: TradeStatus;
+  changes: Record<string, { from: string | number | null; to: string | number | null }>;
+  reason?: string;
+  recordedAt: string;
+}
+
+export interface TradeHistory {
+  trade: StockTrade;
+  revisions: TradeRevision[];
+}
+
+export interface MemberFilingStats {
+  filingWindowDays: number;
+  filedTrades: number;
+  lateFilings: number;
+  lateFilingRate: number;
+  avgLagDays: number | null;
+  medianLagDays: number | null;
+  maxLagDays: number | null;
+  latestLateFiling: {
+    tradeId: string;
+    tickerSymbol: string;
+    transactionDate: string;
+    filingDate: string;
+    lagDays: number;
+  } | null;
+}
+
+export interface LateFiler {
+  rank: number;
+  memberId: string;
+  name: string;
+  position: string;
+  stateCode: string;
+  partyAffiliation: string | null;
+  filedTrades: number;
+  lateFilings: number;
+  lateFilingShare: number;
+  avgFilingLagDays: number;
+  maxFilingLagDays: number;
+}
+
+export interface LateFilersLeaderboard {
+  timeframe: 'quarter' | 'year' | 'all';
+  chamber: 'house' | 'senate' | 'all';
+  filingWindowDays: number;
+  minTrades: number;
+  leaders: LateFiler[];
+}
+
+export interface AssetClassBreakdown {
+  timeframe: 'month' | 'quarter' | 'year' | 'all';
+  traderId?: string;
+  totalTrades: number;
+  classes: Array<{
+    assetClass: AssetClass | 'unclassified';
+    trades: number;
+    totalValue: number;
+    buyValue: number;
+    sellValue: number;
+    netFlow: number;
+    percentage: number;
+    optionTypes?: Partial<Record<OptionType, { trades: number; totalValue: number }>>;
+  }>;
+}
+
+export type SyncRunType = 'daily' | 'incremental' | 'backfill' | 'file';
+export type SyncRunStatus = 'running' | 'succeeded' | 'failed';
+
+export interface SyncRun {
+  id: string;
+  runType: SyncRunType;
+  trigger: 'scheduled' | 'manual' | 'cli';
+  status: SyncRunStatus;
+  dataSource?: string;
+  triggeredBy?: string;
+  startedAt: string;
+  finishedAt?: string;
+  durationMs?: number;
+  processedCount: number;
+  createdCount: number;
+  updatedCount: number;
+  skippedCount: number;
+  errorCount: number;
+  errors: string[];
+  progress?: { type: string; current: number; total: number }; // while running
+  progressUpdatedAt?: string;
+  fmpRequests?: number;
+  fmpRateLimit?: Record<'minute' | 'hour' | 'day', { used: number; limit: number; resetIn: number }>;
+}
+
+export type ApiKeyScope = 'read:trades' | 'read:analytics' | 'manage:alerts';
+
+export interface ApiKey {
+  id: string;
+  userId: string;
+  name: string;
+  keyPrefix: string; // first characters of the key, to tell keys apart
+  scopes: ApiKeyScope[];
+  lastUsedAt?: string;
+  revokedAt?: string;
+  createdAt: string;
+}
+
+export interface CreateApiKeyResponse {
+  apiKey: ApiKey;
+  key: string; // only returned when the key is created
+}
+
+export interface TwoFactorStatus {
+  enabled: boolean;
+  enabledAt?: string;
+  recoveryCodesRemaining: number;
+  required: boolean; // Policy requires 2FA for this user
+}
+
+export interface TwoFactorEnrollment {
+  secret: string; // For entering into the app by hand
+  otpauthUrl: string;
+  qrCode: string; // PNG data URL
+}
+
+export interface AppSettings {
+  requireAdminTwoFactor: boolean;
+}
+
 export interface UserAlert {
   id: string;
   userId: string;
@@ -106,11 +314,45 @@ export interface UserAlert {
   politicianId?: string;
   tickerSymbol?: string;
   patternConfig?: Record<string, any>;
+  digestFrequency?: NotificationFrequency;
+  notifyOnAmendments?: boolean;
   createdAt: string;
   updatedAt: string;
   lastTriggeredAt?: string;
 }
 
+export type NotificationFrequency = 'immediate' | 'hourly' | 'daily' | 'weekly';
+
+export interface AlertDigestGroup {
+  key: string;
+  label: string;
+  trades: number;
+  buys: number;
+  sells: number;
+  totalValue: number;
+}
+
+export interface AlertDigest {
+  id: string;
+  userId: string;
+  frequency: Exclude<NotificationFrequency, 'immediate'>;
+  periodStart: string;
+  periodEnd: string;
+  notificationCount: number;
+  summary: {
+    totals: {
+      notifications: number;
+      trades: number;
+      buys: number;
+      sells: number;
+      totalValue: number;
+    };
+    byPolitician: AlertDigestGroup[];
+    byTicker: AlertDigestGroup[];
+  };
+  createdAt: string;
+}
+
 export interface UserFollow {
   id: string;
   userId: string;
@@ -127,7 +369,12 @@ export interface AlertNotification {
   alertId: string;
   userId: string;
   tradeId?: string;
+  tradeIds?: string[];
+  tradeRevision?: number;
   message: string;
+  digestFrequency?: Exclude<NotificationFrequency, 'immediate'>;
+  digestId?: string;
+  heldReason?: 'quiet_hours' | 'rate_limit';
   deliveredAt: string;
   readAt?: string;
   trade?: StockTrade;
@@ -168,6 +415,11 @@ export interface TradeFilters {
   maxValue?: number;
   tickerSymbol?: string;
   traderId?: string;
+  owner?: TradeOwner;
+  lateFiling?: boolean;
+  dataSource?: TradeDataSource;
+  assetClass?: AssetClass;
+  optionType?: OptionType;
   page?: number;
   limit?: number;
 }
@@ -177,10 +429,12 @@ export interface CreateAlertRequest {
   politicianId?: string;
   tickerSymbol?: string;
   patternConfig?: Record<string, any>;
+  notifyOnAmendments?: boolean;
 }
 
 export interface UpdateAlertRequest {
   alertStatus?: 'active' | 'paused' | 'deleted';
+  notifyOnAmendments?: boolean;
 }
 
 export interface CreateFollowRequest {
@@ -205,6 +459,19 @@ export interface SSENotification {
   };
 }
 
+// Live trade stream (GET /trades/stream) event payloads
+export type TradeStreamEventType = 'trade' | 'notification';
+
+export interface TradeStreamNotification {
+  id: string;
+  alertId: string | null; // null for digests
+  digestId?: string;
+  message: string;
+  tradeId: string | null;
+  tradeIds: string[];
+  createdAt: string;
+}
+
 // Error types
 export interface ApiError {
   error: string;